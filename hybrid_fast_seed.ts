@@ -19,6 +19,9 @@ import { parseArrayField } from './src/infrastructure/lancedb/utils/field-parser
 import {
   calculatePartitions,
   createOptimizedIndex,
+  createFullTextIndex,
+  hasFullTextIndex,
+  FULL_TEXT_INDEX_COLUMNS,
   buildCategoryIdMap
 } from './src/infrastructure/lancedb/seeding/index.js';
 import {
@@ -37,7 +40,12 @@ import { StageCache, type CachedDocumentData } from './src/infrastructure/checkp
 import { ConceptEnricher } from './src/concepts/concept_enricher.js';
 import { ParallelConceptExtractor, DocumentSet } from './src/concepts/parallel-concept-extractor.js';
 import { ProgressBarDisplay, createProgressBarDisplay } from './src/infrastructure/cli/progress-bar-display.js';
-import { SimpleEmbeddingService } from './src/infrastructure/embeddings/simple-embedding-service.js';
+import { createEmbeddingService, resolveEmbeddingSignature } from './src/infrastructure/embeddings/embedding-provider-factory.js';
+import { fitTfidfModel, saveTfidfModel, tfidfModelExists, resolveTfidfModelPath } from './src/infrastructure/embeddings/tfidf-model.js';
+import { EmbeddingMetadataStore, describeSignature } from './src/infrastructure/lancedb/embedding-metadata-store.js';
+import { VocabularyStore } from './src/infrastructure/lancedb/vocabulary-store.js';
+import { PassageIndexStore } from './src/infrastructure/lancedb/passage-index-store.js';
+import { Configuration } from './src/application/config/index.js';
 import { processWithTesseract } from './src/infrastructure/ocr/index.js';
 import { PaperDetector, detectDocumentType } from './src/infrastructure/document-loaders/paper-detector.js';
 import { PaperMetadataExtractor, extractPaperMetadata } from './src/infrastructure/document-loaders/paper-metadata-extractor.js';
@@ -46,9 +54,6 @@ import { MathContentHandler } from './src/infrastructure/document-loaders/math-c
 import { extractContentMetadata, ChunkData, ExtractedMetadata } from './src/infrastructure/document-loaders/content-metadata-extractor.js';
 import { MetaContentDetector } from './src/infrastructure/document-loaders/meta-content-detector.js';
 
-// Shared embedding service instance for consistent embeddings
-const embeddingService = new SimpleEmbeddingService();
-
 // Setup timestamped logging
 const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
 const logsDir = path.join(process.cwd(), 'logs');
@@ -171,6 +176,12 @@ const argv: minimist.ParsedArgs = minimist(process.argv.slice(2), {
 });
 
 const databaseDir = path.resolve(argv["dbpath"] || process.env.CONCEPT_RAG_DB_PATH || path.join(process.env.HOME || process.env.USERPROFILE || "~", ".concept_rag"));
+
+// Shared embedding service instance for consistent embeddings
+// (provider selected by EMBEDDING_PROVIDER / EMBEDDING_MODEL / EMBEDDING_MODEL_PATH;
+// the tfidf provider keeps its fitted model next to the database)
+const embeddingService = createEmbeddingService(Configuration.getInstance().embeddings, undefined, undefined, databaseDir);
+
 const filesDir = argv["filesdir"];
 const overwrite = argv["overwrite"];
 const rebuildConcepts = argv["rebuild-concepts"];
@@ -714,8 +725,9 @@ async function loadDocumentsWithErrorHandling(
                                                 source: docFile,
                                                 hash: hash,
                                                 page_number: chunk.page_number || 1,
-                                                // Preserve chunk ID for in-place updates
+                                                // Preserve chunk ID and ordinal for in-place updates
                                                 chunkId: chunk.id,
+                                                ...(chunk.chunk_index != null && { chunk_index: Number(chunk.chunk_index) }),
                                                 // Mark if needs concept enrichment
                                                 needsConceptEnrichment: needsChunkConcepts
                                             }
@@ -913,6 +925,49 @@ async function loadDocumentsWithErrorHandling(
     }
 }
 
+/**
+ * Leave `chunk_index` out of new chunk rows when the existing chunks table
+ * was seeded before chunk ordinals and has no such column (adding the rows
+ * would fail). Their reading order falls back to page order, like the rows
+ * already stored, until populate-chunk-index.ts backfills the column.
+ */
+async function withoutMissingChunkIndex(
+    table: lancedb.Table,
+    tableName: string,
+    data: Record<string, unknown>[]
+): Promise<Record<string, unknown>[]> {
+    if (!data.some(row => 'chunk_index' in row)) {
+        return data;
+    }
+    const schema = await table.schema();
+    if (schema.fields.some(field => field.name === 'chunk_index')) {
+        return data;
+    }
+    console.warn(`⚠️  ${tableName} has no chunk_index column (seeded before chunk ordinals): adding chunks without it. Backfill it with: npx tsx scripts/populate-chunk-index.ts ${databaseDir}`);
+    return data.map(({ chunk_index: _chunkIndex, ...row }) => row);
+}
+
+/**
+ * Embed texts with the configured provider in batches of EMBEDDING_BATCH_SIZE.
+ * Vectors are returned in input order.
+ */
+async function embedInBatches(texts: string[], label: string): Promise<number[][]> {
+    const batchSize = Math.max(1, Configuration.getInstance().embeddings.batchSize);
+    const vectors: number[][] = [];
+    
+    for (let i = 0; i < texts.length; i += batchSize) {
+        vectors.push(...await embeddingService.generateEmbeddings(texts.slice(i, i + batchSize)));
+        if (texts.length > batchSize) {
+            process.stdout.write(`\r  🧮 Embedding ${label}: ${Math.min(i + batchSize, texts.length)}/${texts.length}     `);
+        }
+    }
+    if (texts.length > batchSize) {
+        process.stdout.write('\r' + ' '.repeat(80) + '\r');
+    }
+    
+    return vectors;
+}
+
 async function createLanceTableWithSimpleEmbeddings(
     db: lancedb.Connection,
     documents: Document[],
@@ -921,7 +976,7 @@ async function createLanceTableWithSimpleEmbeddings(
     sourceToCatalogIdMap?: Map<string, number>
 ): Promise<lancedb.Table> {
     
-    console.log(`🔄 Creating simple embeddings for ${documents.length} ${tableName}...`);
+    console.log(`🔄 Creating embeddings for ${documents.length} ${tableName}...`);
     
     // Build category ID map for hash-based IDs
     const allCategories = new Set<string>();
@@ -934,7 +989,10 @@ async function createLanceTableWithSimpleEmbeddings(
     }
     const categoryIdMap = buildCategoryIdMap(allCategories);
     
-    // Generate fast local embeddings with normalized schema
+    // Generate embeddings with the configured provider (batched)
+    const vectors = await embedInBatches(documents.map(doc => doc.pageContent), tableName);
+    
+    // Build records with normalized schema
     const data = documents.map((doc, i) => {
         const isCatalog = tableName === 'catalog';
         
@@ -943,7 +1001,7 @@ async function createLanceTableWithSimpleEmbeddings(
         const baseData: any = {
             id: isCatalog ? hashToId(doc.metadata.source || `doc-${i}`) : hashToId(idSource),
             hash: doc.metadata.hash || '',
-            vector: embeddingService.generateEmbedding(doc.pageContent)
+            vector: vectors[i]
         };
         
         // Catalog uses 'summary', chunks use 'text'
@@ -955,6 +1013,8 @@ async function createLanceTableWithSimpleEmbeddings(
             baseData.text = doc.pageContent;
             // Extract page_number from loc.pageNumber (LangChain format) or direct field
             baseData.page_number = doc.metadata.page_number ?? doc.metadata.loc?.pageNumber ?? 1;
+            // 0-based position of the chunk in its document's reading order
+            baseData.chunk_index = doc.metadata.chunk_index;
             // ALWAYS include concept_ids, concept_names, concept_density for chunks schema
             // Use placeholder values for empty arrays to enable LanceDB type inference
             baseData.concept_ids = [0];  // Will be overwritten below if concepts exist
@@ -1139,29 +1199,26 @@ async function createLanceTableWithSimpleEmbeddings(
         
         return table;
     } else {
-        // Check if table already exists
-        try {
-            const existingTables = await db.tableNames();
-            if (existingTables.includes(tableName)) {
-                // Table exists, add to it
-                const table = await db.openTable(tableName);
-                if (data.length > 0) {
-                    await table.add(data);
-                    console.log(`✅ Added ${data.length} new records to existing table: ${tableName}`);
-                    
-                    // Get total record count to determine if we should rebuild index
-                    const totalCount = await table.countRows();
-                    const newPartitions = calculatePartitions(totalCount);
-                    
-                    // IVF_PQ requires at least 256 rows for PQ training
-                    if (totalCount >= 256) {
-                        await createOptimizedIndex(table, totalCount, newPartitions, tableName);
-                    }
+        // Check if table already exists (errors adding to it must not fall
+        // through to creating a table of the same name)
+        const existingTables = await db.tableNames();
+        if (existingTables.includes(tableName)) {
+            // Table exists, add to it
+            const table = await db.openTable(tableName);
+            if (data.length > 0) {
+                await table.add(await withoutMissingChunkIndex(table, tableName, data));
+                console.log(`✅ Added ${data.length} new records to existing table: ${tableName}`);
+                
+                // Get total record count to determine if we should rebuild index
+                const totalCount = await table.countRows();
+                const newPartitions = calculatePartitions(totalCount);
+                
+                // IVF_PQ requires at least 256 rows for PQ training
+                if (totalCount >= 256) {
+                    await createOptimizedIndex(table, totalCount, newPartitions, tableName);
                 }
-                return table;
             }
-        } catch (e) {
-            // Continue to create new table
+            return table;
         }
         
         // Create new table
@@ -1860,21 +1917,25 @@ async function createCategoriesTable(
         categorySummaries.set(key, value);
     }
     
-    for (const category of sortedCategories) {
+    // Generate simple descriptions
+    const describeCategory = (category: string) => `Concepts and practices related to ${category}`;
+    
+    // Embed all categories in bulk with the same provider as catalog/chunks
+    const categoryVectors = await embedInBatches(
+        sortedCategories.map(category => `${category}: ${describeCategory(category)}`),
+        'categories'
+    );
+    
+    for (const [index, category] of sortedCategories.entries()) {
         // Generate stable hash-based ID
         const categoryId = generateStableId(category, existingIds);
         existingIds.add(categoryId);
         
-        // Generate simple description
-        const description = `Concepts and practices related to ${category}`;
+        const description = describeCategory(category);
         
         // Get LLM-generated summary or fallback to description
         const summary = categorySummaries.get(category.toLowerCase()) || description;
         
-        // Generate embedding using simple embedding function (same as used for catalog/chunks)
-        const embeddingText = `${category}: ${description}`;
-        const vector = embeddingService.generateEmbedding(embeddingText);
-        
         const stats = categoryStats.get(category)!;
         
         categoryRecords.push({
@@ -1888,7 +1949,7 @@ async function createCategoriesTable(
             document_count: stats.documentCount,
             chunk_count: 0, // Will be updated when chunks are processed
             concept_count: 0, // Will be updated when concepts are processed
-            vector: vector
+            vector: categoryVectors[index]
         });
     }
     
@@ -1980,7 +2041,7 @@ async function rebuildConceptIndexFromExistingData(
     
     console.log(`  ✅ Loaded ${allChunkRecords.length} total chunks (${chunksWithConcepts.length} with concepts)`);
     
-    const conceptBuilder = new ConceptIndexBuilder();
+    const conceptBuilder = new ConceptIndexBuilder(embeddingService);
     // Pass actual catalog IDs from the database (foreign key constraint)
     const conceptRecords = await conceptBuilder.buildConceptIndex(catalogDocs, sourceToCatalogId);
     
@@ -2055,6 +2116,105 @@ async function rebuildConceptIndexFromExistingData(
     await createCategoriesTable(db, catalogDocs);
 }
 
+/** Tables whose `vector` column is produced by the embedding provider */
+const VECTOR_TABLE_NAMES = [
+    defaults.CATALOG_TABLE_NAME,
+    defaults.CHUNKS_TABLE_NAME,
+    defaults.CONCEPTS_TABLE_NAME,
+    defaults.CATEGORIES_TABLE_NAME
+];
+
+/**
+ * Refuse incremental seeding into tables embedded with a different provider/model:
+ * new vectors would be incomparable with the stored ones.
+ */
+async function verifyEmbeddingCompatibility(db: lancedb.Connection): Promise<void> {
+    const signature = resolveEmbeddingSignature(Configuration.getInstance().embeddings, databaseDir);
+    const existing = await db.tableNames();
+    const tables = new Map<string, lancedb.Table>();
+    for (const tableName of VECTOR_TABLE_NAMES.filter(name => existing.includes(name))) {
+        tables.set(tableName, await db.openTable(tableName));
+    }
+    
+    const checks = await new EmbeddingMetadataStore(db).check(tables, signature);
+    const mismatches = checks.filter(c => c.status === 'mismatch');
+    if (mismatches.length > 0) {
+        mismatches.forEach(c => console.error(`❌ Embedding mismatch: ${c.reason}`));
+        console.error(`   Use --overwrite to reseed, or re-embed first: npm run reembed -- --dbpath ${databaseDir}`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Record the embedding provider/model/dimensions used for all vector tables
+ * (after fitting, since a tfidf signature carries the model fingerprint).
+ */
+async function stampEmbeddingMetadata(db: lancedb.Connection): Promise<void> {
+    const signature = resolveEmbeddingSignature(Configuration.getInstance().embeddings, databaseDir);
+    const existing = await db.tableNames();
+    const tableNames = VECTOR_TABLE_NAMES.filter(name => existing.includes(name));
+    await new EmbeddingMetadataStore(db).stamp(tableNames, signature);
+    console.log(`🏷️  Embedding metadata: ${describeSignature(signature)} (${tableNames.join(', ')})`);
+}
+
+/**
+ * Rebuild the corpus vocabulary used to correct misspelled query terms.
+ */
+async function buildVocabulary(db: lancedb.Connection): Promise<void> {
+    const termCount = await new VocabularyStore(db).rebuild();
+    console.log(`🔤 Vocabulary: ${termCount.toLocaleString()} terms`);
+}
+
+/**
+ * Rebuild the shingle index used to find the chunks a passage is quoted from.
+ */
+async function buildPassageIndex(db: lancedb.Connection): Promise<void> {
+    const shingleCount = await new PassageIndexStore(db).rebuild();
+    console.log(`🧩 Passage index: ${shingleCount.toLocaleString()} shingles`);
+}
+
+/**
+ * Build the native full-text (BM25) indexes on catalog summaries and chunk
+ * text. With `onlyMissing`, existing indexes are kept (used when nothing was
+ * written, so databases seeded before full-text search gain the index).
+ */
+async function buildFullTextIndexes(db: lancedb.Connection, onlyMissing: boolean = false): Promise<void> {
+    const existing = await db.tableNames();
+    for (const [tableName, column] of Object.entries(FULL_TEXT_INDEX_COLUMNS)) {
+        if (!existing.includes(tableName)) continue;
+        const table = await db.openTable(tableName);
+        if (onlyMissing && await hasFullTextIndex(table, column)) continue;
+        await createFullTextIndex(table, column, tableName);
+    }
+}
+
+/**
+ * Fit the corpus TF-IDF/LSA model before anything is embedded (tfidf provider
+ * only). An existing model is reused unless reseeding with --overwrite, so
+ * incremental runs keep vectors comparable with those already stored.
+ */
+async function fitTfidfModelIfNeeded(docs: Document[], catalogRecords: Document[]): Promise<void> {
+    const embeddingConfig = Configuration.getInstance().embeddings;
+    if (embeddingConfig.provider !== 'tfidf') {
+        return;
+    }
+
+    const modelDir = resolveTfidfModelPath(embeddingConfig.modelPath, databaseDir);
+    if (!overwrite && tfidfModelExists(modelDir)) {
+        console.log(`🧮 Reusing TF-IDF model: ${modelDir}`);
+        return;
+    }
+
+    console.log(`🧮 Fitting TF-IDF/LSA model on ${docs.length + catalogRecords.length} texts...`);
+    const startTime = Date.now();
+    const model = fitTfidfModel(
+        [...docs, ...catalogRecords].map(doc => doc.pageContent),
+        { dimensions: embeddingConfig.dimensions }
+    );
+    saveTfidfModel(model, modelDir);
+    console.log(`✅ TF-IDF model saved to ${modelDir} (${model.vocabulary.length} terms, rank ${model.rank}, ${((Date.now() - startTime) / 1000).toFixed(1)}s)`);
+}
+
 async function hybridFastSeed() {
     const sourceDirs = await validateArgs();
     
@@ -2192,6 +2352,10 @@ async function processSourceDirectory(currentFilesDir: string) {
         // Chunks table doesn't exist yet, that's okay
     }
 
+    if (!overwrite) {
+        await verifyEmbeddingCompatibility(db);
+    }
+
     if (overwrite) {
         try {
             await db.dropTable(defaults.CATALOG_TABLE_NAME);
@@ -2298,6 +2462,10 @@ async function processSourceDirectory(currentFilesDir: string) {
                 
                 // Rebuild concept index from ALL existing catalog records and chunks
                 await rebuildConceptIndexFromExistingData(db, catalogTable, chunksTable);
+                await stampEmbeddingMetadata(db);
+                await buildFullTextIndexes(db, true);
+                await buildVocabulary(db);
+                await buildPassageIndex(db);
                 
                 // Display total concepts
                 try {
@@ -2332,6 +2500,8 @@ async function processSourceDirectory(currentFilesDir: string) {
             // Concepts table might not exist
         }
         
+        await buildFullTextIndexes(db, true);
+        
         const dbSize = await getDatabaseSize(databaseDir);
         console.log(`💾 Database size: ${dbSize}`);
         console.log("🎉 Seeding completed successfully (no changes needed)!");
@@ -2357,6 +2527,8 @@ async function processSourceDirectory(currentFilesDir: string) {
     console.log("🚀 Creating catalog with LLM summaries...");
     const { catalogRecords, processedInThisRun } = await processDocuments(rawDocs, seedingCheckpoint, parallelWorkers, stageCache, cacheOnly);
     
+    await fitTfidfModelIfNeeded(rawDocs, catalogRecords);
+
     if (catalogRecords.length > 0) {
         console.log("📊 Creating catalog table with fast local embeddings...");
         await createLanceTableWithSimpleEmbeddings(db, catalogRecords, defaults.CATALOG_TABLE_NAME, overwrite ? "overwrite" : undefined);
@@ -2404,6 +2576,15 @@ async function processSourceDirectory(currentFilesDir: string) {
         ? await splitter.splitDocuments(docsNeedingNewChunks)
         : [];
     
+    // Number chunks in reading order per document (pages are split in order)
+    const chunkOrdinals = new Map<string, number>();
+    for (const chunk of newChunks) {
+        const source = chunk.metadata.source;
+        const ordinal = chunkOrdinals.get(source) ?? 0;
+        chunk.metadata.chunk_index = ordinal;
+        chunkOrdinals.set(source, ordinal + 1);
+    }
+    
     // Mark reference chunks for papers
     // Build source -> references detection map
     const sourceReferencesMap = new Map<string, ReferencesDetectionResult>();
@@ -2604,6 +2785,8 @@ async function processSourceDirectory(currentFilesDir: string) {
             // This is more efficient than individual updates for large batches
             const chunkIds = batch.map(c => c.metadata.chunkId);
             
+            const vectors = await embeddingService.generateEmbeddings(batch.map(doc => doc.pageContent));
+            
             const chunkData = batch.map((doc, idx) => {
                 // Build concept IDs (native array)
                 // IMPORTANT: Lowercase concept names to match concepts table ID generation
@@ -2618,9 +2801,12 @@ async function processSourceDirectory(currentFilesDir: string) {
                     hash: doc.metadata.hash,
                     catalog_id: sourceToCatalogId.get(doc.metadata.source) || 0,
                     page_number: doc.metadata.page_number || 1,
-                    vector: embeddingService.generateEmbedding(doc.pageContent),
+                    vector: vectors[idx],
                     concept_ids: conceptIds
                 };
+                if (doc.metadata.chunk_index !== undefined) {
+                    data.chunk_index = doc.metadata.chunk_index;
+                }
                 
                 return data;
             });
@@ -2717,7 +2903,7 @@ async function processSourceDirectory(currentFilesDir: string) {
             }
         }
         
-        const conceptBuilder = new ConceptIndexBuilder();
+        const conceptBuilder = new ConceptIndexBuilder(embeddingService);
         
         // Build concept index from ALL catalog records using ACTUAL catalog IDs (foreign key constraint)
         const conceptRecords = await conceptBuilder.buildConceptIndex(allCatalogRecords, sourceToCatalogIdMap);
@@ -2822,6 +3008,11 @@ async function processSourceDirectory(currentFilesDir: string) {
 
     // Mark checkpoint as complete
     await seedingCheckpoint.setStage('complete');
+    
+    await stampEmbeddingMetadata(db);
+    await buildFullTextIndexes(db);
+    await buildVocabulary(db);
+    await buildPassageIndex(db);
 
     // Calculate database size
     const dbSize = await getDatabaseSize(databaseDir);
@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Build the passage index of an existing database
+ *
+ * Shingles the text of every chunk (runs of three stemmed words) and stores
+ * the shingles in the passage index table, which find_passage uses to find
+ * the chunks a quote comes from. Seeding builds the index automatically;
+ * this script adds it to databases seeded before passage search existed.
+ *
+ * Usage:
+ *   npx tsx scripts/build-passage-index.ts [--dbpath <path>]
+ */
+
+import * as lancedb from "@lancedb/lancedb";
+import minimist from 'minimist';
+import * as path from 'path';
+import { PassageIndexStore, PASSAGE_INDEX_TABLE_NAME } from '../src/infrastructure/lancedb/passage-index-store.js';
+
+const argv = minimist(process.argv.slice(2));
+const databaseDir = argv["dbpath"] || path.join(process.env.HOME || process.env.USERPROFILE || "~", ".concept_rag");
+
+async function buildPassageIndex(): Promise<void> {
+    console.log("🧩 Concept-RAG Passage Index Builder");
+    console.log("=".repeat(50));
+    console.log(`Database: ${databaseDir}`);
+
+    const db = await lancedb.connect(databaseDir);
+    const startTime = Date.now();
+    const shingleCount = await new PassageIndexStore(db).rebuild();
+
+    if (shingleCount === 0) {
+        console.log("\n⚠️  No chunk text to index");
+        console.log("   Run seeding first: npx tsx hybrid_fast_seed.ts --filesdir <path>");
+    } else {
+        console.log(`\n✅ ${shingleCount.toLocaleString()} shingles written to the ${PASSAGE_INDEX_TABLE_NAME} table (${((Date.now() - startTime) / 1000).toFixed(1)}s)`);
+        console.log("   Restart the MCP server to enable shingle matching in find_passage.");
+    }
+
+    await db.close();
+}
+
+buildPassageIndex().catch(error => {
+    console.error("\n❌ Passage index build failed:", error.message || error);
+    process.exit(1);
+});
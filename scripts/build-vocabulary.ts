@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Build the corpus vocabulary of an existing database
+ *
+ * Counts the terms of the concept names, document titles and chunk text and
+ * stores them in the vocabulary table, which the MCP server uses to correct
+ * misspelled query terms. Seeding builds the vocabulary automatically; this
+ * script adds it to databases seeded before spelling correction existed.
+ *
+ * Usage:
+ *   npx tsx scripts/build-vocabulary.ts [--dbpath <path>]
+ */
+
+import * as lancedb from "@lancedb/lancedb";
+import minimist from 'minimist';
+import * as path from 'path';
+import { VocabularyStore, VOCABULARY_TABLE_NAME } from '../src/infrastructure/lancedb/vocabulary-store.js';
+
+const argv = minimist(process.argv.slice(2));
+const databaseDir = argv["dbpath"] || path.join(process.env.HOME || process.env.USERPROFILE || "~", ".concept_rag");
+
+async function buildVocabulary(): Promise<void> {
+    console.log("🔤 Concept-RAG Vocabulary Builder");
+    console.log("=".repeat(50));
+    console.log(`Database: ${databaseDir}`);
+
+    const db = await lancedb.connect(databaseDir);
+    const startTime = Date.now();
+    const termCount = await new VocabularyStore(db).rebuild();
+
+    if (termCount === 0) {
+        console.log("\n⚠️  No text to build a vocabulary from");
+        console.log("   Run seeding first: npx tsx hybrid_fast_seed.ts --filesdir <path>");
+    } else {
+        console.log(`\n✅ ${termCount.toLocaleString()} terms written to the ${VOCABULARY_TABLE_NAME} table (${((Date.now() - startTime) / 1000).toFixed(1)}s)`);
+        console.log("   Restart the MCP server to enable spelling correction.");
+    }
+
+    await db.close();
+}
+
+buildVocabulary().catch(error => {
+    console.error("\n❌ Vocabulary build failed:", error.message || error);
+    process.exit(1);
+});
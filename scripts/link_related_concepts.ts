@@ -6,6 +6,10 @@
  * - "military strategy" ↔ "strategy pattern" (share "strategy")
  * - "feedback loops" ↔ "control loops" (share "loops")
  * 
+ * Words are compared as stems (shared search analyzer), so
+ * "microservice architecture" ↔ "microservices" link, while "war" and
+ * "warfare" do not.
+ * 
  * This complements co-occurrence linking (adjacent_ids - concepts in same document)
  * with lexical linking (related_ids - concepts sharing significant words).
  * 
@@ -15,15 +19,11 @@
 
 import * as lancedb from '@lancedb/lancedb';
 import { hashToId } from '../src/infrastructure/utils/hash.js';
+import { isStopWord, stem, tokenize } from '../src/infrastructure/search/analyzer.js';
 
-// Stop words to exclude from matching
-const STOP_WORDS = new Set([
-  'a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
-  'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
-  'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would',
-  'could', 'should', 'may', 'might', 'must', 'shall', 'can', 'need',
-  'that', 'which', 'who', 'whom', 'this', 'these', 'those', 'it', 'its',
-  'vs', 'etc', 'e.g', 'i.e', 'via', 'using', 'based', 'like', 'such'
+// Filler words of concept names, excluded from matching besides the analyzer's stop words
+const FILLER_WORDS = new Set([
+  'shall', 'need', 'vs', 'etc', 'via', 'using', 'based', 'like'
 ]);
 
 interface ConceptData {
@@ -38,26 +38,21 @@ interface ConceptLink {
 }
 
 /**
- * Extract significant words from a concept name.
+ * Extract the stems of the significant words of a concept name.
  */
 function extractSignificantWords(concept: string, minLength: number): string[] {
   // Remove parenthetical content for cleaner matching
-  const cleaned = concept
-    .toLowerCase()
-    .replace(/\([^)]*\)/g, '') // Remove (parenthetical notes)
-    .replace(/[^a-z\s-]/g, ' ') // Keep letters, spaces, hyphens
-    .replace(/-/g, ' ')         // Split hyphenated words
-    .trim();
+  const cleaned = concept.replace(/\([^)]*\)/g, '');
   
-  const words = cleaned.split(/\s+/).filter(w => 
-    w.length >= minLength && !STOP_WORDS.has(w)
+  const words = tokenize(cleaned).filter(w => 
+    w.length >= minLength && !/\d/.test(w) && !isStopWord(w) && !FILLER_WORDS.has(w)
   );
   
-  return [...new Set(words)]; // Dedupe
+  return [...new Set(words.map(stem))]; // Dedupe
 }
 
 /**
- * Build inverted index: word → concept IDs
+ * Build inverted index: word stem → concept IDs
  */
 function buildWordIndex(
   concepts: ConceptData[],
@@ -153,7 +148,7 @@ async function main() {
   
   // Build word index
   const wordIndex = buildWordIndex(concepts, minWordLength);
-  console.log(`📚 Built word index with ${wordIndex.size} unique words\n`);
+  console.log(`📚 Built word index with ${wordIndex.size} unique word stems\n`);
   
   // Show most common linking words
   const wordCounts = Array.from(wordIndex.entries())
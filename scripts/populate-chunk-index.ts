@@ -0,0 +1,103 @@
+#!/usr/bin/env npx tsx
+/**
+ * Populate the chunk_index field for existing chunks.
+ *
+ * chunk_index is the 0-based position of a chunk in its document's reading
+ * order. The seeder stores it for new chunks; databases seeded before that
+ * lack it, so get_chunk_context and expand_context fall back to loading
+ * whole documents. This script numbers the chunks of each document by page,
+ * keeping the stored (split) order within a page.
+ *
+ * Usage: npx tsx scripts/populate-chunk-index.ts [db_path]
+ * Default db_path: ./db/test
+ */
+
+import * as lancedb from '@lancedb/lancedb';
+import { readTablePages, replaceTableRows } from '../src/infrastructure/lancedb/seeding/index.js';
+
+function toPlainValue(value: any): any {
+    if (value && typeof value === 'object' && 'toArray' in value) {
+        return Array.from(value.toArray());
+    }
+    return value;
+}
+
+async function main() {
+    const dbPath = process.argv[2] || './db/test';
+
+    console.log(`📂 Database: ${dbPath}`);
+
+    const db = await lancedb.connect(dbPath);
+    const tables = await db.tableNames();
+
+    if (!tables.includes('chunks')) {
+        console.error('❌ No chunks table found.');
+        process.exit(1);
+    }
+
+    // Read every row, page by page (an unbounded query returns only 10)
+    const chunksTable = await db.openTable('chunks');
+    const allChunks: any[] = [];
+    for await (const page of readTablePages(chunksTable)) {
+        allChunks.push(...page.toArray());
+    }
+
+    console.log(`📊 Found ${allChunks.length} chunks`);
+
+    // Group chunks by document, keeping stored order
+    const chunksByDocument = new Map<number, any[]>();
+    for (const chunk of allChunks) {
+        const catalogId = Number(chunk.catalog_id ?? 0);
+        if (!chunksByDocument.has(catalogId)) {
+            chunksByDocument.set(catalogId, []);
+        }
+        chunksByDocument.get(catalogId)!.push(chunk);
+    }
+
+    console.log(`📚 Found ${chunksByDocument.size} documents`);
+
+    // Number each document's chunks in page order (stable sort keeps split order)
+    let alreadySet = 0;
+    const updatedChunks: any[] = [];
+
+    for (const chunks of chunksByDocument.values()) {
+        chunks.sort((a, b) => (a.page_number ?? 1) - (b.page_number ?? 1));
+
+        chunks.forEach((chunk, index) => {
+            if (chunk.chunk_index !== undefined && chunk.chunk_index !== null && Number(chunk.chunk_index) === index) {
+                alreadySet++;
+            }
+
+            // Build updated record - preserve all existing fields
+            const record: any = {};
+            for (const [key, value] of Object.entries(chunk)) {
+                record[key] = toPlainValue(value);
+            }
+            record.chunk_index = index;
+
+            // Ensure arrays have placeholder values for LanceDB schema inference
+            if (Array.isArray(record.concept_ids) && record.concept_ids.length === 0) record.concept_ids = [0];
+            if (Array.isArray(record.concept_names) && record.concept_names.length === 0) record.concept_names = [''];
+
+            updatedChunks.push(record);
+        });
+    }
+
+    console.log(`   • ${alreadySet} chunks already had the correct chunk_index`);
+
+    if (alreadySet === allChunks.length) {
+        console.log('\n✅ All chunks already numbered!');
+        return;
+    }
+
+    // LanceDB doesn't support in-place updates, so rewrite the table via a
+    // staging copy (the original is kept until every row has been written)
+    console.log('\n🔄 Rewriting chunks table with chunk_index field...');
+
+    const count = await replaceTableRows(db, 'chunks', [lancedb.makeArrowTable(updatedChunks)]);
+    console.log(`✅ Rewrote ${count} chunks and rebuilt indexes`);
+
+    console.log('\n✅ Done!');
+}
+
+main().catch(console.error);
@@ -26,6 +26,8 @@ import * as path from 'path';
 import { homedir } from 'os';
 import { Document } from "@langchain/core/documents";
 import { ConceptIndexBuilder } from '../src/concepts/concept_index.js';
+import { createEmbeddingService } from '../src/infrastructure/embeddings/embedding-provider-factory.js';
+import { Configuration } from '../src/application/config/index.js';
 import { hashToId } from '../src/infrastructure/utils/hash.js';
 import minimist from 'minimist';
 
@@ -127,7 +129,7 @@ async function rebuildConceptIndex() {
     
     // Build concept index using actual catalog IDs (foreign key constraint)
     console.log("🧠 Building concept index from ALL data...");
-    const conceptBuilder = new ConceptIndexBuilder();
+    const conceptBuilder = new ConceptIndexBuilder(createEmbeddingService(Configuration.getInstance().embeddings));
     const conceptRecords = await conceptBuilder.buildConceptIndex(catalogDocs, sourceToCatalogId);
     
     console.log(`  ✅ Built ${conceptRecords.length} unique concept records\n`);
@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+/**
+ * Re-embed an existing database with the configured embedding provider
+ *
+ * Rewrites the vector column of the catalog, chunks, concepts and categories
+ * tables from their stored text (catalog summaries, chunk text, concept names,
+ * category descriptions) and stamps the tables with the new provider/model.
+ * No LLM extraction is re-run.
+ *
+ * With EMBEDDING_PROVIDER=tfidf the TF-IDF/LSA model is fitted from the stored
+ * chunk text and catalog summaries first, unless one already exists
+ * (pass --refit to replace it). The stamps record the model's fingerprint, so
+ * tables left out of a --refit run are reported as mismatched until re-embedded.
+ *
+ * Usage:
+ *   EMBEDDING_PROVIDER=transformer npx tsx scripts/reembed.ts [--dbpath <path>] [--tables catalog,chunks] [--batch-size N] [--refit]
+ */
+
+import * as lancedb from "@lancedb/lancedb";
+import minimist from 'minimist';
+import * as path from 'path';
+import * as defaults from '../src/config.js';
+import { Configuration } from '../src/application/config/index.js';
+import {
+    createEmbeddingService,
+    resolveEmbeddingSignature
+} from '../src/infrastructure/embeddings/embedding-provider-factory.js';
+import {
+    EmbeddingMetadataStore,
+    describeSignature
+} from '../src/infrastructure/lancedb/embedding-metadata-store.js';
+import {
+    fitTfidfModel,
+    saveTfidfModel,
+    tfidfModelExists,
+    resolveTfidfModelPath
+} from '../src/infrastructure/embeddings/tfidf-model.js';
+import { reembedTable } from '../src/infrastructure/lancedb/seeding/index.js';
+
+const argv = minimist(process.argv.slice(2), { boolean: ["refit"] });
+const databaseDir = argv["dbpath"] || path.join(process.env.HOME || process.env.USERPROFILE || "~", ".concept_rag");
+
+const ALL_TABLES = [
+    defaults.CATALOG_TABLE_NAME,
+    defaults.CHUNKS_TABLE_NAME,
+    defaults.CONCEPTS_TABLE_NAME,
+    defaults.CATEGORIES_TABLE_NAME
+];
+
+async function reembedDatabase(): Promise<void> {
+    const embeddingConfig = Configuration.getInstance().embeddings;
+    const batchSize = argv["batch-size"] ? parseInt(argv["batch-size"], 10) : embeddingConfig.batchSize;
+    const requested: string[] = argv["tables"] ? String(argv["tables"]).split(',').map(t => t.trim()) : ALL_TABLES;
+
+    console.log("🧮 Concept-RAG Re-embedding Utility");
+    console.log("=".repeat(50));
+    console.log(`Database: ${databaseDir}`);
+
+    const db = await lancedb.connect(databaseDir);
+    const existing = await db.tableNames();
+    const tableNames = requested.filter(name => existing.includes(name));
+
+    if (tableNames.length === 0) {
+        console.log("\n⚠️  No tables to re-embed");
+        console.log("   Run seeding first: npx tsx hybrid_fast_seed.ts --filesdir <path>");
+        await db.close();
+        return;
+    }
+
+    if (embeddingConfig.provider === 'tfidf' && await fitTfidfModelFromDatabase(db, embeddingConfig.modelPath, embeddingConfig.dimensions)) {
+        // A new fit is a new vector space: tables left out keep the old model's stamp
+        const stale = ALL_TABLES.filter(name => existing.includes(name) && !tableNames.includes(name));
+        if (stale.length > 0) {
+            console.log(`  ⚠️  Not re-embedded with the new model: ${stale.join(', ')} (the server will report them as mismatched)`);
+        }
+    }
+
+    // Resolved after fitting: a tfidf signature carries the model fingerprint
+    const signature = resolveEmbeddingSignature(embeddingConfig, databaseDir);
+    console.log(`\nEmbedding: ${describeSignature(signature)}`);
+
+    const embeddingService = createEmbeddingService(embeddingConfig, undefined, undefined, databaseDir);
+    const store = new EmbeddingMetadataStore(db);
+
+    for (const tableName of tableNames) {
+        console.log(`\n📊 Re-embedding table: ${tableName}`);
+        const count = await reembedTable(db, tableName, embeddingService, {
+            batchSize,
+            onProgress: (done, total) => process.stdout.write(`\r  🧮 Embedded ${done}/${total}${done === total ? '\n' : ''}`)
+        });
+
+        // Stamp per table so an interrupted run leaves finished tables usable
+        await store.stamp([tableName], signature);
+        console.log(`  ✅ ${count} rows re-embedded`);
+    }
+
+    console.log("\n" + "=".repeat(50));
+    console.log("✅ Re-embedding complete!");
+    console.log("   Start the MCP server with the same EMBEDDING_* settings.");
+
+    await db.close();
+}
+
+/**
+ * Fit the TF-IDF/LSA model from the stored chunk text and catalog summaries.
+ *
+ * @returns Whether a new model was fitted (false when the existing one is reused)
+ */
+async function fitTfidfModelFromDatabase(db: lancedb.Connection, modelPath: string | undefined, dimensions: number): Promise<boolean> {
+    const modelDir = resolveTfidfModelPath(modelPath, databaseDir);
+    if (tfidfModelExists(modelDir) && !argv["refit"]) {
+        console.log(`\n🧮 Using existing TF-IDF model: ${modelDir} (pass --refit to replace it)`);
+        return false;
+    }
+
+    const existing = await db.tableNames();
+    const texts: string[] = [];
+    for (const [tableName, column] of [[defaults.CHUNKS_TABLE_NAME, 'text'], [defaults.CATALOG_TABLE_NAME, 'summary']]) {
+        if (!existing.includes(tableName)) continue;
+        const rows = await (await db.openTable(tableName)).query().select([column]).toArray();
+        texts.push(...rows.map((row: any) => row[column] || ''));
+    }
+
+    console.log(`\n🧮 Fitting TF-IDF/LSA model on ${texts.length} texts...`);
+    const model = fitTfidfModel(texts, { dimensions });
+    saveTfidfModel(model, modelDir);
+    console.log(`  ✅ Saved to ${modelDir} (${model.vocabulary.length} terms, rank ${model.rank})`);
+    return true;
+}
+
+reembedDatabase().catch(error => {
+    console.error("\n❌ Re-embedding failed:", error.message || error);
+    process.exit(1);
+});
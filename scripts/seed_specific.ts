@@ -26,6 +26,8 @@ import { Document } from "@langchain/core/documents";
 import { ConceptExtractor } from '../src/concepts/concept_extractor.js';
 import { ConceptChunkMatcher } from '../src/concepts/concept_chunk_matcher.js';
 import { ConceptIndexBuilder } from '../src/concepts/concept_index.js';
+import { createEmbeddingService } from '../src/infrastructure/embeddings/embedding-provider-factory.js';
+import { Configuration } from '../src/application/config/index.js';
 import { hashToId } from '../src/infrastructure/utils/hash.js';
 
 interface TargetDocument {
@@ -532,7 +534,7 @@ async function main() {
   
   console.log(`   ✅ Found ${allCatalogFresh.length} catalog entries with concepts`);
   
-  const conceptBuilder = new ConceptIndexBuilder();
+  const conceptBuilder = new ConceptIndexBuilder(createEmbeddingService(Configuration.getInstance().embeddings));
   // Pass actual catalog IDs from the database (foreign key constraint)
   const conceptRecords = await conceptBuilder.buildConceptIndex(allCatalogFresh, sourceToCatalogId);
   
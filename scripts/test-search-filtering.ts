@@ -8,7 +8,7 @@ async function testFiltering() {
   const embeddingService = new SimpleEmbeddingService();
   
   const collection = new SearchableCollectionAdapter(chunksTable, 'chunks');
-  const queryVector = embeddingService.generateEmbedding('consensus protocol');
+  const queryVector = await embeddingService.generateEmbedding('consensus protocol');
   
   console.log('=== Testing Search Filtering ===\n');
   
@@ -7,7 +7,8 @@ import { connect } from '@lancedb/lancedb';
 import { LanceDBCatalogRepository } from '../src/infrastructure/lancedb/repositories/lancedb-catalog-repository.js';
 import { LanceDBConceptRepository } from '../src/infrastructure/lancedb/repositories/lancedb-concept-repository.js';
 import { LanceDBChunkRepository } from '../src/infrastructure/lancedb/repositories/lancedb-chunk-repository.js';
-import { SimpleEmbeddingService } from '../src/infrastructure/embeddings/simple-embedding-service.js';
+import { createEmbeddingService } from '../src/infrastructure/embeddings/embedding-provider-factory.js';
+import { Configuration } from '../src/application/config/index.js';
 import { ConceptualHybridSearchService } from '../src/infrastructure/search/conceptual-hybrid-search-service.js';
 import { QueryExpander } from '../src/concepts/query_expander.js';
 import { ConceptIdCache } from '../src/infrastructure/cache/concept-id-cache.js';
@@ -26,7 +27,7 @@ async function verifyMCPTools() {
   const chunksTable = await db.openTable('chunks');
 
   // Initialize services first
-  const embeddingService = new SimpleEmbeddingService();
+  const embeddingService = createEmbeddingService(Configuration.getInstance().embeddings);
   const queryExpander = new QueryExpander(conceptsTable, embeddingService);
   const hybridSearchService = new ConceptualHybridSearchService(embeddingService, queryExpander);
 
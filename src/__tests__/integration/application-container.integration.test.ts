@@ -50,9 +50,15 @@ describe('ApplicationContainer Integration Tests', () => {
       // VERIFY - Base tools registered by container
       expect(tools.length).toBeGreaterThanOrEqual(5);
       expect(toolNames).toContain('concept_search');  // For concept-based chunk search
+      expect(toolNames).toContain('search_concepts');
+      expect(toolNames).toContain('concept_path');
       expect(toolNames).toContain('catalog_search');
       expect(toolNames).toContain('chunks_search');
       expect(toolNames).toContain('broad_chunks_search');
+      expect(toolNames).toContain('get_chunk_context');
+      expect(toolNames).toContain('find_passage');
+      expect(toolNames).toContain('explain_search');
+      expect(toolNames).toContain('similar_documents');
       expect(toolNames).toContain('extract_concepts');
     });
     
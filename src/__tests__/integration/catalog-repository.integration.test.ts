@@ -169,6 +169,25 @@ describe('LanceDBCatalogRepository - Integration Tests', () => {
     });
   });
   
+  describe('findByVector', () => {
+    it('should return the nearest documents first, starting with the document itself', async () => {
+      // ARRANGE: Use a document's own embedding as the query vector
+      const documentOpt = await catalogRepo.findBySource('/docs/architecture/clean-architecture.pdf');
+      expect(isSome(documentOpt)).toBe(true);
+      const document = documentOpt.value;
+
+      // ACT
+      const results = await catalogRepo.findByVector(Array.from(document.embeddings), 3);
+
+      // ASSERT: Nearest first, with catalog fields mapped
+      expect(results).toHaveLength(3);
+      expect(results[0].catalogId).toBe(document.catalogId);
+      expect(results[0].distance).toBeCloseTo(0);
+      expect(results[0].documentConceptIds).toEqual(document.documentConceptIds);
+      expect(results[1].distance).toBeGreaterThanOrEqual(results[0].distance);
+    });
+  });
+
   describe('field mapping', () => {
     it('should correctly map all catalog fields', async () => {
       const results = await catalogRepo.search({
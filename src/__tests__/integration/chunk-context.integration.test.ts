@@ -0,0 +1,135 @@
+/**
+ * Integration Tests: Chunk Context Expansion
+ *
+ * Verifies that neighbouring chunks are read in reading order from a real
+ * LanceDB database, both with stored chunk ordinals and for tables seeded
+ * before `chunk_index` existed.
+ *
+ * @group integration
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as lancedb from '@lancedb/lancedb';
+import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
+import { createIntegrationTestChunk, TEST_CATALOG_IDS } from '../test-helpers/integration-test-data.js';
+import { LanceDBChunkRepository } from '../../infrastructure/lancedb/repositories/lancedb-chunk-repository.js';
+import { LanceDBConceptRepository } from '../../infrastructure/lancedb/repositories/lancedb-concept-repository.js';
+import { SimpleEmbeddingService } from '../../infrastructure/embeddings/simple-embedding-service.js';
+import { ConceptualHybridSearchService } from '../../infrastructure/search/conceptual-hybrid-search-service.js';
+import { QueryExpander } from '../../concepts/query_expander.js';
+import { ChunkSearchService } from '../../domain/services/chunk-search-service.js';
+import { isErr, isNone, isOk, isSome } from '../../domain/functional/index.js';
+import { hashToId } from '../../infrastructure/utils/hash.js';
+
+const catalogId = TEST_CATALOG_IDS['clean-architecture'];
+
+/** Six chunks over three pages, stored out of reading order */
+const bookChunks = [3, 0, 5, 1, 4, 2].map(index => createIntegrationTestChunk({
+  id: hashToId(`context-chunk-${index}`),
+  text: `Passage ${index}`,
+  catalog_id: catalogId,
+  page_number: Math.floor(index / 2) + 1,
+  chunk_index: index
+}));
+
+const otherChunk = createIntegrationTestChunk({
+  id: hashToId('context-other'),
+  text: 'Other document',
+  catalog_id: TEST_CATALOG_IDS['typescript'],
+  chunk_index: 0
+});
+
+describe('Chunk context - Integration', () => {
+  let fixture: TestDatabaseFixture;
+  let createRepo: (table: lancedb.Table) => LanceDBChunkRepository;
+  let db: lancedb.Connection;
+
+  beforeAll(async () => {
+    fixture = createTestDatabase('chunk-context');
+    await fixture.setup();
+    db = await lancedb.connect(fixture.getDbPath());
+    const conceptsTable = await db.openTable('concepts');
+
+    const embeddingService = new SimpleEmbeddingService();
+    const conceptRepo = new LanceDBConceptRepository(conceptsTable);
+    const hybridSearch = new ConceptualHybridSearchService(
+      embeddingService,
+      new QueryExpander(conceptsTable, embeddingService)
+    );
+    createRepo = table => new LanceDBChunkRepository(table, conceptRepo, embeddingService, hybridSearch);
+  });
+
+  afterAll(async () => {
+    await fixture.teardown();
+  });
+
+  describe('with chunk ordinals', () => {
+    let repo: LanceDBChunkRepository;
+
+    beforeAll(async () => {
+      repo = createRepo(await db.createTable('ordered_chunks', [...bookChunks, otherChunk]));
+    });
+
+    it('should return neighbours of the same document in reading order', async () => {
+      // EXERCISE
+      const context = await repo.findNeighbours(hashToId('context-chunk-2'), 2, 2);
+
+      // VERIFY
+      expect(isSome(context)).toBe(true);
+      if (!isSome(context)) return;
+      expect(context.value.chunk.chunkIndex).toBe(2);
+      expect(context.value.before.map(c => c.text)).toEqual(['Passage 0', 'Passage 1']);
+      expect(context.value.after.map(c => c.text)).toEqual(['Passage 3', 'Passage 4']);
+      expect(context.value.after.map(c => c.pageNumber)).toEqual([2, 3]);
+    });
+
+    it('should return fewer neighbours at the document boundaries', async () => {
+      // EXERCISE
+      const context = await repo.findNeighbours(hashToId('context-chunk-5'), 1, 3);
+
+      // VERIFY
+      expect(isSome(context)).toBe(true);
+      if (!isSome(context)) return;
+      expect(context.value.before.map(c => c.chunkIndex)).toEqual([4]);
+      expect(context.value.after).toEqual([]);
+    });
+
+    it('should return None for an unknown chunk', async () => {
+      expect(isNone(await repo.findNeighbours(42, 2, 2))).toBe(true);
+    });
+
+    it('should report unknown chunks as not found from the service', async () => {
+      // SETUP
+      const service = new ChunkSearchService(repo);
+
+      // EXERCISE
+      const found = await service.getChunkContext({ chunkId: hashToId('context-chunk-0') });
+      const missing = await service.getChunkContext({ chunkId: 42 });
+
+      // VERIFY
+      expect(isOk(found) && found.value.after.map(c => c.chunkIndex)).toEqual([1, 2]);
+      expect(isErr(missing) && missing.error.type).toBe('not_found');
+    });
+  });
+
+  describe('without chunk ordinals', () => {
+    it('should fall back to page order and stored order within a page', async () => {
+      // SETUP: legacy rows in split order, pages stored out of order
+      const legacyChunks = [2, 3, 0, 1, 4, 5].map(index => {
+        const { chunk_index: _, ...chunk } = bookChunks.find(c => c.text === `Passage ${index}`)!;
+        return chunk;
+      });
+      const repo = createRepo(await db.createTable('legacy_chunks', legacyChunks));
+
+      // EXERCISE
+      const context = await repo.findNeighbours(hashToId('context-chunk-2'), 2, 2);
+
+      // VERIFY
+      expect(isSome(context)).toBe(true);
+      if (!isSome(context)) return;
+      expect(context.value.chunk.chunkIndex).toBeUndefined();
+      expect(context.value.before.map(c => c.text)).toEqual(['Passage 0', 'Passage 1']);
+      expect(context.value.after.map(c => c.text)).toEqual(['Passage 3', 'Passage 4']);
+    });
+  });
+});
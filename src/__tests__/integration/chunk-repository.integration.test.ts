@@ -52,8 +52,7 @@ describe('LanceDBChunkRepository - Integration Tests', () => {
       chunksTable,
       conceptRepo,
       embeddingService,
-      hybridSearchService,
-      conceptIdCache
+      hybridSearchService
     );
   }, 30000); // Increased timeout for database setup
   
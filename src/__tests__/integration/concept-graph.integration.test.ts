@@ -0,0 +1,103 @@
+/**
+ * Integration Tests: concept graph export
+ *
+ * Verifies that the concept graph is built from the co-occurrence and
+ * lexical links of a real LanceDB concepts table, filtered by category and
+ * weight, and written in the export formats.
+ *
+ * @group integration
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
+import { ApplicationContainer } from '../../application/container.js';
+import { Configuration } from '../../application/config/index.js';
+import { ConceptGraph } from '../../domain/models/index.js';
+import { ConceptGraphParams } from '../../domain/services/index.js';
+import { serializeConceptGraph } from '../../infrastructure/export/index.js';
+import { TEST_CATALOG_IDS, TEST_CONCEPTS } from '../test-helpers/integration-test-data.js';
+
+describe('Concept graph export - Integration', () => {
+  let fixture: TestDatabaseFixture;
+  let container: ApplicationContainer;
+
+  beforeAll(async () => {
+    Configuration.reset();
+    fixture = createTestDatabase('concept-graph');
+    await fixture.setup();
+    container = new ApplicationContainer();
+    await container.initialize(fixture.getDbPath());
+  });
+
+  afterAll(async () => {
+    await container.close();
+    Configuration.reset();
+    await fixture.teardown();
+  });
+
+  async function buildGraph(params: ConceptGraphParams) {
+    const result = await container.getConceptGraphService().buildGraph(params);
+    expect(result.ok).toBe(true);
+    return (result as { ok: true; value: ConceptGraph }).value;
+  }
+
+  it('should link every concept once per linked pair', async () => {
+    // ACT
+    const graph = await buildGraph({});
+
+    // ASSERT
+    expect(graph.nodes.map(node => node.label)).toEqual([
+      'clean architecture',
+      'dependency injection',
+      'repository pattern',
+      'solid principles',
+      'typescript'
+    ]);
+    expect(graph.nodes[0]).toEqual({
+      id: `concept-${TEST_CONCEPTS['clean architecture']}`,
+      kind: 'concept',
+      label: 'clean architecture',
+      weight: 0.85,
+      documentCount: 2,
+      category: 'software architecture'
+    });
+    expect(graph.edges).toHaveLength(6);
+    expect(graph.edges).toContainEqual({
+      source: `concept-${TEST_CONCEPTS['clean architecture']}`,
+      target: `concept-${TEST_CONCEPTS['solid principles']}`,
+      relations: ['co-occurrence', 'lexical'],
+      weight: 0.5
+    });
+  });
+
+  it('should restrict the graph to a category and add its documents and categories', async () => {
+    // ACT
+    const graph = await buildGraph({ category: 'design patterns', includeDocuments: true, includeCategories: true });
+
+    // ASSERT
+    expect(graph.nodes.map(node => `${node.kind}:${node.label}`)).toEqual([
+      'concept:dependency injection',
+      'concept:repository pattern',
+      'document:dependency-injection.pdf',
+      'document:repository-pattern.pdf',
+      'category:design patterns'
+    ]);
+    expect(graph.edges).toHaveLength(7);
+    expect(graph.edges).toContainEqual({
+      source: `concept-${TEST_CONCEPTS['repository pattern']}`,
+      target: `document-${TEST_CATALOG_IDS['repository-pattern']}`,
+      relations: ['appears-in'],
+      weight: 1
+    });
+  });
+
+  it('should write the filtered graph as GEXF', async () => {
+    // ACT
+    const gexf = serializeConceptGraph(await buildGraph({ minWeight: 0.8 }), 'gexf');
+
+    // ASSERT
+    expect(gexf).toContain(`<node id="concept-${TEST_CONCEPTS['solid principles']}" label="solid principles">`);
+    expect(gexf).not.toContain('label="typescript"');
+    expect(gexf.match(/<edge /g)).toHaveLength(3);
+  });
+});
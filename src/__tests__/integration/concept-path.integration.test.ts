@@ -0,0 +1,86 @@
+/**
+ * Integration Tests: concept_path
+ *
+ * Verifies that paths between concepts are found over the co-occurrence and
+ * lexical links of a real LanceDB concepts table, with the documents that
+ * justify each hop.
+ *
+ * @group integration
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
+import { ApplicationContainer } from '../../application/container.js';
+import { Configuration } from '../../application/config/index.js';
+import { TEST_CATALOG_IDS } from '../test-helpers/integration-test-data.js';
+
+describe('concept_path - Integration', () => {
+  let fixture: TestDatabaseFixture;
+  let container: ApplicationContainer;
+
+  beforeAll(async () => {
+    Configuration.reset();
+    fixture = createTestDatabase('concept-path');
+    await fixture.setup();
+    container = new ApplicationContainer();
+    await container.initialize(fixture.getDbPath());
+  });
+
+  afterAll(async () => {
+    await container.close();
+    Configuration.reset();
+    await fixture.teardown();
+  });
+
+  it('should find the shortest paths with the relations and documents of each hop', async () => {
+    // EXERCISE
+    const result = await container.getTool('concept_path').execute({ from: 'typescript', to: 'clean architecture' });
+
+    // VERIFY
+    expect(result.isError).toBe(false);
+    const { paths } = JSON.parse(result.content[0].text);
+    expect(paths.map((p: any) => p.concepts)).toEqual([
+      ['typescript', 'dependency injection', 'clean architecture'],
+      ['typescript', 'dependency injection', 'solid principles', 'clean architecture'],
+      ['typescript', 'dependency injection', 'repository pattern', 'clean architecture']
+    ]);
+    expect(paths[0].hops[1]).toMatchObject({
+      from: 'dependency injection',
+      to: 'clean architecture',
+      relations: ['co-occurrence', 'lexical'],
+      document_count: 0
+    });
+    expect(paths[1].hops[2]).toEqual({
+      from: 'solid principles',
+      to: 'clean architecture',
+      relations: ['co-occurrence', 'lexical'],
+      strength: 0.5,
+      document_count: 1,
+      documents: [{ catalog_id: TEST_CATALOG_IDS['solid'], source: '/docs/principles/solid.pdf' }]
+    });
+  });
+
+  it('should only return paths within the hop limit', async () => {
+    // EXERCISE
+    const result = await container.getTool('concept_path').execute({
+      from: 'typescript',
+      to: 'clean architecture',
+      mode: 'strongest',
+      max_hops: 2
+    });
+
+    // VERIFY
+    const { paths } = JSON.parse(result.content[0].text);
+    expect(paths).toHaveLength(1);
+    expect(paths[0].hop_count).toBe(2);
+  });
+
+  it('should report a concept that does not exist', async () => {
+    // EXERCISE
+    const result = await container.getTool('concept_path').execute({ from: 'typescript', to: 'event sourcing' });
+
+    // VERIFY
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text).error.type).toBe('concept_not_found');
+  });
+});
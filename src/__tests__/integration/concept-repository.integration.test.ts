@@ -18,6 +18,8 @@ import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
 import { LanceDBConceptRepository } from '../../infrastructure/lancedb/repositories/lancedb-concept-repository.js';
 import * as defaults from '../../config.js';
 import { isSome, isNone } from '../../domain/functional/index.js';
+import { SimpleEmbeddingService } from '../../infrastructure/embeddings/simple-embedding-service.js';
+import { TEST_CONCEPTS } from '../test-helpers/integration-test-data.js';
 
 describe('LanceDBConceptRepository - Integration Tests', () => {
   let fixture: TestDatabaseFixture;
@@ -119,6 +121,26 @@ describe('LanceDBConceptRepository - Integration Tests', () => {
     });
   });
   
+  describe('findByIds', () => {
+    it('should find each known concept once', async () => {
+      // ARRANGE: Two known IDs, one repeated, and an unknown ID
+      const ids = [TEST_CONCEPTS['typescript'], TEST_CONCEPTS['solid principles'], TEST_CONCEPTS['typescript'], 42];
+
+      // ACT: Query by IDs
+      const concepts = await conceptRepo.findByIds(ids);
+
+      // ASSERT: Both known concepts, with their links
+      expect(concepts.map(c => c.name).sort()).toEqual(['solid principles', 'typescript']);
+      const typescript = concepts.find(c => c.name === 'typescript')!;
+      expect(Array.from(typescript.adjacentIds!)).toEqual([TEST_CONCEPTS['dependency injection']]);
+    });
+
+    it('should return nothing for no IDs', async () => {
+      // ACT & ASSERT
+      expect(await conceptRepo.findByIds([])).toEqual([]);
+    });
+  });
+
   describe('field mapping validation', () => {
     it('should correctly map all concept fields from LanceDB', async () => {
       // ARRANGE: Known concept with all fields populated
@@ -245,6 +267,45 @@ describe('LanceDBConceptRepository - Integration Tests', () => {
     });
   });
   
+  describe('searchConcepts', () => {
+    it('should find concepts by name prefix', async () => {
+      // ACT: Search by the start of a name
+      const results = await conceptRepo.searchConcepts('dependency inj', 3);
+      
+      // ASSERT: The completed name ranks first, with its ID and scores
+      expect(results[0].name).toBe('dependency injection');
+      expect(results[0].id).toBe(TEST_CONCEPTS['dependency injection']);
+      expect(results[0].nameScore).toBeGreaterThan(0);
+      expect(results[0].hybridScore).toBeGreaterThan(0);
+    });
+    
+    it('should find concepts by misspelled name words', async () => {
+      // ACT: Search with typos in both words
+      const results = await conceptRepo.searchConcepts('repositry patern', 3);
+      
+      // ASSERT: The corrected name ranks first
+      expect(results[0].name).toBe('repository pattern');
+      expect(results[0].nameScore).toBeGreaterThan(0);
+    });
+    
+    it('should find concepts by vector similarity', async () => {
+      // ARRANGE: Embedding of a concept, with query text matching no name
+      const queryVector = new SimpleEmbeddingService().computeEmbedding('typescript');
+      
+      // ACT: Search with the embedding
+      const results = await conceptRepo.searchConcepts('typed javascript', 5, queryVector);
+      
+      // ASSERT: The concept with the same embedding ranks first
+      expect(results[0].name).toBe('typescript');
+      expect(results[0].vectorScore).toBeCloseTo(1, 5);
+    });
+    
+    it('should return nothing for a blank query', async () => {
+      // ACT & ASSERT
+      expect(await conceptRepo.searchConcepts('  ', 5)).toEqual([]);
+    });
+  });
+  
   describe('vector field detection', () => {
     it('should detect and use vector field from LanceDB', async () => {
       // ARRANGE: Concept that should have vector field
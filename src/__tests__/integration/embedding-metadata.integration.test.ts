@@ -0,0 +1,203 @@
+/**
+ * Integration Tests: Embedding Metadata and Re-embedding
+ *
+ * Verifies embedding stamps, the container's mismatch check and
+ * re-embedding of existing tables against a real LanceDB database.
+ *
+ * @group integration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as lancedb from '@lancedb/lancedb';
+import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
+import { ApplicationContainer } from '../../application/container.js';
+import { Configuration } from '../../application/config/index.js';
+import {
+  EmbeddingMetadataStore,
+  readVectorDimensions
+} from '../../infrastructure/lancedb/embedding-metadata-store.js';
+import { reembedTable, STAGING_TABLE_SUFFIX } from '../../infrastructure/lancedb/seeding/index.js';
+import { EmbeddingMismatchError } from '../../domain/exceptions/index.js';
+import type { EmbeddingService } from '../../domain/interfaces/services/embedding-service.js';
+
+const SIMPLE = { provider: 'simple', model: 'simple-hash', dimensions: 384 };
+const TABLES = ['catalog', 'chunks', 'concepts', 'categories'];
+
+/** Deterministic 8-dimensional embeddings that record every call */
+class RecordingEmbeddingService implements EmbeddingService {
+  calls: string[][] = [];
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    this.calls.push(texts);
+    return texts.map(text => [text.length, 1, 0, 0, 0, 0, 0, 0]);
+  }
+}
+
+describe('Embedding metadata - Integration', () => {
+  let fixture: TestDatabaseFixture;
+  let db: lancedb.Connection;
+
+  beforeEach(async () => {
+    Configuration.reset();
+    fixture = createTestDatabase('embedding-metadata');
+    await fixture.setup();
+    db = await lancedb.connect(fixture.getDbPath());
+  });
+
+  afterEach(async () => {
+    Configuration.reset();
+    await fixture.teardown();
+  });
+
+  const openTables = async (names: string[]) =>
+    new Map(await Promise.all(names.map(async name => [name, await db.openTable(name)] as const)));
+
+  describe('EmbeddingMetadataStore', () => {
+    it('should report legacy tables with matching dimensions as unstamped', async () => {
+      const store = new EmbeddingMetadataStore(db);
+
+      const checks = await store.check(await openTables(TABLES), SIMPLE);
+
+      expect(checks.map(c => c.status)).toEqual(['unstamped', 'unstamped', 'unstamped', 'unstamped']);
+      expect(checks[0].vectorDimensions).toBe(384);
+    });
+
+    it('should match after stamping and replace earlier stamps', async () => {
+      const store = new EmbeddingMetadataStore(db);
+      await store.stamp(TABLES, { provider: 'transformer', model: 'old', dimensions: 384 });
+
+      await store.stamp(TABLES, SIMPLE);
+
+      const stamps = await store.readStamps();
+      expect(stamps.size).toBe(4);
+      expect(stamps.get('chunks')).toMatchObject(SIMPLE);
+      const checks = await store.check(await openTables(TABLES), SIMPLE);
+      expect(checks.every(c => c.status === 'match')).toBe(true);
+    });
+
+    it('should flag a different model with the same dimensions', async () => {
+      const store = new EmbeddingMetadataStore(db);
+      await store.stamp(['chunks'], SIMPLE);
+
+      const [check] = await store.check(
+        await openTables(['chunks']),
+        { provider: 'transformer', model: 'all-MiniLM-L6-v2', dimensions: 384 }
+      );
+
+      expect(check.status).toBe('mismatch');
+      expect(check.reason).toContain('simple/simple-hash (384d)');
+      expect(check.reason).toContain('transformer/all-MiniLM-L6-v2 (384d)');
+    });
+
+    it('should flag unstamped tables whose vector width differs', async () => {
+      const store = new EmbeddingMetadataStore(db);
+
+      const [check] = await store.check(
+        await openTables(['catalog']),
+        { provider: 'openai', model: 'text-embedding-3-small', dimensions: 1536 }
+      );
+
+      expect(check.status).toBe('mismatch');
+      expect(check.vectorDimensions).toBe(384);
+    });
+  });
+
+  describe('ApplicationContainer.initialize', () => {
+    it('should refuse to start when stamps do not match the configuration', async () => {
+      await new EmbeddingMetadataStore(db).stamp(TABLES, { provider: 'ollama', model: 'nomic-embed-text', dimensions: 384 });
+      Configuration.initialize({ EMBEDDING_PROVIDER: 'simple' });
+      const container = new ApplicationContainer();
+
+      await expect(container.initialize(fixture.getDbPath())).rejects.toThrow(EmbeddingMismatchError);
+      await container.close();
+    });
+
+    it('should only warn when the mismatch policy is warn', async () => {
+      await new EmbeddingMetadataStore(db).stamp(TABLES, { provider: 'ollama', model: 'nomic-embed-text', dimensions: 384 });
+      Configuration.initialize({ EMBEDDING_PROVIDER: 'simple', EMBEDDING_MISMATCH_POLICY: 'warn' });
+      const container = new ApplicationContainer();
+
+      await container.initialize(fixture.getDbPath());
+
+      expect(container.getAllTools().length).toBeGreaterThan(0);
+      await container.close();
+    });
+  });
+
+  describe('reembedTable', () => {
+    it('should rewrite vectors in batches and keep other columns', async () => {
+      const before = await (await db.openTable('categories')).query().toArray();
+      const service = new RecordingEmbeddingService();
+      const progress: number[] = [];
+
+      const count = await reembedTable(db, 'categories', service, {
+        batchSize: 2,
+        silent: true,
+        onProgress: done => progress.push(done)
+      });
+
+      const table = await db.openTable('categories');
+      const after = await table.query().toArray();
+      expect(count).toBe(before.length);
+      expect(service.calls.every(batch => batch.length <= 2)).toBe(true);
+      expect(progress[progress.length - 1]).toBe(before.length);
+      expect(await readVectorDimensions(table)).toBe(8);
+      expect(await table.countRows()).toBe(before.length);
+
+      const byId = new Map(after.map((row: any) => [row.id, row]));
+      for (const row of before) {
+        const rewritten: any = byId.get(row.id);
+        expect(rewritten.category).toBe(row.category);
+        expect(rewritten.summary).toBe(row.summary);
+        expect(Array.from(rewritten.vector)[0]).toBe(`${row.category}: ${row.description}`.length);
+      }
+    });
+
+    it('should embed chunk text', async () => {
+      const service = new RecordingEmbeddingService();
+      const rows = await (await db.openTable('chunks')).query().toArray();
+
+      await reembedTable(db, 'chunks', service, { silent: true });
+
+      expect(service.calls.flat().sort()).toEqual(rows.map((row: any) => row.text).sort());
+    });
+
+    it('should re-embed every row of a table larger than one query result', async () => {
+      await db.createTable('bulk', Array.from({ length: 25 }, (_, i) => ({ id: i, text: `row ${i}`, vector: [0, 0] })));
+      const service = new RecordingEmbeddingService();
+
+      const count = await reembedTable(db, 'bulk', service, { batchSize: 4, textOf: row => String(row.text), silent: true });
+
+      const table = await db.openTable('bulk');
+      expect(count).toBe(25);
+      expect(await table.countRows()).toBe(25);
+      expect(service.calls.flat()).toHaveLength(25);
+      expect(await readVectorDimensions(table)).toBe(8);
+    });
+
+    it('should leave the table untouched when a batch fails', async () => {
+      const before = await (await db.openTable('categories')).query().toArray();
+      const service = new RecordingEmbeddingService();
+      const generate = service.generateEmbeddings.bind(service);
+      service.generateEmbeddings = async texts => {
+        if (service.calls.length === 1) {
+          throw new Error('provider unavailable');
+        }
+        return generate(texts);
+      };
+
+      await expect(reembedTable(db, 'categories', service, { batchSize: 2, silent: true }))
+        .rejects.toThrow('provider unavailable');
+
+      const table = await db.openTable('categories');
+      expect(await table.countRows()).toBe(before.length);
+      expect(await readVectorDimensions(table)).toBe(384);
+      expect(await db.tableNames()).not.toContain(`categories${STAGING_TABLE_SUFFIX}`);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Integration Tests: Passage Index and find_passage
+ *
+ * Verifies that the shingle index is built from a real LanceDB database and
+ * that find_passage locates quotes and paraphrases with and without it.
+ *
+ * @group integration
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as lancedb from '@lancedb/lancedb';
+import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
+import { ApplicationContainer } from '../../application/container.js';
+import { Configuration } from '../../application/config/index.js';
+import { PassageIndexStore, PASSAGE_INDEX_TABLE_NAME } from '../../infrastructure/lancedb/passage-index-store.js';
+import { passageShingles } from '../../infrastructure/search/passage-matching.js';
+import { hashToId } from '../../infrastructure/utils/hash.js';
+
+const QUOTE = 'provides an abstraction layer between the domain and data mapping layers';
+
+describe('find_passage - Integration', () => {
+  let fixture: TestDatabaseFixture;
+  let db: lancedb.Connection;
+
+  beforeAll(async () => {
+    Configuration.reset();
+    fixture = createTestDatabase('find-passage');
+    await fixture.setup();
+    db = await lancedb.connect(fixture.getDbPath());
+  });
+
+  afterAll(async () => {
+    Configuration.reset();
+    await fixture.teardown();
+  });
+
+  describe('without a passage index', () => {
+    let container: ApplicationContainer;
+
+    beforeAll(async () => {
+      container = new ApplicationContainer();
+      await container.initialize(fixture.getDbPath());
+    });
+
+    afterAll(async () => {
+      await container.close();
+    });
+
+    it('should still align the quote in the chunks nearest to it', async () => {
+      // EXERCISE
+      const result = await container.getTool('find_passage').execute({ passage: QUOTE });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      const [best] = JSON.parse(result.content[0].text).matches;
+      expect(best.chunk_id).toBe(hashToId('chunk-repo-pattern-1'));
+      expect(best.scores.shingle).toBe(0);
+      expect(best.exact).toBe(true);
+    });
+  });
+
+  describe('PassageIndexStore', () => {
+    it('should find nothing before the index is built', async () => {
+      // SETUP
+      const store = new PassageIndexStore(db);
+
+      // EXERCISE & VERIFY
+      expect(await store.exists()).toBe(false);
+      expect((await store.lookup(passageShingles(QUOTE))).size).toBe(0);
+    });
+
+    it('should index the shingles of every chunk', async () => {
+      // SETUP
+      const store = new PassageIndexStore(db);
+
+      // EXERCISE
+      const shingleCount = await store.rebuild();
+      const shared = await store.lookup(passageShingles(QUOTE));
+
+      // VERIFY
+      expect(shingleCount).toBeGreaterThan(0);
+      expect(await db.tableNames()).toContain(PASSAGE_INDEX_TABLE_NAME);
+      expect(Array.from(shared.keys())).toEqual([hashToId('chunk-repo-pattern-1')]);
+      expect(shared.get(hashToId('chunk-repo-pattern-1'))).toBe(passageShingles(QUOTE).length);
+    });
+  });
+
+  describe('with a passage index', () => {
+    let container: ApplicationContainer;
+
+    beforeAll(async () => {
+      await new PassageIndexStore(db).rebuild();
+      container = new ApplicationContainer();
+      await container.initialize(fixture.getDbPath());
+    });
+
+    afterAll(async () => {
+      await container.close();
+    });
+
+    it('should return the quoted chunk first with the span, page and shingle score', async () => {
+      // EXERCISE
+      const result = await container.getTool('find_passage').execute({ passage: QUOTE, limit: 3 });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      const { matches } = JSON.parse(result.content[0].text);
+      expect(matches.length).toBeLessThanOrEqual(3);
+      const [best] = matches;
+      expect(best).toMatchObject({
+        chunk_id: hashToId('chunk-repo-pattern-1'),
+        title: 'Repository Pattern',
+        page_number: 1,
+        exact: true,
+        scores: { shingle: 1, alignment: 1 }
+      });
+      expect(best.text.slice(best.match.start, best.match.end)).toBe(QUOTE);
+      expect(best.match.text).toBe(QUOTE);
+    });
+
+    it('should find a paraphrase by its aligned words', async () => {
+      // EXERCISE
+      const result = await container.getTool('find_passage').execute({
+        passage: 'dependency injection is a way of achieving inversion of control between classes'
+      });
+
+      // VERIFY
+      const [best] = JSON.parse(result.content[0].text).matches;
+      expect(best.chunk_id).toBe(hashToId('chunk-di-1'));
+      expect(best.exact).toBe(false);
+      expect(best.match.text).toBe('Dependency injection is a technique for achieving Inversion of Control between classes');
+    });
+  });
+});
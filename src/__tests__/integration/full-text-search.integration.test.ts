@@ -0,0 +1,95 @@
+/**
+ * Integration Tests: Native Full-Text Search
+ *
+ * Verifies the LanceDB full-text (BM25) index on chunks and catalog, the
+ * adapter's full-text search and the hybrid search merging full-text and
+ * vector candidates against a real LanceDB database.
+ *
+ * @group integration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as lancedb from '@lancedb/lancedb';
+import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
+import { SearchableCollectionAdapter } from '../../infrastructure/lancedb/searchable-collection-adapter.js';
+import {
+  createFullTextIndex,
+  hasFullTextIndex,
+  reembedTable
+} from '../../infrastructure/lancedb/seeding/index.js';
+import { SimpleEmbeddingService } from '../../infrastructure/embeddings/simple-embedding-service.js';
+import { ConceptualHybridSearchService } from '../../infrastructure/search/conceptual-hybrid-search-service.js';
+import { QueryExpander } from '../../concepts/query_expander.js';
+
+describe('Full-text search - Integration', () => {
+  let fixture: TestDatabaseFixture;
+  let db: lancedb.Connection;
+  let chunksTable: lancedb.Table;
+
+  beforeEach(async () => {
+    fixture = createTestDatabase('full-text-search');
+    await fixture.setup();
+    db = await lancedb.connect(fixture.getDbPath());
+    chunksTable = await db.openTable('chunks');
+    await createFullTextIndex(chunksTable, 'text', 'chunks', { silent: true });
+  });
+
+  afterEach(async () => {
+    await fixture.teardown();
+  });
+
+  describe('SearchableCollectionAdapter.fullTextSearch', () => {
+    it('should return BM25-scored matches with stemming', async () => {
+      const collection = new SearchableCollectionAdapter(chunksTable, 'chunks');
+
+      const rows = await collection.fullTextSearch('checks static types', 10);
+
+      expect(rows).toBeDefined();
+      expect(rows![0].text).toContain('static type checking');
+      expect(rows![0]._score).toBeGreaterThan(0);
+    });
+
+    it('should apply filters', async () => {
+      const collection = new SearchableCollectionAdapter(chunksTable, 'chunks');
+
+      const all = await collection.fullTextSearch('dependency', 10);
+      const filtered = await collection.fullTextSearch('dependency', 10, { filter: "catalog_title = 'Dependency Injection'" });
+
+      expect(all!.length).toBeGreaterThan(1);
+      expect(filtered!.map(row => row.catalog_title)).toEqual(['Dependency Injection']);
+    });
+
+    it('should report a missing index as undefined', async () => {
+      const catalogTable = await db.openTable('catalog');
+      const collection = new SearchableCollectionAdapter(catalogTable, 'catalog');
+
+      expect(await collection.fullTextSearch('architecture', 10)).toBeUndefined();
+    });
+  });
+
+  describe('ConceptualHybridSearchService', () => {
+    it('should rank the exact keyword match first with native BM25', async () => {
+      const embeddingService = new SimpleEmbeddingService();
+      const queryExpander = new QueryExpander(await db.openTable('concepts'), embeddingService);
+      const service = new ConceptualHybridSearchService(embeddingService, queryExpander);
+
+      const results = await service.search(
+        new SearchableCollectionAdapter(chunksTable, 'chunks'),
+        'compile time runtime errors',
+        1
+      );
+
+      expect(results).toHaveLength(1);
+      expect(results[0].text).toContain('compile time');
+      expect(results[0].bm25Score).toBe(1);
+    });
+  });
+
+  describe('reembedTable', () => {
+    it('should recreate the full-text index after rewriting the table', async () => {
+      await reembedTable(db, 'chunks', new SimpleEmbeddingService(), { silent: true });
+
+      expect(await hasFullTextIndex(await db.openTable('chunks'), 'text')).toBe(true);
+    });
+  });
+});
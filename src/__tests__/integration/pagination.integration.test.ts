@@ -0,0 +1,70 @@
+/**
+ * Integration Tests: search result pagination
+ *
+ * Verifies that paging catalog_search and broad_chunks_search through a real
+ * LanceDB database with next_cursor walks one ranking: adjacent pages do not
+ * overlap and together hold the ranking of the first page.
+ *
+ * @group integration
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
+import { ApplicationContainer } from '../../application/container.js';
+import { Configuration } from '../../application/config/index.js';
+
+describe('Search pagination - Integration', () => {
+  let fixture: TestDatabaseFixture;
+  let container: ApplicationContainer;
+
+  beforeAll(async () => {
+    Configuration.reset();
+    fixture = createTestDatabase('pagination');
+    await fixture.setup();
+    container = new ApplicationContainer();
+    await container.initialize(fixture.getDbPath());
+  });
+
+  afterAll(async () => {
+    await container.close();
+    Configuration.reset();
+    await fixture.teardown();
+  });
+
+  async function search(toolName: string, params: Record<string, unknown>) {
+    const result = await container.getTool(toolName).execute(params);
+    expect(result.isError).toBe(false);
+    return JSON.parse(result.content[0].text);
+  }
+
+  async function collectPages(toolName: string, text: string, limit: number, key: string): Promise<string[][]> {
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await search(toolName, { text, limit, cursor });
+      pages.push(page.results.map((r: any) => r[key]));
+      cursor = page.next_cursor ?? undefined;
+    } while (cursor);
+    return pages;
+  }
+
+  it.each([
+    ['catalog_search', 'software architecture patterns', 'source'],
+    ['broad_chunks_search', 'software design principles', 'chunk_id']
+  ])('should page %s through one ranking without repeating results', async (toolName, text, key) => {
+    // ARRANGE - the first page and the rest of its ranking in one page
+    const first = await search(toolName, { text, limit: 1 });
+    const rest = await search(toolName, { text, limit: 100, cursor: first.next_cursor });
+    const expected = [...first.results, ...rest.results].map((r: any) => r[key]);
+
+    // ACT
+    const pages = await collectPages(toolName, text, 1, key);
+
+    // ASSERT
+    expect(pages.length).toBeGreaterThan(1);
+    for (let i = 1; i < pages.length; i++) {
+      expect(pages[i].filter(id => pages[i - 1].includes(id))).toEqual([]);
+    }
+    expect(pages.flat()).toEqual(expected);
+  });
+});
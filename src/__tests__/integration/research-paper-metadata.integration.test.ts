@@ -39,7 +39,7 @@ describe('Research Paper Metadata Fields - Integration Tests', () => {
     title: 'Clean Architecture',
     summary: 'A comprehensive guide to clean architecture principles.',
     hash: 'book-hash-001',
-    vector: embeddingService.generateEmbedding('clean architecture principles'),
+    vector: embeddingService.computeEmbedding('clean architecture principles'),
     concept_ids: [hashToId('clean architecture')],
     concept_names: ['clean architecture'],
     category_ids: [hashToId('software architecture')],
@@ -65,7 +65,7 @@ describe('Research Paper Metadata Fields - Integration Tests', () => {
     title: 'Exploring Security Practices of Smart Contract Developers',
     summary: 'Study examining how developers approach smart contract security.',
     hash: 'paper-hash-001',
-    vector: embeddingService.generateEmbedding('smart contract security blockchain'),
+    vector: embeddingService.computeEmbedding('smart contract security blockchain'),
     concept_ids: [hashToId('smart contracts'), hashToId('blockchain security')],
     concept_names: ['smart contracts', 'blockchain security'],
     category_ids: [hashToId('blockchain')],
@@ -91,7 +91,7 @@ describe('Research Paper Metadata Fields - Integration Tests', () => {
     title: 'Love Unrequited: Architecture Decision Records',
     summary: 'How ADRs brought architecture and agile together.',
     hash: 'paper-hash-002',
-    vector: embeddingService.generateEmbedding('architecture decision records agile'),
+    vector: embeddingService.computeEmbedding('architecture decision records agile'),
     concept_ids: [hashToId('architecture decision records')],
     concept_names: ['architecture decision records'],
     category_ids: [hashToId('software architecture')],
@@ -126,7 +126,7 @@ describe('Research Paper Metadata Fields - Integration Tests', () => {
       id: hashToId('clean architecture'),
       name: 'clean architecture',
       summary: 'Software design approach',
-      vector: embeddingService.generateEmbedding('clean architecture'),
+      vector: await embeddingService.generateEmbedding('clean architecture'),
       weight: 0.85,
       catalog_ids: [testBook.id],
       catalog_titles: ['Clean Architecture'],
@@ -79,7 +79,7 @@ describe('Search Filtering - Integration', () => {
       if (skipIfNoSchema()) return; // Early return acts as skip
       
       const collection = new SearchableCollectionAdapter(chunksTable, 'chunks');
-      const queryVector = embeddingService.generateEmbedding('blockchain consensus');
+      const queryVector = await embeddingService.generateEmbedding('blockchain consensus');
       
       const results = await collection.vectorSearch(queryVector, 50);
       const refCount = results.filter((r: any) => r.is_reference === true).length;
@@ -92,7 +92,7 @@ describe('Search Filtering - Integration', () => {
       if (skipIfNoSchema()) return;
       
       const collection = new SearchableCollectionAdapter(chunksTable, 'chunks');
-      const queryVector = embeddingService.generateEmbedding('blockchain consensus');
+      const queryVector = await embeddingService.generateEmbedding('blockchain consensus');
       
       const results = await collection.vectorSearch(queryVector, 50, { 
         filter: 'is_reference = false' 
@@ -108,7 +108,7 @@ describe('Search Filtering - Integration', () => {
       if (skipIfNoSchema()) return;
       
       const collection = new SearchableCollectionAdapter(chunksTable, 'chunks');
-      const queryVector = embeddingService.generateEmbedding('smart contract security');
+      const queryVector = await embeddingService.generateEmbedding('smart contract security');
       
       const results = await collection.vectorSearch(queryVector, 20, { 
         filter: 'is_reference = false' 
@@ -129,7 +129,7 @@ describe('Search Filtering - Integration', () => {
       if (skipIfNoSchema()) return;
       
       const collection = new SearchableCollectionAdapter(chunksTable, 'chunks');
-      const queryVector = embeddingService.generateEmbedding('consensus protocol replicas');
+      const queryVector = await embeddingService.generateEmbedding('consensus protocol replicas');
       
       const results = await collection.vectorSearch(queryVector, 100);
       
@@ -142,7 +142,7 @@ describe('Search Filtering - Integration', () => {
       if (skipIfNoSchema()) return;
       
       const collection = new SearchableCollectionAdapter(chunksTable, 'chunks');
-      const queryVector = embeddingService.generateEmbedding('Byzantine fault tolerant');
+      const queryVector = await embeddingService.generateEmbedding('Byzantine fault tolerant');
       
       const results = await collection.vectorSearch(queryVector, 50, { 
         filter: 'has_extraction_issues = false' 
@@ -160,7 +160,7 @@ describe('Search Filtering - Integration', () => {
       if (skipIfNoSchema()) return;
       
       const collection = new SearchableCollectionAdapter(chunksTable, 'chunks');
-      const queryVector = embeddingService.generateEmbedding('protocol security');
+      const queryVector = await embeddingService.generateEmbedding('protocol security');
       
       const results = await collection.vectorSearch(queryVector, 50, { 
         filter: 'is_reference = false AND has_extraction_issues = false' 
@@ -179,7 +179,7 @@ describe('Search Filtering - Integration', () => {
       if (skipIfNoSchema()) return;
       
       const collection = new SearchableCollectionAdapter(chunksTable, 'chunks');
-      const queryVector = embeddingService.generateEmbedding('mathematical formula equation');
+      const queryVector = await embeddingService.generateEmbedding('mathematical formula equation');
       
       // Get only math chunks
       const mathResults = await collection.vectorSearch(queryVector, 50, { 
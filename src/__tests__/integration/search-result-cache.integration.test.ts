@@ -0,0 +1,92 @@
+/**
+ * Integration Tests: Search Result Cache Invalidation
+ *
+ * Verifies that cached search results are not served after the database
+ * is written by another connection (as when it is reseeded).
+ *
+ * @group integration
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as lancedb from '@lancedb/lancedb';
+import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
+import { ApplicationContainer } from '../../application/container.js';
+import { Configuration } from '../../application/config/index.js';
+import { SearchableCollectionAdapter } from '../../infrastructure/lancedb/searchable-collection-adapter.js';
+import { createIntegrationTestChunk, TEST_CATALOG_IDS } from '../test-helpers/integration-test-data.js';
+import { SimpleEmbeddingService } from '../../infrastructure/embeddings/simple-embedding-service.js';
+import { hashToId } from '../../infrastructure/utils/hash.js';
+
+describe('Search result cache - Integration', () => {
+  let fixture: TestDatabaseFixture;
+  let db: lancedb.Connection;
+
+  beforeAll(async () => {
+    Configuration.reset();
+    Configuration.initialize({ DATABASE_READ_CONSISTENCY_INTERVAL: '0' });
+    fixture = createTestDatabase('search-result-cache');
+    await fixture.setup();
+    db = await lancedb.connect(fixture.getDbPath());
+  });
+
+  afterAll(async () => {
+    Configuration.reset();
+    await fixture.teardown();
+  });
+
+  it('should report a new collection version after a write', async () => {
+    // SETUP
+    const table = await db.openTable('catalog');
+    const collection = new SearchableCollectionAdapter(table, 'catalog');
+    const before = await collection.getVersion();
+
+    // EXERCISE
+    await table.delete(`id = ${hashToId('no-such-document')}`);
+    const after = await collection.getVersion();
+
+    // VERIFY
+    expect(after).toBeGreaterThan(before);
+  });
+
+  describe('broad_chunks_search', () => {
+    let container: ApplicationContainer;
+
+    beforeAll(async () => {
+      container = new ApplicationContainer();
+      await container.initialize(fixture.getDbPath());
+    });
+
+    afterAll(async () => {
+      await container.close();
+    });
+
+    const searchTexts = async (args: Record<string, unknown>): Promise<string[]> => {
+      const result = await container.getTool('broad_chunks_search').execute({ text: 'dependency injection', limit: 10, ...args });
+      expect(result.isError).toBe(false);
+      return JSON.parse(result.content[0].text).results.map((r: { text: string }) => r.text);
+    };
+
+    it('should not serve results cached before the chunks were rewritten', async () => {
+      // SETUP
+      const before = await searchTexts({});
+      const text = 'Dependency injection containers wire the reseeded object graph.';
+      const chunks = await db.openTable('chunks');
+      await chunks.add([createIntegrationTestChunk({
+        id: hashToId('chunk-di-reseeded'),
+        text,
+        catalog_id: TEST_CATALOG_IDS['dependency-injection'],
+        catalog_title: 'Dependency Injection',
+        hash: 'chunk-hash-reseeded',
+        vector: new SimpleEmbeddingService().computeEmbedding(text),
+        concept_names: ['dependency injection']
+      })] as unknown as Record<string, unknown>[]);
+
+      // EXERCISE
+      const after = await searchTexts({});
+
+      // VERIFY
+      expect(before).not.toContain(text);
+      expect(after).toContain(text);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Integration Tests: Corpus Vocabulary and Spelling Correction
+ *
+ * Verifies that the vocabulary is built from a real LanceDB database and
+ * that the container corrects misspelled queries against it.
+ *
+ * @group integration
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as lancedb from '@lancedb/lancedb';
+import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
+import { ApplicationContainer } from '../../application/container.js';
+import { Configuration } from '../../application/config/index.js';
+import { VocabularyStore, VOCABULARY_TABLE_NAME } from '../../infrastructure/lancedb/vocabulary-store.js';
+
+describe('Spelling correction - Integration', () => {
+  let fixture: TestDatabaseFixture;
+  let db: lancedb.Connection;
+
+  beforeAll(async () => {
+    Configuration.reset();
+    fixture = createTestDatabase('spelling-correction');
+    await fixture.setup();
+    db = await lancedb.connect(fixture.getDbPath());
+  });
+
+  afterAll(async () => {
+    Configuration.reset();
+    await fixture.teardown();
+  });
+
+  describe('VocabularyStore', () => {
+    it('should read an empty vocabulary before one is built', async () => {
+      // EXERCISE
+      const vocabulary = await new VocabularyStore(db).read();
+
+      // VERIFY
+      expect(vocabulary.size).toBe(0);
+    });
+
+    it('should build the vocabulary from concept names, titles and chunk text', async () => {
+      // SETUP
+      const store = new VocabularyStore(db);
+
+      // EXERCISE
+      const termCount = await store.rebuild();
+      const vocabulary = await store.read();
+
+      // VERIFY
+      expect(termCount).toBe(vocabulary.size);
+      expect((await db.tableNames())).toContain(VOCABULARY_TABLE_NAME);
+      // Concept name and title words are kept even when chunks use them once
+      expect(vocabulary.get('dependency')).toBeGreaterThanOrEqual(2);
+      expect(vocabulary.has('injection')).toBe(true);
+      expect(vocabulary.has('typescript')).toBe(true);
+      // Chunk words used once are kept, below the suggestion frequency
+      expect(vocabulary.get('designs')).toBe(1);
+      // Short words are left out
+      expect(vocabulary.has('is')).toBe(false);
+    });
+  });
+
+  describe('broad_chunks_search', () => {
+    let container: ApplicationContainer;
+
+    beforeAll(async () => {
+      await new VocabularyStore(db).rebuild();
+      container = new ApplicationContainer();
+      await container.initialize(fixture.getDbPath());
+    });
+
+    afterAll(async () => {
+      await container.close();
+    });
+
+    it('should search the corrected query and report it as did_you_mean', async () => {
+      // EXERCISE
+      const result = await container.getTool('broad_chunks_search').execute({ text: 'dependancy injection', limit: 3 });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      const content = JSON.parse(result.content[0].text);
+      expect(content.did_you_mean).toBe('dependency injection');
+      expect(content.results.length).toBeGreaterThan(0);
+    });
+
+    it('should not correct a word the corpus uses only once', async () => {
+      // EXERCISE
+      const result = await container.getTool('broad_chunks_search').execute({ text: 'designs', limit: 3 });
+
+      // VERIFY
+      expect(JSON.parse(result.content[0].text)).not.toHaveProperty('did_you_mean');
+    });
+
+    it('should not report did_you_mean for correctly spelled queries', async () => {
+      // EXERCISE
+      const result = await container.getTool('broad_chunks_search').execute({ text: 'dependency injection', limit: 3 });
+
+      // VERIFY
+      expect(JSON.parse(result.content[0].text)).not.toHaveProperty('did_you_mean');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Integration Tests: Structured Search Filters
+ *
+ * Verifies that typed metadata filters and query field restrictions
+ * compile into predicates LanceDB accepts and that they restrict catalog
+ * and chunk hybrid search against a real LanceDB database.
+ *
+ * @group integration
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as lancedb from '@lancedb/lancedb';
+import { createTestDatabase, TestDatabaseFixture } from './test-db-setup.js';
+import { TEST_CATALOG_IDS } from '../test-helpers/integration-test-data.js';
+import { LanceDBCatalogRepository } from '../../infrastructure/lancedb/repositories/lancedb-catalog-repository.js';
+import { LanceDBChunkRepository } from '../../infrastructure/lancedb/repositories/lancedb-chunk-repository.js';
+import { LanceDBConceptRepository } from '../../infrastructure/lancedb/repositories/lancedb-concept-repository.js';
+import { SimpleEmbeddingService } from '../../infrastructure/embeddings/simple-embedding-service.js';
+import { ConceptualHybridSearchService } from '../../infrastructure/search/conceptual-hybrid-search-service.js';
+import { QueryExpander } from '../../concepts/query_expander.js';
+import { ChunkSearchService } from '../../domain/services/chunk-search-service.js';
+import { CatalogSearchService } from '../../domain/services/catalog-search-service.js';
+import { isOk } from '../../domain/functional/index.js';
+
+describe('Structured search filters - Integration', () => {
+  let fixture: TestDatabaseFixture;
+  let catalogRepo: LanceDBCatalogRepository;
+  let chunkRepo: LanceDBChunkRepository;
+
+  const patternIds = [TEST_CATALOG_IDS['repository-pattern'], TEST_CATALOG_IDS['dependency-injection']].sort();
+
+  beforeAll(async () => {
+    fixture = createTestDatabase('structured-filters');
+    await fixture.setup();
+    const db = await lancedb.connect(fixture.getDbPath());
+    const conceptsTable = await db.openTable('concepts');
+
+    const embeddingService = new SimpleEmbeddingService();
+    const conceptRepo = new LanceDBConceptRepository(conceptsTable);
+    const hybridSearch = new ConceptualHybridSearchService(
+      embeddingService,
+      new QueryExpander(conceptsTable, embeddingService)
+    );
+    catalogRepo = new LanceDBCatalogRepository(await db.openTable('catalog'), hybridSearch);
+    chunkRepo = new LanceDBChunkRepository(await db.openTable('chunks'), conceptRepo, embeddingService, hybridSearch);
+  });
+
+  afterAll(async () => {
+    await fixture.teardown();
+  });
+
+  describe('LanceDBCatalogRepository.findIdsByFilters', () => {
+    it('should match categories case-insensitively', async () => {
+      const ids = await catalogRepo.findIdsByFilters({ category: 'Design Patterns' });
+
+      expect(ids.sort()).toEqual(patternIds);
+    });
+
+    it('should combine year, type and author filters', async () => {
+      expect(await catalogRepo.findIdsByFilters({ yearFrom: 2010, yearTo: 2020, documentType: 'book', author: 'martin' }))
+        .toHaveLength(5);
+      expect(await catalogRepo.findIdsByFilters({ yearFrom: 2018 })).toEqual([]);
+      expect(await catalogRepo.findIdsByFilters({ documentType: 'paper' })).toEqual([]);
+    });
+
+    it('should treat quotes and wildcards in values as literal text', async () => {
+      expect(await catalogRepo.findIdsByFilters({ author: "x' OR '1'='1" })).toEqual([]);
+      expect(await catalogRepo.findIdsByFilters({ author: '%' })).toEqual([]);
+    });
+  });
+
+  describe('hybrid search', () => {
+    it('should restrict catalog search to matching documents', async () => {
+      const results = await catalogRepo.search({
+        text: 'patterns',
+        limit: 10,
+        filters: { category: 'design patterns' }
+      });
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every(r => patternIds.includes(r.id))).toBe(true);
+    });
+
+    it('should restrict chunk search to documents matching metadata filters', async () => {
+      const service = new ChunkSearchService(chunkRepo, catalogRepo);
+
+      const result = await service.searchBroad({
+        text: 'dependency injection patterns',
+        limit: 10,
+        filters: { category: 'design patterns', catalogIds: [TEST_CATALOG_IDS['dependency-injection']] }
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.length).toBeGreaterThan(0);
+        expect(result.value.every(r => r.catalogId === TEST_CATALOG_IDS['dependency-injection'])).toBe(true);
+      }
+    });
+  });
+
+  describe('facets', () => {
+    it('should find catalog entries by ID with their bibliographic metadata', async () => {
+      const documents = await catalogRepo.findByIds([patternIds[0], patternIds[0], 1]);
+
+      expect(documents.map(d => d.id)).toEqual([patternIds[0]]);
+      expect(documents[0]).toMatchObject({ author: 'Robert C. Martin', year: 2017, documentType: 'book' });
+    });
+
+    it('should count catalog facets over all matching documents', async () => {
+      const service = new CatalogSearchService(catalogRepo);
+
+      const result = await service.searchCatalogWithFacets({
+        text: 'patterns',
+        limit: 1,
+        filters: { category: 'design patterns' },
+        facets: ['category', 'year', 'venue']
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.results).toHaveLength(1);
+        expect(result.value.facets).toEqual({
+          category: [{ value: 'design patterns', count: 2 }],
+          year: [{ value: 2017, count: 2 }],
+          venue: []
+        });
+      }
+    });
+
+    it('should count chunk facets over the documents of all matching chunks', async () => {
+      const service = new ChunkSearchService(chunkRepo, catalogRepo);
+
+      const result = await service.searchBroadWithFacets({
+        text: 'dependency injection patterns',
+        limit: 1,
+        filters: { category: 'design patterns' },
+        facets: ['category', 'author']
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        const { category, author } = result.value.facets;
+        expect(result.value.results).toHaveLength(1);
+        expect(category).toHaveLength(1);
+        expect(category![0].value).toBe('design patterns');
+        expect(category![0].count).toBeGreaterThan(1);
+        expect(author).toEqual([{ value: 'Robert C. Martin', count: category![0].count }]);
+      }
+    });
+  });
+
+  describe('query syntax', () => {
+    it('should apply field restrictions and exclusions to catalog search', async () => {
+      const results = await catalogRepo.search({ text: 'patterns category:"design patterns" -title:repository', limit: 10 });
+
+      expect(results.map(r => r.id)).toEqual([TEST_CATALOG_IDS['dependency-injection']]);
+      expect(await catalogRepo.search({ text: 'patterns year:..2000', limit: 10 })).toEqual([]);
+    });
+
+    it('should resolve document fields and exclude terms in chunk search', async () => {
+      const service = new ChunkSearchService(chunkRepo, catalogRepo);
+
+      const result = await service.searchBroad({ text: 'pattern category:"design patterns" -injection', limit: 10 });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.map(r => r.catalogId)).toEqual([TEST_CATALOG_IDS['repository-pattern']]);
+      }
+    });
+  });
+
+  describe('category names stored in mixed case', () => {
+    beforeAll(async () => {
+      // The seeder stores category names as extracted, not lowercased
+      const catalogTable = await (await lancedb.connect(fixture.getDbPath())).openTable('catalog');
+      await catalogTable.update({
+        where: `id = ${TEST_CATALOG_IDS['typescript']}`,
+        valuesSql: { category_names: "make_array('Programming Languages')" }
+      });
+    });
+
+    it('should match the filter and the category field whatever their case', async () => {
+      expect(await catalogRepo.findIdsByFilters({ category: 'programming languages' })).toEqual([TEST_CATALOG_IDS['typescript']]);
+      expect(await catalogRepo.findIdsByFilters({ category: 'Programming Languages' })).toEqual([TEST_CATALOG_IDS['typescript']]);
+      expect(await catalogRepo.findIdsByFilters({ category: 'programming' })).toEqual([]);
+
+      const results = await catalogRepo.search({ text: 'typescript category:"programming languages"', limit: 10 });
+      expect(results.map(r => r.id)).toEqual([TEST_CATALOG_IDS['typescript']]);
+    });
+  });
+});
@@ -58,6 +58,7 @@ export interface IntegrationChunkData {
   concept_names: string[];  // DERIVED: for display and text search
   concept_density?: number;
   page_number?: number;
+  chunk_index?: number;  // 0-based position in the document's reading order
   // Document content classification fields (ADR-0046)
   is_reference: boolean;         // True if chunk is from references/bibliography section
   has_extraction_issues: boolean; // True if chunk has garbled math or OCR issues
@@ -154,11 +155,12 @@ export function createIntegrationTestChunk(overrides?: Partial<IntegrationChunkD
     catalog_id: catalogId,
     catalog_title: 'Clean Architecture',  // DERIVED
     hash: 'chunk-hash-001',
-    vector: embeddingService.generateEmbedding('Clean architecture is a software design philosophy'),
+    vector: embeddingService.computeEmbedding('Clean architecture is a software design philosophy'),
     concept_ids: conceptNames.map(name => TEST_CONCEPTS[name as keyof typeof TEST_CONCEPTS] || hashToId(name)),
     concept_names: conceptNames,  // DERIVED
     concept_density: 0.15,
     page_number: 1,
+    chunk_index: 0,
     // Content classification defaults (ADR-0046)
     is_reference: false,          // Most chunks are content, not references
     has_extraction_issues: false, // Test data has no extraction issues
@@ -183,7 +185,7 @@ export function createIntegrationTestConcept(overrides?: Partial<IntegrationConc
     id: hashToId(conceptName),
     name: conceptName,
     summary: `Concept summary for ${conceptName}`,
-    vector: embeddingService.generateEmbedding(conceptName),
+    vector: embeddingService.computeEmbedding(conceptName),
     weight: 0.85,
     catalog_ids: [TEST_CATALOG_IDS['clean-architecture']],
     catalog_titles: ['Clean Architecture'],  // DERIVED
@@ -213,7 +215,7 @@ export function createIntegrationTestCatalogEntry(overrides?: Partial<Integratio
     title: 'Clean Architecture',
     summary: 'Comprehensive guide to Clean Architecture principles and implementation patterns.',
     hash: 'catalog-hash-001',
-    vector: embeddingService.generateEmbedding('Clean Architecture principles'),
+    vector: embeddingService.computeEmbedding('Clean Architecture principles'),
     concept_ids: conceptNames.map(name => TEST_CONCEPTS[name as keyof typeof TEST_CONCEPTS] || hashToId(name)),
     concept_names: conceptNames,  // DERIVED
     category_ids: categoryNames.map(name => TEST_CATEGORIES[name as keyof typeof TEST_CATEGORIES] || hashToId(name)),
@@ -254,7 +256,7 @@ export function createIntegrationTestCategory(overrides?: Partial<IntegrationCat
     document_count: 5,
     chunk_count: 25,
     concept_count: 10,
-    vector: embeddingService.generateEmbedding(categoryName)
+    vector: embeddingService.computeEmbedding(categoryName)
   };
   
   return { ...defaults, ...overrides };
@@ -277,7 +279,7 @@ export function createStandardTestChunks(): IntegrationChunkData[] {
       catalog_id: TEST_CATALOG_IDS['repository-pattern'],
       catalog_title: 'Repository Pattern',
       hash: 'chunk-hash-002',
-      vector: embeddingService.generateEmbedding('Repository pattern provides an abstraction layer'),
+      vector: embeddingService.computeEmbedding('Repository pattern provides an abstraction layer'),
       concept_names: ['repository pattern', 'clean architecture'],
       page_number: 1
     }),
@@ -287,7 +289,7 @@ export function createStandardTestChunks(): IntegrationChunkData[] {
       catalog_id: TEST_CATALOG_IDS['dependency-injection'],
       catalog_title: 'Dependency Injection',
       hash: 'chunk-hash-003',
-      vector: embeddingService.generateEmbedding('Dependency injection is a technique'),
+      vector: embeddingService.computeEmbedding('Dependency injection is a technique'),
       concept_names: ['dependency injection', 'solid principles'],
       page_number: 1
     }),
@@ -297,7 +299,7 @@ export function createStandardTestChunks(): IntegrationChunkData[] {
       catalog_id: TEST_CATALOG_IDS['solid'],
       catalog_title: 'SOLID Principles',
       hash: 'chunk-hash-004',
-      vector: embeddingService.generateEmbedding('SOLID principles are five design principles'),
+      vector: embeddingService.computeEmbedding('SOLID principles are five design principles'),
       concept_names: ['solid principles', 'clean architecture'],
       page_number: 1
     }),
@@ -307,7 +309,7 @@ export function createStandardTestChunks(): IntegrationChunkData[] {
       catalog_id: TEST_CATALOG_IDS['typescript'],
       catalog_title: 'TypeScript',
       hash: 'chunk-hash-005',
-      vector: embeddingService.generateEmbedding('TypeScript provides static type checking'),
+      vector: embeddingService.computeEmbedding('TypeScript provides static type checking'),
       concept_names: ['typescript', 'dependency injection'],
       page_number: 1
     })
@@ -328,7 +330,7 @@ export function createStandardTestConcepts(): IntegrationConceptData[] {
     }),
     createIntegrationTestConcept({
       name: 'repository pattern',
-      vector: embeddingService.generateEmbedding('repository pattern'),
+      vector: embeddingService.computeEmbedding('repository pattern'),
       weight: 0.78,
       catalog_ids: [TEST_CATALOG_IDS['repository-pattern']],
       catalog_titles: ['Repository Pattern'],
@@ -337,7 +339,7 @@ export function createStandardTestConcepts(): IntegrationConceptData[] {
     }),
     createIntegrationTestConcept({
       name: 'dependency injection',
-      vector: embeddingService.generateEmbedding('dependency injection'),
+      vector: embeddingService.computeEmbedding('dependency injection'),
       weight: 0.82,
       catalog_ids: [TEST_CATALOG_IDS['dependency-injection']],
       catalog_titles: ['Dependency Injection'],
@@ -346,7 +348,7 @@ export function createStandardTestConcepts(): IntegrationConceptData[] {
     }),
     createIntegrationTestConcept({
       name: 'solid principles',
-      vector: embeddingService.generateEmbedding('solid principles'),
+      vector: embeddingService.computeEmbedding('solid principles'),
       weight: 0.90,
       catalog_ids: [TEST_CATALOG_IDS['solid']],
       catalog_titles: ['SOLID Principles'],
@@ -355,7 +357,7 @@ export function createStandardTestConcepts(): IntegrationConceptData[] {
     }),
     createIntegrationTestConcept({
       name: 'typescript',
-      vector: embeddingService.generateEmbedding('typescript'),
+      vector: embeddingService.computeEmbedding('typescript'),
       weight: 0.75,
       catalog_ids: [TEST_CATALOG_IDS['typescript']],
       catalog_titles: ['TypeScript'],
@@ -384,7 +386,7 @@ export function createStandardTestCatalogEntries(): IntegrationCatalogData[] {
       title: 'Repository Pattern',
       summary: 'Design patterns for modern software development including Repository and Factory patterns.',
       hash: 'catalog-hash-002',
-      vector: embeddingService.generateEmbedding('Design patterns for modern software'),
+      vector: embeddingService.computeEmbedding('Design patterns for modern software'),
       concept_names: ['repository pattern', 'clean architecture'],
       category_names: ['design patterns']
     }),
@@ -394,7 +396,7 @@ export function createStandardTestCatalogEntries(): IntegrationCatalogData[] {
       title: 'Dependency Injection',
       summary: 'Understanding Dependency Injection and Inversion of Control in object-oriented programming.',
       hash: 'catalog-hash-003',
-      vector: embeddingService.generateEmbedding('Dependency Injection and IoC'),
+      vector: embeddingService.computeEmbedding('Dependency Injection and IoC'),
       concept_names: ['dependency injection', 'solid principles'],
       category_names: ['design patterns']
     }),
@@ -404,7 +406,7 @@ export function createStandardTestCatalogEntries(): IntegrationCatalogData[] {
       title: 'SOLID Principles',
       summary: 'SOLID principles: Single Responsibility, Open-Closed, Liskov Substitution, Interface Segregation, Dependency Inversion.',
       hash: 'catalog-hash-004',
-      vector: embeddingService.generateEmbedding('SOLID principles SRP OCP LSP ISP DIP'),
+      vector: embeddingService.computeEmbedding('SOLID principles SRP OCP LSP ISP DIP'),
       concept_names: ['solid principles', 'clean architecture'],
       category_names: ['software engineering']
     }),
@@ -414,7 +416,7 @@ export function createStandardTestCatalogEntries(): IntegrationCatalogData[] {
       title: 'TypeScript',
       summary: 'TypeScript language features, type system, and best practices for type-safe JavaScript development.',
       hash: 'catalog-hash-005',
-      vector: embeddingService.generateEmbedding('TypeScript language features type system'),
+      vector: embeddingService.computeEmbedding('TypeScript language features type system'),
       concept_names: ['typescript'],
       category_names: ['programming languages']
     })
@@ -15,17 +15,25 @@
 import {
   ChunkRepository,
   ConceptRepository,
-  CatalogRepository
+  CatalogRepository,
+  ScoredConcept
 } from '../../domain/interfaces/repositories/index.js';
 import {
+  CandidateSearchResults,
   Chunk,
+  ChunkContext,
   Concept,
+  PassageCandidate,
+  SearchExplanation,
+  SearchFilters,
   SearchQuery,
   SearchResult
 } from '../../domain/models/index.js';
 // @ts-expect-error - Type narrowing limitation with Option
 import type { Option } from '../../domain/functional/index.js';
 import { fromNullable } from '../../domain/functional/index.js';
+import { createTestSearchExplanation } from './test-data.js';
+import { alignPassage, passageShingles } from '../../infrastructure/search/passage-matching.js';
 
 /**
  * Fake ChunkRepository using in-memory Map
@@ -64,6 +72,42 @@ export class FakeChunkRepository implements ChunkRepository {
     return Promise.resolve(results);
   }
   
+  // @ts-expect-error - Type narrowing limitation
+  async findNeighbours(chunkId: number, before: number, after: number): Promise<Option<ChunkContext>> {
+    const chunk = this.chunks.get(chunkId);
+    if (!chunk) {
+      return Promise.resolve(fromNullable<ChunkContext>(undefined));
+    }
+    // Reading order: chunk ordinal, falling back to page then insertion order
+    const document = Array.from(this.chunks.values())
+      .filter(c => c.catalogId === chunk.catalogId)
+      .sort((a, b) => (a.chunkIndex ?? a.pageNumber ?? 0) - (b.chunkIndex ?? b.pageNumber ?? 0));
+    const position = document.indexOf(chunk);
+    return Promise.resolve(fromNullable({
+      chunk,
+      before: document.slice(Math.max(0, position - before), position),
+      after: document.slice(position + 1, position + 1 + after)
+    }));
+  }
+  
+  async findByPassage(passage: string, limit: number): Promise<PassageCandidate[]> {
+    // Simple fake: shingles compared directly, no vector similarity
+    const shingles = passageShingles(passage);
+    const candidates = Array.from(this.chunks.values()).map(chunk => {
+      const chunkShingles = new Set(passageShingles(chunk.text));
+      const shared = shingles.filter(shingle => chunkShingles.has(shingle)).length;
+      return {
+        chunk,
+        shingleScore: shingles.length > 0 ? shared / shingles.length : 0,
+        vectorScore: 0,
+        alignment: alignPassage(passage, chunk.text)
+      };
+    });
+    return Promise.resolve(candidates
+      .filter(candidate => candidate.shingleScore > 0 || candidate.alignment)
+      .slice(0, limit));
+  }
+  
   async search(query: SearchQuery): Promise<SearchResult[]> {
     const queryLower = query.text.toLowerCase();
     const results = Array.from(this.chunks.values())
@@ -79,6 +123,15 @@ export class FakeChunkRepository implements ChunkRepository {
     return Promise.resolve(results);
   }
   
+  async searchWithCandidates(query: SearchQuery): Promise<CandidateSearchResults> {
+    const candidates = await this.search({ ...query, limit: this.chunks.size });
+    return { results: candidates.slice(0, query.limit || 10), candidates };
+  }
+  
+  async explainSearch(query: SearchQuery): Promise<SearchExplanation> {
+    return createTestSearchExplanation(await this.search(query), { query: query.text, collection: 'chunks' });
+  }
+  
   private chunkToSearchResult(chunk: Chunk): SearchResult {
     return {
       ...chunk,
@@ -134,7 +187,13 @@ export class FakeConceptRepository implements ConceptRepository {
     const concept = this.conceptsById.get(id);
     return Promise.resolve(fromNullable(concept));
   }
-  
+
+  async findByIds(ids: number[]): Promise<Concept[]> {
+    return Array.from(new Set(ids))
+      .map(id => this.conceptsById.get(id))
+      .filter((concept): concept is Concept => concept !== undefined);
+  }
+
   // @ts-expect-error - Type narrowing limitation
   async findByName(name: string): Promise<Option<Concept>> {
     const conceptLower = name.toLowerCase();
@@ -159,14 +218,28 @@ export class FakeConceptRepository implements ConceptRepository {
     return related;
   }
   
-  async searchConcepts(queryText: string, limit: number): Promise<Concept[]> {
+  async searchConcepts(queryText: string, limit: number): Promise<ScoredConcept[]> {
     const queryLower = queryText.toLowerCase();
     const results = Array.from(this.concepts.values())
       .filter(concept => 
         concept.name.toLowerCase().includes(queryLower) ||
         concept.synonyms?.some(s => s.toLowerCase().includes(queryLower))
       )
-      .slice(0, limit);
+      .slice(0, limit)
+      .map(concept => {
+        // Name matches rank above synonym matches
+        const nameScore = concept.name.toLowerCase().includes(queryLower) ? 1 : 0;
+        const wordnetScore = 1 - nameScore;
+        return {
+          ...concept,
+          hybridScore: 0.4 * nameScore + 0.1 * wordnetScore,
+          vectorScore: 0,
+          bm25Score: 0,
+          nameScore,
+          wordnetScore
+        };
+      })
+      .sort((a, b) => b.hybridScore - a.hybridScore);
     
     return Promise.resolve(results);
   }
@@ -215,6 +288,15 @@ export class FakeCatalogRepository implements CatalogRepository {
     return Promise.resolve(results);
   }
   
+  async searchWithCandidates(query: SearchQuery): Promise<CandidateSearchResults> {
+    const candidates = await this.search({ ...query, limit: this.documents.size });
+    return { results: candidates.slice(0, query.limit || 5), candidates };
+  }
+  
+  async explainSearch(query: SearchQuery): Promise<SearchExplanation> {
+    return createTestSearchExplanation(await this.search(query), { query: query.text, collection: 'catalog' });
+  }
+  
   // @ts-expect-error - Type narrowing limitation
   async findBySource(sourcePath: string): Promise<Option<SearchResult>> {
     const results = Array.from(this.documents.values())
@@ -229,6 +311,17 @@ export class FakeCatalogRepository implements CatalogRepository {
     return Promise.resolve(fromNullable(doc));
   }
   
+  async findByIds(catalogIds: number[]): Promise<SearchResult[]> {
+    return Promise.resolve(Array.from(new Set(catalogIds))
+      .map(id => this.documents.get(id))
+      .filter((doc): doc is SearchResult => doc !== undefined));
+  }
+  
+  async findByVector(_queryVector: number[], limit: number): Promise<SearchResult[]> {
+    // Simple mock: return documents in insertion order
+    return Promise.resolve(Array.from(this.documents.values()).slice(0, limit));
+  }
+  
   async findByCategory(_categoryId: number): Promise<SearchResult[]> {
     // Simple mock: return all documents for testing
     // In real tests, you'd filter by category_ids
@@ -241,6 +334,20 @@ export class FakeCatalogRepository implements CatalogRepository {
     return Promise.resolve([]);
   }
   
+  async findIdsByFilters(filters: SearchFilters): Promise<number[]> {
+    // Simple mock: year filters are ignored
+    const contains = (value: string | undefined, part: string) =>
+      (value || '').toLowerCase().includes(part.toLowerCase());
+    const ids = Array.from(this.documents.values())
+      .filter(doc => !filters.catalogIds || filters.catalogIds.includes(doc.id))
+      .filter(doc => !filters.documentType || doc.documentType === filters.documentType)
+      .filter(doc => !filters.author || (doc.authors || []).some(author => contains(author, filters.author!)))
+      .filter(doc => !filters.category || (doc.categoryNames || []).some(name => name.toLowerCase() === filters.category!.toLowerCase()))
+      .filter(doc => !filters.venue || contains(doc.venue, filters.venue))
+      .map(doc => doc.id);
+    return Promise.resolve(ids);
+  }
+  
   async count(): Promise<number> {
     return Promise.resolve(this.documents.size);
   }
@@ -19,7 +19,7 @@ import { createTestEmbedding } from './test-data.js';
 export class FakeEmbeddingService implements EmbeddingService {
   private embeddings: Map<string, number[]> = new Map();
   
-  generateEmbedding(text: string): number[] {
+  async generateEmbedding(text: string): Promise<number[]> {
     // Return cached embedding if available
     if (this.embeddings.has(text)) {
       return this.embeddings.get(text)!;
@@ -34,6 +34,10 @@ export class FakeEmbeddingService implements EmbeddingService {
     return embedding;
   }
   
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.generateEmbedding(text)));
+  }
+  
   // Test helpers
   setEmbedding(text: string, embedding: number[]): void {
     this.embeddings.set(text, embedding);
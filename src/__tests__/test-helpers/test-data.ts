@@ -9,7 +9,7 @@
  * See REFERENCES.md for pattern sources and further reading.
  */
 
-import { Chunk, Concept, SearchResult } from '../../domain/models/index.js';
+import { Chunk, Concept, SearchExplanation, SearchResult } from '../../domain/models/index.js';
 
 /**
  * Creates a test chunk with sensible defaults
@@ -70,6 +70,60 @@ export function createTestSearchResult(overrides?: Partial<SearchResult>): Searc
   };
 }
 
+/**
+ * Creates a test search explanation ranking the given results
+ * 
+ * @param results - Ranked results (before and after reranking alike)
+ * @param overrides - Partial explanation properties to override defaults
+ * @returns Complete SearchExplanation object for testing
+ */
+export function createTestSearchExplanation(
+  results: SearchResult[] = [],
+  overrides?: Partial<SearchExplanation>
+): SearchExplanation {
+  const candidates = results.map((result, i) => ({
+    rank: i + 1,
+    id: result.id,
+    catalogId: result.catalogId,
+    source: result.source ?? '',
+    scores: {
+      vector: result.vectorScore,
+      bm25: result.bm25Score,
+      title: result.titleScore,
+      concept: result.conceptScore,
+      wordnet: result.wordnetScore
+    },
+    signalRanks: {},
+    hybridScore: result.hybridScore
+  }));
+  const weights = { vector: 0.35, bm25: 0.30, title: 0, concept: 0.20, wordnet: 0.15 };
+  return {
+    query: 'test',
+    collection: 'chunks',
+    corrections: [],
+    parsedQuery: { clauses: [] },
+    expandedTerms: [{ term: 'test', origin: 'original', weight: 1.0 }],
+    analysis: {
+      termCount: 1,
+      isSingleTerm: true,
+      wordnetTermCount: 0,
+      conceptTermCount: 0,
+      wordnetExpansionRatio: 0,
+      hasStrongConceptSignal: false,
+      wordnetBoostFactor: 1.0,
+      boostReason: 'Default weighting'
+    },
+    weightProfile: 'default',
+    baseWeights: weights,
+    weights,
+    fusion: 'weighted',
+    candidates: { vector: results.length, fullText: null, merged: results.length, matching: results.length },
+    beforeRerank: candidates,
+    results: candidates,
+    ...overrides
+  };
+}
+
 /**
  * Creates a test embedding vector
  * 
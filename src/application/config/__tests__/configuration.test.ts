@@ -4,7 +4,7 @@
  * Tests for centralized configuration management.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Configuration } from '../configuration.js';
 
 describe('Configuration', () => {
@@ -77,6 +77,15 @@ describe('Configuration', () => {
       expect(db.tables.chunks).toBe('chunks');
       expect(db.tables.concepts).toBe('concepts');
       expect(db.tables.categories).toBe('categories');
+      expect(db.readConsistencyInterval).toBe(5);
+    });
+    
+    it('should read the read consistency interval from the environment', () => {
+      const config = Configuration.initialize({
+        DATABASE_READ_CONSISTENCY_INTERVAL: '0'
+      });
+      
+      expect(config.database.readConsistencyInterval).toBe(0);
     });
   });
   
@@ -132,24 +141,89 @@ describe('Configuration', () => {
       const search = config.search;
       expect(search.defaultLimit).toBe(10);
       expect(search.maxLimit).toBe(100);
-      expect(search.weights.vector).toBe(0.25);
-      expect(search.weights.bm25).toBe(0.25);
-      expect(search.weights.title).toBe(0.20);
-      expect(search.weights.concept).toBe(0.20);
-      expect(search.weights.wordnet).toBe(0.10);
+      expect(search.weights.catalog).toEqual({ vector: 0.30, bm25: 0.25, title: 0.20, concept: 0.15, wordnet: 0.10 });
+      expect(search.weights.chunk).toEqual({ vector: 0.35, bm25: 0.30, title: 0.00, concept: 0.20, wordnet: 0.15 });
+      expect(search.weights.concept).toEqual({ vector: 0.30, bm25: 0.20, title: 0.40, concept: 0.00, wordnet: 0.10 });
+    });
+    
+    it('should allow custom search weights per search type', () => {
+      const config = Configuration.initialize({
+        SEARCH_WEIGHT_CHUNK_VECTOR: '0.50',
+        SEARCH_WEIGHT_CHUNK_BM25: '0.15',
+        SEARCH_WEIGHT_CATALOG_TITLE: '0.30'
+      });
+      
+      expect(config.search.weights.chunk.vector).toBe(0.50);
+      expect(config.search.weights.chunk.bm25).toBe(0.15);
+      expect(config.search.weights.chunk.wordnet).toBe(0.15);
+      expect(config.search.weights.catalog.title).toBe(0.30);
+      expect(config.search.weights.concept.title).toBe(0.40);
+    });
+    
+    it('should apply the deprecated shared weights to catalog and chunk search', () => {
+      const config = Configuration.initialize({
+        SEARCH_WEIGHT_VECTOR: '0.50',
+        SEARCH_WEIGHT_TITLE: '0.05',
+        SEARCH_WEIGHT_CHUNK_VECTOR: '0.40'
+      });
+      
+      expect(config.search.weights.catalog.vector).toBe(0.50);
+      expect(config.search.weights.catalog.title).toBe(0.05);
+      expect(config.search.weights.chunk.vector).toBe(0.40);
+      expect(config.search.weights.chunk.title).toBe(0.05);
+      expect(config.search.weights.concept.vector).toBe(0.30);
+    });
+    
+    it('should default to weighted-sum fusion', () => {
+      const config = Configuration.initialize({});
+      
+      expect(config.search.fusion).toBe('weighted');
+      expect(config.search.rrfK).toBe(60);
+    });
+    
+    it('should select RRF fusion from environment', () => {
+      const config = Configuration.initialize({
+        SEARCH_FUSION: 'rrf',
+        SEARCH_RRF_K: '20'
+      });
+      
+      expect(config.search.fusion).toBe('rrf');
+      expect(config.search.rrfK).toBe(20);
+    });
+    
+    it('should enable spelling correction by default', () => {
+      const config = Configuration.initialize({});
+      
+      expect(config.search.spellingCorrection).toBe(true);
     });
     
-    it('should allow custom search weights', () => {
+    it('should disable spelling correction from environment', () => {
+      const config = Configuration.initialize({ SEARCH_SPELLING_CORRECTION: 'false' });
+      
+      expect(config.search.spellingCorrection).toBe(false);
+    });
+  });
+  
+  describe('rerank configuration', () => {
+    it('should disable reranking by default', () => {
+      const config = Configuration.initialize({});
+      
+      expect(config.rerank.provider).toBe('none');
+      expect(config.rerank.topK).toBe(30);
+    });
+    
+    it('should load reranker from environment', () => {
       const config = Configuration.initialize({
-        SEARCH_WEIGHT_VECTOR: '0.30',
-        SEARCH_WEIGHT_BM25: '0.30',
-        SEARCH_WEIGHT_TITLE: '0.15',
-        SEARCH_WEIGHT_CONCEPT: '0.15',
-        SEARCH_WEIGHT_WORDNET: '0.10'
+        RERANK_PROVIDER: 'cross-encoder',
+        RERANK_MODEL: 'ms-marco-MiniLM-L-12-v2',
+        RERANK_MODEL_PATH: '/models/cross-encoder',
+        RERANK_TOP_K: '50'
       });
       
-      expect(config.search.weights.vector).toBe(0.30);
-      expect(config.search.weights.bm25).toBe(0.30);
+      expect(config.rerank.provider).toBe('cross-encoder');
+      expect(config.rerank.model).toBe('ms-marco-MiniLM-L-12-v2');
+      expect(config.rerank.modelPath).toBe('/models/cross-encoder');
+      expect(config.rerank.topK).toBe(50);
     });
   });
   
@@ -210,18 +284,53 @@ describe('Configuration', () => {
       expect(() => config.validate()).toThrow('Invalid LOG_LEVEL');
     });
     
+    it('should throw on invalid fusion strategy', () => {
+      const config = Configuration.initialize({
+        SEARCH_FUSION: 'max'
+      });
+      
+      expect(() => config.validate()).toThrow('Invalid SEARCH_FUSION');
+    });
+    
+    it('should throw on invalid reranker', () => {
+      const config = Configuration.initialize({
+        RERANK_PROVIDER: 'bm25'
+      });
+      
+      expect(() => config.validate()).toThrow('Invalid RERANK_PROVIDER');
+    });
+    
     it('should warn if search weights do not sum to 1.0', () => {
       const config = Configuration.initialize({
-        SEARCH_WEIGHT_VECTOR: '0.50',
-        SEARCH_WEIGHT_BM25: '0.50',
-        SEARCH_WEIGHT_TITLE: '0.00',
-        SEARCH_WEIGHT_CONCEPT: '0.00',
-        SEARCH_WEIGHT_WORDNET: '0.00'
+        SEARCH_WEIGHT_CATALOG_VECTOR: '0.50',
+        SEARCH_WEIGHT_CATALOG_BM25: '0.50'
       });
       
       // Should not throw, but may warn
       expect(() => config.validate()).not.toThrow();
     });
+    
+    it('should throw on negative search weights', () => {
+      const config = Configuration.initialize({
+        SEARCH_WEIGHT_CONCEPT_BM25: '-0.1'
+      });
+      
+      expect(() => config.validate()).toThrow('Invalid SEARCH_WEIGHT_CONCEPT_BM25');
+    });
+    
+    it('should warn about deprecated shared search weights', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const config = Configuration.initialize({
+        SEARCH_WEIGHT_BM25: '0.30'
+      });
+      
+      try {
+        config.validate();
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('SEARCH_WEIGHT_BM25 deprecated'));
+      } finally {
+        warn.mockRestore();
+      }
+    });
   });
   
   describe('toJSON', () => {
@@ -244,6 +353,7 @@ describe('Configuration', () => {
       const json = config.toJSON();
       
       expect(json.llm.apiKey).toBe('[REDACTED]');
+      expect(json.rerank.apiKey).toBeUndefined();
     });
   });
   
@@ -36,11 +36,16 @@ import type {
   LLMConfig,
   EmbeddingConfig,
   SearchConfig,
+  SignalWeights,
+  RerankConfig,
   PerformanceConfig,
   LoggingConfig,
   Environment
 } from './types.js';
 
+/** Signals of the deprecated `SEARCH_WEIGHT_<SIGNAL>` variables */
+const LEGACY_WEIGHT_SIGNALS = ['VECTOR', 'BM25', 'TITLE', 'CONCEPT', 'WORDNET'];
+
 /**
  * Simple environment adapter for process.env or custom environment objects
  */
@@ -129,6 +134,7 @@ export class Configuration implements IConfiguration {
         concepts: this.env.get('CONCEPTS_TABLE_NAME', 'concepts'),
         categories: this.env.get('CATEGORIES_TABLE_NAME', 'categories')
       },
+      readConsistencyInterval: this.env.getNumber('DATABASE_READ_CONSISTENCY_INTERVAL', 5),
       ...this.overrides?.database
     };
   }
@@ -153,8 +159,12 @@ export class Configuration implements IConfiguration {
     return {
       provider: this.env.get('EMBEDDING_PROVIDER', 'simple'),
       model: this.env.get('EMBEDDING_MODEL'),
+      modelPath: this.env.get('EMBEDDING_MODEL_PATH'),
+      baseUrl: this.env.get('EMBEDDING_BASE_URL'),
+      apiKey: this.env.get('EMBEDDING_API_KEY'),
       dimensions: this.env.getNumber('EMBEDDING_DIMENSIONS', 384),
       batchSize: this.env.getNumber('EMBEDDING_BATCH_SIZE', 100),
+      mismatchPolicy: this.env.get('EMBEDDING_MISMATCH_POLICY', 'error') === 'warn' ? 'warn' : 'error',
       ...this.overrides?.embeddings
     };
   }
@@ -167,16 +177,54 @@ export class Configuration implements IConfiguration {
       defaultLimit: this.env.getNumber('SEARCH_DEFAULT_LIMIT', 10),
       maxLimit: this.env.getNumber('SEARCH_MAX_LIMIT', 100),
       weights: {
-        vector: this.env.getNumber('SEARCH_WEIGHT_VECTOR', 0.25),
-        bm25: this.env.getNumber('SEARCH_WEIGHT_BM25', 0.25),
-        title: this.env.getNumber('SEARCH_WEIGHT_TITLE', 0.20),
-        concept: this.env.getNumber('SEARCH_WEIGHT_CONCEPT', 0.20),
-        wordnet: this.env.getNumber('SEARCH_WEIGHT_WORDNET', 0.10)
+        catalog: this.signalWeights('CATALOG', { vector: 0.30, bm25: 0.25, title: 0.20, concept: 0.15, wordnet: 0.10 }, true),
+        chunk: this.signalWeights('CHUNK', { vector: 0.35, bm25: 0.30, title: 0.00, concept: 0.20, wordnet: 0.15 }, true),
+        concept: this.signalWeights('CONCEPT', { vector: 0.30, bm25: 0.20, title: 0.40, concept: 0.00, wordnet: 0.10 })
       },
+      fusion: this.env.get('SEARCH_FUSION', 'weighted') as SearchConfig['fusion'],
+      rrfK: this.env.getNumber('SEARCH_RRF_K', 60),
+      spellingCorrection: this.env.getBoolean('SEARCH_SPELLING_CORRECTION', true),
       ...this.overrides?.search
     };
   }
   
+  /**
+   * Read one search type's signal weights from `SEARCH_WEIGHT_<TYPE>_<SIGNAL>`.
+   * With `legacy`, the deprecated shared `SEARCH_WEIGHT_<SIGNAL>` variables
+   * (which weighted catalog and chunk search alike) apply when the per-type
+   * variable is unset.
+   */
+  private signalWeights(type: string, defaults: SignalWeights, legacy: boolean = false): SignalWeights {
+    const weight = (signal: keyof SignalWeights): number => {
+      const fallback = legacy
+        ? this.env.getNumber(`SEARCH_WEIGHT_${signal.toUpperCase()}`, defaults[signal])
+        : defaults[signal];
+      return this.env.getNumber(`SEARCH_WEIGHT_${type}_${signal.toUpperCase()}`, fallback);
+    };
+    return {
+      vector: weight('vector'),
+      bm25: weight('bm25'),
+      title: weight('title'),
+      concept: weight('concept'),
+      wordnet: weight('wordnet')
+    };
+  }
+  
+  /**
+   * Second-stage reranking configuration
+   */
+  get rerank(): RerankConfig {
+    return {
+      provider: this.env.get('RERANK_PROVIDER', 'none'),
+      model: this.env.get('RERANK_MODEL'),
+      modelPath: this.env.get('RERANK_MODEL_PATH'),
+      baseUrl: this.env.get('RERANK_BASE_URL'),
+      apiKey: this.env.get('RERANK_API_KEY'),
+      topK: this.env.getNumber('RERANK_TOP_K', 30),
+      ...this.overrides?.rerank
+    };
+  }
+  
   /**
    * Performance and caching configuration
    */
@@ -201,6 +249,16 @@ export class Configuration implements IConfiguration {
     };
   }
   
+  /**
+   * Deprecated shared `SEARCH_WEIGHT_<SIGNAL>` variables that are set.
+   * They still weigh catalog and chunk search where no per-type variable is set.
+   */
+  deprecatedWeightVariables(): string[] {
+    return LEGACY_WEIGHT_SIGNALS
+      .map(signal => `SEARCH_WEIGHT_${signal}`)
+      .filter(key => this.env.get(key) !== undefined);
+  }
+  
   /**
    * Validate configuration
    * 
@@ -218,11 +276,41 @@ export class Configuration implements IConfiguration {
       throw new Error('EMBEDDING_DIMENSIONS must be positive');
     }
     
-    // Validate search weights sum to ~1.0
-    const weights = this.search.weights;
-    const sum = weights.vector + weights.bm25 + weights.title + weights.concept + weights.wordnet;
-    if (Math.abs(sum - 1.0) > 0.01) {
-      console.warn(`Search weights sum to ${sum.toFixed(3)}, expected 1.0`);
+    // Warn about the shared weight variables replaced by per-type ones
+    const legacyWeights = this.deprecatedWeightVariables();
+    if (legacyWeights.length > 0) {
+      console.warn(`${legacyWeights.join(', ')} deprecated: use SEARCH_WEIGHT_CATALOG_<SIGNAL> and SEARCH_WEIGHT_CHUNK_<SIGNAL>`);
+    }
+    
+    // Validate search weights are non-negative and sum to ~1.0
+    for (const [type, weights] of Object.entries(this.search.weights)) {
+      for (const [signal, weight] of Object.entries(weights as SignalWeights)) {
+        if (weight < 0) {
+          throw new Error(`Invalid SEARCH_WEIGHT_${type.toUpperCase()}_${signal.toUpperCase()}: ${weight}. Must be non-negative`);
+        }
+      }
+      const sum = weights.vector + weights.bm25 + weights.title + weights.concept + weights.wordnet;
+      if (Math.abs(sum - 1.0) > 0.01) {
+        console.warn(`Search weights for ${type} sum to ${sum.toFixed(3)}, expected 1.0`);
+      }
+    }
+    
+    // Validate fusion strategy
+    const validFusion = ['weighted', 'rrf'];
+    if (!validFusion.includes(this.search.fusion)) {
+      throw new Error(`Invalid SEARCH_FUSION: ${this.search.fusion}. Must be one of: ${validFusion.join(', ')}`);
+    }
+    if (this.search.rrfK <= 0) {
+      throw new Error('SEARCH_RRF_K must be positive');
+    }
+    
+    // Validate reranker
+    const validRerankers = ['none', 'cross-encoder', 'llm'];
+    if (!validRerankers.includes(this.rerank.provider)) {
+      throw new Error(`Invalid RERANK_PROVIDER: ${this.rerank.provider}. Must be one of: ${validRerankers.join(', ')}`);
+    }
+    if (this.rerank.topK <= 0) {
+      throw new Error('RERANK_TOP_K must be positive');
     }
     
     // Validate log level
@@ -242,8 +330,15 @@ export class Configuration implements IConfiguration {
         ...this.llm,
         apiKey: this.llm.apiKey ? '[REDACTED]' : undefined
       },
-      embeddings: this.embeddings,
+      embeddings: {
+        ...this.embeddings,
+        apiKey: this.embeddings.apiKey ? '[REDACTED]' : undefined
+      },
       search: this.search,
+      rerank: {
+        ...this.rerank,
+        apiKey: this.rerank.apiKey ? '[REDACTED]' : undefined
+      },
       performance: this.performance,
       logging: this.logging
     };
@@ -23,6 +23,8 @@ export type {
   LLMConfig,
   EmbeddingConfig,
   SearchConfig,
+  SignalWeights,
+  RerankConfig,
   PerformanceConfig,
   LoggingConfig,
   Environment
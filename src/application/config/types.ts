@@ -5,6 +5,8 @@
  * Centralizes all configuration concerns in one place.
  */
 
+import type { FusionMode } from '../../domain/interfaces/services/hybrid-search-service.js';
+
 /**
  * Database configuration
  */
@@ -19,6 +21,12 @@ export interface DatabaseConfig {
     concepts: string;
     categories: string;
   };
+  
+  /**
+   * Seconds between checks for writes by other processes (default: 5), so
+   * a reseed is picked up and invalidates cached search results
+   */
+  readConsistencyInterval: number;
 }
 
 /**
@@ -42,17 +50,40 @@ export interface LLMConfig {
  * Embedding configuration
  */
 export interface EmbeddingConfig {
-  /** Embedding provider: 'simple' | 'openai' | 'voyage' | 'ollama' */
+  /** Embedding provider: 'simple' | 'tfidf' | 'transformer' | 'openai' | 'voyage' | 'ollama' */
   provider: string;
   
   /** Model name for embeddings */
   model?: string;
   
+  /** Local model directory for offline providers (transformer, tfidf) */
+  modelPath?: string;
+  
+  /** API base URL for HTTP providers (openai, ollama) */
+  baseUrl?: string;
+  
+  /** API key for HTTP providers that require one */
+  apiKey?: string;
+  
   /** Embedding dimensions (default: 384) */
   dimensions: number;
   
   /** Batch size for bulk embedding operations */
   batchSize: number;
+  
+  /** Action when stored vectors were stamped by a different provider/model: 'error' (default) | 'warn' */
+  mismatchPolicy?: 'error' | 'warn';
+}
+
+/**
+ * Relative weights of the hybrid search signals for one search type
+ */
+export interface SignalWeights {
+  vector: number;      // Semantic similarity
+  bm25: number;        // Keyword matching
+  title: number;       // Title matching (concept name for concept search)
+  concept: number;     // Conceptual alignment
+  wordnet: number;     // Synonym expansion
 }
 
 /**
@@ -65,14 +96,39 @@ export interface SearchConfig {
   /** Maximum result limit */
   maxLimit: number;
   
-  /** Hybrid search weights */
+  /** Hybrid search weights per search type (base for dynamic adjustment and named profiles) */
   weights: {
-    vector: number;      // Semantic similarity
-    bm25: number;        // Keyword matching
-    title: number;       // Title matching
-    concept: number;     // Conceptual alignment
-    wordnet: number;     // Synonym expansion
+    catalog: SignalWeights;
+    chunk: SignalWeights;
+    concept: SignalWeights;
   };
+  
+  /** Fusion strategy combining the signals: 'weighted' (sum) or 'rrf' (Reciprocal Rank Fusion) */
+  fusion: FusionMode;
+  
+  /** RRF rank constant (default: 60) */
+  rrfK: number;
+  
+  /** Correct misspelled query terms against the corpus vocabulary (default: true) */
+  spellingCorrection: boolean;
+}
+
+/**
+ * Second-stage reranking configuration
+ */
+export interface RerankConfig {
+  /** Reranker: 'none' (default) | 'cross-encoder' | 'llm' */
+  provider: string;
+  /** Model name (cross-encoder model directory name, or LLM model; default: LLM summary model) */
+  model?: string;
+  /** Local model directory for the cross-encoder */
+  modelPath?: string;
+  /** API base URL for the LLM reranker (default: LLM base URL) */
+  baseUrl?: string;
+  /** API key for the LLM reranker (default: LLM API key) */
+  apiKey?: string;
+  /** Number of top hybrid-search candidates to rerank (default: 30) */
+  topK: number;
 }
 
 /**
@@ -111,6 +167,7 @@ export interface IConfiguration {
   llm: LLMConfig;
   embeddings: EmbeddingConfig;
   search: SearchConfig;
+  rerank: RerankConfig;
   performance: PerformanceConfig;
   logging: LoggingConfig;
 }
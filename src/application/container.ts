@@ -1,6 +1,13 @@
 import { LanceDBConnection } from '../infrastructure/lancedb/database-connection.js';
-import { SimpleEmbeddingService } from '../infrastructure/embeddings/simple-embedding-service.js';
+import type { Table } from '@lancedb/lancedb';
+import { createEmbeddingService, resolveEmbeddingSignature } from '../infrastructure/embeddings/embedding-provider-factory.js';
+import { EmbeddingMetadataStore, describeSignature } from '../infrastructure/lancedb/embedding-metadata-store.js';
+import { MIN_TERM_FREQUENCY, VocabularyStore } from '../infrastructure/lancedb/vocabulary-store.js';
+import { PassageIndexStore } from '../infrastructure/lancedb/passage-index-store.js';
 import { ConceptualHybridSearchService } from '../infrastructure/search/conceptual-hybrid-search-service.js';
+import { createReranker } from '../infrastructure/search/reranker-factory.js';
+import { toWeightProfile } from '../infrastructure/search/dynamic-weights.js';
+import { SpellingCorrector } from '../infrastructure/search/spelling-corrector.js';
 import { LanceDBChunkRepository } from '../infrastructure/lancedb/repositories/lancedb-chunk-repository.js';
 import { LanceDBConceptRepository } from '../infrastructure/lancedb/repositories/lancedb-concept-repository.js';
 import { LanceDBCatalogRepository } from '../infrastructure/lancedb/repositories/lancedb-catalog-repository.js';
@@ -9,12 +16,23 @@ import {
   ConceptSearchService, 
   CatalogSearchService, 
   ChunkSearchService,
-  ConceptSourcesService
+  ConceptSourcesService,
+  FuzzyConceptSearchService,
+  SimilarDocumentsService,
+  PassageSearchService,
+  ConceptPathService,
+  ConceptGraphService
 } from '../domain/services/index.js';
 import { ConceptSearchTool } from '../tools/operations/concept_search.js';
 import { ConceptualCatalogSearchTool } from '../tools/operations/conceptual_catalog_search.js';
 import { ConceptualChunksSearchTool } from '../tools/operations/conceptual_chunks_search.js';
 import { ConceptualBroadChunksSearchTool } from '../tools/operations/conceptual_broad_chunks_search.js';
+import { GetChunkContextTool } from '../tools/operations/get_chunk_context.js';
+import { ExplainSearchTool } from '../tools/operations/explain_search.js';
+import { SearchConceptsTool } from '../tools/operations/search_concepts.js';
+import { SimilarDocumentsTool } from '../tools/operations/similar_documents.js';
+import { FindPassageTool } from '../tools/operations/find_passage.js';
+import { ConceptPathTool } from '../tools/operations/concept_path.js';
 import { DocumentConceptsExtractTool } from '../tools/operations/document_concepts_extract.js';
 import { SourceConceptsTool } from '../tools/operations/source_concepts.js';
 import { ConceptSourcesTool } from '../tools/operations/concept_sources.js';
@@ -28,6 +46,9 @@ import type { CategoryRepository } from '../domain/interfaces/category-repositor
 import { RetryService } from '../infrastructure/utils/retry-service.js';
 import { ResilientExecutor } from '../infrastructure/resilience/resilient-executor.js';
 import type { SearchResult } from '../domain/models/search-result.js';
+import { Configuration } from './config/index.js';
+import type { EmbeddingConfig } from './config/index.js';
+import { EmbeddingMismatchError } from '../domain/exceptions/index.js';
 import * as defaults from '../config.js';
 
 /**
@@ -73,6 +94,7 @@ export class ApplicationContainer {
   private resilientExecutor!: ResilientExecutor;
   private embeddingCache?: EmbeddingCache;
   private searchResultCache?: SearchResultCache<SearchResult[]>;
+  private conceptGraphService!: ConceptGraphService;
   private tools = new Map<string, BaseTool>();
   
   /**
@@ -103,6 +125,9 @@ export class ApplicationContainer {
    * @param databaseUrl - Path to LanceDB database (e.g., '~/.concept_rag', '/data/vectordb')
    * @throws {Error} If database connection fails
    * @throws {Error} If required tables don't exist (ensure database is seeded)
+   * @throws {EmbeddingMismatchError} If stored vectors came from a different embedding
+   *   provider/model than configured (unless EMBEDDING_MISMATCH_POLICY=warn)
+   * @throws {InvalidConfigError} If the configured reranker model files are missing
    * 
    * @example
    * ```typescript
@@ -120,7 +145,11 @@ export class ApplicationContainer {
     console.error('✅ Resilience infrastructure initialized (circuit breaker, bulkhead, timeout)');
     
     // 2. Connect to database (with resilience protection)
-    this.dbConnection = await LanceDBConnection.connect(databaseUrl, this.resilientExecutor);
+    this.dbConnection = await LanceDBConnection.connect(
+      databaseUrl,
+      this.resilientExecutor,
+      Configuration.getInstance().database.readConsistencyInterval
+    );
     
     // 3. Open tables
     const chunksTable = await this.dbConnection.openTable(defaults.CHUNKS_TABLE_NAME);
@@ -136,24 +165,66 @@ export class ApplicationContainer {
       console.error('⚠️  Categories table not found (skipping category features)');
     }
     
-    // 3b. Create performance caches (for embeddings and search results only)
+    // 3b. Verify stored vectors match the configured embedding provider
+    const embeddingConfig = Configuration.getInstance().embeddings;
+    const vectorTables = new Map<string, Table>([
+      [defaults.CATALOG_TABLE_NAME, catalogTable],
+      [defaults.CHUNKS_TABLE_NAME, chunksTable],
+      [defaults.CONCEPTS_TABLE_NAME, conceptsTable]
+    ]);
+    if (categoriesTable) {
+      vectorTables.set(defaults.CATEGORIES_TABLE_NAME, categoriesTable);
+    }
+    await this.verifyEmbeddingSignature(embeddingConfig, vectorTables, databaseUrl);
+    
+    // 3c. Create performance caches (for embeddings and search results only)
     this.embeddingCache = new EmbeddingCache(10000); // Cache up to 10k embeddings
     this.searchResultCache = new SearchResultCache<SearchResult[]>(1000, 5 * 60 * 1000); // 1k searches, 5min TTL
     console.error(`✅ Performance caches initialized (embeddings, search results)`);
     
     // 4. Create infrastructure services (with caches and resilience integration)
-    const embeddingService = new SimpleEmbeddingService(this.embeddingCache);
+    const embeddingService = createEmbeddingService(embeddingConfig, this.embeddingCache, this.resilientExecutor, databaseUrl);
+    console.error(`✅ Embedding provider: ${embeddingConfig.provider}${embeddingConfig.model ? ` (${embeddingConfig.model})` : ''}`);
     
     // 4a. Create concept repository first (needed by QueryExpander for concept expansion)
-    const conceptRepo = new LanceDBConceptRepository(conceptsTable);
+    const searchConfig = Configuration.getInstance().search;
+    const deprecatedWeights = Configuration.getInstance().deprecatedWeightVariables();
+    if (deprecatedWeights.length > 0) {
+      console.error(`⚠️  Deprecated: ${deprecatedWeights.join(', ')} (use SEARCH_WEIGHT_CATALOG_<SIGNAL> / SEARCH_WEIGHT_CHUNK_<SIGNAL>)`);
+    }
+    const conceptRepo = new LanceDBConceptRepository(conceptsTable, toWeightProfile(searchConfig.weights.concept));
     
-    // 4b. Create QueryExpander with concept repository for unified concept-aware search
-    const queryExpander = new QueryExpander(conceptsTable, embeddingService, conceptRepo);
-    const hybridSearchService = new ConceptualHybridSearchService(embeddingService, queryExpander, this.searchResultCache, this.resilientExecutor);
+    // 4b. Create QueryExpander with concept repository for unified concept-aware search,
+    // correcting misspelled terms against the corpus vocabulary when one was built
+    const spellingCorrector = searchConfig.spellingCorrection
+      ? await this.loadSpellingCorrector()
+      : undefined;
+    const queryExpander = new QueryExpander(conceptsTable, embeddingService, conceptRepo, undefined, spellingCorrector);
+    const rerankConfig = Configuration.getInstance().rerank;
+    const reranker = createReranker(rerankConfig, Configuration.getInstance().llm, this.resilientExecutor);
+    if (reranker) {
+      console.error(`✅ Reranker: ${reranker.name} (top ${rerankConfig.topK})`);
+    }
+    const hybridSearchService = new ConceptualHybridSearchService(
+      embeddingService,
+      queryExpander,
+      this.searchResultCache,
+      this.resilientExecutor,
+      {
+        mode: searchConfig.fusion,
+        rrfK: searchConfig.rrfK,
+        weights: {
+          catalog: toWeightProfile(searchConfig.weights.catalog),
+          chunk: toWeightProfile(searchConfig.weights.chunk)
+        }
+      },
+      reranker ? { reranker, topK: rerankConfig.topK } : undefined
+    );
     
     // 5. Create remaining repositories (with infrastructure services)
     // Note: ID mapping caches removed - schema now has derived text fields (concept_names, catalog_title)
-    const chunkRepo = new LanceDBChunkRepository(chunksTable, conceptRepo, embeddingService, hybridSearchService);
+    const passageIndex = await this.loadPassageIndex();
+    const chunkRepo = new LanceDBChunkRepository(chunksTable, conceptRepo, embeddingService, hybridSearchService, passageIndex);
     const catalogRepo = new LanceDBCatalogRepository(catalogTable, hybridSearchService);
     
     // 5a. Create category repository if categories table exists
@@ -176,11 +247,32 @@ export class ApplicationContainer {
     );
     console.error('✅ ConceptSearchService initialized (hybrid search enabled)');
     
+    // 6b. Create FuzzyConceptSearchService for concept discovery (prefix, fuzzy and vector matching)
+    const fuzzyConceptSearchService = new FuzzyConceptSearchService(conceptRepo, embeddingService);
+    
+    // 6c. Create SimilarDocumentsService for "more like this" document discovery
+    const similarDocumentsService = new SimilarDocumentsService(catalogRepo);
+    
+    // 6d. Create PassageSearchService for quote finding (shingle index, alignment and vector matching)
+    const passageSearchService = new PassageSearchService(chunkRepo);
+    
+    // 6e. Create ConceptPathService for path finding over the concept graph
+    const conceptPathService = new ConceptPathService(conceptRepo, catalogRepo);
+    
+    // 6f. Create ConceptGraphService for concept graph export (MCP resources, export script)
+    this.conceptGraphService = new ConceptGraphService(conceptRepo, catalogRepo);
+    
     // 7. Create tools (with domain services)
     this.tools.set('concept_search', new ConceptSearchTool(conceptSearchService));
+    this.tools.set('search_concepts', new SearchConceptsTool(fuzzyConceptSearchService));
+    this.tools.set('concept_path', new ConceptPathTool(conceptPathService));
     this.tools.set('catalog_search', new ConceptualCatalogSearchTool(catalogSearchService));
     this.tools.set('chunks_search', new ConceptualChunksSearchTool(chunkSearchService, catalogRepo));
     this.tools.set('broad_chunks_search', new ConceptualBroadChunksSearchTool(chunkSearchService));
+    this.tools.set('get_chunk_context', new GetChunkContextTool(chunkSearchService));
+    this.tools.set('find_passage', new FindPassageTool(passageSearchService));
+    this.tools.set('explain_search', new ExplainSearchTool(catalogSearchService, chunkSearchService));
+    this.tools.set('similar_documents', new SimilarDocumentsTool(similarDocumentsService));
     this.tools.set('extract_concepts', new DocumentConceptsExtractTool(catalogRepo));
     this.tools.set('concept_sources', new ConceptSourcesTool(conceptSourcesService));
     this.tools.set('source_concepts', new SourceConceptsTool(conceptSourcesService));
@@ -196,6 +288,68 @@ export class ApplicationContainer {
     console.error(`✅ Container initialized with ${this.tools.size} tool(s)`);
   }
   
+  /**
+   * Load the corpus vocabulary into a spelling corrector.
+   * 
+   * @returns The corrector, or undefined if the database has no vocabulary
+   *   (seeded before spelling correction; build it with `npm run build-vocabulary`)
+   */
+  private async loadSpellingCorrector(): Promise<SpellingCorrector | undefined> {
+    const vocabulary = await new VocabularyStore(this.dbConnection.getClient()).read();
+    if (vocabulary.size === 0) {
+      console.error('⚠️  Vocabulary not found (skipping query spelling correction)');
+      return undefined;
+    }
+    console.error(`✅ Spelling correction enabled (${vocabulary.size.toLocaleString()} vocabulary terms)`);
+    return new SpellingCorrector(vocabulary, { minFrequency: MIN_TERM_FREQUENCY });
+  }
+  
+  /**
+   * Open the passage index used to find quoted chunks.
+   * 
+   * @returns The index, or undefined if the database has none (seeded before
+   *   passage search; build it with `npm run build-passage-index`)
+   */
+  private async loadPassageIndex(): Promise<PassageIndexStore | undefined> {
+    const passageIndex = new PassageIndexStore(this.dbConnection.getClient());
+    if (!(await passageIndex.exists())) {
+      console.error('⚠️  Passage index not found (find_passage uses vector similarity only)');
+      return undefined;
+    }
+    console.error('✅ Passage index enabled');
+    return passageIndex;
+  }
+  
+  /**
+   * Compare the embedding stamps of the vector tables with the configured provider.
+   * 
+   * Mismatched tables make query vectors incomparable with stored vectors, so
+   * startup is refused unless the mismatch policy is 'warn'. Unstamped tables
+   * (seeded before stamping existed) only produce a warning.
+   */
+  private async verifyEmbeddingSignature(config: EmbeddingConfig, tables: Map<string, Table>, databaseUrl: string): Promise<void> {
+    const expected = resolveEmbeddingSignature(config, databaseUrl);
+    const store = new EmbeddingMetadataStore(this.dbConnection.getClient());
+    const checks = await store.check(tables, expected);
+    
+    const mismatches = checks.filter(c => c.status === 'mismatch').map(c => c.reason!);
+    if (mismatches.length > 0) {
+      mismatches.forEach(reason => console.error(`⚠️  Embedding mismatch: ${reason}`));
+      console.error('   Re-embed with: npm run reembed -- --dbpath <path>');
+      if (config.mismatchPolicy !== 'warn') {
+        throw new EmbeddingMismatchError(expected.provider, mismatches);
+      }
+      console.error('   Continuing (EMBEDDING_MISMATCH_POLICY=warn) - vector search results will be meaningless');
+    }
+    
+    const unstamped = checks.filter(c => c.status === 'unstamped').map(c => c.tableName);
+    if (unstamped.length > 0) {
+      console.error(`⚠️  No embedding metadata for: ${unstamped.join(', ')} (assuming ${describeSignature(expected)})`);
+    } else if (mismatches.length === 0) {
+      console.error(`✅ Embedding metadata verified: ${describeSignature(expected)}`);
+    }
+  }
+  
   /**
    * Get a specific tool by name.
    * 
@@ -310,6 +464,23 @@ export class ApplicationContainer {
     return this.categoryRepo;
   }
   
+  /**
+   * Get ConceptGraphService for exporting the concept graph.
+   * 
+   * @returns ConceptGraphService instance
+   * 
+   * @example
+   * ```typescript
+   * const result = await container.getConceptGraphService().buildGraph({ minWeight: 0.5 });
+   * if (result.ok) {
+   *   fs.writeFileSync('concepts.gexf', serializeConceptGraph(result.value, 'gexf'));
+   * }
+   * ```
+   */
+  getConceptGraphService(): ConceptGraphService {
+    return this.conceptGraphService;
+  }
+  
   /**
    * Get ResilientExecutor for external service protection.
    * 
@@ -436,7 +436,7 @@ describe('ConceptChunkMatcher', () => {
     });
   });
 
-  describe('fuzzy matching behavior', () => {
+  describe('stemmed matching behavior', () => {
     it('should match concepts with word boundaries for single words', () => {
       // SETUP
       const chunkText = 'This discusses testing in detail';
@@ -484,6 +484,36 @@ describe('ConceptChunkMatcher', () => {
       // Should match 'architecture' within 'architectural' if similarity >= threshold
       expect(result.concepts.length).toBeGreaterThanOrEqual(0);
     });
+
+    it('should match inflected forms of concept words', () => {
+      // SETUP
+      const chunkText = 'Teams split the monolith into microservices with their own databases';
+      const documentConcepts: ConceptMetadata = {
+        primary_concepts: ['microservice', 'database per service'],
+        categories: [],
+      };
+
+      // EXERCISE
+      const result = matcher.matchConceptsToChunk(chunkText, documentConcepts);
+
+      // VERIFY
+      expect(result.concepts).toEqual(['microservice']);
+    });
+
+    it('should not match concepts that only prefix a word', () => {
+      // SETUP
+      const chunkText = 'Software for modern warfare';
+      const documentConcepts: ConceptMetadata = {
+        primary_concepts: ['war', 'soft'],
+        categories: [],
+      };
+
+      // EXERCISE
+      const result = matcher.matchConceptsToChunk(chunkText, documentConcepts);
+
+      // VERIFY
+      expect(result.concepts).toEqual([]);
+    });
   });
 
   describe('density calculation', () => {
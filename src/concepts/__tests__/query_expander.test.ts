@@ -16,6 +16,7 @@ import { describe, it, expect, beforeEach, vi, beforeAll } from 'vitest';
 import { QueryExpander } from '../query_expander.js';
 import { EmbeddingService } from '../../domain/interfaces/services/embedding-service.js';
 import { WordNetService } from '../../wordnet/wordnet_service.js';
+import { SpellingCorrector } from '../../infrastructure/search/spelling-corrector.js';
 import { createTestEmbedding } from '../../__tests__/test-helpers/test-data.js';
 import * as lancedb from '@lancedb/lancedb';
 
@@ -94,13 +95,17 @@ class MockConceptTable {
 class MockEmbeddingService implements EmbeddingService {
   private embeddings: Map<string, number[]> = new Map();
 
-  generateEmbedding(text: string): number[] {
+  async generateEmbedding(text: string): Promise<number[]> {
     if (this.embeddings.has(text)) {
       return this.embeddings.get(text)!;
     }
     return createTestEmbedding(384, 0.5);
   }
 
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.generateEmbedding(text)));
+  }
+
   // Test helper: Set custom embedding
   setEmbedding(text: string, embedding: number[]): void {
     this.embeddings.set(text, embedding);
@@ -160,13 +165,24 @@ describe('QueryExpander', { timeout: TEST_TIMEOUT }, () => {
       const expanded = await expander.expandQuery(queryText);
 
       // VERIFY
-      // Filter is term.length > 2, so 'a' and 'an' are filtered, but 'the' (length 3) is kept
       expect(expanded.original_terms).not.toContain('a');
       expect(expanded.original_terms).not.toContain('an');
       expect(expanded.original_terms).toContain('software');
       expect(expanded.original_terms).toContain('architecture');
     }, 30000); // Extended timeout for potential WordNet initialization
 
+    it('should drop stop words', async () => {
+      // SETUP
+      mockConceptTable.setResults([]);
+      const queryText = 'how to use the saga pattern';
+
+      // EXERCISE
+      const expanded = await expander.expandQuery(queryText);
+
+      // VERIFY
+      expect(expanded.original_terms).toEqual(['use', 'saga', 'pattern']);
+    });
+
     it('should remove punctuation from terms', async () => {
       // SETUP
       mockConceptTable.setResults([]);
@@ -265,6 +281,21 @@ describe('QueryExpander', { timeout: TEST_TIMEOUT }, () => {
       expect(expanded.corpus_terms.length).toBeGreaterThanOrEqual(0);
     });
 
+    it('should keep concepts sharing a word stem with the query', async () => {
+      // SETUP
+      mockConceptTable.setResults([
+        { name: 'Microservice Architecture', concept_type: 'terminology', _distance: 0.2 },
+        { name: 'Warfare', concept_type: 'terminology', _distance: 0.1 }
+      ]);
+
+      // EXERCISE
+      const expanded = await expander.expandQuery('microservices war');
+
+      // VERIFY
+      expect(expanded.corpus_terms).toContain('microservice architecture');
+      expect(expanded.corpus_terms).not.toContain('warfare');
+    });
+
     it('should add terminology concepts with higher weight threshold', async () => {
       // SETUP
       const mockResults = [
@@ -401,6 +432,89 @@ describe('QueryExpander', { timeout: TEST_TIMEOUT }, () => {
     });
   });
 
+  describe('expandQuery - query syntax', () => {
+    it('should not expand quoted phrases with WordNet', async () => {
+      // SETUP
+      mockConceptTable.setResults([]);
+      const wordnetSpy = vi.spyOn(mockWordNetService, 'expandQuery');
+      const syntaxExpander = new QueryExpander(
+        mockConceptTable as any,
+        mockEmbeddingService,
+        undefined,
+        mockWordNetService as any
+      );
+
+      // EXERCISE
+      const expanded = await syntaxExpander.expandQuery('"event sourcing" patterns');
+
+      // VERIFY
+      expect(wordnetSpy).toHaveBeenCalledWith(['patterns'], 5, 2);
+      expect(expanded.original_terms).toEqual(['event', 'sourcing', 'patterns']);
+    });
+
+    it('should leave out excluded terms and field restrictions', async () => {
+      // SETUP
+      mockConceptTable.setResults([]);
+
+      // EXERCISE
+      const expanded = await expander.expandQuery('messaging -kafka author:hohpe title:integration');
+
+      // VERIFY
+      expect(expanded.original_terms).toEqual(['messaging']);
+    });
+  });
+
+  describe('expandQuery - spelling correction', () => {
+    let correctingExpander: QueryExpander;
+
+    beforeEach(() => {
+      // SETUP
+      mockConceptTable.setResults([]);
+      correctingExpander = new QueryExpander(
+        mockConceptTable as any,
+        mockEmbeddingService,
+        undefined,
+        mockWordNetService as any,
+        new SpellingCorrector(new Map([['idempotency', 5], ['microservice', 8], ['patterns', 3]]))
+      );
+    });
+
+    it('should replace misspelled terms and report the corrections', async () => {
+      // SETUP
+      const wordnetSpy = vi.spyOn(mockWordNetService, 'expandQuery');
+
+      // EXERCISE
+      const expanded = await correctingExpander.expandQuery('idempotancy microservise patterns');
+
+      // VERIFY
+      expect(expanded.original_terms).toEqual(['idempotency', 'microservice', 'patterns']);
+      expect(expanded.weights.get('idempotency')).toBe(1.0);
+      expect(expanded.weights.has('idempotancy')).toBe(false);
+      expect(wordnetSpy).toHaveBeenCalledWith(['idempotency', 'microservice', 'patterns'], 5, 2);
+      expect(expanded.corrections).toEqual([
+        { term: 'idempotancy', correction: 'idempotency', distance: 1 },
+        { term: 'microservise', correction: 'microservice', distance: 1 }
+      ]);
+    });
+
+    it('should keep phrases as written', async () => {
+      // EXERCISE
+      const expanded = await correctingExpander.expandQuery('"idempotancy keys"');
+
+      // VERIFY
+      expect(expanded.original_terms).toEqual(['idempotancy', 'keys']);
+      expect(expanded.corrections).toBeUndefined();
+    });
+
+    it('should report no corrections for correctly spelled queries', async () => {
+      // EXERCISE
+      const expanded = await correctingExpander.expandQuery('idempotency patterns');
+
+      // VERIFY
+      expect(expanded.corrections).toBeUndefined();
+    });
+  });
+
   describe('expandQuery - weight combination', () => {
     it('should prioritize original terms over corpus terms', async () => {
       // SETUP
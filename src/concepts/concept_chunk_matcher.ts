@@ -1,5 +1,6 @@
 import { Document } from "@langchain/core/documents";
 import { ConceptMetadata, ChunkWithConcepts, ExtractedConcept } from "./types.js";
+import { analyze, containsStemSequence } from "../infrastructure/search/analyzer.js";
 
 /**
  * Extract concept name from either a string or ExtractedConcept object
@@ -10,7 +11,7 @@ function getConceptName(concept: string | ExtractedConcept): string {
 
 /**
  * Matches document-level concepts to individual chunks
- * Uses fuzzy matching to determine which concepts appear in each chunk
+ * Compares stems (see analyzer) to determine which concepts appear in each chunk
  */
 export class ConceptChunkMatcher {
     
@@ -23,15 +24,16 @@ export class ConceptChunkMatcher {
         documentConcepts: ConceptMetadata
     ): { concepts: string[], categories: string[], density: number } {
         
-        const chunkLower = chunkText.toLowerCase();
+        const chunkStems = analyze(chunkText);
+        const chunkStemSet = new Set(chunkStems);
         const matchedConcepts = new Set<string>();
         const matchedCategories = new Set<string>();
         
-        // Check primary concepts (fuzzy matching)
+        // Check primary concepts
         // Handle both string and ExtractedConcept formats
         for (const concept of documentConcepts.primary_concepts || []) {
             const conceptName = getConceptName(concept);
-            if (conceptName && this.conceptMatchesText(conceptName, chunkLower, 0.7)) {
+            if (conceptName && this.conceptMatchesText(conceptName, chunkStems, chunkStemSet)) {
                 matchedConcepts.add(conceptName);
             }
         }
@@ -86,55 +88,27 @@ export class ConceptChunkMatcher {
     }
     
     /**
-     * Check if a concept appears in text using fuzzy matching
-     * Handles multi-word concepts and partial matches (for thematic concepts)
+     * Check if a concept appears in text, compared as stems
+     * ("microservices" matches "microservice", "war" does not match "warfare")
+     * Multi-word concepts match as a phrase or when all their words appear
      */
     private conceptMatchesText(
         concept: string,
-        text: string,
-        threshold: number = 0.7
+        textStems: readonly string[],
+        textStemSet: Set<string>
     ): boolean {
-        const conceptLower = concept.toLowerCase().trim();
+        const conceptStems = analyze(concept);
+        if (conceptStems.length === 0) {
+            return false;
+        }
         
-        // Direct exact match
-        if (text.includes(conceptLower)) {
+        // Phrase match
+        if (containsStemSequence(textStems, conceptStems)) {
             return true;
         }
         
         // For multi-word concepts, check if all words appear
-        const conceptWords = conceptLower.split(/\s+/);
-        if (conceptWords.length > 1) {
-            const allWordsPresent = conceptWords.every(word => 
-                word.length > 2 && text.includes(word)
-            );
-            if (allWordsPresent) {
-                return true;
-            }
-        }
-        
-        // For single-word concepts, check for word boundaries
-        if (conceptWords.length === 1 && conceptWords[0].length > 3) {
-            const wordBoundaryRegex = new RegExp(`\\b${this.escapeRegex(conceptWords[0])}`, 'i');
-            if (wordBoundaryRegex.test(text)) {
-                return true;
-            }
-        }
-        
-        // Fuzzy match: check if concept is a substring of any word
-        if (threshold < 1.0 && conceptLower.length > 4) {
-            const textWords = text.split(/\s+/);
-            for (const word of textWords) {
-                if (word.includes(conceptLower) || conceptLower.includes(word)) {
-                    // Calculate similarity
-                    const similarity = this.calculateSimilarity(conceptLower, word);
-                    if (similarity >= threshold) {
-                        return true;
-                    }
-                }
-            }
-        }
-        
-        return false;
+        return conceptStems.length > 1 && conceptStems.every(stem => textStemSet.has(stem));
     }
     
     /**
@@ -161,26 +135,6 @@ export class ConceptChunkMatcher {
         return (densityScore * 0.4) + (countScore * 0.6);
     }
     
-    /**
-     * Simple string similarity (Jaccard-like)
-     */
-    private calculateSimilarity(str1: string, str2: string): number {
-        const set1 = new Set(str1.split(''));
-        const set2 = new Set(str2.split(''));
-        
-        const intersection = new Set([...set1].filter(c => set2.has(c)));
-        const union = new Set([...set1, ...set2]);
-        
-        return intersection.size / union.size;
-    }
-    
-    /**
-     * Escape special regex characters
-     */
-    private escapeRegex(str: string): string {
-        return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    }
-    
     /**
      * Get statistics about concept matching for debugging
      */
@@ -1,17 +1,23 @@
 import * as lancedb from "@lancedb/lancedb";
 import { Document } from "@langchain/core/documents";
 import { ConceptRecord, ConceptMetadata, ExtractedConcept } from "./types.js";
+import type { EmbeddingService } from "../domain/interfaces/services/embedding-service.js";
 import { SimpleEmbeddingService } from "../infrastructure/embeddings/simple-embedding-service.js";
 import { hashToId } from "../infrastructure/utils/hash.js";
 
-// Use singleton embedding service for concept index building
-const embeddingService = new SimpleEmbeddingService();
-
 /**
  * Builds the concept index from document metadata.
  */
 export class ConceptIndexBuilder {
     
+    /**
+     * @param embeddingService - Service used to embed concept names
+     *                           (defaults to the local hash-based service)
+     */
+    constructor(
+        private readonly embeddingService: EmbeddingService = new SimpleEmbeddingService()
+    ) {}
+    
     // Build source path to catalog ID mapping
     private sourceToIdMap = new Map<string, number>();
     
@@ -82,9 +88,23 @@ export class ConceptIndexBuilder {
         // Populate catalog_titles (DERIVED field) from catalog_ids
         this.populateCatalogTitles(conceptMap);
         
+        // Embed concept names
+        await this.populateEmbeddings(conceptMap);
+        
         return Array.from(conceptMap.values());
     }
     
+    /**
+     * Generate the name embedding for each concept.
+     */
+    private async populateEmbeddings(conceptMap: Map<string, ConceptRecord>): Promise<void> {
+        const records = Array.from(conceptMap.values());
+        const vectors = await this.embeddingService.generateEmbeddings(records.map(r => r.name));
+        records.forEach((record, i) => {
+            record.embeddings = vectors[i];
+        });
+    }
+    
     /**
      * Populate catalog_titles for each concept from catalog_ids.
      * DERIVED field: resolved from catalog_ids → catalog.source paths.
@@ -132,7 +152,7 @@ export class ConceptIndexBuilder {
                 related_concepts: [],
                 adjacent_ids: [],
                 related_ids: [],
-                embeddings: embeddingService.generateEmbedding(conceptName),
+                embeddings: [],  // Populated by populateEmbeddings()
                 weight: 0
             });
         }
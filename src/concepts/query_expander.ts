@@ -4,40 +4,57 @@ import { WordNetService } from '../wordnet/wordnet_service.js';
 import { ContextAwareStrategy } from '../wordnet/strategies/index.js';
 import { EmbeddingService } from '../domain/interfaces/services/embedding-service.js';
 import { ConceptRepository } from '../domain/interfaces/repositories/concept-repository.js';
+import { parseQuery, queryTextOperands } from '../domain/services/query-parser.js';
+import type { SpellingCorrection } from '../domain/models/search-result.js';
+import type { SpellingCorrector } from '../infrastructure/search/spelling-corrector.js';
+import { analyze, isStopWord, tokenize } from '../infrastructure/search/analyzer.js';
 
 export class QueryExpander {
     private wordnet: WordNetService;
     private conceptTable: lancedb.Table;
     private embeddingService: EmbeddingService;
     private conceptRepo?: ConceptRepository;
+    private spellingCorrector?: SpellingCorrector;
     
     constructor(
         conceptTable: lancedb.Table, 
         embeddingService: EmbeddingService,
         conceptRepo?: ConceptRepository,
-        wordnetService?: WordNetService
+        wordnetService?: WordNetService,
+        spellingCorrector?: SpellingCorrector
     ) {
         // Use provided WordNetService or create one with context-aware synset selection
         this.wordnet = wordnetService || new WordNetService(new ContextAwareStrategy());
         this.conceptTable = conceptTable;
         this.embeddingService = embeddingService;
         this.conceptRepo = conceptRepo;
+        this.spellingCorrector = spellingCorrector;
     }
     
     async expandQuery(queryText: string): Promise<ExpandedQuery> {
-        // Extract terms from query
-        const originalTerms = queryText
-            .toLowerCase()
-            .split(/\s+/)
-            .filter(term => term.length > 2)
-            .map(term => term.replace(/[^\w\s]/g, ''))
-            .filter(term => term.length > 0);
+        // Extract terms from query (excluded terms and field restrictions are not search terms)
+        const operands = queryTextOperands(parseQuery(queryText));
+        
+        // Phrases are matched as written: only loose terms get spelling
+        // corrections and WordNet synonyms (field values are never corrected)
+        const typedLooseTerms = normalizeTerms(
+            operands.filter(operand => operand.type === 'term' && !operand.field).map(operand => operand.text)
+        );
+        const corrections = this.correctSpelling(typedLooseTerms);
+        const corrected = (term: string) => corrections.get(term)?.correction ?? term;
+        const originalTerms = normalizeTerms(operands.flatMap(operand => operand.text.split(/\s+/))).map(corrected);
+        const looseTerms = typedLooseTerms.map(corrected);
+        
+        // Embed the normalized query once; shared by corpus and concept expansion
+        const queryVector = this.embeddingService
+            .generateEmbeddings([originalTerms.join(' ')])
+            .then(([vector]) => vector);
         
         // Expand with all sources in parallel
         const [wordnetExpanded, corpusExpanded, conceptExpanded] = await Promise.all([
-            this.wordnet.expandQuery(originalTerms, 5, 2),
-            this.expandWithCorpus(originalTerms),
-            this.expandWithConcepts(originalTerms)
+            this.wordnet.expandQuery(looseTerms, 5, 2),
+            this.expandWithCorpus(originalTerms, queryVector),
+            this.expandWithConcepts(originalTerms, queryVector)
         ]);
         
         // Combine with weights
@@ -72,15 +89,38 @@ export class QueryExpander {
             concept_terms: Array.from(conceptExpanded.keys()).filter(t => !originalTerms.includes(t)),
             wordnet_terms: Array.from(wordnetExpanded.keys()).filter(t => !originalTerms.includes(t)),
             all_terms: Array.from(allTerms.keys()),
-            weights: allTerms
+            weights: allTerms,
+            ...(corrections.size > 0 && { corrections: Array.from(corrections.values()) })
         };
     }
     
+    /**
+     * Correct misspelled terms to the closest corpus vocabulary term.
+     * Terms the vocabulary knows, or has no close match for, are kept.
+     */
+    private correctSpelling(terms: string[]): Map<string, SpellingCorrection> {
+        const corrections = new Map<string, SpellingCorrection>();
+        if (!this.spellingCorrector) {
+            return corrections;
+        }
+        
+        for (const term of new Set(terms)) {
+            const correction = this.spellingCorrector.correct(term);
+            if (correction) {
+                corrections.set(term, correction);
+            }
+        }
+        return corrections;
+    }
+    
     /**
      * Expand query using hybrid concept search.
      * Finds matching concepts and includes their related concepts.
      */
-    private async expandWithConcepts(terms: string[]): Promise<Map<string, number>> {
+    private async expandWithConcepts(
+        terms: string[],
+        queryVectorPromise: Promise<number[]>
+    ): Promise<Map<string, number>> {
         const expanded = new Map<string, number>();
         
         if (!this.conceptRepo?.searchByHybrid) {
@@ -89,7 +129,7 @@ export class QueryExpander {
         
         try {
             const queryText = terms.join(' ');
-            const queryVector = this.embeddingService.generateEmbedding(queryText);
+            const queryVector = await queryVectorPromise;
             
             // Use hybrid concept search
             const conceptResults = await this.conceptRepo.searchByHybrid(
@@ -107,12 +147,7 @@ export class QueryExpander {
                 // Skip concepts that don't share any WHOLE words with original query
                 // (prevents "software" matching "war" via substring)
                 const conceptName = concept.name.toLowerCase().trim();
-                const conceptWords = conceptName.split(/\s+/);
-                const hasOverlap = terms.some(term => 
-                    conceptWords.some(word => word === term)
-                );
-                
-                if (!hasOverlap) continue;  // Skip unrelated concepts
+                if (!sharesStem(conceptName, terms)) continue;  // Skip unrelated concepts
                 
                 // Add concept name as complete phrase (don't split into words)
                 if (conceptName.length > 2) {
@@ -136,7 +171,10 @@ export class QueryExpander {
         return expanded;
     }
     
-    private async expandWithCorpus(terms: string[]): Promise<Map<string, number>> {
+    private async expandWithCorpus(
+        terms: string[],
+        queryVectorPromise: Promise<number[]>
+    ): Promise<Map<string, number>> {
         const expanded = new Map<string, number>();
         
         // Original terms
@@ -146,7 +184,7 @@ export class QueryExpander {
         
         // Search concept index for matching concepts
         try {
-            const queryVector = this.embeddingService.generateEmbedding(terms.join(' '));
+            const queryVector = await queryVectorPromise;
             const results = await this.conceptTable
                 .vectorSearch(queryVector)
                 .limit(15)  // Increased to get more candidates
@@ -159,12 +197,7 @@ export class QueryExpander {
                 
                 // Skip concepts that don't share any WHOLE words with original query
                 // (prevents "software" matching "war" via substring)
-                const conceptWords = concept.split(/\s+/);
-                const hasOverlap = terms.some(term => 
-                    conceptWords.some((word: string) => word === term)
-                );
-                
-                if (!hasOverlap) continue;  // Skip unrelated concepts
+                if (!sharesStem(concept, terms)) continue;  // Skip unrelated concepts
                 
                 // Apply type-specific expansion strategy
                 if (conceptType === 'thematic') {
@@ -201,5 +234,21 @@ export class QueryExpander {
     }
 }
 
+/**
+ * Normalize query words into terms: lowercase words (split at punctuation)
+ * of more than two characters, without stop words.
+ */
+function normalizeTerms(words: string[]): string[] {
+    return words
+        .flatMap(word => tokenize(word))
+        .filter(term => term.length > 2 && !isStopWord(term));
+}
 
-
+/**
+ * Whether a concept name shares a word with the query terms, compared as
+ * stems ("microservices" shares "microservice"; "software" does not share "war").
+ */
+function sharesStem(conceptName: string, terms: string[]): boolean {
+    const conceptStems = new Set(analyze(conceptName));
+    return terms.some(term => analyze(term).some(stem => conceptStems.has(stem)));
+}
@@ -1,5 +1,7 @@
 // Shared types for conceptual search system
 
+import type { SpellingCorrection } from '../domain/models/search-result.js';
+
 /**
  * @deprecated ConceptType was never meaningfully implemented.
  * Kept for backward compatibility.
@@ -115,6 +117,7 @@ export interface ExpandedQuery {
     wordnet_terms: string[];           // From WordNet
     all_terms: string[];               // Combined
     weights: Map<string, number>;      // Term importance weights
+    corrections?: SpellingCorrection[]; // Misspelled query terms replaced before expansion
 }
 
 /**
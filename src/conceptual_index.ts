@@ -8,6 +8,8 @@ import {
   ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { ApplicationContainer } from "./application/container.js";
+import { GRAPH_EXPORT_FORMATS, GraphExportFormat } from './domain/models/index.js';
+import { GRAPH_EXPORT_MIME_TYPES, serializeConceptGraph } from './infrastructure/export/index.js';
 import * as defaults from './config.js';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -155,6 +157,63 @@ const RESOURCES = [
   },
 ];
 
+/**
+ * Concept Graph Resources
+ * 
+ * Unlike the static resources, these are generated from the database on
+ * each read: the concept graph in each export format. Query parameters
+ * filter the graph and add nodes, e.g.
+ * `concept-rag://graph/gexf?category=software%20architecture&min_weight=0.5&documents=true&categories=true`.
+ */
+const GRAPH_RESOURCE_PREFIX = 'concept-rag://graph/';
+
+const GRAPH_RESOURCES = GRAPH_EXPORT_FORMATS.map(format => ({
+  uri: `${GRAPH_RESOURCE_PREFIX}${format}`,
+  name: `Concept Graph (${format === 'cytoscape' ? 'Cytoscape.js JSON' : format === 'gexf' ? 'GEXF' : 'GraphML'})`,
+  description: 'Concept graph (co-occurrence and lexical links) for Gephi or Cytoscape.js. Query parameters: category, min_weight (0-1), documents=true, categories=true.',
+  mimeType: GRAPH_EXPORT_MIME_TYPES[format],
+}));
+
+/**
+ * Read a concept graph resource, or return undefined if the URI is not one.
+ */
+async function readGraphResource(container: ApplicationContainer, uri: string) {
+  if (!uri.startsWith(GRAPH_RESOURCE_PREFIX)) {
+    return undefined;
+  }
+  const url = new URL(uri);
+  const format = url.pathname.replace(/^\//, '') as GraphExportFormat;
+  if (!GRAPH_EXPORT_FORMATS.includes(format)) {
+    return undefined;
+  }
+
+  const params = url.searchParams;
+  const result = await container.getConceptGraphService().buildGraph({
+    category: params.get('category') ?? undefined,
+    minWeight: params.has('min_weight') ? Number(params.get('min_weight')) : undefined,
+    includeDocuments: params.get('documents') === 'true',
+    includeCategories: params.get('categories') === 'true',
+  });
+  if (!result.ok) {
+    const error = result.error;
+    throw new Error(
+      error.type === 'category_not_found'
+        ? `No documents in category "${error.category}"`
+        : error.message
+    );
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: GRAPH_EXPORT_MIME_TYPES[format],
+        text: serializeConceptGraph(result.value, format),
+      },
+    ],
+  };
+}
+
 async function main() {
   // Get database path from command line or use default
   const databaseUrl = process.argv[2] || defaults.DATABASE_URL;
@@ -209,18 +268,27 @@ async function main() {
     });
 
     return {
-      resources: availableResources.map(resource => ({
-        uri: resource.uri,
-        name: resource.name,
-        description: resource.description,
-        mimeType: resource.mimeType,
-      })),
+      resources: [
+        ...availableResources.map(resource => ({
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        })),
+        ...GRAPH_RESOURCES,
+      ],
     };
   });
 
   server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     const uri = request.params.uri;
     
+    // Generated concept graph resources
+    const graphResource = await readGraphResource(container, uri);
+    if (graphResource) {
+      return graphResource;
+    }
+    
     // Find the resource
     const resource = RESOURCES.find(r => r.uri === uri);
     if (!resource) {
@@ -263,7 +331,7 @@ async function main() {
   await server.connect(transport);
 
   console.error("✅ LanceDB MCP Server with Conceptual Search ready!");
-  console.error(`📚 Resources available: ${RESOURCES.length}`);
+  console.error(`📚 Resources available: ${RESOURCES.length + GRAPH_RESOURCES.length}`);
 }
 
 main().catch((error) => {
@@ -18,6 +18,7 @@ import {
   InvalidQueryError,
   SearchTimeoutError,
   NoResultsError,
+  RerankError,
   ConfigurationError,
   MissingConfigError,
   InvalidConfigError,
@@ -208,6 +209,16 @@ describe('SearchError', () => {
     expect(error.message).toContain('No results');
     expect(error.context.query).toBe('nonexistent concept');
   });
+
+  it('should create RerankError with reranker name', () => {
+    const cause = new Error('connection refused');
+    const error = new RerankError('llm:gpt-4o-mini', 'request failed', cause);
+    
+    expect(error.message).toContain('request failed');
+    expect(error.code).toBe('SEARCH_RERANK_ERROR');
+    expect(error.context.reranker).toBe('llm:gpt-4o-mini');
+    expect(error.cause).toBe(cause);
+  });
 });
 
 describe('ConfigurationError', () => {
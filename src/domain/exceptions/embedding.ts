@@ -75,3 +75,20 @@ export class InvalidEmbeddingDimensionsError extends EmbeddingError {
   }
 }
 
+
+/**
+ * Thrown when stored vectors were produced by a different embedding
+ * provider, model or dimension than the one currently configured.
+ */
+export class EmbeddingMismatchError extends EmbeddingError {
+  constructor(
+    provider: string,
+    mismatches: string[]
+  ) {
+    super(
+      `Embedding configuration does not match the database: ${mismatches.join('; ')}`,
+      provider
+    );
+    this.context.mismatches = mismatches;
+  }
+}
@@ -50,7 +50,8 @@ export {
   EmbeddingError,
   EmbeddingProviderError,
   RateLimitError,
-  InvalidEmbeddingDimensionsError
+  InvalidEmbeddingDimensionsError,
+  EmbeddingMismatchError
 } from './embedding.js';
 
 // Search errors
@@ -58,7 +59,8 @@ export {
   SearchError,
   InvalidQueryError,
   SearchTimeoutError,
-  NoResultsError
+  NoResultsError,
+  RerankError
 } from './search.js';
 
 // Configuration errors
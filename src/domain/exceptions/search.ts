@@ -19,6 +19,24 @@ export class SearchError extends ConceptRAGError {
   }
 }
 
+/**
+ * Thrown when a second-stage reranker cannot score search candidates.
+ */
+export class RerankError extends SearchError {
+  constructor(
+    reranker: string,
+    reason: string,
+    cause?: Error
+  ) {
+    super(
+      `Reranker '${reranker}' failed: ${reason}`,
+      'rerank',
+      cause
+    );
+    this.context.reranker = reranker;
+  }
+}
+
 /**
  * Thrown when a search query is invalid.
  */
@@ -1,4 +1,4 @@
-import { SearchQuery, SearchResult } from '../../models/index.js';
+import { CandidateSearchResults, SearchExplanation, SearchFilters, SearchQuery, SearchResult } from '../../models/index.js';
 import { Option } from '../../functional/option.js';
 
 /**
@@ -80,6 +80,45 @@ export interface CatalogRepository {
    */
   search(query: SearchQuery): Promise<SearchResult[]>;
   
+  /**
+   * Search the catalog and also return every candidate document.
+   * 
+   * Runs the same search as {@link search} and returns the
+   * ranked results together with all documents matching the query text and
+   * filters (not only the ranked ones), e.g. to count facets over them.
+   * 
+   * @param query - Search query as passed to {@link search}
+   * @returns Ranked results and all candidate documents
+   * @throws {Error} If database query fails
+   * 
+   * @example
+   * ```typescript
+   * const { results, candidates } = await catalogRepo.searchWithCandidates({ text: 'consensus', limit: 5 });
+   * console.log(`${results.length} of ${candidates.length} matching documents`);
+   * ```
+   */
+  searchWithCandidates(query: SearchQuery): Promise<CandidateSearchResults>;
+  
+  /**
+   * Explain how {@link search} ranks a query.
+   * 
+   * Runs the same search (same defaults and filters) and returns the trace
+   * of the ranking pipeline instead of the results.
+   * 
+   * @param query - Search query as passed to {@link search}
+   * @returns Trace of the search
+   * @throws {Error} If database query fails
+   * 
+   * @example
+   * ```typescript
+   * const explanation = await catalogRepo.explainSearch({ text: 'dependency injection', limit: 5, rerank: true });
+   * console.log(explanation.expandedTerms, explanation.weights);
+   * ```
+   * 
+   * @see {@link SearchExplanation} for the trace format
+   */
+  explainSearch(query: SearchQuery): Promise<SearchExplanation>;
+  
   /**
    * Find a catalog entry by hash-based catalog ID.
    * 
@@ -91,6 +130,41 @@ export interface CatalogRepository {
    */
   findById(catalogId: number): Promise<Option<SearchResult>>;
   
+  /**
+   * Find catalog entries by hash-based catalog IDs.
+   * 
+   * Unknown IDs are skipped; each entry is returned once.
+   * 
+   * @param catalogIds - Hash-based document IDs
+   * @returns Promise resolving to the entries found (in no particular order)
+   * @throws {Error} If database query fails
+   * 
+   * @example
+   * ```typescript
+   * const documents = await catalogRepo.findByIds(chunks.map(chunk => chunk.catalogId));
+   * ```
+   */
+  findByIds(catalogIds: number[]): Promise<SearchResult[]>;
+  
+  /**
+   * Find the catalog entries nearest to an embedding vector.
+   * 
+   * Plain vector similarity over the document embeddings, without query
+   * expansion or hybrid scoring. Used to find documents similar to another
+   * document by its embedding.
+   * 
+   * @param queryVector - Embedding to search with (e.g. a document's own embedding)
+   * @param limit - Maximum entries to return
+   * @returns Promise resolving to entries, nearest first, with `distance` set
+   * @throws {Error} If database query fails
+   * 
+   * @example
+   * ```typescript
+   * const neighbours = await catalogRepo.findByVector(document.embeddings, 20);
+   * ```
+   */
+  findByVector(queryVector: number[], limit: number): Promise<SearchResult[]>;
+  
   /**
    * Find a catalog entry by source document path.
    * 
@@ -147,6 +221,24 @@ export interface CatalogRepository {
    */
   findByCategory(categoryId: number): Promise<SearchResult[]>;
   
+  /**
+   * Find the IDs of catalog entries matching structured metadata filters.
+   * 
+   * Used to apply document metadata filters (year, author, type, ...) to
+   * chunk searches, since chunks only reference their catalog entry.
+   * 
+   * @param filters - Metadata filters (combined with AND)
+   * @returns Promise resolving to IDs of matching catalog entries
+   * @throws {Error} If database query fails
+   * 
+   * @example
+   * ```typescript
+   * const ids = await catalogRepo.findIdsByFilters({ documentType: 'paper', yearFrom: 2018 });
+   * const chunks = await chunkRepo.search({ text: 'consensus', filters: { catalogIds: ids } });
+   * ```
+   */
+  findIdsByFilters(filters: SearchFilters): Promise<number[]>;
+  
   /**
    * Get unique concepts that appear in documents of a category.
    * 
@@ -1,4 +1,5 @@
-import { Chunk, SearchQuery, SearchResult } from '../../models/index.js';
+import { CandidateSearchResults, Chunk, ChunkContext, PassageCandidate, SearchExplanation, SearchQuery, SearchResult } from '../../models/index.js';
+import { Option } from '../../functional/option.js';
 
 /**
  * Repository interface for accessing chunk data from the vector database.
@@ -118,6 +119,51 @@ export interface ChunkRepository {
    */
   findByCatalogId(catalogId: number, limit: number): Promise<Chunk[]>;
   
+  /**
+   * Find a chunk and its neighbouring chunks in the document's reading order.
+   * 
+   * Neighbours come from the same catalog entry, ordered by the chunk
+   * ordinal stored at seed time. Databases seeded without ordinals fall
+   * back to page order (stored row order within a page).
+   * 
+   * @param chunkId - ID of the chunk
+   * @param before - Maximum number of preceding chunks
+   * @param after - Maximum number of following chunks
+   * @returns Some(context) with fewer neighbours at the document edges, or None if the chunk does not exist
+   * @throws {Error} If database query fails
+   * 
+   * @example
+   * ```typescript
+   * const contextOpt = await chunkRepo.findNeighbours(chunkId, 2, 2);
+   * if (isSome(contextOpt)) {
+   *   const { before, chunk, after } = contextOpt.value;
+   *   console.log([...before, chunk, ...after].map(c => c.text).join(' '));
+   * }
+   * ```
+   */
+  findNeighbours(chunkId: number, before: number, after: number): Promise<Option<ChunkContext>>;
+  
+  /**
+   * Find the chunks that may contain a passage (a quote, paraphrase or
+   * pasted paragraph), aligned with it.
+   * 
+   * Candidates are the chunks sharing the most word shingles with the
+   * passage (from the passage index built at seed time; none if the database
+   * has no index) and the chunks nearest to its embedding.
+   * 
+   * @param passage - Passage to find
+   * @param limit - Maximum candidates of each kind (shingle and vector)
+   * @returns Candidates with their shingle and vector scores and best matching span, unranked
+   * @throws {Error} If database query fails
+   * 
+   * @example
+   * ```typescript
+   * const candidates = await chunkRepo.findByPassage('a module should have one reason to change', 10);
+   * const exact = candidates.filter(c => c.alignment?.exact);
+   * ```
+   */
+  findByPassage(passage: string, limit: number): Promise<PassageCandidate[]>;
+  
   /**
    * Perform hybrid search across all chunks using multi-signal ranking.
    * 
@@ -161,6 +207,46 @@ export interface ChunkRepository {
    */
   search(query: SearchQuery): Promise<SearchResult[]>;
   
+  /**
+   * Search chunks and also return every candidate chunk.
+   * 
+   * Runs the same search as {@link search} and returns the
+   * ranked results together with all chunks matching the query text and
+   * filters (not only the ranked ones), e.g. to count facets over their
+   * documents.
+   * 
+   * @param query - Search query as passed to {@link search}
+   * @returns Ranked results and all candidate chunks
+   * @throws {Error} If database query fails
+   * 
+   * @example
+   * ```typescript
+   * const { candidates } = await chunkRepo.searchWithCandidates({ text: 'consensus', limit: 10 });
+   * const catalogIds = candidates.map(chunk => chunk.catalogId);
+   * ```
+   */
+  searchWithCandidates(query: SearchQuery): Promise<CandidateSearchResults>;
+  
+  /**
+   * Explain how {@link search} ranks a query.
+   * 
+   * Runs the same search (same defaults and filters) and returns the trace
+   * of the ranking pipeline instead of the results.
+   * 
+   * @param query - Search query as passed to {@link search}
+   * @returns Trace of the search
+   * @throws {Error} If database query fails
+   * 
+   * @example
+   * ```typescript
+   * const explanation = await chunkRepo.explainSearch({ text: 'dependency injection', limit: 10, rerank: true });
+   * console.log(explanation.expandedTerms, explanation.weights);
+   * ```
+   * 
+   * @see {@link SearchExplanation} for the trace format
+   */
+  explainSearch(query: SearchQuery): Promise<SearchExplanation>;
+  
   /**
    * Count the total number of chunks in the repository.
    * 
@@ -42,6 +42,23 @@ export interface ConceptRepository {
    */
   findById(id: number): Promise<Option<Concept>>;
   
+  /**
+   * Find concepts by hash-based integer IDs.
+   * 
+   * Unknown IDs are skipped; each concept is returned once. Used to load
+   * the neighbourhood of a concept in the concept graph one step at a time.
+   * 
+   * @param ids - Hash-based concept IDs
+   * @returns Promise resolving to the concepts found (in no particular order)
+   * @throws {Error} If database query fails
+   * 
+   * @example
+   * ```typescript
+   * const neighbours = await conceptRepo.findByIds([...concept.adjacentIds, ...concept.relatedIds]);
+   * ```
+   */
+  findByIds(ids: number[]): Promise<Concept[]>;
+  
   /**
    * Find a concept by exact name match (case-insensitive).
    * 
@@ -113,9 +130,12 @@ export interface ConceptRepository {
   findRelated(conceptName: string, limit: number): Promise<Concept[]>;
   
   /**
-   * Search concepts by text query using vector search.
+   * Search concepts by text query.
    * 
-   * Finds concepts that match the query text using semantic search.
+   * Finds concepts matching the query by name prefix, by the words of their
+   * names and synonyms (misspelled words corrected to the closest name word)
+   * and, given a query embedding, by vector similarity. Candidates are ranked
+   * by hybrid score over name, summary, synonym and vector signals.
    * This is useful for exploratory queries where you don't know the
    * exact concept name.
    * 
@@ -124,26 +144,24 @@ export interface ConceptRepository {
    * - Fuzzy concept lookup
    * - Concept discovery
    * 
-   * **Performance**: O(log n) vector search
-   * 
-   * @param queryText - Text query to search for (natural language or keywords)
+   * @param queryText - Text query to search for (natural language, keywords or a name prefix)
    * @param limit - Maximum concepts to return
-   * @returns Promise resolving to matching concepts sorted by relevance
+   * @param queryVector - Query embedding; without it concepts are matched by name and synonyms only
+   * @returns Promise resolving to matching concepts sorted by hybrid score
    * @throws {Error} If database query fails
    * 
    * @example
    * ```typescript
-   * const concepts = await conceptRepo.searchConcepts('software design', 5);
+   * const concepts = await conceptRepo.searchConcepts('dependancy inj', 5);
    * concepts.forEach(c => {
-   *   console.log(`${c.concept} - ${c.category}`);
+   *   console.log(`${c.name} (${c.hybridScore.toFixed(2)})`);
    * });
    * // Output might include:
-   * // - design patterns - software engineering
-   * // - SOLID principles - software design
-   * // - clean architecture - software architecture
+   * // - dependency injection (0.52)
+   * // - dependency inversion principle (0.31)
    * ```
    */
-  searchConcepts(queryText: string, limit: number): Promise<Concept[]>;
+  searchConcepts(queryText: string, limit: number, queryVector?: number[]): Promise<ScoredConcept[]>;
   
   /**
    * Load all concepts from the database.
@@ -205,6 +223,9 @@ export interface ConceptRepository {
  * Concept with hybrid search scores for ranking.
  */
 export interface ScoredConcept extends Concept {
+  /** Concept ID (hash-based), when known */
+  id?: number;
+  
   /** Overall hybrid score (0-1) */
   hybridScore: number;
   
@@ -14,15 +14,15 @@
  * 
  * **Implementations**:
  * - `SimpleEmbeddingService`: Hash-based embeddings for development/testing
- * - `OpenAIEmbeddingService`: Production-grade embeddings (future)
- * - `HuggingFaceEmbeddingService`: Local embeddings (future)
+ * - `TransformerEmbeddingService`: Offline ONNX sentence-transformer models
+ * - `OpenAICompatibleEmbeddingService`: OpenAI / Ollama / any OpenAI-compatible HTTP API
  * 
  * @example
  * ```typescript
  * const service: EmbeddingService = new SimpleEmbeddingService();
  * 
- * const emb1 = service.generateEmbedding('machine learning');
- * const emb2 = service.generateEmbedding('artificial intelligence');
+ * const emb1 = await service.generateEmbedding('machine learning');
+ * const emb2 = await service.generateEmbedding('artificial intelligence');
  * 
  * // Calculate similarity
  * const similarity = cosineSimilarity(emb1, emb2);
@@ -33,26 +33,27 @@
  */
 export interface EmbeddingService {
   /**
-   * Generate a 384-dimensional embedding vector from text.
+   * Generate an embedding vector from text (384 dimensions by default).
    * 
    * Converts arbitrary text into a fixed-size vector representation that
    * captures semantic meaning. The same text always produces the same embedding
    * (deterministic).
    * 
    * **Properties**:
-   * - **Dimensionality**: Always 384 dimensions
+   * - **Dimensionality**: Fixed per provider/model (384 by default)
    * - **Normalization**: Vectors are normalized to unit length (norm = 1.0)
    * - **Deterministic**: Same input → same output
    * - **Semantic**: Similar meanings → similar vectors
    * 
-   * **Performance**: Typically O(n) where n is text length
+   * **Performance**: Typically O(n) where n is text length. Asynchronous because
+   * model-backed providers run inference off the main thread.
    * 
    * @param text - Text to embed (any length, will be processed as-is)
-   * @returns 384-dimensional embedding vector, normalized to unit length
+   * @returns Promise resolving to the embedding vector, normalized to unit length
    * 
    * @example
    * ```typescript
-   * const embedding = service.generateEmbedding('Hello, world!');
+   * const embedding = await service.generateEmbedding('Hello, world!');
    * 
    * console.log(`Length: ${embedding.length}`); // 384
    * 
@@ -64,6 +65,24 @@ export interface EmbeddingService {
    * const results = await table.vectorSearch(embedding).limit(10).toArray();
    * ```
    */
-  generateEmbedding(text: string): number[];
+  generateEmbedding(text: string): Promise<number[]>;
+  
+  /**
+   * Generate embedding vectors for many texts at once.
+   * 
+   * Preferred for bulk work (seeding, re-embedding, multi-term queries):
+   * providers batch the texts into as few model/API calls as possible and
+   * only compute cache misses.
+   * 
+   * @param texts - Texts to embed
+   * @returns Promise resolving to one normalized vector per text, in input order
+   * 
+   * @example
+   * ```typescript
+   * const vectors = await service.generateEmbeddings(chunks.map(c => c.text));
+   * const rows = chunks.map((chunk, i) => ({ ...chunk, vector: vectors[i] }));
+   * ```
+   */
+  generateEmbeddings(texts: string[]): Promise<number[][]>;
 }
 
@@ -1,4 +1,5 @@
-import { SearchResult } from '../../models/search-result.js';
+import { CandidateSearchResults, SearchResult } from '../../models/search-result.js';
+import type { SearchExplanation } from '../../models/search-explanation.js';
 
 /**
  * Options for vector search operations.
@@ -32,6 +33,44 @@ export interface SearchableCollection {
    */
   vectorSearch(queryVector: number[], limit: number, options?: VectorSearchOptions): Promise<any[]>;
   
+  /**
+   * Perform full-text (BM25) search on the collection's text column.
+   * 
+   * Rows carry a `_score` field (BM25 with corpus-wide term statistics,
+   * unbounded, higher = better). Optional: collections without full-text
+   * support omit it, and implementations resolve to `undefined` when the
+   * underlying table has no full-text index.
+   * 
+   * @param queryText - Free-text query
+   * @param limit - Maximum number of results
+   * @param options - Optional search options including filters
+   * @returns Promise of matching rows ordered by BM25 score, or undefined without an index
+   */
+  fullTextSearch?(queryText: string, limit: number, options?: VectorSearchOptions): Promise<any[] | undefined>;
+  
+  /**
+   * Find every row matching a full-text query, not only the best ones.
+   * 
+   * Rows carry all columns but the vector and are not ordered. Optional
+   * like {@link fullTextSearch}, and `undefined` without a full-text index.
+   * 
+   * @param queryText - Free-text query
+   * @param options - Optional search options including filters
+   * @returns Promise of all matching rows, or undefined without an index
+   */
+  fullTextMatches?(queryText: string, options?: VectorSearchOptions): Promise<any[] | undefined>;
+  
+  /**
+   * Get the version of the collection's data.
+   * 
+   * The version changes whenever the collection is written (e.g. when the
+   * database is reseeded), so cached search results can be told apart from
+   * current ones. Optional: collections without versioning omit it.
+   * 
+   * @returns Promise of the current version
+   */
+  getVersion?(): Promise<number>;
+  
   /**
    * Get the name/identifier of this collection (for logging/debugging).
    */
@@ -62,8 +101,10 @@ export interface SearchableCollection {
  * - Keyword search misses semantic equivalents
  * - Combining signals provides balanced, robust results
  * 
- * **Performance**: Queries are reranked after initial vector search,
- * so performance is dominated by vector search (O(log n)).
+ * **Candidates**: Vector search and the native full-text index are queried
+ * in parallel and their candidate sets merged, so exact keyword matches the
+ * embedding misses are still found. Without a full-text index, BM25 is
+ * approximated by rescoring the vector candidates in memory.
  * 
  * @example
  * ```typescript
@@ -91,6 +132,29 @@ export interface SearchableCollection {
  * @see {@link SearchResult} for result format with score breakdown
  * @see {@link ConceptualHybridSearchService} for the implementation
  */
+/**
+ * How per-signal scores are combined into the hybrid score.
+ * 
+ * - `weighted`: weighted sum of the raw signal scores
+ * - `rrf`: weighted Reciprocal Rank Fusion of each signal's ranking
+ */
+export type FusionMode = 'weighted' | 'rrf';
+
+/**
+ * Named signal weight profiles selectable per search.
+ * 
+ * - `default`: the configured weights as-is
+ * - `precise`: favours exact keyword and title matches
+ * - `exploratory`: favours semantic, concept and synonym signals
+ */
+export const WEIGHT_PROFILE_NAMES = ['default', 'precise', 'exploratory'] as const;
+
+/** Name of a signal weight profile */
+export type WeightProfileName = typeof WEIGHT_PROFILE_NAMES[number];
+
+/** Default MMR relevance/diversity trade-off when diversification is requested */
+export const DEFAULT_MMR_LAMBDA = 0.7;
+
 /**
  * Options for hybrid search operations.
  */
@@ -107,8 +171,29 @@ export interface HybridSearchOptions {
   /** Exclude meta content (ToC, front matter, back matter) from results (chunks only) */
   excludeMetaContent?: boolean;
   
-  /** Custom SQL-like filter expression */
+  /** Custom SQL-like filter expression (chunk and catalog search) */
   filter?: string;
+  
+  /** Fusion strategy for this call (default: configured `SearchConfig.fusion`) */
+  fusion?: FusionMode;
+  
+  /** Signal weight profile the dynamic weight adjustment starts from (default: 'default') */
+  weightProfile?: WeightProfileName;
+  
+  /**
+   * Apply the configured second-stage reranker to the top candidates
+   * (default: false; no effect when no reranker is configured)
+   */
+  rerank?: boolean;
+  
+  /**
+   * Re-order results by Maximal Marginal Relevance with this λ in [0, 1]
+   * (1 = relevance only, lower values favour diversity; default: no MMR)
+   */
+  mmrLambda?: number;
+  
+  /** Keep at most this many results per document (default: no cap) */
+  maxPerDocument?: number;
 }
 
 export interface HybridSearchService {
@@ -121,20 +206,22 @@ export interface HybridSearchService {
    * 
    * **Algorithm**:
    * 1. **Query Expansion**: Expand query with related terms and WordNet synonyms
-   * 2. **Vector Search**: Get initial candidates using semantic similarity (3x limit)
+   * 2. **Retrieval**: Get candidates from vector search and full-text search
+   *    in parallel (3x limit each) and merge them
    * 3. **Multi-Signal Scoring**: Score each result across all signals
-   * 4. **Reranking**: Sort by weighted hybrid score
-   * 5. **Top-K**: Return top K results
+   * 4. **Fusion**: Combine signals (weighted sum or RRF) and sort
+   * 5. **Reranking** (optional): Re-order the top candidates with the configured reranker
+   * 6. **Top-K**: Return top K results
    * 
    * **Debug Mode**: When enabled, outputs detailed information to stderr:
    * - Expanded query terms
    * - Score breakdown for each result
    * - Matched concepts
    * 
-   * **Filtering** (chunk search only):
-   * - `excludeReferences`: Filters out bibliography/reference sections
-   * - `excludeExtractionIssues`: Filters out chunks with garbled math
-   * - `filter`: Custom SQL-like filter expression
+   * **Filtering**:
+   * - `excludeReferences`: Filters out bibliography/reference sections (chunks only)
+   * - `excludeExtractionIssues`: Filters out chunks with garbled math (chunks only)
+   * - `filter`: Custom SQL-like filter expression (chunks and catalog)
    * 
    * @param collection - The searchable collection to query (chunks or catalog)
    * @param queryText - Natural language query or keywords (e.g., 'microservice patterns')
@@ -172,4 +259,62 @@ export interface HybridSearchService {
     limit: number,
     options?: HybridSearchOptions | boolean  // boolean for backward compatibility (debug)
   ): Promise<SearchResult[]>;
+  
+  /**
+   * Run a search and return its results together with all matching candidates.
+   * 
+   * Runs the same pipeline as {@link search}, sharing its cached results,
+   * and also returns every row matching the query's free text (through
+   * {@link SearchableCollection.fullTextMatches}, so not limited to the
+   * ranked candidates), the filters and the query's required and excluded
+   * terms, unscored and unordered. Vector neighbours without a keyword match
+   * are left out. Without a full-text index, the ranked candidates with a
+   * keyword match are returned instead. Used to aggregate over the matches,
+   * e.g. for facet counts.
+   * 
+   * @param collection - The searchable collection to query (chunks or catalog)
+   * @param queryText - Query as passed to {@link search}
+   * @param limit - Maximum number of results
+   * @param options - Search options
+   * @returns Results and matching candidates of the search
+   * 
+   * @example
+   * ```typescript
+   * const { results, candidates } = await hybridSearch.searchWithCandidates(catalogCollection, 'consensus', 10);
+   * const years = new Set(candidates.map(candidate => candidate.year));
+   * ```
+   */
+  searchWithCandidates(
+    collection: SearchableCollection,
+    queryText: string,
+    limit: number,
+    options?: HybridSearchOptions
+  ): Promise<CandidateSearchResults>;
+  
+  /**
+   * Run a search and report how it was ranked instead of only the results.
+   * 
+   * Runs the same pipeline as {@link search} (bypassing the result cache)
+   * and records each stage: parsed and expanded query, query analysis and
+   * weight adjustment, applied filter, candidate counts, and the score
+   * components of every candidate before and after reranking.
+   * 
+   * @param collection - The searchable collection to query (chunks or catalog)
+   * @param queryText - Query as passed to {@link search}
+   * @param limit - Maximum number of results
+   * @param options - Search options (`debug` is ignored)
+   * @returns Trace of the search
+   * 
+   * @example
+   * ```typescript
+   * const explanation = await hybridSearch.explain(chunksCollection, 'event sourcing', 10, { rerank: true });
+   * console.log(explanation.weights, explanation.results[0].scores);
+   * ```
+   */
+  explain(
+    collection: SearchableCollection,
+    queryText: string,
+    limit: number,
+    options?: HybridSearchOptions
+  ): Promise<SearchExplanation>;
 }
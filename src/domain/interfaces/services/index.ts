@@ -1,3 +1,3 @@
 export * from './embedding-service.js';
 export * from './hybrid-search-service.js';
-
+export * from './reranker.js';
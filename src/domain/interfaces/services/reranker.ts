@@ -0,0 +1,44 @@
+/**
+ * Service interface for second-stage reranking of search candidates.
+ *
+ * First-stage hybrid search scores every candidate independently from cheap
+ * signals (embeddings, BM25, title and concept matches). A reranker reads the
+ * query and each candidate's text together and scores their relevance
+ * directly, which is more accurate but too expensive for more than the top
+ * few dozen candidates. It is applied after hybrid scoring and before the
+ * results are truncated to the requested limit.
+ *
+ * **Implementations**:
+ * - `CrossEncoderReranker`: Local ONNX cross-encoder model loaded from disk
+ * - `LlmReranker`: LLM relevance judgements over an OpenAI-compatible chat API
+ *
+ * @example
+ * ```typescript
+ * const reranker: Reranker = new CrossEncoderReranker({ model: 'ms-marco-MiniLM-L-6-v2' });
+ *
+ * const scores = await reranker.rerank('dependency injection', [
+ *   'Dependency injection decouples object creation from use...',
+ *   'The history of the printing press...'
+ * ]);
+ * // scores[0] > scores[1]
+ * ```
+ */
+export interface Reranker {
+  /**
+   * Reranker identifier for logging (e.g. 'cross-encoder:ms-marco-MiniLM-L-6-v2').
+   */
+  readonly name: string;
+
+  /**
+   * Score the relevance of each document to the query.
+   *
+   * Scores are only comparable within one call: callers sort by them and
+   * must not assume a range.
+   *
+   * @param query - Search query text
+   * @param documents - Candidate texts, in first-stage order
+   * @returns Promise resolving to one relevance score per document (higher = more relevant)
+   * @throws {SearchError} If the reranker cannot score the documents
+   */
+  rerank(query: string, documents: string[]): Promise<number[]>;
+}
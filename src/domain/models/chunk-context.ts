@@ -0,0 +1,23 @@
+/**
+ * Chunk Context Domain Model
+ *
+ * A chunk together with the chunks around it in its document's reading
+ * order ("small-to-big" retrieval): search matches small chunks, and the
+ * caller reads the larger window around a match to quote it correctly.
+ */
+
+import type { Chunk } from './chunk.js';
+
+/**
+ * A chunk and its neighbouring chunks from the same document.
+ */
+export interface ChunkContext {
+  /** The requested chunk */
+  chunk: Chunk;
+  
+  /** Preceding chunks, in reading order (the nearest one last) */
+  before: Chunk[];
+  
+  /** Following chunks, in reading order (the nearest one first) */
+  after: Chunk[];
+}
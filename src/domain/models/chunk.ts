@@ -53,6 +53,13 @@ export interface Chunk {
   /** Page number within source document (1-indexed, from PDF metadata) */
   pageNumber?: number;
   
+  /**
+   * Position of the chunk in its document's reading order (0-based).
+   * Assigned at seed time; absent in databases seeded before it existed
+   * (see scripts/populate-chunk-index.ts).
+   */
+  chunkIndex?: number;
+  
   /** 
    * Concept density score (0-1) indicating conceptual richness.
    * Calculated as: concept_ids.length / (word_count / 10)
@@ -0,0 +1,102 @@
+/**
+ * Concept Graph Domain Model
+ *
+ * The concept graph of the library, for export to graph tools such as
+ * Gephi or Cytoscape.js. Concepts are linked by co-occurrence
+ * (`adjacent_ids`) and lexically (`related_ids`); documents and categories
+ * can be added as nodes linked to the concepts they contain.
+ *
+ * Node IDs are prefixed with their kind (`concept-…`, `document-…`,
+ * `category-…`) so the three kinds of node cannot collide.
+ *
+ * @example
+ * ```typescript
+ * graph.nodes
+ *   .filter(node => node.kind === 'concept')
+ *   .forEach(node => console.log(`${node.label} (${node.category}): ${node.documentCount} documents`));
+ * ```
+ */
+
+import type { ConceptLinkRelation } from './concept-path.js';
+
+/**
+ * Formats the concept graph can be exported to.
+ *
+ * - `graphml`: GraphML XML (Gephi, yEd, NetworkX)
+ * - `gexf`: GEXF 1.2 XML (Gephi)
+ * - `cytoscape`: Cytoscape.js elements JSON
+ */
+export const GRAPH_EXPORT_FORMATS = ['graphml', 'gexf', 'cytoscape'] as const;
+
+/** Name of a graph export format */
+export type GraphExportFormat = typeof GRAPH_EXPORT_FORMATS[number];
+
+/** Kind of node in the concept graph */
+export type ConceptGraphNodeKind = 'concept' | 'document' | 'category';
+
+/**
+ * Kind of edge in the concept graph.
+ *
+ * - `co-occurrence`, `lexical`: links between concepts
+ * - `appears-in`: a concept appears in a document
+ * - `in-category`: a concept or document belongs to a category
+ */
+export type ConceptGraphRelation = ConceptLinkRelation | 'appears-in' | 'in-category';
+
+/**
+ * A node of the concept graph.
+ */
+export interface ConceptGraphNode {
+  /** Node ID, prefixed with its kind (e.g. `concept-1234`) */
+  id: string;
+
+  /** Kind of node */
+  kind: ConceptGraphNodeKind;
+
+  /** Concept name, document file name or category name */
+  label: string;
+
+  /**
+   * Concepts: importance weight (0-1).
+   * Documents and categories: share of the graph's concepts they contain (0-1).
+   */
+  weight: number;
+
+  /** Number of the graph's documents containing the concept or in the category (1 for a document) */
+  documentCount: number;
+
+  /** Category most of the concept's documents belong to, a document's first category, or the category itself */
+  category?: string;
+}
+
+/**
+ * An undirected edge of the concept graph.
+ */
+export interface ConceptGraphEdge {
+  /** ID of one end node (the concept for concept-document and concept-category edges) */
+  source: string;
+
+  /** ID of the other end node */
+  target: string;
+
+  /** Kinds of link between the two nodes */
+  relations: ConceptGraphRelation[];
+
+  /**
+   * Concept links: Jaccard overlap of the two concepts' documents (0-1), with a floor.
+   * Concept-category: share of the concept's documents in the category.
+   * Other edges: 1.
+   */
+  weight: number;
+}
+
+/**
+ * The concept graph, with its nodes ordered concepts, documents, then categories.
+ */
+export interface ConceptGraph {
+  /** Nodes of the graph */
+  nodes: ConceptGraphNode[];
+
+  /** Edges of the graph */
+  edges: ConceptGraphEdge[];
+}
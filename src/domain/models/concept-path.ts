@@ -0,0 +1,76 @@
+/**
+ * Concept Path Domain Model
+ *
+ * A path between two concepts over the concept graph: concepts are linked
+ * by co-occurrence (`adjacent_ids`, concepts appearing together in
+ * documents) and lexically (`related_ids`, concepts sharing significant
+ * words). Each hop carries the documents containing both of its concepts,
+ * which justify the link.
+ *
+ * @example
+ * ```typescript
+ * // event sourcing → domain events → cqrs
+ * path.hops.forEach(hop => {
+ *   console.log(`${hop.from} → ${hop.to} (${hop.relations.join(', ')})`);
+ *   hop.documents.forEach(doc => console.log(`  ${doc.source}`));
+ * });
+ * ```
+ */
+
+import type { SearchResult } from './search-result.js';
+
+/**
+ * How paths are ranked.
+ *
+ * - `shortest`: fewest hops first, equally long paths by strength
+ * - `strongest`: highest strength first, whatever their length
+ */
+export const CONCEPT_PATH_MODES = ['shortest', 'strongest'] as const;
+
+/** Name of a path ranking mode */
+export type ConceptPathMode = typeof CONCEPT_PATH_MODES[number];
+
+/**
+ * Kind of link between two concepts.
+ *
+ * - `co-occurrence`: the concepts appear together in documents (`adjacent_ids`)
+ * - `lexical`: the concept names share significant words (`related_ids`)
+ */
+export type ConceptLinkRelation = 'co-occurrence' | 'lexical';
+
+/**
+ * One hop of a concept path.
+ */
+export interface ConceptPathHop {
+  /** Concept the hop starts at */
+  from: string;
+
+  /** Concept the hop leads to */
+  to: string;
+
+  /** Kinds of link between the two concepts (either concept may list the other) */
+  relations: ConceptLinkRelation[];
+
+  /** Jaccard overlap of the two concepts' documents (0-1), with a floor for links without shared documents */
+  strength: number;
+
+  /** Documents containing both concepts (the first few) */
+  documents: SearchResult[];
+
+  /** Total number of documents containing both concepts */
+  documentCount: number;
+}
+
+/**
+ * A path between two concepts.
+ */
+export interface ConceptPath {
+  /** Concept names along the path, from the start concept to the end concept */
+  concepts: string[];
+
+  /** Hops between consecutive concepts */
+  hops: ConceptPathHop[];
+
+  /** Product of the hop strengths (0-1); longer and weaker paths score lower */
+  strength: number;
+}
@@ -1,4 +1,12 @@
 export * from './chunk.js';
+export * from './chunk-context.js';
 export * from './concept.js';
 export * from './search-result.js';
+export * from './search-explanation.js';
+export * from './search-filters.js';
+export * from './search-facets.js';
+export * from './parsed-query.js';
+export * from './passage-match.js';
+export * from './concept-path.js';
+export * from './concept-graph.js';
 export * from '../exceptions.js';
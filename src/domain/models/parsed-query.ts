@@ -0,0 +1,86 @@
+/**
+ * Parsed Query Domain Model
+ *
+ * Abstract syntax tree of the advanced search query syntax:
+ *
+ * - `"event sourcing"` — exact phrase (not expanded with synonyms)
+ * - `+term` / `-term` — required / excluded term or phrase
+ * - `kafka OR rabbitmq`, `(kafka rabbitmq)` — any of the alternatives
+ * - `title:`, `author:`, `year:`, `category:`, `concept:` — field restrictions
+ *
+ * @example
+ * ```typescript
+ * parseQuery('"event sourcing" -kafka author:fowler');
+ * // {
+ * //   clauses: [
+ * //     { occur: 'should', node: { type: 'phrase', text: 'event sourcing', words: ['event', 'sourcing'] } },
+ * //     { occur: 'must_not', node: { type: 'term', text: 'kafka', words: ['kafka'] } },
+ * //     { occur: 'should', node: { type: 'term', text: 'fowler', words: ['fowler'], field: 'author' } }
+ * //   ]
+ * // }
+ * ```
+ */
+
+/**
+ * Field prefixes recognised in queries.
+ */
+export const QUERY_FIELDS = ['title', 'author', 'year', 'category', 'concept'] as const;
+
+/** Field a term or phrase is restricted to */
+export type QueryField = typeof QUERY_FIELDS[number];
+
+/**
+ * How a clause takes part in matching:
+ * - `should`: contributes to ranking (field restrictions always apply)
+ * - `must`: results must match (`+`)
+ * - `must_not`: results must not match (`-`)
+ */
+export type QueryOccurrence = 'should' | 'must' | 'must_not';
+
+/** Single word, e.g. `kafka` or `author:fowler` */
+export interface TermNode {
+  type: 'term';
+
+  /** Lowercased term as written (field values keep their punctuation, e.g. `2010..2015`) */
+  text: string;
+
+  /** Lowercased words of the term */
+  words: string[];
+
+  /** Field restriction (optional) */
+  field?: QueryField;
+}
+
+/** Quoted phrase, e.g. `"event sourcing"` */
+export interface PhraseNode {
+  type: 'phrase';
+
+  /** Lowercased phrase text */
+  text: string;
+
+  /** Lowercased words of the phrase, matched contiguously */
+  words: string[];
+
+  /** Field restriction (optional) */
+  field?: QueryField;
+}
+
+/** Term or phrase */
+export type QueryOperand = TermNode | PhraseNode;
+
+/** Alternatives of which any one matches, e.g. `kafka OR rabbitmq` */
+export interface OrNode {
+  type: 'or';
+  operands: QueryOperand[];
+}
+
+/** Top-level query clause */
+export interface QueryClause {
+  occur: QueryOccurrence;
+  node: QueryOperand | OrNode;
+}
+
+/** Parsed search query */
+export interface ParsedQuery {
+  clauses: QueryClause[];
+}
@@ -0,0 +1,70 @@
+/**
+ * Passage Match Domain Model
+ *
+ * Where a passage (a quote, paraphrase or pasted paragraph) occurs in the
+ * chunks of the library, so a caller can verify and cite the exact wording.
+ *
+ * @example
+ * ```typescript
+ * const candidate: PassageCandidate = {
+ *   chunk,
+ *   shingleScore: 0.8,
+ *   vectorScore: 0.9,
+ *   alignment: { start: 120, end: 171, passageStart: 0, passageEnd: 49, matchedWords: 9, coverage: 1, exact: true }
+ * };
+ * console.log(candidate.chunk.text.slice(candidate.alignment!.start, candidate.alignment!.end));
+ * ```
+ */
+
+import type { Chunk } from './chunk.js';
+
+/**
+ * The span of a chunk best matching (a part of) a passage.
+ */
+export interface PassageAlignment {
+  /** Offset of the span's first character in the chunk text */
+  start: number;
+
+  /** Offset after the span's last character in the chunk text */
+  end: number;
+
+  /** Offset of the aligned part's first character in the passage */
+  passageStart: number;
+
+  /** Offset after the aligned part's last character in the passage */
+  passageEnd: number;
+
+  /** Passage words matched by a word of the span */
+  matchedWords: number;
+
+  /** Fraction of the passage's words matched (0-1) */
+  coverage: number;
+
+  /** Whether the chunk contains the passage word for word (ignoring case and punctuation) */
+  exact: boolean;
+}
+
+/**
+ * A chunk that may contain a passage, with the evidence for it.
+ */
+export interface PassageCandidate {
+  /** The chunk */
+  chunk: Chunk;
+
+  /** Fraction of the passage's word shingles found in the chunk (0-1) */
+  shingleScore: number;
+
+  /** Semantic similarity of the passage and the chunk (0-1) */
+  vectorScore: number;
+
+  /** Best matching span, or undefined if no word of the passage occurs in the chunk */
+  alignment?: PassageAlignment;
+}
+
+/**
+ * A ranked passage match.
+ */
+export interface PassageMatch extends PassageCandidate {
+  /** Weighted match score (0-1) */
+  score: number;
+}
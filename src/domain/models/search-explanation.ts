@@ -0,0 +1,175 @@
+/**
+ * Search Explanation Domain Model
+ *
+ * A trace of one hybrid search through the ranking pipeline: how the query
+ * was spelling-corrected, parsed and expanded, how the signal weights were
+ * adjusted to it, which filter was applied, how many candidates were
+ * retrieved, and how every candidate scored before and after reranking.
+ * Used to understand why a result ranks where it does.
+ */
+
+import type { FusionMode, WeightProfileName } from '../interfaces/services/hybrid-search-service.js';
+import type { ParsedQuery } from './parsed-query.js';
+import type { MatchTermKind, SpellingCorrection } from './search-result.js';
+
+/**
+ * Collections a search can be explained for.
+ */
+export const SEARCH_COLLECTIONS = ['catalog', 'chunks'] as const;
+
+/** Name of an explainable collection */
+export type SearchCollectionName = typeof SEARCH_COLLECTIONS[number];
+
+/**
+ * A term of the expanded query.
+ */
+export interface ExplainedTerm {
+  /** The term */
+  term: string;
+
+  /** Source of the term (a term several sources found is attributed to the first of original, corpus, concept, WordNet) */
+  origin: MatchTermKind;
+
+  /** Weight of the term in keyword scoring (original terms 1.0) */
+  weight: number;
+}
+
+/**
+ * Query characteristics the signal weights are adjusted to.
+ */
+export interface QueryCharacteristics {
+  /** Number of original query terms */
+  termCount: number;
+
+  /** Whether query is single-term */
+  isSingleTerm: boolean;
+
+  /** Number of WordNet expanded terms */
+  wordnetTermCount: number;
+
+  /** Number of concept expanded terms */
+  conceptTermCount: number;
+
+  /** Ratio of WordNet terms to original terms */
+  wordnetExpansionRatio: number;
+
+  /** Whether query has strong corpus/concept signals */
+  hasStrongConceptSignal: boolean;
+
+  /** WordNet weight boost factor applied (1.0 = no change) */
+  wordnetBoostFactor: number;
+
+  /** Reason for the boost factor */
+  boostReason: string;
+}
+
+/** Weight of each ranking signal */
+export interface SignalWeightBreakdown {
+  vector: number;
+  bm25: number;
+  title: number;
+  concept: number;
+  wordnet: number;
+}
+
+/**
+ * Number of candidates at each retrieval stage.
+ */
+export interface CandidateCounts {
+  /** Rows returned by vector search */
+  vector: number;
+
+  /** Rows returned by full-text search (null without a full-text index) */
+  fullText: number | null;
+
+  /** Distinct rows after merging both */
+  merged: number;
+
+  /** Rows left after the required and excluded query terms */
+  matching: number;
+}
+
+/**
+ * One candidate's position and score components.
+ */
+export interface ExplainedCandidate {
+  /** 1-based position in the list it belongs to */
+  rank: number;
+
+  /** Chunk or catalog entry ID */
+  id: number;
+
+  /** Document the candidate belongs to */
+  catalogId: number;
+
+  /** Document path (catalog) or title (chunks) */
+  source: string;
+
+  /** Score of each signal (0-1) */
+  scores: SignalWeightBreakdown;
+
+  /** 1-based rank of the candidate for each signal it scored on */
+  signalRanks: Partial<Record<keyof SignalWeightBreakdown, number>>;
+
+  /** Fused hybrid score, including any phrase boost */
+  hybridScore: number;
+
+  /** Second-stage reranker score (only for reranked candidates) */
+  rerankScore?: number;
+}
+
+/**
+ * Trace of a hybrid search.
+ */
+export interface SearchExplanation {
+  /** Query text as given */
+  query: string;
+
+  /** Name of the searched collection */
+  collection: string;
+
+  /** Misspelled query terms and the corpus vocabulary terms suggested for them */
+  corrections: SpellingCorrection[];
+
+  /** Query text with the corrections applied (undefined without corrections) */
+  didYouMean?: string;
+
+  /** Parsed query syntax (corrections added as alternatives to the terms as typed) */
+  parsedQuery: ParsedQuery;
+
+  /** Expanded query terms in expansion order */
+  expandedTerms: ExplainedTerm[];
+
+  /** Query characteristics driving the weight adjustment */
+  analysis: QueryCharacteristics;
+
+  /** Named weight profile the weights started from */
+  weightProfile: WeightProfileName;
+
+  /** Signal weights before the query-dependent adjustment */
+  baseWeights: SignalWeightBreakdown;
+
+  /** Signal weights used for fusion */
+  weights: SignalWeightBreakdown;
+
+  /** How signal scores were combined */
+  fusion: FusionMode;
+
+  /** Filter predicate applied to retrieval (undefined when unfiltered) */
+  filter?: string;
+
+  /** Candidate counts per retrieval stage */
+  candidates: CandidateCounts;
+
+  /** All candidates in fused order */
+  beforeRerank: ExplainedCandidate[];
+
+  /** Name of the reranker that re-ordered the candidates (undefined when not reranked) */
+  reranker?: string;
+
+  /** All candidates in reranked order (undefined when not reranked) */
+  afterRerank?: ExplainedCandidate[];
+
+  /** Returned results, after diversification and the limit */
+  results: ExplainedCandidate[];
+}
@@ -0,0 +1,68 @@
+/**
+ * Search Facets Domain Model
+ *
+ * Counts of the metadata values among the candidates of a search, so a
+ * caller can see how the matches are distributed (by category, author,
+ * year, ...) and narrow the search with the matching filter.
+ *
+ * Facets are counted over every document or chunk matching the query text
+ * and filters, not only the returned page: per document for catalog search,
+ * per chunk for chunk search (a chunk counts towards its document's values).
+ * Nearest neighbours of the query vector that contain none of its terms do
+ * not count.
+ *
+ * @example
+ * ```typescript
+ * const facets: SearchFacets = {
+ *   category: [{ value: 'distributed systems', count: 12 }, { value: 'databases', count: 4 }],
+ *   year: [{ value: 2019, count: 7 }]
+ * };
+ * ```
+ */
+
+import type { SearchResult } from './search-result.js';
+
+/**
+ * Document metadata fields that can be counted as facets.
+ *
+ * Each corresponds to a filter of `SearchFilters`: `category` (category
+ * names), `author`, `year` (narrow with `yearFrom`/`yearTo`), `document_type`
+ * (`documentType`) and `venue`.
+ */
+export const FACET_FIELDS = ['category', 'author', 'year', 'document_type', 'venue'] as const;
+
+/** A facet field */
+export type FacetField = typeof FACET_FIELDS[number];
+
+/** Maximum values reported per facet (the most frequent) */
+export const MAX_FACET_VALUES = 20;
+
+/**
+ * A metadata value and the number of candidates having it.
+ */
+export interface FacetCount {
+  /** Metadata value (a number for `year`) */
+  value: string | number;
+
+  /** Number of candidates with the value */
+  count: number;
+}
+
+/**
+ * Facet counts by field, most frequent value first.
+ *
+ * Only requested fields are present; a field without values among the
+ * candidates has an empty list.
+ */
+export type SearchFacets = Partial<Record<FacetField, FacetCount[]>>;
+
+/**
+ * Search results with facet counts over all matches of the query.
+ */
+export interface FacetedSearchResults {
+  /** Ranked results */
+  results: SearchResult[];
+
+  /** Facet counts over the documents or chunks matching the query */
+  facets: SearchFacets;
+}
@@ -0,0 +1,53 @@
+/**
+ * Search Filters Domain Model
+ *
+ * Structured metadata filters for catalog and chunk search. Filters are
+ * typed values rather than raw SQL so they can be validated at the
+ * boundary and compiled safely into a predicate by the infrastructure layer.
+ *
+ * All fields are optional and combine with AND. Document metadata lives in
+ * the catalog, so chunk searches apply these filters through each chunk's
+ * catalog entry (`catalog_id`).
+ *
+ * @example
+ * ```typescript
+ * const filters: SearchFilters = {
+ *   yearFrom: 2015,
+ *   documentType: 'paper',
+ *   author: 'lamport'
+ * };
+ *
+ * const results = await catalogRepo.search({ text: 'consensus', filters });
+ * ```
+ */
+
+/**
+ * Document type values stored in the catalog `document_type` column.
+ */
+export const DOCUMENT_TYPES = ['book', 'paper', 'article', 'unknown'] as const;
+
+/** Document type classification */
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+export interface SearchFilters {
+  /** Earliest publication year (inclusive) */
+  yearFrom?: number;
+
+  /** Latest publication year (inclusive) */
+  yearTo?: number;
+
+  /** Document type classification */
+  documentType?: DocumentType;
+
+  /** Case-insensitive substring of the document author(s) */
+  author?: string;
+
+  /** Category name the document belongs to (case-insensitive exact match) */
+  category?: string;
+
+  /** Case-insensitive substring of the publication venue */
+  venue?: string;
+
+  /** Restrict results to these catalog entry IDs */
+  catalogIds?: number[];
+}
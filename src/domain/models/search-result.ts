@@ -1,4 +1,6 @@
 import { Chunk } from './chunk.js';
+import type { WeightProfileName } from '../interfaces/services/hybrid-search-service.js';
+import type { DocumentType, SearchFilters } from './search-filters.js';
 
 /**
  * Domain model for search results with multi-signal scoring metadata.
@@ -80,12 +82,31 @@ export interface SearchResult extends Chunk {
    */
   hybridScore: number;
   
+  /**
+   * Second-stage reranker relevance score (only set when the result was
+   * reranked; scale depends on the reranker, higher = more relevant).
+   */
+  rerankScore?: number;
+  
   /** Concepts from the chunk that matched the query */
   matchedConcepts?: string[];
   
   /** Query terms expanded via WordNet and corpus analysis */
   expandedTerms?: string[];
   
+  /**
+   * Where query terms matched in `text`, ordered by position and
+   * non-overlapping (see {@link MatchSpan}).
+   */
+  matchSpans?: MatchSpan[];
+  
+  /**
+   * Query text with misspelled terms corrected (only set when spelling
+   * correction changed the query; the search ran with each correction
+   * alongside the term as typed).
+   */
+  didYouMean?: string;
+  
   /**
    * Denormalized concept names - DERIVED field for display and text search.
    * For catalog entries: resolved from documentConceptIds → concepts.name
@@ -114,7 +135,7 @@ export interface SearchResult extends Chunk {
    * Document type classification.
    * Determined by heuristics: page count, section patterns, metadata.
    */
-  documentType?: 'book' | 'paper' | 'article' | 'unknown';
+  documentType?: DocumentType;
   
   /**
    * Digital Object Identifier for academic papers.
@@ -151,6 +172,86 @@ export interface SearchResult extends Chunk {
    * Complements the single 'author' string field for papers with many authors.
    */
   authors?: string[];
+  
+  // ============================================
+  // Bibliographic Fields (catalog entries)
+  // ============================================
+  
+  /**
+   * Document author(s) as a single string.
+   * Examples: "Martin Fowler", "Tanusree Sharma et al."
+   */
+  author?: string;
+  
+  /** Publication year */
+  year?: number;
+}
+
+/**
+ * Results of a search together with every candidate that matched the query.
+ * 
+ * The candidates are the documents or chunks containing the query's terms
+ * and passing its filters, not only the ones ranked, so they can be
+ * aggregated, e.g. into facet counts.
+ */
+export interface CandidateSearchResults {
+  /** Ranked results, as returned by the search */
+  results: SearchResult[];
+  
+  /** All candidates matching the query and filters, unscored and unordered */
+  candidates: SearchResult[];
+}
+
+/**
+ * Origin of a matched query term.
+ * 
+ * - `original`: a term of the query as typed
+ * - `corpus`: a related term from the concept corpus
+ * - `concept`: a concept matching the query
+ * - `wordnet`: a WordNet synonym or related term
+ */
+export type MatchTermKind = 'original' | 'corpus' | 'concept' | 'wordnet';
+
+/**
+ * A query term match in a search result's text, for highlighting.
+ * 
+ * @example
+ * ```typescript
+ * // 'Dependency injection decouples...' matched by the query term 'dependency'
+ * const span: MatchSpan = { start: 0, end: 10, term: 'dependency', kind: 'original' };
+ * ```
+ */
+export interface MatchSpan {
+  /** Offset of the first matched character */
+  start: number;
+  
+  /** Offset after the last matched character */
+  end: number;
+  
+  /** Query term that matched (lowercase) */
+  term: string;
+  
+  /** Origin of the term */
+  kind: MatchTermKind;
+}
+
+/**
+ * A misspelled query term replaced by the closest term of the corpus vocabulary.
+ * 
+ * @example
+ * ```typescript
+ * const correction: SpellingCorrection = { term: 'idempotancy', correction: 'idempotency', distance: 1 };
+ * ```
+ */
+export interface SpellingCorrection {
+  /** Query term as typed (lowercase) */
+  term: string;
+  
+  /** Vocabulary term suggested for it */
+  correction: string;
+  
+  /** Edit distance between the two */
+  distance: number;
 }
 
 /**
@@ -192,4 +293,23 @@ export interface SearchQuery {
   
   /** Exclude meta content (ToC, front matter, back matter) from results */
   excludeMetaContent?: boolean;
+  
+  /** Rerank the top candidates with the configured second-stage reranker (default: false) */
+  rerank?: boolean;
+  
+  /** Named signal weight profile (default: 'default', the configured weights) */
+  weightProfile?: WeightProfileName;
+  
+  /** Maximal Marginal Relevance λ in [0, 1] for result diversification (default: no MMR) */
+  mmrLambda?: number;
+  
+  /** Keep at most this many results per document (default: no cap) */
+  maxPerDocument?: number;
+  
+  /**
+   * Structured metadata filters. Chunk searches honour `catalogIds` only;
+   * resolve document metadata filters to catalog IDs first
+   * (see `CatalogRepository.findIdsByFilters`).
+   */
+  filters?: SearchFilters;
 }
@@ -9,7 +9,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { CatalogSearchService } from '../catalog-search-service.js';
 import { CatalogRepository } from '../../interfaces/repositories/catalog-repository.js';
-import { SearchResult } from '../../models/index.js';
+import { CandidateSearchResults, SearchExplanation, SearchQuery, SearchResult } from '../../models/index.js';
+import { createTestSearchExplanation, createTestSearchResult } from '../../../__tests__/test-helpers/test-data.js';
 import { isOk, isErr } from '../../functional/index.js';
 
 /**
@@ -22,11 +23,30 @@ class MockCatalogRepository implements CatalogRepository {
     return Promise.resolve(this.searchResults.slice(0, query.limit));
   }
 
+  async searchWithCandidates(query: SearchQuery): Promise<CandidateSearchResults> {
+    return Promise.resolve({ results: this.searchResults.slice(0, query.limit), candidates: this.searchResults });
+  }
+
+  async explainSearch(query: SearchQuery): Promise<SearchExplanation> {
+    return Promise.resolve(createTestSearchExplanation(this.searchResults.slice(0, query.limit), {
+      query: query.text,
+      collection: 'catalog'
+    }));
+  }
+
   // @ts-expect-error - Type narrowing limitation
   async findBySource(sourcePath: string): Promise<SearchResult | null> {
     return Promise.resolve(null);
   }
 
+  async findByIds(): Promise<SearchResult[]> {
+    return Promise.resolve([]);
+  }
+
+  async findByVector(): Promise<SearchResult[]> {
+    return Promise.resolve([]);
+  }
+
   async findByCategory(categoryId: number): Promise<SearchResult[]> {
     return Promise.resolve([]);
   }
@@ -35,6 +55,10 @@ class MockCatalogRepository implements CatalogRepository {
     return Promise.resolve([]);
   }
 
+  async findIdsByFilters(): Promise<number[]> {
+    return Promise.resolve([]);
+  }
+
   // Test helpers
   setSearchResults(results: SearchResult[]): void {
     this.searchResults = results;
@@ -251,5 +275,89 @@ describe('CatalogSearchService', () => {
       }
     });
   });
+
+  describe('searchCatalogWithFacets', () => {
+    beforeEach(() => {
+      // SETUP
+      mockRepo.setSearchResults([
+        createTestSearchResult({ id: 1, author: 'Leslie Lamport', year: 1998, documentType: 'paper' }),
+        createTestSearchResult({ id: 2, author: 'Diego Ongaro', year: 2014, documentType: 'paper' }),
+        createTestSearchResult({ id: 3, author: 'Leslie Lamport', year: 2001, documentType: 'paper' })
+      ]);
+    });
+
+    it('should return the results with facets counted over all candidates', async () => {
+      // EXERCISE
+      const result = await service.searchCatalogWithFacets({ text: 'consensus', limit: 1, facets: ['author', 'document_type'] });
+
+      // VERIFY
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.results.map(r => r.id)).toEqual([1]);
+        expect(result.value.facets).toEqual({
+          author: [{ value: 'Leslie Lamport', count: 2 }, { value: 'Diego Ongaro', count: 1 }],
+          document_type: [{ value: 'paper', count: 3 }]
+        });
+      }
+    });
+
+    it('should count all facet fields by default', async () => {
+      // EXERCISE
+      const result = await service.searchCatalogWithFacets({ text: 'consensus', limit: 5 });
+
+      // VERIFY
+      expect(isOk(result) && Object.keys(result.value.facets))
+        .toEqual(['category', 'author', 'year', 'document_type', 'venue']);
+    });
+
+    it('should reject unknown facet fields', async () => {
+      // EXERCISE
+      // @ts-expect-error - Invalid facet field on purpose
+      const result = await service.searchCatalogWithFacets({ text: 'consensus', limit: 5, facets: ['publisher'] });
+
+      // VERIFY
+      expect(isErr(result) && result.error.type).toBe('validation');
+    });
+  });
+
+  describe('explainCatalog', () => {
+    it('should return the trace of the catalog search', async () => {
+      // SETUP
+      mockRepo.setSearchResults([
+        {
+          id: 1,
+          text: 'Document about software architecture',
+          source: '/docs/architecture.pdf',
+          hash: 'hash1',
+          catalogId: 12345678,
+          distance: 0.2,
+          vectorScore: 0.8,
+          bm25Score: 0.7,
+          titleScore: 0.9,
+          conceptScore: 0.5,
+          wordnetScore: 0.4,
+          hybridScore: 0.72
+        }
+      ]);
+
+      // EXERCISE
+      const result = await service.explainCatalog({ text: 'software architecture', limit: 5 });
+
+      // VERIFY
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.collection).toBe('catalog');
+        expect(result.value.results.map(c => c.source)).toEqual(['/docs/architecture.pdf']);
+      }
+    });
+
+    it('should reject invalid parameters', async () => {
+      // EXERCISE
+      const result = await service.explainCatalog({ text: 'architecture', limit: 0 });
+
+      // VERIFY
+      expect(isErr(result) && result.error.type).toBe('validation');
+    });
+  });
 });
 
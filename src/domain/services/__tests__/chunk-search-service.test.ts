@@ -9,8 +9,11 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ChunkSearchService } from '../chunk-search-service.js';
 import { ChunkRepository } from '../../interfaces/repositories/chunk-repository.js';
-import { Chunk, SearchResult } from '../../models/index.js';
-import { isOk, isErr } from '../../functional/index.js';
+import { CandidateSearchResults, Chunk, ChunkContext, PassageCandidate, SearchExplanation, SearchQuery, SearchResult } from '../../models/index.js';
+import { isOk, isErr, fromNullable } from '../../functional/index.js';
+import type { Option } from '../../functional/option.js';
+import { FakeCatalogRepository } from '../../../__tests__/test-helpers/mock-repositories.js';
+import { createTestSearchExplanation, createTestSearchResult } from '../../../__tests__/test-helpers/test-data.js';
 
 /**
  * Mock ChunkRepository for testing
@@ -18,11 +21,25 @@ import { isOk, isErr } from '../../functional/index.js';
 class MockChunkRepository implements ChunkRepository {
   private searchResults: SearchResult[] = [];
   private sourceChunks: Map<string, Chunk[]> = new Map();
+  private contexts: Map<number, ChunkContext> = new Map();
+  searchQueries: SearchQuery[] = [];
+  neighbourRequests: [number, number, number][] = [];
 
-  async search(query: { text: string; limit: number; debug?: boolean }): Promise<SearchResult[]> {
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    this.searchQueries.push(query);
     return Promise.resolve(this.searchResults.slice(0, query.limit));
   }
 
+  async searchWithCandidates(query: SearchQuery): Promise<CandidateSearchResults> {
+    this.searchQueries.push(query);
+    return Promise.resolve({ results: this.searchResults.slice(0, query.limit), candidates: this.searchResults });
+  }
+
+  async explainSearch(query: SearchQuery): Promise<SearchExplanation> {
+    this.searchQueries.push(query);
+    return Promise.resolve(createTestSearchExplanation(this.searchResults.slice(0, query.limit), { query: query.text }));
+  }
+
   async findByConceptName(conceptName: string, limit: number): Promise<Chunk[]> {
     return Promise.resolve([]);
   }
@@ -36,6 +53,15 @@ class MockChunkRepository implements ChunkRepository {
     return Promise.resolve([]);
   }
 
+  async findNeighbours(chunkId: number, before: number, after: number): Promise<Option<ChunkContext>> {
+    this.neighbourRequests.push([chunkId, before, after]);
+    return Promise.resolve(fromNullable(this.contexts.get(chunkId)));
+  }
+
+  async findByPassage(_passage: string, _limit: number): Promise<PassageCandidate[]> {
+    return Promise.resolve([]);
+  }
+
   async countChunks(): Promise<number> {
     return Promise.resolve(0);
   }
@@ -49,6 +75,10 @@ class MockChunkRepository implements ChunkRepository {
     this.sourceChunks.set(sourcePath, chunks);
   }
 
+  setContext(context: ChunkContext): void {
+    this.contexts.set(context.chunk.id, context);
+  }
+
   clear(): void {
     this.searchResults = [];
     this.sourceChunks.clear();
@@ -209,6 +239,310 @@ describe('ChunkSearchService', () => {
     });
   });
 
+  describe('searchBroad - filters', () => {
+    let catalogRepo: FakeCatalogRepository;
+
+    beforeEach(() => {
+      catalogRepo = new FakeCatalogRepository([
+        createTestSearchResult({ id: 1, documentType: 'paper', authors: ['Leslie Lamport'] }),
+        createTestSearchResult({ id: 2, documentType: 'book', authors: ['Martin Kleppmann'] }),
+        createTestSearchResult({ id: 3, documentType: 'paper', authors: ['Diego Ongaro'] })
+      ]);
+      service = new ChunkSearchService(mockRepo, catalogRepo);
+    });
+
+    it('should resolve document metadata filters to catalog IDs', async () => {
+      // EXERCISE
+      const result = await service.searchBroad({
+        text: 'consensus',
+        limit: 5,
+        filters: { documentType: 'paper', author: 'lamport' }
+      });
+
+      // VERIFY
+      expect(isOk(result)).toBe(true);
+      expect(mockRepo.searchQueries[0].filters).toEqual({ catalogIds: [1] });
+    });
+
+    it('should intersect metadata filters with explicit catalog IDs', async () => {
+      // EXERCISE
+      await service.searchBroad({
+        text: 'consensus',
+        limit: 5,
+        filters: { documentType: 'paper', catalogIds: [2, 3] }
+      });
+
+      // VERIFY
+      expect(mockRepo.searchQueries[0].filters).toEqual({ catalogIds: [3] });
+    });
+
+    it('should return no results without searching when no document matches', async () => {
+      // SETUP
+      mockRepo.setSearchResults([createTestSearchResult()]);
+
+      // EXERCISE
+      const result = await service.searchBroad({
+        text: 'consensus',
+        limit: 5,
+        filters: { venue: 'SOSP' }
+      });
+
+      // VERIFY
+      expect(isOk(result) && result.value).toEqual([]);
+      expect(mockRepo.searchQueries).toHaveLength(0);
+    });
+
+    it('should reject invalid filters', async () => {
+      // EXERCISE
+      const result = await service.searchBroad({
+        text: 'consensus',
+        limit: 5,
+        filters: { yearFrom: 2020, yearTo: 2010 }
+      });
+
+      // VERIFY
+      expect(isErr(result)).toBe(true);
+      expect(mockRepo.searchQueries).toHaveLength(0);
+    });
+
+    it('should require a catalog repository for metadata filters', async () => {
+      // SETUP
+      service = new ChunkSearchService(mockRepo);
+
+      // EXERCISE
+      const result = await service.searchBroad({
+        text: 'consensus',
+        limit: 5,
+        filters: { author: 'lamport' }
+      });
+
+      // VERIFY
+      expect(isErr(result) && result.error.type).toBe('validation');
+    });
+  });
+
+  describe('searchBroadWithFacets', () => {
+    beforeEach(() => {
+      // SETUP
+      service = new ChunkSearchService(mockRepo, new FakeCatalogRepository([
+        createTestSearchResult({ id: 1, catalogId: 1, categoryNames: ['distributed systems'], year: 2014 }),
+        createTestSearchResult({ id: 2, catalogId: 2, categoryNames: ['databases'], year: 2017 })
+      ]));
+      mockRepo.setSearchResults([
+        createTestSearchResult({ id: 10, catalogId: 1 }),
+        createTestSearchResult({ id: 11, catalogId: 2 }),
+        createTestSearchResult({ id: 12, catalogId: 1 }),
+        createTestSearchResult({ id: 13, catalogId: 99 })
+      ]);
+    });
+
+    it('should count the documents of all candidate chunks, once per chunk', async () => {
+      // EXERCISE
+      const result = await service.searchBroadWithFacets({ text: 'consensus', limit: 2, facets: ['category', 'year'] });
+
+      // VERIFY
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.results.map(r => r.id)).toEqual([10, 11]);
+        expect(result.value.facets).toEqual({
+          category: [{ value: 'distributed systems', count: 2 }, { value: 'databases', count: 1 }],
+          year: [{ value: 2014, count: 2 }, { value: 2017, count: 1 }]
+        });
+      }
+    });
+
+    it('should return empty facets without searching when no document matches the filters', async () => {
+      // EXERCISE
+      const result = await service.searchBroadWithFacets({
+        text: 'consensus',
+        limit: 5,
+        filters: { documentType: 'article' },
+        facets: ['venue']
+      });
+
+      // VERIFY
+      expect(isOk(result) && result.value).toEqual({ results: [], facets: { venue: [] } });
+      expect(mockRepo.searchQueries).toHaveLength(0);
+    });
+
+    it('should require a catalog repository', async () => {
+      // SETUP
+      service = new ChunkSearchService(mockRepo);
+
+      // EXERCISE
+      const result = await service.searchBroadWithFacets({ text: 'consensus', limit: 5 });
+
+      // VERIFY
+      expect(isErr(result) && result.error.type).toBe('validation');
+      expect(mockRepo.searchQueries).toHaveLength(0);
+    });
+  });
+
+  describe('searchBroad - query fields', () => {
+    beforeEach(() => {
+      const catalogRepo = new FakeCatalogRepository([
+        createTestSearchResult({ id: 1, authors: ['Leslie Lamport'], categoryNames: ['distributed systems'] }),
+        createTestSearchResult({ id: 2, authors: ['Martin Kleppmann'], categoryNames: ['databases'] }),
+        createTestSearchResult({ id: 3, authors: ['Diego Ongaro'], categoryNames: ['distributed systems'] })
+      ]);
+      service = new ChunkSearchService(mockRepo, catalogRepo);
+    });
+
+    it('should resolve author: and category: restrictions to catalog IDs', async () => {
+      // EXERCISE
+      await service.searchBroad({ text: 'consensus category:"distributed systems" -author:lamport', limit: 5 });
+
+      // VERIFY
+      expect(mockRepo.searchQueries[0].text).toBe('consensus category:"distributed systems" -author:lamport');
+      expect(mockRepo.searchQueries[0].filters).toEqual({ catalogIds: [3] });
+    });
+
+    it('should match any alternative of an OR group', async () => {
+      // EXERCISE
+      await service.searchBroad({ text: 'replication author:(lamport OR kleppmann)', limit: 5, filters: { catalogIds: [2, 3] } });
+
+      // VERIFY
+      expect(mockRepo.searchQueries[0].filters).toEqual({ catalogIds: [2] });
+    });
+
+    it('should leave queries without document fields unfiltered', async () => {
+      // EXERCISE
+      await service.searchBroad({ text: '"event sourcing" -kafka title:patterns', limit: 5 });
+
+      // VERIFY
+      expect(mockRepo.searchQueries[0].filters).toBeUndefined();
+    });
+
+    it('should require a catalog repository for document fields', async () => {
+      // SETUP
+      service = new ChunkSearchService(mockRepo);
+
+      // EXERCISE
+      const result = await service.searchBroad({ text: 'consensus author:lamport', limit: 5 });
+
+      // VERIFY
+      expect(isErr(result) && result.error.type).toBe('validation');
+      expect(mockRepo.searchQueries).toHaveLength(0);
+    });
+  });
+
+  describe('searchBroad - diversification', () => {
+    it('should pass the default MMR lambda when diversifying', async () => {
+      // EXERCISE
+      await service.searchBroad({ text: 'consensus', limit: 5, diversify: true, maxPerDocument: 2 });
+
+      // VERIFY
+      expect(mockRepo.searchQueries[0].mmrLambda).toBe(0.7);
+      expect(mockRepo.searchQueries[0].maxPerDocument).toBe(2);
+    });
+
+    it('should ignore the MMR lambda without diversify', async () => {
+      // EXERCISE
+      await service.searchBroad({ text: 'consensus', limit: 5, mmrLambda: 0.3 });
+
+      // VERIFY
+      expect(mockRepo.searchQueries[0].mmrLambda).toBeUndefined();
+    });
+
+    it('should reject out-of-range options', async () => {
+      // EXERCISE
+      const badLambda = await service.searchBroad({ text: 'consensus', limit: 5, diversify: true, mmrLambda: 1.5 });
+      const badCap = await service.searchBroad({ text: 'consensus', limit: 5, maxPerDocument: 0 });
+
+      // VERIFY
+      expect(isErr(badLambda)).toBe(true);
+      expect(isErr(badCap)).toBe(true);
+      expect(mockRepo.searchQueries).toHaveLength(0);
+    });
+  });
+
+  describe('explainBroad', () => {
+    beforeEach(() => {
+      service = new ChunkSearchService(mockRepo, new FakeCatalogRepository([
+        createTestSearchResult({ id: 1, documentType: 'paper' }),
+        createTestSearchResult({ id: 2, documentType: 'book' })
+      ]));
+    });
+
+    it('should explain the query broad search would run', async () => {
+      // SETUP
+      mockRepo.setSearchResults([createTestSearchResult({ id: 7 })]);
+
+      // EXERCISE
+      const result = await service.explainBroad({
+        text: 'consensus',
+        limit: 5,
+        weightProfile: 'precise',
+        filters: { documentType: 'paper' }
+      });
+
+      // VERIFY
+      expect(isOk(result) && result.value.results.map(c => c.id)).toEqual([7]);
+      expect(mockRepo.searchQueries[0]).toMatchObject({
+        text: 'consensus',
+        limit: 5,
+        rerank: true,
+        weightProfile: 'precise',
+        filters: { catalogIds: [1] }
+      });
+    });
+
+    it('should return not_found when no document matches the filters', async () => {
+      // EXERCISE
+      const result = await service.explainBroad({ text: 'consensus', limit: 5, filters: { venue: 'SOSP' } });
+
+      // VERIFY
+      expect(isErr(result) && result.error.type).toBe('not_found');
+      expect(mockRepo.searchQueries).toHaveLength(0);
+    });
+
+    it('should reject invalid parameters', async () => {
+      // EXERCISE
+      const result = await service.explainBroad({ text: '', limit: 5 });
+
+      // VERIFY
+      expect(isErr(result) && result.error.type).toBe('validation');
+    });
+  });
+
+  describe('getChunkContext', () => {
+    it('should return the neighbours with two on each side by default', async () => {
+      // SETUP
+      const chunk = { id: 2, text: 'Middle', hash: 'h2', catalogId: 1, chunkIndex: 2 };
+      mockRepo.setContext({
+        chunk,
+        before: [{ ...chunk, id: 1, text: 'Before', chunkIndex: 1 }],
+        after: [{ ...chunk, id: 3, text: 'After', chunkIndex: 3 }]
+      });
+
+      // EXERCISE
+      const result = await service.getChunkContext({ chunkId: 2 });
+
+      // VERIFY
+      expect(isOk(result) && result.value.before[0].text).toBe('Before');
+      expect(mockRepo.neighbourRequests).toEqual([[2, 2, 2]]);
+    });
+
+    it('should return not_found for an unknown chunk', async () => {
+      // EXERCISE
+      const result = await service.getChunkContext({ chunkId: 42, before: 1, after: 0 });
+
+      // VERIFY
+      expect(isErr(result) && result.error).toEqual({ type: 'not_found', resource: 'chunk 42' });
+    });
+
+    it('should reject invalid parameters without querying', async () => {
+      // EXERCISE
+      const missing = await service.getChunkContext({});
+      const tooMany = await service.getChunkContext({ chunkId: 1, before: 50 });
+
+      // VERIFY
+      expect(isErr(missing) && missing.error.type).toBe('validation');
+      expect(isErr(tooMany) && tooMany.error.type).toBe('validation');
+      expect(mockRepo.neighbourRequests).toHaveLength(0);
+    });
+  });
+
   // NOTE: searchInSource tests removed - used outdated mock patterns that don't match
   // the current architecture (now uses catalog IDs, not source paths). 
   // Functionality is covered by integration tests in mcp-tools-integration.test.ts.
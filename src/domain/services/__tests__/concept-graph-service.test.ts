@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for ConceptGraphService
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConceptGraphService } from '../concept-graph-service.js';
+import { MIN_LINK_STRENGTH } from '../concept-path-service.js';
+import { isErr, isOk } from '../../functional/index.js';
+import { DatabaseError } from '../../exceptions/index.js';
+import { ConceptGraph } from '../../models/index.js';
+import {
+  FakeCatalogRepository,
+  FakeConceptRepository,
+  createTestConcept,
+  createTestSearchResult
+} from '../../../__tests__/test-helpers/index.js';
+import { hashToId } from '../../../infrastructure/utils/hash.js';
+
+function createConcept(name: string, weight: number, catalogIds: number[], adjacent: string[] = [], related: string[] = []) {
+  return {
+    ...createTestConcept({
+      name,
+      weight,
+      catalogIds,
+      adjacentIds: adjacent.map(hashToId),
+      relatedIds: related.map(hashToId)
+    }),
+    id: hashToId(name)
+  };
+}
+
+function createDocument(catalogId: number, categoryNames: string[]) {
+  return createTestSearchResult({ id: catalogId, catalogId, source: `/docs/${catalogId}.pdf`, categoryNames });
+}
+
+function node(name: string) {
+  return `concept-${hashToId(name)}`;
+}
+
+function valueOf(result: Awaited<ReturnType<ConceptGraphService['buildGraph']>>): ConceptGraph {
+  expect(isOk(result)).toBe(true);
+  return (result as { ok: true; value: ConceptGraph }).value;
+}
+
+describe('ConceptGraphService', () => {
+  let conceptRepo: FakeConceptRepository;
+  let service: ConceptGraphService;
+
+  beforeEach(() => {
+    // SETUP - domain events lists its co-occurrence link to event sourcing
+    // as well, which must give a single edge
+    conceptRepo = new FakeConceptRepository([
+      createConcept('event sourcing', 0.9, [1, 2], ['domain events'], ['event-driven architecture']),
+      createConcept('domain events', 0.6, [1, 2, 3], ['event sourcing']),
+      createConcept('event-driven architecture', 0.3, [3]),
+      createConcept('typescript', 0.5, [4])
+    ]);
+    const catalogRepo = new FakeCatalogRepository([
+      createDocument(1, ['domain-driven design']),
+      createDocument(2, ['domain-driven design', 'architecture']),
+      createDocument(3, ['messaging']),
+      createDocument(4, ['programming languages'])
+    ]);
+    service = new ConceptGraphService(conceptRepo, catalogRepo);
+  });
+
+  it('should link concepts once per pair with their relations and strength', async () => {
+    // EXERCISE
+    const result = await service.buildGraph();
+
+    // VERIFY
+    const { nodes, edges } = valueOf(result);
+    expect(nodes).toEqual([
+      { id: node('domain events'), kind: 'concept', label: 'domain events', weight: 0.6, documentCount: 3, category: 'domain-driven design' },
+      { id: node('event sourcing'), kind: 'concept', label: 'event sourcing', weight: 0.9, documentCount: 2, category: 'domain-driven design' },
+      { id: node('event-driven architecture'), kind: 'concept', label: 'event-driven architecture', weight: 0.3, documentCount: 1, category: 'messaging' },
+      { id: node('typescript'), kind: 'concept', label: 'typescript', weight: 0.5, documentCount: 1, category: 'programming languages' }
+    ]);
+    expect(edges).toHaveLength(2);
+    expect(edges[0]).toMatchObject({ source: node('domain events'), target: node('event sourcing'), relations: ['co-occurrence'] });
+    expect(edges[0].weight).toBeCloseTo(2 / 3);
+    expect(edges[1]).toEqual({
+      source: node('event sourcing'),
+      target: node('event-driven architecture'),
+      relations: ['lexical'],
+      weight: MIN_LINK_STRENGTH
+    });
+  });
+
+  it('should only include the documents of a category and their concepts', async () => {
+    // EXERCISE
+    const result = await service.buildGraph({ category: 'Domain-Driven Design' });
+
+    // VERIFY
+    const { nodes, edges } = valueOf(result);
+    expect(nodes.map(n => [n.label, n.documentCount])).toEqual([['domain events', 2], ['event sourcing', 2]]);
+    expect(edges.map(e => e.relations)).toEqual([['co-occurrence']]);
+  });
+
+  it('should leave out concepts below the minimum weight', async () => {
+    // EXERCISE
+    const result = await service.buildGraph({ minWeight: 0.5 });
+
+    // VERIFY
+    const { nodes, edges } = valueOf(result);
+    expect(nodes.map(n => n.label)).toEqual(['domain events', 'event sourcing', 'typescript']);
+    expect(edges).toHaveLength(1);
+  });
+
+  it('should add document and category nodes linked to their concepts', async () => {
+    // EXERCISE
+    const result = await service.buildGraph({
+      category: 'domain-driven design',
+      includeDocuments: true,
+      includeCategories: true
+    });
+
+    // VERIFY
+    const { nodes, edges } = valueOf(result);
+    expect(nodes.slice(2)).toEqual([
+      { id: 'document-1', kind: 'document', label: '1.pdf', weight: 1, documentCount: 1, category: 'domain-driven design' },
+      { id: 'document-2', kind: 'document', label: '2.pdf', weight: 1, documentCount: 1, category: 'domain-driven design' },
+      { id: `category-${hashToId('architecture')}`, kind: 'category', label: 'architecture', weight: 1, documentCount: 1, category: 'architecture' },
+      {
+        id: `category-${hashToId('domain-driven design')}`,
+        kind: 'category',
+        label: 'domain-driven design',
+        weight: 1,
+        documentCount: 2,
+        category: 'domain-driven design'
+      }
+    ]);
+    expect(edges.filter(e => e.relations[0] === 'appears-in')).toHaveLength(4);
+    expect(edges).toContainEqual({
+      source: node('event sourcing'),
+      target: `category-${hashToId('architecture')}`,
+      relations: ['in-category'],
+      weight: 0.5
+    });
+    expect(edges).toContainEqual({
+      source: 'document-2',
+      target: `category-${hashToId('architecture')}`,
+      relations: ['in-category'],
+      weight: 1
+    });
+    expect(edges).toHaveLength(1 + 4 + 4 + 3);
+  });
+
+  it('should report a category without documents', async () => {
+    // EXERCISE
+    const result = await service.buildGraph({ category: 'quantum computing' });
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toEqual({ type: 'category_not_found', category: 'quantum computing' });
+    }
+  });
+
+  it('should reject a minimum weight out of range', async () => {
+    // EXERCISE
+    const result = await service.buildGraph({ minWeight: 2 });
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.type).toBe('validation');
+    }
+  });
+
+  it('should report database failures', async () => {
+    // SETUP
+    conceptRepo.findAll = async () => {
+      throw new DatabaseError('Failed to load all concepts from database', 'query');
+    };
+
+    // EXERCISE
+    const result = await service.buildGraph();
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toEqual({ type: 'database', message: 'Failed to load all concepts from database' });
+    }
+  });
+});
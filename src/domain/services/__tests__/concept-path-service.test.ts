@@ -0,0 +1,154 @@
+/**
+ * Unit Tests for ConceptPathService
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConceptPathService, ConceptPathResult, MIN_LINK_STRENGTH } from '../concept-path-service.js';
+import { isErr, isOk } from '../../functional/index.js';
+import { DatabaseError } from '../../exceptions/index.js';
+import {
+  FakeCatalogRepository,
+  FakeConceptRepository,
+  createTestConcept,
+  createTestSearchResult
+} from '../../../__tests__/test-helpers/index.js';
+import { hashToId } from '../../../infrastructure/utils/hash.js';
+
+function createConcept(name: string, catalogIds: number[], adjacent: string[] = [], related: string[] = []) {
+  return {
+    ...createTestConcept({
+      name,
+      catalogIds,
+      adjacentIds: adjacent.map(hashToId),
+      relatedIds: related.map(hashToId)
+    }),
+    id: hashToId(name)
+  };
+}
+
+function createDocument(catalogId: number) {
+  return createTestSearchResult({ id: catalogId, catalogId, source: `/docs/${catalogId}.pdf` });
+}
+
+function valueOf(result: Awaited<ReturnType<ConceptPathService['findPaths']>>): ConceptPathResult {
+  expect(isOk(result)).toBe(true);
+  return (result as { ok: true; value: ConceptPathResult }).value;
+}
+
+describe('ConceptPathService', () => {
+  let conceptRepo: FakeConceptRepository;
+  let service: ConceptPathService;
+
+  beforeEach(() => {
+    // SETUP - a short lexical route and a longer co-occurrence route from
+    // event sourcing to cqrs; cqrs lists its link to aggregates itself
+    conceptRepo = new FakeConceptRepository([
+      createConcept('event sourcing', [1, 2], ['domain events'], ['event-driven architecture']),
+      createConcept('domain events', [1, 2, 3], ['aggregates']),
+      createConcept('aggregates', [3, 4]),
+      createConcept('event-driven architecture', [5, 6], ['cqrs']),
+      createConcept('cqrs', [3, 4, 5], ['aggregates']),
+      createConcept('typescript', [7])
+    ]);
+    const catalogRepo = new FakeCatalogRepository([1, 2, 3, 4, 5, 6, 7].map(createDocument));
+    service = new ConceptPathService(conceptRepo, catalogRepo);
+  });
+
+  it('should return the shortest paths first with the documents of each hop', async () => {
+    // EXERCISE
+    const result = await service.findPaths({ from: 'event sourcing', to: 'cqrs' });
+
+    // VERIFY
+    const { from, to, mode, paths } = valueOf(result);
+    expect({ from, to, mode }).toEqual({ from: 'event sourcing', to: 'cqrs', mode: 'shortest' });
+    expect(paths.map(path => path.concepts)).toEqual([
+      ['event sourcing', 'event-driven architecture', 'cqrs'],
+      ['event sourcing', 'domain events', 'aggregates', 'cqrs']
+    ]);
+    const [lexical, cooccurrence] = paths[0].hops;
+    expect(lexical).toMatchObject({
+      from: 'event sourcing',
+      to: 'event-driven architecture',
+      relations: ['lexical'],
+      strength: MIN_LINK_STRENGTH,
+      documents: [],
+      documentCount: 0
+    });
+    expect(cooccurrence).toMatchObject({ relations: ['co-occurrence'], strength: 0.25, documentCount: 1 });
+    expect(cooccurrence.documents.map(document => document.source)).toEqual(['/docs/5.pdf']);
+    expect(paths[0].strength).toBeCloseTo(MIN_LINK_STRENGTH * 0.25);
+  });
+
+  it('should rank by strength alone in strongest mode', async () => {
+    // EXERCISE
+    const result = await service.findPaths({ from: 'event sourcing', to: 'cqrs', mode: 'strongest' });
+
+    // VERIFY
+    const { paths } = valueOf(result);
+    expect(paths[0].concepts).toEqual(['event sourcing', 'domain events', 'aggregates', 'cqrs']);
+    expect(paths[0].strength).toBeCloseTo((2 / 3) * (1 / 4) * (2 / 3));
+    expect(paths[0].hops[0].documents.map(document => document.catalogId)).toEqual([1, 2]);
+    expect(paths[0].hops[2]).toMatchObject({ from: 'aggregates', to: 'cqrs', relations: ['co-occurrence'] });
+    expect(paths[1].concepts).toEqual(['event sourcing', 'event-driven architecture', 'cqrs']);
+  });
+
+  it('should respect the hop limit and the result limit', async () => {
+    // EXERCISE
+    const withinTwoHops = valueOf(await service.findPaths({ from: 'event sourcing', to: 'cqrs', maxHops: 2 }));
+    const withinOneHop = valueOf(await service.findPaths({ from: 'event sourcing', to: 'cqrs', maxHops: 1 }));
+    const best = valueOf(await service.findPaths({ from: 'event sourcing', to: 'cqrs', mode: 'strongest', limit: 1 }));
+
+    // VERIFY
+    expect(withinTwoHops.paths.map(path => path.hops.length)).toEqual([2]);
+    expect(withinOneHop.paths).toEqual([]);
+    expect(best.paths).toHaveLength(1);
+  });
+
+  it('should return no paths between unconnected concepts', async () => {
+    // EXERCISE
+    const result = await service.findPaths({ from: 'typescript', to: 'cqrs' });
+
+    // VERIFY
+    expect(valueOf(result).paths).toEqual([]);
+  });
+
+  it('should report an unknown concept', async () => {
+    // EXERCISE
+    const result = await service.findPaths({ from: 'event sourcing', to: 'saga pattern' });
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toEqual({ type: 'concept_not_found', concept: 'saga pattern' });
+    }
+  });
+
+  it('should reject a path from a concept to itself', async () => {
+    // EXERCISE
+    const result = await service.findPaths({ from: 'CQRS', to: 'cqrs' });
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.type).toBe('validation');
+    }
+  });
+
+  it('should report database failures', async () => {
+    // SETUP
+    conceptRepo.findByIds = async () => {
+      throw new DatabaseError('Failed to find concepts for 2 IDs', 'query');
+    };
+
+    // EXERCISE
+    const result = await service.findPaths({ from: 'event sourcing', to: 'cqrs' });
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toEqual({ type: 'database', message: 'Failed to find concepts for 2 IDs' });
+    }
+  });
+});
@@ -17,11 +17,12 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ConceptSearchService } from '../concept-search-service.js';
 import { ChunkRepository } from '../../interfaces/repositories/chunk-repository.js';
-import { ConceptRepository } from '../../interfaces/repositories/concept-repository.js';
+import { ConceptRepository, ScoredConcept } from '../../interfaces/repositories/concept-repository.js';
 import { CatalogRepository } from '../../interfaces/repositories/catalog-repository.js';
 import { Chunk, Concept } from '../../models/index.js';
 import type { Option } from '../../functional/index.js';
 import { fromNullable, None } from '../../functional/index.js';
+import { createTestSearchExplanation } from '../../../__tests__/test-helpers/test-data.js';
 
 /**
  * Mock ChunkRepository for testing
@@ -43,10 +44,26 @@ class MockChunkRepository implements ChunkRepository {
     return Promise.resolve([]);
   }
 
+  async searchWithCandidates(_query: { text: string }) {
+    return Promise.resolve({ results: [], candidates: [] });
+  }
+
+  async explainSearch(_query: { text: string }) {
+    return Promise.resolve(createTestSearchExplanation());
+  }
+
   async findByCatalogId(_catalogId: number, _limit: number): Promise<Chunk[]> {
     return Promise.resolve([]);
   }
 
+  async findNeighbours(_chunkId: number, _before: number, _after: number) {
+    return Promise.resolve(None());
+  }
+
+  async findByPassage(_passage: string, _limit: number) {
+    return Promise.resolve([]);
+  }
+
   async countChunks(): Promise<number> {
     return Promise.resolve(0);
   }
@@ -71,6 +88,10 @@ class MockConceptRepository implements ConceptRepository {
     return Promise.resolve(None());
   }
 
+  async findByIds(_ids: number[]): Promise<Concept[]> {
+    return Promise.resolve([]);
+  }
+
   async findByName(conceptName: string): Promise<Option<Concept>> {
     const conceptLower = conceptName.toLowerCase();
     const concept = this.concepts.get(conceptLower);
@@ -81,7 +102,7 @@ class MockConceptRepository implements ConceptRepository {
     return Promise.resolve([]);
   }
 
-  async searchConcepts(_queryText: string, _limit: number): Promise<Concept[]> {
+  async searchConcepts(_queryText: string, _limit: number): Promise<ScoredConcept[]> {
     return Promise.resolve([]);
   }
 
@@ -0,0 +1,74 @@
+/**
+ * Unit Tests for the Facet Counter
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { countFacets } from '../facet-counter.js';
+import { createTestSearchResult } from '../../../__tests__/test-helpers/index.js';
+
+const documents = [
+  createTestSearchResult({
+    catalogId: 1,
+    categoryNames: ['databases', 'distributed systems'],
+    author: 'Martin Kleppmann',
+    year: 2017,
+    documentType: 'book'
+  }),
+  createTestSearchResult({
+    catalogId: 2,
+    categoryNames: ['distributed systems'],
+    author: 'Leslie Lamport',
+    year: 1998,
+    documentType: 'paper',
+    venue: 'ACM TOCS'
+  }),
+  createTestSearchResult({
+    catalogId: 3,
+    categoryNames: ['distributed systems', 'distributed systems'],
+    author: '  ',
+    year: 2017,
+    documentType: 'paper',
+    venue: 'PODC'
+  })
+];
+
+describe('countFacets', () => {
+  it('should count each document once per distinct value, most frequent first', () => {
+    // EXERCISE
+    const facets = countFacets(documents, ['category', 'author', 'year', 'document_type', 'venue']);
+
+    // VERIFY
+    expect(facets).toEqual({
+      category: [{ value: 'distributed systems', count: 3 }, { value: 'databases', count: 1 }],
+      author: [{ value: 'Leslie Lamport', count: 1 }, { value: 'Martin Kleppmann', count: 1 }],
+      year: [{ value: 2017, count: 2 }, { value: 1998, count: 1 }],
+      document_type: [{ value: 'paper', count: 2 }, { value: 'book', count: 1 }],
+      venue: [{ value: 'ACM TOCS', count: 1 }, { value: 'PODC', count: 1 }]
+    });
+  });
+
+  it('should count a document once per hit when repeated', () => {
+    // EXERCISE
+    const facets = countFacets([documents[1], documents[1], documents[0]], ['author']);
+
+    // VERIFY
+    expect(facets).toEqual({
+      author: [{ value: 'Leslie Lamport', count: 2 }, { value: 'Martin Kleppmann', count: 1 }]
+    });
+  });
+
+  it('should return only the requested fields, capped at the maximum values', () => {
+    // EXERCISE
+    const facets = countFacets(documents, ['year', 'year'], 1);
+
+    // VERIFY
+    expect(facets).toEqual({ year: [{ value: 2017, count: 2 }] });
+  });
+
+  it('should return empty counts without documents', () => {
+    // EXERCISE & VERIFY
+    expect(countFacets([], ['venue'])).toEqual({ venue: [] });
+  });
+});
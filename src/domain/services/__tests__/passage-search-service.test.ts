@@ -0,0 +1,89 @@
+/**
+ * Unit Tests for PassageSearchService
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PassageSearchService } from '../passage-search-service.js';
+import { isErr, isOk } from '../../functional/index.js';
+import { DatabaseError } from '../../exceptions/index.js';
+import { PassageMatch } from '../../models/index.js';
+import { FakeChunkRepository, createTestChunk } from '../../../__tests__/test-helpers/index.js';
+
+describe('PassageSearchService', () => {
+  let chunkRepo: FakeChunkRepository;
+  let service: PassageSearchService;
+
+  beforeEach(() => {
+    // SETUP
+    chunkRepo = new FakeChunkRepository([
+      createTestChunk({
+        id: 1,
+        text: 'The single responsibility principle states that a module should have one, and only one, reason to change.',
+        pageNumber: 12
+      }),
+      createTestChunk({
+        id: 2,
+        text: 'A module should be responsible to one actor, the group of users that want the change.',
+        pageNumber: 13
+      }),
+      createTestChunk({ id: 3, text: 'Quantum chromodynamics describes the strong interaction.' })
+    ]);
+    service = new PassageSearchService(chunkRepo);
+  });
+
+  it('should rank the chunk containing a quote first', async () => {
+    // EXERCISE
+    const result = await service.findPassage({ passage: 'a module should have one, and only one, reason to change' });
+
+    // VERIFY
+    expect(isOk(result)).toBe(true);
+    const matches = (result as { ok: true; value: PassageMatch[] }).value;
+    expect(matches.map(m => m.chunk.id)).toEqual([1, 2]);
+    expect(matches[0].shingleScore).toBe(1);
+    expect(matches[0].alignment).toMatchObject({ coverage: 1, exact: true });
+    expect(matches[0].score).toBeCloseTo(0.4 + 0.35);
+    expect(matches[1].score).toBeLessThan(matches[0].score);
+  });
+
+  it('should respect the limit', async () => {
+    // EXERCISE
+    const result = await service.findPassage({ passage: 'a module should have one reason to change', limit: 1 });
+
+    // VERIFY
+    expect((result as { ok: true; value: PassageMatch[] }).value).toHaveLength(1);
+  });
+
+  it('should return no matches when nothing matches', async () => {
+    // EXERCISE
+    const result = await service.findPassage({ passage: 'event sourcing aggregates' });
+
+    // VERIFY
+    expect(isOk(result)).toBe(true);
+    expect((result as { ok: true; value: PassageMatch[] }).value).toEqual([]);
+  });
+
+  it('should return a validation error for an empty passage', async () => {
+    // EXERCISE
+    const result = await service.findPassage({ passage: '' });
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    expect((result as any).error.type).toBe('validation');
+  });
+
+  it('should return a database error when the lookup fails', async () => {
+    // SETUP
+    chunkRepo.findByPassage = async () => {
+      throw new DatabaseError('Failed to find chunks by passage', 'search');
+    };
+
+    // EXERCISE
+    const result = await service.findPassage({ passage: 'one reason to change' });
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    expect((result as any).error.type).toBe('database');
+  });
+});
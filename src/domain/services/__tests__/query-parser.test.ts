@@ -0,0 +1,149 @@
+/**
+ * Unit Tests for the Search Query Parser
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isFieldRestriction,
+  isPlainQuery,
+  parseQuery,
+  parseYearRange,
+  queryFreeText,
+  queryPhrases,
+  rewriteLooseTerms
+} from '../query-parser.js';
+
+describe('parseQuery', () => {
+  it('should parse plain words into optional terms', () => {
+    // EXERCISE
+    const query = parseQuery('Event Sourcing');
+
+    // VERIFY
+    expect(query.clauses).toEqual([
+      { occur: 'should', node: { type: 'term', text: 'event', words: ['event'] } },
+      { occur: 'should', node: { type: 'term', text: 'sourcing', words: ['sourcing'] } }
+    ]);
+    expect(isPlainQuery(query)).toBe(true);
+  });
+
+  it('should parse phrases, exclusions and field prefixes', () => {
+    // EXERCISE
+    const query = parseQuery('"event sourcing" -kafka author:fowler');
+
+    // VERIFY
+    expect(query.clauses).toEqual([
+      { occur: 'should', node: { type: 'phrase', text: 'event sourcing', words: ['event', 'sourcing'] } },
+      { occur: 'must_not', node: { type: 'term', text: 'kafka', words: ['kafka'] } },
+      { occur: 'should', node: { type: 'term', text: 'fowler', words: ['fowler'], field: 'author' } }
+    ]);
+    expect(isPlainQuery(query)).toBe(false);
+  });
+
+  it('should join OR alternatives into the preceding clause', () => {
+    // EXERCISE
+    const query = parseQuery('+kafka OR "rabbit mq" streaming');
+
+    // VERIFY
+    expect(query.clauses).toHaveLength(2);
+    expect(query.clauses[0].occur).toBe('must');
+    expect(query.clauses[0].node).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'term', text: 'kafka', words: ['kafka'] },
+        { type: 'phrase', text: 'rabbit mq', words: ['rabbit', 'mq'] }
+      ]
+    });
+  });
+
+  it('should apply a field prefix to every alternative of a group', () => {
+    // EXERCISE
+    const query = parseQuery('-category:(databases OR "distributed systems")');
+
+    // VERIFY
+    expect(query.clauses).toHaveLength(1);
+    expect(query.clauses[0].occur).toBe('must_not');
+    expect(isFieldRestriction(query.clauses[0], ['category'])).toBe(true);
+    expect(isFieldRestriction(query.clauses[0], ['author'])).toBe(false);
+  });
+
+  it('should read field prefixes case-insensitively', () => {
+    expect(parseQuery('Title:Refactoring').clauses[0].node)
+      .toEqual({ type: 'term', text: 'refactoring', words: ['refactoring'], field: 'title' });
+  });
+
+  it('should keep unknown and malformed prefixes as terms', () => {
+    // EXERCISE
+    const query = parseQuery('http://example.org year:soon');
+
+    // VERIFY
+    expect(query.clauses.map(c => c.node)).toEqual([
+      { type: 'term', text: 'http://example.org', words: ['http', 'example', 'org'] },
+      { type: 'term', text: 'year:soon', words: ['year', 'soon'] }
+    ]);
+  });
+
+  it('should tolerate unbalanced quotes, parentheses and dangling operators', () => {
+    expect(queryFreeText(parseQuery('"event sourcing'))).toBe('event sourcing');
+    expect(queryFreeText(parseQuery('(kafka OR'))).toBe('kafka');
+    expect(queryFreeText(parseQuery(') - + OR c++ -'))).toBe('c++');
+    expect(parseQuery('   ').clauses).toEqual([]);
+  });
+
+  it('should treat lowercase or as a word', () => {
+    expect(parseQuery('this or that').clauses).toHaveLength(3);
+  });
+});
+
+describe('queryFreeText', () => {
+  it('should drop excluded terms and field restrictions', () => {
+    expect(queryFreeText(parseQuery('"clean code" +tests -java author:martin'))).toBe('clean code tests');
+  });
+
+  it('should fall back to title and concept values without free text', () => {
+    expect(queryFreeText(parseQuery('title:refactoring author:fowler concept:"code smell"'))).toBe('refactoring code smell');
+  });
+});
+
+describe('queryPhrases', () => {
+  it('should return unfielded phrases that are not excluded', () => {
+    // EXERCISE
+    const phrases = queryPhrases(parseQuery('"event sourcing" -"two phase commit" title:"domain driven"'));
+
+    // VERIFY
+    expect(phrases.map(p => p.text)).toEqual(['event sourcing']);
+  });
+});
+
+describe('rewriteLooseTerms', () => {
+  it('should rewrite only unquoted terms that are neither excluded nor fielded', () => {
+    // EXERCISE
+    const rewritten = rewriteLooseTerms(
+      'Saga +saga "saga steps" -saga author:saga (retry OR saga) -(saga retry) title:(saga)',
+      term => term.toUpperCase()
+    );
+
+    // VERIFY
+    expect(rewritten).toBe('SAGA +SAGA "saga steps" -saga author:saga (RETRY OR SAGA) -(saga retry) title:(saga)');
+  });
+
+  it('should ignore modifiers inside a group', () => {
+    expect(rewriteLooseTerms('(-saga retry)', term => term.toUpperCase())).toBe('(-SAGA RETRY)');
+  });
+});
+
+describe('parseYearRange', () => {
+  it('should parse years and ranges', () => {
+    expect(parseYearRange('2015')).toEqual({ from: 2015, to: 2015 });
+    expect(parseYearRange('2010..2015')).toEqual({ from: 2010, to: 2015 });
+    expect(parseYearRange('2010..')).toEqual({ from: 2010, to: undefined });
+    expect(parseYearRange('..2015')).toEqual({ from: undefined, to: 2015 });
+  });
+
+  it('should reject malformed values', () => {
+    expect(parseYearRange('soon')).toBeUndefined();
+    expect(parseYearRange('..')).toBeUndefined();
+    expect(parseYearRange('2010-2015')).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for SimilarDocumentsService
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimilarDocumentsService, SimilarDocumentsResult } from '../similar-documents-service.js';
+import { isErr, isOk } from '../../functional/index.js';
+import { DatabaseError } from '../../exceptions/index.js';
+import { FakeCatalogRepository, createTestSearchResult } from '../../../__tests__/test-helpers/index.js';
+
+function createDocument(catalogId: number, embeddings: number[], conceptIds: number[], categoryIds: number[]) {
+  return createTestSearchResult({
+    id: catalogId,
+    catalogId,
+    source: `/docs/${catalogId}.pdf`,
+    embeddings,
+    documentConceptIds: conceptIds,
+    conceptNames: conceptIds.map(id => `concept ${id}`),
+    categoryIds,
+    categoryNames: categoryIds.map(id => `category ${id}`)
+  });
+}
+
+describe('SimilarDocumentsService', () => {
+  let catalogRepo: FakeCatalogRepository;
+  let service: SimilarDocumentsService;
+
+  beforeEach(() => {
+    // SETUP
+    catalogRepo = new FakeCatalogRepository([
+      createDocument(1, [1, 0, 0], [10, 11, 12, 13], [100]),
+      createDocument(2, [1, 0, 0], [10, 11, 12, 13], [100]),
+      createDocument(3, [0.6, 0.8, 0], [10, 11], [200]),
+      createDocument(4, [0, 1, 0], [20], [200]),
+      createDocument(5, [-1, 0, 0], [], [])
+    ]);
+    service = new SimilarDocumentsService(catalogRepo);
+  });
+
+  it('should rank other documents by vector, concept and category similarity', async () => {
+    // EXERCISE
+    const result = await service.findSimilarDocuments({ catalogId: 1 });
+
+    // VERIFY
+    expect(isOk(result)).toBe(true);
+    const { document, similar } = (result as { ok: true; value: SimilarDocumentsResult }).value;
+    expect(document.catalogId).toBe(1);
+    expect(similar.map(s => s.document.catalogId)).toEqual([2, 3]);
+    expect(similar[0].score).toBeCloseTo(1);
+    expect(similar[1]).toMatchObject({
+      vectorScore: 0.6,
+      conceptScore: 0.5,
+      categoryScore: 0,
+      sharedConcepts: ['concept 10', 'concept 11'],
+      sharedCategories: []
+    });
+    expect(similar[1].score).toBeCloseTo(0.5 * 0.6 + 0.35 * 0.5);
+  });
+
+  it('should find the document by source and respect the limit', async () => {
+    // EXERCISE
+    const result = await service.findSimilarDocuments({ source: '/docs/3.pdf', limit: 1 });
+
+    // VERIFY
+    expect(isOk(result)).toBe(true);
+    const { similar } = (result as { ok: true; value: SimilarDocumentsResult }).value;
+    expect(similar).toHaveLength(1);
+    expect(similar[0].document.catalogId).toBe(4);
+    expect(similar[0].sharedCategories).toEqual(['category 200']);
+  });
+
+  it('should return not_found for an unknown document', async () => {
+    // EXERCISE
+    const result = await service.findSimilarDocuments({ source: '/docs/missing.pdf' });
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    expect((result as any).error).toEqual({ type: 'not_found', resource: '/docs/missing.pdf' });
+  });
+
+  it('should return a validation error without a document', async () => {
+    // EXERCISE
+    const result = await service.findSimilarDocuments({});
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    expect((result as any).error.type).toBe('validation');
+  });
+
+  it('should return a database error when the vector search fails', async () => {
+    // SETUP
+    catalogRepo.findByVector = async () => {
+      throw new DatabaseError('Failed to find catalog entries by vector', 'search');
+    };
+
+    // EXERCISE
+    const result = await service.findSimilarDocuments({ catalogId: 1 });
+
+    // VERIFY
+    expect(isErr(result)).toBe(true);
+    expect((result as any).error.type).toBe('database');
+  });
+});
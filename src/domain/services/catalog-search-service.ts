@@ -12,9 +12,19 @@
  */
 
 import { CatalogRepository } from '../interfaces/repositories/catalog-repository.js';
-import { SearchResult } from '../models/index.js';
+import {
+  FACET_FIELDS,
+  FacetField,
+  FacetedSearchResults,
+  SearchExplanation,
+  SearchFilters,
+  SearchQuery,
+  SearchResult
+} from '../models/index.js';
 import { Result, Ok, Err } from '../functional/result.js';
 import { InputValidator } from './validation/InputValidator.js';
+import { countFacets } from './facet-counter.js';
+import type { WeightProfileName } from '../interfaces/services/hybrid-search-service.js';
 
 /**
  * Parameters for catalog search.
@@ -28,6 +38,15 @@ export interface CatalogSearchParams {
   
   /** Enable debug output */
   debug?: boolean;
+  
+  /** Named signal weight profile (default: configured weights) */
+  weightProfile?: WeightProfileName;
+  
+  /** Structured metadata filters */
+  filters?: SearchFilters;
+  
+  /** Facets counted by searchCatalogWithFacets (default: all facet fields) */
+  facets?: FacetField[];
 }
 
 /**
@@ -86,9 +105,75 @@ export class CatalogSearchService {
   async searchCatalog(
     params: Partial<CatalogSearchParams>
   ): Promise<Result<SearchResult[], SearchError>> {
+    return this.runCatalogQuery(params, query => this.catalogRepo.search(query));
+  }
+  
+  /**
+   * Search the document catalog and count facets over all matching documents.
+   * 
+   * Runs the same search as {@link searchCatalog} and counts the
+   * requested facet values over every document matching the query text and
+   * filters, not only the returned ones, so the search can be narrowed
+   * with a filter on one of the values. Documents that are only near the
+   * query vector, without any of its terms, do not count.
+   * 
+   * @param params - Search parameters, with the facets to count
+   * @returns Result containing search results and facet counts, or error
+   * 
+   * @example
+   * ```typescript
+   * const result = await service.searchCatalogWithFacets({ text: 'consensus', limit: 5, facets: ['year'] });
+   * if (result.ok) {
+   *   console.log(result.value.facets.year);  // [{ value: 2019, count: 4 }, ...]
+   * }
+   * ```
+   */
+  async searchCatalogWithFacets(
+    params: Partial<CatalogSearchParams>
+  ): Promise<Result<FacetedSearchResults, SearchError>> {
+    return this.runCatalogQuery(params, async query => {
+      const { results, candidates } = await this.catalogRepo.searchWithCandidates(query);
+      return { results, facets: countFacets(candidates, params.facets ?? FACET_FIELDS) };
+    });
+  }
+  
+  /**
+   * Explain how a catalog search ranks its results.
+   * 
+   * Takes the same parameters as {@link searchCatalog} and runs the same
+   * search, returning the trace of the ranking pipeline.
+   * 
+   * @param params - Search parameters
+   * @returns Result containing the search trace or error
+   * 
+   * @example
+   * ```typescript
+   * const result = await service.explainCatalog({ text: 'microservices', limit: 5 });
+   * if (result.ok) {
+   *   console.log(result.value.expandedTerms);
+   * }
+   * ```
+   */
+  async explainCatalog(
+    params: Partial<CatalogSearchParams>
+  ): Promise<Result<SearchExplanation, SearchError>> {
+    return this.runCatalogQuery(params, query => this.catalogRepo.explainSearch(query));
+  }
+  
+  /**
+   * Validate catalog search parameters and run `run` with the repository
+   * query, reporting failures as search errors.
+   */
+  private async runCatalogQuery<T>(
+    params: Partial<CatalogSearchParams>,
+    run: (query: SearchQuery) => Promise<T>
+  ): Promise<Result<T, SearchError>> {
     // Validate parameters
     try {
       this.validator.validateCatalogSearch(params);
+      this.validator.validateWeightProfile(params.weightProfile);
+      this.validator.validateSearchFilters(params.filters);
+      this.validator.validateFacets(params.facets);
     } catch (error) {
       return Err({
         type: 'validation',
@@ -101,10 +186,13 @@ export class CatalogSearchService {
     
     // Execute search with error handling
     try {
-      const results = await this.catalogRepo.search({
+      const results = await run({
         text: validParams.text,
         limit: validParams.limit,
-        debug: validParams.debug || false
+        debug: validParams.debug || false,
+        rerank: true,
+        weightProfile: validParams.weightProfile,
+        filters: validParams.filters
       });
       
       return Ok(results);
@@ -13,10 +13,32 @@
 
 import { ChunkRepository } from '../interfaces/repositories/chunk-repository.js';
 import { CatalogRepository } from '../interfaces/repositories/catalog-repository.js';
-import { Chunk, SearchResult } from '../models/index.js';
+import {
+  Chunk,
+  ChunkContext,
+  FACET_FIELDS,
+  FacetField,
+  FacetedSearchResults,
+  QueryClause,
+  QueryField,
+  QueryOperand,
+  SearchExplanation,
+  SearchFilters,
+  SearchQuery,
+  SearchResult
+} from '../models/index.js';
 import { Result, Ok, Err } from '../functional/result.js';
 import { InputValidator } from './validation/InputValidator.js';
+import { DEFAULT_MMR_LAMBDA, type WeightProfileName } from '../interfaces/services/hybrid-search-service.js';
 import { isSome } from '../functional/option.js';
+import { clauseOperands, isFieldRestriction, parseQuery, parseYearRange } from './query-parser.js';
+import { countFacets } from './facet-counter.js';
+
+/**
+ * Query fields that chunks lack columns for: restrictions on them are
+ * resolved to catalog IDs.
+ */
+const DOCUMENT_QUERY_FIELDS: readonly QueryField[] = ['author', 'year', 'category'];
 
 /**
  * Parameters for broad chunk search (across all documents).
@@ -30,6 +52,24 @@ export interface BroadChunkSearchParams {
   
   /** Enable debug output */
   debug?: boolean;
+  
+  /** Named signal weight profile (default: configured weights) */
+  weightProfile?: WeightProfileName;
+  
+  /** Structured metadata filters (document metadata is resolved via the catalog) */
+  filters?: SearchFilters;
+  
+  /** Re-order results by Maximal Marginal Relevance (default: false) */
+  diversify?: boolean;
+  
+  /** MMR relevance/diversity trade-off in [0, 1] (default: DEFAULT_MMR_LAMBDA) */
+  mmrLambda?: number;
+  
+  /** Keep at most this many chunks per document (default: no cap) */
+  maxPerDocument?: number;
+  
+  /** Facets counted by searchBroadWithFacets (default: all facet fields) */
+  facets?: FacetField[];
 }
 
 /**
@@ -65,6 +105,23 @@ export interface CatalogIdChunkSearchParams {
   debug?: boolean;
 }
 
+/**
+ * Parameters for reading the context around a chunk.
+ */
+export interface ChunkContextParams {
+  /** ID of the chunk */
+  chunkId: number;
+  
+  /** Number of preceding chunks (default: 2) */
+  before?: number;
+  
+  /** Number of following chunks (default: 2) */
+  after?: number;
+}
+
+/** Default number of neighbouring chunks on each side of a chunk */
+export const DEFAULT_CONTEXT_CHUNKS = 2;
+
 /**
  * Search error types
  */
@@ -115,44 +172,81 @@ export class ChunkSearchService {
   async searchBroad(
     params: Partial<BroadChunkSearchParams>
   ): Promise<Result<SearchResult[], SearchError>> {
-    // Validate parameters
-    try {
-      this.validator.validateSearchQuery(params);
-    } catch (error) {
+    return this.runBroadQuery(params, async query => Ok(query ? await this.chunkRepo.search(query) : []));
+  }
+  
+  /**
+   * Search across all chunks and count facets over all matching chunks.
+   * 
+   * Runs the same search as {@link searchBroad} and counts the
+   * requested facet values of the documents of every chunk matching the
+   * query text and filters; chunks only near the query vector do not count.
+   * Counts are per chunk: a document with three matching chunks counts three
+   * times. Requires the catalog repository.
+   * 
+   * @param params - Search parameters, with the facets to count
+   * @returns Result containing search results and facet counts, or error
+   * 
+   * @example
+   * ```typescript
+   * const result = await service.searchBroadWithFacets({ text: 'event sourcing', limit: 10, facets: ['category'] });
+   * if (result.ok) {
+   *   console.log(result.value.facets.category);  // [{ value: 'software architecture', count: 17 }, ...]
+   * }
+   * ```
+   */
+  async searchBroadWithFacets(
+    params: Partial<BroadChunkSearchParams>
+  ): Promise<Result<FacetedSearchResults, SearchError>> {
+    const catalogRepo = this.catalogRepo;
+    if (!catalogRepo) {
       return Err({
         type: 'validation',
-        field: 'params',
-        message: error instanceof Error ? error.message : String(error)
+        field: 'facets',
+        message: 'Facets require a catalog repository'
       });
     }
     
-    const validParams = params as BroadChunkSearchParams;
-    
-    // Execute search with error handling
-    try {
-      const results = await this.chunkRepo.search({
-        text: validParams.text,
-        limit: validParams.limit,
-        debug: validParams.debug || false
-      });
-      
-      return Ok(results);
-    } catch (error) {
-      if (error instanceof Error) {
-        // Check error type by name or message
-        if (error.constructor.name === 'DatabaseError') {
-          return Err({
-            type: 'database',
-            message: error.message
-          });
-        }
+    const fields = params.facets ?? FACET_FIELDS;
+    return this.runBroadQuery(params, async query => {
+      if (!query) {
+        return Ok({ results: [], facets: countFacets([], fields) });
       }
-      
-      return Err({
-        type: 'unknown',
-        message: error instanceof Error ? error.message : String(error)
-      });
-    }
+      // Chunks only reference their document: count the document of each chunk
+      const { results, candidates } = await this.chunkRepo.searchWithCandidates(query);
+      const documents = new Map((await catalogRepo.findByIds(candidates.map(chunk => chunk.catalogId)))
+        .map(document => [document.catalogId, document]));
+      const hits = candidates
+        .map(chunk => documents.get(chunk.catalogId))
+        .filter((document): document is SearchResult => document !== undefined);
+      return Ok({ results, facets: countFacets(hits, fields) });
+    });
+  }
+  
+  /**
+   * Explain how a broad chunk search ranks its results.
+   * 
+   * Takes the same parameters as {@link searchBroad} and runs the same
+   * search, returning the trace of the ranking pipeline.
+   * 
+   * @param params - Search parameters
+   * @returns Result containing the search trace, or not_found when the
+   *   filters match no documents
+   * 
+   * @example
+   * ```typescript
+   * const result = await service.explainBroad({ text: 'event sourcing', limit: 10 });
+   * if (result.ok) {
+   *   console.log(result.value.weights, result.value.results);
+   * }
+   * ```
+   */
+  async explainBroad(
+    params: Partial<BroadChunkSearchParams>
+  ): Promise<Result<SearchExplanation, SearchError>> {
+    return this.runBroadQuery(params, async query => query
+      ? Ok(await this.chunkRepo.explainSearch(query))
+      : Err({ type: 'not_found', resource: 'documents matching the filters' }));
   }
   
   /**
@@ -296,5 +390,199 @@ export class ChunkSearchService {
       });
     }
   }
+  
+  /**
+   * Read a chunk together with its neighbouring chunks in the document's
+   * reading order ("small-to-big" retrieval).
+   * 
+   * @param params - Chunk ID and number of neighbours on each side
+   * @returns Result containing the chunk context, or not_found for an unknown chunk
+   * 
+   * @example
+   * ```typescript
+   * const result = await service.getChunkContext({ chunkId: 3847293847, before: 1, after: 3 });
+   * if (isOk(result)) {
+   *   const { before, chunk, after } = result.value;
+   * }
+   * ```
+   */
+  async getChunkContext(
+    params: Partial<ChunkContextParams>
+  ): Promise<Result<ChunkContext, SearchError>> {
+    try {
+      this.validator.validateChunkContext(params);
+    } catch (error) {
+      return Err({
+        type: 'validation',
+        field: 'params',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+    
+    const { chunkId, before = DEFAULT_CONTEXT_CHUNKS, after = DEFAULT_CONTEXT_CHUNKS } = params as ChunkContextParams;
+    
+    try {
+      const contextOpt = await this.chunkRepo.findNeighbours(chunkId, before, after);
+      if (!isSome(contextOpt)) {
+        return Err({
+          type: 'not_found',
+          resource: `chunk ${chunkId}`
+        });
+      }
+      return Ok(contextOpt.value);
+    } catch (error) {
+      if (error instanceof Error && error.constructor.name === 'DatabaseError') {
+        return Err({
+          type: 'database',
+          message: error.message
+        });
+      }
+      
+      return Err({
+        type: 'unknown',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  
+  /**
+   * Validate broad search parameters and run `run` with the repository
+   * query they resolve to (undefined when the filters match no documents),
+   * reporting failures as search errors.
+   */
+  private async runBroadQuery<T>(
+    params: Partial<BroadChunkSearchParams>,
+    run: (query: SearchQuery | undefined) => Promise<Result<T, SearchError>>
+  ): Promise<Result<T, SearchError>> {
+    // Validate parameters
+    try {
+      this.validator.validateSearchQuery(params);
+      this.validator.validateWeightProfile(params.weightProfile);
+      this.validator.validateSearchFilters(params.filters);
+      this.validator.validateDiversification(params);
+      this.validator.validateFacets(params.facets);
+    } catch (error) {
+      return Err({
+        type: 'validation',
+        field: 'params',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+    
+    const validParams = params as BroadChunkSearchParams;
+    const documentClauses = parseQuery(validParams.text).clauses
+      .filter(clause => isFieldRestriction(clause, DOCUMENT_QUERY_FIELDS));
+    
+    if (validParams.filters && hasDocumentMetadataFilters(validParams.filters) && !this.catalogRepo) {
+      return Err({
+        type: 'validation',
+        field: 'filters',
+        message: 'Document metadata filters require a catalog repository'
+      });
+    }
+    if (documentClauses.length > 0 && !this.catalogRepo) {
+      return Err({
+        type: 'validation',
+        field: 'text',
+        message: 'author:, year: and category: query fields require a catalog repository'
+      });
+    }
+    
+    // Execute search with error handling
+    try {
+      // Chunks only reference their document: resolve metadata filters and
+      // document query fields to catalog IDs
+      const filters = await this.resolveChunkFilters(validParams.filters, documentClauses);
+      if (filters?.catalogIds?.length === 0) {
+        return await run(undefined);
+      }
+      
+      return await run({
+        text: validParams.text,
+        limit: validParams.limit,
+        debug: validParams.debug || false,
+        rerank: true,  // Broad search benefits most from second-stage reranking
+        weightProfile: validParams.weightProfile,
+        mmrLambda: validParams.diversify ? validParams.mmrLambda ?? DEFAULT_MMR_LAMBDA : undefined,
+        maxPerDocument: validParams.maxPerDocument,
+        filters
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        // Check error type by name or message
+        if (error.constructor.name === 'DatabaseError') {
+          return Err({
+            type: 'database',
+            message: error.message
+          });
+        }
+      }
+      
+      return Err({
+        type: 'unknown',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  
+  /**
+   * Reduce filters and document query field restrictions to the catalog
+   * IDs chunk search can apply.
+   */
+  private async resolveChunkFilters(
+    filters: SearchFilters | undefined,
+    documentClauses: QueryClause[]
+  ): Promise<SearchFilters | undefined> {
+    let catalogIds = filters && hasDocumentMetadataFilters(filters)
+      ? await this.catalogRepo!.findIdsByFilters(filters)
+      : filters?.catalogIds;
+    
+    for (const clause of documentClauses) {
+      const clauseIds = await this.findIdsByQueryClause(clause);
+      catalogIds = catalogIds ? catalogIds.filter(id => clauseIds.has(id)) : [...clauseIds];
+    }
+    
+    return catalogIds ? { catalogIds } : undefined;
+  }
+  
+  /**
+   * IDs of the documents matching an `author:`, `year:` or `category:`
+   * restriction (any of its alternatives; none of them when excluded).
+   */
+  private async findIdsByQueryClause(clause: QueryClause): Promise<Set<number>> {
+    const matching = new Set<number>();
+    for (const operand of clauseOperands(clause)) {
+      for (const id of await this.catalogRepo!.findIdsByFilters(operandFilters(operand))) {
+        matching.add(id);
+      }
+    }
+    if (clause.occur !== 'must_not') {
+      return matching;
+    }
+    const allIds = await this.catalogRepo!.findIdsByFilters({});
+    return new Set(allIds.filter(id => !matching.has(id)));
+  }
+}
+
+/**
+ * Metadata filters equivalent to an `author:`, `year:` or `category:` operand.
+ */
+function operandFilters(operand: QueryOperand): SearchFilters {
+  switch (operand.field) {
+    case 'year': {
+      const range = parseYearRange(operand.text);
+      return { yearFrom: range?.from, yearTo: range?.to };
+    }
+    case 'category':
+      return { category: operand.text };
+    default:
+      return { author: operand.text };
+  }
 }
 
+/**
+ * Whether filters restrict document metadata beyond an explicit catalog ID list.
+ */
+function hasDocumentMetadataFilters(filters: SearchFilters): boolean {
+  return Object.entries(filters).some(([key, value]) => key !== 'catalogIds' && value !== undefined);
+}
@@ -0,0 +1,345 @@
+/**
+ * Result-Based Concept Graph Service
+ *
+ * This service builds the concept graph of the library for export to graph
+ * tools: concept nodes linked by co-occurrence (`adjacentIds`) and
+ * lexically (`relatedIds`), optionally with document nodes linked to the
+ * concepts they contain and category nodes linked to their concepts and
+ * documents.
+ *
+ * The graph can be restricted to one category (its documents and the
+ * concepts appearing in them) and to concepts above a minimum weight.
+ *
+ * **Use this when you want to:**
+ * - Visualise the knowledge graph in Gephi or Cytoscape.js
+ * - Analyse the concept graph with external network tools
+ */
+
+import { ConceptRepository } from '../interfaces/repositories/concept-repository.js';
+import { CatalogRepository } from '../interfaces/repositories/catalog-repository.js';
+import {
+  Concept,
+  ConceptGraph,
+  ConceptGraphEdge,
+  ConceptGraphNode,
+  ConceptLinkRelation,
+  SearchResult
+} from '../models/index.js';
+import { Result, Ok, Err } from '../functional/result.js';
+import { InputValidator } from './validation/InputValidator.js';
+import { conceptLinkStrength } from './concept-path-service.js';
+import { hashToId } from '../../infrastructure/utils/hash.js';
+
+/** Order relations are listed in */
+const RELATION_ORDER: ConceptLinkRelation[] = ['co-occurrence', 'lexical'];
+
+/**
+ * Parameters for building the concept graph.
+ */
+export interface ConceptGraphParams {
+  /** Only include the documents of this category and the concepts appearing in them */
+  category?: string;
+
+  /** Only include concepts with at least this weight (0-1, default: 0) */
+  minWeight?: number;
+
+  /** Add a node for each document, linked to its concepts (default: false) */
+  includeDocuments?: boolean;
+
+  /** Add a node for each category, linked to its concepts and documents (default: false) */
+  includeCategories?: boolean;
+}
+
+/**
+ * Error types for building the concept graph.
+ */
+export type ConceptGraphError =
+  | { type: 'validation'; field: string; message: string }
+  | { type: 'category_not_found'; category: string }
+  | { type: 'database'; message: string }
+  | { type: 'unknown'; message: string };
+
+/**
+ * A concept included in the graph, with its documents in the graph.
+ */
+interface GraphConcept {
+  /** Node ID */
+  nodeId: string;
+
+  /** The concept */
+  concept: Concept;
+
+  /** Catalog IDs of the graph's documents containing the concept */
+  documentIds: number[];
+}
+
+/**
+ * Service for building the concept graph of the library.
+ *
+ * Returns Result<T, ConceptGraphError> instead of throwing exceptions,
+ * enabling functional composition and explicit error handling.
+ */
+export class ConceptGraphService {
+  private validator = new InputValidator();
+
+  constructor(
+    private conceptRepo: ConceptRepository,
+    private catalogRepo: CatalogRepository
+  ) {}
+
+  /**
+   * Build the concept graph.
+   *
+   * Loads every concept and the documents in scope. Links are only kept
+   * between concepts that are both in the graph; a link listed by either
+   * concept gives a single undirected edge.
+   *
+   * @param params - Category and weight filters, and the kinds of node to add
+   * @returns Result containing the graph, or category_not_found for a category without documents
+   *
+   * @example
+   * ```typescript
+   * const result = await service.buildGraph({ category: 'software architecture', minWeight: 0.5 });
+   * if (result.ok) {
+   *   console.log(`${result.value.nodes.length} nodes, ${result.value.edges.length} edges`);
+   * }
+   * ```
+   */
+  async buildGraph(params: ConceptGraphParams = {}): Promise<Result<ConceptGraph, ConceptGraphError>> {
+    try {
+      this.validator.validateConceptGraph(params);
+    } catch (error) {
+      return Err({
+        type: 'validation',
+        field: 'params',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const {
+      category,
+      minWeight = 0,
+      includeDocuments = false,
+      includeCategories = false
+    } = params;
+
+    try {
+      const documentIds = await this.catalogRepo.findIdsByFilters(category ? { category } : {});
+      if (category && documentIds.length === 0) {
+        return Err({ type: 'category_not_found', category });
+      }
+      const documents = new Map<number, SearchResult>(
+        (await this.catalogRepo.findByIds(documentIds)).map(document => [document.catalogId, document])
+      );
+
+      const concepts = new Map<number, GraphConcept>();
+      const allConcepts = (await this.conceptRepo.findAll()).sort((a, b) => compareText(a.name, b.name));
+      for (const concept of allConcepts) {
+        const id = conceptId(concept);
+        const inGraph = documentIdsOf(concept).filter(catalogId => documents.has(catalogId));
+        if (concept.weight < minWeight || (category && inGraph.length === 0) || concepts.has(id)) {
+          continue;
+        }
+        concepts.set(id, { nodeId: `concept-${id}`, concept, documentIds: inGraph });
+      }
+
+      return Ok(buildGraph(concepts, documents, includeDocuments, includeCategories));
+    } catch (error) {
+      if (error instanceof Error && error.constructor.name === 'DatabaseError') {
+        return Err({
+          type: 'database',
+          message: error.message
+        });
+      }
+
+      return Err({
+        type: 'unknown',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Nodes and edges of the graph of the selected concepts.
+ */
+function buildGraph(
+  concepts: Map<number, GraphConcept>,
+  documents: Map<number, SearchResult>,
+  includeDocuments: boolean,
+  includeCategories: boolean
+): ConceptGraph {
+  const documentConcepts = new Map<number, number>();
+  const categoryConcepts = new Map<string, Set<GraphConcept>>();
+  for (const graphConcept of concepts.values()) {
+    for (const catalogId of graphConcept.documentIds) {
+      documentConcepts.set(catalogId, (documentConcepts.get(catalogId) ?? 0) + 1);
+      for (const category of categoriesOf(documents.get(catalogId)!)) {
+        categoryConcepts.set(category, (categoryConcepts.get(category) ?? new Set()).add(graphConcept));
+      }
+    }
+  }
+
+  const categoryDocuments = categoryCounts(Array.from(documents.values()));
+
+  const nodes: ConceptGraphNode[] = Array.from(concepts.values()).map(({ nodeId, concept, documentIds }) => ({
+    id: nodeId,
+    kind: 'concept',
+    label: concept.name,
+    weight: concept.weight,
+    documentCount: documentIds.length,
+    category: mainCategory(documentIds.map(catalogId => documents.get(catalogId)!))
+  }));
+  const edges: ConceptGraphEdge[] = conceptLinks(concepts);
+
+  const linkedDocuments = Array.from(documentConcepts.keys())
+    .map(catalogId => documents.get(catalogId)!)
+    .sort((a, b) => compareText(a.source ?? '', b.source ?? ''));
+  const categories = Array.from(categoryConcepts.keys()).sort(compareText);
+
+  if (includeDocuments) {
+    for (const document of linkedDocuments) {
+      nodes.push({
+        id: documentNodeId(document),
+        kind: 'document',
+        label: documentLabel(document),
+        weight: documentConcepts.get(document.catalogId)! / concepts.size,
+        documentCount: 1,
+        category: categoriesOf(document)[0]
+      });
+    }
+    for (const { nodeId, documentIds } of concepts.values()) {
+      for (const catalogId of documentIds) {
+        edges.push({ source: nodeId, target: documentNodeId(documents.get(catalogId)!), relations: ['appears-in'], weight: 1 });
+      }
+    }
+  }
+
+  if (includeCategories) {
+    for (const category of categories) {
+      nodes.push({
+        id: categoryNodeId(category),
+        kind: 'category',
+        label: category,
+        weight: categoryConcepts.get(category)!.size / concepts.size,
+        documentCount: categoryDocuments.get(category)!,
+        category
+      });
+    }
+    for (const { nodeId, documentIds } of concepts.values()) {
+      const counts = categoryCounts(documentIds.map(catalogId => documents.get(catalogId)!));
+      for (const [category, count] of counts) {
+        edges.push({ source: nodeId, target: categoryNodeId(category), relations: ['in-category'], weight: count / documentIds.length });
+      }
+    }
+    if (includeDocuments) {
+      for (const document of linkedDocuments) {
+        for (const category of categoriesOf(document)) {
+          edges.push({ source: documentNodeId(document), target: categoryNodeId(category), relations: ['in-category'], weight: 1 });
+        }
+      }
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Undirected co-occurrence and lexical links between the selected concepts.
+ */
+function conceptLinks(concepts: Map<number, GraphConcept>): ConceptGraphEdge[] {
+  const links = new Map<string, { a: GraphConcept; b: GraphConcept; relations: Set<ConceptLinkRelation> }>();
+  for (const [id, graphConcept] of concepts) {
+    const linked: Array<[number[] | undefined, ConceptLinkRelation]> = [
+      [graphConcept.concept.adjacentIds, 'co-occurrence'],
+      [graphConcept.concept.relatedIds, 'lexical']
+    ];
+    for (const [ids, relation] of linked) {
+      for (const otherId of ids ?? []) {
+        const other = concepts.get(otherId);
+        if (otherId === id || other === undefined) {
+          continue;
+        }
+        const key = id < otherId ? `${id}:${otherId}` : `${otherId}:${id}`;
+        const link = links.get(key) ?? { a: graphConcept, b: other, relations: new Set<ConceptLinkRelation>() };
+        link.relations.add(relation);
+        links.set(key, link);
+      }
+    }
+  }
+
+  return Array.from(links.values()).map(({ a, b, relations }) => ({
+    source: a.nodeId,
+    target: b.nodeId,
+    relations: RELATION_ORDER.filter(relation => relations.has(relation)),
+    weight: conceptLinkStrength(a.concept, b.concept)
+  }));
+}
+
+/**
+ * Category most of the documents belong to (alphabetically first on a tie).
+ */
+function mainCategory(documents: SearchResult[]): string | undefined {
+  let main: string | undefined;
+  let mainCount = 0;
+  for (const [category, count] of categoryCounts(documents)) {
+    if (count > mainCount || (count === mainCount && compareText(category, main!) < 0)) {
+      main = category;
+      mainCount = count;
+    }
+  }
+  return main;
+}
+
+/**
+ * Number of documents in each of their categories.
+ */
+function categoryCounts(documents: SearchResult[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const document of documents) {
+    for (const category of categoriesOf(document)) {
+      counts.set(category, (counts.get(category) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Category names of a document, without the placeholder the seed stores for empty lists.
+ */
+function categoriesOf(document: SearchResult): string[] {
+  return Array.from(new Set((document.categoryNames ?? []).filter(name => name !== '')));
+}
+
+/**
+ * Document IDs of a concept, without the placeholder 0 the seed stores for empty lists.
+ */
+function documentIdsOf(concept: Concept): number[] {
+  return Array.from(new Set((concept.catalogIds ?? []).filter(id => id !== 0)));
+}
+
+/**
+ * File name of a document (its catalog ID if it has no source).
+ */
+function documentLabel(document: SearchResult): string {
+  return (document.source ?? '').split(/[\\/]/).pop() || String(document.catalogId);
+}
+
+function documentNodeId(document: SearchResult): string {
+  return `document-${document.catalogId}`;
+}
+
+function categoryNodeId(category: string): string {
+  return `category-${hashToId(category)}`;
+}
+
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Hash-based ID of a concept, derived from its name as at seed time.
+ */
+function conceptId(concept: Concept): number {
+  return hashToId(concept.name.toLowerCase().trim());
+}
@@ -0,0 +1,510 @@
+/**
+ * Result-Based Concept Path Service
+ *
+ * This service finds how two concepts relate in the library: the shortest
+ * or strongest paths between them over the concept graph. Concepts are
+ * linked by co-occurrence (`adjacentIds`, concepts appearing together in
+ * documents) and lexically (`relatedIds`, concepts sharing significant
+ * words); a link listed by either concept can be followed both ways.
+ *
+ * A hop's strength is the Jaccard overlap of its two concepts' documents,
+ * and a path's strength the product of its hops' strengths. Each hop comes
+ * with the documents containing both of its concepts, which justify it.
+ *
+ * **Use this when you want to:**
+ * - Understand how two concepts relate ("how does event sourcing relate to CQRS?")
+ * - Find the documents bridging two topics
+ */
+
+import { ConceptRepository } from '../interfaces/repositories/concept-repository.js';
+import { CatalogRepository } from '../interfaces/repositories/catalog-repository.js';
+import {
+  Concept,
+  ConceptLinkRelation,
+  ConceptPath,
+  ConceptPathHop,
+  ConceptPathMode,
+  SearchResult
+} from '../models/index.js';
+import { Result, Ok, Err } from '../functional/result.js';
+import { isSome } from '../functional/option.js';
+import { InputValidator } from './validation/InputValidator.js';
+import { hashToId } from '../../infrastructure/utils/hash.js';
+
+/**
+ * Strength of a link whose concepts share no document (e.g. a lexical
+ * link), so such links can still be followed.
+ */
+export const MIN_LINK_STRENGTH = 0.05;
+
+/** Default number of paths returned */
+const DEFAULT_CONCEPT_PATH_LIMIT = 3;
+
+/** Default maximum hops per path */
+const DEFAULT_MAX_HOPS = 4;
+
+/** Maximum concepts loaded around the two concepts */
+const MAX_EXPLORED_CONCEPTS = 5000;
+
+/** Maximum partial paths expanded before giving up on further paths */
+const MAX_EXPANDED_PATHS = 20000;
+
+/** Documents resolved per hop */
+const MAX_DOCUMENTS_PER_HOP = 5;
+
+/** Order relations are listed in */
+const RELATION_ORDER: ConceptLinkRelation[] = ['co-occurrence', 'lexical'];
+
+/**
+ * Parameters for a concept path search.
+ */
+export interface ConceptPathParams {
+  /** Concept the paths start at */
+  from: string;
+
+  /** Concept the paths end at */
+  to: string;
+
+  /** How paths are ranked (default: shortest) */
+  mode?: ConceptPathMode;
+
+  /** Maximum hops per path (default: 4) */
+  maxHops?: number;
+
+  /** Maximum paths to return (default: 3) */
+  limit?: number;
+}
+
+/**
+ * Concept path search result.
+ */
+export interface ConceptPathResult {
+  /** Name of the concept the paths start at */
+  from: string;
+
+  /** Name of the concept the paths end at */
+  to: string;
+
+  /** How the paths are ranked */
+  mode: ConceptPathMode;
+
+  /** Paths, best first (empty if the concepts are not connected within the hop limit) */
+  paths: ConceptPath[];
+
+  /** Number of concepts loaded around the two concepts */
+  exploredConcepts: number;
+}
+
+/**
+ * Error types for concept path search.
+ */
+export type ConceptPathError =
+  | { type: 'validation'; field: string; message: string }
+  | { type: 'concept_not_found'; concept: string }
+  | { type: 'database'; message: string }
+  | { type: 'unknown'; message: string };
+
+/** Links of each concept: neighbour ID → kinds of link */
+type ConceptLinks = Map<number, Map<number, Set<ConceptLinkRelation>>>;
+
+/**
+ * A path under construction.
+ */
+interface PartialPath {
+  /** Concept IDs along the path */
+  ids: number[];
+
+  /** Product of the hop strengths so far */
+  strength: number;
+
+  /** Minimum hops of the path once complete */
+  minHops: number;
+
+  /** Concept names along the path (deterministic tie-break) */
+  key: string;
+}
+
+/**
+ * Service for finding paths between two concepts over the concept graph.
+ *
+ * Returns Result<T, ConceptPathError> instead of throwing exceptions,
+ * enabling functional composition and explicit error handling.
+ */
+export class ConceptPathService {
+  private validator = new InputValidator();
+
+  constructor(
+    private conceptRepo: ConceptRepository,
+    private catalogRepo: CatalogRepository
+  ) {}
+
+  /**
+   * Find the best paths between two concepts.
+   *
+   * Loads the concepts within half the hop limit of either concept (up to a
+   * few thousand), then searches paths best first: by fewest hops (equally
+   * long paths by strength) or by strength alone.
+   *
+   * @param params - Concepts, ranking mode, hop limit and result limit
+   * @returns Result containing the paths, or concept_not_found for an unknown concept
+   *
+   * @example
+   * ```typescript
+   * const result = await service.findPaths({ from: 'event sourcing', to: 'cqrs' });
+   * if (result.ok) {
+   *   result.value.paths.forEach(path => console.log(path.concepts.join(' → ')));
+   * }
+   * ```
+   */
+  async findPaths(params: ConceptPathParams): Promise<Result<ConceptPathResult, ConceptPathError>> {
+    try {
+      this.validator.validateConceptPath(params);
+    } catch (error) {
+      return Err({
+        type: 'validation',
+        field: 'params',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const {
+      mode = 'shortest',
+      maxHops = DEFAULT_MAX_HOPS,
+      limit = DEFAULT_CONCEPT_PATH_LIMIT
+    } = params;
+
+    try {
+      const startOpt = await this.conceptRepo.findByName(params.from);
+      if (!isSome(startOpt)) {
+        return Err({ type: 'concept_not_found', concept: params.from });
+      }
+      const endOpt = await this.conceptRepo.findByName(params.to);
+      if (!isSome(endOpt)) {
+        return Err({ type: 'concept_not_found', concept: params.to });
+      }
+      const start = startOpt.value;
+      const end = endOpt.value;
+
+      const concepts = await this.loadNeighbourhood(start, end, maxHops);
+      const links = buildLinks(concepts);
+      const found = searchPaths(concepts, links, conceptId(start), conceptId(end), mode, maxHops, limit);
+      const paths = await this.describePaths(concepts, links, found);
+
+      return Ok({
+        from: start.name,
+        to: end.name,
+        mode,
+        paths,
+        exploredConcepts: concepts.size
+      });
+    } catch (error) {
+      if (error instanceof Error && error.constructor.name === 'DatabaseError') {
+        return Err({
+          type: 'database',
+          message: error.message
+        });
+      }
+
+      return Err({
+        type: 'unknown',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Load the concepts within half the hop limit of either concept, one
+   * step at a time. Every concept of a path within the hop limit is close
+   * enough to one of its ends to be loaded.
+   */
+  private async loadNeighbourhood(start: Concept, end: Concept, maxHops: number): Promise<Map<number, Concept>> {
+    const concepts = new Map<number, Concept>([
+      [conceptId(start), start],
+      [conceptId(end), end]
+    ]);
+    const sides = [
+      { frontier: [start], radius: Math.ceil(maxHops / 2) },
+      { frontier: [end], radius: Math.floor(maxHops / 2) }
+    ];
+
+    for (const side of sides) {
+      let frontier = side.frontier;
+      for (let depth = 0; depth < side.radius && frontier.length > 0; depth++) {
+        const room = MAX_EXPLORED_CONCEPTS - concepts.size;
+        if (room <= 0) {
+          return concepts;
+        }
+        const ids = Array.from(new Set(frontier.flatMap(linkedIds)))
+          .filter(id => !concepts.has(id))
+          .slice(0, room);
+        frontier = [];
+        for (const concept of await this.conceptRepo.findByIds(ids)) {
+          const id = conceptId(concept);
+          if (!concepts.has(id)) {
+            concepts.set(id, concept);
+            frontier.push(concept);
+          }
+        }
+      }
+    }
+    return concepts;
+  }
+
+  /**
+   * Turn found paths (concept IDs) into hops with their shared documents.
+   */
+  private async describePaths(
+    concepts: Map<number, Concept>,
+    links: ConceptLinks,
+    found: PartialPath[]
+  ): Promise<ConceptPath[]> {
+    const shared = (a: number, b: number) => sharedDocuments(concepts.get(a)!, concepts.get(b)!);
+
+    const documentIds = new Set<number>();
+    for (const path of found) {
+      for (let i = 1; i < path.ids.length; i++) {
+        shared(path.ids[i - 1], path.ids[i]).slice(0, MAX_DOCUMENTS_PER_HOP).forEach(id => documentIds.add(id));
+      }
+    }
+    const documents = new Map<number, SearchResult>(
+      (await this.catalogRepo.findByIds(Array.from(documentIds))).map(document => [document.catalogId, document])
+    );
+
+    return found.map(path => {
+      const hops: ConceptPathHop[] = [];
+      for (let i = 1; i < path.ids.length; i++) {
+        const [a, b] = [path.ids[i - 1], path.ids[i]];
+        const catalogIds = shared(a, b);
+        const relations = links.get(a)!.get(b)!;
+        hops.push({
+          from: concepts.get(a)!.name,
+          to: concepts.get(b)!.name,
+          relations: RELATION_ORDER.filter(relation => relations.has(relation)),
+          strength: conceptLinkStrength(concepts.get(a)!, concepts.get(b)!),
+          documents: catalogIds
+            .slice(0, MAX_DOCUMENTS_PER_HOP)
+            .map(id => documents.get(id))
+            .filter((document): document is SearchResult => document !== undefined),
+          documentCount: catalogIds.length
+        });
+      }
+      return {
+        concepts: path.ids.map(id => concepts.get(id)!.name),
+        hops,
+        strength: path.strength
+      };
+    });
+  }
+}
+
+/**
+ * Search the best paths between two loaded concepts, best first.
+ *
+ * Partial paths are expanded in ranking order. Hop strengths are at most 1,
+ * so extending a path never makes it stronger, and the hops still needed
+ * (the distance to the end concept) are known exactly: complete paths are
+ * therefore found in ranking order.
+ */
+function searchPaths(
+  concepts: Map<number, Concept>,
+  links: ConceptLinks,
+  startId: number,
+  endId: number,
+  mode: ConceptPathMode,
+  maxHops: number,
+  limit: number
+): PartialPath[] {
+  const distance = distancesTo(links, endId);
+  if (!distance.has(startId) || distance.get(startId)! > maxHops) {
+    return [];
+  }
+
+  const queue = new PathQueue(mode === 'shortest' ? compareShortest : compareStrongest);
+  queue.push({
+    ids: [startId],
+    strength: 1,
+    minHops: distance.get(startId)!,
+    key: concepts.get(startId)!.name
+  });
+
+  const paths: PartialPath[] = [];
+  for (let expanded = 0; expanded < MAX_EXPANDED_PATHS && queue.size > 0; expanded++) {
+    const path = queue.pop()!;
+    const last = path.ids[path.ids.length - 1];
+    if (last === endId) {
+      paths.push(path);
+      if (paths.length === limit) {
+        break;
+      }
+      continue;
+    }
+    const hops = path.ids.length - 1;
+    for (const next of links.get(last)?.keys() ?? []) {
+      const remaining = distance.get(next);
+      if (remaining === undefined || hops + 1 + remaining > maxHops || path.ids.includes(next)) {
+        continue;
+      }
+      queue.push({
+        ids: [...path.ids, next],
+        strength: path.strength * conceptLinkStrength(concepts.get(last)!, concepts.get(next)!),
+        minHops: hops + 1 + remaining,
+        key: `${path.key}\u0000${concepts.get(next)!.name}`
+      });
+    }
+  }
+  return paths;
+}
+
+/**
+ * Fewest hops first, then strongest.
+ */
+function compareShortest(a: PartialPath, b: PartialPath): number {
+  return a.minHops - b.minHops || b.strength - a.strength || compareKeys(a, b);
+}
+
+/**
+ * Strongest first, then fewest hops.
+ */
+function compareStrongest(a: PartialPath, b: PartialPath): number {
+  return b.strength - a.strength || a.minHops - b.minHops || compareKeys(a, b);
+}
+
+function compareKeys(a: PartialPath, b: PartialPath): number {
+  return a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+}
+
+/**
+ * Links between the loaded concepts, in both directions.
+ */
+function buildLinks(concepts: Map<number, Concept>): ConceptLinks {
+  const links: ConceptLinks = new Map();
+  const link = (a: number, b: number, relation: ConceptLinkRelation) => {
+    if (!links.has(a)) {
+      links.set(a, new Map());
+    }
+    const relations = links.get(a)!.get(b) ?? new Set<ConceptLinkRelation>();
+    relations.add(relation);
+    links.get(a)!.set(b, relations);
+  };
+
+  for (const [id, concept] of concepts) {
+    const linked: Array<[number[] | undefined, ConceptLinkRelation]> = [
+      [concept.adjacentIds, 'co-occurrence'],
+      [concept.relatedIds, 'lexical']
+    ];
+    for (const [ids, relation] of linked) {
+      for (const other of ids ?? []) {
+        if (other !== id && concepts.has(other)) {
+          link(id, other, relation);
+          link(other, id, relation);
+        }
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Hops from every reachable concept to the given concept.
+ */
+function distancesTo(links: ConceptLinks, endId: number): Map<number, number> {
+  const distance = new Map<number, number>([[endId, 0]]);
+  let frontier = [endId];
+  while (frontier.length > 0) {
+    const next: number[] = [];
+    for (const id of frontier) {
+      for (const other of links.get(id)?.keys() ?? []) {
+        if (!distance.has(other)) {
+          distance.set(other, distance.get(id)! + 1);
+          next.push(other);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return distance;
+}
+
+/**
+ * Jaccard overlap of two concepts' documents, at least MIN_LINK_STRENGTH.
+ */
+export function conceptLinkStrength(a: Concept, b: Concept): number {
+  const shared = sharedDocuments(a, b).length;
+  const union = new Set([...documentIds(a), ...documentIds(b)]).size;
+  return Math.max(MIN_LINK_STRENGTH, union > 0 ? shared / union : 0);
+}
+
+/**
+ * IDs of the documents containing both concepts.
+ */
+function sharedDocuments(a: Concept, b: Concept): number[] {
+  const other = new Set(documentIds(b));
+  return Array.from(new Set(documentIds(a))).filter(id => other.has(id));
+}
+
+/**
+ * Document IDs of a concept, without the placeholder 0 the seed stores for empty lists.
+ */
+function documentIds(concept: Concept): number[] {
+  return (concept.catalogIds ?? []).filter(id => id !== 0);
+}
+
+/**
+ * IDs of the concepts a concept links to.
+ */
+function linkedIds(concept: Concept): number[] {
+  return [...(concept.adjacentIds ?? []), ...(concept.relatedIds ?? [])].filter(id => id !== 0);
+}
+
+/**
+ * Hash-based ID of a concept, derived from its name as at seed time.
+ */
+function conceptId(concept: Concept): number {
+  return hashToId(concept.name.toLowerCase().trim());
+}
+
+/**
+ * Binary min-heap of partial paths.
+ */
+class PathQueue {
+  private items: PartialPath[] = [];
+
+  constructor(private compare: (a: PartialPath, b: PartialPath) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: PartialPath): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): PartialPath | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+        if (smallest === i) break;
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
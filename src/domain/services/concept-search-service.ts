@@ -184,7 +184,7 @@ export class ConceptSearchService {
     
     // Try hybrid search if embedding service is available
     if (this.embeddingService && this.conceptRepo.searchByHybrid) {
-      const queryVector = this.embeddingService.generateEmbedding(conceptQuery);
+      const [queryVector] = await this.embeddingService.generateEmbeddings([conceptQuery]);
       const hybridResults = await this.conceptRepo.searchByHybrid(conceptQuery, queryVector, 1);
       
       if (hybridResults.length > 0) {
@@ -329,8 +329,8 @@ export class ConceptSearchService {
       if (enrichedChunks.length >= maxChunks) break;
     }
     
-    // 3. Sort enriched chunks by concept density
-    enrichedChunks.sort((a, b) => b.conceptDensity - a.conceptDensity);
+    // 3. Sort enriched chunks by concept density (ties by chunk ID for a stable order)
+    enrichedChunks.sort((a, b) => b.conceptDensity - a.conceptDensity || a.chunk.id - b.chunk.id);
     
     const matchedConceptName = matchedConcept?.name || conceptQuery;
     
@@ -0,0 +1,72 @@
+/**
+ * Facet Counter
+ *
+ * Counts the document metadata values of search candidates into facets
+ * (see {@link SearchFacets}).
+ */
+
+import { FacetCount, FacetField, MAX_FACET_VALUES, SearchFacets, SearchResult } from '../models/index.js';
+
+/**
+ * Count facet values over documents.
+ *
+ * Each document counts once per distinct value it has (a document in two
+ * categories counts towards both); documents without a value are not
+ * counted. Pass a document once per hit to count hits, e.g. once per
+ * matching chunk.
+ *
+ * @param documents - Catalog entries of the candidates
+ * @param fields - Facets to count
+ * @param maxValues - Maximum values per facet (default: MAX_FACET_VALUES)
+ * @returns Counts per field, most frequent value first (ties by value)
+ *
+ * @example
+ * ```typescript
+ * const facets = countFacets(candidates, ['category', 'year']);
+ * // { category: [{ value: 'databases', count: 3 }], year: [{ value: 2019, count: 2 }] }
+ * ```
+ */
+export function countFacets(
+  documents: readonly SearchResult[],
+  fields: readonly FacetField[],
+  maxValues: number = MAX_FACET_VALUES
+): SearchFacets {
+  const facets: SearchFacets = {};
+  for (const field of new Set(fields)) {
+    const counts = new Map<string | number, number>();
+    for (const document of documents) {
+      for (const value of new Set(facetValues(document, field))) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+    facets[field] = Array.from(counts, ([value, count]): FacetCount => ({ value, count }))
+      .sort((a, b) => b.count - a.count || compareValues(a.value, b.value))
+      .slice(0, maxValues);
+  }
+  return facets;
+}
+
+/** Values of a document for a facet */
+function facetValues(document: SearchResult, field: FacetField): Array<string | number> {
+  switch (field) {
+    case 'category':
+      return (document.categoryNames ?? []).map(name => name.trim()).filter(name => name.length > 0);
+    case 'author':
+      return nonBlank(document.author);
+    case 'year':
+      return document.year ? [document.year] : [];
+    case 'document_type':
+      return nonBlank(document.documentType);
+    case 'venue':
+      return nonBlank(document.venue);
+  }
+}
+
+function nonBlank(value: string | undefined): string[] {
+  const trimmed = value?.trim();
+  return trimmed ? [trimmed] : [];
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+}
@@ -1,9 +1,11 @@
 /**
  * Result-Based Fuzzy Concept Search Service
  * 
- * This service provides fuzzy/semantic search over concept summaries,
- * similar to how catalog_search searches document summaries.
- * Uses hybrid search (vector + BM25 + name matching) for comprehensive ranking.
+ * This service provides fuzzy/semantic search over concept names, synonyms
+ * and summaries, so agents can discover concept names before looking them up.
+ * Concepts are matched by name prefix, by (spelling-corrected) name words and
+ * by vector similarity, and ranked by hybrid score (name, summary keywords,
+ * synonyms and vector similarity).
  * 
  * Key difference from catalog search: uses concept name matching instead
  * of title/filename matching for the "title" score component.
@@ -12,14 +14,6 @@
 import { ConceptRepository } from '../interfaces/repositories/concept-repository.js';
 import { Result, Ok, Err } from '../functional/result.js';
 import { EmbeddingService } from '../interfaces/services/embedding-service.js';
-import { 
-  calculateVectorScore,
-  calculateWeightedBM25,
-  calculateNameScore, 
-  calculateWordNetBonus,
-  calculateHybridScore 
-} from '../../infrastructure/search/scoring-strategies.js';
-import { QueryExpander } from '../../concepts/query_expander.js';
 
 /**
  * Parameters for fuzzy concept search.
@@ -75,7 +69,7 @@ export interface FuzzyConceptSearchResult {
   /** Name matching score (concept name vs query) */
   nameScore: number;
   
-  /** WordNet expansion score */
+  /** Synonym matching score */
   wordnetScore: number;
 }
 
@@ -91,18 +85,17 @@ export type FuzzySearchError =
 /**
  * Fuzzy concept search service with Result-based error handling.
  * 
- * Searches concept summaries using hybrid search with concept-specific
+ * Searches concepts using hybrid search with concept-specific
  * scoring (name matching instead of title matching).
  */
 export class FuzzyConceptSearchService {
   constructor(
     private conceptRepo: ConceptRepository,
-    private embeddingService: EmbeddingService,
-    private queryExpander: QueryExpander
+    private embeddingService: EmbeddingService
   ) {}
   
   /**
-   * Search concepts by their summary using hybrid search.
+   * Search concepts by name, synonyms and summary using hybrid search.
    * 
    * @param params - Search parameters
    * @returns Result containing concept search results or error
@@ -124,105 +117,24 @@ export class FuzzyConceptSearchService {
     const debug = params.debug || false;
     
     try {
-      // Get the concepts table from repository
-      const conceptsTable = (this.conceptRepo as any).conceptsTable;
+      const queryVector = await this.embeddingService.generateEmbedding(text);
+      const concepts = await this.conceptRepo.searchConcepts(text, limit, queryVector);
       
-      if (!conceptsTable) {
-        return Err({
-          type: 'database',
-          message: 'Concepts table not available'
-        });
-      }
-      
-      // Step 1: Expand query with WordNet synonyms
-      const expanded = await this.queryExpander.expandQuery(text);
-      
-      if (debug) {
-        console.error('\n🔍 Query Expansion:');
-        console.error('  Original:', expanded.original_terms.join(', '));
-        console.error('  + Corpus:', expanded.corpus_terms.slice(0, 5).join(', '));
-        console.error('  + WordNet:', expanded.wordnet_terms.slice(0, 5).join(', '));
-      }
-      
-      // Step 2: Generate query embedding and perform vector search
-      const queryVector = this.embeddingService.generateEmbedding(text);
-      const vectorResults = await conceptsTable
-        .vectorSearch(queryVector)
-        .limit(limit * 3)  // Get 3x results for reranking
-        .toArray();
-      
-      // Step 3: Score each result with concept-specific signals
-      const results: FuzzyConceptSearchResult[] = vectorResults.map((row: any) => {
-        // Parse array fields (handle Arrow Vectors and JSON strings)
-        const parseArrayField = (value: any): any[] => {
-          if (!value) return [];
-          if (Array.isArray(value)) return value;
-          if (typeof value === 'object' && 'toArray' in value) {
-            return Array.from(value.toArray());
-          }
-          if (typeof value === 'string') {
-            try { return JSON.parse(value); } catch { return []; }
-          }
-          return [];
-        };
-        
-        const catalogIds = parseArrayField(row.catalog_ids);
-        const chunkIds = parseArrayField(row.chunk_ids);
-        const relatedConcepts = parseArrayField(row.related_concepts);
-        const synonyms = parseArrayField(row.synonyms);
-        
-        // Get concept name and summary
-        const conceptName = row.name || '';
-        const summary = row.summary || '';
-        
-        // Calculate individual scores using concept-specific fields
-        const vectorScore = calculateVectorScore(row._distance || 0);
-        
-        // BM25: search in summary (the main text content for concepts)
-        const bm25Score = calculateWeightedBM25(
-          expanded.all_terms,
-          expanded.weights,
-          summary,  // Use summary instead of text
-          conceptName  // Use concept name instead of source
-        );
-        
-        // Name score: boost concepts whose names match query
-        const nameScore = calculateNameScore(expanded.original_terms, conceptName);
-        
-        // WordNet: check if synonyms appear in summary
-        const wordnetScore = calculateWordNetBonus(expanded.wordnet_terms, summary);
-        
-        // Calculate hybrid score (name replaces title)
-        const hybridScore = calculateHybridScore({
-          vectorScore,
-          bm25Score,
-          titleScore: nameScore,  // Use name score in place of title
-          conceptScore: 0,  // Not applicable for concept search itself
-          wordnetScore
-        });
-        
-        return {
-          id: row.id || 0,
-          concept: conceptName,
-          summary,
-          documentCount: catalogIds.filter((id: number) => id !== 0).length,
-          chunkCount: chunkIds.filter((id: number) => id !== 0).length,
-          relatedConcepts,
-          synonyms,
-          weight: row.weight || 0,
-          hybridScore,
-          vectorScore,
-          bm25Score,
-          nameScore,
-          wordnetScore
-        };
-      });
-      
-      // Step 4: Re-sort by hybrid score
-      results.sort((a, b) => b.hybridScore - a.hybridScore);
-      
-      // Step 5: Limit to requested size
-      const finalResults = results.slice(0, limit);
+      const finalResults: FuzzyConceptSearchResult[] = concepts.map(concept => ({
+        id: concept.id ?? 0,
+        concept: concept.name,
+        summary: concept.summary || '',
+        documentCount: (concept.catalogIds || []).filter(id => id !== 0).length,
+        chunkCount: (concept.chunkIds || []).filter(id => id !== 0).length,
+        relatedConcepts: concept.relatedConcepts || [],
+        synonyms: (concept.synonyms || []).filter(synonym => synonym),
+        weight: concept.weight || 0,
+        hybridScore: concept.hybridScore,
+        vectorScore: concept.vectorScore,
+        bm25Score: concept.bm25Score,
+        nameScore: concept.nameScore,
+        wordnetScore: concept.wordnetScore
+      }));
       
       if (debug) {
         console.error('\n📊 Top Concept Results:\n');
@@ -231,7 +143,7 @@ export class FuzzyConceptSearchService {
           console.error(`   Vector: ${r.vectorScore.toFixed(3)}`);
           console.error(`   BM25: ${r.bm25Score.toFixed(3)}`);
           console.error(`   Name: ${r.nameScore.toFixed(3)}`);
-          console.error(`   WordNet: ${r.wordnetScore.toFixed(3)}`);
+          console.error(`   Synonyms: ${r.wordnetScore.toFixed(3)}`);
           console.error(`   ➜ Hybrid: ${r.hybridScore.toFixed(3)}`);
           console.error();
         });
@@ -11,4 +11,10 @@ export * from './catalog-search-service.js';
 export * from './chunk-search-service.js';
 export * from './concept-sources-service.js';
 export * from './fuzzy-concept-search-service.js';
+export * from './facet-counter.js';
+export * from './similar-documents-service.js';
+export * from './passage-search-service.js';
+export * from './concept-path-service.js';
+export * from './concept-graph-service.js';
 
+export * from './query-parser.js';
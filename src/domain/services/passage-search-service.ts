@@ -0,0 +1,139 @@
+/**
+ * Result-Based Passage Search Service
+ *
+ * This service finds the chunks a passage (a quote, paraphrase or pasted
+ * paragraph) comes from, so the exact wording can be verified and cited.
+ * Matches are ranked by three signals:
+ *
+ * - **Shingles** (40%): fraction of the passage's word shingles found in
+ *   the chunk (exact and near-exact quotes)
+ * - **Alignment** (35%): fraction of the passage's words matched by the best
+ *   aligned span of the chunk
+ * - **Vector** (25%): semantic similarity of the passage and the chunk
+ *   (paraphrases)
+ *
+ * **Use this when you want to:**
+ * - Find the source of a quote or a half-remembered passage
+ * - Check the exact wording and page of a passage before citing it
+ */
+
+import { ChunkRepository } from '../interfaces/repositories/chunk-repository.js';
+import { PassageCandidate, PassageMatch } from '../models/index.js';
+import { Result, Ok, Err } from '../functional/result.js';
+import { InputValidator } from './validation/InputValidator.js';
+
+/**
+ * Weights of the passage match signals (sum to 1).
+ */
+export const PASSAGE_MATCH_WEIGHTS = {
+  shingle: 0.4,
+  alignment: 0.35,
+  vector: 0.25
+} as const;
+
+/** Default number of passage matches returned */
+const DEFAULT_FIND_PASSAGE_LIMIT = 5;
+
+/** Candidates of each kind (shingle and vector) per requested match */
+const CANDIDATES_PER_RESULT = 4;
+
+/** Minimum candidates of each kind */
+const MIN_CANDIDATES = 20;
+
+/**
+ * Parameters for a passage search.
+ */
+export interface FindPassageParams {
+  /** Quote, paraphrase or paragraph to find */
+  passage: string;
+
+  /** Maximum matches to return (default: 5) */
+  limit?: number;
+}
+
+/**
+ * Error types for passage search.
+ */
+export type FindPassageError =
+  | { type: 'validation'; field: string; message: string }
+  | { type: 'database'; message: string }
+  | { type: 'unknown'; message: string };
+
+/**
+ * Service for finding the chunks a passage comes from.
+ *
+ * Returns Result<T, FindPassageError> instead of throwing exceptions,
+ * enabling functional composition and explicit error handling.
+ */
+export class PassageSearchService {
+  private validator = new InputValidator();
+
+  constructor(private chunkRepo: ChunkRepository) {}
+
+  /**
+   * Find the chunks best matching a passage.
+   *
+   * @param params - Passage and result limit
+   * @returns Result containing the matches, best first (empty if nothing matches)
+   *
+   * @example
+   * ```typescript
+   * const result = await service.findPassage({ passage: 'a module should have one reason to change' });
+   * if (result.ok) {
+   *   const [best] = result.value;
+   *   console.log(best.chunk.pageNumber, best.chunk.text.slice(best.alignment!.start, best.alignment!.end));
+   * }
+   * ```
+   */
+  async findPassage(params: FindPassageParams): Promise<Result<PassageMatch[], FindPassageError>> {
+    try {
+      this.validator.validateFindPassage(params);
+    } catch (error) {
+      return Err({
+        type: 'validation',
+        field: 'passage',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const limit = params.limit ?? DEFAULT_FIND_PASSAGE_LIMIT;
+
+    try {
+      const candidates = await this.chunkRepo.findByPassage(
+        params.passage,
+        Math.max(limit * CANDIDATES_PER_RESULT, MIN_CANDIDATES)
+      );
+
+      const matches = candidates
+        .map(scorePassageMatch)
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score || a.chunk.id - b.chunk.id);
+
+      return Ok(matches.slice(0, limit));
+    } catch (error) {
+      if (error instanceof Error && error.constructor.name === 'DatabaseError') {
+        return Err({
+          type: 'database',
+          message: error.message
+        });
+      }
+
+      return Err({
+        type: 'unknown',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Score a candidate by its weighted signals.
+ */
+function scorePassageMatch(candidate: PassageCandidate): PassageMatch {
+  return {
+    ...candidate,
+    score: PASSAGE_MATCH_WEIGHTS.shingle * candidate.shingleScore +
+      PASSAGE_MATCH_WEIGHTS.alignment * (candidate.alignment?.coverage ?? 0) +
+      PASSAGE_MATCH_WEIGHTS.vector * candidate.vectorScore
+  };
+}
@@ -0,0 +1,321 @@
+/**
+ * Search Query Parser
+ *
+ * Parses the advanced query syntax into a {@link ParsedQuery} AST. Parsing
+ * is lenient and never fails: unbalanced quotes or parentheses close at the
+ * end of the query, and unknown or malformed field prefixes (e.g. `http:`,
+ * `year:soon`) are kept as ordinary terms.
+ *
+ * Plain queries without syntax parse into one `should` term per word, so
+ * they behave exactly as before.
+ */
+
+import {
+  ParsedQuery,
+  QueryClause,
+  QueryField,
+  QueryOccurrence,
+  QueryOperand,
+  QUERY_FIELDS
+} from '../models/parsed-query.js';
+
+/** Field prefix at the current position, e.g. `author:` */
+const FIELD_PREFIX = new RegExp(`^(${QUERY_FIELDS.join('|')}):`, 'i');
+
+/** `2015`, `2010..2015`, `2010..` or `..2015` */
+const YEAR_RANGE = /^(\d{1,4})?(\.\.)?(\d{1,4})?$/;
+
+/**
+ * Parse a search query.
+ *
+ * @param text - Query as typed by the user
+ * @returns Parsed query (no clauses for an empty query)
+ *
+ * @example
+ * ```typescript
+ * parseQuery('+"clean code" (refactoring OR testing) -java year:2008..2012');
+ * ```
+ */
+export function parseQuery(text: string): ParsedQuery {
+  const scanner: Scanner = { text, pos: 0 };
+  const clauses: QueryClause[] = [];
+  let pendingOr = false;
+
+  for (let unit = readUnit(scanner); unit; unit = readUnit(scanner)) {
+    if (unit.isOrKeyword) {
+      pendingOr = clauses.length > 0;
+      continue;
+    }
+    if (unit.operands.length === 0) {
+      continue;
+    }
+
+    const previous = clauses[clauses.length - 1];
+    if (pendingOr) {
+      // `a OR b` joins b into a's clause, keeping a's occurrence
+      previous.node = {
+        type: 'or',
+        operands: [...clauseOperands(previous), ...unit.operands]
+      };
+    } else {
+      clauses.push({
+        occur: unit.occur,
+        node: unit.operands.length === 1 ? unit.operands[0] : { type: 'or', operands: unit.operands }
+      });
+    }
+    pendingOr = false;
+  }
+
+  return { clauses };
+}
+
+/**
+ * Terms and phrases of a clause (the alternatives of an OR group).
+ */
+export function clauseOperands(clause: QueryClause): QueryOperand[] {
+  return clause.node.type === 'or' ? clause.node.operands : [clause.node];
+}
+
+/**
+ * Whether a query uses no syntax beyond plain words.
+ */
+export function isPlainQuery(query: ParsedQuery): boolean {
+  return query.clauses.every(clause =>
+    clause.occur === 'should' && clause.node.type === 'term' && !clause.node.field
+  );
+}
+
+/**
+ * Whether a clause restricts a field: all its alternatives carry a field
+ * prefix (from `fields`, when given). Field restrictions apply whatever
+ * the clause occurrence, except that `must_not` negates them.
+ */
+export function isFieldRestriction(clause: QueryClause, fields?: readonly QueryField[]): boolean {
+  return clauseOperands(clause).every(operand =>
+    operand.field !== undefined && (!fields || fields.includes(operand.field))
+  );
+}
+
+/**
+ * Free text of a query for embedding and keyword scoring: the terms and
+ * phrases that are neither excluded nor field restrictions. A query made
+ * of field restrictions only falls back to their title and concept values.
+ */
+export function queryFreeText(query: ParsedQuery): string {
+  return queryTextOperands(query).map(operand => operand.text).join(' ');
+}
+
+/**
+ * Terms and phrases making up {@link queryFreeText}, in query order.
+ */
+export function queryTextOperands(query: ParsedQuery): QueryOperand[] {
+  const positive = query.clauses
+    .filter(clause => clause.occur !== 'must_not')
+    .flatMap(clauseOperands);
+  const free = positive.filter(operand => !operand.field);
+  return free.length > 0
+    ? free
+    : positive.filter(operand => operand.field === 'title' || operand.field === 'concept');
+}
+
+/**
+ * Phrases that boost matching results: quoted phrases without field
+ * prefix that are not excluded.
+ */
+export function queryPhrases(query: ParsedQuery): QueryOperand[] {
+  return query.clauses
+    .filter(clause => clause.occur !== 'must_not')
+    .flatMap(clauseOperands)
+    .filter(operand => operand.type === 'phrase' && !operand.field && operand.words.length > 0);
+}
+
+/**
+ * Rewrite the loose terms of a query (unquoted words that are neither
+ * excluded nor field restrictions), keeping the rest of the text as typed.
+ *
+ * @param text - Query as typed by the user
+ * @param rewrite - New text of a loose term, given its text as typed
+ * @returns The query text with its loose terms rewritten
+ */
+export function rewriteLooseTerms(text: string, rewrite: (term: string) => string): string {
+  const scanner: Scanner = { text, pos: 0, termSpans: [] };
+  while (readUnit(scanner)) {
+    // Reading the query collects its term spans
+  }
+
+  let rewritten = '';
+  let pos = 0;
+  for (const span of scanner.termSpans!) {
+    if (span.excluded || span.field) continue;
+    rewritten += text.slice(pos, span.start) + rewrite(text.slice(span.start, span.end));
+    pos = span.end;
+  }
+  return rewritten + text.slice(pos);
+}
+
+/**
+ * Parse the value of a `year:` restriction.
+ *
+ * @returns Inclusive bounds, or undefined for a malformed value
+ *
+ * @example
+ * parseYearRange('2010..2015')  // { from: 2010, to: 2015 }
+ * parseYearRange('2015')        // { from: 2015, to: 2015 }
+ * parseYearRange('..2015')      // { to: 2015 }
+ */
+export function parseYearRange(text: string): { from?: number; to?: number } | undefined {
+  const match = YEAR_RANGE.exec(text);
+  if (!match || (!match[1] && !match[3]) || (!match[2] && match[3])) {
+    return undefined;
+  }
+  const from = match[1] !== undefined ? Number(match[1]) : undefined;
+  const to = match[2] ? (match[3] !== undefined ? Number(match[3]) : undefined) : from;
+  return { from, to };
+}
+
+/**
+ * Lowercased words of a text, as matched by terms and phrases.
+ */
+export function queryWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+interface Scanner {
+  text: string;
+  pos: number;
+
+  /** Source spans of the terms read, when collected */
+  termSpans?: TermSpan[];
+}
+
+interface TermSpan {
+  start: number;
+  end: number;
+
+  /** Excluded with `-` (directly or by its group) */
+  excluded: boolean;
+
+  /** Restricted to a field (directly or by its group) */
+  field: boolean;
+}
+
+interface Unit {
+  occur: QueryOccurrence;
+  operands: QueryOperand[];
+  isOrKeyword?: boolean;
+}
+
+/**
+ * Read the next term, phrase or parenthesised group; null at the end.
+ */
+function readUnit(scanner: Scanner): Unit | null {
+  const { text } = scanner;
+  while (scanner.pos < text.length && (/\s/.test(text[scanner.pos]) || text[scanner.pos] === ')')) {
+    scanner.pos++;  // Stray closing parentheses are ignored
+  }
+  if (scanner.pos >= text.length) {
+    return null;
+  }
+
+  let occur: QueryOccurrence = 'should';
+  const modifier = text[scanner.pos];
+  if ((modifier === '+' || modifier === '-') && startsOperand(text, scanner.pos + 1)) {
+    occur = modifier === '+' ? 'must' : 'must_not';
+    scanner.pos++;
+  }
+
+  let field: QueryField | undefined;
+  const prefix = FIELD_PREFIX.exec(text.slice(scanner.pos));
+  if (prefix && startsOperand(text, scanner.pos + prefix[0].length)) {
+    field = prefix[1].toLowerCase() as QueryField;
+    scanner.pos += prefix[0].length;
+  }
+
+  if (text[scanner.pos] === '(') {
+    scanner.pos++;
+    const mark = scanner.termSpans?.length ?? 0;
+    const operands = readGroup(scanner, field);
+    for (const span of scanner.termSpans?.slice(mark) ?? []) {
+      span.excluded = occur === 'must_not';
+      span.field ||= field !== undefined;
+    }
+    return { occur, operands };
+  }
+
+  if (text[scanner.pos] === '"') {
+    const end = text.indexOf('"', scanner.pos + 1);
+    const phrase = text.slice(scanner.pos + 1, end === -1 ? text.length : end);
+    scanner.pos = end === -1 ? text.length : end + 1;
+    return { occur, operands: operand('phrase', phrase, field) };
+  }
+
+  const start = scanner.pos;
+  while (scanner.pos < text.length && !/[\s()]/.test(text[scanner.pos])) {
+    scanner.pos++;
+  }
+  const word = text.slice(start, scanner.pos);
+  if (word === 'OR' && occur === 'should' && !field) {
+    return { occur, operands: [], isOrKeyword: true };
+  }
+  const operands = operand('term', word, field);
+  scanner.termSpans?.push({
+    start,
+    end: scanner.pos,
+    excluded: occur === 'must_not',
+    field: operands[0]?.field !== undefined
+  });
+  return { occur, operands };
+}
+
+/**
+ * Read the alternatives of a group up to its closing parenthesis. Nested
+ * groups are flattened; modifiers inside a group are ignored.
+ */
+function readGroup(scanner: Scanner, field?: QueryField): QueryOperand[] {
+  const operands: QueryOperand[] = [];
+  const { text } = scanner;
+  while (scanner.pos < text.length) {
+    while (scanner.pos < text.length && /\s/.test(text[scanner.pos])) {
+      scanner.pos++;
+    }
+    if (text[scanner.pos] === ')') {
+      scanner.pos++;
+      break;
+    }
+    const mark = scanner.termSpans?.length ?? 0;
+    const unit = readUnit(scanner);
+    if (!unit) break;
+    for (const span of scanner.termSpans?.slice(mark) ?? []) {
+      span.excluded = false;  // Modifiers inside a group are ignored
+    }
+    operands.push(...unit.operands.map(o => (field && !o.field ? withField(o, field) : o)));
+  }
+  return operands;
+}
+
+function operand(type: QueryOperand['type'], raw: string, field?: QueryField): QueryOperand[] {
+  const text = raw.toLowerCase().trim();
+
+  if (field === 'year' && !parseYearRange(text)) {
+    // Malformed year: keep the whole token as an ordinary term
+    return operand(type, `year:${raw}`);
+  }
+
+  const words = queryWords(text);
+  if (words.length === 0) {
+    return [];
+  }
+  return [{ type, text, words, ...(field ? { field } : {}) }];
+}
+
+function withField(operand: QueryOperand, field: QueryField): QueryOperand {
+  if (field === 'year' && !parseYearRange(operand.text)) {
+    return operand;
+  }
+  return { ...operand, field };
+}
+
+/** Whether an operand (not whitespace or the end) starts at `pos` */
+function startsOperand(text: string, pos: number): boolean {
+  return pos < text.length && !/[\s)]/.test(text[pos]);
+}
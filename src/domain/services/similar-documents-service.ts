@@ -0,0 +1,253 @@
+/**
+ * Result-Based Similar Documents Service
+ *
+ * This service finds the documents of the library most similar to a given
+ * document ("more like this"). Similarity combines three signals:
+ *
+ * - **Vector** (50%): cosine similarity of the document embeddings
+ * - **Concepts** (35%): Jaccard overlap of the documents' concept IDs
+ * - **Categories** (15%): Jaccard overlap of the documents' category IDs
+ *
+ * Candidates are the documents nearest to the document's embedding; the
+ * shared concepts and categories explain each result.
+ *
+ * **Use this when you want to:**
+ * - Find what else in the library is like a known document
+ * - Expand a reading list from one good source
+ */
+
+import { CatalogRepository } from '../interfaces/repositories/catalog-repository.js';
+import { SearchResult } from '../models/index.js';
+import { Result, Ok, Err } from '../functional/result.js';
+import { isSome, Option } from '../functional/option.js';
+import { InputValidator } from './validation/InputValidator.js';
+
+/**
+ * Weights of the similarity signals (sum to 1).
+ */
+export const SIMILARITY_WEIGHTS = {
+  vector: 0.5,
+  concepts: 0.35,
+  categories: 0.15
+} as const;
+
+/** Default number of similar documents returned */
+const DEFAULT_SIMILAR_DOCUMENTS_LIMIT = 10;
+
+/** Number of nearest documents scored per requested result */
+const CANDIDATES_PER_RESULT = 5;
+
+/** Minimum number of nearest documents scored */
+const MIN_CANDIDATES = 50;
+
+/**
+ * Parameters for a similar documents lookup. Identify the document by
+ * catalog ID or by source path.
+ */
+export interface SimilarDocumentsParams {
+  /** Catalog ID of the document */
+  catalogId?: number;
+
+  /** Source path of the document */
+  source?: string;
+
+  /** Maximum similar documents to return (default: 10) */
+  limit?: number;
+}
+
+/**
+ * A document similar to the requested one.
+ */
+export interface SimilarDocument {
+  /** The similar document */
+  document: SearchResult;
+
+  /** Weighted similarity in [0, 1] */
+  score: number;
+
+  /** Cosine similarity of the embeddings (negative similarity counts as 0) */
+  vectorScore: number;
+
+  /** Jaccard overlap of the concept IDs */
+  conceptScore: number;
+
+  /** Jaccard overlap of the category IDs */
+  categoryScore: number;
+
+  /** Names of the concepts both documents have */
+  sharedConcepts: string[];
+
+  /** Names of the categories both documents belong to */
+  sharedCategories: string[];
+}
+
+/**
+ * Similar documents lookup result.
+ */
+export interface SimilarDocumentsResult {
+  /** The requested document */
+  document: SearchResult;
+
+  /** Similar documents, most similar first */
+  similar: SimilarDocument[];
+}
+
+/**
+ * Error types for similar documents lookup.
+ */
+export type SimilarDocumentsError =
+  | { type: 'validation'; field: string; message: string }
+  | { type: 'not_found'; resource: string }
+  | { type: 'database'; message: string }
+  | { type: 'unknown'; message: string };
+
+/**
+ * Service for finding documents similar to a given document.
+ *
+ * Returns Result<T, SimilarDocumentsError> instead of throwing exceptions,
+ * enabling functional composition and explicit error handling.
+ */
+export class SimilarDocumentsService {
+  private validator = new InputValidator();
+
+  constructor(private catalogRepo: CatalogRepository) {}
+
+  /**
+   * Find the documents most similar to a document.
+   *
+   * @param params - Document (catalog ID or source path) and result limit
+   * @returns Result containing the document and its similar documents, or
+   *   not_found for an unknown document
+   *
+   * @example
+   * ```typescript
+   * const result = await service.findSimilarDocuments({ source: '/docs/ddd.pdf', limit: 5 });
+   * if (result.ok) {
+   *   result.value.similar.forEach(s => console.log(s.document.source, s.sharedConcepts));
+   * }
+   * ```
+   */
+  async findSimilarDocuments(
+    params: SimilarDocumentsParams
+  ): Promise<Result<SimilarDocumentsResult, SimilarDocumentsError>> {
+    try {
+      this.validator.validateSimilarDocuments(params);
+    } catch (error) {
+      return Err({
+        type: 'validation',
+        field: 'params',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const { catalogId, source, limit = DEFAULT_SIMILAR_DOCUMENTS_LIMIT } = params;
+
+    try {
+      const documentOpt: Option<SearchResult> = catalogId !== undefined
+        ? await this.catalogRepo.findById(catalogId)
+        : await this.catalogRepo.findBySource(source!);
+      if (!isSome(documentOpt)) {
+        return Err({
+          type: 'not_found',
+          resource: catalogId !== undefined ? `document ${catalogId}` : source!
+        });
+      }
+      const document = documentOpt.value;
+
+      const embedding = Array.from(document.embeddings ?? []);
+      const candidates = embedding.length > 0
+        ? await this.catalogRepo.findByVector(embedding, Math.max(limit * CANDIDATES_PER_RESULT, MIN_CANDIDATES) + 1)
+        : [];
+
+      const seen = new Set<number>([document.catalogId]);
+      const similar: SimilarDocument[] = [];
+      for (const candidate of candidates) {
+        if (seen.has(candidate.catalogId) || candidate.source === document.source) continue;
+        seen.add(candidate.catalogId);
+        const scored = scoreSimilarity(document, embedding, candidate);
+        if (scored.score > 0) {
+          similar.push(scored);
+        }
+      }
+      similar.sort((a, b) => b.score - a.score || a.document.catalogId - b.document.catalogId);
+
+      return Ok({ document, similar: similar.slice(0, limit) });
+    } catch (error) {
+      if (error instanceof Error && error.constructor.name === 'DatabaseError') {
+        return Err({
+          type: 'database',
+          message: error.message
+        });
+      }
+
+      return Err({
+        type: 'unknown',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Score a candidate's similarity to the document.
+ */
+function scoreSimilarity(document: SearchResult, embedding: number[], candidate: SearchResult): SimilarDocument {
+  const vectorScore = Math.max(0, cosineSimilarity(embedding, Array.from(candidate.embeddings ?? [])));
+  const concepts = overlap(document.documentConceptIds, document.conceptNames, candidate.documentConceptIds);
+  const categories = overlap(document.categoryIds, document.categoryNames, candidate.categoryIds);
+  return {
+    document: candidate,
+    score: SIMILARITY_WEIGHTS.vector * vectorScore +
+      SIMILARITY_WEIGHTS.concepts * concepts.jaccard +
+      SIMILARITY_WEIGHTS.categories * categories.jaccard,
+    vectorScore,
+    conceptScore: concepts.jaccard,
+    categoryScore: categories.jaccard,
+    sharedConcepts: concepts.sharedNames,
+    sharedCategories: categories.sharedNames
+  };
+}
+
+/**
+ * Jaccard overlap of two ID sets, with the names of the shared IDs.
+ *
+ * Names are the derived display names stored alongside the IDs (same
+ * order); shared IDs without a name are left out of the names.
+ */
+function overlap(
+  ids: readonly number[] | undefined,
+  names: readonly string[] | undefined,
+  otherIds: readonly number[] | undefined
+): { jaccard: number; sharedNames: string[] } {
+  const own = new Set((ids ?? []).filter(id => id !== 0));
+  const other = new Set((otherIds ?? []).filter(id => id !== 0));
+  const shared = Array.from(own).filter(id => other.has(id));
+  const union = own.size + other.size - shared.length;
+
+  const nameById = new Map<number, string>();
+  if (ids && names && ids.length === names.length) {
+    ids.forEach((id, i) => nameById.set(id, names[i]));
+  }
+
+  return {
+    jaccard: union > 0 ? shared.length / union : 0,
+    sharedNames: shared.map(id => nameById.get(id)).filter((name): name is string => !!name)
+  };
+}
+
+/**
+ * Cosine similarity of two vectors (0 for vectors of different length or
+ * without magnitude).
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
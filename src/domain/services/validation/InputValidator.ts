@@ -4,6 +4,11 @@ import {
   ValueOutOfRangeError,
   UnsupportedFormatError
 } from '../../exceptions/index.js';
+import { WEIGHT_PROFILE_NAMES } from '../../interfaces/services/hybrid-search-service.js';
+import { DOCUMENT_TYPES } from '../../models/search-filters.js';
+import { FACET_FIELDS } from '../../models/search-facets.js';
+import { SEARCH_COLLECTIONS } from '../../models/search-explanation.js';
+import { CONCEPT_PATH_MODES } from '../../models/concept-path.js';
 
 /**
  * Input validator for concept-RAG operations.
@@ -76,9 +81,11 @@ export class InputValidator {
    * Validate catalog search parameters.
    * @throws {RequiredFieldError} if text is missing
    * @throws {InvalidFormatError} if debug is not boolean
+   * @throws {ValueOutOfRangeError} if text length or limit is out of range
    */
   validateCatalogSearch(params: {
     text?: string;
+    limit?: number;
     debug?: boolean;
   }): void {
     // Validate required text field
@@ -91,6 +98,16 @@ export class InputValidator {
       throw new ValueOutOfRangeError('text.length', params.text.length, 1, 1000);
     }
     
+    // Validate limit if provided
+    if (params.limit !== undefined) {
+      if (!Number.isInteger(params.limit)) {
+        throw new InvalidFormatError('limit', params.limit, 'integer');
+      }
+      if (params.limit < 1 || params.limit > 1000) {
+        throw new ValueOutOfRangeError('limit', params.limit, 1, 1000);
+      }
+    }
+    
     // Validate debug flag if provided
     if (params.debug !== undefined && typeof params.debug !== 'boolean') {
       throw new InvalidFormatError('debug', params.debug, 'boolean');
@@ -234,5 +251,338 @@ export class InputValidator {
       }
     }
   }
-}
+  
+  /**
+   * Validate a named search weight profile.
+   * @throws {InvalidFormatError} if the profile is not a known profile name
+   */
+  validateWeightProfile(profile?: unknown): void {
+    if (profile !== undefined && !(WEIGHT_PROFILE_NAMES as readonly unknown[]).includes(profile)) {
+      throw new InvalidFormatError('weight_profile', profile, WEIGHT_PROFILE_NAMES.join(', '));
+    }
+  }
+  
+  /**
+   * Validate search explanation parameters.
+   * @throws {RequiredFieldError} if text is missing
+   * @throws {InvalidFormatError} if the collection is unknown or limit is not an integer
+   * @throws {ValueOutOfRangeError} if text length or limit is out of range
+   */
+  validateExplainSearch(params: { text?: string; collection?: unknown; limit?: number }): void {
+    if (!params.text || params.text.trim().length === 0) {
+      throw new RequiredFieldError('text');
+    }
+    if (params.text.length > 1000) {
+      throw new ValueOutOfRangeError('text.length', params.text.length, 1, 1000);
+    }
+    if (params.collection !== undefined && !(SEARCH_COLLECTIONS as readonly unknown[]).includes(params.collection)) {
+      throw new InvalidFormatError('collection', params.collection, SEARCH_COLLECTIONS.join(', '));
+    }
+    // Every candidate is listed, so keep the candidate pool small
+    if (params.limit !== undefined) {
+      if (!Number.isInteger(params.limit)) {
+        throw new InvalidFormatError('limit', params.limit, 'integer');
+      }
+      if (params.limit < 1 || params.limit > 50) {
+        throw new ValueOutOfRangeError('limit', params.limit, 1, 50);
+      }
+    }
+  }
+  
+  /**
+   * Validate concept search (discovery) parameters.
+   * @throws {RequiredFieldError} if text is missing
+   * @throws {InvalidFormatError} if limit is not an integer
+   * @throws {ValueOutOfRangeError} if text length or limit is out of range
+   */
+  validateSearchConcepts(params: { text?: string; limit?: number }): void {
+    if (!params.text || params.text.trim().length === 0) {
+      throw new RequiredFieldError('text');
+    }
+    if (params.text.length > 1000) {
+      throw new ValueOutOfRangeError('text.length', params.text.length, 1, 1000);
+    }
+    if (params.limit !== undefined) {
+      if (!Number.isInteger(params.limit)) {
+        throw new InvalidFormatError('limit', params.limit, 'integer');
+      }
+      if (params.limit < 1 || params.limit > 100) {
+        throw new ValueOutOfRangeError('limit', params.limit, 1, 100);
+      }
+    }
+  }
+  
+  /**
+   * Validate similar documents parameters.
+   * @throws {RequiredFieldError} if neither catalog ID nor source is given
+   * @throws {InvalidFormatError} if both are given, the catalog ID or limit is
+   *   not an integer, or the source is blank
+   * @throws {ValueOutOfRangeError} if limit is out of range
+   */
+  validateSimilarDocuments(params: { catalogId?: unknown; source?: unknown; limit?: unknown }): void {
+    const hasCatalogId = params.catalogId !== undefined && params.catalogId !== null;
+    const hasSource = params.source !== undefined && params.source !== null;
+    if (!hasCatalogId && !hasSource) {
+      throw new RequiredFieldError('catalog_id');
+    }
+    if (hasCatalogId && hasSource) {
+      throw new InvalidFormatError('source', params.source, 'either catalog_id or source, not both');
+    }
+    if (hasCatalogId && !Number.isSafeInteger(params.catalogId)) {
+      throw new InvalidFormatError('catalog_id', params.catalogId, 'integer');
+    }
+    if (hasSource && (typeof params.source !== 'string' || params.source.trim().length === 0)) {
+      throw new InvalidFormatError('source', params.source, 'non-empty document path');
+    }
+    if (params.limit !== undefined) {
+      if (!Number.isInteger(params.limit)) {
+        throw new InvalidFormatError('limit', params.limit, 'integer');
+      }
+      if ((params.limit as number) < 1 || (params.limit as number) > 50) {
+        throw new ValueOutOfRangeError('limit', params.limit as number, 1, 50);
+      }
+    }
+  }
+  
+  /**
+   * Validate passage search parameters.
+   * @throws {RequiredFieldError} if passage is missing
+   * @throws {InvalidFormatError} if limit is not an integer
+   * @throws {ValueOutOfRangeError} if passage length or limit is out of range
+   */
+  validateFindPassage(params: { passage?: string; limit?: number }): void {
+    if (!params.passage || params.passage.trim().length === 0) {
+      throw new RequiredFieldError('passage');
+    }
+    if (params.passage.length > 5000) {
+      throw new ValueOutOfRangeError('passage.length', params.passage.length, 1, 5000);
+    }
+    if (params.limit !== undefined) {
+      if (!Number.isInteger(params.limit)) {
+        throw new InvalidFormatError('limit', params.limit, 'integer');
+      }
+      if (params.limit < 1 || params.limit > 20) {
+        throw new ValueOutOfRangeError('limit', params.limit, 1, 20);
+      }
+    }
+  }
+  
+  /**
+   * Validate concept path parameters.
+   * @throws {RequiredFieldError} if either concept is missing
+   * @throws {InvalidFormatError} if both concepts are the same or a value has the wrong format
+   * @throws {ValueOutOfRangeError} if a concept name, max_hops or limit is out of range
+   */
+  validateConceptPath(params: { from?: string; to?: string; mode?: unknown; maxHops?: unknown; limit?: unknown }): void {
+    for (const [field, concept] of [['from', params.from], ['to', params.to]] as const) {
+      if (!concept || concept.trim().length === 0) {
+        throw new RequiredFieldError(field);
+      }
+      if (concept.length > 1000) {
+        throw new ValueOutOfRangeError(`${field}.length`, concept.length, 1, 1000);
+      }
+    }
+    if (params.from!.toLowerCase().trim() === params.to!.toLowerCase().trim()) {
+      throw new InvalidFormatError('to', params.to, 'a concept other than from');
+    }
+    if (params.mode !== undefined && !(CONCEPT_PATH_MODES as readonly unknown[]).includes(params.mode)) {
+      throw new InvalidFormatError('mode', params.mode, CONCEPT_PATH_MODES.join(', '));
+    }
+    if (params.maxHops !== undefined) {
+      if (!Number.isInteger(params.maxHops)) {
+        throw new InvalidFormatError('max_hops', params.maxHops, 'integer');
+      }
+      if ((params.maxHops as number) < 1 || (params.maxHops as number) > 6) {
+        throw new ValueOutOfRangeError('max_hops', params.maxHops as number, 1, 6);
+      }
+    }
+    if (params.limit !== undefined) {
+      if (!Number.isInteger(params.limit)) {
+        throw new InvalidFormatError('limit', params.limit, 'integer');
+      }
+      if ((params.limit as number) < 1 || (params.limit as number) > 10) {
+        throw new ValueOutOfRangeError('limit', params.limit as number, 1, 10);
+      }
+    }
+  }
+  
+  /**
+   * Validate concept graph export parameters.
+   * @throws {InvalidFormatError} if a value has the wrong type
+   * @throws {ValueOutOfRangeError} if the category name or minimum weight is out of range
+   */
+  validateConceptGraph(params: {
+    category?: unknown;
+    minWeight?: unknown;
+    includeDocuments?: unknown;
+    includeCategories?: unknown;
+  }): void {
+    if (params.category !== undefined) {
+      if (typeof params.category !== 'string' || params.category.trim().length === 0) {
+        throw new InvalidFormatError('category', params.category, 'non-empty string');
+      }
+      if (params.category.length > 1000) {
+        throw new ValueOutOfRangeError('category.length', params.category.length, 1, 1000);
+      }
+    }
+    if (params.minWeight !== undefined) {
+      if (typeof params.minWeight !== 'number' || !Number.isFinite(params.minWeight)) {
+        throw new InvalidFormatError('min_weight', params.minWeight, 'number');
+      }
+      if (params.minWeight < 0 || params.minWeight > 1) {
+        throw new ValueOutOfRangeError('min_weight', params.minWeight, 0, 1);
+      }
+    }
+    for (const [field, flag] of [
+      ['include_documents', params.includeDocuments],
+      ['include_categories', params.includeCategories]
+    ] as const) {
+      if (flag !== undefined && typeof flag !== 'boolean') {
+        throw new InvalidFormatError(field, flag, 'boolean');
+      }
+    }
+  }
+
+  /**
+   * Validate chunk context parameters.
+   * @throws {RequiredFieldError} if the chunk ID is missing
+   * @throws {InvalidFormatError} if a value is not an integer
+   * @throws {ValueOutOfRangeError} if a neighbour count is out of range
+   */
+  validateChunkContext(params: { chunkId?: unknown; before?: unknown; after?: unknown }): void {
+    if (params.chunkId === undefined || params.chunkId === null) {
+      throw new RequiredFieldError('chunk_id');
+    }
+    if (!Number.isSafeInteger(params.chunkId)) {
+      throw new InvalidFormatError('chunk_id', params.chunkId, 'integer');
+    }
+    for (const [field, count] of [['before', params.before], ['after', params.after]] as const) {
+      if (count !== undefined) {
+        if (!Number.isInteger(count)) {
+          throw new InvalidFormatError(field, count, 'integer');
+        }
+        if ((count as number) < 0 || (count as number) > 20) {
+          throw new ValueOutOfRangeError(field, count as number, 0, 20);
+        }
+      }
+    }
+  }
+  
+  /**
+   * Validate the number of neighbouring chunks attached to search results.
+   * @throws {InvalidFormatError} if the value is not an integer
+   * @throws {ValueOutOfRangeError} if the value is outside 0-5
+   */
+  validateExpandContext(expandContext?: unknown): void {
+    if (expandContext === undefined) {
+      return;
+    }
+    if (!Number.isInteger(expandContext)) {
+      throw new InvalidFormatError('expand_context', expandContext, 'integer');
+    }
+    if ((expandContext as number) < 0 || (expandContext as number) > 5) {
+      throw new ValueOutOfRangeError('expand_context', expandContext as number, 0, 5);
+    }
+  }
 
+  /**
+   * Validate result diversification options.
+   * @throws {InvalidFormatError} if a value has the wrong type
+   * @throws {ValueOutOfRangeError} if the MMR lambda or per-document cap is out of range
+   */
+  validateDiversification(params: { mmrLambda?: unknown; maxPerDocument?: unknown }): void {
+    const { mmrLambda, maxPerDocument } = params;
+    if (mmrLambda !== undefined) {
+      if (typeof mmrLambda !== 'number' || !Number.isFinite(mmrLambda)) {
+        throw new InvalidFormatError('mmr_lambda', mmrLambda, 'number');
+      }
+      if (mmrLambda < 0 || mmrLambda > 1) {
+        throw new ValueOutOfRangeError('mmr_lambda', mmrLambda, 0, 1);
+      }
+    }
+    if (maxPerDocument !== undefined) {
+      if (!Number.isInteger(maxPerDocument)) {
+        throw new InvalidFormatError('max_per_document', maxPerDocument, 'integer');
+      }
+      if ((maxPerDocument as number) < 1 || (maxPerDocument as number) > 100) {
+        throw new ValueOutOfRangeError('max_per_document', maxPerDocument as number, 1, 100);
+      }
+    }
+  }
+  
+  /**
+   * Validate the facet fields requested for a search.
+   * @throws {InvalidFormatError} if facets is not an array or names an unknown field
+   */
+  validateFacets(facets?: unknown): void {
+    if (facets === undefined) {
+      return;
+    }
+    if (!Array.isArray(facets)) {
+      throw new InvalidFormatError('facets', facets, 'array');
+    }
+    for (const field of facets) {
+      if (!(FACET_FIELDS as readonly unknown[]).includes(field)) {
+        throw new InvalidFormatError('facets', field, FACET_FIELDS.join(', '));
+      }
+    }
+  }
+  
+  /**
+   * Validate structured search filters.
+   * @throws {InvalidFormatError} if filters or a filter value has the wrong type
+   * @throws {ValueOutOfRangeError} if a year, string length or ID count is out of range
+   */
+  validateSearchFilters(filters?: unknown): void {
+    if (filters === undefined) {
+      return;
+    }
+    if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+      throw new InvalidFormatError('filters', filters, 'object');
+    }
+    const { yearFrom, yearTo, documentType, author, category, venue, catalogIds } =
+      filters as Record<string, unknown>;
+    
+    // Validate year range
+    for (const [field, year] of [['filters.yearFrom', yearFrom], ['filters.yearTo', yearTo]] as const) {
+      if (year !== undefined) {
+        if (!Number.isInteger(year)) {
+          throw new InvalidFormatError(field, year, 'integer');
+        }
+        if ((year as number) < 0 || (year as number) > 9999) {
+          throw new ValueOutOfRangeError(field, year as number, 0, 9999);
+        }
+      }
+    }
+    if (yearFrom !== undefined && yearTo !== undefined && (yearFrom as number) > (yearTo as number)) {
+      throw new ValueOutOfRangeError('filters.yearFrom', yearFrom as number, 0, yearTo as number);
+    }
+    
+    // Validate document type
+    if (documentType !== undefined && !(DOCUMENT_TYPES as readonly unknown[]).includes(documentType)) {
+      throw new InvalidFormatError('filters.documentType', documentType, DOCUMENT_TYPES.join(', '));
+    }
+    
+    // Validate text filters
+    for (const [field, value] of [['filters.author', author], ['filters.category', category], ['filters.venue', venue]] as const) {
+      if (value !== undefined) {
+        if (typeof value !== 'string' || value.trim().length === 0) {
+          throw new InvalidFormatError(field, value, 'non-empty string');
+        }
+        if (value.length > 200) {
+          throw new ValueOutOfRangeError(`${field}.length`, value.length, 1, 200);
+        }
+      }
+    }
+    
+    // Validate catalog ID list
+    if (catalogIds !== undefined) {
+      if (!Array.isArray(catalogIds) || !catalogIds.every(id => Number.isSafeInteger(id))) {
+        throw new InvalidFormatError('filters.catalogIds', catalogIds, 'array of integers');
+      }
+      if (catalogIds.length < 1 || catalogIds.length > 1000) {
+        throw new ValueOutOfRangeError('filters.catalogIds.length', catalogIds.length, 1, 1000);
+      }
+    }
+  }
+}
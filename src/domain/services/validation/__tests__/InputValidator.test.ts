@@ -308,5 +308,221 @@ describe('InputValidator', () => {
       }).toThrow(InvalidFormatError);
     });
   });
+
+  describe('validateWeightProfile', () => {
+    it('should accept known profiles and undefined', () => {
+      expect(() => validator.validateWeightProfile(undefined)).not.toThrow();
+      expect(() => validator.validateWeightProfile('default')).not.toThrow();
+      expect(() => validator.validateWeightProfile('precise')).not.toThrow();
+      expect(() => validator.validateWeightProfile('exploratory')).not.toThrow();
+    });
+
+    it('should reject unknown profiles', () => {
+      expect(() => {
+        validator.validateWeightProfile('aggressive');
+      }).toThrow(InvalidFormatError);
+    });
+  });
+
+  describe('validateExplainSearch', () => {
+    it('should accept a query with or without collection and limit', () => {
+      expect(() => validator.validateExplainSearch({ text: 'raft' })).not.toThrow();
+      expect(() => validator.validateExplainSearch({ text: 'raft', collection: 'catalog', limit: 50 })).not.toThrow();
+    });
+
+    it('should reject a missing query, unknown collection or large limit', () => {
+      expect(() => validator.validateExplainSearch({ text: ' ' })).toThrow(RequiredFieldError);
+      expect(() => validator.validateExplainSearch({ text: 'raft', collection: 'concepts' })).toThrow(InvalidFormatError);
+      expect(() => validator.validateExplainSearch({ text: 'raft', limit: 51 })).toThrow(ValueOutOfRangeError);
+    });
+  });
+
+  describe('validateSearchConcepts', () => {
+    it('should accept a query with or without limit', () => {
+      expect(() => validator.validateSearchConcepts({ text: 'dependancy inj' })).not.toThrow();
+      expect(() => validator.validateSearchConcepts({ text: 'raft', limit: 100 })).not.toThrow();
+    });
+
+    it('should reject a missing query or a limit outside 1-100', () => {
+      expect(() => validator.validateSearchConcepts({ text: ' ' })).toThrow(RequiredFieldError);
+      expect(() => validator.validateSearchConcepts({ text: 'raft', limit: 101 })).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateSearchConcepts({ text: 'raft', limit: 2.5 })).toThrow(InvalidFormatError);
+    });
+  });
+
+  describe('validateSimilarDocuments', () => {
+    it('should accept a catalog ID or a source with or without limit', () => {
+      expect(() => validator.validateSimilarDocuments({ catalogId: 3847293847 })).not.toThrow();
+      expect(() => validator.validateSimilarDocuments({ source: '/docs/ddd.pdf', limit: 50 })).not.toThrow();
+    });
+
+    it('should require exactly one of catalog ID and source', () => {
+      expect(() => validator.validateSimilarDocuments({})).toThrow(RequiredFieldError);
+      expect(() => validator.validateSimilarDocuments({ catalogId: 1, source: '/docs/ddd.pdf' })).toThrow(InvalidFormatError);
+    });
+
+    it('should reject a non-integer catalog ID, blank source or limit outside 1-50', () => {
+      expect(() => validator.validateSimilarDocuments({ catalogId: '12' })).toThrow(InvalidFormatError);
+      expect(() => validator.validateSimilarDocuments({ source: '  ' })).toThrow(InvalidFormatError);
+      expect(() => validator.validateSimilarDocuments({ catalogId: 1, limit: 51 })).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateSimilarDocuments({ catalogId: 1, limit: 2.5 })).toThrow(InvalidFormatError);
+    });
+  });
+
+  describe('validateFindPassage', () => {
+    it('should accept a passage with or without limit', () => {
+      expect(() => validator.validateFindPassage({ passage: 'only one reason to change' })).not.toThrow();
+      expect(() => validator.validateFindPassage({ passage: 'x'.repeat(5000), limit: 20 })).not.toThrow();
+    });
+
+    it('should reject a missing or long passage or a limit outside 1-20', () => {
+      expect(() => validator.validateFindPassage({ passage: ' ' })).toThrow(RequiredFieldError);
+      expect(() => validator.validateFindPassage({ passage: 'x'.repeat(5001) })).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateFindPassage({ passage: 'raft', limit: 21 })).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateFindPassage({ passage: 'raft', limit: 1.5 })).toThrow(InvalidFormatError);
+    });
+  });
+
+  describe('validateConceptPath', () => {
+    it('should accept two concepts with or without options', () => {
+      expect(() => validator.validateConceptPath({ from: 'event sourcing', to: 'cqrs' })).not.toThrow();
+      expect(() => validator.validateConceptPath({
+        from: 'event sourcing', to: 'cqrs', mode: 'strongest', maxHops: 6, limit: 10
+      })).not.toThrow();
+    });
+
+    it('should reject a missing concept or a path from a concept to itself', () => {
+      expect(() => validator.validateConceptPath({ to: 'cqrs' })).toThrow(RequiredFieldError);
+      expect(() => validator.validateConceptPath({ from: 'cqrs', to: ' ' })).toThrow(RequiredFieldError);
+      expect(() => validator.validateConceptPath({ from: 'CQRS ', to: 'cqrs' })).toThrow(InvalidFormatError);
+    });
+
+    it('should reject an unknown mode or max_hops and limit out of range', () => {
+      expect(() => validator.validateConceptPath({ from: 'a', to: 'b', mode: 'longest' })).toThrow(InvalidFormatError);
+      expect(() => validator.validateConceptPath({ from: 'a', to: 'b', maxHops: 7 })).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateConceptPath({ from: 'a', to: 'b', maxHops: 2.5 })).toThrow(InvalidFormatError);
+      expect(() => validator.validateConceptPath({ from: 'a', to: 'b', limit: 0 })).toThrow(ValueOutOfRangeError);
+    });
+  });
+
+  describe('validateConceptGraph', () => {
+    it('should accept no options or valid filters', () => {
+      expect(() => validator.validateConceptGraph({})).not.toThrow();
+      expect(() => validator.validateConceptGraph({
+        category: 'software architecture', minWeight: 0.5, includeDocuments: true, includeCategories: false
+      })).not.toThrow();
+    });
+
+    it('should reject a blank category or non-boolean node options', () => {
+      expect(() => validator.validateConceptGraph({ category: ' ' })).toThrow(InvalidFormatError);
+      expect(() => validator.validateConceptGraph({ includeDocuments: 'true' })).toThrow(InvalidFormatError);
+    });
+
+    it('should reject a minimum weight that is not a number in 0-1', () => {
+      expect(() => validator.validateConceptGraph({ minWeight: NaN })).toThrow(InvalidFormatError);
+      expect(() => validator.validateConceptGraph({ minWeight: 1.5 })).toThrow(ValueOutOfRangeError);
+    });
+  });
+
+  describe('validateChunkContext', () => {
+    it('should accept a chunk ID with or without neighbour counts', () => {
+      expect(() => validator.validateChunkContext({ chunkId: 3847293847 })).not.toThrow();
+      expect(() => validator.validateChunkContext({ chunkId: 1, before: 0, after: 20 })).not.toThrow();
+    });
+
+    it('should reject a missing or non-integer chunk ID', () => {
+      expect(() => validator.validateChunkContext({})).toThrow(RequiredFieldError);
+      expect(() => validator.validateChunkContext({ chunkId: '12' })).toThrow(InvalidFormatError);
+    });
+
+    it('should reject neighbour counts outside 0-20', () => {
+      expect(() => validator.validateChunkContext({ chunkId: 1, before: -1 })).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateChunkContext({ chunkId: 1, after: 21 })).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateChunkContext({ chunkId: 1, after: 1.5 })).toThrow(InvalidFormatError);
+    });
+  });
+
+  describe('validateExpandContext', () => {
+    it('should accept 0-5 and undefined', () => {
+      expect(() => validator.validateExpandContext(undefined)).not.toThrow();
+      expect(() => validator.validateExpandContext(0)).not.toThrow();
+      expect(() => validator.validateExpandContext(5)).not.toThrow();
+    });
+
+    it('should reject other values', () => {
+      expect(() => validator.validateExpandContext(6)).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateExpandContext('2')).toThrow(InvalidFormatError);
+    });
+  });
+
+  describe('validateDiversification', () => {
+    it('should accept valid options and none', () => {
+      expect(() => validator.validateDiversification({})).not.toThrow();
+      expect(() => validator.validateDiversification({ mmrLambda: 0, maxPerDocument: 1 })).not.toThrow();
+      expect(() => validator.validateDiversification({ mmrLambda: 1, maxPerDocument: 100 })).not.toThrow();
+    });
+
+    it('should reject an MMR lambda outside [0, 1]', () => {
+      expect(() => validator.validateDiversification({ mmrLambda: 1.1 })).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateDiversification({ mmrLambda: '0.5' })).toThrow(InvalidFormatError);
+      expect(() => validator.validateDiversification({ mmrLambda: NaN })).toThrow(InvalidFormatError);
+    });
+
+    it('should reject an invalid per-document cap', () => {
+      expect(() => validator.validateDiversification({ maxPerDocument: 0 })).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateDiversification({ maxPerDocument: 2.5 })).toThrow(InvalidFormatError);
+    });
+  });
+
+  describe('validateFacets', () => {
+    it('should accept known fields, an empty list and undefined', () => {
+      expect(() => validator.validateFacets(undefined)).not.toThrow();
+      expect(() => validator.validateFacets([])).not.toThrow();
+      expect(() => validator.validateFacets(['category', 'author', 'year', 'document_type', 'venue'])).not.toThrow();
+    });
+
+    it('should reject a non-array and unknown fields', () => {
+      expect(() => validator.validateFacets('category')).toThrow(InvalidFormatError);
+      expect(() => validator.validateFacets(['category', 'publisher'])).toThrow(InvalidFormatError);
+    });
+  });
+
+  describe('validateSearchFilters', () => {
+    it('should accept valid filters and undefined', () => {
+      expect(() => validator.validateSearchFilters(undefined)).not.toThrow();
+      expect(() => validator.validateSearchFilters({
+        yearFrom: 2000,
+        yearTo: 2020,
+        documentType: 'paper',
+        author: 'lamport',
+        category: 'distributed systems',
+        venue: 'PODC',
+        catalogIds: [1, 2]
+      })).not.toThrow();
+    });
+
+    it('should reject a non-object', () => {
+      expect(() => validator.validateSearchFilters('year > 2000')).toThrow(InvalidFormatError);
+      expect(() => validator.validateSearchFilters([2000])).toThrow(InvalidFormatError);
+    });
+
+    it('should validate the year range', () => {
+      expect(() => validator.validateSearchFilters({ yearFrom: 2000.5 })).toThrow(InvalidFormatError);
+      expect(() => validator.validateSearchFilters({ yearTo: -1 })).toThrow(ValueOutOfRangeError);
+      expect(() => validator.validateSearchFilters({ yearFrom: 2020, yearTo: 2010 })).toThrow(ValueOutOfRangeError);
+    });
+
+    it('should validate document type and text filters', () => {
+      expect(() => validator.validateSearchFilters({ documentType: 'thesis' })).toThrow(InvalidFormatError);
+      expect(() => validator.validateSearchFilters({ author: '   ' })).toThrow(InvalidFormatError);
+      expect(() => validator.validateSearchFilters({ venue: 42 })).toThrow(InvalidFormatError);
+      expect(() => validator.validateSearchFilters({ category: 'x'.repeat(201) })).toThrow(ValueOutOfRangeError);
+    });
+
+    it('should validate catalog IDs', () => {
+      expect(() => validator.validateSearchFilters({ catalogIds: ['1'] })).toThrow(InvalidFormatError);
+      expect(() => validator.validateSearchFilters({ catalogIds: [] })).toThrow(ValueOutOfRangeError);
+    });
+  });
 });
 
@@ -71,6 +71,49 @@ describe('EmbeddingCache', () => {
     });
   });
   
+  describe('Bulk Operations', () => {
+    it('should get and set many embeddings in input order', () => {
+      cache.setMany(['a', 'b'], 'model1', [mockEmbedding, mockEmbedding2]);
+      
+      expect(cache.getMany(['b', 'missing', 'a'], 'model1')).toEqual([
+        mockEmbedding2,
+        undefined,
+        mockEmbedding
+      ]);
+    });
+    
+    it('should generate only de-duplicated misses in one call', async () => {
+      cache.set('cached', 'model1', mockEmbedding);
+      const calls: string[][] = [];
+      
+      const result = await cache.getOrGenerateMany(
+        ['new1', 'cached', 'new2', 'new1'],
+        'model1',
+        async misses => {
+          calls.push(misses);
+          return misses.map(() => mockEmbedding2);
+        }
+      );
+      
+      expect(calls).toEqual([['new1', 'new2']]);
+      expect(result).toEqual([mockEmbedding2, mockEmbedding, mockEmbedding2, mockEmbedding2]);
+      expect(cache.get('new2', 'model1')).toEqual(mockEmbedding2);
+    });
+    
+    it('should not call generator when everything is cached', async () => {
+      cache.setMany(['a', 'b'], 'model1', [mockEmbedding, mockEmbedding2]);
+      let called = false;
+      
+      const result = await cache.getOrGenerateMany(['a', 'b'], 'model1', async misses => {
+        called = true;
+        return misses.map(() => mockEmbedding);
+      });
+      
+      expect(called).toBe(false);
+      expect(result).toEqual([mockEmbedding, mockEmbedding2]);
+    });
+  });
+  
   describe('Cache Key Generation', () => {
     it('should generate consistent keys for same text', () => {
       cache.set('test text', 'model1', mockEmbedding);
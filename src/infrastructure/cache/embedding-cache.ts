@@ -33,8 +33,12 @@
  * }
  * 
  * // Generate and cache
- * const embedding = service.generateEmbedding('hello world');
+ * const embedding = await service.generateEmbedding('hello world');
  * cache.set('hello world', 'simple-hash-v1', embedding);
+ * 
+ * // Bulk: only misses are passed to the generator (in one call)
+ * const vectors = await cache.getOrGenerateMany(texts, 'simple-hash-v1',
+ *   misses => provider.embedBatch(misses));
  * ```
  */
 
@@ -109,6 +113,62 @@ export class EmbeddingCache {
     this.cache.set(key, embedding);
   }
   
+  /**
+   * Get cached embedding vectors for many texts.
+   * 
+   * @param texts - Texts to look up
+   * @param model - Model identifier
+   * @returns Cached vector or undefined for each text, in input order
+   */
+  getMany(texts: string[], model: string): Array<number[] | undefined> {
+    return texts.map(text => this.get(text, model));
+  }
+  
+  /**
+   * Cache embedding vectors for many texts.
+   * 
+   * @param texts - Texts that were embedded
+   * @param model - Model identifier
+   * @param embeddings - Embedding vectors, aligned with texts
+   */
+  setMany(texts: string[], model: string, embeddings: number[][]): void {
+    texts.forEach((text, i) => this.set(text, model, embeddings[i]));
+  }
+  
+  /**
+   * Resolve embeddings for many texts, generating all cache misses in bulk.
+   * 
+   * Misses are de-duplicated and passed to `generate` in a single call;
+   * the results are cached and merged back in input order.
+   * 
+   * @param texts - Texts to embed
+   * @param model - Model identifier
+   * @param generate - Generates vectors for the missing texts (aligned with its input)
+   * @returns One vector per text, in input order
+   */
+  async getOrGenerateMany(
+    texts: string[],
+    model: string,
+    generate: (misses: string[]) => Promise<number[][]>
+  ): Promise<number[][]> {
+    const results = this.getMany(texts, model);
+    
+    const misses = Array.from(new Set(texts.filter((_, i) => !results[i])));
+    if (misses.length > 0) {
+      const generated = await generate(misses);
+      this.setMany(misses, model, generated);
+      
+      const byText = new Map(misses.map((text, i) => [text, generated[i]]));
+      texts.forEach((text, i) => {
+        if (!results[i]) {
+          results[i] = byText.get(text);
+        }
+      });
+    }
+    
+    return results as number[][];
+  }
+  
   /**
    * Check if text embedding is cached for given model.
    * 
@@ -5,12 +5,20 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {
   EmbeddingProviderFactory,
   createEmbeddingService,
+  resolveEmbeddingSignature,
   UnsupportedEmbeddingProviderError
 } from '../embedding-provider-factory.js';
 import { SimpleEmbeddingService } from '../simple-embedding-service.js';
+import { OpenAICompatibleEmbeddingService } from '../openai-compatible-embedding-service.js';
+import { TfidfEmbeddingService } from '../tfidf-embedding-service.js';
+import { fitTfidfModel, saveTfidfModel } from '../tfidf-model.js';
+import { InvalidConfigError } from '../../../domain/exceptions/index.js';
 import type { EmbeddingConfig } from '../../../application/config/types.js';
 
 describe('EmbeddingProviderFactory', () => {
@@ -35,22 +43,41 @@ describe('EmbeddingProviderFactory', () => {
       expect(() => factory.create('Simple')).not.toThrow();
     });
     
-    it('should throw for OpenAI provider (not yet implemented)', () => {
-      const factory = new EmbeddingProviderFactory(defaultConfig);
+    it('should throw InvalidConfigError for transformer provider without local model', () => {
+      const factory = new EmbeddingProviderFactory({
+        ...defaultConfig,
+        provider: 'transformer',
+        modelPath: '/nonexistent/models/all-MiniLM-L6-v2'
+      });
       
-      expect(() => factory.create('openai')).toThrow('OpenAI embedding provider not yet implemented');
+      expect(() => factory.create('transformer')).toThrow(InvalidConfigError);
+      expect(() => factory.create('transformer')).toThrow('EMBEDDING_MODEL_PATH');
     });
     
-    it('should throw for Voyage provider (not yet implemented)', () => {
+    it('should create tfidf provider without an existing model (loaded lazily)', async () => {
+      const factory = new EmbeddingProviderFactory(defaultConfig, undefined, undefined, '/nonexistent/db');
+      const provider = factory.create('tfidf');
+      
+      expect(provider).toBeInstanceOf(TfidfEmbeddingService);
+      await expect(provider.generateEmbedding('test')).rejects.toThrow(InvalidConfigError);
+    });
+    
+    it('should create OpenAI-compatible provider for openai', () => {
       const factory = new EmbeddingProviderFactory(defaultConfig);
       
-      expect(() => factory.create('voyage')).toThrow('Voyage AI embedding provider not yet implemented');
+      expect(factory.create('openai')).toBeInstanceOf(OpenAICompatibleEmbeddingService);
     });
     
-    it('should throw for Ollama provider (not yet implemented)', () => {
+    it('should create OpenAI-compatible provider for ollama', () => {
+      const factory = new EmbeddingProviderFactory({ ...defaultConfig, baseUrl: 'http://127.0.0.1:11434/v1' });
+      
+      expect(factory.create('ollama')).toBeInstanceOf(OpenAICompatibleEmbeddingService);
+    });
+    
+    it('should throw for Voyage provider (not yet implemented)', () => {
       const factory = new EmbeddingProviderFactory(defaultConfig);
       
-      expect(() => factory.create('ollama')).toThrow('Ollama embedding provider not yet implemented');
+      expect(() => factory.create('voyage')).toThrow('Voyage AI embedding provider not yet implemented');
     });
     
     it('should throw UnsupportedEmbeddingProviderError for unknown provider', () => {
@@ -95,6 +122,10 @@ describe('EmbeddingProviderFactory', () => {
     it('should return true for supported providers', () => {
       expect(factory.isSupported('simple')).toBe(true);
       expect(factory.isSupported('SIMPLE')).toBe(true);
+      expect(factory.isSupported('transformer')).toBe(true);
+      expect(factory.isSupported('tfidf')).toBe(true);
+      expect(factory.isSupported('openai')).toBe(true);
+      expect(factory.isSupported('ollama')).toBe(true);
     });
     
     it('should return false for unsupported providers', () => {
@@ -104,9 +135,7 @@ describe('EmbeddingProviderFactory', () => {
     
     it('should return false for not-yet-implemented providers', () => {
       // These will throw errors but are not in supportedProviders list yet
-      expect(factory.isSupported('openai')).toBe(false);
       expect(factory.isSupported('voyage')).toBe(false);
-      expect(factory.isSupported('ollama')).toBe(false);
     });
   });
   
@@ -130,22 +159,22 @@ describe('EmbeddingProviderFactory', () => {
   });
   
   describe('provider functionality', () => {
-    it('should create working embedding service', () => {
+    it('should create working embedding service', async () => {
       const factory = new EmbeddingProviderFactory(defaultConfig);
       const provider = factory.create('simple');
       
-      const embedding = provider.generateEmbedding('test text');
+      const embedding = await provider.generateEmbedding('test text');
       
       expect(embedding).toHaveLength(384);
       expect(embedding.every(n => typeof n === 'number')).toBe(true);
     });
     
-    it('should create consistent embeddings', () => {
+    it('should create consistent embeddings', async () => {
       const factory = new EmbeddingProviderFactory(defaultConfig);
       const provider = factory.create('simple');
       
-      const emb1 = provider.generateEmbedding('test');
-      const emb2 = provider.generateEmbedding('test');
+      const emb1 = await provider.generateEmbedding('test');
+      const emb2 = await provider.generateEmbedding('test');
       
       expect(emb1).toEqual(emb2);
     });
@@ -165,7 +194,7 @@ describe('createEmbeddingService', () => {
     expect(service).toBeInstanceOf(SimpleEmbeddingService);
   });
   
-  it('should create working service', () => {
+  it('should create working service', async () => {
     const config: EmbeddingConfig = {
       provider: 'simple',
       dimensions: 384,
@@ -173,12 +202,47 @@ describe('createEmbeddingService', () => {
     };
     
     const service = createEmbeddingService(config);
-    const embedding = service.generateEmbedding('test');
+    const embedding = await service.generateEmbedding('test');
     
     expect(embedding).toHaveLength(384);
   });
 });
 
+describe('resolveEmbeddingSignature', () => {
+  it('should always report 384 dimensions for the simple provider', () => {
+    expect(resolveEmbeddingSignature({ provider: 'Simple', dimensions: 768, batchSize: 100 }))
+      .toEqual({ provider: 'simple', model: 'simple-hash', dimensions: 384 });
+  });
+  
+  it('should apply provider default models', () => {
+    expect(resolveEmbeddingSignature({ provider: 'transformer', dimensions: 384, batchSize: 32 }).model)
+      .toBe('all-MiniLM-L6-v2');
+    expect(resolveEmbeddingSignature({ provider: 'ollama', dimensions: 768, batchSize: 100 }))
+      .toEqual({ provider: 'ollama', model: 'nomic-embed-text', dimensions: 768 });
+  });
+  
+  it('should prefer the configured model', () => {
+    expect(resolveEmbeddingSignature({ provider: 'openai', model: 'text-embedding-3-large', dimensions: 1024, batchSize: 100 }).model)
+      .toBe('text-embedding-3-large');
+  });
+  
+  it('should include the fingerprint of the fitted tfidf model', () => {
+    const databaseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tfidf-signature-'));
+    const config: EmbeddingConfig = { provider: 'tfidf', dimensions: 4, batchSize: 100 };
+    try {
+      expect(resolveEmbeddingSignature(config, databaseDir).model).toBe('tfidf-lsa');
+      
+      const model = fitTfidfModel(['event sourcing stores events', 'sagas coordinate distributed transactions'], { dimensions: 4, minDocumentFrequency: 1 });
+      saveTfidfModel(model, path.join(databaseDir, 'tfidf'));
+      
+      expect(resolveEmbeddingSignature(config, databaseDir))
+        .toEqual({ provider: 'tfidf', model: `tfidf-lsa@${model.fingerprint}`, dimensions: 4 });
+    } finally {
+      fs.rmSync(databaseDir, { recursive: true, force: true });
+    }
+  });
+});
+
 describe('UnsupportedEmbeddingProviderError', () => {
   it('should have correct name', () => {
     const error = new UnsupportedEmbeddingProviderError('test', ['simple']);
@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for OpenAICompatibleEmbeddingService
+ *
+ * Runs against a local HTTP stand-in for an OpenAI-compatible
+ * `/embeddings` endpoint.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleEmbeddingService } from '../openai-compatible-embedding-service.js';
+import { EmbeddingCache } from '../../cache/embedding-cache.js';
+import { ResilientExecutor } from '../../resilience/resilient-executor.js';
+import { RetryService } from '../../utils/retry-service.js';
+import {
+  EmbeddingError,
+  EmbeddingProviderError,
+  InvalidEmbeddingDimensionsError
+} from '../../../domain/exceptions/index.js';
+
+interface RecordedRequest {
+  url?: string;
+  authorization?: string;
+  body: { model: string; input: string[]; dimensions?: number };
+}
+
+/** Deterministic 4-dim vector per text (un-normalized, so normalization is observable) */
+function vectorFor(text: string): number[] {
+  return [text.length, 1, 0, 0];
+}
+
+describe('OpenAICompatibleEmbeddingService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let responder: (body: RecordedRequest['body'], res: http.ServerResponse) => void;
+
+  const defaultResponder = (body: RecordedRequest['body'], res: http.ServerResponse) => {
+    // Return data in reverse order to verify index-based ordering
+    const data = body.input
+      .map((text, index) => ({ object: 'embedding', index, embedding: vectorFor(text) }))
+      .reverse();
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ object: 'list', data, model: body.model }));
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push({ url: req.url, authorization: req.headers.authorization, body });
+        responder(body, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    responder = defaultResponder;
+  });
+
+  const createService = (overrides: Partial<ConstructorParameters<typeof OpenAICompatibleEmbeddingService>[0]> = {}, cache?: EmbeddingCache) =>
+    new OpenAICompatibleEmbeddingService(
+      { provider: 'openai', baseUrl, model: 'test-model', dimensions: 4, ...overrides },
+      new ResilientExecutor(new RetryService()),
+      cache
+    );
+
+  it('should POST to {baseUrl}/embeddings and return a normalized vector', async () => {
+    // SETUP
+    const service = createService();
+
+    // EXERCISE
+    const embedding = await service.generateEmbedding('abc');
+
+    // VERIFY
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/embeddings');
+    expect(requests[0].body).toEqual({ model: 'test-model', input: ['abc'] });
+    const norm = Math.sqrt(embedding.reduce((sum, v) => sum + v * v, 0));
+    expect(norm).toBeCloseTo(1.0, 6);
+    expect(embedding[0]).toBeCloseTo(3 / Math.sqrt(10), 6);
+  });
+
+  it('should split generateEmbeddings into batchSize requests preserving order', async () => {
+    // SETUP
+    const service = createService({ batchSize: 2 });
+    const texts = ['a', 'bb', 'ccc', 'dddd', 'eeeee'];
+
+    // EXERCISE
+    const embeddings = await service.generateEmbeddings(texts);
+
+    // VERIFY
+    expect(requests.map(r => r.body.input)).toEqual([['a', 'bb'], ['ccc', 'dddd'], ['eeeee']]);
+    expect(embeddings).toHaveLength(5);
+    for (let i = 0; i < texts.length; i++) {
+      expect(embeddings[i]).toEqual(await createService().generateEmbedding(texts[i]));
+    }
+  });
+
+  it('should request only cache misses in bulk', async () => {
+    const service = createService({}, new EmbeddingCache(10));
+    await service.generateEmbedding('a');
+    requests = [];
+
+    await service.generateEmbeddings(['a', 'b', 'c']);
+
+    expect(requests.map(r => r.body.input)).toEqual([['b', 'c']]);
+  });
+
+  it('should send bearer token and dimensions when configured', async () => {
+    const service = createService({ apiKey: 'secret', sendDimensions: true });
+
+    await service.generateEmbedding('abc');
+
+    expect(requests[0].authorization).toBe('Bearer secret');
+    expect(requests[0].body.dimensions).toBe(4);
+  });
+
+  it('should use the cache to avoid repeat requests', async () => {
+    const service = createService({}, new EmbeddingCache(10));
+
+    const first = await service.generateEmbedding('cached text');
+    const second = await service.generateEmbedding('cached text');
+
+    expect(second).toEqual(first);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should reject responses with unexpected dimensions', async () => {
+    const service = createService({ dimensions: 8 });
+
+    await expect(service.generateEmbedding('abc')).rejects.toThrow(InvalidEmbeddingDimensionsError);
+    expect(requests).toHaveLength(1);  // Not retried
+  });
+
+  it('should fail fast on client errors', async () => {
+    responder = (_body, res) => {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'unknown model' } }));
+    };
+    const service = createService();
+
+    const error = await service.generateEmbedding('abc').catch(e => e);
+
+    expect(error).toBeInstanceOf(EmbeddingError);
+    expect(error).not.toBeInstanceOf(EmbeddingProviderError);
+    expect(error.context.statusCode).toBe(400);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should retry transient server errors', async () => {
+    let calls = 0;
+    responder = (body, res) => {
+      if (calls++ === 0) {
+        res.writeHead(503);
+        res.end('busy');
+        return;
+      }
+      defaultResponder(body, res);
+    };
+    const service = createService();
+
+    const embedding = await service.generateEmbedding('abc');
+
+    expect(embedding).toHaveLength(4);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should surface connection failures as EmbeddingProviderError', async () => {
+    // Pass-through executor avoids retry delays: one attempt shows the error type
+    const passThrough = { execute: (op: () => Promise<unknown>) => op() } as unknown as ResilientExecutor;
+    const service = new OpenAICompatibleEmbeddingService(
+      { provider: 'ollama', baseUrl: 'http://127.0.0.1:1/v1', model: 'm' },
+      passThrough
+    );
+
+    await expect(service.generateEmbedding('abc')).rejects.toThrow(EmbeddingProviderError);
+  });
+});
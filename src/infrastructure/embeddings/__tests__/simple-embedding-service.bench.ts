@@ -19,12 +19,12 @@ describe('Embedding Generation Performance Benchmarks', () => {
   const iterations = 100;
   
   describe('generateEmbedding', () => {
-    it('should benchmark embedding generation for short text', () => {
+    it('should benchmark embedding generation for short text', async () => {
       const shortText = 'This is a short document.';
       
       const start = performance.now();
       for (let i = 0; i < iterations; i++) {
-        embeddingService.generateEmbedding(shortText);
+        await embeddingService.generateEmbedding(shortText);
       }
       const duration = performance.now() - start;
       
@@ -35,14 +35,14 @@ describe('Embedding Generation Performance Benchmarks', () => {
       expect(avgTime).toBeLessThan(1.0);
     });
     
-    it('should benchmark embedding generation for medium text', () => {
+    it('should benchmark embedding generation for medium text', async () => {
       const mediumText = 'This is a medium length document with multiple sentences. ' +
                         'It contains various words and terms that need to be processed. ' +
                         'The embedding service should handle this efficiently.';
       
       const start = performance.now();
       for (let i = 0; i < iterations; i++) {
-        embeddingService.generateEmbedding(mediumText);
+        await embeddingService.generateEmbedding(mediumText);
       }
       const duration = performance.now() - start;
       
@@ -53,7 +53,7 @@ describe('Embedding Generation Performance Benchmarks', () => {
       expect(avgTime).toBeLessThan(2.0);
     });
     
-    it('should benchmark embedding generation for long text', () => {
+    it('should benchmark embedding generation for long text', async () => {
       const longText = Array(50).fill(
         'This is a longer document with many sentences. ' +
         'It contains various words and terms repeated multiple times. ' +
@@ -62,7 +62,7 @@ describe('Embedding Generation Performance Benchmarks', () => {
       
       const start = performance.now();
       for (let i = 0; i < iterations; i++) {
-        embeddingService.generateEmbedding(longText);
+        await embeddingService.generateEmbedding(longText);
       }
       const duration = performance.now() - start;
       
@@ -73,7 +73,7 @@ describe('Embedding Generation Performance Benchmarks', () => {
       expect(avgTime).toBeLessThan(5.0);
     });
     
-    it('should benchmark batch embedding generation', () => {
+    it('should benchmark batch embedding generation', async () => {
       const texts = Array(10).fill(0).map((_, i) => 
         `Document ${i}: This is a test document with some content.`
       );
@@ -81,7 +81,7 @@ describe('Embedding Generation Performance Benchmarks', () => {
       const start = performance.now();
       for (let i = 0; i < 10; i++) {
         for (const text of texts) {
-          embeddingService.generateEmbedding(text);
+          await embeddingService.generateEmbedding(text);
         }
       }
       const duration = performance.now() - start;
@@ -96,11 +96,11 @@ describe('Embedding Generation Performance Benchmarks', () => {
   });
   
   describe('embedding consistency', () => {
-    it('should verify embedding generation is deterministic', () => {
+    it('should verify embedding generation is deterministic', async () => {
       const text = 'This is a test document for consistency checking.';
       
-      const embedding1 = embeddingService.generateEmbedding(text);
-      const embedding2 = embeddingService.generateEmbedding(text);
+      const embedding1 = await embeddingService.generateEmbedding(text);
+      const embedding2 = await embeddingService.generateEmbedding(text);
       
       // Verify same input produces same output
       expect(embedding1).toEqual(embedding2);
@@ -7,68 +7,69 @@
 
 import { describe, it, expect } from 'vitest';
 import { SimpleEmbeddingService } from '../simple-embedding-service.js';
+import { EmbeddingCache } from '../../cache/embedding-cache.js';
 
 describe('SimpleEmbeddingService', () => {
   describe('generateEmbedding', () => {
-    it('should generate 384-dimensional embedding', () => {
+    it('should generate 384-dimensional embedding', async () => {
       // SETUP
       const service = new SimpleEmbeddingService();
       const text = 'test input';
       
       // EXERCISE
-      const embedding = service.generateEmbedding(text);
+      const embedding = await service.generateEmbedding(text);
       
       // VERIFY
       expect(embedding).toHaveLength(384);
     });
     
-    it('should generate normalized embedding (unit vector)', () => {
+    it('should generate normalized embedding (unit vector)', async () => {
       // SETUP
       const service = new SimpleEmbeddingService();
       const text = 'normalize this text';
       
       // EXERCISE
-      const embedding = service.generateEmbedding(text);
+      const embedding = await service.generateEmbedding(text);
       
       // VERIFY - Calculate norm (should be ~1.0 for unit vector)
       const norm = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
       expect(norm).toBeCloseTo(1.0, 5);
     });
     
-    it('should generate different embeddings for different texts', () => {
+    it('should generate different embeddings for different texts', async () => {
       // SETUP
       const service = new SimpleEmbeddingService();
       const text1 = 'innovation';
       const text2 = 'creativity';
       
       // EXERCISE
-      const embedding1 = service.generateEmbedding(text1);
-      const embedding2 = service.generateEmbedding(text2);
+      const embedding1 = await service.generateEmbedding(text1);
+      const embedding2 = await service.generateEmbedding(text2);
       
       // VERIFY - Embeddings should be different
       expect(embedding1).not.toEqual(embedding2);
     });
     
-    it('should generate consistent embeddings for same text', () => {
+    it('should generate consistent embeddings for same text', async () => {
       // SETUP
       const service = new SimpleEmbeddingService();
       const text = 'consistency test';
       
       // EXERCISE
-      const embedding1 = service.generateEmbedding(text);
-      const embedding2 = service.generateEmbedding(text);
+      const embedding1 = await service.generateEmbedding(text);
+      const embedding2 = await service.generateEmbedding(text);
       
       // VERIFY - Should be identical
       expect(embedding1).toEqual(embedding2);
     });
     
-    it('should handle empty string', () => {
+    it('should handle empty string', async () => {
       // SETUP
       const service = new SimpleEmbeddingService();
       const text = '';
       
       // EXERCISE
-      const embedding = service.generateEmbedding(text);
+      const embedding = await service.generateEmbedding(text);
       
       // VERIFY
       expect(embedding).toHaveLength(384);
@@ -77,13 +78,13 @@ describe('SimpleEmbeddingService', () => {
       expect(norm).toBeCloseTo(1.0, 5);
     });
     
-    it('should handle long text', () => {
+    it('should handle long text', async () => {
       // SETUP
       const service = new SimpleEmbeddingService();
       const text = 'word '.repeat(1000); // 5000 characters
       
       // EXERCISE
-      const embedding = service.generateEmbedding(text);
+      const embedding = await service.generateEmbedding(text);
       
       // VERIFY
       expect(embedding).toHaveLength(384);
@@ -91,27 +92,27 @@ describe('SimpleEmbeddingService', () => {
       expect(norm).toBeCloseTo(1.0, 5);
     });
     
-    it('should handle special characters', () => {
+    it('should handle special characters', async () => {
       // SETUP
       const service = new SimpleEmbeddingService();
       const text = '!@#$%^&*()_+-={}[]|:";\'<>?,./';
       
       // EXERCISE
-      const embedding = service.generateEmbedding(text);
+      const embedding = await service.generateEmbedding(text);
       
       // VERIFY
       expect(embedding).toHaveLength(384);
     });
     
-    it('should encode text length information', () => {
+    it('should encode text length information', async () => {
       // SETUP
       const service = new SimpleEmbeddingService();
       const shortText = 'short';
       const longText = 'this is a much longer text with many more words and characters';
       
       // EXERCISE
-      const shortEmbedding = service.generateEmbedding(shortText);
-      const longEmbedding = service.generateEmbedding(longText);
+      const shortEmbedding = await service.generateEmbedding(shortText);
+      const longEmbedding = await service.generateEmbedding(longText);
       
       // VERIFY - First dimensions encode length information
       // Longer text should have different values in first dimensions
@@ -120,15 +121,53 @@ describe('SimpleEmbeddingService', () => {
     });
   });
   
+  describe('generateEmbeddings', () => {
+    it('should return one embedding per text in input order', async () => {
+      // SETUP
+      const service = new SimpleEmbeddingService();
+      const texts = ['first text', 'second text', 'first text'];
+      
+      // EXERCISE
+      const embeddings = await service.generateEmbeddings(texts);
+      
+      // VERIFY
+      expect(embeddings).toHaveLength(3);
+      expect(embeddings[0]).toEqual(await service.generateEmbedding('first text'));
+      expect(embeddings[1]).toEqual(await service.generateEmbedding('second text'));
+      expect(embeddings[2]).toEqual(embeddings[0]);
+    });
+    
+    it('should return empty array for empty input', async () => {
+      const service = new SimpleEmbeddingService();
+      
+      expect(await service.generateEmbeddings([])).toEqual([]);
+    });
+    
+    it('should only compute cache misses', async () => {
+      // SETUP
+      const cache = new EmbeddingCache(100);
+      const service = new SimpleEmbeddingService(cache);
+      await service.generateEmbedding('cached');
+      cache.resetMetrics();
+      
+      // EXERCISE
+      await service.generateEmbeddings(['cached', 'fresh']);
+      
+      // VERIFY
+      expect(cache.getMetrics().hits).toBe(1);
+      expect(cache.size).toBe(2);
+    });
+  });
+  
   describe('performance characteristics', () => {
-    it('should be fast enough for testing (< 10ms)', () => {
+    it('should be fast enough for testing (< 10ms)', async () => {
       // SETUP
       const service = new SimpleEmbeddingService();
       const text = 'performance test text with some words';
       
       // EXERCISE
       const start = Date.now();
-      service.generateEmbedding(text);
+      await service.generateEmbedding(text);
       const duration = Date.now() - start;
       
       // VERIFY
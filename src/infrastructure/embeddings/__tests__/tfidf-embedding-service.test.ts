@@ -0,0 +1,179 @@
+/**
+ * Unit Tests for the TF-IDF / LSA embedding provider
+ *
+ * Covers model fitting (vocabulary, IDF, SVD projection), persistence and
+ * the embedding service built on a saved model.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  fitTfidfModel,
+  saveTfidfModel,
+  loadTfidfModel,
+  readTfidfFingerprint,
+  tfidfModelExists,
+  resolveTfidfModelPath,
+  tokenizeForTfidf
+} from '../tfidf-model.js';
+import { TfidfEmbeddingService } from '../tfidf-embedding-service.js';
+import { EmbeddingCache } from '../../cache/embedding-cache.js';
+import { InvalidConfigError, InvalidEmbeddingDimensionsError } from '../../../domain/exceptions/index.js';
+
+const CORPUS = [
+  'Microservices communicate over lightweight network protocols and message queues',
+  'Service boundaries in microservices follow business capabilities and bounded contexts',
+  'Domain driven design models bounded contexts with a ubiquitous language',
+  'Aggregates and entities in domain driven design protect business invariants',
+  'Neural networks learn representations with gradient descent and backpropagation',
+  'Convolutional neural networks apply learned filters to images',
+  'Gradient descent minimizes the loss function of neural networks',
+  'Transformers replaced recurrent neural networks for language modelling',
+  'Message queues decouple producers and consumers in distributed systems',
+  'Distributed systems tolerate network partitions with replication and consensus',
+  'Consensus protocols such as Raft replicate logs across distributed nodes',
+  'Bounded contexts map onto service boundaries of microservices'
+];
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('tokenizeForTfidf', () => {
+  it('should lowercase, drop stop words, single characters and numbers', () => {
+    expect(tokenizeForTfidf('The Art of War, chapter 2: a Strategy!')).toEqual(['art', 'war', 'chapter', 'strategy']);
+  });
+
+  it('should keep non-ASCII letters', () => {
+    expect(tokenizeForTfidf('Größe und Maß')).toEqual(['größe', 'und', 'maß']);
+  });
+});
+
+describe('fitTfidfModel', () => {
+  it('should order vocabulary by document frequency and weight rare terms higher', () => {
+    const model = fitTfidfModel(CORPUS, { dimensions: 64, lsa: false, minDocumentFrequency: 1 });
+
+    // Equal frequencies are ordered alphabetically
+    expect(model.vocabulary.slice(0, 2)).toEqual(['networks', 'neural']);
+    expect(model.rank).toBe(0);
+    expect(model.projection).toBeUndefined();
+    const idf = (term: string) => model.idf[model.vocabulary.indexOf(term)];
+    expect(idf('raft')).toBeGreaterThan(idf('neural'));
+  });
+
+  it('should cap the vocabulary at dimensions without LSA', () => {
+    const model = fitTfidfModel(CORPUS, { dimensions: 5, lsa: false });
+
+    expect(model.vocabulary).toHaveLength(5);
+  });
+
+  it('should fit an orthonormal projection of the requested rank', () => {
+    const model = fitTfidfModel(CORPUS, { dimensions: 6, minDocumentFrequency: 1 });
+    const columns = model.vocabulary.length;
+
+    expect(model.rank).toBe(6);
+    expect(model.projection).toHaveLength(6 * columns);
+    const row = (j: number) => Array.from(model.projection!.subarray(j * columns, (j + 1) * columns));
+    for (let i = 0; i < model.rank; i++) {
+      for (let j = 0; j < model.rank; j++) {
+        expect(cosine(row(i), row(j))).toBeCloseTo(i === j ? 1 : 0, 4);
+      }
+    }
+  });
+
+  it('should be deterministic', () => {
+    const first = fitTfidfModel(CORPUS, { dimensions: 6, minDocumentFrequency: 1 });
+    const second = fitTfidfModel(CORPUS, { dimensions: 6, minDocumentFrequency: 1 });
+
+    expect(second.fingerprint).toBe(first.fingerprint);
+    expect(Array.from(second.projection!)).toEqual(Array.from(first.projection!));
+  });
+});
+
+describe('TF-IDF model persistence', () => {
+  let modelDir: string;
+
+  beforeEach(() => {
+    modelDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tfidf-model-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(modelDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a model with projection', () => {
+    const model = fitTfidfModel(CORPUS, { dimensions: 6, minDocumentFrequency: 1 });
+
+    saveTfidfModel(model, modelDir);
+    const loaded = loadTfidfModel(modelDir);
+
+    expect(tfidfModelExists(modelDir)).toBe(true);
+    expect(loaded).toEqual(model);
+  });
+
+  it('should reject a missing model', () => {
+    expect(() => loadTfidfModel(path.join(modelDir, 'missing'))).toThrow(InvalidConfigError);
+  });
+
+  it('should read the fingerprint of a saved model', () => {
+    const model = fitTfidfModel(CORPUS, { dimensions: 6, minDocumentFrequency: 1 });
+
+    saveTfidfModel(model, modelDir);
+
+    expect(readTfidfFingerprint(modelDir)).toBe(model.fingerprint);
+    expect(readTfidfFingerprint(path.join(modelDir, 'missing'))).toBeUndefined();
+  });
+
+  it('should default to a tfidf directory next to the database', () => {
+    expect(resolveTfidfModelPath(undefined, '/data/db')).toBe(path.join('/data/db', 'tfidf'));
+    expect(resolveTfidfModelPath('~/models/tfidf', '/data/db')).toBe(path.join(os.homedir(), 'models', 'tfidf'));
+  });
+
+  describe('TfidfEmbeddingService', () => {
+    it('should embed related texts closer than unrelated ones', async () => {
+      saveTfidfModel(fitTfidfModel(CORPUS, { dimensions: 6, minDocumentFrequency: 1 }), modelDir);
+      const service = new TfidfEmbeddingService({ modelPath: modelDir, dimensions: 6 });
+
+      const [query, related, unrelated] = await service.generateEmbeddings([
+        'microservices service boundaries',
+        'bounded contexts in domain driven design',
+        'gradient descent for neural networks'
+      ]);
+
+      expect(query).toHaveLength(6);
+      expect(cosine(query, query)).toBeCloseTo(1, 6);
+      expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+    });
+
+    it('should zero-pad raw TF-IDF vectors and return zero for unknown words', async () => {
+      saveTfidfModel(fitTfidfModel(CORPUS, { dimensions: 384, minDocumentFrequency: 1 }), modelDir);
+      const service = new TfidfEmbeddingService({ modelPath: modelDir, dimensions: 384 });
+
+      const known = await service.generateEmbedding('neural networks');
+      const unknown = await service.generateEmbedding('zebra');
+
+      expect(known).toHaveLength(384);
+      expect(known.filter(v => v > 0)).toHaveLength(2);
+      expect(unknown.every(v => v === 0)).toBe(true);
+    });
+
+    it('should reject a model fitted for other dimensions', async () => {
+      saveTfidfModel(fitTfidfModel(CORPUS, { dimensions: 6, minDocumentFrequency: 1 }), modelDir);
+      const service = new TfidfEmbeddingService({ modelPath: modelDir, dimensions: 384 });
+
+      await expect(service.generateEmbedding('test')).rejects.toThrow(InvalidEmbeddingDimensionsError);
+    });
+
+    it('should cache embeddings under the model fingerprint', async () => {
+      saveTfidfModel(fitTfidfModel(CORPUS, { dimensions: 6, minDocumentFrequency: 1 }), modelDir);
+      const cache = new EmbeddingCache(10);
+      const service = new TfidfEmbeddingService({ modelPath: modelDir }, cache);
+
+      await service.generateEmbeddings(['neural networks', 'neural networks']);
+
+      expect(cache.size).toBe(1);
+    });
+  });
+});
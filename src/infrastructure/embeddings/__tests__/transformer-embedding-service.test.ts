@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for TransformerEmbeddingService
+ *
+ * Covers model directory resolution and validation. Inference itself needs a
+ * real ONNX model on disk and is exercised manually via the seeder.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  TransformerEmbeddingService,
+  resolveTransformerModelPath,
+  DEFAULT_TRANSFORMER_MODEL
+} from '../transformer-embedding-service.js';
+import { EmbeddingError, InvalidConfigError } from '../../../domain/exceptions/index.js';
+
+describe('resolveTransformerModelPath', () => {
+  it('should default to ~/.concept_rag/models/<model>', () => {
+    expect(resolveTransformerModelPath(DEFAULT_TRANSFORMER_MODEL)).toBe(
+      path.join(os.homedir(), '.concept_rag', 'models', 'all-MiniLM-L6-v2')
+    );
+  });
+
+  it('should expand ~ in explicit paths', () => {
+    expect(resolveTransformerModelPath('x', '~/models/minilm')).toBe(
+      path.join(os.homedir(), 'models', 'minilm')
+    );
+  });
+
+  it('should use explicit absolute path as-is', () => {
+    expect(resolveTransformerModelPath('x', '/opt/models/minilm')).toBe('/opt/models/minilm');
+  });
+});
+
+describe('TransformerEmbeddingService', () => {
+  let modelDir: string;
+
+  beforeEach(() => {
+    modelDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transformer-model-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(modelDir, { recursive: true, force: true });
+  });
+
+  it('should reject a missing model directory', () => {
+    expect(() => new TransformerEmbeddingService({ modelPath: path.join(modelDir, 'missing') }))
+      .toThrow(InvalidConfigError);
+  });
+
+  it('should reject a directory without model.onnx', () => {
+    fs.writeFileSync(path.join(modelDir, 'vocab.txt'), '[UNK]\n[CLS]\n[SEP]\n');
+
+    expect(() => new TransformerEmbeddingService({ modelPath: modelDir }))
+      .toThrow('no model.onnx');
+  });
+
+  it('should reject a directory without vocab.txt', () => {
+    fs.mkdirSync(path.join(modelDir, 'onnx'));
+    fs.writeFileSync(path.join(modelDir, 'onnx', 'model.onnx'), '');
+
+    expect(() => new TransformerEmbeddingService({ modelPath: modelDir }))
+      .toThrow('no vocab.txt');
+  });
+
+  it('should surface model load failures as EmbeddingError', async () => {
+    // SETUP - valid layout, corrupt model
+    fs.writeFileSync(path.join(modelDir, 'model.onnx'), 'not an onnx model');
+    fs.writeFileSync(path.join(modelDir, 'vocab.txt'), '[PAD]\n[UNK]\n[CLS]\n[SEP]\n');
+    const service = new TransformerEmbeddingService({ modelPath: modelDir });
+
+    // EXERCISE & VERIFY
+    await expect(service.generateEmbedding('test')).rejects.toThrow(EmbeddingError);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit Tests for WordPieceTokenizer
+ *
+ * Uses a tiny in-memory vocabulary to verify BERT-style basic tokenization
+ * and greedy WordPiece splitting.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WordPieceTokenizer } from '../wordpiece-tokenizer.js';
+
+const VOCAB = [
+  '[PAD]', '[UNK]', '[CLS]', '[SEP]',
+  'the', 'cafe', 'embed', '##ding', '##s', 'are', 'fun', ',', '!', '中', '文'
+].join('\n');
+
+describe('WordPieceTokenizer', () => {
+  const vocab = WordPieceTokenizer.parseVocab(VOCAB);
+
+  describe('parseVocab', () => {
+    it('should map tokens to line numbers', () => {
+      expect(vocab.get('[PAD]')).toBe(0);
+      expect(vocab.get('[CLS]')).toBe(2);
+      expect(vocab.get('##ding')).toBe(7);
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should split words into word pieces', () => {
+      // SETUP
+      const tokenizer = new WordPieceTokenizer(vocab);
+
+      // EXERCISE
+      const tokens = tokenizer.tokenize('Embeddings are fun!');
+
+      // VERIFY
+      expect(tokens).toEqual(['embed', '##ding', '##s', 'are', 'fun', '!']);
+    });
+
+    it('should lowercase and strip accents', () => {
+      const tokenizer = new WordPieceTokenizer(vocab);
+
+      expect(tokenizer.tokenize('The Café')).toEqual(['the', 'cafe']);
+    });
+
+    it('should split punctuation and CJK characters', () => {
+      const tokenizer = new WordPieceTokenizer(vocab);
+
+      expect(tokenizer.tokenize('the,cafe中文')).toEqual(['the', ',', 'cafe', '中', '文']);
+    });
+
+    it('should map unknown words to [UNK]', () => {
+      const tokenizer = new WordPieceTokenizer(vocab);
+
+      expect(tokenizer.tokenize('the zebra')).toEqual(['the', '[UNK]']);
+    });
+
+    it('should preserve case when lowercase is disabled', () => {
+      const tokenizer = new WordPieceTokenizer(vocab, { lowercase: false });
+
+      expect(tokenizer.tokenize('The the')).toEqual(['[UNK]', 'the']);
+    });
+  });
+
+  describe('encode', () => {
+    it('should wrap ids with [CLS] and [SEP]', () => {
+      // SETUP
+      const tokenizer = new WordPieceTokenizer(vocab);
+
+      // EXERCISE
+      const encoded = tokenizer.encode('the cafe');
+
+      // VERIFY
+      expect(encoded.inputIds).toEqual([2, 4, 5, 3]);
+      expect(encoded.attentionMask).toEqual([1, 1, 1, 1]);
+      expect(encoded.tokenTypeIds).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should truncate to max length including special tokens', () => {
+      const tokenizer = new WordPieceTokenizer(vocab, { maxLength: 4 });
+
+      const encoded = tokenizer.encode('the cafe are fun');
+
+      expect(encoded.inputIds).toEqual([2, 4, 5, 3]);
+    });
+  });
+
+  describe('encodePair', () => {
+    it('should separate the sentences and mark the second segment', () => {
+      // SETUP
+      const tokenizer = new WordPieceTokenizer(vocab);
+
+      // EXERCISE
+      const encoded = tokenizer.encodePair('the cafe', 'are fun');
+
+      // VERIFY
+      expect(encoded.inputIds).toEqual([2, 4, 5, 3, 9, 10, 3]);
+      expect(encoded.attentionMask).toEqual([1, 1, 1, 1, 1, 1, 1]);
+      expect(encoded.tokenTypeIds).toEqual([0, 0, 0, 0, 1, 1, 1]);
+    });
+
+    it('should truncate the longer sentence first', () => {
+      const tokenizer = new WordPieceTokenizer(vocab, { maxLength: 6 });
+
+      const encoded = tokenizer.encodePair('the', 'the cafe are fun');
+
+      expect(encoded.inputIds).toEqual([2, 4, 3, 4, 5, 3]);
+      expect(encoded.tokenTypeIds).toEqual([0, 0, 0, 1, 1, 1]);
+    });
+  });
+
+  it('should require special tokens in vocabulary', () => {
+    const incomplete = WordPieceTokenizer.parseVocab('[PAD]\nthe');
+
+    expect(() => new WordPieceTokenizer(incomplete)).toThrow('[UNK]');
+  });
+});
@@ -2,7 +2,7 @@
  * Embedding Provider Factory
  * 
  * Factory for creating embedding service instances based on configuration.
- * Supports multiple embedding providers (simple, OpenAI, Voyage, Ollama).
+ * Supports multiple embedding providers (simple, TF-IDF, transformer, OpenAI, Voyage, Ollama).
  * 
  * **Design Pattern**: Factory + Strategy
  * - Factory creates appropriate provider based on configuration
@@ -13,7 +13,7 @@
  * ```typescript
  * const factory = new EmbeddingProviderFactory(config);
  * const provider = factory.create('simple');
- * const embedding = provider.generateEmbedding('test');
+ * const embedding = await provider.generateEmbedding('test');
  * 
  * // Or use config's default provider
  * const defaultProvider = factory.createFromConfig();
@@ -22,7 +22,77 @@
 
 import type { EmbeddingService } from '../../domain/interfaces/services/embedding-service.js';
 import type { EmbeddingConfig } from '../../application/config/types.js';
+import type { EmbeddingCache } from '../cache/embedding-cache.js';
 import { SimpleEmbeddingService } from './simple-embedding-service.js';
+import { TransformerEmbeddingService, DEFAULT_TRANSFORMER_MODEL } from './transformer-embedding-service.js';
+import { OpenAICompatibleEmbeddingService } from './openai-compatible-embedding-service.js';
+import { TfidfEmbeddingService } from './tfidf-embedding-service.js';
+import { DEFAULT_TFIDF_MODEL, readTfidfFingerprint, resolveTfidfModelPath } from './tfidf-model.js';
+import type { ResilientExecutor } from '../resilience/resilient-executor.js';
+
+/** Defaults for HTTP providers (overridable via EMBEDDING_BASE_URL / EMBEDDING_MODEL) */
+const HTTP_PROVIDER_DEFAULTS: Record<string, { baseUrl: string; model: string; sendDimensions: boolean }> = {
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'text-embedding-3-small',
+    sendDimensions: true  // text-embedding-3 models support dimension reduction
+  },
+  ollama: {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'nomic-embed-text',
+    sendDimensions: false
+  }
+};
+
+/**
+ * Identity of the vectors a provider produces. Vectors from different
+ * signatures live in different spaces and must not be compared.
+ */
+export interface EmbeddingSignature {
+  /** Provider name (e.g. 'simple', 'transformer', 'openai') */
+  provider: string;
+  /**
+   * Effective model name after applying provider defaults. For tfidf it
+   * carries the fingerprint of the fitted model (`tfidf-lsa@<fingerprint>`),
+   * since every fit produces its own vector space.
+   */
+  model: string;
+  /** Vector dimensions */
+  dimensions: number;
+}
+
+/** Model name recorded for the hash-based simple provider */
+export const SIMPLE_EMBEDDING_MODEL = 'simple-hash';
+
+/**
+ * Resolve the signature of the provider described by a configuration,
+ * applying the same defaults as the factory.
+ *
+ * @param config - Embedding configuration
+ * @param databaseDir - Database directory (default location of the TF-IDF model)
+ * @returns Provider, effective model and dimensions
+ */
+export function resolveEmbeddingSignature(config: EmbeddingConfig, databaseDir?: string): EmbeddingSignature {
+  const provider = config.provider.toLowerCase();
+  switch (provider) {
+    case 'simple':
+      // Hash-based vectors are always 384-dimensional, whatever the config says
+      return { provider, model: SIMPLE_EMBEDDING_MODEL, dimensions: 384 };
+    case 'transformer':
+      return { provider, model: config.model || DEFAULT_TRANSFORMER_MODEL, dimensions: config.dimensions };
+    case 'tfidf': {
+      const model = config.model || DEFAULT_TFIDF_MODEL;
+      const fingerprint = readTfidfFingerprint(resolveTfidfModelPath(config.modelPath, databaseDir));
+      return { provider, model: fingerprint ? `${model}@${fingerprint}` : model, dimensions: config.dimensions };
+    }
+    default:
+      return {
+        provider,
+        model: config.model || HTTP_PROVIDER_DEFAULTS[provider]?.model || '',
+        dimensions: config.dimensions
+      };
+  }
+}
 
 /**
  * Error thrown when unsupported embedding provider is requested
@@ -41,44 +111,68 @@ export class UnsupportedEmbeddingProviderError extends Error {
  * Factory for creating embedding providers
  */
 export class EmbeddingProviderFactory {
-  private readonly supportedProviders = ['simple'];
+  private readonly supportedProviders = ['simple', 'tfidf', 'transformer', 'openai', 'ollama'];
   
-  constructor(private config: EmbeddingConfig) {}
+  /**
+   * @param config - Embedding configuration
+   * @param cache - Optional embedding cache shared by created providers
+   * @param resilientExecutor - Optional executor for HTTP providers
+   * @param databaseDir - Database directory (default location of the TF-IDF model)
+   */
+  constructor(
+    private config: EmbeddingConfig,
+    private cache?: EmbeddingCache,
+    private resilientExecutor?: ResilientExecutor,
+    private databaseDir?: string
+  ) {}
   
   /**
    * Create an embedding provider by name
    * 
-   * @param providerName - Name of the provider ('simple' | 'openai' | 'voyage' | 'ollama')
+   * @param providerName - Name of the provider ('simple' | 'tfidf' | 'transformer' | 'openai' | 'voyage' | 'ollama')
    * @returns Embedding service instance
    * @throws {UnsupportedEmbeddingProviderError} If provider not supported
+   * @throws {InvalidConfigError} If the transformer model files are missing
    * 
    * @example
    * ```typescript
    * const provider = factory.create('simple');
-   * const embedding = provider.generateEmbedding('Hello world');
+   * const embedding = await provider.generateEmbedding('Hello world');
    * ```
    */
   create(providerName: string): EmbeddingService {
     switch (providerName.toLowerCase()) {
       case 'simple':
-        return new SimpleEmbeddingService();
+        return new SimpleEmbeddingService(this.cache);
       
-      // Future providers (not yet implemented)
-      case 'openai':
-        throw new Error(
-          'OpenAI embedding provider not yet implemented. ' +
-          'Please use "simple" provider or contribute an implementation.'
+      case 'tfidf':
+        return new TfidfEmbeddingService(
+          {
+            modelPath: resolveTfidfModelPath(this.config.modelPath, this.databaseDir),
+            dimensions: this.config.dimensions
+          },
+          this.cache
         );
       
-      case 'voyage':
-        throw new Error(
-          'Voyage AI embedding provider not yet implemented. ' +
-          'Please use "simple" provider or contribute an implementation.'
+      case 'transformer':
+        return new TransformerEmbeddingService(
+          {
+            model: this.config.model,
+            modelPath: this.config.modelPath,
+            dimensions: this.config.dimensions,
+            batchSize: this.config.batchSize
+          },
+          this.cache
         );
       
+      case 'openai':
       case 'ollama':
+        return this.createHttpProvider(providerName.toLowerCase());
+      
+      // Future providers (not yet implemented)
+      case 'voyage':
         throw new Error(
-          'Ollama embedding provider not yet implemented. ' +
+          'Voyage AI embedding provider not yet implemented. ' +
           'Please use "simple" provider or contribute an implementation.'
         );
       
@@ -90,6 +184,26 @@ export class EmbeddingProviderFactory {
     }
   }
   
+  /**
+   * Create an OpenAI-compatible HTTP provider using configured or default endpoint.
+   */
+  private createHttpProvider(provider: string): EmbeddingService {
+    const defaults = HTTP_PROVIDER_DEFAULTS[provider];
+    return new OpenAICompatibleEmbeddingService(
+      {
+        provider,
+        baseUrl: this.config.baseUrl || defaults.baseUrl,
+        model: this.config.model || defaults.model,
+        dimensions: this.config.dimensions,
+        sendDimensions: defaults.sendDimensions,
+        batchSize: this.config.batchSize,
+        apiKey: this.config.apiKey
+      },
+      this.resilientExecutor,
+      this.cache
+    );
+  }
+  
   /**
    * Create embedding provider from configuration
    * 
@@ -131,6 +245,9 @@ export class EmbeddingProviderFactory {
  * Convenience function to create embedding service from config
  * 
  * @param config - Embedding configuration
+ * @param cache - Optional embedding cache
+ * @param resilientExecutor - Optional executor for HTTP providers
+ * @param databaseDir - Database directory (default location of the TF-IDF model)
  * @returns Configured embedding service
  * 
  * @example
@@ -139,8 +256,13 @@ export class EmbeddingProviderFactory {
  * const service = createEmbeddingService(config.embeddings);
  * ```
  */
-export function createEmbeddingService(config: EmbeddingConfig): EmbeddingService {
-  const factory = new EmbeddingProviderFactory(config);
+export function createEmbeddingService(
+  config: EmbeddingConfig,
+  cache?: EmbeddingCache,
+  resilientExecutor?: ResilientExecutor,
+  databaseDir?: string
+): EmbeddingService {
+  const factory = new EmbeddingProviderFactory(config, cache, resilientExecutor, databaseDir);
   return factory.createFromConfig();
 }
 
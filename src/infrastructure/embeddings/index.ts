@@ -5,10 +5,37 @@
  */
 
 export { SimpleEmbeddingService } from './simple-embedding-service.js';
+export {
+  TransformerEmbeddingService,
+  DEFAULT_TRANSFORMER_MODEL,
+  resolveTransformerModelPath,
+  resolveOnnxModelFiles,
+  readTokenizerConfig
+} from './transformer-embedding-service.js';
+export type { TransformerEmbeddingOptions, OnnxModelFiles } from './transformer-embedding-service.js';
+export { TfidfEmbeddingService } from './tfidf-embedding-service.js';
+export type { TfidfEmbeddingOptions } from './tfidf-embedding-service.js';
+export {
+  fitTfidfModel,
+  saveTfidfModel,
+  loadTfidfModel,
+  tfidfModelExists,
+  resolveTfidfModelPath,
+  tokenizeForTfidf,
+  DEFAULT_TFIDF_MODEL
+} from './tfidf-model.js';
+export type { TfidfModel, TfidfFitOptions } from './tfidf-model.js';
+export { OpenAICompatibleEmbeddingService } from './openai-compatible-embedding-service.js';
+export type { OpenAICompatibleEmbeddingOptions } from './openai-compatible-embedding-service.js';
+export { WordPieceTokenizer } from './wordpiece-tokenizer.js';
+export type { EncodedText, WordPieceTokenizerOptions } from './wordpiece-tokenizer.js';
 export {
   EmbeddingProviderFactory,
   createEmbeddingService,
+  resolveEmbeddingSignature,
+  SIMPLE_EMBEDDING_MODEL,
   UnsupportedEmbeddingProviderError
 } from './embedding-provider-factory.js';
+export type { EmbeddingSignature } from './embedding-provider-factory.js';
 
 
@@ -0,0 +1,189 @@
+/**
+ * OpenAI-Compatible Embedding Service
+ *
+ * Remote embeddings from any server implementing the OpenAI
+ * `POST {baseUrl}/embeddings` API: OpenAI itself, Ollama (`/v1`),
+ * vLLM, LocalAI, text-embeddings-inference, LM Studio, etc.
+ *
+ * **Request**: `{ model, input: string[], dimensions? }`
+ * **Response**: `{ data: [{ index, embedding }] }`
+ *
+ * Texts are sent in batches of `batchSize`. Every HTTP call runs through
+ * `ResilientExecutor` with the `EMBEDDING_API` profile (timeout, retry,
+ * circuit breaker and bulkhead, keyed per provider). Only transient failures
+ * (network errors, 5xx, 429, timeouts) are retried; client errors and
+ * malformed responses fail immediately.
+ */
+
+import type { EmbeddingService } from '../../domain/interfaces/services/embedding-service.js';
+import {
+  EmbeddingError,
+  EmbeddingProviderError,
+  InvalidEmbeddingDimensionsError,
+  RateLimitError
+} from '../../domain/exceptions/index.js';
+import type { EmbeddingCache } from '../cache/embedding-cache.js';
+import { ResilientExecutor, ResilienceProfiles } from '../resilience/resilient-executor.js';
+import { TimeoutError } from '../resilience/errors.js';
+import { RetryService } from '../utils/retry-service.js';
+
+/**
+ * Options for an OpenAI-compatible embedding endpoint.
+ */
+export interface OpenAICompatibleEmbeddingOptions {
+  /** Provider name, used in errors and resilience metrics (e.g. 'openai', 'ollama') */
+  provider: string;
+  /** API base URL including version prefix, e.g. `https://api.openai.com/v1` */
+  baseUrl: string;
+  /** Embedding model name */
+  model: string;
+  /** Expected embedding dimensions (validated against responses) */
+  dimensions?: number;
+  /** Send `dimensions` in the request (only for models that support truncation) */
+  sendDimensions?: boolean;
+  /** Maximum texts per request (default: 100) */
+  batchSize?: number;
+  /** Bearer token, if the server requires one */
+  apiKey?: string;
+}
+
+interface EmbeddingsResponse {
+  data?: Array<{ index?: number; embedding?: number[] }>;
+}
+
+/**
+ * Embedding service for OpenAI-compatible HTTP endpoints.
+ */
+export class OpenAICompatibleEmbeddingService implements EmbeddingService {
+  private readonly endpoint: string;
+  private readonly batchSize: number;
+  private readonly modelId: string;
+  private readonly resilientExecutor: ResilientExecutor;
+
+  /**
+   * @param options - Endpoint and model options
+   * @param resilientExecutor - Executor for HTTP calls (a private one is created if omitted)
+   * @param cache - Optional embedding cache
+   */
+  constructor(
+    private readonly options: OpenAICompatibleEmbeddingOptions,
+    resilientExecutor?: ResilientExecutor,
+    private readonly cache?: EmbeddingCache
+  ) {
+    this.endpoint = `${options.baseUrl.replace(/\/+$/, '')}/embeddings`;
+    this.batchSize = Math.max(1, options.batchSize ?? 100);
+    this.modelId = `${options.provider}:${options.model}`;
+    this.resilientExecutor = resilientExecutor ?? new ResilientExecutor(new RetryService());
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    if (!this.cache) {
+      return this.embed(texts);
+    }
+    return this.cache.getOrGenerateMany(texts, this.modelId, misses => this.embed(misses));
+  }
+
+  /**
+   * Embed texts in `batchSize` requests, preserving input order.
+   */
+  private async embed(texts: string[]): Promise<number[][]> {
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+      const vectors = await this.resilientExecutor.execute(
+        () => this.requestBatch(batch),
+        {
+          ...ResilienceProfiles.EMBEDDING_API,
+          retry: {
+            ...ResilienceProfiles.EMBEDDING_API.retry,
+            retryableErrors: [EmbeddingProviderError, RateLimitError, TimeoutError]
+          },
+          name: `embedding_${this.options.provider}`
+        }
+      );
+      results.push(...vectors);
+    }
+    return results;
+  }
+
+  /**
+   * Perform a single `/embeddings` request (wrapped with resilience by the caller).
+   */
+  private async requestBatch(input: string[]): Promise<number[][]> {
+    const { provider, model, dimensions, sendDimensions, apiKey } = this.options;
+
+    const body: Record<string, unknown> = { model, input };
+    if (sendDimensions && dimensions) {
+      body.dimensions = dimensions;
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body)
+      });
+    } catch (error) {
+      throw new EmbeddingProviderError(provider, undefined, error as Error);
+    }
+
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw new RateLimitError(provider, retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      const cause = new Error(`${response.status} ${response.statusText}: ${errorText.substring(0, 500)}`);
+      if (response.status >= 500 || response.status === 408) {
+        throw new EmbeddingProviderError(provider, response.status, cause);
+      }
+      // Client errors (bad model, auth, payload) will not succeed on retry
+      const error = new EmbeddingError(
+        `Embedding provider '${provider}' rejected the request (${response.status})`,
+        provider,
+        cause
+      );
+      error.context.statusCode = response.status;
+      throw error;
+    }
+
+    const data = await response.json() as EmbeddingsResponse;
+    if (!Array.isArray(data.data) || data.data.length !== input.length) {
+      throw new EmbeddingError(
+        `Embedding provider '${provider}' returned ${data.data?.length ?? 0} embeddings for ${input.length} inputs`,
+        provider
+      );
+    }
+
+    const vectors = [...data.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding ?? []);
+
+    for (const vector of vectors) {
+      if (dimensions && vector.length !== dimensions) {
+        throw new InvalidEmbeddingDimensionsError(provider, dimensions, vector.length);
+      }
+    }
+    return vectors.map(normalize);
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
@@ -27,30 +27,31 @@ export class SimpleEmbeddingService implements EmbeddingService {
     this.cache = cache;
   }
   
-  generateEmbedding(text: string): number[] {
-    // Check cache first
-    if (this.cache) {
-      const cached = this.cache.get(text, this.MODEL_ID);
-      if (cached) {
-        return cached;
-      }
-    }
-    
-    // Generate embedding
-    const embedding = this.computeEmbedding(text);
-    
-    // Cache result
-    if (this.cache) {
-      this.cache.set(text, this.MODEL_ID, embedding);
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+  
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (!this.cache) {
+      return texts.map(text => this.computeEmbedding(text));
     }
     
-    return embedding;
+    // Only compute cache misses
+    return this.cache.getOrGenerateMany(
+      texts,
+      this.MODEL_ID,
+      async misses => misses.map(text => this.computeEmbedding(text))
+    );
   }
   
   /**
-   * Compute embedding without caching (internal use).
+   * Compute embedding synchronously without caching.
+   * 
+   * The hash algorithm needs no I/O, so callers that cannot await
+   * (e.g. static test fixtures) may use this directly.
    */
-  private computeEmbedding(text: string): number[] {
+  computeEmbedding(text: string): number[] {
     const embedding = new Array(384).fill(0);
     const words = text.toLowerCase().split(/\s+/);
     const chars = text.toLowerCase();
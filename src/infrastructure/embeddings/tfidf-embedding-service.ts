@@ -0,0 +1,118 @@
+/**
+ * TF-IDF / LSA Embedding Service
+ *
+ * Offline, deterministic embeddings from a model fitted on the corpus itself
+ * (see `tfidf-model.ts`). Needs no neural model files and no network access.
+ *
+ * The model is fitted during seeding and saved next to the database
+ * (`<dbpath>/tfidf` by default). It is loaded lazily on first use, so the
+ * seeder can create the service before the model exists.
+ *
+ * Texts with no vocabulary terms embed to the zero vector.
+ */
+
+import type { EmbeddingService } from '../../domain/interfaces/services/embedding-service.js';
+import { InvalidEmbeddingDimensionsError } from '../../domain/exceptions/index.js';
+import type { EmbeddingCache } from '../cache/embedding-cache.js';
+import { loadTfidfModel, weightTerms, type TfidfModel } from './tfidf-model.js';
+
+/**
+ * Options for the TF-IDF embedding service.
+ */
+export interface TfidfEmbeddingOptions {
+  /** Directory containing the fitted model */
+  modelPath: string;
+  /** Expected embedding dimensions (validated against the model) */
+  dimensions?: number;
+}
+
+interface LoadedTfidfModel {
+  model: TfidfModel;
+  termIndex: Map<string, number>;
+}
+
+/**
+ * Embedding service backed by a corpus-fitted TF-IDF model.
+ */
+export class TfidfEmbeddingService implements EmbeddingService {
+  private static readonly PROVIDER = 'tfidf';
+
+  private loaded?: LoadedTfidfModel;
+
+  /**
+   * @param options - Model directory and expected dimensions
+   * @param cache - Optional embedding cache
+   */
+  constructor(
+    private readonly options: TfidfEmbeddingOptions,
+    private readonly cache?: EmbeddingCache
+  ) {}
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    const loaded = this.load();
+    if (!this.cache) {
+      return texts.map(text => this.embed(loaded, text));
+    }
+    return this.cache.getOrGenerateMany(
+      texts,
+      `${TfidfEmbeddingService.PROVIDER}:${loaded.model.fingerprint}`,
+      async misses => misses.map(text => this.embed(loaded, text))
+    );
+  }
+
+  /**
+   * Load the model from disk on first use.
+   *
+   * @throws {InvalidConfigError} If no model has been fitted yet
+   * @throws {InvalidEmbeddingDimensionsError} If the model was fitted for other dimensions
+   */
+  private load(): LoadedTfidfModel {
+    if (!this.loaded) {
+      const model = loadTfidfModel(this.options.modelPath);
+      if (this.options.dimensions && model.dimensions !== this.options.dimensions) {
+        throw new InvalidEmbeddingDimensionsError(
+          TfidfEmbeddingService.PROVIDER,
+          this.options.dimensions,
+          model.dimensions
+        );
+      }
+      this.loaded = {
+        model,
+        termIndex: new Map(model.vocabulary.map((term, index) => [term, index]))
+      };
+    }
+    return this.loaded;
+  }
+
+  private embed({ model, termIndex }: LoadedTfidfModel, text: string): number[] {
+    const { indices, values } = weightTerms(text, termIndex, model.idf);
+    const embedding = new Array(model.dimensions).fill(0);
+
+    if (model.projection) {
+      const columns = model.vocabulary.length;
+      for (let component = 0; component < model.rank; component++) {
+        let sum = 0;
+        for (let j = 0; j < indices.length; j++) {
+          sum += model.projection[component * columns + indices[j]] * values[j];
+        }
+        embedding[component] = sum;
+      }
+    } else {
+      // Vocabulary was capped at `dimensions`: term columns are the vector
+      indices.forEach((index, j) => {
+        embedding[index] = values[j];
+      });
+    }
+
+    const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? embedding.map(value => value / norm) : embedding;
+  }
+}
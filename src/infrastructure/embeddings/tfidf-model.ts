@@ -0,0 +1,593 @@
+/**
+ * Corpus-Fitted TF-IDF / LSA Model
+ *
+ * Learns a vocabulary and IDF table from the seeded corpus and, when the
+ * vocabulary is larger than the target dimensions, a truncated-SVD (latent
+ * semantic analysis) projection down to those dimensions.
+ *
+ * **Weighting**: sublinear term frequency `1 + ln(tf)` times smoothed IDF
+ * `ln((1 + N) / (1 + df)) + 1`, L2-normalized per document.
+ *
+ * **SVD**: randomized range finder (Halko, Martinsson & Tropp 2011) with a
+ * seeded Gaussian test matrix, followed by an eigendecomposition of the
+ * small projected Gram matrix. Fitting is fully deterministic for a given
+ * corpus and options, so CI runs reproduce identical vectors.
+ *
+ * **Persistence**: `model.json` (vocabulary, IDF, metadata) and, for LSA,
+ * `projection.f32` (rank × vocabulary float32, row-major) in the model directory.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InvalidConfigError } from '../../domain/exceptions/index.js';
+import { STOP_WORDS, tokenize } from '../search/analyzer.js';
+
+/** Model name recorded for the TF-IDF provider when EMBEDDING_MODEL is not set */
+export const DEFAULT_TFIDF_MODEL = 'tfidf-lsa';
+
+const MODEL_FILE = 'model.json';
+const PROJECTION_FILE = 'projection.f32';
+const MODEL_VERSION = 1;
+
+/** Extra random directions sampled beyond the target rank */
+const OVERSAMPLING = 10;
+
+/**
+ * A fitted TF-IDF model, optionally with an LSA projection.
+ */
+export interface TfidfModel {
+  /** Output vector dimensions (vectors are zero-padded up to this size) */
+  dimensions: number;
+  /** Number of documents the IDF table was computed from */
+  documentCount: number;
+  /** Vocabulary terms; position is the term's column */
+  vocabulary: string[];
+  /** IDF weight per vocabulary term */
+  idf: number[];
+  /** Number of LSA components (0 when vectors are raw TF-IDF) */
+  rank: number;
+  /** rank × vocabulary projection matrix, row-major (absent when rank is 0) */
+  projection?: Float32Array;
+  /** Content hash identifying this fit (used in cache keys and embedding stamps) */
+  fingerprint: string;
+}
+
+/**
+ * Options for {@link fitTfidfModel}.
+ */
+export interface TfidfFitOptions {
+  /** Output vector dimensions (default: 384) */
+  dimensions?: number;
+  /** Project with truncated SVD when the vocabulary exceeds `dimensions` (default: true) */
+  lsa?: boolean;
+  /** Maximum vocabulary size before projection (default: 10000) */
+  maxVocabulary?: number;
+  /** Minimum document frequency of a vocabulary term (default: 2, or 1 for corpora under 10 documents) */
+  minDocumentFrequency?: number;
+  /** Maximum documents sampled (evenly) for the SVD (default: 5000) */
+  maxDocuments?: number;
+  /** Power iterations of the randomized SVD (default: 1) */
+  powerIterations?: number;
+  /** Seed for the random test matrix (default: 42) */
+  seed?: number;
+}
+
+/** Sparse, L2-normalized TF-IDF row */
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+/**
+ * Resolve the directory holding the TF-IDF model.
+ *
+ * Defaults to `<databaseDir>/tfidf`, so the model lives next to the database it was fitted on.
+ */
+export function resolveTfidfModelPath(modelPath?: string, databaseDir?: string): string {
+  const dir = modelPath || path.join(databaseDir || '~/.concept_rag', 'tfidf');
+  return dir.startsWith('~') ? path.join(os.homedir(), dir.slice(1)) : dir;
+}
+
+/**
+ * Split text into lowercase word tokens, dropping stop words, single
+ * characters and pure numbers.
+ */
+export function tokenizeForTfidf(text: string): string[] {
+  return tokenize(text).filter(token => token.length > 1 && !STOP_WORDS.has(token) && !/^\d+$/.test(token));
+}
+
+function countTerms(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokenizeForTfidf(text)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Weight a text's terms against a vocabulary: sublinear TF × IDF, L2-normalized.
+ * Terms outside the vocabulary are ignored.
+ */
+export function weightTerms(
+  text: string,
+  termIndex: Map<string, number>,
+  idf: number[]
+): SparseVector {
+  return weightCounts(countTerms(text), termIndex, idf);
+}
+
+function weightCounts(
+  counts: Map<string, number>,
+  termIndex: Map<string, number>,
+  idf: number[]
+): SparseVector {
+  const indices: number[] = [];
+  const values: number[] = [];
+  let norm = 0;
+  for (const [term, count] of counts) {
+    const index = termIndex.get(term);
+    if (index === undefined) continue;
+    const value = (1 + Math.log(count)) * idf[index];
+    indices.push(index);
+    values.push(value);
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  return { indices, values: norm > 0 ? values.map(v => v / norm) : values };
+}
+
+/**
+ * Fit a TF-IDF model (and LSA projection) to a corpus.
+ *
+ * @param texts - Corpus documents (pages, chunks or summaries)
+ * @param options - Dimensions, vocabulary and SVD options
+ * @returns Fitted model
+ */
+export function fitTfidfModel(texts: string[], options: TfidfFitOptions = {}): TfidfModel {
+  const dimensions = options.dimensions ?? 384;
+  const lsa = options.lsa ?? true;
+  const maxVocabulary = options.maxVocabulary ?? 10000;
+  const documents = texts.map(countTerms);
+  const documentCount = documents.length;
+  const minDocumentFrequency = options.minDocumentFrequency ?? (documentCount < 10 ? 1 : 2);
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of documents) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  // Most frequent terms first; ties broken alphabetically for determinism
+  const vocabulary = Array.from(documentFrequency)
+    .filter(([, df]) => df >= minDocumentFrequency)
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+    .slice(0, lsa ? maxVocabulary : dimensions)
+    .map(([term]) => term);
+  const idf = vocabulary.map(term => Math.log((1 + documentCount) / (1 + documentFrequency.get(term)!)) + 1);
+
+  let rank = 0;
+  let projection: Float32Array | undefined;
+  if (lsa && vocabulary.length > dimensions) {
+    const termIndex = new Map(vocabulary.map((term, index) => [term, index]));
+    const rows = sampleEvenly(documents, options.maxDocuments ?? 5000)
+      .map(counts => weightCounts(counts, termIndex, idf))
+      .filter(row => row.indices.length > 0);
+    ({ projection, rank } = truncatedSvd(rows, vocabulary.length, dimensions, {
+      powerIterations: options.powerIterations ?? 1,
+      seed: options.seed ?? 42
+    }));
+  }
+
+  const hash = crypto.createHash('sha256');
+  hash.update(JSON.stringify({ dimensions, vocabulary, idf, rank }));
+  if (projection) {
+    hash.update(Buffer.from(projection.buffer, projection.byteOffset, projection.byteLength));
+  }
+
+  return {
+    dimensions,
+    documentCount,
+    vocabulary,
+    idf,
+    rank,
+    projection,
+    fingerprint: hash.digest('hex').substring(0, 12)
+  };
+}
+
+function sampleEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  const step = items.length / max;
+  return Array.from({ length: max }, (_, i) => items[Math.floor(i * step)]);
+}
+
+/**
+ * Check whether a model has been saved in a directory.
+ */
+export function tfidfModelExists(modelDir: string): boolean {
+  return fs.existsSync(path.join(modelDir, MODEL_FILE));
+}
+
+/**
+ * Read the fingerprint of a saved model without loading its projection.
+ *
+ * @returns The fingerprint, or undefined if no model has been saved
+ */
+export function readTfidfFingerprint(modelDir: string): string | undefined {
+  const modelFile = path.join(modelDir, MODEL_FILE);
+  if (!fs.existsSync(modelFile)) return undefined;
+  return (JSON.parse(fs.readFileSync(modelFile, 'utf-8')) as Partial<TfidfModel>).fingerprint;
+}
+
+/**
+ * Persist a model to a directory (created if missing).
+ */
+export function saveTfidfModel(model: TfidfModel, modelDir: string): void {
+  fs.mkdirSync(modelDir, { recursive: true });
+  const { projection, ...metadata } = model;
+  fs.writeFileSync(
+    path.join(modelDir, MODEL_FILE),
+    JSON.stringify({ version: MODEL_VERSION, ...metadata })
+  );
+
+  const projectionFile = path.join(modelDir, PROJECTION_FILE);
+  if (projection) {
+    fs.writeFileSync(projectionFile, Buffer.from(projection.buffer, projection.byteOffset, projection.byteLength));
+  } else if (fs.existsSync(projectionFile)) {
+    fs.rmSync(projectionFile);
+  }
+}
+
+/**
+ * Load a model saved by {@link saveTfidfModel}.
+ *
+ * @throws {InvalidConfigError} If the model is missing, of an unknown version or corrupt
+ */
+export function loadTfidfModel(modelDir: string): TfidfModel {
+  const modelFile = path.join(modelDir, MODEL_FILE);
+  if (!fs.existsSync(modelFile)) {
+    throw new InvalidConfigError(
+      'EMBEDDING_MODEL_PATH',
+      modelDir,
+      'no TF-IDF model found (seed the database or run reembed with EMBEDDING_PROVIDER=tfidf first)'
+    );
+  }
+
+  const { version, ...model } = JSON.parse(fs.readFileSync(modelFile, 'utf-8')) as TfidfModel & { version: number };
+  if (version !== MODEL_VERSION) {
+    throw new InvalidConfigError('EMBEDDING_MODEL_PATH', modelDir, `unsupported TF-IDF model version ${version}`);
+  }
+
+  if (model.rank > 0) {
+    const bytes = fs.readFileSync(path.join(modelDir, PROJECTION_FILE));
+    // Copy into an aligned buffer (Buffer pools may start at odd offsets)
+    const projection = new Float32Array(bytes.byteLength / 4);
+    new Uint8Array(projection.buffer).set(bytes);
+    if (projection.length !== model.rank * model.vocabulary.length) {
+      throw new InvalidConfigError('EMBEDDING_MODEL_PATH', modelDir, 'TF-IDF projection does not match vocabulary');
+    }
+    model.projection = projection;
+  }
+  return model;
+}
+
+/**
+ * Truncated SVD of a sparse row matrix via randomized range finding.
+ *
+ * All dense work is done on n × l matrices (n = documents, l = k plus
+ * oversampling), never on vocabulary-sized ones, so the cost grows with the
+ * sample size rather than the vocabulary.
+ *
+ * @returns Top right singular vectors as a rank × columns matrix (row-major)
+ */
+function truncatedSvd(
+  rows: SparseVector[],
+  columns: number,
+  k: number,
+  options: { powerIterations: number; seed: number }
+): { projection: Float32Array; rank: number } {
+  const n = rows.length;
+  const l = Math.min(k + OVERSAMPLING, n, columns);
+  if (l === 0) {
+    return { projection: new Float32Array(0), rank: 0 };
+  }
+
+  // Q spans the range of X: Y = X Ω for a seeded Gaussian Ω (columns × l),
+  // sharpened by power iterations Y = X (Xᵀ Y)
+  const gaussian = seededGaussian(options.seed);
+  const omega = new Float64Array(columns * l);
+  for (let i = 0; i < omega.length; i++) omega[i] = gaussian();
+  let q = multiply(rows, omega, l);
+  for (let iteration = 0; iteration < options.powerIterations; iteration++) {
+    orthonormalizeColumns(q, n, l);
+    q = multiply(rows, multiplyTransposed(rows, q, columns, l), l);
+  }
+  orthonormalizeColumns(q, n, l);
+
+  // With B = Qᵀ X, the small Gram matrix B Bᵀ = Qᵀ X (Xᵀ Q) = U Σ² Uᵀ
+  const gram = transposeProduct(q, multiply(rows, multiplyTransposed(rows, q, columns, l), l), n, l, l);
+  const { values, vectors } = symmetricEigen(gram, l);
+  const order = Array.from({ length: l }, (_, i) => i).sort((i, j) => values[j] - values[i]);
+  const tolerance = Math.max(values[order[0]], 0) * 1e-10;
+
+  // V = Bᵀ U Σ⁻¹ = Xᵀ (Q U Σ⁻¹), keeping the top-k non-degenerate components
+  const selected = order.slice(0, k).filter(e => values[e] > tolerance);
+  const rank = selected.length;
+  const scaled = new Float64Array(l * rank);
+  for (let c = 0; c < l; c++) {
+    for (let j = 0; j < rank; j++) {
+      scaled[c * rank + j] = vectors[c * l + selected[j]] / Math.sqrt(values[selected[j]]);
+    }
+  }
+  const v = multiplyTransposed(rows, denseProduct(q, scaled, n, l, rank), columns, rank);
+
+  const projection = new Float32Array(rank * columns);
+  for (let j = 0; j < rank; j++) {
+    // Fix the sign (largest-magnitude entry positive) so fits are reproducible
+    let largest = 0;
+    for (let t = 1; t < columns; t++) {
+      if (Math.abs(v[t * rank + j]) > Math.abs(v[largest * rank + j])) largest = t;
+    }
+    const sign = v[largest * rank + j] < 0 ? -1 : 1;
+    for (let t = 0; t < columns; t++) projection[j * columns + t] = sign * v[t * rank + j];
+  }
+
+  return { projection, rank };
+}
+
+/** X · M for sparse X (n × columns) and dense M (columns × width), row-major */
+function multiply(rows: SparseVector[], m: Float64Array, width: number): Float64Array {
+  const out = new Float64Array(rows.length * width);
+  for (let i = 0; i < rows.length; i++) {
+    const { indices, values } = rows[i];
+    const target = i * width;
+    for (let j = 0; j < indices.length; j++) {
+      const offset = indices[j] * width;
+      const x = values[j];
+      for (let c = 0; c < width; c++) out[target + c] += x * m[offset + c];
+    }
+  }
+  return out;
+}
+
+/** Xᵀ · M for sparse X (n × columns) and dense M (n × width), row-major */
+function multiplyTransposed(rows: SparseVector[], m: Float64Array, columns: number, width: number): Float64Array {
+  const out = new Float64Array(columns * width);
+  for (let i = 0; i < rows.length; i++) {
+    const { indices, values } = rows[i];
+    const source = i * width;
+    for (let j = 0; j < indices.length; j++) {
+      const offset = indices[j] * width;
+      const x = values[j];
+      for (let c = 0; c < width; c++) out[offset + c] += x * m[source + c];
+    }
+  }
+  return out;
+}
+
+/** A · M for dense A (n × inner) and M (inner × width), row-major */
+function denseProduct(a: Float64Array, m: Float64Array, n: number, inner: number, width: number): Float64Array {
+  const out = new Float64Array(n * width);
+  for (let r = 0; r < n; r++) {
+    const target = r * width;
+    for (let p = 0; p < inner; p++) {
+      const x = a[r * inner + p];
+      if (x === 0) continue;
+      const offset = p * width;
+      for (let c = 0; c < width; c++) out[target + c] += x * m[offset + c];
+    }
+  }
+  return out;
+}
+
+/** Aᵀ · M for dense A (n × widthA) and M (n × widthM), row-major */
+function transposeProduct(a: Float64Array, m: Float64Array, n: number, widthA: number, widthM: number): Float64Array {
+  const out = new Float64Array(widthA * widthM);
+  for (let r = 0; r < n; r++) {
+    const source = r * widthM;
+    for (let p = 0; p < widthA; p++) {
+      const x = a[r * widthA + p];
+      if (x === 0) continue;
+      const offset = p * widthM;
+      for (let c = 0; c < widthM; c++) out[offset + c] += x * m[source + c];
+    }
+  }
+  return out;
+}
+
+/**
+ * In-place orthonormalization of the columns of a row-major matrix
+ * (classical Gram-Schmidt applied twice, which is as stable as the modified
+ * variant but walks rows contiguously).
+ */
+function orthonormalizeColumns(m: Float64Array, rowCount: number, width: number): void {
+  const coefficients = new Float64Array(width);
+  for (let j = 0; j < width; j++) {
+    for (let pass = 0; pass < 2 && j > 0; pass++) {
+      coefficients.fill(0, 0, j);
+      for (let r = 0; r < rowCount; r++) {
+        const offset = r * width;
+        const value = m[offset + j];
+        if (value === 0) continue;
+        for (let p = 0; p < j; p++) coefficients[p] += m[offset + p] * value;
+      }
+      for (let r = 0; r < rowCount; r++) {
+        const offset = r * width;
+        let projection = 0;
+        for (let p = 0; p < j; p++) projection += m[offset + p] * coefficients[p];
+        m[offset + j] -= projection;
+      }
+    }
+    let norm = 0;
+    for (let r = 0; r < rowCount; r++) norm += m[r * width + j] * m[r * width + j];
+    norm = Math.sqrt(norm);
+    const scale = norm > 1e-12 ? 1 / norm : 0;
+    for (let r = 0; r < rowCount; r++) m[r * width + j] *= scale;
+  }
+}
+
+/**
+ * Eigendecomposition of a symmetric matrix: Householder tridiagonalization
+ * followed by the implicit QL algorithm (after JAMA's tred2/tql2).
+ *
+ * @returns Eigenvalues and eigenvectors (column e of `vectors` belongs to `values[e]`)
+ */
+function symmetricEigen(matrix: Float64Array, n: number): { values: Float64Array; vectors: Float64Array } {
+  const v: Float64Array[] = Array.from({ length: n }, (_, i) => matrix.slice(i * n, (i + 1) * n));
+  const d = new Float64Array(n);
+  const e = new Float64Array(n);
+
+  // Householder reduction to tridiagonal form
+  for (let j = 0; j < n; j++) d[j] = v[n - 1][j];
+  for (let i = n - 1; i > 0; i--) {
+    let scale = 0;
+    let h = 0;
+    for (let k = 0; k < i; k++) scale += Math.abs(d[k]);
+    if (scale === 0) {
+      e[i] = d[i - 1];
+      for (let j = 0; j < i; j++) {
+        d[j] = v[i - 1][j];
+        v[i][j] = 0;
+        v[j][i] = 0;
+      }
+    } else {
+      for (let k = 0; k < i; k++) {
+        d[k] /= scale;
+        h += d[k] * d[k];
+      }
+      let f = d[i - 1];
+      let g = Math.sqrt(h);
+      if (f > 0) g = -g;
+      e[i] = scale * g;
+      h -= f * g;
+      d[i - 1] = f - g;
+      for (let j = 0; j < i; j++) e[j] = 0;
+      for (let j = 0; j < i; j++) {
+        f = d[j];
+        v[j][i] = f;
+        g = e[j] + v[j][j] * f;
+        for (let k = j + 1; k <= i - 1; k++) {
+          g += v[k][j] * d[k];
+          e[k] += v[k][j] * f;
+        }
+        e[j] = g;
+      }
+      f = 0;
+      for (let j = 0; j < i; j++) {
+        e[j] /= h;
+        f += e[j] * d[j];
+      }
+      const hh = f / (h + h);
+      for (let j = 0; j < i; j++) e[j] -= hh * d[j];
+      for (let j = 0; j < i; j++) {
+        f = d[j];
+        g = e[j];
+        for (let k = j; k <= i - 1; k++) v[k][j] -= f * e[k] + g * d[k];
+        d[j] = v[i - 1][j];
+        v[i][j] = 0;
+      }
+    }
+    d[i] = h;
+  }
+
+  // Accumulate transformations
+  for (let i = 0; i < n - 1; i++) {
+    v[n - 1][i] = v[i][i];
+    v[i][i] = 1;
+    const h = d[i + 1];
+    if (h !== 0) {
+      for (let k = 0; k <= i; k++) d[k] = v[k][i + 1] / h;
+      for (let j = 0; j <= i; j++) {
+        let g = 0;
+        for (let k = 0; k <= i; k++) g += v[k][i + 1] * v[k][j];
+        for (let k = 0; k <= i; k++) v[k][j] -= g * d[k];
+      }
+    }
+    for (let k = 0; k <= i; k++) v[k][i + 1] = 0;
+  }
+  for (let j = 0; j < n; j++) {
+    d[j] = v[n - 1][j];
+    v[n - 1][j] = 0;
+  }
+  v[n - 1][n - 1] = 1;
+  e[0] = 0;
+
+  // Implicit QL iterations on the tridiagonal matrix
+  for (let i = 1; i < n; i++) e[i - 1] = e[i];
+  e[n - 1] = 0;
+  let f = 0;
+  let tst1 = 0;
+  const eps = Math.pow(2, -52);
+  for (let l = 0; l < n; l++) {
+    tst1 = Math.max(tst1, Math.abs(d[l]) + Math.abs(e[l]));
+    let m = l;
+    while (m < n && Math.abs(e[m]) > eps * tst1) m++;
+    if (m > l) {
+      do {
+        let g = d[l];
+        let p = (d[l + 1] - g) / (2 * e[l]);
+        let r = Math.hypot(p, 1);
+        if (p < 0) r = -r;
+        d[l] = e[l] / (p + r);
+        d[l + 1] = e[l] * (p + r);
+        const dl1 = d[l + 1];
+        let h = g - d[l];
+        for (let i = l + 2; i < n; i++) d[i] -= h;
+        f += h;
+
+        p = d[m];
+        let c = 1;
+        let c2 = c;
+        let c3 = c;
+        const el1 = e[l + 1];
+        let s = 0;
+        let s2 = 0;
+        for (let i = m - 1; i >= l; i--) {
+          c3 = c2;
+          c2 = c;
+          s2 = s;
+          g = c * e[i];
+          h = c * p;
+          r = Math.hypot(p, e[i]);
+          e[i + 1] = s * r;
+          s = e[i] / r;
+          c = p / r;
+          p = c * d[i] - s * g;
+          d[i + 1] = h + s * (c * g + s * d[i]);
+          for (let k = 0; k < n; k++) {
+            h = v[k][i + 1];
+            v[k][i + 1] = s * v[k][i] + c * h;
+            v[k][i] = c * v[k][i] - s * h;
+          }
+        }
+        p = -s * s2 * c3 * el1 * e[l] / dl1;
+        e[l] = s * p;
+        d[l] = c * p;
+      } while (Math.abs(e[l]) > eps * tst1);
+    }
+    d[l] += f;
+    e[l] = 0;
+  }
+
+  const vectors = new Float64Array(n * n);
+  for (let r = 0; r < n; r++) vectors.set(v[r], r * n);
+  return { values: d, vectors };
+}
+
+/** Deterministic standard-normal generator (mulberry32 + Box-Muller) */
+function seededGaussian(seed: number): () => number {
+  let state = seed >>> 0;
+  const uniform = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let r = Math.imul(state ^ (state >>> 15), 1 | state);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+  return () => {
+    const u = 1 - uniform();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * uniform());
+  };
+}
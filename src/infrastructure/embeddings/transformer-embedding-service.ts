@@ -0,0 +1,306 @@
+/**
+ * Transformer Embedding Service
+ *
+ * Offline sentence embeddings from a local ONNX export of a
+ * sentence-transformers model (default: all-MiniLM-L6-v2, 384 dimensions).
+ *
+ * **Model directory layout** (as produced by `optimum-cli export onnx` or the
+ * Hugging Face `onnx/` folder of a sentence-transformers repository):
+ * - `model.onnx` or `onnx/model.onnx` - the exported encoder
+ * - `vocab.txt` - WordPiece vocabulary
+ * - `tokenizer_config.json` - optional (`do_lower_case`, `model_max_length`)
+ *
+ * Nothing is downloaded at runtime: the model must already exist on disk.
+ * The ONNX runtime and model are loaded lazily on first use.
+ *
+ * **Pooling**: uses the model's `sentence_embedding` output when present,
+ * otherwise mean-pools the token embeddings with the attention mask.
+ * Vectors are always L2-normalized.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as ort from 'onnxruntime-node';
+import type { EmbeddingService } from '../../domain/interfaces/services/embedding-service.js';
+import {
+  EmbeddingError,
+  InvalidConfigError,
+  InvalidEmbeddingDimensionsError
+} from '../../domain/exceptions/index.js';
+import type { EmbeddingCache } from '../cache/embedding-cache.js';
+import { WordPieceTokenizer } from './wordpiece-tokenizer.js';
+
+/** Default model used when EMBEDDING_MODEL is not set */
+export const DEFAULT_TRANSFORMER_MODEL = 'all-MiniLM-L6-v2';
+
+/**
+ * Options for the transformer embedding service.
+ */
+export interface TransformerEmbeddingOptions {
+  /** Model name, used for cache keys and the default model directory */
+  model?: string;
+  /** Directory containing the ONNX model and vocabulary */
+  modelPath?: string;
+  /** Expected embedding dimensions (validated against model output) */
+  dimensions?: number;
+  /** Maximum sequence length in tokens (default: tokenizer config or 256) */
+  maxLength?: number;
+  /** Texts per inference batch (default: 32) */
+  batchSize?: number;
+}
+
+/**
+ * Resolve the model directory for a transformer model.
+ *
+ * Defaults to `~/.concept_rag/models/<model>` when no explicit path is given.
+ */
+export function resolveTransformerModelPath(model: string, modelPath?: string): string {
+  if (modelPath) {
+    return modelPath.startsWith('~')
+      ? path.join(os.homedir(), modelPath.slice(1))
+      : modelPath;
+  }
+  return path.join(os.homedir(), '.concept_rag', 'models', model);
+}
+
+/**
+ * Files of an ONNX model directory.
+ */
+export interface OnnxModelFiles {
+  /** `model.onnx` or `onnx/model.onnx` */
+  modelFile: string;
+  /** WordPiece `vocab.txt` */
+  vocabFile: string;
+}
+
+/**
+ * Locate the ONNX model and vocabulary in a model directory.
+ *
+ * @param modelDir - Model directory
+ * @param configKey - Configuration key reported in errors (e.g. 'EMBEDDING_MODEL_PATH')
+ * @throws {InvalidConfigError} If the directory or files are missing
+ */
+export function resolveOnnxModelFiles(modelDir: string, configKey: string): OnnxModelFiles {
+  if (!fs.existsSync(modelDir)) {
+    throw new InvalidConfigError(
+      configKey,
+      modelDir,
+      'model directory does not exist (download the ONNX export of the model first)'
+    );
+  }
+
+  const modelFile = [
+    path.join(modelDir, 'model.onnx'),
+    path.join(modelDir, 'onnx', 'model.onnx')
+  ].find(candidate => fs.existsSync(candidate));
+  if (!modelFile) {
+    throw new InvalidConfigError(configKey, modelDir, 'no model.onnx or onnx/model.onnx found');
+  }
+
+  const vocabFile = path.join(modelDir, 'vocab.txt');
+  if (!fs.existsSync(vocabFile)) {
+    throw new InvalidConfigError(configKey, modelDir, 'no vocab.txt found');
+  }
+  return { modelFile, vocabFile };
+}
+
+/**
+ * Read the optional `tokenizer_config.json` of a model directory.
+ */
+export function readTokenizerConfig(modelDir: string): { do_lower_case?: boolean; model_max_length?: number } {
+  const configFile = path.join(modelDir, 'tokenizer_config.json');
+  if (!fs.existsSync(configFile)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+}
+
+interface LoadedModel {
+  runtime: typeof ort;
+  session: ort.InferenceSession;
+  tokenizer: WordPieceTokenizer;
+}
+
+/**
+ * Local transformer embedding service backed by ONNX Runtime.
+ */
+export class TransformerEmbeddingService implements EmbeddingService {
+  private static readonly PROVIDER = 'transformer';
+
+  private readonly model: string;
+  private readonly modelDir: string;
+  private readonly modelFile: string;
+  private readonly vocabFile: string;
+  private readonly dimensions?: number;
+  private readonly maxLength?: number;
+  private readonly batchSize: number;
+  private readonly modelId: string;
+  private loading?: Promise<LoadedModel>;
+
+  /**
+   * Create a transformer embedding service.
+   *
+   * Validates that the model files exist; the model itself is loaded on first use.
+   *
+   * @param options - Model selection options
+   * @param cache - Optional embedding cache
+   * @throws {InvalidConfigError} If the model directory or files are missing
+   */
+  constructor(
+    options: TransformerEmbeddingOptions = {},
+    private readonly cache?: EmbeddingCache
+  ) {
+    this.model = options.model || DEFAULT_TRANSFORMER_MODEL;
+    this.modelDir = resolveTransformerModelPath(this.model, options.modelPath);
+    this.dimensions = options.dimensions;
+    this.maxLength = options.maxLength;
+    this.batchSize = Math.max(1, options.batchSize ?? 32);
+    this.modelId = `transformer:${this.model}`;
+
+    const files = resolveOnnxModelFiles(this.modelDir, 'EMBEDDING_MODEL_PATH');
+    this.modelFile = files.modelFile;
+    this.vocabFile = files.vocabFile;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    if (!this.cache) {
+      return this.embedInBatches(texts);
+    }
+    return this.cache.getOrGenerateMany(texts, this.modelId, misses => this.embedInBatches(misses));
+  }
+
+  private async embedInBatches(texts: string[]): Promise<number[][]> {
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      results.push(...await this.embed(texts.slice(i, i + this.batchSize)));
+    }
+    return results;
+  }
+
+  /**
+   * Run the encoder over a batch of texts and return pooled, normalized vectors.
+   */
+  private async embed(texts: string[]): Promise<number[][]> {
+    const { runtime, session, tokenizer } = await this.load();
+
+    const encoded = texts.map(text => tokenizer.encode(text));
+    const seqLength = Math.max(...encoded.map(e => e.inputIds.length));
+    const rows = encoded.length;
+
+    const inputIds = new BigInt64Array(rows * seqLength);
+    const attentionMask = new BigInt64Array(rows * seqLength);
+    const tokenTypeIds = new BigInt64Array(rows * seqLength);
+    encoded.forEach((e, row) => {
+      for (let i = 0; i < e.inputIds.length; i++) {
+        inputIds[row * seqLength + i] = BigInt(e.inputIds[i]);
+        attentionMask[row * seqLength + i] = BigInt(e.attentionMask[i]);
+        tokenTypeIds[row * seqLength + i] = BigInt(e.tokenTypeIds[i]);
+      }
+    });
+
+    const dims = [rows, seqLength];
+    const feeds: Record<string, ort.Tensor> = {
+      input_ids: new runtime.Tensor('int64', inputIds, dims),
+      attention_mask: new runtime.Tensor('int64', attentionMask, dims)
+    };
+    if (session.inputNames.includes('token_type_ids')) {
+      feeds.token_type_ids = new runtime.Tensor('int64', tokenTypeIds, dims);
+    }
+
+    let outputs: ort.InferenceSession.OnnxValueMapType;
+    try {
+      outputs = await session.run(feeds);
+    } catch (error) {
+      throw new EmbeddingError(
+        `Transformer inference failed for model '${this.model}'`,
+        TransformerEmbeddingService.PROVIDER,
+        error as Error
+      );
+    }
+
+    const vectors = outputs.sentence_embedding
+      ? this.splitRows(outputs.sentence_embedding, rows)
+      : this.meanPool(outputs[session.outputNames[0]], encoded.map(e => e.inputIds.length), seqLength);
+
+    const normalized = vectors.map(normalize);
+    const actual = normalized[0]?.length ?? 0;
+    if (this.dimensions && actual !== this.dimensions) {
+      throw new InvalidEmbeddingDimensionsError(
+        TransformerEmbeddingService.PROVIDER,
+        this.dimensions,
+        actual
+      );
+    }
+    return normalized;
+  }
+
+  private splitRows(tensor: ort.Tensor, rows: number): number[][] {
+    const data = tensor.data as Float32Array;
+    const width = data.length / rows;
+    const result: number[][] = [];
+    for (let row = 0; row < rows; row++) {
+      result.push(Array.from(data.subarray(row * width, (row + 1) * width)));
+    }
+    return result;
+  }
+
+  /**
+   * Mean-pool `[batch, seq, hidden]` token embeddings over real (unpadded) tokens.
+   */
+  private meanPool(tensor: ort.Tensor, lengths: number[], seqLength: number): number[][] {
+    const data = tensor.data as Float32Array;
+    const hidden = tensor.dims[2];
+    return lengths.map((length, row) => {
+      const pooled = new Array<number>(hidden).fill(0);
+      for (let t = 0; t < length; t++) {
+        const offset = (row * seqLength + t) * hidden;
+        for (let h = 0; h < hidden; h++) {
+          pooled[h] += data[offset + h];
+        }
+      }
+      return pooled.map(value => value / Math.max(length, 1));
+    });
+  }
+
+  private load(): Promise<LoadedModel> {
+    if (!this.loading) {
+      this.loading = this.loadModel();
+      // Allow a retry after a failed load
+      this.loading.catch(() => { this.loading = undefined; });
+    }
+    return this.loading;
+  }
+
+  private async loadModel(): Promise<LoadedModel> {
+    try {
+      const runtime = await import('onnxruntime-node');
+      const tokenizerConfig = readTokenizerConfig(this.modelDir);
+      const tokenizer = WordPieceTokenizer.fromVocabFile(this.vocabFile, {
+        lowercase: tokenizerConfig.do_lower_case ?? true,
+        maxLength: this.maxLength ?? Math.min(tokenizerConfig.model_max_length ?? 256, 512)
+      });
+      const session = await runtime.InferenceSession.create(this.modelFile);
+      return { runtime, session, tokenizer };
+    } catch (error) {
+      throw new EmbeddingError(
+        `Failed to load transformer model from ${this.modelDir}`,
+        TransformerEmbeddingService.PROVIDER,
+        error as Error
+      );
+    }
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
@@ -0,0 +1,262 @@
+/**
+ * WordPiece Tokenizer
+ *
+ * Minimal BERT-style tokenizer used by the transformer embedding provider.
+ * Reproduces the "uncased" BERT pipeline (basic tokenization followed by
+ * greedy longest-match-first WordPiece) so that models exported from
+ * sentence-transformers can be run without a Python runtime.
+ *
+ * **Pipeline**:
+ * 1. Clean text (drop control characters, normalize whitespace)
+ * 2. Lowercase and strip accents (optional, default on)
+ * 3. Split on whitespace, punctuation and CJK characters
+ * 4. WordPiece each word against the vocabulary (`##` continuation prefix)
+ * 5. Wrap with `[CLS]` / `[SEP]` and truncate to the model's max length
+ *
+ * Sentence pairs (`[CLS] a [SEP] b [SEP]`, as used by cross-encoders) are
+ * truncated longest-first, like the Hugging Face default.
+ */
+
+import * as fs from 'fs';
+
+/**
+ * Encoded model input for a single text.
+ */
+export interface EncodedText {
+  /** Vocabulary ids, including [CLS] and [SEP] */
+  inputIds: number[];
+  /** 1 for every real token */
+  attentionMask: number[];
+  /** Segment ids (0 for the first sentence, 1 for the second of a pair) */
+  tokenTypeIds: number[];
+}
+
+/**
+ * Tokenizer options.
+ */
+export interface WordPieceTokenizerOptions {
+  /** Lowercase and strip accents before splitting (default: true) */
+  lowercase?: boolean;
+  /** Maximum sequence length including special tokens (default: 256) */
+  maxLength?: number;
+  /** Words longer than this are mapped to [UNK] (default: 100) */
+  maxInputCharsPerWord?: number;
+}
+
+const UNK_TOKEN = '[UNK]';
+const CLS_TOKEN = '[CLS]';
+const SEP_TOKEN = '[SEP]';
+
+/**
+ * Greedy WordPiece tokenizer over a BERT `vocab.txt` vocabulary.
+ */
+export class WordPieceTokenizer {
+  private readonly lowercase: boolean;
+  private readonly maxLength: number;
+  private readonly maxInputCharsPerWord: number;
+  private readonly unkId: number;
+  private readonly clsId: number;
+  private readonly sepId: number;
+
+  /**
+   * @param vocab - Token to id mapping
+   * @param options - Tokenizer options
+   * @throws {Error} If the vocabulary lacks [UNK], [CLS] or [SEP]
+   */
+  constructor(
+    private readonly vocab: Map<string, number>,
+    options: WordPieceTokenizerOptions = {}
+  ) {
+    this.lowercase = options.lowercase ?? true;
+    this.maxLength = options.maxLength ?? 256;
+    this.maxInputCharsPerWord = options.maxInputCharsPerWord ?? 100;
+
+    this.unkId = this.requireToken(UNK_TOKEN);
+    this.clsId = this.requireToken(CLS_TOKEN);
+    this.sepId = this.requireToken(SEP_TOKEN);
+  }
+
+  /**
+   * Load a tokenizer from a `vocab.txt` file (one token per line, id = line number).
+   */
+  static fromVocabFile(vocabPath: string, options?: WordPieceTokenizerOptions): WordPieceTokenizer {
+    const content = fs.readFileSync(vocabPath, 'utf-8');
+    return new WordPieceTokenizer(WordPieceTokenizer.parseVocab(content), options);
+  }
+
+  /**
+   * Parse `vocab.txt` content into a token to id map.
+   */
+  static parseVocab(content: string): Map<string, number> {
+    const vocab = new Map<string, number>();
+    const lines = content.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      const token = lines[i];
+      if (token.length > 0 && !vocab.has(token)) {
+        vocab.set(token, i);
+      }
+    }
+    return vocab;
+  }
+
+  /**
+   * Split text into WordPiece tokens (without special tokens).
+   */
+  tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const word of this.basicTokenize(text)) {
+      tokens.push(...this.wordPiece(word));
+    }
+    return tokens;
+  }
+
+  /**
+   * Encode text into model inputs, truncating to the configured max length.
+   */
+  encode(text: string): EncodedText {
+    const pieces = this.tokenize(text).slice(0, Math.max(0, this.maxLength - 2));
+    const inputIds = [
+      this.clsId,
+      ...pieces.map(piece => this.vocab.get(piece) ?? this.unkId),
+      this.sepId
+    ];
+
+    return {
+      inputIds,
+      attentionMask: inputIds.map(() => 1),
+      tokenTypeIds: inputIds.map(() => 0)
+    };
+  }
+
+  /**
+   * Encode a sentence pair into model inputs (`[CLS] first [SEP] second [SEP]`).
+   *
+   * Tokens are removed from the end of the longer sentence until the pair
+   * fits the configured max length.
+   */
+  encodePair(first: string, second: string): EncodedText {
+    const a = this.tokenize(first);
+    const b = this.tokenize(second);
+    const budget = Math.max(0, this.maxLength - 3);
+    while (a.length + b.length > budget) {
+      if (a.length > b.length) {
+        a.pop();
+      } else {
+        b.pop();
+      }
+    }
+
+    const toIds = (pieces: string[]) => pieces.map(piece => this.vocab.get(piece) ?? this.unkId);
+    const firstIds = [this.clsId, ...toIds(a), this.sepId];
+    const secondIds = [...toIds(b), this.sepId];
+    const inputIds = [...firstIds, ...secondIds];
+
+    return {
+      inputIds,
+      attentionMask: inputIds.map(() => 1),
+      tokenTypeIds: [...firstIds.map(() => 0), ...secondIds.map(() => 1)]
+    };
+  }
+
+  private requireToken(token: string): number {
+    const id = this.vocab.get(token);
+    if (id === undefined) {
+      throw new Error(`WordPiece vocabulary is missing required token ${token}`);
+    }
+    return id;
+  }
+
+  /**
+   * Whitespace/punctuation splitting as done by BERT's BasicTokenizer.
+   */
+  private basicTokenize(text: string): string[] {
+    let cleaned = '';
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      if (code === 0 || code === 0xfffd || isControl(char)) continue;
+      cleaned += isWhitespace(char) ? ' ' : isCjk(code) ? ` ${char} ` : char;
+    }
+
+    if (this.lowercase) {
+      cleaned = cleaned.toLowerCase().normalize('NFD').replace(/\p{Mn}/gu, '');
+    }
+
+    const words: string[] = [];
+    for (const chunk of cleaned.split(' ')) {
+      if (!chunk) continue;
+      let current = '';
+      for (const char of chunk) {
+        if (isPunctuation(char)) {
+          if (current) words.push(current);
+          words.push(char);
+          current = '';
+        } else {
+          current += char;
+        }
+      }
+      if (current) words.push(current);
+    }
+    return words;
+  }
+
+  /**
+   * Greedy longest-match-first WordPiece split of a single word.
+   */
+  private wordPiece(word: string): string[] {
+    const chars = Array.from(word);
+    if (chars.length > this.maxInputCharsPerWord) {
+      return [UNK_TOKEN];
+    }
+
+    const pieces: string[] = [];
+    let start = 0;
+    while (start < chars.length) {
+      let end = chars.length;
+      let match: string | null = null;
+      while (start < end) {
+        const candidate = (start > 0 ? '##' : '') + chars.slice(start, end).join('');
+        if (this.vocab.has(candidate)) {
+          match = candidate;
+          break;
+        }
+        end--;
+      }
+      if (match === null) {
+        return [UNK_TOKEN];
+      }
+      pieces.push(match);
+      start = end;
+    }
+    return pieces;
+  }
+}
+
+function isWhitespace(char: string): boolean {
+  return /\s/u.test(char);
+}
+
+function isControl(char: string): boolean {
+  if (char === '\t' || char === '\n' || char === '\r') return false;
+  return /\p{Cc}|\p{Cf}/u.test(char);
+}
+
+function isPunctuation(char: string): boolean {
+  const code = char.codePointAt(0)!;
+  // BERT treats all non-alphanumeric ASCII as punctuation
+  if ((code >= 33 && code <= 47) || (code >= 58 && code <= 64) ||
+      (code >= 91 && code <= 96) || (code >= 123 && code <= 126)) {
+    return true;
+  }
+  return /\p{P}/u.test(char);
+}
+
+function isCjk(code: number): boolean {
+  return (code >= 0x4e00 && code <= 0x9fff) ||
+    (code >= 0x3400 && code <= 0x4dbf) ||
+    (code >= 0x20000 && code <= 0x2a6df) ||
+    (code >= 0x2a700 && code <= 0x2b73f) ||
+    (code >= 0x2b740 && code <= 0x2b81f) ||
+    (code >= 0x2b820 && code <= 0x2ceaf) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0x2f800 && code <= 0x2fa1f);
+}
@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for Concept Graph Serializers
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { serializeConceptGraph, toCytoscape, toGEXF, toGraphML } from '../graph-serializers.js';
+import type { ConceptGraph } from '../../../domain/models/index.js';
+
+const graph: ConceptGraph = {
+  nodes: [
+    { id: 'concept-1', kind: 'concept', label: 'cqrs', weight: 0.8, documentCount: 2, category: 'R&D <core>' },
+    { id: 'document-7', kind: 'document', label: 'cqrs-journey.pdf', weight: 1 / 3, documentCount: 1 }
+  ],
+  edges: [
+    { source: 'concept-1', target: 'document-7', relations: ['appears-in'], weight: 1 },
+    { source: 'concept-1', target: 'concept-1', relations: ['co-occurrence', 'lexical'], weight: 2 / 3 }
+  ]
+};
+
+describe('toGraphML', () => {
+  it('should write typed node and edge attributes', () => {
+    // EXERCISE
+    const xml = toGraphML(graph);
+
+    // VERIFY
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<graphml xmlns="http://graphml.graphdrawing.org/xmlns"')).toBe(true);
+    expect(xml).toContain('<key id="document_count" for="node" attr.name="document_count" attr.type="int"/>');
+    expect(xml).toContain('<key id="edge_weight" for="edge" attr.name="weight" attr.type="double"/>');
+    expect(xml).toContain('<graph id="concept-graph" edgedefault="undirected">');
+    expect(xml).toContain([
+      '    <node id="concept-1">',
+      '      <data key="label">cqrs</data>',
+      '      <data key="kind">concept</data>',
+      '      <data key="weight">0.8</data>',
+      '      <data key="document_count">2</data>',
+      '      <data key="category">R&amp;D &lt;core&gt;</data>',
+      '    </node>'
+    ].join('\n'));
+    expect(xml).toContain([
+      '    <edge id="e1" source="concept-1" target="concept-1">',
+      '      <data key="relations">co-occurrence,lexical</data>',
+      '      <data key="edge_weight">0.6667</data>',
+      '    </edge>'
+    ].join('\n'));
+  });
+
+  it('should drop characters XML 1.0 does not allow', () => {
+    // SETUP
+    const dirty: ConceptGraph = {
+      nodes: [{ id: 'concept-2', kind: 'concept', label: 'form\u000Cfeed\u0000 \uD800caf\u00E9\uFFFE \u{1F600}\ttab', weight: 1, documentCount: 1 }],
+      edges: []
+    };
+
+    // EXERCISE
+    const xml = toGraphML(dirty);
+
+    // VERIFY
+    expect(xml).toContain('<data key="label">formfeed caf\u00E9 \u{1F600}\ttab</data>');
+  });
+
+  it('should leave out a missing category', () => {
+    // EXERCISE
+    const xml = toGraphML(graph);
+
+    // VERIFY
+    expect(xml.match(/<data key="category">/g)).toHaveLength(1);
+  });
+});
+
+describe('toGEXF', () => {
+  it('should write node attribute values and edge weights', () => {
+    // EXERCISE
+    const xml = toGEXF(graph);
+
+    // VERIFY
+    expect(xml).toContain('<gexf xmlns="http://www.gexf.net/1.2draft" version="1.2">');
+    expect(xml).toContain('<graph mode="static" defaultedgetype="undirected">');
+    expect(xml).toContain([
+      '      <node id="document-7" label="cqrs-journey.pdf">',
+      '        <attvalues>',
+      '          <attvalue for="0" value="document"/>',
+      '          <attvalue for="1" value="0.3333"/>',
+      '          <attvalue for="2" value="1"/>',
+      '        </attvalues>',
+      '      </node>'
+    ].join('\n'));
+    expect(xml).toContain('<attvalue for="3" value="R&amp;D &lt;core&gt;"/>');
+    expect(xml).toContain('<edge id="0" source="concept-1" target="document-7" weight="1">');
+    expect(xml.trimEnd().endsWith('</gexf>')).toBe(true);
+  });
+});
+
+describe('toCytoscape', () => {
+  it('should write Cytoscape.js elements', () => {
+    // EXERCISE
+    const json = JSON.parse(toCytoscape(graph));
+
+    // VERIFY
+    expect(json).toEqual({
+      elements: {
+        nodes: [
+          { data: { id: 'concept-1', label: 'cqrs', kind: 'concept', weight: 0.8, document_count: 2, category: 'R&D <core>' } },
+          { data: { id: 'document-7', label: 'cqrs-journey.pdf', kind: 'document', weight: 0.3333, document_count: 1 } }
+        ],
+        edges: [
+          { data: { id: 'e0', source: 'concept-1', target: 'document-7', relations: ['appears-in'], weight: 1 } },
+          { data: { id: 'e1', source: 'concept-1', target: 'concept-1', relations: ['co-occurrence', 'lexical'], weight: 0.6667 } }
+        ]
+      }
+    });
+  });
+});
+
+describe('serializeConceptGraph', () => {
+  it('should write the requested format', () => {
+    // EXERCISE & VERIFY
+    expect(serializeConceptGraph(graph, 'graphml')).toBe(toGraphML(graph));
+    expect(serializeConceptGraph(graph, 'gexf')).toBe(toGEXF(graph));
+    expect(serializeConceptGraph(graph, 'cytoscape')).toBe(toCytoscape(graph));
+  });
+});
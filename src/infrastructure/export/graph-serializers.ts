@@ -0,0 +1,209 @@
+/**
+ * Concept Graph Serializers
+ *
+ * Writes the concept graph in the formats graph tools read:
+ *
+ * - **GraphML**: XML with typed node and edge attributes (Gephi, yEd, NetworkX)
+ * - **GEXF 1.2**: Gephi's native XML format; edge weights are read as weights
+ * - **Cytoscape.js**: `{ elements: { nodes, edges } }` JSON for `cy.add()` or `cytoscape({ elements })`
+ *
+ * Every node carries its kind, weight, document count and category; every
+ * edge its relations and weight. Weights are rounded to 4 decimals.
+ */
+
+import type {
+  ConceptGraph,
+  ConceptGraphEdge,
+  ConceptGraphNode,
+  GraphExportFormat
+} from '../../domain/models/index.js';
+
+/**
+ * MIME type of each export format.
+ */
+export const GRAPH_EXPORT_MIME_TYPES: Record<GraphExportFormat, string> = {
+  graphml: 'application/graphml+xml',
+  gexf: 'application/gexf+xml',
+  cytoscape: 'application/json'
+};
+
+/**
+ * File extension of each export format.
+ */
+export const GRAPH_EXPORT_EXTENSIONS: Record<GraphExportFormat, string> = {
+  graphml: '.graphml',
+  gexf: '.gexf',
+  cytoscape: '.json'
+};
+
+/**
+ * Write a concept graph in the given format.
+ *
+ * @param graph - Graph to write
+ * @param format - Export format
+ * @returns The serialized graph
+ */
+export function serializeConceptGraph(graph: ConceptGraph, format: GraphExportFormat): string {
+  switch (format) {
+    case 'graphml':
+      return toGraphML(graph);
+    case 'gexf':
+      return toGEXF(graph);
+    case 'cytoscape':
+      return toCytoscape(graph);
+  }
+}
+
+/**
+ * Write a concept graph as GraphML.
+ *
+ * Node and edge weights are separate keys (`weight` and `edge_weight`),
+ * both named `weight`, as GraphML key IDs are shared by nodes and edges.
+ */
+export function toGraphML(graph: ConceptGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '    xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="kind" for="node" attr.name="kind" attr.type="string"/>',
+    '  <key id="weight" for="node" attr.name="weight" attr.type="double"/>',
+    '  <key id="document_count" for="node" attr.name="document_count" attr.type="int"/>',
+    '  <key id="category" for="node" attr.name="category" attr.type="string"/>',
+    '  <key id="relations" for="edge" attr.name="relations" attr.type="string"/>',
+    '  <key id="edge_weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <graph id="concept-graph" edgedefault="undirected">'
+  ];
+
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="label">${escapeXml(node.label)}</data>`);
+    lines.push(`      <data key="kind">${node.kind}</data>`);
+    lines.push(`      <data key="weight">${round(node.weight)}</data>`);
+    lines.push(`      <data key="document_count">${node.documentCount}</data>`);
+    if (node.category !== undefined) {
+      lines.push(`      <data key="category">${escapeXml(node.category)}</data>`);
+    }
+    lines.push('    </node>');
+  }
+
+  graph.edges.forEach((edge, index) => {
+    lines.push(`    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    lines.push(`      <data key="relations">${edge.relations.join(',')}</data>`);
+    lines.push(`      <data key="edge_weight">${round(edge.weight)}</data>`);
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Write a concept graph as GEXF 1.2.
+ *
+ * Node attributes are declared once and referenced by index; edge weights
+ * use GEXF's `weight` attribute, which Gephi uses for layout and ranking.
+ */
+export function toGEXF(graph: ConceptGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://www.gexf.net/1.2draft" version="1.2">',
+    '  <meta>',
+    '    <creator>concept-rag</creator>',
+    '    <description>Concept graph</description>',
+    '  </meta>',
+    '  <graph mode="static" defaultedgetype="undirected">',
+    '    <attributes class="node">',
+    '      <attribute id="0" title="kind" type="string"/>',
+    '      <attribute id="1" title="weight" type="double"/>',
+    '      <attribute id="2" title="document_count" type="integer"/>',
+    '      <attribute id="3" title="category" type="string"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="0" title="relations" type="string"/>',
+    '    </attributes>',
+    '    <nodes>'
+  ];
+
+  for (const node of graph.nodes) {
+    lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`);
+    lines.push('        <attvalues>');
+    lines.push(`          <attvalue for="0" value="${node.kind}"/>`);
+    lines.push(`          <attvalue for="1" value="${round(node.weight)}"/>`);
+    lines.push(`          <attvalue for="2" value="${node.documentCount}"/>`);
+    if (node.category !== undefined) {
+      lines.push(`          <attvalue for="3" value="${escapeXml(node.category)}"/>`);
+    }
+    lines.push('        </attvalues>');
+    lines.push('      </node>');
+  }
+
+  lines.push('    </nodes>', '    <edges>');
+  graph.edges.forEach((edge, index) => {
+    lines.push(
+      `      <edge id="${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" weight="${round(edge.weight)}">`
+    );
+    lines.push('        <attvalues>');
+    lines.push(`          <attvalue for="0" value="${edge.relations.join(',')}"/>`);
+    lines.push('        </attvalues>');
+    lines.push('      </edge>');
+  });
+
+  lines.push('    </edges>', '  </graph>', '</gexf>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Write a concept graph as Cytoscape.js elements JSON.
+ */
+export function toCytoscape(graph: ConceptGraph): string {
+  return JSON.stringify({
+    elements: {
+      nodes: graph.nodes.map(cytoscapeNode),
+      edges: graph.edges.map(cytoscapeEdge)
+    }
+  }, null, 2);
+}
+
+function cytoscapeNode(node: ConceptGraphNode) {
+  return {
+    data: {
+      id: node.id,
+      label: node.label,
+      kind: node.kind,
+      weight: round(node.weight),
+      document_count: node.documentCount,
+      ...(node.category !== undefined && { category: node.category })
+    }
+  };
+}
+
+function cytoscapeEdge(edge: ConceptGraphEdge, index: number) {
+  return {
+    data: {
+      id: `e${index}`,
+      source: edge.source,
+      target: edge.target,
+      relations: edge.relations,
+      weight: round(edge.weight)
+    }
+  };
+}
+
+/** Characters outside the XML 1.0 `Char` production (control characters, lone surrogates, U+FFFE/U+FFFF) */
+const INVALID_XML_CHARS = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
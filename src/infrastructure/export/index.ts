@@ -0,0 +1,12 @@
+/**
+ * Export of library data to external formats.
+ */
+
+export {
+  GRAPH_EXPORT_MIME_TYPES,
+  GRAPH_EXPORT_EXTENSIONS,
+  serializeConceptGraph,
+  toGraphML,
+  toGEXF,
+  toCytoscape
+} from './graph-serializers.js';
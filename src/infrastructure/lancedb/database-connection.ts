@@ -27,13 +27,19 @@ export class LanceDBConnection {
    * 
    * @param databaseUrl - Path to database directory
    * @param resilientExecutor - Optional resilient executor for circuit breaker protection
+   * @param readConsistencyInterval - Seconds between checks for writes by other
+   *   processes (e.g. a reseed); 0 checks on every read, undefined never checks
    * @returns Connected LanceDB instance
    * @throws {ConnectionError} If connection fails
    */
-  static async connect(databaseUrl: string, resilientExecutor?: ResilientExecutor): Promise<LanceDBConnection> {
+  static async connect(
+    databaseUrl: string,
+    resilientExecutor?: ResilientExecutor,
+    readConsistencyInterval?: number
+  ): Promise<LanceDBConnection> {
     try {
       console.error(`Connecting to database: ${databaseUrl}`);
-      const client = await lancedb.connect(databaseUrl);
+      const client = await lancedb.connect(databaseUrl, { readConsistencyInterval });
       return new LanceDBConnection(client, resilientExecutor);
     } catch (error) {
       throw new ConnectionError(error as Error);
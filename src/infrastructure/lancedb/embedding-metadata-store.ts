@@ -0,0 +1,192 @@
+import * as lancedb from "@lancedb/lancedb";
+import { DatabaseError } from "../../domain/exceptions/index.js";
+import type { EmbeddingSignature } from '../embeddings/embedding-provider-factory.js';
+
+/** Registry table holding one embedding stamp per vector table */
+export const EMBEDDING_METADATA_TABLE_NAME = 'embedding_metadata';
+
+/**
+ * Embedding provider, model and dimensions recorded for a table.
+ */
+export interface EmbeddingStamp extends EmbeddingSignature {
+  /** Table whose `vector` column the stamp describes */
+  tableName: string;
+  /** ISO timestamp of the seeding or re-embedding run */
+  stampedAt: string;
+}
+
+/**
+ * Result of comparing one table against the configured embedding signature.
+ */
+export interface EmbeddingTableCheck {
+  tableName: string;
+  /** 'match', 'unstamped' (legacy table, dimensions compatible) or 'mismatch' */
+  status: 'match' | 'unstamped' | 'mismatch';
+  stamp?: EmbeddingStamp;
+  /** Dimensions of the stored `vector` column, if it has a fixed size */
+  vectorDimensions?: number;
+  /** Human-readable explanation for mismatches */
+  reason?: string;
+}
+
+/**
+ * Records which embedding provider produced each table's vectors.
+ *
+ * LanceDB cannot update schema metadata after a table is created, so stamps
+ * live in a small registry table (`embedding_metadata`) keyed by table name.
+ * Tables seeded before stamping existed have no row and are reported as
+ * 'unstamped'; their vector width is still checked against the configuration.
+ */
+export class EmbeddingMetadataStore {
+  constructor(private readonly client: lancedb.Connection) {}
+
+  /**
+   * Read all stamps, keyed by table name.
+   *
+   * @returns Stamps (empty if the registry table does not exist yet)
+   * @throws {DatabaseError} If the registry cannot be read
+   */
+  async readStamps(): Promise<Map<string, EmbeddingStamp>> {
+    const stamps = new Map<string, EmbeddingStamp>();
+    try {
+      const tableNames = await this.client.tableNames();
+      if (!tableNames.includes(EMBEDDING_METADATA_TABLE_NAME)) {
+        return stamps;
+      }
+
+      const table = await this.client.openTable(EMBEDDING_METADATA_TABLE_NAME);
+      const rows = await table.query().toArray();
+      for (const row of rows) {
+        stamps.set(row.table_name, {
+          tableName: row.table_name,
+          provider: row.provider,
+          model: row.model,
+          dimensions: Number(row.dimensions),
+          stampedAt: row.stamped_at
+        });
+      }
+      return stamps;
+    } catch (error) {
+      throw new DatabaseError(
+        'Failed to read embedding metadata',
+        'query',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Record that the given tables were embedded with `signature`,
+   * replacing any previous stamps for them.
+   *
+   * @param tableNames - Tables to stamp
+   * @param signature - Provider, model and dimensions used
+   * @throws {DatabaseError} If the registry cannot be written
+   */
+  async stamp(tableNames: string[], signature: EmbeddingSignature): Promise<void> {
+    if (tableNames.length === 0) {
+      return;
+    }
+
+    const stampedAt = new Date().toISOString();
+    const rows = tableNames.map(tableName => ({
+      table_name: tableName,
+      provider: signature.provider,
+      model: signature.model,
+      dimensions: signature.dimensions,
+      stamped_at: stampedAt
+    }));
+
+    try {
+      const existing = await this.client.tableNames();
+      if (!existing.includes(EMBEDDING_METADATA_TABLE_NAME)) {
+        await this.client.createTable(EMBEDDING_METADATA_TABLE_NAME, rows);
+        return;
+      }
+
+      const table = await this.client.openTable(EMBEDDING_METADATA_TABLE_NAME);
+      const names = tableNames.map(name => `'${name.replace(/'/g, "''")}'`).join(', ');
+      await table.delete(`table_name IN (${names})`);
+      await table.add(rows);
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to stamp embedding metadata for ${tableNames.join(', ')}`,
+        'insert',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Compare tables against the signature of the configured provider.
+   *
+   * A table mismatches when its stamp names a different provider, model or
+   * dimension, or when its `vector` column width differs from the expected
+   * dimensions (which also catches unstamped legacy tables).
+   *
+   * @param tables - Open tables keyed by name
+   * @param expected - Signature of the configured provider
+   * @returns One check per table, in input order
+   */
+  async check(
+    tables: Map<string, lancedb.Table>,
+    expected: EmbeddingSignature
+  ): Promise<EmbeddingTableCheck[]> {
+    const stamps = await this.readStamps();
+    const checks: EmbeddingTableCheck[] = [];
+
+    for (const [tableName, table] of tables) {
+      const stamp = stamps.get(tableName);
+      const vectorDimensions = await readVectorDimensions(table);
+
+      if (vectorDimensions !== undefined && vectorDimensions !== expected.dimensions) {
+        checks.push({
+          tableName,
+          status: 'mismatch',
+          stamp,
+          vectorDimensions,
+          reason: `${tableName} has ${vectorDimensions}-dimensional vectors` +
+            `${stamp ? ` from ${describeSignature(stamp)}` : ''}, configured ${describeSignature(expected)}`
+        });
+      } else if (!stamp) {
+        checks.push({ tableName, status: 'unstamped', vectorDimensions });
+      } else if (
+        stamp.provider !== expected.provider ||
+        stamp.model !== expected.model ||
+        stamp.dimensions !== expected.dimensions
+      ) {
+        checks.push({
+          tableName,
+          status: 'mismatch',
+          stamp,
+          vectorDimensions,
+          reason: `${tableName} was embedded with ${describeSignature(stamp)}, configured ${describeSignature(expected)}`
+        });
+      } else {
+        checks.push({ tableName, status: 'match', stamp, vectorDimensions });
+      }
+    }
+
+    return checks;
+  }
+}
+
+/**
+ * Read the fixed width of a table's `vector` column from its Arrow schema.
+ *
+ * @param table - LanceDB table
+ * @returns Vector dimensions, or undefined if the table has no fixed-size vector column
+ */
+export async function readVectorDimensions(table: lancedb.Table): Promise<number | undefined> {
+  const schema = await table.schema();
+  const field = schema.fields.find(f => f.name === 'vector');
+  const listSize = (field?.type as { listSize?: number } | undefined)?.listSize;
+  return typeof listSize === 'number' ? listSize : undefined;
+}
+
+/**
+ * Format a signature for log and error messages, e.g. `transformer/all-MiniLM-L6-v2 (384d)`.
+ */
+export function describeSignature(signature: EmbeddingSignature): string {
+  return `${signature.provider}/${signature.model} (${signature.dimensions}d)`;
+}
@@ -0,0 +1,158 @@
+import * as lancedb from "@lancedb/lancedb";
+import { DatabaseError } from "../../domain/exceptions/index.js";
+import { passageShingles } from "../search/passage-matching.js";
+
+/** Table holding the shingles of the chunks, for passage lookup */
+export const PASSAGE_INDEX_TABLE_NAME = 'passage_shingles';
+
+/** Shingle rows written per batch while building the index */
+const WRITE_BATCH_SIZE = 100000;
+
+/** Shingles looked up per query */
+const LOOKUP_BATCH_SIZE = 500;
+
+/** Matching shingle rows read per page of a lookup query */
+const LOOKUP_PAGE_SIZE = 100000;
+
+/**
+ * Persists the passage index: one row per distinct shingle of a chunk
+ * (see {@link passageShingles}), so the chunks a passage was quoted
+ * from are found by shingle instead of scanning the chunk text.
+ *
+ * The index is built at seed time (or with `npm run build-passage-index`
+ * for existing databases) and queried by `find_passage`.
+ */
+export class PassageIndexStore {
+  constructor(private readonly client: lancedb.Connection) {}
+
+  /**
+   * Whether the passage index was built.
+   *
+   * @throws {DatabaseError} If the table names cannot be read
+   */
+  async exists(): Promise<boolean> {
+    try {
+      return (await this.client.tableNames()).includes(PASSAGE_INDEX_TABLE_NAME);
+    } catch (error) {
+      throw new DatabaseError(
+        'Failed to read passage index',
+        'query',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Count the shingles each chunk shares with a passage.
+   *
+   * @param shingles - Distinct shingles of the passage
+   * @returns Shared shingles by chunk ID (empty if the index does not exist)
+   * @throws {DatabaseError} If the index cannot be read
+   */
+  async lookup(shingles: readonly number[]): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    if (shingles.length === 0 || !(await this.exists())) {
+      return counts;
+    }
+
+    try {
+      const table = await this.client.openTable(PASSAGE_INDEX_TABLE_NAME);
+      for (let i = 0; i < shingles.length; i += LOOKUP_BATCH_SIZE) {
+        const batch = shingles.slice(i, i + LOOKUP_BATCH_SIZE);
+        // Page through the matches: common shingles can match many chunks
+        for (let offset = 0; ; offset += LOOKUP_PAGE_SIZE) {
+          const rows = await table
+            .query()
+            .where(`shingle IN (${batch.join(', ')})`)
+            .select(['shingle', 'chunk_id'])
+            .offset(offset)
+            .limit(LOOKUP_PAGE_SIZE)
+            .toArray();
+          for (const row of rows) {
+            const chunkId = Number(row.chunk_id);
+            counts.set(chunkId, (counts.get(chunkId) ?? 0) + 1);
+          }
+          if (rows.length < LOOKUP_PAGE_SIZE) break;
+        }
+      }
+      return counts;
+    } catch (error) {
+      throw new DatabaseError(
+        'Failed to look up passage shingles',
+        'query',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Rebuild the passage index from the chunks table.
+   *
+   * A database without chunks drops the index.
+   *
+   * @returns Number of shingle rows
+   * @throws {DatabaseError} If the chunks cannot be read or the index written
+   */
+  async rebuild(): Promise<number> {
+    try {
+      const tableNames = await this.client.tableNames();
+      const rowCount = tableNames.includes('chunks')
+        ? await (await this.client.openTable('chunks')).countRows()
+        : 0;
+      if (rowCount === 0) {
+        if (tableNames.includes(PASSAGE_INDEX_TABLE_NAME)) {
+          await this.client.dropTable(PASSAGE_INDEX_TABLE_NAME);
+        }
+        return 0;
+      }
+
+      const chunks = await (await this.client.openTable('chunks'))
+        .query()
+        .select(['id', 'text'])
+        .limit(rowCount)
+        .toArrow();
+      const ids = chunks.getChild('id');
+      const texts = chunks.getChild('text');
+
+      let table: lancedb.Table | undefined;
+      let batch: Array<{ shingle: number; chunk_id: number }> = [];
+      let total = 0;
+      const flush = async () => {
+        if (batch.length === 0) return;
+        if (table) {
+          await table.add(batch);
+        } else {
+          table = await this.client.createTable(PASSAGE_INDEX_TABLE_NAME, batch, { mode: 'overwrite' });
+        }
+        total += batch.length;
+        batch = [];
+      };
+
+      for (let i = 0; i < chunks.numRows; i++) {
+        const text = texts?.get(i);
+        if (typeof text !== 'string') continue;
+        const chunkId = Number(ids?.get(i));
+        for (const shingle of passageShingles(text)) {
+          batch.push({ shingle, chunk_id: chunkId });
+        }
+        if (batch.length >= WRITE_BATCH_SIZE) {
+          await flush();
+        }
+      }
+      await flush();
+
+      if (table) {
+        await table.createIndex('shingle', { config: lancedb.Index.btree() });
+      } else if (tableNames.includes(PASSAGE_INDEX_TABLE_NAME)) {
+        await this.client.dropTable(PASSAGE_INDEX_TABLE_NAME);
+      }
+      return total;
+    } catch (error) {
+      throw new DatabaseError(
+        'Failed to build passage index',
+        'insert',
+        error as Error
+      );
+    }
+  }
+}
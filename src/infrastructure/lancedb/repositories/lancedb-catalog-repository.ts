@@ -1,13 +1,14 @@
 import * as lancedb from "@lancedb/lancedb";
 import { CatalogRepository } from '../../../domain/interfaces/repositories/catalog-repository.js';
-import { SearchQuery, SearchResult } from '../../../domain/models/index.js';
-import { HybridSearchService } from '../../../domain/interfaces/services/hybrid-search-service.js';
+import { CandidateSearchResults, SearchExplanation, SearchFilters, SearchQuery, SearchResult } from '../../../domain/models/index.js';
+import { HybridSearchService, type HybridSearchOptions } from '../../../domain/interfaces/services/hybrid-search-service.js';
 import { SearchableCollectionAdapter } from '../searchable-collection-adapter.js';
 import { DatabaseError } from '../../../domain/exceptions/index.js';
 // @ts-expect-error - Type narrowing limitation
 import type { Option } from "../../../../__tests__/test-helpers/../../domain/functional/index.js";
 import { Some, None } from '../../../domain/functional/option.js';
 import { hashToId } from '../../utils/hash.js';
+import { compileCatalogFilter } from '../utils/filter-compiler.js';
 
 /**
  * LanceDB implementation of CatalogRepository
@@ -45,7 +46,7 @@ export class LanceDBCatalogRepository implements CatalogRepository {
         collection,
         query.text,
         limit,
-        debug
+        { ...this.hybridSearchOptions(query), debug }
       );
     } catch (error) {
       throw new DatabaseError(
@@ -55,6 +56,60 @@ export class LanceDBCatalogRepository implements CatalogRepository {
       );
     }
   }
+  
+  /**
+   * Search the catalog and return every candidate document with the results.
+   * @param query - Search query parameters
+   * @returns Ranked results and all candidate documents
+   * @throws {DatabaseError} If database query fails
+   */
+  async searchWithCandidates(query: SearchQuery): Promise<CandidateSearchResults> {
+    try {
+      const collection = new SearchableCollectionAdapter(this.catalogTable, 'catalog');
+      return await this.hybridSearchService.searchWithCandidates(
+        collection,
+        query.text,
+        query.limit || 5,
+        { ...this.hybridSearchOptions(query), debug: query.debug || false }
+      );
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to search catalog with query "${query.text}"`,
+        'search',
+        error as Error
+      );
+    }
+  }
+  
+  /**
+   * Explain how the catalog search ranks a query.
+   * @param query - Search query parameters
+   * @returns Trace of the search
+   * @throws {DatabaseError} If database query fails
+   */
+  async explainSearch(query: SearchQuery): Promise<SearchExplanation> {
+    try {
+      const collection = new SearchableCollectionAdapter(this.catalogTable, 'catalog');
+      return await this.hybridSearchService.explain(collection, query.text, query.limit || 5, this.hybridSearchOptions(query));
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to explain catalog search with query "${query.text}"`,
+        'search',
+        error as Error
+      );
+    }
+  }
+  
+  /**
+   * Hybrid search options for a catalog query.
+   */
+  private hybridSearchOptions(query: SearchQuery): HybridSearchOptions {
+    return {
+      filter: compileCatalogFilter(query.filters),
+      rerank: query.rerank ?? false,
+      weightProfile: query.weightProfile
+    };
+  }
   /**
    * Find a catalog entry by ID.
    * @param catalogId - Hash-based document ID
@@ -84,6 +139,56 @@ export class LanceDBCatalogRepository implements CatalogRepository {
   }
   
   
+  /**
+   * Find catalog entries by ID.
+   * @param catalogIds - Hash-based document IDs (unknown and repeated IDs are skipped)
+   * @returns Entries found
+   * @throws {DatabaseError} If database query fails
+   */
+  async findByIds(catalogIds: number[]): Promise<SearchResult[]> {
+    const ids = Array.from(new Set(catalogIds));
+    if (ids.length === 0) {
+      return [];
+    }
+    try {
+      const rows = await this.catalogTable
+        .query()
+        .where(`id IN (${ids.join(', ')})`)
+        .limit(ids.length)
+        .toArray();
+      return rows.map((row: any) => this.docToSearchResult(row));
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to find catalog entries for ${ids.length} IDs`,
+        'query',
+        error as Error
+      );
+    }
+  }
+  
+  /**
+   * Find the catalog entries nearest to an embedding vector.
+   * @param queryVector - Embedding to search with
+   * @param limit - Maximum entries to return
+   * @returns Entries, nearest first, with the vector distance
+   * @throws {DatabaseError} If database query fails
+   */
+  async findByVector(queryVector: number[], limit: number): Promise<SearchResult[]> {
+    try {
+      const rows = await this.catalogTable
+        .vectorSearch(queryVector)
+        .limit(limit)
+        .toArray();
+      return rows.map((row: any) => ({ ...this.docToSearchResult(row), distance: row._distance ?? 0 }));
+    } catch (error) {
+      throw new DatabaseError(
+        'Failed to find catalog entries by vector',
+        'search',
+        error as Error
+      );
+    }
+  }
+  
   /**
    * Find a catalog entry by source path.
    * Uses hash-based ID lookup for reliability with special characters.
@@ -124,6 +229,31 @@ export class LanceDBCatalogRepository implements CatalogRepository {
     }
   }
   
+  /**
+   * Find the IDs of catalog entries matching structured metadata filters.
+   * @param filters - Metadata filters (combined with AND)
+   * @returns IDs of matching catalog entries (all entries when no filter applies)
+   * @throws {DatabaseError} If database query fails
+   */
+  async findIdsByFilters(filters: SearchFilters): Promise<number[]> {
+    const predicate = compileCatalogFilter(filters);
+    try {
+      // Note: LanceDB query() has default limit of 10, so we need explicit high limit
+      let query = this.catalogTable.query().select(['id']).limit(100000);
+      if (predicate) {
+        query = query.where(predicate);
+      }
+      const rows = await query.toArray();
+      return rows.map((row: any) => Number(row.id));
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to find catalog entries matching filter "${predicate}"`,
+        'query',
+        error as Error
+      );
+    }
+  }
+  
   /**
    * Convert a raw document row to SearchResult format.
    */
@@ -227,7 +357,9 @@ export class LanceDBCatalogRepository implements CatalogRepository {
       venue: doc.venue || undefined,
       keywords: keywords && keywords.length > 0 ? keywords : undefined,
       abstract: doc.abstract || undefined,
-      authors: authors && authors.length > 0 ? authors : undefined
+      authors: authors && authors.length > 0 ? authors : undefined,
+      author: doc.author || undefined,
+      year: doc.year || undefined
     };
   }
   
@@ -2,14 +2,19 @@ import * as lancedb from "@lancedb/lancedb";
 import { ChunkRepository } from '../../../domain/interfaces/repositories/chunk-repository.js';
 import { ConceptRepository } from '../../../domain/interfaces/repositories/concept-repository.js';
 import { EmbeddingService } from '../../../domain/interfaces/services/embedding-service.js';
-import { HybridSearchService } from '../../../domain/interfaces/services/hybrid-search-service.js';
-import { Chunk, SearchQuery, SearchResult } from '../../../domain/models/index.js';
+import { HybridSearchService, type HybridSearchOptions } from '../../../domain/interfaces/services/hybrid-search-service.js';
+import { CandidateSearchResults, Chunk, ChunkContext, PassageCandidate, SearchExplanation, SearchQuery, SearchResult } from '../../../domain/models/index.js';
 import { ConceptNotFoundError, InvalidEmbeddingsError } from '../../../domain/exceptions.js';
 import { DatabaseError } from '../../../domain/exceptions/index.js';
 import { parseJsonField } from '../utils/field-parsers.js';
+import { compileChunkFilter } from '../utils/filter-compiler.js';
 import { validateChunkRow, detectVectorField } from '../utils/schema-validators.js';
 import { SearchableCollectionAdapter } from '../searchable-collection-adapter.js';
-import { isNone } from '../../../domain/functional/index.js';
+import { PassageIndexStore } from '../passage-index-store.js';
+import { alignPassage, passageShingles } from '../../search/passage-matching.js';
+import { calculateVectorScore } from '../../search/scoring-strategies.js';
+import { isNone, None, Some } from '../../../domain/functional/index.js';
+import type { Option } from '../../../domain/functional/option.js';
 
 /**
  * LanceDB implementation of ChunkRepository
@@ -18,6 +23,7 @@ import { isNone } from '../../../domain/functional/index.js';
  * Performance: O(log n) vector search vs O(n) full scan.
  * 
  * Search operations use HybridSearchService for multi-signal ranking.
+ * Passage lookup uses the passage index built at seed time when given.
  * 
  * Note: Uses derived text fields (concept_names, catalog_title) for display
  * and filtering. No ID-to-name caches needed at runtime.
@@ -27,7 +33,8 @@ export class LanceDBChunkRepository implements ChunkRepository {
     private chunksTable: lancedb.Table,
     private conceptRepo: ConceptRepository,
     private embeddingService: EmbeddingService,
-    private hybridSearchService: HybridSearchService
+    private hybridSearchService: HybridSearchService,
+    private passageIndex?: PassageIndexStore
   ) {}
   
   /**
@@ -98,7 +105,7 @@ export class LanceDBChunkRepository implements ChunkRepository {
   
   async findByTitle(title: string, limit: number): Promise<Chunk[]> {
     // Search chunks by catalog_title using vector similarity
-    const titleEmbedding = this.embeddingService.generateEmbedding(title);
+    const [titleEmbedding] = await this.embeddingService.generateEmbeddings([title]);
     
     const results = await this.chunksTable
       .vectorSearch(titleEmbedding)
@@ -130,6 +137,99 @@ export class LanceDBChunkRepository implements ChunkRepository {
     }
   }
   
+  /**
+   * Find a chunk and its neighbours in reading order.
+   * 
+   * With stored ordinals this reads just the window of `chunk_index`
+   * values around the chunk; otherwise it loads the document's chunks and
+   * orders them by page (stored row order, i.e. split order, within a page).
+   */
+  async findNeighbours(chunkId: number, before: number, after: number): Promise<Option<ChunkContext>> {
+    try {
+      const rows = await this.chunksTable
+        .query()
+        .where(`id = ${chunkId}`)
+        .limit(1)
+        .toArray();
+      
+      if (rows.length === 0) {
+        return None();
+      }
+      
+      const chunk = this.mapRowToChunk(rows[0]);
+      const documentChunks = chunk.chunkIndex !== undefined
+        ? await this.findByChunkIndexRange(chunk.catalogId, chunk.chunkIndex - before, chunk.chunkIndex + after)
+        : await this.findInPageOrder(chunk.catalogId);
+      
+      const position = documentChunks.findIndex(c => c.id === chunk.id);
+      return Some({
+        chunk,
+        before: documentChunks.slice(Math.max(0, position - before), position),
+        after: documentChunks.slice(position + 1, position + 1 + after)
+      });
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to find neighbours of chunk ${chunkId}`,
+        'query',
+        error as Error
+      );
+    }
+  }
+  
+  /**
+   * Find chunks that may contain a passage.
+   * 
+   * Shingle candidates are scored by vector search restricted to them, so
+   * both kinds of candidates get a vector score from one distance metric.
+   */
+  async findByPassage(passage: string, limit: number): Promise<PassageCandidate[]> {
+    try {
+      const shingles = passageShingles(passage);
+      const shared = this.passageIndex
+        ? await this.passageIndex.lookup(shingles)
+        : new Map<number, number>();
+      const shingleIds = Array.from(shared)
+        .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+        .slice(0, limit)
+        .map(([chunkId]) => chunkId);
+      
+      const [embedding] = await this.embeddingService.generateEmbeddings([passage]);
+      const rows = await this.chunksTable
+        .vectorSearch(embedding)
+        .limit(limit)
+        .toArray();
+      if (shingleIds.length > 0) {
+        // Exact distances for the shingle matches: an IVF-PQ search probes
+        // only the nearest partitions and would drop filtered rows outside them
+        rows.push(...await this.chunksTable
+          .vectorSearch(embedding)
+          .where(`id IN (${shingleIds.join(', ')})`)
+          .bypassVectorIndex()
+          .limit(shingleIds.length)
+          .toArray());
+      }
+      
+      const candidates = new Map<number, PassageCandidate>();
+      for (const row of rows) {
+        const chunk = this.mapRowToChunk(row);
+        if (candidates.has(chunk.id)) continue;
+        candidates.set(chunk.id, {
+          chunk,
+          shingleScore: shingles.length > 0 ? (shared.get(chunk.id) ?? 0) / shingles.length : 0,
+          vectorScore: calculateVectorScore(row._distance),
+          alignment: alignPassage(passage, chunk.text)
+        });
+      }
+      return Array.from(candidates.values());
+    } catch (error) {
+      throw new DatabaseError(
+        'Failed to find chunks by passage',
+        'search',
+        error as Error
+      );
+    }
+  }
+  
   /**
    * Find chunks by source path using catalog_title field.
    * 
@@ -173,19 +273,36 @@ export class LanceDBChunkRepository implements ChunkRepository {
     // Wrap table in adapter to prevent infrastructure leakage
     const collection = new SearchableCollectionAdapter(this.chunksTable, 'chunks');
     
+    return await this.hybridSearchService.search(collection, query.text, limit, this.hybridSearchOptions(query));
+  }
+  
+  async searchWithCandidates(query: SearchQuery): Promise<CandidateSearchResults> {
+    const collection = new SearchableCollectionAdapter(this.chunksTable, 'chunks');
+    return await this.hybridSearchService.searchWithCandidates(collection, query.text, query.limit || 10, this.hybridSearchOptions(query));
+  }
+  
+  async explainSearch(query: SearchQuery): Promise<SearchExplanation> {
+    const collection = new SearchableCollectionAdapter(this.chunksTable, 'chunks');
+    return await this.hybridSearchService.explain(collection, query.text, query.limit || 10, this.hybridSearchOptions(query));
+  }
+  
+  /**
+   * Hybrid search options for a chunk query.
+   */
+  private hybridSearchOptions(query: SearchQuery): HybridSearchOptions {
     // Pass filter options through to hybrid search
     // Default: exclude references for chunk search (users typically want content, not citations)
-    return await this.hybridSearchService.search(
-      collection,
-      query.text,
-      limit,
-      {
-        debug: query.debug ?? false,
-        excludeReferences: query.excludeReferences ?? true,  // Default to excluding refs
-        excludeExtractionIssues: query.excludeExtractionIssues ?? false,
-        excludeMetaContent: query.excludeMetaContent ?? true  // Default to excluding meta content
-      }
-    );
+    return {
+      debug: query.debug ?? false,
+      excludeReferences: query.excludeReferences ?? true,  // Default to excluding refs
+      excludeExtractionIssues: query.excludeExtractionIssues ?? false,
+      excludeMetaContent: query.excludeMetaContent ?? true,  // Default to excluding meta content
+      filter: compileChunkFilter(query.filters),
+      rerank: query.rerank ?? false,
+      weightProfile: query.weightProfile,
+      mmrLambda: query.mmrLambda,
+      maxPerDocument: query.maxPerDocument
+    };
   }
   
   async countChunks(): Promise<number> {
@@ -194,6 +311,36 @@ export class LanceDBChunkRepository implements ChunkRepository {
   
   // Helper methods
   
+  /**
+   * Chunks of a document with ordinals in [from, to], in reading order.
+   */
+  private async findByChunkIndexRange(catalogId: number, from: number, to: number): Promise<Chunk[]> {
+    const rows = await this.chunksTable
+      .query()
+      .where(`catalog_id = ${catalogId} AND chunk_index >= ${from} AND chunk_index <= ${to}`)
+      .limit(to - from + 1)
+      .toArray();
+    return rows
+      .map((row: any) => this.mapRowToChunk(row))
+      .sort((a: Chunk, b: Chunk) => a.chunkIndex! - b.chunkIndex!);
+  }
+  
+  /**
+   * All chunks of a document in page order, for tables seeded without
+   * chunk ordinals. The sort is stable, so chunks of one page keep their
+   * stored (split) order.
+   */
+  private async findInPageOrder(catalogId: number): Promise<Chunk[]> {
+    const rows = await this.chunksTable
+      .query()
+      .where(`catalog_id = ${catalogId}`)
+      .limit(100000)
+      .toArray();
+    return rows
+      .map((row: any) => this.mapRowToChunk(row))
+      .sort((a: Chunk, b: Chunk) => (a.pageNumber ?? 0) - (b.pageNumber ?? 0));
+  }
+  
   /**
    * Check if chunk contains a concept using derived concept_names field.
    * No cache lookup needed - uses text field directly.
@@ -241,6 +388,12 @@ export class LanceDBChunkRepository implements ChunkRepository {
       pageNumber = typeof row.page_number === 'number' ? row.page_number : parseInt(row.page_number);
     }
     
+    // Parse chunk_index (absent in tables seeded before chunk ordinals)
+    let chunkIndex: number | undefined;
+    if (row.chunk_index !== undefined && row.chunk_index !== null) {
+      chunkIndex = Number(row.chunk_index);
+    }
+    
     // Parse concept_density (may be stored or computed)
     let conceptDensity: number | undefined;
     if (row.concept_density !== undefined && row.concept_density !== null) {
@@ -271,6 +424,7 @@ export class LanceDBChunkRepository implements ChunkRepository {
       conceptNames,  // DERIVED: for display and text search
       embeddings,  // May be undefined if no vector field found
       pageNumber,
+      chunkIndex,
       conceptDensity
     };
   }
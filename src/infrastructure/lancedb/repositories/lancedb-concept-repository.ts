@@ -10,18 +10,40 @@ import {
   calculateWeightedBM25,
   calculateNameScore,
   calculateSynonymMatchScore,
-  calculateConceptHybridScore,
   type ExpandedQuery
 } from '../../search/scoring-strategies.js';
+import {
+  calculateDynamicHybridScore,
+  DEFAULT_WEIGHTS,
+  type WeightProfile
+} from '../../search/dynamic-weights.js';
+import { tokenize } from '../../search/analyzer.js';
+import { ConceptNameIndex } from '../../search/concept-name-index.js';
 // @ts-expect-error - Type narrowing limitation
 import type { Option } from "../../../../__tests__/test-helpers/../../domain/functional/index.js";
 import { Some, None } from '../../../domain/functional/option.js';
 
+/** Fuzzy (spelling-corrected) name matches score below matches as written */
+const FUZZY_MATCH_DISCOUNT = 0.8;
+
+/** Concept IDs per query when finding concepts by ID */
+const FIND_BY_IDS_BATCH_SIZE = 500;
+
 /**
  * LanceDB implementation of ConceptRepository
  */
 export class LanceDBConceptRepository implements ConceptRepository {
-  constructor(private conceptsTable: lancedb.Table) {}
+  /**
+   * @param conceptsTable - Concepts table
+   * @param hybridWeights - Signal weights for hybrid concept search (default: DEFAULT_WEIGHTS.concept)
+   */
+  constructor(
+    private conceptsTable: lancedb.Table,
+    private hybridWeights: WeightProfile = DEFAULT_WEIGHTS.concept
+  ) {}
+  
+  /** Name index for text search, with the table version it was built from */
+  private nameIndex?: { version: number; index: ConceptNameIndex };
   
   /**
    * Find concept by ID.
@@ -64,6 +86,35 @@ export class LanceDBConceptRepository implements ConceptRepository {
     }
   }
   
+  /**
+   * Find concepts by ID.
+   * @param ids - Concept IDs (unknown and repeated IDs are skipped)
+   * @returns Concepts found
+   * @throws {DatabaseError} If database query fails
+   */
+  async findByIds(ids: number[]): Promise<Concept[]> {
+    const unique = Array.from(new Set(ids));
+    const concepts: Concept[] = [];
+    try {
+      for (let i = 0; i < unique.length; i += FIND_BY_IDS_BATCH_SIZE) {
+        const batch = unique.slice(i, i + FIND_BY_IDS_BATCH_SIZE);
+        const rows = await this.conceptsTable
+          .query()
+          .where(`id IN (${batch.join(', ')})`)
+          .limit(batch.length)
+          .toArray();
+        concepts.push(...rows.map((row: any) => this.mapRowToConcept(row)));
+      }
+      return concepts;
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to find concepts for ${unique.length} IDs`,
+        'query',
+        error as Error
+      );
+    }
+  }
+  
   /**
    * Find concept by name (case-insensitive).
    * @param conceptName - Name of the concept
@@ -154,15 +205,93 @@ export class LanceDBConceptRepository implements ConceptRepository {
       .map((row: any) => this.mapRowToConcept(row));
   }
   
-  async searchConcepts(_queryText: string, limit: number): Promise<Concept[]> {
-    // This requires embedding service - will be enhanced when QueryExpander is refactored
-    // For now, simple query
-    const results = await this.conceptsTable
-      .query()
-      .limit(limit)
-      .toArray();
+  /**
+   * Search concepts by name prefix, name and synonym words (fuzzy) and,
+   * given a query embedding, vector similarity.
+   * 
+   * Candidates of the three matchers are scored together with the hybrid
+   * concept signals. Prefix matches score the share of the name the query
+   * covers; fuzzy matches score as the corrected query, discounted.
+   * 
+   * @param queryText - Search query (keywords or a name prefix)
+   * @param limit - Maximum results to return
+   * @param queryVector - Query embedding (optional: without it there is no vector matching)
+   * @returns Concepts with hybrid scores, sorted by score descending
+   * @throws {DatabaseError} If database query fails
+   */
+  async searchConcepts(queryText: string, limit: number, queryVector?: number[]): Promise<ScoredConcept[]> {
+    const query = queryText.toLowerCase().trim();
+    if (!query || limit < 1) {
+      return [];
+    }
     
-    return results.map((row: any) => this.mapRowToConcept(row));
+    try {
+      const candidateLimit = limit * 3;  // Get 3x results for reranking
+      const nameIndex = await this.getNameIndex();
+      const queryTerms = tokenize(query);
+      const correctedTerms = nameIndex.correctTerms(queryTerms);
+      const corrected = correctedTerms.some((term, i) => term !== queryTerms[i]);
+      
+      // Step 1: Candidates by vector similarity, name prefix and name words
+      const rows = new Map<number, any>();
+      if (queryVector) {
+        const vectorResults = await this.conceptsTable
+          .vectorSearch(queryVector)
+          .limit(candidateLimit)
+          .toArray();
+        vectorResults.forEach((row: any) => rows.set(Number(row.id), row));
+      }
+      const lexicalIds = new Set([
+        ...nameIndex.findByPrefix(query, candidateLimit),
+        ...nameIndex.findByTerms(correctedTerms, candidateLimit)
+      ]);
+      const missingIds = [...lexicalIds].filter(id => !rows.has(id));
+      if (missingIds.length > 0) {
+        const lexicalResults = await this.conceptsTable
+          .query()
+          .where(`id IN (${missingIds.join(', ')})`)
+          .limit(missingIds.length)
+          .toArray();
+        lexicalResults.forEach((row: any) => rows.set(Number(row.id), row));
+      }
+      
+      // Step 2: Score each candidate
+      const scoredResults = [...rows.values()].map((row: any) => {
+        const concept = this.mapRowToConcept(row);
+        const synonyms = concept.synonyms || [];
+        
+        // Rows found by text have no distance: measure it as vector search would
+        const distance = row._distance ?? (queryVector
+          ? squaredL2Distance(queryVector, Array.from(concept.embeddings))
+          : undefined);
+        const vectorScore = distance === undefined ? 0 : calculateVectorScore(distance);
+        
+        const nameScore = Math.max(
+          prefixScore(query, concept.name),
+          corrected ? FUZZY_MATCH_DISCOUNT * calculateNameScore(correctedTerms, concept.name) : 0
+        );
+        const wordnetScore = Math.max(
+          ...synonyms.map(synonym => prefixScore(query, synonym)),
+          corrected
+            ? FUZZY_MATCH_DISCOUNT * calculateSynonymMatchScore(correctedTerms, synonyms, [], [])
+            : 0
+        );
+        
+        const scored = this.scoreConcept(concept, queryTerms, vectorScore, { nameScore, wordnetScore });
+        scored.id = Number(row.id);
+        return scored;
+      });
+      
+      // Step 3: Sort by hybrid score and limit
+      scoredResults.sort((a, b) => b.hybridScore - a.hybridScore);
+      return scoredResults.slice(0, limit);
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to search concepts: ${error instanceof Error ? error.message : String(error)}`,
+        'query',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
   }
   
   /**
@@ -228,55 +357,11 @@ export class LanceDBConceptRepository implements ConceptRepository {
       
       // Tokenize query for scoring
       const queryTerms = queryText.toLowerCase().split(/\s+/).filter(t => t.length > 0);
-      const weights = new Map<string, number>();
-      queryTerms.forEach(term => weights.set(term, 1.0));
       
       // Step 2: Score each result
-      const scoredResults: ScoredConcept[] = vectorResults.map((row: any) => {
-        const concept = this.mapRowToConcept(row);
-        const conceptName = concept.name;
-        const summary = concept.summary || '';
-        
-        // Calculate individual scores
-        const vectorScore = calculateVectorScore(row._distance || 0);
-        
-        // BM25 on summary text
-        const bm25Score = calculateWeightedBM25(
-          queryTerms,
-          weights,
-          summary,
-          conceptName
-        );
-        
-        // Name matching score (high weight for exact matches)
-        const nameScore = calculateNameScore(queryTerms, conceptName);
-        
-        // Synonym/hierarchy matching
-        const wordnetScore = calculateSynonymMatchScore(
-          queryTerms,
-          concept.synonyms || [],
-          concept.broaderTerms || [],
-          concept.narrowerTerms || []
-        );
-        
-        // Calculate hybrid score with concept-specific weights
-        const hybridScore = calculateConceptHybridScore({
-          vectorScore,
-          bm25Score,
-          titleScore: nameScore,  // titleScore slot holds nameScore for concepts
-          conceptScore: 0,  // Not applicable for concept-to-concept search
-          wordnetScore
-        });
-        
-        return {
-          ...concept,
-          hybridScore,
-          vectorScore,
-          bm25Score,
-          nameScore,
-          wordnetScore
-        };
-      });
+      const scoredResults: ScoredConcept[] = vectorResults.map((row: any) =>
+        this.scoreConcept(this.mapRowToConcept(row), queryTerms, calculateVectorScore(row._distance || 0))
+      );
       
       // Step 3: Sort by hybrid score and limit
       scoredResults.sort((a, b) => b.hybridScore - a.hybridScore);
@@ -290,25 +375,95 @@ export class LanceDBConceptRepository implements ConceptRepository {
     }
   }
   
+  /**
+   * Score a concept with the hybrid concept signals.
+   * 
+   * @param concept - Concept to score
+   * @param queryTerms - Query terms
+   * @param vectorScore - Vector similarity to the query (0-1)
+   * @param matchScores - Name and synonym scores of other matchers (the higher score counts)
+   * @returns The concept with its scores
+   */
+  private scoreConcept(
+    concept: Concept,
+    queryTerms: string[],
+    vectorScore: number,
+    matchScores: { nameScore?: number; wordnetScore?: number } = {}
+  ): ScoredConcept {
+    const weights = new Map<string, number>();
+    queryTerms.forEach(term => weights.set(term, 1.0));
+    
+    // BM25 on summary text
+    const bm25Score = calculateWeightedBM25(
+      queryTerms,
+      weights,
+      concept.summary || '',
+      concept.name
+    );
+    
+    // Name matching score (high weight for exact matches)
+    const nameScore = Math.max(
+      calculateNameScore(queryTerms, concept.name),
+      matchScores.nameScore ?? 0
+    );
+    
+    // Synonym/hierarchy matching
+    const wordnetScore = Math.max(
+      calculateSynonymMatchScore(
+        queryTerms,
+        concept.synonyms || [],
+        concept.broaderTerms || [],
+        concept.narrowerTerms || []
+      ),
+      matchScores.wordnetScore ?? 0
+    );
+    
+    // Calculate hybrid score with concept-specific weights
+    const hybridScore = calculateDynamicHybridScore({
+      vectorScore,
+      bm25Score,
+      titleScore: nameScore,  // titleScore slot holds nameScore for concepts
+      conceptScore: 0,  // Not applicable for concept-to-concept search
+      wordnetScore
+    }, this.hybridWeights);
+    
+    return {
+      ...concept,
+      hybridScore,
+      vectorScore,
+      bm25Score,
+      nameScore,
+      wordnetScore
+    };
+  }
+  
+  /**
+   * Name index of the concepts table, rebuilt when the table changes.
+   */
+  private async getNameIndex(): Promise<ConceptNameIndex> {
+    const version = await this.conceptsTable.version();
+    if (!this.nameIndex || this.nameIndex.version !== version) {
+      // LanceDB query() defaults to 10 rows: read the whole table
+      const rows = await this.conceptsTable
+        .query()
+        .select(['id', 'name', 'synonyms'])
+        .limit(Math.max(1, await this.conceptsTable.countRows()))
+        .toArray();
+      const index = new ConceptNameIndex(rows.map((row: any) => ({
+        id: Number(row.id),
+        name: row.name || '',
+        synonyms: parseArrayField<string>(row.synonyms)
+      })));
+      this.nameIndex = { version, index };
+    }
+    return this.nameIndex.index;
+  }
+  
   private mapRowToConcept(row: any): Concept {
     // Detect which field contains the vector (handles 'vector' vs 'embeddings' naming)
     const vectorField = detectVectorField(row);
     const embeddings = vectorField ? row[vectorField] : [];
     
-    // Helper to parse array fields (handles native arrays, Arrow Vectors, and JSON strings)
-    const parseArrayField = <T>(value: any): T[] => {
-      if (!value) return [];
-      if (Array.isArray(value)) return value;
-      if (typeof value === 'object' && 'toArray' in value) {
-        // Arrow Vector - convert to JavaScript array
-        return Array.from(value.toArray());
-      }
-      if (typeof value === 'string') {
-        return parseJsonField<T>(value);
-      }
-      return [];
-    };
-    
     // Parse catalog_ids (native array, Arrow Vector, or JSON string)
     const catalogIds = parseArrayField<number>(row.catalog_ids);
     
@@ -342,3 +497,40 @@ export class LanceDBConceptRepository implements ConceptRepository {
   }
 }
 
+/**
+ * Parse an array field (native array, Arrow Vector, or JSON string).
+ */
+function parseArrayField<T>(value: any): T[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'object' && 'toArray' in value) {
+    // Arrow Vector - convert to JavaScript array
+    return Array.from(value.toArray());
+  }
+  if (typeof value === 'string') {
+    return parseJsonField<T>(value);
+  }
+  return [];
+}
+
+/**
+ * Share of `text` a query starting it covers (0 unless `text` starts with
+ * the query; 1 for an exact match).
+ */
+function prefixScore(query: string, text: string): number {
+  const candidate = text.toLowerCase();
+  return candidate.startsWith(query) ? query.length / candidate.length : 0;
+}
+
+/**
+ * Squared Euclidean distance, the vector search metric of the concepts table.
+ */
+function squaredL2Distance(a: number[], b: number[]): number | undefined {
+  if (a.length !== b.length) return undefined;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const difference = a[i] - b[i];
+    sum += difference * difference;
+  }
+  return sum;
+}
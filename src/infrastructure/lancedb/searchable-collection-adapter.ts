@@ -15,11 +15,24 @@
 
 import * as lancedb from "@lancedb/lancedb";
 import { SearchableCollection, VectorSearchOptions } from "../../domain/interfaces/services/hybrid-search-service.js";
+import { FULL_TEXT_INDEX_COLUMNS, hasFullTextIndex } from "./seeding/index-utils.js";
+
+/**
+ * Full-text index lookups per table. Adapters are created per search, so the
+ * (remote) index listing is cached on the table instead of the adapter.
+ */
+const fullTextIndexCache = new WeakMap<lancedb.Table, Promise<boolean>>();
 
 export class SearchableCollectionAdapter implements SearchableCollection {
+  /**
+   * @param table - LanceDB table to wrap
+   * @param name - Collection name ('chunks', 'catalog', ...)
+   * @param textColumn - Full-text indexed column (defaults by collection name)
+   */
   constructor(
     private table: lancedb.Table,
-    private name: string
+    private name: string,
+    private textColumn: string | undefined = FULL_TEXT_INDEX_COLUMNS[name]
   ) {}
   
   async vectorSearch(queryVector: number[], limit: number, options?: VectorSearchOptions): Promise<any[]> {
@@ -33,6 +46,59 @@ export class SearchableCollectionAdapter implements SearchableCollection {
     return await query.limit(limit).toArray();
   }
   
+  async fullTextSearch(queryText: string, limit: number, options?: VectorSearchOptions): Promise<any[] | undefined> {
+    const column = this.textColumn;
+    if (!column || !(await this.hasIndex(column))) {
+      return undefined;
+    }
+    if (!queryText.trim()) {
+      return [];
+    }
+    
+    let query = this.table.query().fullTextSearch(queryText, { columns: column });
+    if (options?.filter) {
+      query = query.where(options.filter);
+    }
+    
+    return await query.limit(limit).toArray();
+  }
+  
+  async fullTextMatches(queryText: string, options?: VectorSearchOptions): Promise<any[] | undefined> {
+    const column = this.textColumn;
+    if (!column || !(await this.hasIndex(column))) {
+      return undefined;
+    }
+    
+    // No more rows can match than pass the filter; without a limit only 10 are returned
+    const rowCount = await this.table.countRows(options?.filter);
+    if (!queryText.trim() || rowCount === 0) {
+      return [];
+    }
+    
+    const columns = (await this.table.schema()).fields
+      .map(field => field.name)
+      .filter(name => name !== 'vector');
+    let query = this.table.query().fullTextSearch(queryText, { columns: column });
+    if (options?.filter) {
+      query = query.where(options.filter);
+    }
+    
+    return await query.select(columns).limit(rowCount).toArray();
+  }
+  
+  private hasIndex(column: string): Promise<boolean> {
+    let cached = fullTextIndexCache.get(this.table);
+    if (!cached) {
+      cached = hasFullTextIndex(this.table, column).catch(() => false);
+      fullTextIndexCache.set(this.table, cached);
+    }
+    return cached;
+  }
+  
+  async getVersion(): Promise<number> {
+    return await this.table.version();
+  }
+  
   getName(): string {
     return this.name;
   }
@@ -109,3 +109,87 @@ export async function createIndexIfNeeded(
     console.log(`⏭️  Skipping index creation (${dataSize} vectors < ${MIN_VECTORS_FOR_INDEX} minimum for IVF_PQ)`);
   }
 }
+
+/**
+ * Text column carrying the full-text (BM25) index of each searchable table.
+ */
+export const FULL_TEXT_INDEX_COLUMNS: Record<string, string> = {
+  catalog: 'summary',
+  chunks: 'text'
+};
+
+/**
+ * Create (or replace) the native full-text index on a text column.
+ * 
+ * The index tokenizes, lowercases, stems and drops English stop words, and
+ * keeps per-term document frequencies and document lengths so queries are
+ * scored with real BM25 corpus statistics. Rows added after the index was
+ * built are still searched (unindexed), just more slowly.
+ * 
+ * @param table - LanceDB table to index
+ * @param column - Text column to index
+ * @param tableName - Table name for logging
+ * @param options - Optional configuration
+ * @param options.silent - Suppress console output
+ */
+export async function createFullTextIndex(
+  table: lancedb.Table,
+  column: string,
+  tableName: string,
+  options: { silent?: boolean } = {}
+): Promise<void> {
+  try {
+    if (!options.silent) {
+      console.log(`🔧 Creating full-text index for ${tableName}.${column}...`);
+    }
+    
+    await table.createIndex(column, {
+      config: lancedb.Index.fts({ stem: true, removeStopWords: true })
+    });
+    
+    if (!options.silent) {
+      console.log(`✅ Full-text index created successfully`);
+    }
+  } catch (error: any) {
+    // Search falls back to in-memory keyword scoring without the index
+    if (!options.silent) {
+      console.warn(`⚠️  Full-text index creation failed: ${error.message}`);
+      console.warn(`   Keyword scoring will fall back to reranking vector candidates only`);
+    }
+  }
+}
+
+/**
+ * Check whether a table has a full-text index on a column.
+ * 
+ * @param table - LanceDB table
+ * @param column - Text column
+ */
+export async function hasFullTextIndex(table: lancedb.Table, column: string): Promise<boolean> {
+  const indices = await table.listIndices();
+  return indices.some(index => index.indexType === 'FTS' && index.columns.includes(column));
+}
+
+/**
+ * Rebuild the indexes of a table whose rows were rewritten, as the seeder
+ * builds them: the vector index when the table is large enough, and the
+ * full-text index on the table's {@link FULL_TEXT_INDEX_COLUMNS} entry.
+ * 
+ * @param table - Rewritten LanceDB table
+ * @param tableName - Table name (selects the full-text column)
+ * @param dataSize - Number of rows in the table
+ * @param options - Optional configuration
+ * @param options.silent - Suppress console output
+ */
+export async function rebuildIndexes(
+  table: lancedb.Table,
+  tableName: string,
+  dataSize: number,
+  options: { silent?: boolean } = {}
+): Promise<void> {
+  await createIndexIfNeeded(table, dataSize, tableName, options);
+  const textColumn = FULL_TEXT_INDEX_COLUMNS[tableName];
+  if (textColumn) {
+    await createFullTextIndex(table, textColumn, tableName, options);
+  }
+}
@@ -8,6 +8,10 @@ export {
   calculatePartitions,
   createOptimizedIndex,
   createIndexIfNeeded,
+  createFullTextIndex,
+  hasFullTextIndex,
+  rebuildIndexes,
+  FULL_TEXT_INDEX_COLUMNS,
   MIN_VECTORS_FOR_INDEX
 } from './index-utils.js';
 
@@ -17,3 +21,17 @@ export {
   buildCategoryStats,
   type CategoryStats
 } from './category-utils.js';
+
+export {
+  readTablePages,
+  replaceTableRows,
+  STAGING_TABLE_SUFFIX,
+  type TableRows
+} from './table-rewrite.js';
+
+export {
+  reembedTable,
+  EMBEDDING_TEXT_SELECTORS,
+  type ReembedOptions,
+  type ReembedRow
+} from './reembed-utils.js';
@@ -0,0 +1,92 @@
+/**
+ * LanceDB Re-embedding Utilities
+ *
+ * Rewrites the `vector` column of existing tables with a different embedding
+ * provider, reusing the stored text. No LLM extraction is re-run.
+ */
+
+import * as lancedb from '@lancedb/lancedb';
+import type { Table as ArrowTable } from 'apache-arrow';
+import type { EmbeddingService } from '../../../domain/interfaces/services/embedding-service.js';
+import { readTablePages, replaceTableRows } from './table-rewrite.js';
+
+/** Row accessor passed to text selectors (Arrow struct row) */
+export type ReembedRow = Record<string, unknown>;
+
+/**
+ * Text embedded for each table, matching what the seeder embeds:
+ * catalog summaries, chunk text, concept names and category descriptions.
+ */
+export const EMBEDDING_TEXT_SELECTORS: Record<string, (row: ReembedRow) => string> = {
+  catalog: row => String(row.summary ?? ''),
+  chunks: row => String(row.text ?? ''),
+  concepts: row => String(row.name ?? ''),
+  categories: row => `${row.category ?? ''}: ${row.description ?? ''}`
+};
+
+/**
+ * Options for {@link reembedTable}.
+ */
+export interface ReembedOptions {
+  /** Texts per embedding call and rows per write (default: 100) */
+  batchSize?: number;
+  /** Text to embed for a row (default: {@link EMBEDDING_TEXT_SELECTORS} entry for the table) */
+  textOf?: (row: ReembedRow) => string;
+  /** Progress callback, invoked after each embedding batch */
+  onProgress?: (done: number, total: number) => void;
+  /** Suppress index creation output */
+  silent?: boolean;
+}
+
+/**
+ * Re-embed every row of a table and rewrite it with the new vectors.
+ *
+ * The table is streamed in batches and all non-vector columns keep their
+ * Arrow types. The rewritten rows go through a staging table (see
+ * {@link replaceTableRows}), so a failed embedding batch leaves the table
+ * untouched and the vector column may change width (e.g. 384 → 1536). The
+ * vector and full-text indexes are rebuilt afterwards.
+ *
+ * @param db - LanceDB connection
+ * @param tableName - Table to rewrite
+ * @param embeddingService - Provider producing the new vectors
+ * @param options - Batch size, text selector and progress reporting
+ * @returns Number of rows re-embedded
+ * @throws {Error} If no text selector is known for the table
+ */
+export async function reembedTable(
+  db: lancedb.Connection,
+  tableName: string,
+  embeddingService: EmbeddingService,
+  options: ReembedOptions = {}
+): Promise<number> {
+  const batchSize = Math.max(1, options.batchSize ?? 100);
+  const textOf = options.textOf ?? EMBEDDING_TEXT_SELECTORS[tableName];
+  if (!textOf) {
+    throw new Error(`No embedding text selector for table "${tableName}"`);
+  }
+
+  const table = await db.openTable(tableName);
+  const total = await table.countRows();
+
+  async function* reembeddedBatches(): AsyncGenerator<ArrowTable> {
+    let done = 0;
+    for await (const batch of readTablePages(table, batchSize)) {
+      const texts: string[] = [];
+      for (let row = 0; row < batch.numRows; row++) {
+        texts.push(textOf(batch.get(row) as unknown as ReembedRow));
+      }
+      const vectors = await embeddingService.generateEmbeddings(texts);
+      done += batch.numRows;
+      options.onProgress?.(done, total);
+
+      const columns = batch.schema.fields.map(field => field.name).filter(name => name !== 'vector');
+      yield batch.select(columns).assign(lancedb.makeArrowTable(vectors.map(vector => ({ vector }))));
+    }
+  }
+
+  return replaceTableRows(db, tableName, reembeddedBatches(), {
+    pageSize: batchSize,
+    silent: options.silent
+  });
+}
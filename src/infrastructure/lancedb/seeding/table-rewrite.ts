@@ -0,0 +1,117 @@
+/**
+ * LanceDB Table Rewrite Utilities
+ *
+ * Replaces the contents of an existing table without risking its rows: the
+ * new rows are written to a staging table first, and the original is
+ * overwritten only once every row has been staged.
+ */
+
+import * as lancedb from '@lancedb/lancedb';
+import type { Table as ArrowTable } from 'apache-arrow';
+import { rebuildIndexes } from './index-utils.js';
+
+/** Suffix of the staging table a rewrite is written to */
+export const STAGING_TABLE_SUFFIX = '_staging';
+
+/** Rows read or written per request (default page size) */
+const DEFAULT_PAGE_SIZE = 1000;
+
+/** Rows accepted by `createTable` and `add` */
+export type TableRows = Record<string, unknown>[] | ArrowTable;
+
+/**
+ * Read every row of a table, one page at a time.
+ *
+ * Queries without a limit return only 10 rows, so the table is paged up to
+ * its `countRows()`.
+ *
+ * @param table - LanceDB table
+ * @param pageSize - Rows per page (default: 1000)
+ * @throws {Error} If the table ends before the counted number of rows
+ */
+export async function* readTablePages(
+  table: lancedb.Table,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): AsyncGenerator<ArrowTable> {
+  const total = await table.countRows();
+  for (let offset = 0; offset < total; offset += pageSize) {
+    const page = await table.query().offset(offset).limit(pageSize).toArrow();
+    if (page.numRows === 0) {
+      throw new Error(`Table ${table.name} ended after ${offset} of ${total} rows`);
+    }
+    yield page;
+  }
+}
+
+/**
+ * Replace the rows of a table.
+ *
+ * The pages are written to `<tableName>_staging`; if producing or writing
+ * any page fails, the staging table is dropped and the original is left
+ * untouched. Once every page is staged, the staged rows are copied over the
+ * original (whose schema may change, e.g. a new vector width). If that copy
+ * fails, the table is restored to its previous version. Afterwards the
+ * indexes are rebuilt (see {@link rebuildIndexes}).
+ *
+ * @param db - LanceDB connection
+ * @param tableName - Table to replace
+ * @param pages - New rows, in write order
+ * @param options - Page size for the copy and logging
+ * @returns Number of rows written (0 leaves the table unchanged)
+ */
+export async function replaceTableRows(
+  db: lancedb.Connection,
+  tableName: string,
+  pages: AsyncIterable<TableRows> | Iterable<TableRows>,
+  options: { pageSize?: number; silent?: boolean } = {}
+): Promise<number> {
+  const stagingName = `${tableName}${STAGING_TABLE_SUFFIX}`;
+  const original = await db.openTable(tableName);
+
+  let staging: lancedb.Table | undefined;
+  try {
+    for await (const rows of pages) {
+      if (rowCount(rows) === 0) continue;
+      if (staging) {
+        await staging.add(rows);
+      } else {
+        staging = await db.createTable(stagingName, rows, { mode: 'overwrite' });
+      }
+    }
+  } catch (error) {
+    if (staging) {
+      await db.dropTable(stagingName);
+    }
+    throw error;
+  }
+  if (!staging) {
+    return 0;
+  }
+
+  const previousVersion = await original.version();
+  let target: lancedb.Table | undefined;
+  try {
+    for await (const page of readTablePages(staging, options.pageSize)) {
+      if (target) {
+        await target.add(page);
+      } else {
+        target = await db.createTable(tableName, page, { mode: 'overwrite' });
+      }
+    }
+  } catch (error) {
+    // Staging is kept so the rows survive even if the restore fails too
+    const restored = await db.openTable(tableName);
+    await restored.checkout(previousVersion);
+    await restored.restore();
+    throw error;
+  }
+  await db.dropTable(stagingName);
+
+  const total = await target!.countRows();
+  await rebuildIndexes(target!, tableName, total, { silent: options.silent });
+  return total;
+}
+
+function rowCount(rows: TableRows): number {
+  return Array.isArray(rows) ? rows.length : rows.numRows;
+}
@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for Search Filter Compilation
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CATALOG_QUERY_FIELD_COLUMNS,
+  CHUNK_QUERY_FIELD_COLUMNS,
+  compileCatalogFilter,
+  compileChunkFilter,
+  compileQueryFieldFilter
+} from '../filter-compiler.js';
+import { parseQuery } from '../../../../domain/services/query-parser.js';
+import { InvalidFormatError } from '../../../../domain/exceptions/index.js';
+import type { SearchFilters } from '../../../../domain/models/index.js';
+
+/** Predicate matching a category name ignoring case (pattern already escaped) */
+function categoryMatch(pattern: string): string {
+  return "concat('\u001f', lower(array_to_string(category_names, '\u001f')), '\u001f')" +
+    ` LIKE '%\u001f${pattern}\u001f%'`;
+}
+
+describe('compileCatalogFilter', () => {
+  it('should return undefined without filters', () => {
+    expect(compileCatalogFilter(undefined)).toBeUndefined();
+    expect(compileCatalogFilter({})).toBeUndefined();
+  });
+
+  it('should combine all filters with AND', () => {
+    // SETUP
+    const filters: SearchFilters = {
+      yearFrom: 2010,
+      yearTo: 2020,
+      documentType: 'paper',
+      author: 'Lamport',
+      category: 'Distributed Systems',
+      venue: 'PODC',
+      catalogIds: [11, 22]
+    };
+
+    // EXERCISE
+    const predicate = compileCatalogFilter(filters);
+
+    // VERIFY
+    expect(predicate).toBe(
+      "year >= 2010 AND year <= 2020 AND document_type = 'paper' AND " +
+      "lower(author) LIKE '%lamport%' AND " + categoryMatch('distributed systems') + ' AND ' +
+      "lower(venue) LIKE '%podc%' AND id IN (11, 22)"
+    );
+  });
+
+  it('should escape quotes in string values', () => {
+    expect(compileCatalogFilter({ author: "O'Neil" })).toBe("lower(author) LIKE '%o''neil%'");
+    expect(compileCatalogFilter({ category: "x') OR ('1'='1" }))
+      .toBe(categoryMatch("x'') or (''1''=''1"));
+  });
+
+  it('should escape LIKE wildcards in substring filters', () => {
+    expect(compileCatalogFilter({ venue: '100%_\\' })).toBe("lower(venue) LIKE '%100\\%\\_\\\\%'");
+  });
+
+  it('should match a whole category name ignoring the case it was stored in', () => {
+    expect(compileCatalogFilter({ category: 'Software_Architecture' })).toBe(categoryMatch('software\\_architecture'));
+  });
+
+  it('should reject values of the wrong type', () => {
+    expect(() => compileCatalogFilter({ yearFrom: '2010 OR 1=1' as any })).toThrow(InvalidFormatError);
+    expect(() => compileCatalogFilter({ yearTo: 2010.5 })).toThrow(InvalidFormatError);
+    expect(() => compileCatalogFilter({ documentType: "book' OR '1'='1" as any })).toThrow(InvalidFormatError);
+    expect(() => compileCatalogFilter({ catalogIds: ['1) OR (1=1' as any] })).toThrow(InvalidFormatError);
+    expect(() => compileCatalogFilter({ catalogIds: [] })).toThrow(InvalidFormatError);
+  });
+});
+
+describe('compileChunkFilter', () => {
+  it('should filter chunks by catalog ID', () => {
+    expect(compileChunkFilter({ catalogIds: [7, 8] })).toBe('catalog_id IN (7, 8)');
+  });
+
+  it('should ignore document metadata filters', () => {
+    expect(compileChunkFilter({ author: 'lamport' })).toBeUndefined();
+    expect(compileChunkFilter(undefined)).toBeUndefined();
+  });
+});
+
+describe('compileQueryFieldFilter', () => {
+  it('should return undefined without field restrictions', () => {
+    expect(compileQueryFieldFilter(parseQuery('"event sourcing" -kafka'), CATALOG_QUERY_FIELD_COLUMNS)).toBeUndefined();
+  });
+
+  it('should compile each field to its column', () => {
+    // SETUP
+    const query = parseQuery('title:refactoring author:"o\'neil" year:2010..2015 category:databases concept:raft');
+
+    // EXERCISE
+    const predicate = compileQueryFieldFilter(query, CATALOG_QUERY_FIELD_COLUMNS);
+
+    // VERIFY
+    expect(predicate).toBe(
+      "lower(title) LIKE '%refactoring%' AND lower(author) LIKE '%o''neil%' AND (year >= 2010 AND year <= 2015)" +
+      ' AND ' + categoryMatch('databases') + " AND array_has(concept_names, 'raft')"
+    );
+  });
+
+  it('should combine alternatives with OR and negate excluded restrictions', () => {
+    // SETUP
+    const query = parseQuery('author:(fowler OR beck) -year:..2000');
+
+    // EXERCISE
+    const predicate = compileQueryFieldFilter(query, CATALOG_QUERY_FIELD_COLUMNS);
+
+    // VERIFY
+    expect(predicate).toBe(
+      "(lower(author) LIKE '%fowler%' OR lower(author) LIKE '%beck%') AND NOT coalesce(year <= 2000, false)"
+    );
+  });
+
+  it('should skip fields the table has no column for', () => {
+    // SETUP
+    const query = parseQuery('title:patterns author:fowler');
+
+    // EXERCISE
+    const predicate = compileQueryFieldFilter(query, CHUNK_QUERY_FIELD_COLUMNS);
+
+    // VERIFY
+    expect(predicate).toBe("lower(catalog_title) LIKE '%patterns%'");
+  });
+
+  it('should escape LIKE wildcards in field values', () => {
+    expect(compileQueryFieldFilter(parseQuery('title:100%'), CATALOG_QUERY_FIELD_COLUMNS))
+      .toBe("lower(title) LIKE '%100\\%%'");
+  });
+});
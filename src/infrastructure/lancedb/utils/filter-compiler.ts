@@ -0,0 +1,204 @@
+/**
+ * Compile structured search filters and query field restrictions into
+ * LanceDB SQL predicates.
+ *
+ * Every value is emitted as a checked integer literal or an escaped string
+ * literal, so filter values can never change the shape of the predicate.
+ */
+
+import type { SearchFilters } from '../../../domain/models/search-filters.js';
+import { DOCUMENT_TYPES } from '../../../domain/models/search-filters.js';
+import type { ParsedQuery, QueryField, QueryOperand } from '../../../domain/models/parsed-query.js';
+import { clauseOperands, isFieldRestriction, parseYearRange } from '../../../domain/services/query-parser.js';
+import { InvalidFormatError } from '../../../domain/exceptions/index.js';
+import { escapeSqlString } from './field-parsers.js';
+
+/** Separator joining list elements for case-insensitive element matching (ASCII unit separator) */
+const LIST_SEPARATOR = '\u001f';
+
+/**
+ * Compile filters into a predicate over catalog table columns.
+ *
+ * @param filters - Structured filters (optional)
+ * @returns SQL predicate, or undefined when no filter applies
+ * @throws {InvalidFormatError} If a value has the wrong type
+ *
+ * @example
+ * compileCatalogFilter({ yearFrom: 2015, author: "O'Neil" })
+ * // "year >= 2015 AND lower(author) LIKE '%o''neil%'"
+ */
+export function compileCatalogFilter(filters?: SearchFilters): string | undefined {
+  if (!filters) return undefined;
+
+  const parts: string[] = [];
+
+  if (filters.yearFrom !== undefined) {
+    parts.push(`year >= ${sqlInteger('filters.yearFrom', filters.yearFrom)}`);
+  }
+  if (filters.yearTo !== undefined) {
+    parts.push(`year <= ${sqlInteger('filters.yearTo', filters.yearTo)}`);
+  }
+  if (filters.documentType !== undefined) {
+    if (!(DOCUMENT_TYPES as readonly unknown[]).includes(filters.documentType)) {
+      throw new InvalidFormatError('filters.documentType', filters.documentType, DOCUMENT_TYPES.join(', '));
+    }
+    parts.push(`document_type = '${filters.documentType}'`);
+  }
+  if (filters.author !== undefined) {
+    parts.push(`lower(author) LIKE ${sqlContains('filters.author', filters.author)}`);
+  }
+  if (filters.category !== undefined) {
+    parts.push(sqlListHasIgnoringCase('category_names', 'filters.category', filters.category));
+  }
+  if (filters.venue !== undefined) {
+    parts.push(`lower(venue) LIKE ${sqlContains('filters.venue', filters.venue)}`);
+  }
+  if (filters.catalogIds !== undefined) {
+    parts.push(`id IN (${sqlIntegerList('filters.catalogIds', filters.catalogIds)})`);
+  }
+
+  return parts.length > 0 ? parts.join(' AND ') : undefined;
+}
+
+/**
+ * Compile filters into a predicate over chunk table columns.
+ *
+ * Chunks carry no document metadata, only `catalog_id`, so this applies
+ * `catalogIds` alone; resolve metadata filters to catalog IDs first.
+ *
+ * @param filters - Structured filters (optional)
+ * @returns SQL predicate, or undefined when no filter applies
+ * @throws {InvalidFormatError} If a catalog ID is not an integer
+ */
+export function compileChunkFilter(filters?: SearchFilters): string | undefined {
+  if (!filters?.catalogIds) return undefined;
+  return `catalog_id IN (${sqlIntegerList('filters.catalogIds', filters.catalogIds)})`;
+}
+
+/**
+ * Table column holding each query field. Fields without a column are not
+ * compiled (the caller resolves them another way or ignores them).
+ */
+export type QueryFieldColumns = Partial<Record<QueryField, string>>;
+
+/** Query field columns of the catalog table */
+export const CATALOG_QUERY_FIELD_COLUMNS: QueryFieldColumns = {
+  title: 'title',
+  author: 'author',
+  year: 'year',
+  category: 'category_names',
+  concept: 'concept_names'
+};
+
+/** Query field columns of the chunks table (document metadata lives in the catalog) */
+export const CHUNK_QUERY_FIELD_COLUMNS: QueryFieldColumns = {
+  title: 'catalog_title',
+  concept: 'concept_names'
+};
+
+/**
+ * Compile the field restrictions of a parsed query (`title:`, `author:`,
+ * `year:`, `category:`, `concept:`) into a predicate.
+ *
+ * Text fields match a case-insensitive substring, `category:` and
+ * `concept:` match a name exactly (`category:` ignoring case, as category
+ * names are stored as extracted), and `year:` matches a year or range.
+ * Alternatives of an OR group combine with OR; excluded restrictions
+ * (`-author:x`) also keep rows where the column is null.
+ *
+ * @param query - Parsed query
+ * @param columns - Column of each supported field
+ * @returns SQL predicate, or undefined when no restriction applies
+ *
+ * @example
+ * compileQueryFieldFilter(parseQuery('author:fowler -concept:kafka'), CATALOG_QUERY_FIELD_COLUMNS)
+ * // "lower(author) LIKE '%fowler%' AND NOT coalesce(array_has(concept_names, 'kafka'), false)"
+ */
+export function compileQueryFieldFilter(query: ParsedQuery, columns: QueryFieldColumns): string | undefined {
+  const fields = Object.keys(columns) as QueryField[];
+  const parts = query.clauses
+    .filter(clause => isFieldRestriction(clause, fields))
+    .map(clause => {
+      const alternatives = clauseOperands(clause).map(operand => fieldPredicate(operand, columns[operand.field!]!));
+      const predicate = alternatives.length === 1 ? alternatives[0] : `(${alternatives.join(' OR ')})`;
+      return clause.occur === 'must_not' ? `NOT coalesce(${predicate}, false)` : predicate;
+    });
+
+  return parts.length > 0 ? parts.join(' AND ') : undefined;
+}
+
+function fieldPredicate(operand: QueryOperand, column: string): string {
+  const field = `query.${operand.field}`;
+  switch (operand.field) {
+    case 'year': {
+      const range = parseYearRange(operand.text);
+      if (!range) {
+        throw new InvalidFormatError(field, operand.text, 'year or range (e.g. 2015, 2010..2015)');
+      }
+      const bounds: string[] = [];
+      if (range.from !== undefined) bounds.push(`${column} >= ${sqlInteger(field, range.from)}`);
+      if (range.to !== undefined) bounds.push(`${column} <= ${sqlInteger(field, range.to)}`);
+      return bounds.length === 1 ? bounds[0] : `(${bounds.join(' AND ')})`;
+    }
+    case 'category':
+      return sqlListHasIgnoringCase(column, field, operand.text);
+    case 'concept':
+      return `array_has(${column}, ${sqlString(field, operand.text)})`;
+    default:
+      return `lower(${column}) LIKE ${sqlContains(field, operand.text)}`;
+  }
+}
+
+function sqlInteger(field: string, value: unknown): string {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value)) {
+    throw new InvalidFormatError(field, value, 'integer');
+  }
+  return String(value);
+}
+
+function sqlIntegerList(field: string, values: unknown): string {
+  if (!Array.isArray(values) || values.length === 0) {
+    throw new InvalidFormatError(field, values, 'non-empty array of integers');
+  }
+  return values.map(value => sqlInteger(field, value)).join(', ');
+}
+
+function sqlString(field: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new InvalidFormatError(field, value, 'string');
+  }
+  return `'${escapeSqlString(value)}'`;
+}
+
+/**
+ * Case-insensitive match of a whole element of a string list column.
+ *
+ * Category names are stored in their extracted case, so `array_has` would
+ * miss a differently cased value. The elements are joined with the unit
+ * separator (U+001F), which names never contain, and lowercased; the value
+ * must then appear between two separators.
+ */
+function sqlListHasIgnoringCase(column: string, field: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new InvalidFormatError(field, value, 'string');
+  }
+  return `concat('${LIST_SEPARATOR}', lower(array_to_string(${column}, '${LIST_SEPARATOR}')), '${LIST_SEPARATOR}')` +
+    ` LIKE '%${LIST_SEPARATOR}${likeText(value)}${LIST_SEPARATOR}%'`;
+}
+
+/**
+ * Case-insensitive substring pattern with LIKE wildcards in the value escaped.
+ */
+function sqlContains(field: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new InvalidFormatError(field, value, 'string');
+  }
+  return `'%${likeText(value)}%'`;
+}
+
+/**
+ * Lowercased value for a LIKE pattern, with LIKE wildcards and quotes escaped.
+ */
+function likeText(value: string): string {
+  return escapeSqlString(value.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`));
+}
@@ -0,0 +1,163 @@
+import * as lancedb from "@lancedb/lancedb";
+import { DatabaseError } from "../../domain/exceptions/index.js";
+import { tokenize } from "../search/analyzer.js";
+
+/** Table holding the corpus vocabulary used for query spelling correction */
+export const VOCABULARY_TABLE_NAME = 'vocabulary';
+
+/**
+ * Text columns the vocabulary is built from: concept names, document
+ * titles and chunk text.
+ */
+export const VOCABULARY_TEXT_COLUMNS: Record<string, string> = {
+  concepts: 'name',
+  catalog: 'title',
+  chunks: 'text'
+};
+
+/**
+ * Chunk terms occurring fewer times are never suggested as corrections
+ * (OCR noise and the corpus's own typos). They stay in the vocabulary, so
+ * a query term matching one is known and not corrected. Words of concept
+ * names and titles count at least this often, so they are always suggested.
+ */
+export const MIN_TERM_FREQUENCY = 2;
+
+/**
+ * Tokenize text into vocabulary terms: lowercase letter/digit runs of more
+ * than two characters, without pure numbers (the terms query expansion
+ * keeps).
+ */
+export function tokenizeVocabulary(text: string): string[] {
+  return tokenize(text)
+    .filter(term => term.length > 2 && !/^\p{N}+$/u.test(term));
+}
+
+/**
+ * Persists the corpus vocabulary: every term of the concept names,
+ * document titles and chunk text with its number of occurrences.
+ *
+ * The vocabulary is built at seed time (or with `npm run build-vocabulary`
+ * for existing databases) and loaded by the server to correct misspelled
+ * query terms.
+ */
+export class VocabularyStore {
+  constructor(private readonly client: lancedb.Connection) {}
+
+  /**
+   * Read the vocabulary.
+   *
+   * @returns Term frequencies (empty if the vocabulary table does not exist)
+   * @throws {DatabaseError} If the table cannot be read
+   */
+  async read(): Promise<Map<string, number>> {
+    const vocabulary = new Map<string, number>();
+    try {
+      const tableNames = await this.client.tableNames();
+      if (!tableNames.includes(VOCABULARY_TABLE_NAME)) {
+        return vocabulary;
+      }
+
+      // LanceDB query() defaults to 10 rows: read the whole table
+      const table = await this.client.openTable(VOCABULARY_TABLE_NAME);
+      const rows = await table.query().limit(Math.max(1, await table.countRows())).toArray();
+      for (const row of rows) {
+        vocabulary.set(row.term, Number(row.frequency));
+      }
+      return vocabulary;
+    } catch (error) {
+      throw new DatabaseError(
+        'Failed to read vocabulary',
+        'query',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Count the vocabulary terms of the corpus tables.
+   *
+   * Tables or columns missing from the database are skipped.
+   *
+   * @returns Term frequencies
+   * @throws {DatabaseError} If a table cannot be read
+   */
+  async collect(): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    const alwaysSuggested = new Set<string>();
+    try {
+      const tableNames = await this.client.tableNames();
+      for (const [tableName, column] of Object.entries(VOCABULARY_TEXT_COLUMNS)) {
+        if (!tableNames.includes(tableName)) continue;
+        const table = await this.client.openTable(tableName);
+        const schema = await table.schema();
+        if (!schema.fields.some(field => field.name === column)) continue;
+
+        const rowCount = await table.countRows();
+        if (rowCount === 0) continue;
+
+        const values = (await table.query().select([column]).limit(rowCount).toArrow()).getChild(column);
+        for (let i = 0; i < (values?.length ?? 0); i++) {
+          const value = values?.get(i);
+          if (typeof value !== 'string') continue;
+          for (const term of tokenizeVocabulary(value)) {
+            counts.set(term, (counts.get(term) ?? 0) + 1);
+            if (tableName !== 'chunks') {
+              alwaysSuggested.add(term);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      throw new DatabaseError(
+        'Failed to collect vocabulary',
+        'query',
+        error as Error
+      );
+    }
+
+    for (const term of alwaysSuggested) {
+      counts.set(term, Math.max(counts.get(term)!, MIN_TERM_FREQUENCY));
+    }
+    return counts;
+  }
+
+  /**
+   * Replace the stored vocabulary.
+   *
+   * @param vocabulary - Term frequencies (an empty vocabulary drops the table)
+   * @throws {DatabaseError} If the table cannot be written
+   */
+  async write(vocabulary: Map<string, number>): Promise<void> {
+    try {
+      if (vocabulary.size === 0) {
+        const tableNames = await this.client.tableNames();
+        if (tableNames.includes(VOCABULARY_TABLE_NAME)) {
+          await this.client.dropTable(VOCABULARY_TABLE_NAME);
+        }
+        return;
+      }
+
+      const rows = Array.from(vocabulary, ([term, frequency]) => ({ term, frequency }));
+      await this.client.createTable(VOCABULARY_TABLE_NAME, rows, { mode: 'overwrite' });
+    } catch (error) {
+      throw new DatabaseError(
+        'Failed to write vocabulary',
+        'insert',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Rebuild the stored vocabulary from the corpus tables.
+   *
+   * @returns Number of vocabulary terms
+   * @throws {DatabaseError} If the tables cannot be read or the vocabulary written
+   */
+  async rebuild(): Promise<number> {
+    const vocabulary = await this.collect();
+    await this.write(vocabulary);
+    return vocabulary.size;
+  }
+}
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ResilientExecutor, ResilienceProfiles } from '../resilient-executor.js';
 import { RetryService } from '../../utils/retry-service.js';
 import { CircuitBreakerOpenError, BulkheadRejectionError } from '../errors.js';
+import { TIMEOUTS } from '../timeout.js';
 
 describe('ResilientExecutor', () => {
   let retryService: RetryService;
@@ -488,6 +489,16 @@ describe('ResilientExecutor', () => {
       expect(profile.bulkhead).toBeDefined();
     });
     
+    it('should fit every LLM_RERANK attempt within the RERANK deadline, below the SEARCH timeout', () => {
+      const profile = ResilienceProfiles.LLM_RERANK;
+      const attempts = profile.retry!.maxRetries!;
+      const worstCase = attempts * profile.timeout! + profile.retry!.initialDelayMs!;
+      
+      expect(attempts).toBe(2);
+      expect(worstCase).toBeLessThanOrEqual(TIMEOUTS.RERANK);
+      expect(TIMEOUTS.RERANK).toBeLessThan(TIMEOUTS.SEARCH);
+    });
+    
     it('should provide FAST_RELIABLE profile', () => {
       const profile = ResilienceProfiles.FAST_RELIABLE;
       
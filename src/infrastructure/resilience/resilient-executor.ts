@@ -406,6 +406,61 @@ export class ResilienceProfiles {
     },
   };
   
+  /**
+   * Profile for remote embedding APIs (OpenAI-compatible / Ollama).
+   * - 30s timeout (requests carry whole batches)
+   * - 3 retries with exponential backoff (honours Retry-After on 429)
+   * - Circuit breaker (5 failures, 60s timeout)
+   * - Bulkhead (4 concurrent, 50 queued)
+   */
+  static readonly EMBEDDING_API: Omit<ResilienceOptions, 'name'> = {
+    timeout: 30000,
+    retry: {
+      maxRetries: 3,
+      initialDelayMs: 1000,
+      maxDelayMs: 10000,
+      backoffMultiplier: 2,
+    },
+    circuitBreaker: {
+      failureThreshold: 5,
+      successThreshold: 2,
+      timeout: 60000,
+      resetTimeout: 10000,
+    },
+    bulkhead: {
+      maxConcurrent: 4,
+      maxQueue: 50,
+    },
+  };
+
+  /**
+   * Profile for LLM reranking calls (on the interactive search path).
+   * - 8s timeout per attempt
+   * - 2 attempts (`maxRetries` counts attempts), 500ms backoff, so both
+   *   attempts fit within the RERANK deadline, below the SEARCH timeout
+   * - Circuit breaker (3 failures, 60s timeout)
+   * - Bulkhead (5 concurrent, 20 queued)
+   */
+  static readonly LLM_RERANK: Omit<ResilienceOptions, 'name'> = {
+    timeout: 8000,
+    retry: {
+      maxRetries: 2,
+      initialDelayMs: 500,
+      maxDelayMs: 2000,
+      backoffMultiplier: 2,
+    },
+    circuitBreaker: {
+      failureThreshold: 3,
+      successThreshold: 2,
+      timeout: 60000,
+      resetTimeout: 10000,
+    },
+    bulkhead: {
+      maxConcurrent: 5,
+      maxQueue: 20,
+    },
+  };
+
   /**
    * Profile for database operations.
    * - 3s timeout
@@ -6,7 +6,8 @@ import { TimeoutError } from './errors.js';
  * These values are chosen based on typical operation characteristics:
  * - LLM_CALL: 30s - Concept extraction can take time with large texts
  * - EMBEDDING: 10s - Embedding generation is typically faster
- * - SEARCH: 10s - Hybrid search with query expansion can be slower
+ * - SEARCH: 30s - Hybrid search with query expansion can be slower
+ * - RERANK: 20s - Reranking runs inside a search, so it must finish first
  * - DATABASE: 3s - Database queries should be quick
  * - HEALTH_CHECK: 1s - Health checks need to be very fast
  */
@@ -20,6 +21,9 @@ export const TIMEOUTS = {
   /** Timeout for search operations (hybrid search with query expansion) */
   SEARCH: 30000,
   
+  /** Deadline for second-stage reranking including retries (below SEARCH) */
+  RERANK: 20000,
+  
   /** Timeout for database queries */
   DATABASE: 3000,
   
@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for the Text Analyzer
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyze,
+  analyzeTokens,
+  containsStemSequence,
+  findStemSequence,
+  isStopWord,
+  termsOverlap,
+  tokenize
+} from '../analyzer.js';
+
+describe('tokenize', () => {
+  it('should split text into lowercase letter and digit runs', () => {
+    // EXERCISE & VERIFY
+    expect(tokenize('Event-Driven Architecture (2nd ed.)')).toEqual(['event', 'driven', 'architecture', '2nd', 'ed']);
+    expect(tokenize('')).toEqual([]);
+  });
+});
+
+describe('isStopWord', () => {
+  it('should recognize common function words', () => {
+    // EXERCISE & VERIFY
+    expect(isStopWord('the')).toBe(true);
+    expect(isStopWord('between')).toBe(true);
+    expect(isStopWord('saga')).toBe(false);
+  });
+});
+
+describe('analyze', () => {
+  it('should stem words and drop stop words', () => {
+    // EXERCISE & VERIFY
+    expect(analyze('The Architectures of Microservices')).toEqual(['architectur', 'microservic']);
+  });
+
+  it('should return no stems for stop words only', () => {
+    // EXERCISE & VERIFY
+    expect(analyze('of the')).toEqual([]);
+  });
+});
+
+describe('analyzeTokens', () => {
+  it('should report the position of each word as written', () => {
+    // SETUP
+    const text = 'Sagas, not locks';
+
+    // EXERCISE
+    const tokens = analyzeTokens(text);
+
+    // VERIFY
+    expect(tokens).toEqual([
+      { term: 'saga', start: 0, end: 5 },
+      { term: 'lock', start: 11, end: 16 }
+    ]);
+  });
+});
+
+describe('findStemSequence', () => {
+  it('should find contiguous runs of stems', () => {
+    // SETUP
+    const stems = analyze('event sourcing and event sourced systems');
+
+    // EXERCISE & VERIFY
+    expect(findStemSequence(stems, analyze('event sourcing'))).toEqual([0, 2]);
+    expect(findStemSequence(stems, analyze('sourcing event'))).toEqual([1]);
+    expect(findStemSequence(stems, [])).toEqual([]);
+  });
+
+  it('should tell whether a run occurs', () => {
+    // EXERCISE & VERIFY
+    expect(containsStemSequence(analyze('distributed systems'), analyze('system'))).toBe(true);
+    expect(containsStemSequence(analyze('distributed systems'), analyze('systems distributed'))).toBe(false);
+  });
+});
+
+describe('termsOverlap', () => {
+  it('should match when either text contains the other', () => {
+    // EXERCISE & VERIFY
+    expect(termsOverlap('design patterns', 'pattern')).toBe(true);
+    expect(termsOverlap('pattern', 'Design Patterns')).toBe(true);
+    expect(termsOverlap('architectures', 'architecture')).toBe(true);
+  });
+
+  it('should not match word prefixes or substrings', () => {
+    // EXERCISE & VERIFY
+    expect(termsOverlap('software', 'war')).toBe(false);
+    expect(termsOverlap('warfare', 'war')).toBe(false);
+    expect(termsOverlap('the', 'the')).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit Tests for the Concept Name Index
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConceptNameIndex } from '../concept-name-index.js';
+
+const index = new ConceptNameIndex([
+  { id: 1, name: 'dependency injection', synonyms: ['inversion of control container'] },
+  { id: 2, name: 'dependency inversion principle', synonyms: [] },
+  { id: 3, name: 'Dependency', synonyms: [''] },
+  { id: 4, name: 'event sourcing', synonyms: ['event store'] },
+  { id: 5, name: 'raft consensus', synonyms: [] }
+]);
+
+describe('ConceptNameIndex', () => {
+  describe('findByPrefix', () => {
+    it('should find names starting with the text, shortest first', () => {
+      // EXERCISE & VERIFY
+      expect(index.findByPrefix('depend', 10)).toEqual([3, 1, 2]);
+      expect(index.findByPrefix('Dependency Inj', 10)).toEqual([1]);
+    });
+
+    it('should find synonyms starting with the text', () => {
+      // EXERCISE & VERIFY
+      expect(index.findByPrefix('inversion of', 10)).toEqual([1]);
+      expect(index.findByPrefix('event st', 10)).toEqual([4]);
+    });
+
+    it('should stop at the limit and find nothing for blank or unknown text', () => {
+      // EXERCISE & VERIFY
+      expect(index.findByPrefix('depend', 2)).toEqual([3, 1]);
+      expect(index.findByPrefix(' ', 10)).toEqual([]);
+      expect(index.findByPrefix('zookeeper', 10)).toEqual([]);
+    });
+  });
+
+  describe('findByTerms', () => {
+    it('should rank concepts by words matched as stems, then by name length', () => {
+      // EXERCISE
+      const ids = index.findByTerms(['injected', 'dependencies'], 10);
+
+      // VERIFY
+      expect(ids).toEqual([1, 3, 2]);
+    });
+
+    it('should match words of synonyms and ignore stop words', () => {
+      // EXERCISE & VERIFY
+      expect(index.findByTerms(['control'], 10)).toEqual([1]);
+      expect(index.findByTerms(['of', 'the'], 10)).toEqual([]);
+    });
+  });
+
+  describe('correctTerms', () => {
+    it('should correct misspelled words to the closest name word', () => {
+      // EXERCISE & VERIFY
+      expect(index.correctTerms(['depndency', 'injektion'])).toEqual(['dependency', 'injection']);
+    });
+
+    it('should keep matching, inflected, stop and unknown words', () => {
+      // EXERCISE & VERIFY
+      expect(index.correctTerms(['raft', 'events', 'of', 'blockchain'])).toEqual(['raft', 'events', 'of', 'blockchain']);
+    });
+  });
+
+  it('should report the number of concepts', () => {
+    // EXERCISE & VERIFY
+    expect(index.size).toBe(5);
+  });
+});
@@ -14,10 +14,12 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ConceptualHybridSearchService } from '../conceptual-hybrid-search-service.js';
 import { EmbeddingService } from '../../../domain/interfaces/services/embedding-service.js';
-import { SearchableCollection } from '../../../domain/interfaces/services/hybrid-search-service.js';
+import { SearchableCollection, VectorSearchOptions } from '../../../domain/interfaces/services/hybrid-search-service.js';
+import type { Reranker } from '../../../domain/interfaces/services/reranker.js';
 import { QueryExpander } from '../../../concepts/query_expander.js';
 import { ExpandedQuery } from '../scoring-strategies.js';
 import { createTestEmbedding } from '../../../__tests__/test-helpers/test-data.js';
+import { SearchResultCache } from '../../cache/search-result-cache.js';
 
 /**
  * Mock QueryExpander for testing
@@ -65,7 +67,7 @@ class MockQueryExpander {
 class MockSearchableCollection implements SearchableCollection {
   private results: any[] = [];
 
-  async vectorSearch(queryVector: number[], limit: number): Promise<any[]> {
+  async vectorSearch(queryVector: number[], limit: number, _options?: VectorSearchOptions): Promise<any[]> {
     return this.results.slice(0, limit);
   }
 
@@ -83,19 +85,72 @@ class MockSearchableCollection implements SearchableCollection {
   }
 }
 
+/**
+ * Mock SearchableCollection with a full-text index
+ */
+class MockFullTextCollection extends MockSearchableCollection {
+  private fullTextResults: any[] = [];
+
+  async fullTextSearch(_queryText: string, limit: number): Promise<any[] | undefined> {
+    return this.fullTextResults.slice(0, limit);
+  }
+
+  async fullTextMatches(): Promise<any[] | undefined> {
+    return this.fullTextResults.map(({ vector: _vector, ...row }) => row);
+  }
+
+  // Test helper: Set mock full-text results (rows with _score)
+  setFullTextResults(results: any[]): void {
+    this.fullTextResults = results;
+  }
+}
+
+/**
+ * Mock SearchableCollection with a data version
+ */
+class MockVersionedCollection extends MockSearchableCollection {
+  version = 1;
+
+  async getVersion(): Promise<number> {
+    return this.version;
+  }
+}
+
+/**
+ * Mock Reranker scoring documents by the position of a keyword (earlier = better)
+ */
+class KeywordReranker implements Reranker {
+  readonly name = 'keyword';
+  calls: string[][] = [];
+
+  constructor(private readonly keyword: string) {}
+
+  async rerank(_query: string, documents: string[]): Promise<number[]> {
+    this.calls.push(documents);
+    return documents.map(document => {
+      const position = document.indexOf(this.keyword);
+      return position < 0 ? 0 : 1000 - position;
+    });
+  }
+}
+
 /**
  * Mock EmbeddingService for testing
  */
 class MockEmbeddingService implements EmbeddingService {
   private embeddings: Map<string, number[]> = new Map();
 
-  generateEmbedding(text: string): number[] {
+  async generateEmbedding(text: string): Promise<number[]> {
     if (this.embeddings.has(text)) {
       return this.embeddings.get(text)!;
     }
     return createTestEmbedding(384, 0.5);
   }
 
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.generateEmbedding(text)));
+  }
+
   // Test helper: Set custom embedding
   setEmbedding(text: string, embedding: number[]): void {
     this.embeddings.set(text, embedding);
@@ -605,4 +660,704 @@ describe('ConceptualHybridSearchService', () => {
       // VERIFY - Should handle gracefully
     });
   });
+
+  describe('search - full-text candidates', () => {
+    let fullTextCollection: MockFullTextCollection;
+
+    beforeEach(() => {
+      fullTextCollection = new MockFullTextCollection();
+    });
+
+    it('should merge candidates found only by full-text search', async () => {
+      // SETUP - keyword match the vector search missed
+      const queryVector = createTestEmbedding(384, 0.5);
+      mockEmbeddingService.setEmbedding('raft consensus', queryVector);
+      fullTextCollection.setResults([
+        { id: 1, text: 'Leader election basics', concept_names: [], vector: createTestEmbedding(), _distance: 0.3 }
+      ]);
+      fullTextCollection.setFullTextResults([
+        { id: 2, text: 'Raft consensus replicates logs', concept_names: [], vector: queryVector, _score: 4.2 }
+      ]);
+
+      // EXERCISE
+      const results = await service.search(fullTextCollection, 'raft consensus', 5);
+
+      // VERIFY - full-text only row gets a computed distance (identical vector)
+      expect(results.map(r => r.id).sort()).toEqual([1, 2]);
+      const keywordHit = results.find(r => r.id === 2)!;
+      expect(keywordHit.distance).toBe(0);
+      expect(keywordHit.vectorScore).toBe(1);
+    });
+
+    it('should score BM25 from native full-text scores', async () => {
+      // SETUP - same row from both searches, plus a vector-only row
+      const row = { id: 1, text: 'no query words here', concept_names: [], vector: createTestEmbedding(), _distance: 0.2 };
+      fullTextCollection.setResults([row, { ...row, id: 3, _distance: 0.25 }]);
+      fullTextCollection.setFullTextResults([
+        { ...row, id: 2, _score: 8 },
+        { ...row, _score: 4 }
+      ]);
+
+      // EXERCISE
+      const results = await service.search(fullTextCollection, 'consensus', 5);
+
+      // VERIFY - normalized by the best full-text match; unmatched rows score 0
+      const bm25 = new Map(results.map(r => [r.id, r.bm25Score]));
+      expect(bm25.get(2)).toBe(1);
+      expect(bm25.get(1)).toBe(0.5);
+      expect(bm25.get(3)).toBe(0);
+    });
+
+    it('should fall back to in-memory BM25 without a full-text index', async () => {
+      // SETUP
+      const row = { id: 1, text: 'consensus protocols', concept_names: [], vector: createTestEmbedding(), _distance: 0.2 };
+      fullTextCollection.setResults([row]);
+      vi.spyOn(fullTextCollection, 'fullTextSearch').mockResolvedValue(undefined);
+
+      // EXERCISE
+      const results = await service.search(fullTextCollection, 'consensus', 5);
+
+      // VERIFY
+      expect(results).toHaveLength(1);
+      expect(results[0].bm25Score).toBeGreaterThan(0);
+    });
+  });
+
+  describe('search - fusion strategies', () => {
+    const rows = [
+      { id: 1, text: 'consensus consensus protocols', concept_names: [], vector: createTestEmbedding(), _distance: 0.6 },
+      { id: 2, text: 'replicated logs', concept_names: [], vector: createTestEmbedding(), _distance: 0.1 }
+    ];
+
+    it('should use the configured fusion strategy', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      const rrfService = new ConceptualHybridSearchService(
+        mockEmbeddingService as any,
+        mockQueryExpander as any,
+        undefined,
+        undefined,
+        { mode: 'rrf', rrfK: 60 }
+      );
+
+      // EXERCISE
+      const configured = await rrfService.search(mockCollection, 'consensus', 5);
+      const perCall = await service.search(mockCollection, 'consensus', 5, { fusion: 'rrf' });
+      const weighted = await rrfService.search(mockCollection, 'consensus', 5, { fusion: 'weighted' });
+
+      // VERIFY
+      expect(configured.map(r => r.hybridScore)).toEqual(perCall.map(r => r.hybridScore));
+      expect(weighted.map(r => r.hybridScore)).not.toEqual(configured.map(r => r.hybridScore));
+    });
+
+    it('should override the fusion strategy per call', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+
+      // EXERCISE
+      const weighted = await service.search(mockCollection, 'consensus', 5);
+      const rrf = await service.search(mockCollection, 'consensus', 5, { fusion: 'rrf' });
+
+      // VERIFY
+      expect(rrf.map(r => r.hybridScore)).not.toEqual(weighted.map(r => r.hybridScore));
+    });
+
+    it('should report each signal rank in debug output', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      // EXERCISE
+      await service.search(mockCollection, 'consensus', 5, { debug: true, fusion: 'rrf' });
+
+      // VERIFY
+      const output = errorSpy.mock.calls.map(call => call.join(' ')).join('\n');
+      errorSpy.mockRestore();
+      expect(output).toContain('fusion: rrf');
+      expect(output).toMatch(/Vector: 0\.\d{3} \(#1\)/);
+      expect(output).toContain('Title: 0.000 (unranked)');
+    });
+  });
+
+  describe('search - weight profiles', () => {
+    // Keyword match far in vector space vs. close vector without the keyword
+    const rows = [
+      { id: 1, text: 'consensus consensus protocols', concept_names: [], vector: createTestEmbedding(), _distance: 0.5 },
+      { id: 2, text: 'replicated logs', concept_names: [], vector: createTestEmbedding(), _distance: 0.1 }
+    ];
+
+    it('should rank with the configured base weights', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      const keywordService = new ConceptualHybridSearchService(
+        mockEmbeddingService as any,
+        mockQueryExpander as any,
+        undefined,
+        undefined,
+        {
+          weights: {
+            catalog: { vectorWeight: 0.1, bm25Weight: 0.9, titleWeight: 0, conceptWeight: 0, wordnetWeight: 0 }
+          }
+        }
+      );
+
+      // EXERCISE
+      const keyword = await keywordService.search(mockCollection, 'consensus protocols', 2);
+      const defaults = await service.search(mockCollection, 'consensus protocols', 2);
+
+      // VERIFY
+      expect(keyword.map(r => r.id)).toEqual([1, 2]);
+      expect(keyword[0].hybridScore).toBeGreaterThan(defaults[0].hybridScore);
+    });
+
+    it('should reshape the weights with a named profile per call', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+
+      // EXERCISE
+      const precise = await service.search(mockCollection, 'consensus protocols', 2, { weightProfile: 'precise' });
+      const exploratory = await service.search(mockCollection, 'consensus protocols', 2, { weightProfile: 'exploratory' });
+
+      // VERIFY
+      expect(precise.map(r => r.id)).toEqual([1, 2]);
+      expect(exploratory.map(r => r.id)).toEqual([2, 1]);
+    });
+  });
+
+  describe('search - reranking', () => {
+    // Closest vector first: fused order is 1, 2, 3
+    const rows = [
+      { id: 1, text: 'protocols overview', concept_names: [], vector: createTestEmbedding(), _distance: 0.1 },
+      { id: 2, text: 'about raft', concept_names: [], vector: createTestEmbedding(), _distance: 0.2 },
+      { id: 3, text: 'raft consensus in depth', concept_names: [], vector: createTestEmbedding(), _distance: 0.3 }
+    ];
+
+    function createRerankingService(reranker: Reranker, topK?: number): ConceptualHybridSearchService {
+      return new ConceptualHybridSearchService(
+        mockEmbeddingService as any,
+        mockQueryExpander as any,
+        undefined,
+        undefined,
+        {},
+        { reranker, topK }
+      );
+    }
+
+    it('should reorder the top candidates by reranker score before truncating', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      const rerankingService = createRerankingService(new KeywordReranker('raft'));
+
+      // EXERCISE
+      const results = await rerankingService.search(mockCollection, 'overview', 2, { rerank: true });
+
+      // VERIFY - the best reranked candidate was third in fused order
+      expect(results.map(r => r.id)).toEqual([3, 2]);
+      expect(results[0].rerankScore).toBeGreaterThan(results[1].rerankScore!);
+    });
+
+    it('should only rerank when requested', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      const reranker = new KeywordReranker('raft');
+      const rerankingService = createRerankingService(reranker);
+
+      // EXERCISE
+      const results = await rerankingService.search(mockCollection, 'overview', 2);
+
+      // VERIFY
+      expect(results.map(r => r.id)).toEqual([1, 2]);
+      expect(results[0].rerankScore).toBeUndefined();
+      expect(reranker.calls).toHaveLength(0);
+    });
+
+    it('should rerank only the top K candidates', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      const reranker = new KeywordReranker('raft');
+      const rerankingService = createRerankingService(reranker, 2);
+
+      // EXERCISE
+      const results = await rerankingService.search(mockCollection, 'overview', 3, { rerank: true });
+
+      // VERIFY - third candidate is not reranked and stays last
+      expect(reranker.calls[0]).toHaveLength(2);
+      expect(results.map(r => r.id)).toEqual([2, 1, 3]);
+    });
+
+    it('should keep the fused order when the reranker fails', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      const reranker = new KeywordReranker('raft');
+      vi.spyOn(reranker, 'rerank').mockRejectedValue(new Error('model unavailable'));
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const rerankingService = createRerankingService(reranker);
+
+      // EXERCISE
+      const results = await rerankingService.search(mockCollection, 'overview', 3, { rerank: true });
+
+      // VERIFY
+      const output = errorSpy.mock.calls.map(call => call.join(' ')).join('\n');
+      errorSpy.mockRestore();
+      expect(results.map(r => r.id)).toEqual([1, 2, 3]);
+      expect(output).toContain('model unavailable');
+    });
+  });
+
+  describe('search - query syntax', () => {
+    const row = (id: number, text: string) =>
+      ({ id, text, concept_names: [], vector: createTestEmbedding(), _distance: 0.2 });
+
+    it('should drop candidates containing an excluded term', async () => {
+      // SETUP
+      mockCollection.setResults([
+        row(1, 'Event sourcing with Kafka topics'),
+        row(2, 'Event sourcing with a relational store')
+      ]);
+
+      // EXERCISE
+      const results = await service.search(mockCollection, 'event sourcing -kafka', 5);
+
+      // VERIFY
+      expect(results.map(r => r.id)).toEqual([2]);
+    });
+
+    it('should keep only candidates containing a required phrase', async () => {
+      // SETUP
+      mockCollection.setResults([
+        row(1, 'The sourcing of event data'),
+        row(2, 'Event sourcing stores every change')
+      ]);
+
+      // EXERCISE
+      const results = await service.search(mockCollection, '+"event sourcing" stores', 5);
+
+      // VERIFY
+      expect(results.map(r => r.id)).toEqual([2]);
+    });
+
+    it('should boost results containing a quoted phrase verbatim', async () => {
+      // SETUP - identical signals apart from word order
+      mockCollection.setResults([
+        row(1, 'sourcing the event log'),
+        row(2, 'event sourcing the log')
+      ]);
+
+      // EXERCISE
+      const plain = await service.search(mockCollection, 'event sourcing', 5);
+      const phrase = await service.search(mockCollection, '"event sourcing"', 5);
+
+      // VERIFY
+      expect(plain[0].hybridScore).toBeCloseTo(plain[1].hybridScore);
+      expect(phrase.map(r => r.id)).toEqual([2, 1]);
+      expect(phrase[0].hybridScore).toBeCloseTo(phrase[1].hybridScore * 1.5);
+    });
+
+    it('should compile field restrictions into the filter and embed the free text only', async () => {
+      // SETUP
+      const vectorSpy = vi.spyOn(mockCollection, 'vectorSearch');
+      const embeddingSpy = vi.spyOn(mockEmbeddingService, 'generateEmbedding');
+
+      // EXERCISE
+      await service.search(mockCollection, 'domain models author:evans -year:..2000', 5);
+
+      // VERIFY
+      expect(embeddingSpy).toHaveBeenCalledWith('domain models');
+      expect(vectorSpy.mock.calls[0][2]?.filter)
+        .toBe("(lower(author) LIKE '%evans%' AND NOT coalesce(year <= 2000, false))");
+    });
+  });
+
+  describe('search - match spans', () => {
+    it('should report where expanded terms matched in the text', async () => {
+      // SETUP
+      mockQueryExpander.setExpansion('software', {
+        original_terms: ['software'],
+        corpus_terms: ['design'],
+        concept_terms: [],
+        wordnet_terms: ['programming'],
+        all_terms: ['software', 'design', 'programming'],
+        weights: new Map()
+      });
+      mockCollection.setResults([
+        { id: 1, text: 'Software design is not programming', concept_names: [], vector: [1, 0], _distance: 0.1 }
+      ]);
+
+      // EXERCISE
+      const [result] = await service.search(mockCollection, 'software', 1);
+
+      // VERIFY
+      expect(result.matchSpans).toEqual([
+        { start: 0, end: 8, term: 'software', kind: 'original' },
+        { start: 9, end: 15, term: 'design', kind: 'corpus' },
+        { start: 23, end: 34, term: 'programming', kind: 'wordnet' }
+      ]);
+    });
+  });
+
+  describe('search - diversification', () => {
+    // Three near-identical chunks of one book, then a distinct chunk of another
+    const rows = [
+      { id: 1, catalog_id: 10, text: 'event sourcing', concept_names: [], vector: [1, 0], _distance: 0.10 },
+      { id: 2, catalog_id: 10, text: 'event sourcing', concept_names: [], vector: [1, 0.01], _distance: 0.11 },
+      { id: 3, catalog_id: 10, text: 'event sourcing', concept_names: [], vector: [1, 0.02], _distance: 0.12 },
+      { id: 4, catalog_id: 20, text: 'event sourcing', concept_names: [], vector: [0, 1], _distance: 0.30 }
+    ];
+
+    it('should rank by relevance without diversification options', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+
+      // EXERCISE
+      const results = await service.search(mockCollection, 'event sourcing', 2);
+
+      // VERIFY
+      expect(results.map(r => r.id)).toEqual([1, 2]);
+    });
+
+    it('should fill positions freed by the per-document cap from the candidate pool', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+
+      // EXERCISE
+      const results = await service.search(mockCollection, 'event sourcing', 2, { maxPerDocument: 1 });
+
+      // VERIFY
+      expect(results.map(r => r.id)).toEqual([1, 4]);
+    });
+
+    it('should promote dissimilar results with MMR', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+
+      // EXERCISE
+      const results = await service.search(mockCollection, 'event sourcing', 3, { mmrLambda: 0.5 });
+
+      // VERIFY
+      expect(results.map(r => r.id)).toEqual([1, 4, 2]);
+    });
+  });
+
+  describe('search - result cache', () => {
+    const rows = [
+      { id: 1, text: 'raft consensus', is_reference: false, concept_names: [], vector: createTestEmbedding(384, 0.5), _distance: 0.1 }
+    ];
+    let cache: SearchResultCache<any>;
+    let collection: MockVersionedCollection;
+    let cachedService: ConceptualHybridSearchService;
+
+    beforeEach(() => {
+      cache = new SearchResultCache<any>();
+      collection = new MockVersionedCollection();
+      collection.setResults(rows);
+      cachedService = new ConceptualHybridSearchService(
+        mockEmbeddingService as any,
+        mockQueryExpander as any,
+        cache
+      );
+    });
+
+    it('should serve repeated searches from the cache', async () => {
+      // SETUP
+      const vectorSearch = vi.spyOn(collection, 'vectorSearch');
+
+      // EXERCISE
+      const first = await cachedService.search(collection, 'raft', 5, { excludeReferences: true });
+      const second = await cachedService.search(collection, 'raft', 5, { excludeReferences: true });
+
+      // VERIFY
+      expect(second).toBe(first);
+      expect(vectorSearch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cache differently filtered searches separately', async () => {
+      // SETUP
+      const vectorSearch = vi.spyOn(collection, 'vectorSearch');
+
+      // EXERCISE
+      await cachedService.search(collection, 'raft', 5);
+      await cachedService.search(collection, 'raft', 5, { excludeReferences: true });
+      await cachedService.search(collection, 'raft', 5, { excludeMetaContent: true });
+      await cachedService.search(collection, 'raft', 5, { excludeExtractionIssues: true });
+      await cachedService.search(collection, 'raft', 5, { filter: 'page_number > 1' });
+
+      // VERIFY
+      expect(vectorSearch).toHaveBeenCalledTimes(5);
+      expect(cache.size).toBe(5);
+    });
+
+    it('should clear the cache when the collection version changes', async () => {
+      // SETUP
+      const vectorSearch = vi.spyOn(collection, 'vectorSearch');
+      await cachedService.search(collection, 'raft', 5);
+      await cachedService.search(collection, 'consensus', 5);
+
+      // EXERCISE
+      collection.version = 2;
+      await cachedService.search(collection, 'raft', 5);
+
+      // VERIFY
+      expect(vectorSearch).toHaveBeenCalledTimes(3);
+      expect(cache.size).toBe(1);
+    });
+
+    it('should bypass the cache in debug mode', async () => {
+      // SETUP
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      // EXERCISE
+      await cachedService.search(collection, 'raft', 5, { debug: true });
+
+      // VERIFY
+      expect(cache.size).toBe(0);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('spelling correction', () => {
+    const row = { id: 1, catalog_id: 10, text: 'idempotency keys for retries', concept_names: [], vector: createTestEmbedding(), _distance: 0.1 };
+    const corrected: ExpandedQuery = {
+      original_terms: ['idempotency', 'keys'],
+      corpus_terms: [],
+      concept_terms: [],
+      wordnet_terms: [],
+      all_terms: ['idempotency', 'keys'],
+      weights: new Map([['idempotency', 1.0], ['keys', 1.0]]),
+      corrections: [{ term: 'idempotancy', correction: 'idempotency', distance: 1 }]
+    };
+
+    it('should search each correction alongside the term as typed and report the corrected query as did-you-mean', async () => {
+      // SETUP
+      const collection = new MockFullTextCollection();
+      collection.setResults([row]);
+      const fullTextSpy = vi.spyOn(collection, 'fullTextSearch');
+      const embeddingSpy = vi.spyOn(mockEmbeddingService, 'generateEmbedding');
+      mockQueryExpander.setExpansion('Idempotancy +keys', corrected);
+
+      // EXERCISE
+      const results = await service.search(collection, 'Idempotancy +keys', 5);
+
+      // VERIFY
+      expect(fullTextSpy.mock.calls[0][0]).toBe('idempotancy idempotency keys');
+      expect(embeddingSpy).toHaveBeenCalledWith('idempotancy idempotency keys');
+      expect(results[0].didYouMean).toBe('idempotency +keys');
+    });
+
+    it('should not set did-you-mean without corrections', async () => {
+      // SETUP
+      mockCollection.setResults([row]);
+
+      // EXERCISE
+      const results = await service.search(mockCollection, 'idempotency', 5);
+
+      // VERIFY
+      expect(results[0].didYouMean).toBeUndefined();
+    });
+
+    it('should report the corrections in the explanation', async () => {
+      // SETUP
+      mockCollection.setResults([row]);
+      mockQueryExpander.setExpansion('idempotancy keys', corrected);
+
+      // EXERCISE
+      const explanation = await service.explain(mockCollection, 'idempotancy keys', 5);
+
+      // VERIFY
+      expect(explanation.corrections).toEqual(corrected.corrections);
+      expect(explanation.didYouMean).toBe('idempotency keys');
+    });
+  });
+
+  describe('explain', () => {
+    const rows = [
+      { id: 1, catalog_id: 10, text: 'protocols overview', concept_names: [], vector: createTestEmbedding(), _distance: 0.1 },
+      { id: 2, catalog_id: 10, text: 'about raft', concept_names: [], vector: createTestEmbedding(), _distance: 0.2 },
+      { id: 3, catalog_id: 20, text: 'raft consensus in depth', concept_names: ['consensus'], vector: createTestEmbedding(), _distance: 0.3 }
+    ];
+
+    it('should report the expanded terms, weights, filter and candidate counts', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      mockQueryExpander.setExpansion('raft', {
+        original_terms: ['raft'],
+        corpus_terms: ['paxos'],
+        concept_terms: ['consensus'],
+        wordnet_terms: ['float'],
+        all_terms: ['raft', 'paxos', 'consensus', 'float'],
+        weights: new Map([['raft', 1.0], ['paxos', 0.8], ['consensus', 0.7], ['float', 0.6]])
+      });
+
+      // EXERCISE
+      const explanation = await service.explain(mockCollection, 'raft', 2, { filter: 'year > 2000' });
+
+      // VERIFY
+      expect(explanation.query).toBe('raft');
+      expect(explanation.collection).toBe('test-collection');
+      expect(explanation.corrections).toEqual([]);
+      expect(explanation.didYouMean).toBeUndefined();
+      expect(explanation.expandedTerms).toEqual([
+        { term: 'raft', origin: 'original', weight: 1.0 },
+        { term: 'paxos', origin: 'corpus', weight: 0.8 },
+        { term: 'consensus', origin: 'concept', weight: 0.7 },
+        { term: 'float', origin: 'wordnet', weight: 0.6 }
+      ]);
+      expect(explanation.analysis.termCount).toBe(1);
+      expect(explanation.weightProfile).toBe('default');
+      expect(explanation.baseWeights).toEqual({ vector: 0.30, bm25: 0.25, title: 0.20, concept: 0.15, wordnet: 0.10 });
+      expect(explanation.fusion).toBe('weighted');
+      expect(explanation.filter).toBe('(year > 2000)');
+      expect(explanation.candidates).toEqual({ vector: 3, fullText: null, merged: 3, matching: 3 });
+    });
+
+    it('should list every candidate with its score components and the returned results', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+
+      // EXERCISE
+      const explanation = await service.explain(mockCollection, 'raft', 2);
+      const results = await service.search(mockCollection, 'raft', 2);
+
+      // VERIFY
+      expect(explanation.beforeRerank).toHaveLength(3);
+      expect(explanation.beforeRerank.map(c => c.rank)).toEqual([1, 2, 3]);
+      expect(explanation.afterRerank).toBeUndefined();
+      expect(explanation.results.map(c => c.id)).toEqual(results.map(r => r.id));
+      const top = explanation.results[0];
+      expect(top.hybridScore).toBeCloseTo(results[0].hybridScore);
+      expect(top.scores.vector).toBeCloseTo(results[0].vectorScore);
+      expect(top.scores.bm25).toBeCloseTo(results[0].bm25Score);
+      expect(top.signalRanks.vector).toBeDefined();
+    });
+
+    it('should report the candidates before and after reranking', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      const rerankingService = new ConceptualHybridSearchService(
+        mockEmbeddingService as any,
+        mockQueryExpander as any,
+        undefined,
+        undefined,
+        {},
+        { reranker: new KeywordReranker('raft') }
+      );
+
+      // EXERCISE
+      const explanation = await rerankingService.explain(mockCollection, 'overview', 2, { rerank: true });
+
+      // VERIFY
+      expect(explanation.beforeRerank.map(c => c.id)).toEqual([1, 2, 3]);
+      expect(explanation.beforeRerank[0].rerankScore).toBeUndefined();
+      expect(explanation.reranker).toBe('keyword');
+      expect(explanation.afterRerank!.map(c => c.id)).toEqual([3, 2, 1]);
+      expect(explanation.afterRerank![0].rerankScore).toBeGreaterThan(explanation.afterRerank![1].rerankScore!);
+      expect(explanation.results.map(c => c.id)).toEqual([3, 2]);
+    });
+
+    it('should bypass the result cache', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      const cache = new SearchResultCache<any>();
+      const cachedService = new ConceptualHybridSearchService(
+        mockEmbeddingService as any,
+        mockQueryExpander as any,
+        cache
+      );
+
+      // EXERCISE
+      await cachedService.explain(mockCollection, 'raft', 2);
+
+      // VERIFY
+      expect(cache.size).toBe(0);
+    });
+  });
+
+  describe('searchWithCandidates', () => {
+    const rows = [
+      { id: 1, catalog_id: 10, text: 'raft leader election', vector: createTestEmbedding(), _distance: 0.1, author: 'Diego Ongaro', year: 2014 },
+      { id: 2, catalog_id: 20, text: 'raft log replication', vector: createTestEmbedding(), _distance: 0.2 },
+      { id: 3, catalog_id: 30, text: 'paxos made simple', vector: createTestEmbedding(), _distance: 0.3 }
+    ];
+
+    it('should return the limited results and every matching candidate', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+
+      // EXERCISE
+      const { results, candidates } = await service.searchWithCandidates(mockCollection, 'raft -paxos', 1);
+
+      // VERIFY
+      expect(results.map(r => r.id)).toEqual([1]);
+      expect(candidates.map(c => c.id)).toEqual([1, 2]);
+      expect(candidates[0]).toMatchObject({ author: 'Diego Ongaro', year: 2014 });
+      expect(candidates[1].author).toBeUndefined();
+    });
+
+    it('should leave out vector neighbours without a query term', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+
+      // EXERCISE
+      const { candidates } = await service.searchWithCandidates(mockCollection, 'raft', 3);
+
+      // VERIFY
+      expect(candidates.map(c => c.id)).toEqual([1, 2]);
+    });
+
+    it('should return every full-text match, not only the ranked candidates', async () => {
+      // SETUP - five keyword matches, of which a limit of 1 ranks three
+      const fullTextCollection = new MockFullTextCollection();
+      fullTextCollection.setResults([rows[2]]);
+      fullTextCollection.setFullTextResults([1, 2, 3, 4, 5].map(id => ({
+        id, catalog_id: id * 10, text: id === 4 ? 'raft versus paxos' : 'raft', vector: createTestEmbedding(), _score: 6 - id
+      })));
+
+      // EXERCISE
+      const { results, candidates } = await service.searchWithCandidates(fullTextCollection, 'raft -paxos', 1);
+
+      // VERIFY - excluded terms still apply; the vector-only row does not count
+      expect(results).toHaveLength(1);
+      expect(candidates.map(c => c.catalogId)).toEqual([10, 20, 30, 50]);
+    });
+
+    it('should keep the cached results of the same search', async () => {
+      // SETUP - a search without candidates was served first
+      mockCollection.setResults(rows);
+      const cachedService = new ConceptualHybridSearchService(
+        mockEmbeddingService as any,
+        mockQueryExpander as any,
+        new SearchResultCache<any>()
+      );
+      const served = await cachedService.search(mockCollection, 'raft', 2);
+      mockCollection.setResults([rows[1], rows[0]].map(row => ({ ...row, _distance: 0.3 - row._distance })));
+
+      // EXERCISE
+      const { results, candidates } = await cachedService.searchWithCandidates(mockCollection, 'raft', 2);
+
+      // VERIFY
+      expect(results).toBe(served);
+      expect(candidates.map(c => c.id).sort()).toEqual([1, 2]);
+    });
+
+    it('should cache the candidates with the results', async () => {
+      // SETUP
+      mockCollection.setResults(rows);
+      const cache = new SearchResultCache<any>();
+      const cachedService = new ConceptualHybridSearchService(
+        mockEmbeddingService as any,
+        mockQueryExpander as any,
+        cache
+      );
+      const first = await cachedService.searchWithCandidates(mockCollection, 'raft', 2);
+      mockCollection.setResults([]);
+
+      // EXERCISE
+      const second = await cachedService.searchWithCandidates(mockCollection, 'raft', 2);
+
+      // VERIFY
+      expect(cache.size).toBe(2);
+      expect(second.results).toBe(first.results);
+      expect(second.candidates).toBe(first.candidates);
+      expect(await cachedService.search(mockCollection, 'raft', 2)).toBe(first.results);
+    });
+  });
 });
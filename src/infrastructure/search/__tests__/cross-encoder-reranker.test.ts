@@ -0,0 +1,57 @@
+/**
+ * Unit Tests for CrossEncoderReranker
+ *
+ * Covers model directory validation and load failures. Inference itself
+ * needs a real ONNX cross-encoder on disk and is exercised manually.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CrossEncoderReranker, DEFAULT_CROSS_ENCODER_MODEL } from '../cross-encoder-reranker.js';
+import { InvalidConfigError, RerankError } from '../../../domain/exceptions/index.js';
+
+describe('CrossEncoderReranker', () => {
+  let modelDir: string;
+
+  beforeEach(() => {
+    modelDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cross-encoder-model-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(modelDir, { recursive: true, force: true });
+  });
+
+  it('should reject a missing model directory', () => {
+    const create = () => new CrossEncoderReranker({ modelPath: path.join(modelDir, 'missing') });
+
+    expect(create).toThrow(InvalidConfigError);
+    expect(create).toThrow('RERANK_MODEL_PATH');
+  });
+
+  it('should reject a directory without vocab.txt', () => {
+    fs.writeFileSync(path.join(modelDir, 'model.onnx'), '');
+
+    expect(() => new CrossEncoderReranker({ modelPath: modelDir })).toThrow('no vocab.txt');
+  });
+
+  it('should name itself after the model', () => {
+    fs.writeFileSync(path.join(modelDir, 'model.onnx'), '');
+    fs.writeFileSync(path.join(modelDir, 'vocab.txt'), '[PAD]\n[UNK]\n[CLS]\n[SEP]\n');
+
+    const reranker = new CrossEncoderReranker({ modelPath: modelDir });
+
+    expect(reranker.name).toBe(`cross-encoder:${DEFAULT_CROSS_ENCODER_MODEL}`);
+  });
+
+  it('should surface model load failures as RerankError', async () => {
+    // SETUP - valid layout, corrupt model
+    fs.writeFileSync(path.join(modelDir, 'model.onnx'), 'not an onnx model');
+    fs.writeFileSync(path.join(modelDir, 'vocab.txt'), '[PAD]\n[UNK]\n[CLS]\n[SEP]\n');
+    const reranker = new CrossEncoderReranker({ modelPath: modelDir });
+
+    // EXERCISE & VERIFY
+    await expect(reranker.rerank('query', ['passage'])).rejects.toThrow(RerankError);
+  });
+});
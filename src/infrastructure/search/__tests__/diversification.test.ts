@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Result Diversification
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { capPerDocument, diversifyByMMR } from '../diversification.js';
+import { createTestSearchResult } from '../../../__tests__/test-helpers/test-data.js';
+
+const result = (id: number, catalogId: number, hybridScore: number, embeddings: number[]) =>
+  createTestSearchResult({ id, catalogId, hybridScore, embeddings });
+
+describe('capPerDocument', () => {
+  it('should keep the best results of each document in order', () => {
+    // SETUP
+    const results = [
+      result(1, 10, 0.9, []),
+      result(2, 10, 0.8, []),
+      result(3, 20, 0.7, []),
+      result(4, 10, 0.6, []),
+      result(5, 20, 0.5, [])
+    ];
+
+    // EXERCISE
+    const capped = capPerDocument(results, 1);
+
+    // VERIFY
+    expect(capped.map(r => r.id)).toEqual([1, 3]);
+    expect(capPerDocument(results, 2).map(r => r.id)).toEqual([1, 2, 3, 5]);
+  });
+});
+
+describe('diversifyByMMR', () => {
+  // Two near-duplicates of one passage and a distinct, slightly less relevant one
+  const results = [
+    result(1, 10, 0.90, [1, 0]),
+    result(2, 10, 0.89, [0.99, 0.01]),
+    result(3, 20, 0.80, [0, 1])
+  ];
+
+  it('should promote a dissimilar result over a near-duplicate', () => {
+    // EXERCISE
+    const diverse = diversifyByMMR(results, 0.5);
+
+    // VERIFY
+    expect(diverse.map(r => r.id)).toEqual([1, 3, 2]);
+    expect(diverse[1].hybridScore).toBe(0.80);
+  });
+
+  it('should keep the relevance order with lambda 1', () => {
+    expect(diversifyByMMR(results, 1).map(r => r.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should pick only k results and keep the rest in order', () => {
+    // SETUP
+    const more = [...results, result(4, 30, 0.1, [1, 0])];
+
+    // EXERCISE
+    const diverse = diversifyByMMR(more, 0.5, 2);
+
+    // VERIFY
+    expect(diverse.map(r => r.id)).toEqual([1, 3, 2, 4]);
+  });
+
+  it('should take relevance from the reranked order rather than the hybrid score', () => {
+    // SETUP - the reranker put the least hybrid-relevant result first
+    const reranked = [results[2], results[0], results[1]].map((r, i) => ({ ...r, rerankScore: 3 - i }));
+
+    // EXERCISE
+    const diverse = diversifyByMMR(reranked, 0.9);
+
+    // VERIFY
+    expect(diverse.map(r => r.id)).toEqual([3, 1, 2]);
+  });
+
+  it('should treat results without embeddings as dissimilar', () => {
+    // SETUP
+    const unembedded = results.map(r => ({ ...r, embeddings: [] }));
+
+    // EXERCISE
+    const diverse = diversifyByMMR(unembedded, 0.5);
+
+    // VERIFY
+    expect(diverse.map(r => r.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should accept iterable embeddings such as Arrow vectors', () => {
+    // SETUP
+    const arrowLike = results.map(r => ({ ...r, embeddings: new Float32Array(r.embeddings!) as unknown as number[] }));
+
+    // EXERCISE
+    const diverse = diversifyByMMR(arrowLike, 0.5);
+
+    // VERIFY
+    expect(diverse.map(r => r.id)).toEqual([1, 3, 2]);
+  });
+});
@@ -14,6 +14,8 @@ import {
   getAdjustedChunkWeights,
   getAdjustedConceptWeights,
   calculateDynamicHybridScore,
+  applyWeightProfile,
+  toWeightProfile,
   DEFAULT_WEIGHTS,
   QueryAnalysis,
   WeightProfile
@@ -231,6 +233,36 @@ describe('Dynamic Weights', () => {
       // VERIFY
       expect(weights.vectorWeight).toBe(DEFAULT_WEIGHTS.catalog.vectorWeight);
     });
+    
+    it('should start from the given base weights', () => {
+      // SETUP
+      const analysis: QueryAnalysis = {
+        termCount: 1,
+        isSingleTerm: true,
+        wordnetTermCount: 2,
+        conceptTermCount: 0,
+        wordnetExpansionRatio: 2,
+        hasStrongConceptSignal: false,
+        wordnetBoostFactor: 2.0,
+        boostReason: 'boost'
+      };
+      const base: WeightProfile = {
+        vectorWeight: 0.60,
+        bm25Weight: 0.02,
+        titleWeight: 0.18,
+        conceptWeight: 0.10,
+        wordnetWeight: 0.10
+      };
+      
+      // EXERCISE
+      const weights = getAdjustedCatalogWeights(analysis, base);
+      
+      // VERIFY - bm25 cannot go negative
+      expect(weights.vectorWeight).toBe(0.60);
+      expect(weights.wordnetWeight).toBeCloseTo(0.20, 5);
+      expect(weights.bm25Weight).toBe(0);
+      expect(weights.titleWeight).toBeCloseTo(0.13, 5);
+    });
   });
   
   describe('getAdjustedChunkWeights', () => {
@@ -275,6 +307,28 @@ describe('Dynamic Weights', () => {
       // Chunk search can boost higher (up to 0.30)
       expect(weights.wordnetWeight).toBeLessThanOrEqual(0.30);
     });
+    
+    it('should return the given base weights when boost factor is 1.0', () => {
+      // SETUP
+      const analysis: QueryAnalysis = {
+        termCount: 3,
+        isSingleTerm: false,
+        wordnetTermCount: 3,
+        conceptTermCount: 3,
+        wordnetExpansionRatio: 1,
+        hasStrongConceptSignal: true,
+        wordnetBoostFactor: 1.0,
+        boostReason: 'standard'
+      };
+      const base = toWeightProfile({ vector: 0.5, bm25: 0.5, title: 0, concept: 0, wordnet: 0 });
+      
+      // EXERCISE
+      const weights = getAdjustedChunkWeights(analysis, base);
+      
+      // VERIFY
+      expect(weights).toEqual(base);
+      expect(weights).not.toBe(base);
+    });
   });
   
   describe('getAdjustedConceptWeights', () => {
@@ -389,6 +443,72 @@ describe('Dynamic Weights', () => {
     });
   });
   
+  describe('toWeightProfile', () => {
+    it('should map configured signal weights to a weight profile', () => {
+      const profile = toWeightProfile({ vector: 0.1, bm25: 0.2, title: 0.3, concept: 0.15, wordnet: 0.25 });
+      
+      expect(profile).toEqual({
+        vectorWeight: 0.1,
+        bm25Weight: 0.2,
+        titleWeight: 0.3,
+        conceptWeight: 0.15,
+        wordnetWeight: 0.25
+      });
+    });
+  });
+  
+  describe('applyWeightProfile', () => {
+    const sum = (weights: WeightProfile) => weights.vectorWeight + weights.bm25Weight +
+      weights.titleWeight + weights.conceptWeight + weights.wordnetWeight;
+    
+    it('should return a copy of the base weights for the default profile', () => {
+      // EXERCISE
+      const weights = applyWeightProfile(DEFAULT_WEIGHTS.catalog, 'default');
+      
+      // VERIFY
+      expect(weights).toEqual(DEFAULT_WEIGHTS.catalog);
+      expect(weights).not.toBe(DEFAULT_WEIGHTS.catalog);
+      expect(applyWeightProfile(DEFAULT_WEIGHTS.catalog)).toEqual(DEFAULT_WEIGHTS.catalog);
+    });
+    
+    it('should favour keyword and title signals for the precise profile', () => {
+      // EXERCISE
+      const weights = applyWeightProfile(DEFAULT_WEIGHTS.catalog, 'precise');
+      
+      // VERIFY
+      expect(weights.bm25Weight).toBeGreaterThan(DEFAULT_WEIGHTS.catalog.bm25Weight);
+      expect(weights.titleWeight).toBeGreaterThan(DEFAULT_WEIGHTS.catalog.titleWeight);
+      expect(weights.vectorWeight).toBeLessThan(DEFAULT_WEIGHTS.catalog.vectorWeight);
+      expect(weights.wordnetWeight).toBeLessThan(DEFAULT_WEIGHTS.catalog.wordnetWeight);
+      expect(sum(weights)).toBeCloseTo(1.0, 5);
+    });
+    
+    it('should favour semantic signals for the exploratory profile', () => {
+      // EXERCISE
+      const weights = applyWeightProfile(DEFAULT_WEIGHTS.chunk, 'exploratory');
+      
+      // VERIFY
+      expect(weights.vectorWeight).toBeGreaterThan(DEFAULT_WEIGHTS.chunk.vectorWeight);
+      expect(weights.conceptWeight).toBeGreaterThan(DEFAULT_WEIGHTS.chunk.conceptWeight);
+      expect(weights.wordnetWeight).toBeGreaterThan(DEFAULT_WEIGHTS.chunk.wordnetWeight);
+      expect(weights.bm25Weight).toBeLessThan(DEFAULT_WEIGHTS.chunk.bm25Weight);
+      expect(weights.titleWeight).toBe(0);
+      expect(sum(weights)).toBeCloseTo(1.0, 5);
+    });
+    
+    it('should preserve the total of unnormalized base weights', () => {
+      // SETUP
+      const base = toWeightProfile({ vector: 1, bm25: 1, title: 0, concept: 0, wordnet: 0 });
+      
+      // EXERCISE
+      const weights = applyWeightProfile(base, 'precise');
+      
+      // VERIFY
+      expect(sum(weights)).toBeCloseTo(2.0, 5);
+      expect(weights.bm25Weight).toBeCloseTo(2 * 1.5 / 2.25, 5);
+    });
+  });
+  
   describe('weight sum validation', () => {
     it('should ensure default catalog weights sum to 1.0', () => {
       const weights = DEFAULT_WEIGHTS.catalog;
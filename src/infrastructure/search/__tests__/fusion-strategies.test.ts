@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for Fusion Strategies
+ * 
+ * Tests weighted-sum and Reciprocal Rank Fusion of hybrid search signals,
+ * including per-signal ranking.
+ * 
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  WeightedSumFusion,
+  ReciprocalRankFusion,
+  createFusionStrategy
+} from '../fusion-strategies.js';
+import { calculateDynamicHybridScore, DEFAULT_WEIGHTS } from '../dynamic-weights.js';
+import type { ScoreComponents } from '../scoring-strategies.js';
+
+function components(overrides: Partial<ScoreComponents>): ScoreComponents {
+  return { vectorScore: 0, bm25Score: 0, titleScore: 0, conceptScore: 0, wordnetScore: 0, ...overrides };
+}
+
+describe('Fusion Strategies', () => {
+  describe('WeightedSumFusion', () => {
+    it('should match the dynamic weighted sum', () => {
+      // SETUP
+      const candidate = components({ vectorScore: 0.8, bm25Score: 0.5, conceptScore: 0.3, wordnetScore: 0.1 });
+
+      // EXERCISE
+      const [fused] = new WeightedSumFusion().fuse([candidate], DEFAULT_WEIGHTS.chunk);
+
+      // VERIFY
+      expect(fused.score).toBeCloseTo(calculateDynamicHybridScore(candidate, DEFAULT_WEIGHTS.chunk), 10);
+    });
+
+    it('should rank each signal with shared ranks for ties and none for zero scores', () => {
+      // SETUP
+      const candidates = [
+        components({ vectorScore: 0.9, bm25Score: 0.4 }),
+        components({ vectorScore: 0.7, bm25Score: 0.4 }),
+        components({ vectorScore: 0.9 })
+      ];
+
+      // EXERCISE
+      const fused = new WeightedSumFusion().fuse(candidates, DEFAULT_WEIGHTS.chunk);
+
+      // VERIFY
+      expect(fused.map(f => f.ranks.vector)).toEqual([1, 3, 1]);
+      expect(fused.map(f => f.ranks.bm25)).toEqual([1, 1, undefined]);
+      expect(fused[0].ranks.title).toBeUndefined();
+    });
+  });
+
+  describe('ReciprocalRankFusion', () => {
+    it('should score 1.0 for the top candidate of every weighted signal', () => {
+      // SETUP
+      const candidates = [
+        components({ vectorScore: 0.9, bm25Score: 0.9, titleScore: 0.9, conceptScore: 0.9, wordnetScore: 0.9 }),
+        components({ vectorScore: 0.1, bm25Score: 0.1, titleScore: 0.1, conceptScore: 0.1, wordnetScore: 0.1 })
+      ];
+
+      // EXERCISE
+      const fused = new ReciprocalRankFusion().fuse(candidates, DEFAULT_WEIGHTS.catalog);
+
+      // VERIFY
+      expect(fused[0].score).toBeCloseTo(1.0, 10);
+      expect(fused[1].score).toBeCloseTo(61 / 62, 10);
+    });
+
+    it('should not let one signal with a large score swing dominate', () => {
+      // SETUP - "spiky" wins BM25 by a wide margin, "balanced" wins every other signal narrowly
+      const weights = { vectorWeight: 0.25, bm25Weight: 0.25, titleWeight: 0, conceptWeight: 0.25, wordnetWeight: 0.25 };
+      const spiky = components({ vectorScore: 0.50, bm25Score: 1.0, conceptScore: 0.10, wordnetScore: 0.10 });
+      const balanced = components({ vectorScore: 0.52, bm25Score: 0.1, conceptScore: 0.15, wordnetScore: 0.15 });
+
+      // EXERCISE
+      const weighted = new WeightedSumFusion().fuse([spiky, balanced], weights);
+      const rrf = new ReciprocalRankFusion().fuse([spiky, balanced], weights);
+
+      // VERIFY
+      expect(weighted[0].score).toBeGreaterThan(weighted[1].score);
+      expect(rrf[1].score).toBeGreaterThan(rrf[0].score);
+    });
+
+    it('should flatten rank differences with a larger k', () => {
+      // SETUP
+      const candidates = [components({ vectorScore: 0.9 }), components({ vectorScore: 0.5 })];
+      const weights = { ...DEFAULT_WEIGHTS.chunk };
+
+      // EXERCISE
+      const sharp = new ReciprocalRankFusion(1).fuse(candidates, weights);
+      const flat = new ReciprocalRankFusion(1000).fuse(candidates, weights);
+
+      // VERIFY
+      expect(sharp[0].score - sharp[1].score).toBeGreaterThan(flat[0].score - flat[1].score);
+    });
+  });
+
+  describe('createFusionStrategy', () => {
+    it('should create the strategy for each mode', () => {
+      expect(createFusionStrategy('weighted').mode).toBe('weighted');
+      expect(createFusionStrategy('rrf', { rrfK: 10 })).toBeInstanceOf(ReciprocalRankFusion);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for LlmReranker
+ *
+ * Runs against a local HTTP stand-in for an OpenAI-compatible
+ * `/chat/completions` endpoint.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { LlmReranker } from '../llm-reranker.js';
+import { ResilientExecutor } from '../../resilience/resilient-executor.js';
+import { RetryService } from '../../utils/retry-service.js';
+import { MissingConfigError, RerankError } from '../../../domain/exceptions/index.js';
+
+interface RecordedRequest {
+  url?: string;
+  authorization?: string;
+  body: { model: string; messages: Array<{ role: string; content: string }> };
+}
+
+/** Pass-through executor avoids retry delays where one attempt shows the behaviour */
+const passThrough = { execute: (op: () => Promise<unknown>) => op() } as unknown as ResilientExecutor;
+
+describe('LlmReranker', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let content: string;
+  let responder: (res: http.ServerResponse) => void;
+
+  const defaultResponder = (res: http.ServerResponse) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }));
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url, authorization: req.headers.authorization, body: JSON.parse(raw) });
+        responder(res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    content = '[2, 9]';
+    responder = defaultResponder;
+  });
+
+  const createReranker = (executor: ResilientExecutor = passThrough, maxDocumentChars?: number) =>
+    new LlmReranker({ baseUrl, apiKey: 'secret', model: 'test-model', maxDocumentChars }, executor);
+
+  it('should grade all passages in one chat completion request', async () => {
+    // SETUP
+    const reranker = createReranker();
+
+    // EXERCISE
+    const scores = await reranker.rerank('raft consensus', ['Paxos made simple', 'Raft consensus explained']);
+
+    // VERIFY
+    expect(scores).toEqual([2, 9]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].authorization).toBe('Bearer secret');
+    expect(requests[0].body.model).toBe('test-model');
+    const prompt = requests[0].body.messages[0].content;
+    expect(prompt).toContain('Query: raft consensus');
+    expect(prompt).toContain('[1] Paxos made simple');
+    expect(prompt).toContain('[2] Raft consensus explained');
+  });
+
+  it('should tolerate code fences around the grades', async () => {
+    content = 'Here are the grades:\n```json\n[0, 10]\n```';
+    const reranker = createReranker();
+
+    expect(await reranker.rerank('q', ['a', 'b'])).toEqual([0, 10]);
+  });
+
+  it('should truncate long passages', async () => {
+    const reranker = createReranker(passThrough, 10);
+
+    await reranker.rerank('q', ['0123456789abcdef', 'short']);
+
+    const prompt = requests[0].body.messages[0].content;
+    expect(prompt).toContain('[1] 0123456789\n');
+    expect(prompt).not.toContain('abcdef');
+  });
+
+  it('should reject a response without one grade per passage', async () => {
+    content = '[7]';
+    const reranker = createReranker();
+
+    await expect(reranker.rerank('q', ['a', 'b'])).rejects.toThrow(RerankError);
+  });
+
+  it('should surface API errors as RerankError', async () => {
+    responder = res => {
+      res.writeHead(401);
+      res.end('invalid key');
+    };
+    const reranker = createReranker();
+
+    const error = await reranker.rerank('q', ['a', 'b']).catch(e => e);
+
+    expect(error).toBeInstanceOf(RerankError);
+    expect(error.message).toContain('401');
+  });
+
+  it('should retry transient failures through the resilient executor', async () => {
+    let calls = 0;
+    responder = res => {
+      if (calls++ === 0) {
+        res.writeHead(503);
+        res.end('busy');
+        return;
+      }
+      defaultResponder(res);
+    };
+    const reranker = createReranker(new ResilientExecutor(new RetryService()));
+
+    const scores = await reranker.rerank('q', ['a', 'b']);
+
+    expect(scores).toEqual([2, 9]);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should not call the API for no documents', async () => {
+    expect(await createReranker().rerank('q', [])).toEqual([]);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should require an API key', () => {
+    expect(() => new LlmReranker({ baseUrl, model: 'test-model' })).toThrow(MissingConfigError);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Passage Matching
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { alignPassage, passageShingles } from '../passage-matching.js';
+
+const chunk = 'The single responsibility principle states that a module should have one, ' +
+  'and only one, reason to change. Robert Martin later rephrased it: a module should be ' +
+  'responsible to one, and only one, actor. Gather together the things that change for the same reasons.';
+
+describe('passageShingles', () => {
+  it('should shingle the same terms alike regardless of case, punctuation, stop words and inflection', () => {
+    // EXERCISE & VERIFY
+    expect(passageShingles('Gather together the things that change for the same reasons'))
+      .toEqual(passageShingles('gathering together THE thing, that changes, for a same reason!'));
+  });
+
+  it('should share every shingle of a quote with the quoted text', () => {
+    // SETUP
+    const quote = 'a module should have one, and only one, reason to change';
+
+    // EXERCISE
+    const chunkShingles = new Set(passageShingles(chunk));
+    const quoteShingles = passageShingles(quote);
+
+    // VERIFY
+    expect(quoteShingles.length).toBeGreaterThan(0);
+    expect(quoteShingles.every(shingle => chunkShingles.has(shingle))).toBe(true);
+  });
+
+  it('should return each shingle once', () => {
+    // EXERCISE
+    const shingles = passageShingles('one reason to change, one reason to change');
+
+    // VERIFY
+    expect(new Set(shingles).size).toBe(shingles.length);
+  });
+
+  it('should not shingle texts shorter than a shingle', () => {
+    // EXERCISE & VERIFY
+    expect(passageShingles('one reason')).toEqual([]);
+    expect(passageShingles('')).toEqual([]);
+  });
+});
+
+describe('alignPassage', () => {
+  it('should locate an exact quote with its offsets', () => {
+    // SETUP
+    const quote = 'a module should have one, and only one, reason to change';
+
+    // EXERCISE
+    const alignment = alignPassage(quote, chunk);
+
+    // VERIFY
+    expect(alignment).toBeDefined();
+    expect(chunk.slice(alignment!.start, alignment!.end)).toBe(quote);
+    expect(alignment).toMatchObject({ passageStart: 0, passageEnd: quote.length, matchedWords: 11, coverage: 1, exact: true });
+  });
+
+  it('should align a paraphrase with changed and missing words', () => {
+    // SETUP
+    const paraphrase = 'Martin rephrased this: modules should be responsible to exactly one actor';
+
+    // EXERCISE
+    const alignment = alignPassage(paraphrase, chunk);
+
+    // VERIFY
+    expect(alignment).toBeDefined();
+    expect(chunk.slice(alignment!.start, alignment!.end)).toBe('Martin later rephrased it: a module should be responsible to one');
+    expect(alignment!.exact).toBe(false);
+    expect(alignment!.coverage).toBeGreaterThan(0.7);
+    expect(alignment!.coverage).toBeLessThan(1);
+  });
+
+  it('should report the aligned part of a longer passage', () => {
+    // SETUP
+    const passage = 'Unrelated introduction. Gather together the things that change for the same reasons';
+
+    // EXERCISE
+    const alignment = alignPassage(passage, chunk);
+
+    // VERIFY
+    expect(passage.slice(alignment!.passageStart, alignment!.passageEnd)).toBe('Gather together the things that change for the same reasons');
+    expect(alignment!.coverage).toBeCloseTo(10 / 12);
+  });
+
+  it('should return undefined when no word matches', () => {
+    // EXERCISE & VERIFY
+    expect(alignPassage('quantum chromodynamics', chunk)).toBeUndefined();
+    expect(alignPassage('', chunk)).toBeUndefined();
+  });
+});
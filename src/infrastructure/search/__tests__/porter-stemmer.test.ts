@@ -0,0 +1,68 @@
+/**
+ * Unit Tests for the Porter Stemmer
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { porterStem } from '../porter-stemmer.js';
+
+describe('porterStem', () => {
+  it('should reduce inflected forms to a common stem', () => {
+    // EXERCISE & VERIFY
+    expect(porterStem('architecture')).toBe(porterStem('architectures'));
+    expect(porterStem('microservice')).toBe(porterStem('microservices'));
+    expect(porterStem('connect')).toBe('connect');
+    expect(porterStem('connected')).toBe('connect');
+    expect(porterStem('connecting')).toBe('connect');
+    expect(porterStem('connection')).toBe('connect');
+    expect(porterStem('connections')).toBe('connect');
+  });
+
+  it('should keep unrelated words apart', () => {
+    // EXERCISE & VERIFY
+    expect(porterStem('war')).not.toBe(porterStem('warfare'));
+    expect(porterStem('soft')).not.toBe(porterStem('software'));
+  });
+
+  it('should match the reference stems of the original algorithm', () => {
+    // SETUP
+    const reference: Record<string, string> = {
+      caresses: 'caress',
+      ponies: 'poni',
+      cats: 'cat',
+      feed: 'feed',
+      agreed: 'agre',
+      plastered: 'plaster',
+      motoring: 'motor',
+      hopping: 'hop',
+      filing: 'file',
+      happy: 'happi',
+      relational: 'relat',
+      conditional: 'condit',
+      digitizer: 'digit',
+      generalization: 'gener',
+      hopefulness: 'hope',
+      triplicate: 'triplic',
+      electricity: 'electr',
+      adjustment: 'adjust',
+      adoption: 'adopt',
+      controlling: 'control',
+      generalizations: 'gener',
+      youth: 'youth',
+      yelling: 'yell'
+    };
+
+    // EXERCISE & VERIFY
+    for (const [word, stem] of Object.entries(reference)) {
+      expect(porterStem(word), word).toBe(stem);
+    }
+  });
+
+  it('should return short words and words with other characters unchanged', () => {
+    // EXERCISE & VERIFY
+    expect(porterStem('is')).toBe('is');
+    expect(porterStem('http2')).toBe('http2');
+    expect(porterStem('réseaux')).toBe('réseaux');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit Tests for the reranker factory
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createReranker } from '../reranker-factory.js';
+import { LlmReranker } from '../llm-reranker.js';
+import type { LLMConfig, RerankConfig } from '../../../application/config/types.js';
+import { InvalidConfigError } from '../../../domain/exceptions/index.js';
+
+const LLM_CONFIG: LLMConfig = {
+  baseUrl: 'https://openrouter.ai/api/v1',
+  apiKey: 'llm-key',
+  summaryModel: 'summary-model',
+  conceptModel: 'concept-model'
+};
+
+function rerankConfig(overrides: Partial<RerankConfig> = {}): RerankConfig {
+  return { provider: 'none', topK: 30, ...overrides };
+}
+
+describe('createReranker', () => {
+  it('should return no reranker when disabled', () => {
+    expect(createReranker(rerankConfig(), LLM_CONFIG)).toBeUndefined();
+  });
+
+  it('should default the LLM reranker to the LLM settings', () => {
+    const reranker = createReranker(rerankConfig({ provider: 'llm' }), LLM_CONFIG);
+
+    expect(reranker).toBeInstanceOf(LlmReranker);
+    expect(reranker!.name).toBe('llm:summary-model');
+  });
+
+  it('should prefer the rerank model', () => {
+    const reranker = createReranker(rerankConfig({ provider: 'llm', model: 'rerank-model' }), LLM_CONFIG);
+
+    expect(reranker!.name).toBe('llm:rerank-model');
+  });
+
+  it('should validate the cross-encoder model directory', () => {
+    const config = rerankConfig({ provider: 'cross-encoder', modelPath: '/nonexistent/cross-encoder' });
+
+    expect(() => createReranker(config, LLM_CONFIG)).toThrow(InvalidConfigError);
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createReranker(rerankConfig({ provider: 'colbert' }), LLM_CONFIG)).toThrow('RERANK_PROVIDER');
+  });
+});
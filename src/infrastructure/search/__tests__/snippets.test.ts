@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for Search Result Snippets
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractSnippet, highlightSnippet } from '../snippets.js';
+import type { MatchSpan } from '../../../domain/models/index.js';
+
+/** Spans of every occurrence of `term` in `text` */
+function spansOf(text: string, term: string, kind: MatchSpan['kind'] = 'original'): MatchSpan[] {
+  const spans: MatchSpan[] = [];
+  for (let i = text.indexOf(term); i !== -1; i = text.indexOf(term, i + term.length)) {
+    spans.push({ start: i, end: i + term.length, term, kind });
+  }
+  return spans;
+}
+
+describe('extractSnippet', () => {
+  const filler = 'lorem ipsum dolor sit amet '.repeat(8);
+  const text = `${filler}the consensus protocol elects a leader ${filler}`;
+
+  it('should return short texts whole', () => {
+    // SETUP
+    const spans = spansOf('a leader', 'leader');
+
+    // EXERCISE
+    const snippet = extractSnippet('a leader', spans);
+
+    // VERIFY
+    expect(snippet).toEqual({ text: 'a leader', start: 0, end: 8, spans });
+  });
+
+  it('should select the window around the matches, trimmed to words', () => {
+    // SETUP
+    const spans = [...spansOf(text, 'consensus'), ...spansOf(text, 'leader')].sort((a, b) => a.start - b.start);
+
+    // EXERCISE
+    const snippet = extractSnippet(text, spans, 80);
+
+    // VERIFY
+    expect(snippet.text.length).toBeLessThanOrEqual(80);
+    expect(snippet.text).toMatch(/^\S.*\S$/);
+    expect(snippet.spans.map(s => snippet.text.slice(s.start, s.end))).toEqual(['consensus', 'leader']);
+    expect(text.slice(snippet.start, snippet.end)).toBe(snippet.text);
+  });
+
+  it('should prefer windows with more relevant distinct terms', () => {
+    // SETUP
+    const twoTerms = `paxos ${filler}${filler}raft consensus`;
+    const spans = [
+      ...spansOf(twoTerms, 'paxos', 'wordnet'),
+      ...spansOf(twoTerms, 'raft'),
+      ...spansOf(twoTerms, 'consensus')
+    ].sort((a, b) => a.start - b.start);
+
+    // EXERCISE
+    const snippet = extractSnippet(twoTerms, spans, 60);
+
+    // VERIFY
+    expect(snippet.text.endsWith('raft consensus')).toBe(true);
+  });
+
+  it('should start at the beginning without matches', () => {
+    expect(extractSnippet(text, [], 40).start).toBe(0);
+  });
+});
+
+describe('highlightSnippet', () => {
+  it('should bold matches, collapse whitespace and mark truncation', () => {
+    // SETUP
+    const snippet = { text: 'elects\na  leader', start: 10, end: 26, spans: spansOf('elects\na  leader', 'leader') };
+
+    // EXERCISE
+    const rendered = highlightSnippet(snippet, 40);
+
+    // VERIFY
+    expect(rendered).toBe('…elects a **leader**…');
+  });
+
+  it('should not mark ends of the full text', () => {
+    expect(highlightSnippet({ text: 'a leader', start: 0, end: 8, spans: [] }, 8)).toBe('a leader');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit Tests for Corpus-Aware Spelling Correction
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SpellingCorrector, addSpellingAlternatives, applySpellingCorrections, editDistance } from '../spelling-corrector.js';
+import { parseQuery } from '../../../domain/services/query-parser.js';
+
+const vocabulary = new Map([
+  ['microservice', 40],
+  ['microservices', 25],
+  ['idempotency', 12],
+  ['consensus', 30],
+  ['consistency', 18],
+  ['raft', 9],
+  ['rafts', 1],
+  ['saga', 7]
+]);
+
+describe('editDistance', () => {
+  it('should count insertions, deletions, substitutions and transpositions as one edit', () => {
+    // EXERCISE & VERIFY
+    expect(editDistance('saga', 'saga')).toBe(0);
+    expect(editDistance('sag', 'saga')).toBe(1);
+    expect(editDistance('sagas', 'saga')).toBe(1);
+    expect(editDistance('sage', 'saga')).toBe(1);
+    expect(editDistance('sgaa', 'saga')).toBe(1);
+    expect(editDistance('consnesus', 'consensus')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+  });
+
+  it('should stop at the limit', () => {
+    // EXERCISE & VERIFY
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+  });
+});
+
+describe('SpellingCorrector', () => {
+  const corrector = new SpellingCorrector(vocabulary);
+
+  describe('lookup', () => {
+    it('should find a known term at distance 0', () => {
+      // EXERCISE & VERIFY
+      expect(corrector.lookup('consensus')).toEqual({ term: 'consensus', distance: 0, frequency: 30 });
+    });
+
+    it('should find the closest term within two edits', () => {
+      // EXERCISE & VERIFY
+      expect(corrector.lookup('idempotancy')).toEqual({ term: 'idempotency', distance: 1, frequency: 12 });
+      expect(corrector.lookup('idmpotancy')).toEqual({ term: 'idempotency', distance: 2, frequency: 12 });
+      expect(corrector.lookup('concsensus')?.term).toBe('consensus');
+    });
+
+    it('should prefer the more frequent of equally close terms', () => {
+      // EXERCISE & VERIFY
+      // 'microservise' is one edit from 'microservice' (40) and two from 'microservices' (25)
+      expect(corrector.lookup('microservise')?.term).toBe('microservice');
+      // 'raftt' is one edit from both 'raft' (9) and 'rafts' (1)
+      expect(corrector.lookup('raftt')?.term).toBe('raft');
+    });
+
+    it('should find nothing beyond the maximum distance', () => {
+      // EXERCISE & VERIFY
+      expect(corrector.lookup('blockchain')).toBeUndefined();
+      expect(corrector.lookup('idmpotncy', 1)).toBeUndefined();
+    });
+  });
+
+  describe('correct', () => {
+    it('should correct unknown terms', () => {
+      // EXERCISE & VERIFY
+      expect(corrector.correct('idempotancy')).toEqual({ term: 'idempotancy', correction: 'idempotency', distance: 1 });
+    });
+
+    it('should keep known, short, numeric and unmatched terms', () => {
+      // EXERCISE & VERIFY
+      expect(corrector.correct('consensus')).toBeUndefined();
+      expect(corrector.correct('rft')).toBeUndefined();
+      expect(corrector.correct('raft2')).toBeUndefined();
+      expect(corrector.correct('blockchain')).toBeUndefined();
+    });
+
+    it('should correct terms of up to five characters by a single edit only', () => {
+      // EXERCISE & VERIFY
+      expect(corrector.correct('sgaa')?.correction).toBe('saga');
+      expect(corrector.correct('sgae')).toBeUndefined();
+    });
+  });
+
+  it('should know rare terms without suggesting them', () => {
+    // SETUP
+    const rareAware = new SpellingCorrector(vocabulary, { minFrequency: 2 });
+
+    // EXERCISE & VERIFY
+    expect(rareAware.correct('rafts')).toBeUndefined();
+    expect(rareAware.lookup('raftz')?.term).toBe('raft');
+    expect(rareAware.lookup('rafts')).toEqual({ term: 'rafts', distance: 0, frequency: 1 });
+  });
+
+  it('should report the vocabulary size and membership', () => {
+    // EXERCISE & VERIFY
+    expect(corrector.size).toBe(8);
+    expect(corrector.has('saga')).toBe(true);
+    expect(corrector.has('sagas')).toBe(false);
+  });
+});
+
+describe('applySpellingCorrections', () => {
+  it('should replace whole words case-insensitively and keep the query syntax', () => {
+    // SETUP
+    const corrections = [{ term: 'idempotancy', correction: 'idempotency', distance: 1 }];
+
+    // EXERCISE
+    const corrected = applySpellingCorrections('Idempotancy +idempotancy -idempotancyx author:fowler', corrections);
+
+    // VERIFY
+    expect(corrected).toBe('idempotency +idempotency -idempotancyx author:fowler');
+  });
+
+  it('should keep phrases, excluded terms and field values as typed', () => {
+    // SETUP
+    const corrections = [{ term: 'idempotancy', correction: 'idempotency', distance: 1 }];
+
+    // EXERCISE
+    const corrected = applySpellingCorrections('idempotancy "idempotancy keys" -idempotancy title:idempotancy', corrections);
+
+    // VERIFY
+    expect(corrected).toBe('idempotency "idempotancy keys" -idempotancy title:idempotancy');
+  });
+
+  it('should return the text unchanged without corrections', () => {
+    // EXERCISE & VERIFY
+    expect(applySpellingCorrections('consensus')).toBe('consensus');
+  });
+});
+
+describe('addSpellingAlternatives', () => {
+  const corrections = [{ term: 'idempotancy', correction: 'idempotency', distance: 1 }];
+
+  it('should add the correction as an alternative to the loose term as typed', () => {
+    // EXERCISE
+    const query = addSpellingAlternatives(parseQuery('+idempotancy keys'), corrections);
+
+    // VERIFY
+    expect(query.clauses[0]).toEqual({
+      occur: 'must',
+      node: {
+        type: 'or',
+        operands: [
+          { type: 'term', text: 'idempotancy', words: ['idempotancy'] },
+          { type: 'term', text: 'idempotency', words: ['idempotency'] }
+        ]
+      }
+    });
+    expect(query.clauses[1]).toEqual(parseQuery('keys').clauses[0]);
+  });
+
+  it('should leave phrases, excluded terms and field values alone', () => {
+    // SETUP
+    const parsed = parseQuery('"idempotancy keys" -idempotancy title:idempotancy');
+
+    // EXERCISE & VERIFY
+    expect(addSpellingAlternatives(parsed, corrections)).toEqual(parsed);
+  });
+});
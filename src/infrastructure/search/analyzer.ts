@@ -0,0 +1,185 @@
+/**
+ * Text Analyzer
+ *
+ * The tokenization shared by keyword scoring, match highlighting, query
+ * expansion, concept-to-chunk matching and lexical concept linking, so all
+ * of them agree on what a word is and when two words match:
+ *
+ * 1. **Tokenize**: lowercase runs of letters and digits ("Event-Driven" →
+ *    "event", "driven")
+ * 2. **Stop words**: common English function words are dropped
+ * 3. **Stem**: the Porter stemmer reduces inflections to a common stem
+ *    ("architectures" → "architectur", "warfare" → "warfar", "war" → "war")
+ *
+ * Two words match when their stems are equal, which finds plural and
+ * inflected forms without the false positives of prefix and substring
+ * matching ("war" no longer matches "warfare" or "software"). Multi-word
+ * terms match a contiguous run of stems.
+ */
+
+import { porterStem } from './porter-stemmer.js';
+
+/**
+ * Common English function words, ignored when matching.
+ */
+export const STOP_WORDS: ReadonlySet<string> = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are',
+  'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from',
+  'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him',
+  'himself', 'his', 'how', 'however', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just',
+  'may', 'me', 'might', 'more', 'most', 'must', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of',
+  'off', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over',
+  'own', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs',
+  'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too',
+  'under', 'until', 'up', 'upon', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'within', 'without', 'would', 'you',
+  'your', 'yours', 'yourself', 'yourselves'
+]);
+
+/**
+ * A stemmed word of a text with its position.
+ */
+export interface AnalyzedToken {
+  /** Stem of the word */
+  term: string;
+
+  /** Offset of the word's first character */
+  start: number;
+
+  /** Offset after the word's last character */
+  end: number;
+}
+
+/** Memoized stems (texts repeat the same words; bounded to keep memory flat) */
+const stemCache = new Map<string, string>();
+const STEM_CACHE_SIZE = 50000;
+
+/** Memoized analysis of short texts (query terms, titles, concept names) */
+const analysisCache = new Map<string, readonly string[]>();
+const ANALYSIS_CACHE_SIZE = 10000;
+const CACHED_TEXT_LENGTH = 200;
+
+/**
+ * Split text into lowercase word tokens (runs of letters and digits).
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Whether a lowercase word is a stop word.
+ */
+export function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word);
+}
+
+/**
+ * Stem a lowercase word with the Porter stemmer.
+ */
+export function stem(word: string): string {
+  let stemmed = stemCache.get(word);
+  if (stemmed === undefined) {
+    if (stemCache.size >= STEM_CACHE_SIZE) {
+      stemCache.clear();
+    }
+    stemmed = porterStem(word);
+    stemCache.set(word, stemmed);
+  }
+  return stemmed;
+}
+
+/**
+ * Analyze text into stemmed tokens with their positions, without stop words.
+ *
+ * @param text - Text to analyze
+ * @returns Tokens in text order
+ */
+export function analyzeTokens(text: string): AnalyzedToken[] {
+  const tokens: AnalyzedToken[] = [];
+  for (const match of text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (isStopWord(match[0])) continue;
+    tokens.push({ term: stem(match[0]), start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Analyze text into stems, without stop words.
+ *
+ * @param text - Text to analyze
+ * @returns Stems in text order (shared for short texts: do not modify)
+ */
+export function analyze(text: string): readonly string[] {
+  if (text.length > CACHED_TEXT_LENGTH) {
+    return analyzeTokens(text).map(token => token.term);
+  }
+  let stems = analysisCache.get(text);
+  if (stems === undefined) {
+    if (analysisCache.size >= ANALYSIS_CACHE_SIZE) {
+      analysisCache.clear();
+    }
+    stems = analyzeTokens(text).map(token => token.term);
+    analysisCache.set(text, stems);
+  }
+  return stems;
+}
+
+/**
+ * Positions where `needle` occurs as a contiguous run of `stems`.
+ *
+ * @param stems - Analyzed text
+ * @param needle - Analyzed term (empty never matches)
+ * @returns Start indexes of the occurrences
+ */
+export function findStemSequence(stems: readonly string[], needle: readonly string[]): number[] {
+  const positions: number[] = [];
+  if (needle.length === 0) {
+    return positions;
+  }
+  for (let i = 0; i + needle.length <= stems.length; i++) {
+    if (matchesAt(stems, needle, i)) {
+      positions.push(i);
+    }
+  }
+  return positions;
+}
+
+/**
+ * Whether `needle` occurs as a contiguous run of `stems`.
+ */
+export function containsStemSequence(stems: readonly string[], needle: readonly string[]): boolean {
+  if (needle.length === 0) {
+    return false;
+  }
+  for (let i = 0; i + needle.length <= stems.length; i++) {
+    if (matchesAt(stems, needle, i)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether one of two texts contains the other, compared as stems
+ * ("design patterns" and "pattern" match; "software" and "war" do not).
+ */
+export function termsOverlap(a: string, b: string): boolean {
+  return stemsOverlap(analyze(a), analyze(b));
+}
+
+/**
+ * Whether one of two analyzed texts contains the other.
+ */
+export function stemsOverlap(a: readonly string[], b: readonly string[]): boolean {
+  return a.length >= b.length ? containsStemSequence(a, b) : containsStemSequence(b, a);
+}
+
+function matchesAt(stems: readonly string[], needle: readonly string[], start: number): boolean {
+  for (let j = 0; j < needle.length; j++) {
+    if (stems[start + j] !== needle[j]) {
+      return false;
+    }
+  }
+  return true;
+}
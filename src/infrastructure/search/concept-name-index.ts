@@ -0,0 +1,178 @@
+/**
+ * Concept Name Index
+ *
+ * In-memory lookup of concepts by their names and synonyms, for concept
+ * discovery when the exact name is not known:
+ *
+ * 1. **Prefix**: names and synonyms starting with the query ("dependency inj"
+ *    → "dependency injection"), shortest first
+ * 2. **Terms**: names and synonyms containing the query's words, compared as
+ *    stems ("injected dependencies" → "dependency injection")
+ * 3. **Fuzzy**: misspelled query words are corrected to the closest word of
+ *    the names and synonyms ("dependancy" → "dependency") before matching terms
+ *
+ * Vector similarity and summary matching are left to the concepts table.
+ */
+
+import { analyze, isStopWord, tokenize } from './analyzer.js';
+import { SpellingCorrector } from './spelling-corrector.js';
+
+/**
+ * A concept as indexed: its ID, name and synonyms.
+ */
+export interface ConceptNameEntry {
+  /** Concept ID (hash-based) */
+  id: number;
+
+  /** Concept name */
+  name: string;
+
+  /** Alternative names of the concept */
+  synonyms: readonly string[];
+}
+
+/** A name or synonym of the concept at `entry` */
+interface IndexedName {
+  text: string;
+  entry: number;
+}
+
+/**
+ * Index of concept names and synonyms for prefix, term and fuzzy lookup.
+ */
+export class ConceptNameIndex {
+  private readonly entries: ConceptNameEntry[];
+
+  /** Lowercase names and synonyms, sorted for prefix search */
+  private readonly names: IndexedName[] = [];
+
+  /** Stem → entries whose name or a synonym contains it */
+  private readonly stems = new Map<string, Set<number>>();
+
+  /** Corrects query words to words of the names and synonyms */
+  private readonly corrector: SpellingCorrector;
+
+  /**
+   * @param entries - Concepts to index (names and synonyms in any case)
+   */
+  constructor(entries: readonly ConceptNameEntry[]) {
+    this.entries = [...entries];
+    const words = new Map<string, number>();
+
+    this.entries.forEach((entry, index) => {
+      for (const name of [entry.name, ...entry.synonyms]) {
+        const text = name.toLowerCase().trim();
+        if (!text) continue;
+        this.names.push({ text, entry: index });
+        for (const term of analyze(text)) {
+          const indexes = this.stems.get(term);
+          if (indexes) {
+            indexes.add(index);
+          } else {
+            this.stems.set(term, new Set([index]));
+          }
+        }
+        for (const word of tokenize(text)) {
+          words.set(word, (words.get(word) ?? 0) + 1);
+        }
+      }
+    });
+
+    this.names.sort((a, b) => (a.text < b.text ? -1 : a.text > b.text ? 1 : 0));
+    this.corrector = new SpellingCorrector(words);
+  }
+
+  /** Number of indexed concepts */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Concepts whose name or a synonym starts with the text.
+   *
+   * @param text - Query text
+   * @param limit - Maximum concepts to return
+   * @returns Concept IDs, shortest matching name first
+   */
+  findByPrefix(text: string, limit: number): number[] {
+    const prefix = text.toLowerCase().trim();
+    if (!prefix) {
+      return [];
+    }
+
+    const matches: IndexedName[] = [];
+    for (let i = this.lowerBound(prefix); i < this.names.length && this.names[i].text.startsWith(prefix); i++) {
+      matches.push(this.names[i]);
+    }
+    matches.sort((a, b) => a.text.length - b.text.length);
+    return this.toIds(matches.map(match => match.entry), limit);
+  }
+
+  /**
+   * Concepts whose name or synonyms contain the words.
+   *
+   * @param words - Lowercase query words (stop words are ignored)
+   * @param limit - Maximum concepts to return
+   * @returns Concept IDs, most words matched first, then shortest name
+   */
+  findByTerms(words: readonly string[], limit: number): number[] {
+    const counts = new Map<number, number>();
+    for (const term of new Set(words.flatMap(word => analyze(word)))) {
+      for (const index of this.stems.get(term) ?? []) {
+        counts.set(index, (counts.get(index) ?? 0) + 1);
+      }
+    }
+
+    const ranked = Array.from(counts).sort(([a, countA], [b, countB]) =>
+      countB - countA || this.entries[a].name.length - this.entries[b].name.length
+    );
+    return this.toIds(ranked.map(([index]) => index), limit);
+  }
+
+  /**
+   * Replace misspelled words with the closest word of the indexed names and
+   * synonyms.
+   *
+   * Words that already match a name (as written or by stem), stop words and
+   * words without a close enough name word are kept.
+   *
+   * @param words - Lowercase query words
+   * @returns The words, corrected (same order and length)
+   */
+  correctTerms(words: readonly string[]): string[] {
+    return words.map(word => {
+      if (isStopWord(word) || analyze(word).some(term => this.stems.has(term))) {
+        return word;
+      }
+      return this.corrector.correct(word)?.correction ?? word;
+    });
+  }
+
+  /** First position of the sorted names not before `prefix` */
+  private lowerBound(prefix: string): number {
+    let low = 0;
+    let high = this.names.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.names[middle].text < prefix) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /** IDs of the entries, each once, up to the limit */
+  private toIds(indexes: number[], limit: number): number[] {
+    const ids: number[] = [];
+    const seen = new Set<number>();
+    for (const index of indexes) {
+      if (ids.length >= limit) break;
+      if (seen.has(index)) continue;
+      seen.add(index);
+      ids.push(this.entries[index].id);
+    }
+    return ids;
+  }
+}
@@ -1,33 +1,98 @@
-import { HybridSearchService, SearchableCollection, HybridSearchOptions, VectorSearchOptions } from '../../domain/interfaces/services/hybrid-search-service.js';
+import { HybridSearchService, SearchableCollection, HybridSearchOptions, VectorSearchOptions, FusionMode } from '../../domain/interfaces/services/hybrid-search-service.js';
 import { EmbeddingService } from '../../domain/interfaces/services/embedding-service.js';
-import { SearchResult } from '../../domain/models/search-result.js';
+import type { Reranker } from '../../domain/interfaces/services/reranker.js';
+import type { CandidateSearchResults, MatchTermKind, SearchResult } from '../../domain/models/search-result.js';
+import type {
+  ExplainedCandidate,
+  ExplainedTerm,
+  SearchExplanation,
+  SignalWeightBreakdown
+} from '../../domain/models/search-explanation.js';
+import type { ParsedQuery, QueryOperand } from '../../domain/models/parsed-query.js';
+import {
+  clauseOperands,
+  isFieldRestriction,
+  isPlainQuery,
+  parseQuery,
+  queryFreeText,
+  queryPhrases,
+  queryWords
+} from '../../domain/services/query-parser.js';
+import {
+  CATALOG_QUERY_FIELD_COLUMNS,
+  CHUNK_QUERY_FIELD_COLUMNS,
+  compileQueryFieldFilter
+} from '../lancedb/utils/filter-compiler.js';
 import { QueryExpander } from '../../concepts/query_expander.js';
 import type { ResilientExecutor } from '../resilience/resilient-executor.js';
 import { ResilienceProfiles } from '../resilience/resilient-executor.js';
-import { SearchResultCache } from '../cache/search-result-cache.js';
+import { SearchResultCache, type SearchOptions } from '../cache/search-result-cache.js';
 import {
   calculateVectorScore,
   calculateWeightedBM25,
+  calculateFullTextScore,
   calculateTitleScore,
   calculateWordNetBonus,
   calculateConceptMatchScore,
+  findMatchSpans,
   getMatchedConcepts,
   type ExpandedQuery
 } from './scoring-strategies.js';
 import {
   analyzeQuery,
+  applyWeightProfile,
   getAdjustedCatalogWeights,
   getAdjustedChunkWeights,
-  calculateDynamicHybridScore,
-  type QueryAnalysis
+  DEFAULT_WEIGHTS,
+  type QueryAnalysis,
+  type WeightProfile
 } from './dynamic-weights.js';
+import {
+  createFusionStrategy,
+  FUSION_SIGNALS,
+  type FusionStrategy,
+  type SignalRanks
+} from './fusion-strategies.js';
+import { capPerDocument, diversifyByMMR } from './diversification.js';
+import { addSpellingAlternatives, applySpellingCorrections } from './spelling-corrector.js';
+
+/**
+ * Result fusion options.
+ */
+export interface HybridSearchFusionOptions {
+  /** Default fusion strategy (default: 'weighted') */
+  mode?: FusionMode;
+  /** RRF rank constant (default: 60) */
+  rrfK?: number;
+  /** Base signal weights for catalog and chunk search (default: DEFAULT_WEIGHTS) */
+  weights?: {
+    catalog?: WeightProfile;
+    chunk?: WeightProfile;
+  };
+}
+
+/**
+ * Second-stage reranking options.
+ */
+export interface HybridSearchRerankOptions {
+  /** Second-stage reranker */
+  reranker: Reranker;
+  /** Number of top fused candidates to rerank (default: 30) */
+  topK?: number;
+}
+
+/** Default number of candidates passed to the reranker */
+export const DEFAULT_RERANK_TOP_K = 30;
+
+/** Hybrid score boost for a result containing every quoted phrase of the query */
+export const PHRASE_MATCH_BOOST = 0.5;
 
 /**
  * Hybrid search implementation using multiple ranking signals.
  * 
  * Combines:
  * - Vector similarity (semantic search via embeddings)
- * - BM25 keyword matching (lexical search)
+ * - BM25 keyword matching (native full-text index, in-memory fallback)
  * - Title matching (document relevance)
  * - Concept matching (concept-aware scoring via QueryExpander)
  * - WordNet expansion (semantic enrichment)
@@ -35,25 +100,63 @@ import {
  * The QueryExpander provides concept_terms derived from hybrid concept search,
  * enabling unified concept-aware searching across all search types.
  * 
- * This service orchestrates query expansion, vector search, and multi-signal
- * scoring to provide high-quality search results.
+ * This service orchestrates query expansion, candidate retrieval and
+ * multi-signal scoring to provide high-quality search results. Candidates
+ * come from vector search and, when the collection has a full-text index,
+ * from BM25 full-text search run in parallel, so exact keyword matches the
+ * embedding misses still reach the reranker.
+ * 
+ * **Fusion:** Signal scores are combined by a fusion strategy: weighted sum
+ * (default) or Reciprocal Rank Fusion, configured per service and
+ * overridable per call via `HybridSearchOptions.fusion`. The signal weights
+ * start from the configured per-type weights, reshaped by the call's named
+ * `weightProfile`, and are then adjusted to the query's characteristics.
+ * 
+ * **Reranking:** When a second-stage `Reranker` is configured and the call
+ * sets `HybridSearchOptions.rerank`, the top `topK` fused candidates are
+ * re-ordered by the reranker's relevance scores before truncation to the
+ * requested limit. Reranker failures fall back to the fused order.
+ * 
+ * **Diversification:** `HybridSearchOptions.maxPerDocument` caps the
+ * results of each document and `HybridSearchOptions.mmrLambda` re-orders
+ * the final ranking by Maximal Marginal Relevance over the result
+ * embeddings. Both run on the whole candidate pool before truncation, so
+ * results of other documents fill the freed positions.
+ * 
+ * **Query syntax:** The query is parsed for quoted phrases, `+`/`-`
+ * modifiers, OR groups and field prefixes (see `parseQuery`). Field
+ * restrictions the collection has columns for become filter predicates,
+ * required and excluded terms filter the candidates, and results
+ * containing a quoted phrase verbatim are boosted.
  * 
  * **Resilience:** When ResilientExecutor is provided, search operations are
  * protected with timeout (5s) and bulkhead (15 concurrent max).
  * 
  * **Caching:**
  * Optionally uses SearchResultCache to avoid redundant searches.
- * Cache key includes collection name to prevent cross-collection pollution.
+ * The cache key covers the collection name, the limit, every search option
+ * and the collection's data version; `searchWithCandidates` shares the
+ * results and caches its candidates beside them. When a collection's
+ * version changes (e.g. after a reseed) the whole cache is cleared, since
+ * results also depend on the other tables (concepts for query expansion).
+ * 
+ * **Explanation:** `explain` runs the same pipeline uncached and records
+ * each stage in a `SearchExplanation`.
  */
 export class ConceptualHybridSearchService implements HybridSearchService {
   /** Optional search result cache */
   private cache?: SearchResultCache<SearchResult[]>;
   
+  /** Last seen data version per collection (cache invalidation) */
+  private collectionVersions = new Map<string, number>();
+  
   constructor(
     private embeddingService: EmbeddingService,
     private queryExpander: QueryExpander,
     cache?: SearchResultCache<SearchResult[]>,
-    private resilientExecutor?: ResilientExecutor
+    private resilientExecutor?: ResilientExecutor,
+    private fusionOptions: HybridSearchFusionOptions = {},
+    private rerankOptions?: HybridSearchRerankOptions
   ) {
     this.cache = cache;
   }
@@ -70,66 +173,150 @@ export class ConceptualHybridSearchService implements HybridSearchService {
       : options;
     
     const debug = normalizedOptions.debug ?? false;
+    const fusion = this.resolveFusion(normalizedOptions);
+    const reranker = normalizedOptions.rerank ? this.rerankOptions?.reranker : undefined;
     
-    // Check cache first (if enabled and not in debug mode)
-    if (this.cache && !debug) {
-      const cacheKey = `${collection.getName()}:${queryText}`;
-      const cached = this.cache.get(cacheKey, { limit });
-      if (cached) {
-        return cached;
-      }
+    const run = async () =>
+      (await this.performSearch(collection, queryText, limit, normalizedOptions, fusion, reranker)).results;
+    
+    // Search uncached in debug mode (debug output is printed while searching)
+    if (!this.cache || debug) {
+      return this.execute(run);
     }
     
-    // Wrap search operation with resilience if available
-    if (this.resilientExecutor) {
-      return this.resilientExecutor.execute(
-        () => this.performSearch(collection, queryText, limit, normalizedOptions),
-        {
-          ...ResilienceProfiles.SEARCH,
-          name: 'hybrid_search'
-        }
-      );
+    // Check cache first
+    const cacheKey = `${collection.getName()}:${queryText}`;
+    const version = await this.checkVersion(collection);
+    const cacheOptions = this.cacheOptions(limit, normalizedOptions, fusion, reranker, version);
+    const cached = this.cache.get(cacheKey, cacheOptions);
+    if (cached) {
+      return cached;
     }
     
-    // Fallback: execute without resilience (backward compatible)
-    return this.performSearch(collection, queryText, limit, normalizedOptions);
+    const results = await this.execute(run);
+    this.cache.set(cacheKey, cacheOptions, results);
+    return results;
+  }
+  
+  async searchWithCandidates(
+    collection: SearchableCollection,
+    queryText: string,
+    limit: number = 5,
+    options: HybridSearchOptions = {}
+  ): Promise<CandidateSearchResults> {
+    const fusion = this.resolveFusion(options);
+    const reranker = options.rerank ? this.rerankOptions?.reranker : undefined;
+    const run = () => this.performSearch(collection, queryText, limit, options, fusion, reranker, undefined, true);
+    
+    if (!this.cache || options.debug) {
+      return this.execute(run);
+    }
+    
+    // The candidates are cached beside the results of the same search
+    const cacheKey = `${collection.getName()}:${queryText}`;
+    const version = await this.checkVersion(collection);
+    const cacheOptions = this.cacheOptions(limit, options, fusion, reranker, version);
+    const candidateOptions = { ...cacheOptions, candidates: true };
+    const cachedResults = this.cache.get(cacheKey, cacheOptions);
+    const cachedCandidates = this.cache.get(cacheKey, candidateOptions);
+    if (cachedResults && cachedCandidates) {
+      return { results: cachedResults, candidates: cachedCandidates };
+    }
+    
+    // Keep results already served from the cache, so pages of a search
+    // with and without candidates stay slices of one ranking
+    const searched = await this.execute(run);
+    const results = cachedResults ?? searched.results;
+    this.cache.set(cacheKey, cacheOptions, results);
+    this.cache.set(cacheKey, candidateOptions, searched.candidates);
+    return { results, candidates: searched.candidates };
+  }
+  
+  async explain(
+    collection: SearchableCollection,
+    queryText: string,
+    limit: number = 5,
+    options: HybridSearchOptions = {}
+  ): Promise<SearchExplanation> {
+    const explainOptions: HybridSearchOptions = { ...options, debug: false };
+    const fusion = this.resolveFusion(explainOptions);
+    const reranker = explainOptions.rerank ? this.rerankOptions?.reranker : undefined;
+    const trace: Partial<SearchExplanation> = { query: queryText, collection: collection.getName() };
+    
+    await this.execute(() => this.performSearch(collection, queryText, limit, explainOptions, fusion, reranker, trace));
+    return trace as SearchExplanation;
   }
   
   /**
    * Core search implementation (can be wrapped with resilience).
+   * 
+   * With `trace`, records each pipeline stage in it. With `withMatches`,
+   * also finds the candidates matching the query (see `findMatches`);
+   * otherwise none are returned.
    * @private
    */
   private async performSearch(
     collection: SearchableCollection,
     queryText: string,
     limit: number,
-    options: HybridSearchOptions
-  ): Promise<SearchResult[]> {
+    options: HybridSearchOptions,
+    fusion: FusionStrategy,
+    reranker?: Reranker,
+    trace?: Partial<SearchExplanation>,
+    withMatches: boolean = false
+  ): Promise<CandidateSearchResults> {
     const debug = options.debug ?? false;
     
-    // Step 1: Expand query with corpus concepts and WordNet synonyms
+    // Step 1: Expand the free text with corpus concepts and WordNet synonyms
+    // (phrases are not expanded), then parse the query syntax. Misspelled
+    // loose terms are searched together with their corrections.
     const expanded = await this.queryExpander.expandQuery(queryText);
+    const didYouMean = expanded.corrections?.length
+      ? applySpellingCorrections(queryText, expanded.corrections)
+      : undefined;
+    const parsedQuery = addSpellingAlternatives(parseQuery(queryText), expanded.corrections);
+    const searchText = queryFreeText(parsedQuery);
     
     // Step 1.5: Analyze query for dynamic weight adjustment
     const queryAnalysis = analyzeQuery(expanded);
     const collectionName = collection.getName().toLowerCase();
     const isChunkSearch = collectionName.includes('chunk');
     
-    // Get adjusted weights based on query characteristics
+    // Start from the configured weights reshaped by the named profile,
+    // then adjust them to the query characteristics
+    const baseWeights = applyWeightProfile(
+      isChunkSearch
+        ? this.fusionOptions.weights?.chunk ?? DEFAULT_WEIGHTS.chunk
+        : this.fusionOptions.weights?.catalog ?? DEFAULT_WEIGHTS.catalog,
+      options.weightProfile
+    );
     const weights = isChunkSearch
-      ? getAdjustedChunkWeights(queryAnalysis)
-      : getAdjustedCatalogWeights(queryAnalysis);
+      ? getAdjustedChunkWeights(queryAnalysis, baseWeights)
+      : getAdjustedCatalogWeights(queryAnalysis, baseWeights);
     
     if (debug) {
+      if (!isPlainQuery(parsedQuery)) {
+        this.printParsedQuery(parsedQuery);
+      }
       this.printQueryExpansion(expanded);
-      this.printWeightAdjustment(queryAnalysis, weights);
+      this.printWeightAdjustment(queryAnalysis, weights, options.weightProfile);
+    }
+    if (trace) {
+      trace.corrections = expanded.corrections ?? [];
+      trace.didYouMean = didYouMean;
+      trace.parsedQuery = parsedQuery;
+      trace.expandedTerms = explainTerms(expanded);
+      trace.analysis = { ...queryAnalysis };
+      trace.weightProfile = options.weightProfile ?? 'default';
+      trace.baseWeights = toSignalWeights(baseWeights);
+      trace.weights = toSignalWeights(weights);
+      trace.fusion = fusion.mode;
     }
     
-    // Build filter expression for chunk search
+    // Build filter expression (content exclusions apply to chunk search only)
     const vectorSearchOptions: VectorSearchOptions = {};
+    const filterParts: string[] = [];
     if (isChunkSearch) {
-      const filterParts: string[] = [];
-      
       // Exclude reference chunks (bibliography/citations)
       if (options.excludeReferences) {
         filterParts.push('is_reference = false');
@@ -144,167 +331,296 @@ export class ConceptualHybridSearchService implements HybridSearchService {
       if (options.excludeMetaContent) {
         filterParts.push('is_meta_content = false');
       }
-      
-      // Add custom filter if provided
-      if (options.filter) {
-        filterParts.push(options.filter);
-      }
-      
-      // Combine filters with AND
-      if (filterParts.length > 0) {
-        vectorSearchOptions.filter = filterParts.join(' AND ');
-        if (debug) {
-          console.error(`🔍 Filter: ${vectorSearchOptions.filter}`);
-        }
+    }
+    
+    // Add custom filter if provided
+    if (options.filter) {
+      filterParts.push(`(${options.filter})`);
+    }
+    
+    // Field restrictions from the query (title:, author:, ...)
+    const fieldFilter = compileQueryFieldFilter(
+      parsedQuery,
+      isChunkSearch ? CHUNK_QUERY_FIELD_COLUMNS : CATALOG_QUERY_FIELD_COLUMNS
+    );
+    if (fieldFilter) {
+      filterParts.push(`(${fieldFilter})`);
+    }
+    
+    // Combine filters with AND
+    if (filterParts.length > 0) {
+      vectorSearchOptions.filter = filterParts.join(' AND ');
+      if (debug) {
+        console.error(`🔍 Filter: ${vectorSearchOptions.filter}`);
       }
     }
+    if (trace) {
+      trace.filter = vectorSearchOptions.filter;
+    }
     
-    // Step 2: Generate query embedding and perform vector search
-    const queryVector = this.embeddingService.generateEmbedding(queryText);
-    const vectorResults = await collection.vectorSearch(queryVector, limit * 3, vectorSearchOptions);  // Get 3x results for reranking
+    // Step 2: Retrieve candidates from vector search and the full-text index in parallel
+    const candidateLimit = limit * 3;  // Get 3x results for reranking
+    const queryVector = await this.embeddingService.generateEmbedding(searchText || queryText);
+    const [vectorResults, fullTextResults] = await Promise.all([
+      collection.vectorSearch(queryVector, candidateLimit, vectorSearchOptions),
+      searchText ? collection.fullTextSearch?.(searchText, candidateLimit, vectorSearchOptions) : undefined
+    ]);
+    const merged = mergeCandidates(vectorResults, fullTextResults ?? [], queryVector);
+    const candidates = merged.filter(row => matchesTextClauses(parsedQuery, row));
     
-    // Step 3: Score each result with all ranking signals
-    const scoredResults = vectorResults.map((row: any) => {
-      // Get searchable text (chunks use 'text', catalog uses 'summary')
-      const searchableText = row.text || row.summary || '';
-      
-      // Parse string array fields (for derived text fields) - needed early for concept scoring
-      const parseStringArrayField = (value: any): string[] => {
-        if (!value) return [];
-        if (Array.isArray(value)) return value;
-        if (typeof value === 'object' && 'toArray' in value) {
-          return Array.from(value.toArray());
-        }
-        if (typeof value === 'string') {
-          try { return JSON.parse(value); } catch { return []; }
-        }
-        return [];
+    // Native BM25 scores (corpus statistics) when the collection has a full-text index
+    const fullTextScores = fullTextResults
+      ? new Map(fullTextResults.map((row: any) => [candidateKey(row), row._score || 0]))
+      : undefined;
+    const maxFullTextScore = fullTextScores ? Math.max(0, ...fullTextScores.values()) : 0;
+    
+    if (debug) {
+      this.printCandidates(vectorResults.length, fullTextResults, candidates.length);
+    }
+    if (trace) {
+      trace.candidates = {
+        vector: vectorResults.length,
+        fullText: fullTextResults ? fullTextResults.length : null,
+        merged: merged.length,
+        matching: candidates.length
       };
+    }
+    
+    // Step 3: Score each result with all ranking signals
+    const scoredResults = candidates.map((row: any) => {
+      const result = toSearchResult(row);
+      const searchableText = result.text;
+      // For BM25 and title scoring, use source (catalog) or catalog_title (chunks)
+      const sourceOrTitle = result.source ?? '';
       
       // Calculate individual scores
-      const vectorScore = calculateVectorScore(row._distance || 0);
-      // For BM25 and title scoring, use source (catalog) or catalog_title (chunks)
-      const sourceOrTitle = row.source || row.catalog_title || '';
-      const bm25Score = calculateWeightedBM25(
-        expanded.all_terms,
-        expanded.weights,
-        searchableText,
-        sourceOrTitle
-      );
-      const titleScore = calculateTitleScore(expanded.original_terms, sourceOrTitle);
+      result.vectorScore = calculateVectorScore(row._distance || 0);
+      result.bm25Score = fullTextScores
+        ? calculateFullTextScore(fullTextScores.get(candidateKey(row)) ?? 0, maxFullTextScore)
+        : calculateWeightedBM25(
+          expanded.all_terms,
+          expanded.weights,
+          searchableText,
+          sourceOrTitle
+        );
+      result.titleScore = calculateTitleScore(expanded.original_terms, sourceOrTitle);
       
       // Calculate concept score using expanded concept terms
-      const docConceptNames = parseStringArrayField(row.concept_names);
-      const conceptScore = calculateConceptMatchScore(expanded.concept_terms, docConceptNames);
-      
-      const wordnetScore = calculateWordNetBonus(expanded.wordnet_terms, searchableText);
-      
-      // Calculate hybrid score using dynamic weights (adjusted based on query characteristics)
-      const hybridScore = calculateDynamicHybridScore(
-        { vectorScore, bm25Score, titleScore, conceptScore, wordnetScore },
-        weights
-      );
-      
-      // Parse array fields (may be Arrow Vectors from LanceDB)
-      const parseArrayField = (value: any): number[] => {
-        if (!value) return [];
-        if (Array.isArray(value)) return value;
-        if (typeof value === 'object' && 'toArray' in value) {
-          return Array.from(value.toArray());
-        }
-        return [];
-      };
-      
-      // Build enriched search result
-      // For chunks: use catalog_title (source field was removed in v7 schema)
-      // For catalog: use source (document path)
-      const sourceValue = row.source || row.catalog_title || '';
-      
-      // Parse research paper array fields (keywords, authors)
-      const parseKeywords = (): string[] | undefined => {
-        if (!row.keywords) return undefined;
-        let arr: string[];
-        if (Array.isArray(row.keywords)) {
-          arr = row.keywords;
-        } else if (typeof row.keywords === 'object' && 'toArray' in row.keywords) {
-          arr = Array.from(row.keywords.toArray()) as string[];
-        } else {
-          return undefined;
-        }
-        const filtered = arr.filter((k: string) => k && k.trim());
-        return filtered.length > 0 ? filtered : undefined;
-      };
-      
-      const parseAuthors = (): string[] | undefined => {
-        if (!row.authors) return undefined;
-        let arr: string[];
-        if (Array.isArray(row.authors)) {
-          arr = row.authors;
-        } else if (typeof row.authors === 'object' && 'toArray' in row.authors) {
-          arr = Array.from(row.authors.toArray()) as string[];
-        } else {
-          return undefined;
-        }
-        const filtered = arr.filter((a: string) => a && a.trim());
-        return filtered.length > 0 ? filtered : undefined;
-      };
-      
-      const result: SearchResult = {
-        id: row.id || '',
-        text: searchableText,  // Use text for chunks, summary for catalog
-        source: sourceValue,  // Source document path or catalog_title for chunks
-        catalogId: row.catalog_id || row.id || 0,
-        hash: row.hash || '',
-        conceptIds: parseArrayField(row.concept_ids),
-        conceptNames: parseStringArrayField(row.concept_names),  // DERIVED: for display
-        categoryIds: parseArrayField(row.category_ids),
-        categoryNames: parseStringArrayField(row.category_names),  // DERIVED: for display
-        embeddings: row.vector || [],
-        distance: row._distance || 0,
-        vectorScore,
-        bm25Score,
-        titleScore,
-        conceptScore,
-        wordnetScore,
-        hybridScore,
-        matchedConcepts: getMatchedConcepts(expanded, row),
-        expandedTerms: expanded.all_terms.slice(0, 10),  // Top 10 terms
-        // Research paper metadata fields (pass through from row)
-        documentType: row.document_type || undefined,
-        doi: row.doi || undefined,
-        arxivId: row.arxiv_id || undefined,
-        venue: row.venue || undefined,
-        keywords: parseKeywords(),
-        abstract: row.abstract || undefined,
-        authors: parseAuthors()
-      };
+      result.conceptScore = calculateConceptMatchScore(expanded.concept_terms, result.conceptNames ?? []);
+      result.wordnetScore = calculateWordNetBonus(expanded.wordnet_terms, searchableText);
       
+      result.matchedConcepts = getMatchedConcepts(expanded, row);
+      result.expandedTerms = expanded.all_terms.slice(0, 10);  // Top 10 terms
+      result.matchSpans = findMatchSpans(expanded, searchableText);
+      if (didYouMean !== undefined) {
+        result.didYouMean = didYouMean;
+      }
       return result;
     });
     
-    // Step 4: Re-rank by hybrid score
-    scoredResults.sort((a, b) => b.hybridScore - a.hybridScore);
+    // Step 4: Fuse signals into the hybrid score (dynamic weights adjusted
+    // to query characteristics) and re-rank
+    const fused = fusion.fuse(scoredResults, weights);
+    const signalRanks = new Map<SearchResult, SignalRanks>();
+    const phrases = queryPhrases(parsedQuery);
+    scoredResults.forEach((result, i) => {
+      result.hybridScore = fused[i].score * phraseBoost(phrases, result);
+      signalRanks.set(result, fused[i].ranks);
+    });
+    scoredResults.sort(compareByHybridScore);
+    if (trace) {
+      trace.beforeRerank = explainCandidates(scoredResults, signalRanks);
+    }
+    
+    // Step 5: Second-stage reranking of the top candidates
+    const ranked = reranker
+      ? await this.rerank(reranker, queryText, scoredResults, debug)
+      : scoredResults;
+    if (trace && reranker && ranked !== scoredResults) {
+      trace.reranker = reranker.name;
+      trace.afterRerank = explainCandidates(ranked, signalRanks);
+    }
     
-    // Step 5: Limit to requested size
-    const finalResults = scoredResults.slice(0, limit);
+    // Step 6: Diversify, then limit to requested size
+    const finalResults = this.diversify(ranked, limit, options, debug).slice(0, limit);
     
     if (debug) {
-      this.printDebugScores(finalResults);
+      this.printDebugScores(finalResults, fusion, signalRanks);
     }
-    
-    // Cache results (if enabled and not in debug mode)
-    if (this.cache && !debug) {
-      const cacheKey = `${collection.getName()}:${queryText}`;
-      this.cache.set(cacheKey, { limit }, finalResults);
+    if (trace) {
+      trace.results = explainCandidates(finalResults, signalRanks);
     }
     
-    return finalResults;
+    const matches = withMatches
+      ? await this.findMatches(collection, parsedQuery, searchText, vectorSearchOptions, scoredResults)
+      : [];
+    return { results: finalResults, candidates: matches };
+  }
+  
+  /**
+   * Candidates that match the query, to aggregate over (e.g. facet counts).
+   * 
+   * With a full-text index these are every row matching the free text, not
+   * only the best ones, that passes the filters and the query's required and
+   * excluded terms. Vector neighbours without a keyword match do not count,
+   * since the nearest vectors are returned however unrelated they are.
+   * Without a full-text index, the scored candidates with a keyword match;
+   * a query of field restrictions only matches all of its candidates.
+   */
+  private async findMatches(
+    collection: SearchableCollection,
+    parsedQuery: ParsedQuery,
+    searchText: string,
+    searchOptions: VectorSearchOptions,
+    scoredResults: SearchResult[]
+  ): Promise<SearchResult[]> {
+    if (!searchText) {
+      return scoredResults;
+    }
+    const rows = await collection.fullTextMatches?.(searchText, searchOptions);
+    if (!rows) {
+      return scoredResults.filter(result => result.bm25Score > 0);
+    }
+    return rows.filter(row => matchesTextClauses(parsedQuery, row)).map(toSearchResult);
   }
   
   // Helper methods
   
+  /**
+   * Re-order the top `topK` results by reranker score (ties keep the fused
+   * order); the remaining results follow unchanged. On reranker failure the
+   * fused order is kept.
+   */
+  private async rerank(
+    reranker: Reranker,
+    queryText: string,
+    results: SearchResult[],
+    debug: boolean
+  ): Promise<SearchResult[]> {
+    const head = results.slice(0, this.rerankOptions?.topK ?? DEFAULT_RERANK_TOP_K);
+    let scores: number[];
+    try {
+      scores = await reranker.rerank(queryText, head.map(rerankText));
+    } catch (error) {
+      console.error(`⚠️  Reranking with ${reranker.name} failed, keeping fused order: ${error instanceof Error ? error.message : String(error)}`);
+      return results;
+    }
+    
+    head.forEach((result, i) => {
+      result.rerankScore = scores[i];
+    });
+    if (debug) {
+      console.error(`\n🔀 Reranked top ${head.length} candidates with ${reranker.name}`);
+    }
+    return [...head.sort((a, b) => b.rerankScore! - a.rerankScore!), ...results.slice(head.length)];
+  }
+  
+  /**
+   * Apply the per-document cap and MMR re-ordering requested in `options`.
+   */
+  private diversify(
+    results: SearchResult[],
+    limit: number,
+    options: HybridSearchOptions,
+    debug: boolean
+  ): SearchResult[] {
+    let diversified = results;
+    if (options.maxPerDocument !== undefined) {
+      diversified = capPerDocument(diversified, options.maxPerDocument);
+    }
+    if (options.mmrLambda !== undefined) {
+      diversified = diversifyByMMR(diversified, options.mmrLambda, limit);
+    }
+    if (debug && diversified !== results) {
+      console.error(`\n🎛️  Diversified: max ${options.maxPerDocument ?? 'unlimited'} per document, MMR λ = ${options.mmrLambda ?? 'off'}`);
+    }
+    return diversified;
+  }
+  
+  /**
+   * Run a search with resilience protection, if available.
+   */
+  private execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.resilientExecutor) {
+      return this.resilientExecutor.execute(operation, {
+        ...ResilienceProfiles.SEARCH,
+        name: 'hybrid_search'
+      });
+    }
+    
+    // Fallback: execute without resilience (backward compatible)
+    return operation();
+  }
+  
+  /**
+   * Read the collection's data version and clear the cache when it changed
+   * since the last search of the collection.
+   * 
+   * @returns The version, or undefined for unversioned collections (or if
+   *   the version cannot be read)
+   */
+  private async checkVersion(collection: SearchableCollection): Promise<number | undefined> {
+    let version: number | undefined;
+    try {
+      version = await collection.getVersion?.();
+    } catch (error) {
+      console.error(`⚠️  Could not read ${collection.getName()} version: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (version === undefined) {
+      return undefined;
+    }
+    
+    const previous = this.collectionVersions.get(collection.getName());
+    if (previous !== undefined && previous !== version) {
+      this.cache?.clear();
+    }
+    this.collectionVersions.set(collection.getName(), version);
+    return version;
+  }
+  
+  /**
+   * Cache options distinguishing results of the same query text: every
+   * search option (with the fusion and reranker actually used) and the
+   * collection's data version.
+   */
+  private cacheOptions(
+    limit: number,
+    options: HybridSearchOptions,
+    fusion: FusionStrategy,
+    reranker?: Reranker,
+    version?: number
+  ): SearchOptions {
+    const { debug: _debug, ...searchOptions } = options;
+    return {
+      ...searchOptions,
+      limit,
+      fusion: fusion.mode,
+      rerank: reranker?.name ?? 'none',
+      weightProfile: options.weightProfile ?? 'default',
+      version: version ?? 'unversioned'
+    };
+  }
+  
+  private resolveFusion(options: HybridSearchOptions): FusionStrategy {
+    return createFusionStrategy(options.fusion ?? this.fusionOptions.mode ?? 'weighted', {
+      rrfK: this.fusionOptions.rrfK
+    });
+  }
+  
+  private printParsedQuery(query: ParsedQuery): void {
+    console.error('\n🧩 Parsed Query:');
+    for (const clause of query.clauses) {
+      const operands = clauseOperands(clause)
+        .map(o => `${o.field ? `${o.field}:` : ''}${o.type === 'phrase' ? `"${o.text}"` : o.text}`);
+      console.error(`  ${clause.occur}: ${operands.join(' OR ')}`);
+    }
+  }
+  
   private printQueryExpansion(expanded: ExpandedQuery): void {
     console.error('\n🔍 Query Expansion:');
+    for (const { term, correction, distance } of expanded.corrections ?? []) {
+      console.error(`  Corrected: ${term} → ${correction} (distance ${distance})`);
+    }
     console.error('  Original:', expanded.original_terms.join(', '));
     console.error('  + Corpus:', expanded.corpus_terms.slice(0, 5).join(', '));
     console.error('  + Concepts:', expanded.concept_terms.slice(0, 5).join(', '));
@@ -312,17 +628,33 @@ export class ConceptualHybridSearchService implements HybridSearchService {
     console.error('  Total terms:', expanded.all_terms.length);
   }
   
-  private printDebugScores(results: SearchResult[]): void {
-    console.error('\n📊 Top Results with Scores:\n');
+  private printCandidates(vectorCount: number, fullTextResults: any[] | undefined, mergedCount: number): void {
+    if (!fullTextResults) {
+      console.error(`\n📥 Candidates: ${vectorCount} vector (no full-text index, BM25 rescored in memory)`);
+      return;
+    }
+    console.error(`\n📥 Candidates: ${vectorCount} vector + ${fullTextResults.length} full-text → ${mergedCount} merged`);
+  }
+  
+  private printDebugScores(
+    results: SearchResult[],
+    fusion: FusionStrategy,
+    signalRanks: Map<SearchResult, SignalRanks>
+  ): void {
+    const labels = { vector: 'Vector', bm25: 'BM25', title: 'Title', concept: 'Concept', wordnet: 'WordNet' };
+    console.error(`\n📊 Top Results with Scores (fusion: ${fusion.mode}, #rank per signal):\n`);
     results.forEach((result, idx) => {
       const filename = (result.source || '').split('/').pop() || result.source || 'unknown';
+      const ranks = signalRanks.get(result) ?? {};
       console.error(`${idx + 1}. ${filename}`);
-      console.error(`   Vector: ${result.vectorScore.toFixed(3)}`);
-      console.error(`   BM25: ${result.bm25Score.toFixed(3)}`);
-      console.error(`   Title: ${result.titleScore.toFixed(3)}`);
-      console.error(`   Concept: ${result.conceptScore.toFixed(3)}`);
-      console.error(`   WordNet: ${result.wordnetScore.toFixed(3)}`);
+      for (const signal of FUSION_SIGNALS) {
+        const rank = ranks[signal.name];
+        console.error(`   ${labels[signal.name]}: ${result[signal.score].toFixed(3)} (${rank !== undefined ? `#${rank}` : 'unranked'})`);
+      }
       console.error(`   ➜ Hybrid: ${result.hybridScore.toFixed(3)}`);
+      if (result.rerankScore !== undefined) {
+        console.error(`   ➜ Rerank: ${result.rerankScore.toFixed(3)}`);
+      }
       if (result.matchedConcepts && result.matchedConcepts.length > 0) {
         console.error(`   Matched: ${result.matchedConcepts.slice(0, 3).join(', ')}`);
       }
@@ -330,7 +662,10 @@ export class ConceptualHybridSearchService implements HybridSearchService {
     });
   }
   
-  private printWeightAdjustment(analysis: QueryAnalysis, weights: { wordnetWeight: number }): void {
+  private printWeightAdjustment(analysis: QueryAnalysis, weights: { wordnetWeight: number }, profile?: string): void {
+    if (profile && profile !== 'default') {
+      console.error(`\n⚖️  Weight profile: ${profile}`);
+    }
     if (analysis.wordnetBoostFactor !== 1.0) {
       console.error('\n⚖️  Dynamic Weight Adjustment:');
       console.error(`   Reason: ${analysis.boostReason}`);
@@ -338,3 +673,230 @@ export class ConceptualHybridSearchService implements HybridSearchService {
     }
   }
 }
+
+/** Sources of expanded terms, in the order QueryExpander adds them */
+const TERM_ORIGINS: readonly MatchTermKind[] = ['original', 'corpus', 'concept', 'wordnet'];
+
+/**
+ * Expanded terms with their keyword weight and the expansion source that
+ * found them.
+ */
+function explainTerms(expanded: ExpandedQuery): ExplainedTerm[] {
+  const termsByOrigin: Record<MatchTermKind, string[]> = {
+    original: expanded.original_terms,
+    corpus: expanded.corpus_terms,
+    concept: expanded.concept_terms,
+    wordnet: expanded.wordnet_terms
+  };
+  return expanded.all_terms.map(term => ({
+    term,
+    origin: TERM_ORIGINS.find(origin => termsByOrigin[origin].includes(term)) ?? 'original',
+    weight: expanded.weights.get(term) ?? 0
+  }));
+}
+
+function toSignalWeights(weights: WeightProfile): SignalWeightBreakdown {
+  return {
+    vector: weights.vectorWeight,
+    bm25: weights.bm25Weight,
+    title: weights.titleWeight,
+    concept: weights.conceptWeight,
+    wordnet: weights.wordnetWeight
+  };
+}
+
+/**
+ * Snapshot of the positions and score components of ranked results.
+ */
+function explainCandidates(
+  results: SearchResult[],
+  signalRanks: Map<SearchResult, SignalRanks>
+): ExplainedCandidate[] {
+  return results.map((result, i) => ({
+    rank: i + 1,
+    id: result.id,
+    catalogId: result.catalogId,
+    source: result.source ?? '',
+    scores: {
+      vector: result.vectorScore,
+      bm25: result.bm25Score,
+      title: result.titleScore,
+      concept: result.conceptScore,
+      wordnet: result.wordnetScore
+    },
+    signalRanks: { ...signalRanks.get(result) },
+    hybridScore: result.hybridScore,
+    ...(result.rerankScore !== undefined && { rerankScore: result.rerankScore })
+  }));
+}
+
+/**
+ * Text shown to the reranker: the document title followed by the chunk text
+ * (or catalog summary), so catalog entries are judged with their title.
+ */
+function rerankText(result: SearchResult): string {
+  const title = (result.source || '').split('/').pop() || '';
+  return title ? `${title}\n${result.text}` : result.text;
+}
+
+/**
+ * Descending hybrid score, ties broken by ID so the ranking is stable
+ * across calls (result pages are sliced from it).
+ */
+function compareByHybridScore(a: SearchResult, b: SearchResult): number {
+  return b.hybridScore - a.hybridScore || Number(a.id) - Number(b.id);
+}
+
+/**
+ * Whether a candidate row satisfies the required (`+`) and excluded (`-`)
+ * terms and phrases of the query, matched as whole words against its text
+ * and title. Field restrictions are applied by the filter predicate.
+ */
+function matchesTextClauses(query: ParsedQuery, row: any): boolean {
+  const clauses = query.clauses.filter(clause => clause.occur !== 'should' && !isFieldRestriction(clause));
+  if (clauses.length === 0) {
+    return true;
+  }
+  const words = queryWords(`${row.text || row.summary || ''} ${row.source || row.catalog_title || ''}`);
+  return clauses.every(clause => {
+    const matched = clauseOperands(clause).some(operand => !operand.field && containsWords(words, operand.words));
+    return clause.occur === 'must' ? matched : !matched;
+  });
+}
+
+/**
+ * Score multiplier for the fraction of the query's phrases that appear
+ * verbatim in a result's text or title.
+ */
+function phraseBoost(phrases: QueryOperand[], result: SearchResult): number {
+  if (phrases.length === 0) {
+    return 1;
+  }
+  const words = queryWords(`${result.text} ${result.source}`);
+  const matched = phrases.filter(phrase => containsWords(words, phrase.words)).length;
+  return 1 + PHRASE_MATCH_BOOST * (matched / phrases.length);
+}
+
+/** Whether `needle` occurs as a contiguous run in `words` */
+function containsWords(words: string[], needle: string[]): boolean {
+  outer: for (let i = 0; i + needle.length <= words.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (words[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+/** Identity of a candidate row across vector and full-text results */
+function candidateKey(row: any): string {
+  return String(row.id);
+}
+
+/**
+ * Search result of a candidate row, with its fields parsed and no scores.
+ * 
+ * For chunks, `text` and `source` hold the chunk text and the catalog title
+ * (source was removed in the v7 schema); for catalog entries, the summary
+ * and the document path.
+ */
+function toSearchResult(row: any): SearchResult {
+  return {
+    id: row.id || '',
+    text: row.text || row.summary || '',
+    source: row.source || row.catalog_title || '',
+    catalogId: row.catalog_id || row.id || 0,
+    hash: row.hash || '',
+    conceptIds: numberArrayField(row.concept_ids),
+    conceptNames: stringArrayField(row.concept_names),  // DERIVED: for display
+    categoryIds: numberArrayField(row.category_ids),
+    categoryNames: stringArrayField(row.category_names),  // DERIVED: for display
+    embeddings: row.vector || [],
+    distance: row._distance || 0,
+    vectorScore: 0,
+    bm25Score: 0,
+    titleScore: 0,
+    conceptScore: 0,
+    wordnetScore: 0,
+    hybridScore: 0,  // Set by fusion
+    matchedConcepts: [],
+    expandedTerms: [],
+    matchSpans: [],
+    // Research paper metadata fields (pass through from row)
+    documentType: row.document_type || undefined,
+    doi: row.doi || undefined,
+    arxivId: row.arxiv_id || undefined,
+    venue: row.venue || undefined,
+    keywords: nonBlankStrings(row.keywords),
+    abstract: row.abstract || undefined,
+    authors: nonBlankStrings(row.authors),
+    author: row.author || undefined,
+    year: row.year || undefined
+  };
+}
+
+/** Numeric array field (may be an Arrow Vector from LanceDB) */
+function numberArrayField(value: any): number[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'object' && 'toArray' in value) {
+    return Array.from(value.toArray());
+  }
+  return [];
+}
+
+/** String array field (may be an Arrow Vector or a JSON string) */
+function stringArrayField(value: any): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'object' && 'toArray' in value) {
+    return Array.from(value.toArray());
+  }
+  if (typeof value === 'string') {
+    try { return JSON.parse(value); } catch { return []; }
+  }
+  return [];
+}
+
+/** Non-blank strings of a list field (keywords, authors), undefined when none */
+function nonBlankStrings(value: any): string[] | undefined {
+  if (!value || (!Array.isArray(value) && !(typeof value === 'object' && 'toArray' in value))) {
+    return undefined;
+  }
+  const filtered = (Array.isArray(value) ? value : Array.from(value.toArray()) as string[])
+    .filter((item: string) => item && item.trim());
+  return filtered.length > 0 ? filtered : undefined;
+}
+
+/**
+ * Union of vector and full-text candidates (vector rows first).
+ * 
+ * Rows found only by full-text search carry no `_distance`; it is computed
+ * from their stored vector with LanceDB's default metric (squared L2) so
+ * their vector score is comparable with the vector candidates.
+ */
+function mergeCandidates(vectorResults: any[], fullTextResults: any[], queryVector: number[]): any[] {
+  const seen = new Set(vectorResults.map(candidateKey));
+  const merged = [...vectorResults];
+  for (const row of fullTextResults) {
+    const key = candidateKey(row);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push({ ...row, _distance: squaredL2Distance(queryVector, row.vector) });
+  }
+  return merged;
+}
+
+function squaredL2Distance(queryVector: number[], vector: Iterable<number> | undefined): number {
+  // Stored vectors may be Arrow Vectors from LanceDB
+  const values = vector ? Array.from(vector) : [];
+  if (values.length !== queryVector.length) {
+    return 1;  // Unknown: scores as no vector similarity
+  }
+  let sum = 0;
+  for (let i = 0; i < queryVector.length; i++) {
+    const diff = queryVector[i] - values[i];
+    sum += diff * diff;
+  }
+  return sum;
+}
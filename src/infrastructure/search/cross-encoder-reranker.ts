@@ -0,0 +1,159 @@
+/**
+ * Cross-Encoder Reranker
+ *
+ * Second-stage reranking with a local ONNX export of a cross-encoder
+ * (default: ms-marco-MiniLM-L-6-v2). A cross-encoder reads the query and a
+ * candidate as one sentence pair (`[CLS] query [SEP] passage [SEP]`) and
+ * outputs a relevance logit, so it sees interactions between query and
+ * passage terms that independent embeddings cannot.
+ *
+ * The model directory has the same layout as for the transformer embedding
+ * provider (`model.onnx` or `onnx/model.onnx`, `vocab.txt`, optional
+ * `tokenizer_config.json`) and defaults to `~/.concept_rag/models/<model>`.
+ * Nothing is downloaded at runtime; the model is loaded lazily on first use.
+ */
+
+import type * as ort from 'onnxruntime-node';
+import type { Reranker } from '../../domain/interfaces/services/reranker.js';
+import { RerankError } from '../../domain/exceptions/index.js';
+import {
+  resolveOnnxModelFiles,
+  resolveTransformerModelPath,
+  readTokenizerConfig
+} from '../embeddings/transformer-embedding-service.js';
+import { WordPieceTokenizer, type EncodedText } from '../embeddings/wordpiece-tokenizer.js';
+
+/** Default model used when RERANK_MODEL is not set */
+export const DEFAULT_CROSS_ENCODER_MODEL = 'ms-marco-MiniLM-L-6-v2';
+
+/**
+ * Options for the cross-encoder reranker.
+ */
+export interface CrossEncoderRerankerOptions {
+  /** Model name, used for the default model directory */
+  model?: string;
+  /** Directory containing the ONNX model and vocabulary */
+  modelPath?: string;
+  /** Maximum pair length in tokens (default: tokenizer config or 512) */
+  maxLength?: number;
+  /** Pairs per inference batch (default: 16) */
+  batchSize?: number;
+}
+
+interface LoadedModel {
+  runtime: typeof ort;
+  session: ort.InferenceSession;
+  tokenizer: WordPieceTokenizer;
+}
+
+/**
+ * Reranker backed by a local cross-encoder model and ONNX Runtime.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name: string;
+
+  private readonly modelDir: string;
+  private readonly modelFile: string;
+  private readonly vocabFile: string;
+  private readonly maxLength?: number;
+  private readonly batchSize: number;
+  private loading?: Promise<LoadedModel>;
+
+  /**
+   * Create a cross-encoder reranker.
+   *
+   * Validates that the model files exist; the model itself is loaded on first use.
+   *
+   * @param options - Model selection options
+   * @throws {InvalidConfigError} If the model directory or files are missing
+   */
+  constructor(options: CrossEncoderRerankerOptions = {}) {
+    const model = options.model || DEFAULT_CROSS_ENCODER_MODEL;
+    this.name = `cross-encoder:${model}`;
+    this.modelDir = resolveTransformerModelPath(model, options.modelPath);
+    this.maxLength = options.maxLength;
+    this.batchSize = Math.max(1, options.batchSize ?? 16);
+
+    const files = resolveOnnxModelFiles(this.modelDir, 'RERANK_MODEL_PATH');
+    this.modelFile = files.modelFile;
+    this.vocabFile = files.vocabFile;
+  }
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+    const loaded = await this.load();
+    const scores: number[] = [];
+    for (let i = 0; i < documents.length; i += this.batchSize) {
+      const batch = documents.slice(i, i + this.batchSize);
+      scores.push(...await this.score(loaded, batch.map(document => loaded.tokenizer.encodePair(query, document))));
+    }
+    return scores;
+  }
+
+  /**
+   * Run the model over a batch of encoded pairs and return one logit per pair.
+   */
+  private async score({ runtime, session }: LoadedModel, encoded: EncodedText[]): Promise<number[]> {
+    const seqLength = Math.max(...encoded.map(e => e.inputIds.length));
+    const rows = encoded.length;
+
+    const inputIds = new BigInt64Array(rows * seqLength);
+    const attentionMask = new BigInt64Array(rows * seqLength);
+    const tokenTypeIds = new BigInt64Array(rows * seqLength);
+    encoded.forEach((e, row) => {
+      for (let i = 0; i < e.inputIds.length; i++) {
+        inputIds[row * seqLength + i] = BigInt(e.inputIds[i]);
+        attentionMask[row * seqLength + i] = BigInt(e.attentionMask[i]);
+        tokenTypeIds[row * seqLength + i] = BigInt(e.tokenTypeIds[i]);
+      }
+    });
+
+    const dims = [rows, seqLength];
+    const feeds: Record<string, ort.Tensor> = {
+      input_ids: new runtime.Tensor('int64', inputIds, dims),
+      attention_mask: new runtime.Tensor('int64', attentionMask, dims)
+    };
+    if (session.inputNames.includes('token_type_ids')) {
+      feeds.token_type_ids = new runtime.Tensor('int64', tokenTypeIds, dims);
+    }
+
+    let outputs: ort.InferenceSession.OnnxValueMapType;
+    try {
+      outputs = await session.run(feeds);
+    } catch (error) {
+      throw new RerankError(this.name, 'inference failed', error as Error);
+    }
+
+    // `[batch, 1]` relevance logits; for `[batch, 2]` classifiers use the "relevant" class
+    const logits = outputs[session.outputNames[0]];
+    const data = logits.data as Float32Array;
+    const width = data.length / rows;
+    return Array.from({ length: rows }, (_, row) => data[row * width + width - 1]);
+  }
+
+  private load(): Promise<LoadedModel> {
+    if (!this.loading) {
+      this.loading = this.loadModel();
+      // Allow a retry after a failed load
+      this.loading.catch(() => { this.loading = undefined; });
+    }
+    return this.loading;
+  }
+
+  private async loadModel(): Promise<LoadedModel> {
+    try {
+      const runtime = await import('onnxruntime-node');
+      const tokenizerConfig = readTokenizerConfig(this.modelDir);
+      const tokenizer = WordPieceTokenizer.fromVocabFile(this.vocabFile, {
+        lowercase: tokenizerConfig.do_lower_case ?? true,
+        maxLength: this.maxLength ?? Math.min(tokenizerConfig.model_max_length ?? 512, 512)
+      });
+      const session = await runtime.InferenceSession.create(this.modelFile);
+      return { runtime, session, tokenizer };
+    } catch (error) {
+      throw new RerankError(this.name, `failed to load model from ${this.modelDir}`, error as Error);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Result diversification for hybrid search.
+ *
+ * Ranking purely by hybrid score lets near-identical results (typically
+ * neighbouring chunks of one book) crowd out everything else. Two passes
+ * over the ranked candidates counter this:
+ *
+ * - **Per-document cap**: keeps the best `maxPerDocument` results of each
+ *   document and drops the rest, so lower-ranked results of other
+ *   documents move up.
+ * - **MMR** (Maximal Marginal Relevance): greedily picks the result that
+ *   maximises `λ · relevance − (1 − λ) · similarity`, where relevance is
+ *   the min-max normalized hybrid score (or, for reranked results, the
+ *   rank position) and similarity is the highest cosine similarity of the
+ *   result's embedding to an already picked one. λ = 1 keeps the relevance
+ *   order; lower values favour diversity.
+ */
+
+import type { SearchResult } from '../../domain/models/search-result.js';
+
+/**
+ * Keep at most `maxPerDocument` results per document (by `catalogId`),
+ * preserving the order.
+ *
+ * @param results - Ranked results
+ * @param maxPerDocument - Results to keep per document
+ */
+export function capPerDocument(results: SearchResult[], maxPerDocument: number): SearchResult[] {
+  const counts = new Map<number, number>();
+  return results.filter(result => {
+    const count = counts.get(result.catalogId) ?? 0;
+    counts.set(result.catalogId, count + 1);
+    return count < maxPerDocument;
+  });
+}
+
+/**
+ * Re-order ranked results by Maximal Marginal Relevance.
+ *
+ * The first `k` positions are picked by MMR; the remaining results follow
+ * in their original order. Results without an embedding count as
+ * dissimilar to everything.
+ *
+ * Relevance is the min-max normalized hybrid score. Reranked results (any
+ * result carrying a `rerankScore`) are in reranker order, which the hybrid
+ * score no longer reflects and which only covers the reranked head, so
+ * their relevance falls linearly with rank position instead.
+ *
+ * @param results - Ranked results
+ * @param lambda - Relevance/diversity trade-off in [0, 1]
+ * @param k - Number of results to pick (default: all)
+ * @returns Re-ordered results (scores are unchanged)
+ *
+ * @example
+ * ```typescript
+ * const diverse = diversifyByMMR(ranked, 0.7, 10);
+ * ```
+ */
+export function diversifyByMMR(results: SearchResult[], lambda: number, k: number = results.length): SearchResult[] {
+  if (results.length <= 1 || lambda >= 1) {
+    return results;
+  }
+
+  const relevance = relevanceOf(results);
+  const vectors = results.map(result => unitVector(result.embeddings));
+
+  // Highest similarity of each remaining candidate to the picked results
+  const maxSimilarity = new Array<number>(results.length).fill(0);
+  const remaining = new Set(results.map((_, i) => i));
+  const picked: number[] = [];
+
+  while (picked.length < Math.min(k, results.length)) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const i of remaining) {
+      const mmr = lambda * relevance[i] - (1 - lambda) * maxSimilarity[i];
+      if (mmr > bestScore) {
+        best = i;
+        bestScore = mmr;
+      }
+    }
+
+    picked.push(best);
+    remaining.delete(best);
+    for (const i of remaining) {
+      maxSimilarity[i] = Math.max(maxSimilarity[i], dot(vectors[i], vectors[best]));
+    }
+  }
+
+  return [
+    ...picked.map(i => results[i]),
+    ...results.filter((_, i) => remaining.has(i))
+  ];
+}
+
+/**
+ * Relevance of each ranked result in [0, 1]: the min-max normalized hybrid
+ * score, or the rank position once the results have been reranked.
+ */
+function relevanceOf(results: SearchResult[]): number[] {
+  if (results.some(result => result.rerankScore !== undefined)) {
+    return results.map((_, i) => 1 - i / (results.length - 1));
+  }
+  const scores = results.map(result => result.hybridScore);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return scores.map(score => (range > 0 ? (score - min) / range : 1));
+}
+
+/**
+ * Embedding scaled to unit length (empty when missing or zero). Stored
+ * embeddings may be Arrow Vectors from LanceDB.
+ */
+function unitVector(embedding: Iterable<number> | undefined): number[] {
+  const values = embedding ? Array.from(embedding) : [];
+  const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? values.map(v => v / norm) : [];
+}
+
+function dot(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -14,9 +14,15 @@
  * - Multi-term technical queries (specific enough already)
  * - Queries with strong concept matches (corpus signals sufficient)
  * - Queries with rare/specific terms (WordNet may not help)
+ * 
+ * The base weights come from configuration (`SearchConfig.weights`,
+ * defaulting to `DEFAULT_WEIGHTS`), optionally reshaped by a named weight
+ * profile, before the WordNet adjustment is applied.
  */
 
 import { ExpandedQuery } from './scoring-strategies.js';
+import type { WeightProfileName } from '../../domain/interfaces/services/hybrid-search-service.js';
+import type { SignalWeights } from '../../application/config/types.js';
 
 /**
  * Weight profile for a specific search type.
@@ -29,6 +35,15 @@ export interface WeightProfile {
   wordnetWeight: number;
 }
 
+/**
+ * Weight profiles for each search type.
+ */
+export interface WeightProfiles {
+  catalog: WeightProfile;
+  chunk: WeightProfile;
+  concept: WeightProfile;
+}
+
 /**
  * Query analysis result with characteristics.
  */
@@ -61,7 +76,7 @@ export interface QueryAnalysis {
 /**
  * Default weight profiles for each search type.
  */
-export const DEFAULT_WEIGHTS = {
+export const DEFAULT_WEIGHTS: WeightProfiles = {
   catalog: {
     vectorWeight: 0.30,
     bm25Weight: 0.25,
@@ -85,6 +100,97 @@ export const DEFAULT_WEIGHTS = {
   }
 };
 
+/**
+ * Per-signal multipliers of the named weight profiles.
+ * 
+ * Applied to the base weights and renormalized so the total weight is
+ * unchanged; signals with zero base weight stay at zero.
+ */
+export const NAMED_PROFILE_MULTIPLIERS: Record<WeightProfileName, WeightProfile> = {
+  default: {
+    vectorWeight: 1.0,
+    bm25Weight: 1.0,
+    titleWeight: 1.0,
+    conceptWeight: 1.0,
+    wordnetWeight: 1.0
+  },
+  precise: {
+    vectorWeight: 0.75,
+    bm25Weight: 1.5,
+    titleWeight: 1.5,
+    conceptWeight: 1.0,
+    wordnetWeight: 0.5
+  },
+  exploratory: {
+    vectorWeight: 1.25,
+    bm25Weight: 0.75,
+    titleWeight: 0.75,
+    conceptWeight: 1.25,
+    wordnetWeight: 1.5
+  }
+};
+
+/**
+ * Convert configured signal weights to a weight profile.
+ * 
+ * @param weights - Weights from `SearchConfig.weights`
+ * @returns Equivalent weight profile
+ */
+export function toWeightProfile(weights: SignalWeights): WeightProfile {
+  return {
+    vectorWeight: weights.vector,
+    bm25Weight: weights.bm25,
+    titleWeight: weights.title,
+    conceptWeight: weights.concept,
+    wordnetWeight: weights.wordnet
+  };
+}
+
+/**
+ * Reshape base weights with a named weight profile.
+ * 
+ * @param base - Base weights (configured or default)
+ * @param profile - Named profile (default: 'default', returns the base weights)
+ * @returns Weight profile with the same total weight as the base
+ */
+export function applyWeightProfile(
+  base: WeightProfile,
+  profile: WeightProfileName = 'default'
+): WeightProfile {
+  const multipliers = NAMED_PROFILE_MULTIPLIERS[profile];
+  if (!multipliers || profile === 'default') {
+    return { ...base };
+  }
+  
+  const scaled: WeightProfile = {
+    vectorWeight: base.vectorWeight * multipliers.vectorWeight,
+    bm25Weight: base.bm25Weight * multipliers.bm25Weight,
+    titleWeight: base.titleWeight * multipliers.titleWeight,
+    conceptWeight: base.conceptWeight * multipliers.conceptWeight,
+    wordnetWeight: base.wordnetWeight * multipliers.wordnetWeight
+  };
+  
+  const baseTotal = sumWeights(base);
+  const scaledTotal = sumWeights(scaled);
+  if (scaledTotal === 0) {
+    return { ...base };
+  }
+  
+  const factor = baseTotal / scaledTotal;
+  return {
+    vectorWeight: scaled.vectorWeight * factor,
+    bm25Weight: scaled.bm25Weight * factor,
+    titleWeight: scaled.titleWeight * factor,
+    conceptWeight: scaled.conceptWeight * factor,
+    wordnetWeight: scaled.wordnetWeight * factor
+  };
+}
+
+function sumWeights(weights: WeightProfile): number {
+  return weights.vectorWeight + weights.bm25Weight + weights.titleWeight +
+    weights.conceptWeight + weights.wordnetWeight;
+}
+
 /**
  * Maximum WordNet weight boost factor.
  * Prevents WordNet from dominating the score.
@@ -172,10 +278,14 @@ export function analyzeQuery(expanded: ExpandedQuery): QueryAnalysis {
  * Redistributes weight from lower-priority signals.
  * 
  * @param analysis - Query analysis result
+ * @param baseWeights - Weights to start from (default: DEFAULT_WEIGHTS.catalog)
  * @returns Adjusted weight profile
  */
-export function getAdjustedCatalogWeights(analysis: QueryAnalysis): WeightProfile {
-  const base = { ...DEFAULT_WEIGHTS.catalog };
+export function getAdjustedCatalogWeights(
+  analysis: QueryAnalysis,
+  baseWeights: WeightProfile = DEFAULT_WEIGHTS.catalog
+): WeightProfile {
+  const base = { ...baseWeights };
   
   if (analysis.wordnetBoostFactor === 1.0) {
     return base;
@@ -189,8 +299,8 @@ export function getAdjustedCatalogWeights(analysis: QueryAnalysis): WeightProfil
   // Redistribute weight from bm25 and title (lower priority for semantic queries)
   return {
     vectorWeight: base.vectorWeight,  // Keep semantic signal strong
-    bm25Weight: base.bm25Weight - (weightDelta * 0.5),
-    titleWeight: base.titleWeight - (weightDelta * 0.5),
+    bm25Weight: Math.max(base.bm25Weight - (weightDelta * 0.5), 0),
+    titleWeight: Math.max(base.titleWeight - (weightDelta * 0.5), 0),
     conceptWeight: base.conceptWeight,  // Keep concept signal
     wordnetWeight: newWordnetWeight
   };
@@ -200,10 +310,14 @@ export function getAdjustedCatalogWeights(analysis: QueryAnalysis): WeightProfil
  * Calculate adjusted weights for chunk search.
  * 
  * @param analysis - Query analysis result
+ * @param baseWeights - Weights to start from (default: DEFAULT_WEIGHTS.chunk)
  * @returns Adjusted weight profile
  */
-export function getAdjustedChunkWeights(analysis: QueryAnalysis): WeightProfile {
-  const base = { ...DEFAULT_WEIGHTS.chunk };
+export function getAdjustedChunkWeights(
+  analysis: QueryAnalysis,
+  baseWeights: WeightProfile = DEFAULT_WEIGHTS.chunk
+): WeightProfile {
+  const base = { ...baseWeights };
   
   if (analysis.wordnetBoostFactor === 1.0) {
     return base;
@@ -217,7 +331,7 @@ export function getAdjustedChunkWeights(analysis: QueryAnalysis): WeightProfile
   // Redistribute weight from bm25 (less important for semantic queries)
   return {
     vectorWeight: base.vectorWeight,  // Keep semantic signal strong
-    bm25Weight: base.bm25Weight - weightDelta,
+    bm25Weight: Math.max(base.bm25Weight - weightDelta, 0),
     titleWeight: base.titleWeight,
     conceptWeight: base.conceptWeight,  // Keep concept signal
     wordnetWeight: newWordnetWeight
@@ -228,10 +342,14 @@ export function getAdjustedChunkWeights(analysis: QueryAnalysis): WeightProfile
  * Calculate adjusted weights for concept search.
  * 
  * @param analysis - Query analysis result
+ * @param baseWeights - Weights to start from (default: DEFAULT_WEIGHTS.concept)
  * @returns Adjusted weight profile
  */
-export function getAdjustedConceptWeights(analysis: QueryAnalysis): WeightProfile {
-  const base = { ...DEFAULT_WEIGHTS.concept };
+export function getAdjustedConceptWeights(
+  analysis: QueryAnalysis,
+  baseWeights: WeightProfile = DEFAULT_WEIGHTS.concept
+): WeightProfile {
+  const base = { ...baseWeights };
   
   if (analysis.wordnetBoostFactor === 1.0) {
     return base;
@@ -245,7 +363,7 @@ export function getAdjustedConceptWeights(analysis: QueryAnalysis): WeightProfil
   // Redistribute weight from bm25
   return {
     vectorWeight: base.vectorWeight,
-    bm25Weight: Math.max(base.bm25Weight - weightDelta, 0.10),
+    bm25Weight: Math.max(base.bm25Weight - weightDelta, Math.min(base.bm25Weight, 0.10)),
     titleWeight: base.titleWeight,  // Keep name matching priority
     conceptWeight: base.conceptWeight,
     wordnetWeight: newWordnetWeight
@@ -0,0 +1,156 @@
+/**
+ * Fusion strategies for hybrid search.
+ *
+ * A fusion strategy combines the per-signal scores of every candidate into
+ * the final hybrid score. Signal scores live on very different scales
+ * (cosine-like vector scores, normalized BM25, sparse title/concept matches),
+ * so how they are combined matters as much as their weights:
+ *
+ * - **weighted**: weighted sum of the raw scores (the original behaviour).
+ *   Sensitive to score scale, so one noisy, high-variance signal can dominate.
+ * - **rrf**: weighted Reciprocal Rank Fusion. Each signal contributes
+ *   `weight / (k + rank)` where rank is the candidate's position for that
+ *   signal, so only the ordering within each signal matters.
+ *
+ * Both strategies report each signal's rank for debug output.
+ */
+
+import type { FusionMode } from '../../domain/interfaces/services/hybrid-search-service.js';
+import type { ScoreComponents } from './scoring-strategies.js';
+import { calculateDynamicHybridScore, type WeightProfile } from './dynamic-weights.js';
+
+/**
+ * Ranking signals, with the score and weight fields that belong to each.
+ */
+export const FUSION_SIGNALS = [
+  { name: 'vector', score: 'vectorScore', weight: 'vectorWeight' },
+  { name: 'bm25', score: 'bm25Score', weight: 'bm25Weight' },
+  { name: 'title', score: 'titleScore', weight: 'titleWeight' },
+  { name: 'concept', score: 'conceptScore', weight: 'conceptWeight' },
+  { name: 'wordnet', score: 'wordnetScore', weight: 'wordnetWeight' }
+] as const;
+
+export type SignalName = typeof FUSION_SIGNALS[number]['name'];
+
+/**
+ * 1-based rank of a candidate for each signal (undefined when the candidate
+ * has no score for that signal).
+ */
+export type SignalRanks = Partial<Record<SignalName, number>>;
+
+/**
+ * Fused score of one candidate.
+ */
+export interface FusedScore {
+  /** Final hybrid score from 0.0 to 1.0 */
+  score: number;
+  /** Rank of the candidate for each signal */
+  ranks: SignalRanks;
+}
+
+/**
+ * Strategy combining signal scores into a hybrid score.
+ */
+export interface FusionStrategy {
+  /** Strategy identifier */
+  readonly mode: FusionMode;
+
+  /**
+   * Fuse the signal scores of all candidates of one query.
+   *
+   * @param candidates - Score components of every candidate
+   * @param weights - Weight profile for the search type
+   * @returns Fused scores aligned with `candidates`
+   */
+  fuse(candidates: ScoreComponents[], weights: WeightProfile): FusedScore[];
+}
+
+/**
+ * Default RRF rank constant (from the original RRF paper). Larger values
+ * flatten the difference between top and lower ranks.
+ */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Weighted sum of raw signal scores.
+ */
+export class WeightedSumFusion implements FusionStrategy {
+  readonly mode = 'weighted' as const;
+
+  fuse(candidates: ScoreComponents[], weights: WeightProfile): FusedScore[] {
+    const ranks = rankSignals(candidates);
+    return candidates.map((components, i) => ({
+      score: calculateDynamicHybridScore(components, weights),
+      ranks: ranks[i]
+    }));
+  }
+}
+
+/**
+ * Weighted Reciprocal Rank Fusion.
+ *
+ * `score = Σ weight_s / (k + rank_s)` over the signals in which the candidate
+ * scored, divided by the best achievable value `Σ weight_s / (k + 1)` so the
+ * result stays in 0.0-1.0 like the weighted sum (1.0 = ranked first by
+ * every weighted signal).
+ */
+export class ReciprocalRankFusion implements FusionStrategy {
+  readonly mode = 'rrf' as const;
+
+  /**
+   * @param k - Rank constant (default: 60)
+   */
+  constructor(private readonly k: number = DEFAULT_RRF_K) {}
+
+  fuse(candidates: ScoreComponents[], weights: WeightProfile): FusedScore[] {
+    const ranks = rankSignals(candidates);
+    const best = FUSION_SIGNALS.reduce((sum, signal) => sum + weights[signal.weight] / (this.k + 1), 0);
+
+    return candidates.map((_, i) => {
+      let score = 0;
+      for (const signal of FUSION_SIGNALS) {
+        const rank = ranks[i][signal.name];
+        if (rank !== undefined) {
+          score += weights[signal.weight] / (this.k + rank);
+        }
+      }
+      return { score: best > 0 ? score / best : 0, ranks: ranks[i] };
+    });
+  }
+}
+
+/**
+ * Create the fusion strategy for a mode.
+ *
+ * @param mode - 'weighted' or 'rrf'
+ * @param options - Strategy options
+ * @param options.rrfK - RRF rank constant (default: 60)
+ */
+export function createFusionStrategy(mode: FusionMode, options: { rrfK?: number } = {}): FusionStrategy {
+  return mode === 'rrf'
+    ? new ReciprocalRankFusion(options.rrfK ?? DEFAULT_RRF_K)
+    : new WeightedSumFusion();
+}
+
+/**
+ * Rank candidates within each signal (highest score = rank 1, ties share a
+ * rank). Candidates with a zero score get no rank for that signal.
+ */
+function rankSignals(candidates: ScoreComponents[]): SignalRanks[] {
+  const ranks: SignalRanks[] = candidates.map(() => ({}));
+
+  for (const signal of FUSION_SIGNALS) {
+    const scores = candidates.map(candidate => candidate[signal.score]);
+    const order = scores
+      .map((score, i) => ({ score, i }))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    order.forEach((entry, position) => {
+      const tied = position > 0 && entry.score === order[position - 1].score;
+      ranks[entry.i][signal.name] = tied ? ranks[order[position - 1].i][signal.name] : position + 1;
+    });
+  }
+
+  return ranks;
+}
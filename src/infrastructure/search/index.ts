@@ -1,3 +1,8 @@
+export * from './analyzer.js';
 export * from './scoring-strategies.js';
+export * from './fusion-strategies.js';
 export * from './conceptual-hybrid-search-service.js';
 
+export * from './cross-encoder-reranker.js';
+export * from './llm-reranker.js';
+export * from './reranker-factory.js';
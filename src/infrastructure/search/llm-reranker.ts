@@ -0,0 +1,166 @@
+/**
+ * LLM Reranker
+ *
+ * Second-stage reranking by asking an LLM to grade every candidate passage
+ * for relevance to the query in a single request. Works with any
+ * OpenAI-compatible `POST {baseUrl}/chat/completions` API (OpenRouter by
+ * default, using the configured LLM credentials).
+ *
+ * **Request**: one user message listing the numbered passages (truncated to
+ * `maxDocumentChars`) and asking for a JSON array of 0-10 grades.
+ * **Response**: `[7, 2, 10, ...]`, one grade per passage in order; code
+ * fences or surrounding prose are tolerated.
+ *
+ * Every call runs through `ResilientExecutor` with the `LLM_RERANK` profile
+ * (short timeout, one retry, circuit breaker) under an overall `RERANK`
+ * deadline below the search timeout, since reranking sits on the
+ * interactive search path.
+ */
+
+import type { Reranker } from '../../domain/interfaces/services/reranker.js';
+import { MissingConfigError, RerankError } from '../../domain/exceptions/index.js';
+import { ResilientExecutor, ResilienceProfiles } from '../resilience/resilient-executor.js';
+import { TIMEOUTS, withTimeout } from '../resilience/timeout.js';
+import { RetryService } from '../utils/retry-service.js';
+
+/**
+ * Options for the LLM reranker.
+ */
+export interface LlmRerankerOptions {
+  /** API base URL including version prefix, e.g. `https://openrouter.ai/api/v1` */
+  baseUrl: string;
+  /** Bearer token */
+  apiKey?: string;
+  /** Chat model name */
+  model: string;
+  /** Characters of each passage sent to the model (default: 1000) */
+  maxDocumentChars?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+/**
+ * Reranker grading candidates with an LLM.
+ */
+export class LlmReranker implements Reranker {
+  readonly name: string;
+
+  private readonly endpoint: string;
+  private readonly maxDocumentChars: number;
+  private readonly resilientExecutor: ResilientExecutor;
+
+  /**
+   * @param options - Endpoint and model options
+   * @param resilientExecutor - Executor for HTTP calls (a private one is created if omitted)
+   * @throws {MissingConfigError} If no API key is configured
+   */
+  constructor(
+    private readonly options: LlmRerankerOptions,
+    resilientExecutor?: ResilientExecutor
+  ) {
+    if (!options.apiKey) {
+      throw new MissingConfigError('RERANK_API_KEY');
+    }
+    this.name = `llm:${options.model}`;
+    this.endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    this.maxDocumentChars = Math.max(1, options.maxDocumentChars ?? 1000);
+    this.resilientExecutor = resilientExecutor ?? new ResilientExecutor(new RetryService());
+  }
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+    return withTimeout(
+      () => this.resilientExecutor.execute(
+        () => this.requestGrades(query, documents),
+        {
+          ...ResilienceProfiles.LLM_RERANK,
+          name: 'llm_rerank'
+        }
+      ),
+      TIMEOUTS.RERANK,
+      'llm_rerank'
+    );
+  }
+
+  /**
+   * Perform a single grading request (wrapped with resilience by the caller).
+   */
+  private async requestGrades(query: string, documents: string[]): Promise<number[]> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.options.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: this.options.model,
+          messages: [{ role: 'user', content: this.buildPrompt(query, documents) }],
+          temperature: 0,
+          max_tokens: 64 + documents.length * 8
+        })
+      });
+    } catch (error) {
+      throw new RerankError(this.name, 'request failed', error as Error);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new RerankError(
+        this.name,
+        `API error ${response.status} ${response.statusText}`,
+        new Error(errorText.substring(0, 500))
+      );
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    return this.parseGrades(data.choices?.[0]?.message?.content ?? '', documents.length);
+  }
+
+  private buildPrompt(query: string, documents: string[]): string {
+    const passages = documents
+      .map((document, i) => `[${i + 1}] ${document.replace(/\s+/g, ' ').trim().substring(0, this.maxDocumentChars)}`)
+      .join('\n\n');
+
+    return `Grade how relevant each passage is to the search query, from 0 (irrelevant) to 10 (directly answers it).
+
+Query: ${query}
+
+Passages:
+${passages}
+
+Respond with only a JSON array of ${documents.length} numbers, one grade per passage in the order given, e.g. [7, 0, 10].`;
+  }
+
+  /**
+   * Extract the grade array from the model output.
+   *
+   * @throws {RerankError} If no array with one number per passage is found
+   */
+  private parseGrades(content: string, expected: number): number[] {
+    const match = content.match(/\[[^[\]]*\]/);
+    let grades: unknown;
+    try {
+      grades = match ? JSON.parse(match[0]) : undefined;
+    } catch {
+      grades = undefined;
+    }
+
+    if (
+      !Array.isArray(grades) ||
+      grades.length !== expected ||
+      !grades.every(grade => typeof grade === 'number' && Number.isFinite(grade))
+    ) {
+      throw new RerankError(
+        this.name,
+        `expected a JSON array of ${expected} grades, got: ${content.substring(0, 200)}`
+      );
+    }
+    return grades;
+  }
+}
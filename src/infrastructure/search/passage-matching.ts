@@ -0,0 +1,170 @@
+/**
+ * Passage Matching
+ *
+ * Finds where a passage (a quote, paraphrase or pasted paragraph) occurs in
+ * a chunk of text:
+ *
+ * 1. **Shingles**: runs of three analyzed terms (see {@link analyzeTokens}),
+ *    hashed. A passage quoted from a chunk shares its shingles with the
+ *    chunk, so an index of chunk shingles built at seed time finds the
+ *    chunks a passage was quoted from without scanning them; stop words and
+ *    inflections do not break a shingle.
+ * 2. **Alignment**: a local alignment (Smith-Waterman) of the passage's
+ *    words with a chunk's words locates the best matching span, tolerating
+ *    inserted, dropped and changed words, with the character offsets of the
+ *    span in the chunk text.
+ *
+ * Words are compared as stems, so inflections ("patterns", "pattern") match.
+ */
+
+import type { PassageAlignment } from '../../domain/models/passage-match.js';
+import { analyzeTokens, stem } from './analyzer.js';
+import { hashToId } from '../utils/hash.js';
+
+/** Terms per shingle */
+export const SHINGLE_SIZE = 3;
+
+/** Alignment score of a matching word */
+const MATCH_SCORE = 2;
+
+/** Alignment penalty of a changed word */
+const MISMATCH_PENALTY = 1;
+
+/** Alignment penalty of a word missing on either side */
+const GAP_PENALTY = 1;
+
+/** A word of a text with its stem and position */
+interface Word {
+  word: string;
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Shingle a text: the hashes of its runs of {@link SHINGLE_SIZE} terms.
+ *
+ * Texts with fewer than {@link SHINGLE_SIZE} terms have no shingles.
+ *
+ * @param text - Text to shingle
+ * @returns Distinct shingle hashes in text order
+ *
+ * @example
+ * ```typescript
+ * const shingles = passageShingles('A class should have only one reason to change.');
+ * ```
+ */
+export function passageShingles(text: string): number[] {
+  const terms = analyzeTokens(text).map(token => token.term);
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= terms.length; i++) {
+    shingles.add(hashToId(terms.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return Array.from(shingles);
+}
+
+/**
+ * Align a passage with a text: the span of the text best matching a part
+ * of the passage.
+ *
+ * @param passage - Passage to find
+ * @param text - Text to search
+ * @returns The best matching span, or undefined if no word matches
+ *
+ * @example
+ * ```typescript
+ * const alignment = alignPassage('only one reason to change', chunk.text);
+ * if (alignment) {
+ *   console.log(chunk.text.slice(alignment.start, alignment.end), alignment.coverage);
+ * }
+ * ```
+ */
+export function alignPassage(passage: string, text: string): PassageAlignment | undefined {
+  const passageWords = words(passage);
+  const textWords = words(text);
+  if (passageWords.length === 0 || textWords.length === 0) {
+    return undefined;
+  }
+
+  // Smith-Waterman over rows of the passage, tracking each cell's alignment
+  // start and matched words instead of a traceback matrix
+  const columns = textWords.length + 1;
+  let previous = { score: new Int32Array(columns), from: new Int32Array(columns), passageFrom: new Int32Array(columns), matched: new Int32Array(columns) };
+  let current = { score: new Int32Array(columns), from: new Int32Array(columns), passageFrom: new Int32Array(columns), matched: new Int32Array(columns) };
+  let best = { score: 0, passageEnd: 0, textEnd: 0, passageFrom: 0, textFrom: 0, matched: 0 };
+
+  for (let i = 1; i <= passageWords.length; i++) {
+    current.score[0] = 0;
+    for (let j = 1; j < columns; j++) {
+      const isMatch = passageWords[i - 1].term === textWords[j - 1].term;
+      const diagonal = previous.score[j - 1] + (isMatch ? MATCH_SCORE : -MISMATCH_PENALTY);
+      const up = previous.score[j] - GAP_PENALTY;
+      const left = current.score[j - 1] - GAP_PENALTY;
+      const score = Math.max(0, diagonal, up, left);
+
+      current.score[j] = score;
+      if (score === 0) {
+        current.from[j] = j;
+        current.passageFrom[j] = i;
+        current.matched[j] = 0;
+      } else if (score === diagonal) {
+        const starts = previous.score[j - 1] === 0;
+        current.from[j] = starts ? j - 1 : previous.from[j - 1];
+        current.passageFrom[j] = starts ? i - 1 : previous.passageFrom[j - 1];
+        current.matched[j] = (starts ? 0 : previous.matched[j - 1]) + (isMatch ? 1 : 0);
+      } else if (score === up) {
+        current.from[j] = previous.from[j];
+        current.passageFrom[j] = previous.passageFrom[j];
+        current.matched[j] = previous.matched[j];
+      } else {
+        current.from[j] = current.from[j - 1];
+        current.passageFrom[j] = current.passageFrom[j - 1];
+        current.matched[j] = current.matched[j - 1];
+      }
+
+      if (isMatch && score > best.score) {
+        best = {
+          score,
+          passageEnd: i,
+          textEnd: j,
+          passageFrom: current.passageFrom[j],
+          textFrom: current.from[j],
+          matched: current.matched[j]
+        };
+      }
+    }
+    [previous, current] = [current, previous];
+  }
+
+  if (best.score === 0) {
+    return undefined;
+  }
+
+  const span = textWords.slice(best.textFrom, best.textEnd);
+  const exact = best.matched === passageWords.length &&
+    span.length === passageWords.length &&
+    span.every((word, i) => word.word === passageWords[i].word);
+
+  return {
+    start: textWords[best.textFrom].start,
+    end: textWords[best.textEnd - 1].end,
+    passageStart: passageWords[best.passageFrom].start,
+    passageEnd: passageWords[best.passageEnd - 1].end,
+    matchedWords: best.matched,
+    coverage: best.matched / passageWords.length,
+    exact
+  };
+}
+
+/**
+ * Split text into lowercase words with their stems and positions (stop
+ * words included, so the span covers the quoted wording).
+ */
+function words(text: string): Word[] {
+  const result: Word[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].toLowerCase();
+    result.push({ word, term: stem(word), start: match.index!, end: match.index! + match[0].length });
+  }
+  return result;
+}
@@ -0,0 +1,140 @@
+/**
+ * Porter Stemmer
+ *
+ * The original Porter (1980) suffix-stripping algorithm for English:
+ * reduces inflected and derived words to a common stem, so "architecture"
+ * and "architectures" both become "architectur" and "connection",
+ * "connected" and "connecting" become "connect". Stems are not words;
+ * they are only compared with other stems.
+ *
+ * @see https://tartarus.org/martin/PorterStemmer/
+ */
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble',
+  alli: 'al', entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate',
+  ator: 'ate', alism: 'al', iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al',
+  iviti: 'ive', biliti: 'ble', logi: 'log'
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: ''
+};
+
+// Consonant/vowel sequences: [C](VC){m}[V], where m is the word's "measure"
+const CONSONANT = '[^aeiou]';
+const VOWEL = '[aeiouy]';
+const CONSONANTS = `${CONSONANT}[^aeiouy]*`;
+const VOWELS = `${VOWEL}[aeiou]*`;
+
+/** m > 0 */
+const MEASURE_GT_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+/** m = 1 */
+const MEASURE_EQ_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+/** m > 1 */
+const MEASURE_GT_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+/** The stem contains a vowel */
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`);
+/** The stem ends consonant-vowel-consonant, the last not w, x or y */
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`);
+
+const STEP1A_SSES_IES = /^(.+?)(ss|i)es$/;
+const STEP1A_S = /^(.+?)([^s])s$/;
+const STEP1B_EED = /^(.+?)eed$/;
+const STEP1B_ED_ING = /^(.+?)(ed|ing)$/;
+const STEP1B_RESTORE_E = /(at|bl|iz)$/;
+const STEP1B_DOUBLE = /([^aeiouylsz])\1$/;
+const STEP1C_Y = /^(.+?)y$/;
+const STEP2 = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/;
+const STEP3 = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/;
+const STEP4 = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/;
+const STEP4_ION = /^(.+?)(s|t)(ion)$/;
+const STEP5_E = /^(.+?)e$/;
+
+/**
+ * Stem a lowercase English word.
+ *
+ * Words shorter than three letters and words with characters other than
+ * a-z (digits, accented letters) are returned unchanged.
+ *
+ * @param word - Lowercase word
+ * @returns The word's stem
+ */
+export function porterStem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  // An initial y is a consonant: mark it so the vowel patterns skip it
+  const initialY = word[0] === 'y';
+  let w = initialY ? `Y${word.slice(1)}` : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = STEP1A_SSES_IES.exec(w))) {
+    w = match[1] + match[2];
+  } else if ((match = STEP1A_S.exec(w))) {
+    w = match[1] + match[2];
+  }
+
+  // Step 1b: past tense and progressive
+  if ((match = STEP1B_EED.exec(w))) {
+    if (MEASURE_GT_0.test(match[1])) {
+      w = w.slice(0, -1);
+    }
+  } else if ((match = STEP1B_ED_ING.exec(w))) {
+    const stem = match[1];
+    if (HAS_VOWEL.test(stem)) {
+      w = stem;
+      if (STEP1B_RESTORE_E.test(w)) {
+        w += 'e';
+      } else if (STEP1B_DOUBLE.test(w)) {
+        w = w.slice(0, -1);
+      } else if (ENDS_CVC.test(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: terminal y to i
+  if ((match = STEP1C_Y.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = `${match[1]}i`;
+  }
+
+  // Step 2: double suffixes
+  if ((match = STEP2.exec(w)) && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+
+  // Step 3: -ic-, -full, -ness
+  if ((match = STEP3.exec(w)) && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+
+  // Step 4: -ant, -ence, ...
+  if ((match = STEP4.exec(w))) {
+    if (MEASURE_GT_1.test(match[1])) {
+      w = match[1];
+    }
+  } else if ((match = STEP4_ION.exec(w))) {
+    const stem = match[1] + match[2];
+    if (MEASURE_GT_1.test(stem)) {
+      w = stem;
+    }
+  }
+
+  // Step 5a: final e
+  if ((match = STEP5_E.exec(w))) {
+    const stem = match[1];
+    if (MEASURE_GT_1.test(stem) || (MEASURE_EQ_1.test(stem) && !ENDS_CVC.test(stem))) {
+      w = stem;
+    }
+  }
+
+  // Step 5b: final ll
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  return initialY ? `y${w.slice(1)}` : w;
+}
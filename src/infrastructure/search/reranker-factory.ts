@@ -0,0 +1,61 @@
+/**
+ * Reranker Factory
+ *
+ * Creates the configured second-stage reranker (`RERANK_PROVIDER`):
+ * - `none` (default): no reranking
+ * - `cross-encoder`: local ONNX cross-encoder (`RERANK_MODEL`, `RERANK_MODEL_PATH`)
+ * - `llm`: LLM grading over the OpenAI-compatible chat API, defaulting to the
+ *   configured OpenRouter endpoint, key and summary model
+ */
+
+import type { Reranker } from '../../domain/interfaces/services/reranker.js';
+import type { LLMConfig, RerankConfig } from '../../application/config/types.js';
+import { InvalidConfigError } from '../../domain/exceptions/index.js';
+import type { ResilientExecutor } from '../resilience/resilient-executor.js';
+import { CrossEncoderReranker } from './cross-encoder-reranker.js';
+import { LlmReranker } from './llm-reranker.js';
+
+/**
+ * Create the reranker described by a configuration.
+ *
+ * @param config - Rerank configuration
+ * @param llmConfig - LLM configuration (defaults for the LLM reranker)
+ * @param resilientExecutor - Optional executor for LLM calls
+ * @returns The reranker, or undefined when reranking is disabled
+ * @throws {InvalidConfigError} If the provider is unknown or the cross-encoder files are missing
+ * @throws {MissingConfigError} If the LLM reranker has no API key
+ */
+export function createReranker(
+  config: RerankConfig,
+  llmConfig: LLMConfig,
+  resilientExecutor?: ResilientExecutor
+): Reranker | undefined {
+  switch (config.provider.toLowerCase()) {
+    case 'none':
+    case '':
+      return undefined;
+
+    case 'cross-encoder':
+      return new CrossEncoderReranker({
+        model: config.model,
+        modelPath: config.modelPath
+      });
+
+    case 'llm':
+      return new LlmReranker(
+        {
+          baseUrl: config.baseUrl || llmConfig.baseUrl,
+          apiKey: config.apiKey || llmConfig.apiKey,
+          model: config.model || llmConfig.summaryModel
+        },
+        resilientExecutor
+      );
+
+    default:
+      throw new InvalidConfigError(
+        'RERANK_PROVIDER',
+        config.provider,
+        'must be one of: none, cross-encoder, llm'
+      );
+  }
+}
@@ -5,6 +5,9 @@
  * These are combined in a weighted manner to produce the final hybrid score.
  */
 
+import type { MatchSpan, MatchTermKind, SpellingCorrection } from '../../domain/models/search-result.js';
+import { analyze, analyzeTokens, containsStemSequence, findStemSequence, stemsOverlap, termsOverlap } from './analyzer.js';
+
 export interface ScoreComponents {
   vectorScore: number;
   bm25Score: number;
@@ -20,6 +23,7 @@ export interface ExpandedQuery {
   wordnet_terms: string[];
   all_terms: string[];
   weights: Map<string, number>;
+  corrections?: SpellingCorrection[];
 }
 
 /**
@@ -41,6 +45,11 @@ export function calculateVectorScore(distance: number): number {
  * - Document length (normalize for longer documents)
  * - Term importance (via weights from query expansion)
  * 
+ * Terms and text are compared as stems (see analyzer), so "architectures"
+ * matches "architecture" but "war" does not match "warfare". Multi-word
+ * terms count occurrences of the whole phrase; terms made only of stop
+ * words are ignored.
+ * 
  * @param terms - Search terms to score
  * @param weights - Weight for each term (from query expansion)
  * @param docText - Document text to score against
@@ -58,32 +67,21 @@ export function calculateWeightedBM25(
   const k1 = 1.5;  // Term frequency saturation parameter
   const b = 0.75;  // Document length normalization
   
-  const combinedText = `${docText} ${docSource}`.toLowerCase();
-  // Tokenize into words, removing punctuation
-  const docWords = combinedText.split(/[\s.,;:!?()[\]{}'"]+/).filter(w => w.length > 0);
+  const docStems = analyze(`${docText} ${docSource}`);
   const avgDocLength = 100;  // Approximate average
-  const docLength = docWords.length;
+  const docLength = docStems.length;
   
   let rawScore = 0;
+  let termsScored = 0;
   let termsMatched = 0;
   
   for (const term of terms) {
-    const termLower = term.toLowerCase();
-    const weight = weights.get(termLower) || 0.5;  // Default weight
+    const termStems = analyze(term);
+    if (termStems.length === 0) continue;
+    termsScored++;
     
-    // Count term frequency with stricter matching:
-    // - Exact word match gets full score
-    // - Word starts with term (prefix match) gets partial score
-    let termFreq = 0;
-    for (const word of docWords) {
-      if (word === termLower) {
-        termFreq += 1.0;  // Exact match
-      } else if (word.startsWith(termLower) && termLower.length >= 3) {
-        termFreq += 0.5;  // Prefix match (e.g., "war" matches "warfare")
-      } else if (termLower.length >= 4 && word.length >= 4 && word.includes(termLower)) {
-        termFreq += 0.25;  // Substring match (only for longer terms)
-      }
-    }
+    const weight = weights.get(term.toLowerCase()) || 0.5;  // Default weight
+    const termFreq = findStemSequence(docStems, termStems).length;
     
     if (termFreq > 0) {
       termsMatched++;
@@ -100,7 +98,7 @@ export function calculateWeightedBM25(
   // Normalize: consider both the raw BM25 score and term coverage
   // - termCoverage: what fraction of query terms matched (rewards comprehensive matches)
   // - rawScore is already weighted, normalize by expected max (roughly 2.5 per matching term)
-  const termCoverage = termsMatched / terms.length;
+  const termCoverage = termsMatched / termsScored;
   const expectedMaxPerTerm = 2.5;  // BM25 saturates around this value per term
   const normalizedRaw = rawScore / (termsMatched * expectedMaxPerTerm);
   
@@ -111,11 +109,28 @@ export function calculateWeightedBM25(
   return Math.min(Math.max(finalScore, 0), 1.0);
 }
 
+/**
+ * Normalize a native full-text (BM25) score to 0.0-1.0.
+ * 
+ * The full-text index scores with real corpus statistics (IDF, average
+ * document length), but raw BM25 is unbounded, so scores are scaled by the
+ * best full-text match of the same query.
+ * 
+ * @param score - Raw BM25 score of the document (0 if not matched)
+ * @param maxScore - Highest raw BM25 score among the query's matches
+ * @returns Normalized score from 0.0 to 1.0
+ */
+export function calculateFullTextScore(score: number, maxScore: number): number {
+  if (maxScore <= 0 || score <= 0) return 0;
+  return Math.min(score / maxScore, 1.0);
+}
+
 /**
  * Calculate title matching score.
  * 
  * Gives high scores to documents whose titles contain query terms.
- * Uses word boundary matching to avoid false positives (e.g., "war" in "software").
+ * Compares stems, so "architectures" matches an "Architecture" title while
+ * "war" does not match "Software" or "Warfare".
  * Important for document-level search (catalog).
  * 
  * @param terms - Original query terms
@@ -126,38 +141,33 @@ export function calculateTitleScore(terms: string[], source: string): number {
   if (!source || terms.length === 0) return 0;
   
   const filename = source.split('/').pop() || source;
-  // Tokenize filename into words (split on non-alphanumeric characters)
-  const filenameWords = filename.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 0);
-  const sourceWords = source.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 0);
+  const filenameStems = analyze(filename);
+  const sourceStems = analyze(source);
   
   let matches = 0;
+  let termsScored = 0;
   for (const term of terms) {
-    const termLower = term.toLowerCase();
-    // Check for whole word match in filename
-    if (filenameWords.includes(termLower)) {
+    const termStems = analyze(term);
+    if (termStems.length === 0) continue;
+    termsScored++;
+    
+    if (containsStemSequence(filenameStems, termStems)) {
       matches += 2;  // Double weight for filename matches
-    } else if (sourceWords.includes(termLower)) {
+    } else if (containsStemSequence(sourceStems, termStems)) {
       matches += 1;  // Single weight for path matches
-    } else {
-      // Partial match: term is prefix of a word (e.g., "architect" matches "architecture")
-      const hasFilenamePrefix = filenameWords.some(w => w.startsWith(termLower) && termLower.length >= 4);
-      const hasSourcePrefix = sourceWords.some(w => w.startsWith(termLower) && termLower.length >= 4);
-      if (hasFilenamePrefix) {
-        matches += 1;  // Reduced weight for prefix match
-      } else if (hasSourcePrefix) {
-        matches += 0.5;
-      }
     }
   }
+  if (termsScored === 0) return 0;
   
   // Normalize by number of terms (bonus for multiple matches)
-  return Math.min(matches / (terms.length * 2), 1.0);
+  return Math.min(matches / (termsScored * 2), 1.0);
 }
 
 /**
  * Calculate name matching score (for concept search).
  * 
- * Gives high scores to concepts whose names contain query terms.
+ * Gives high scores to concepts whose names contain query terms,
+ * compared as stems ("microservices" equals "microservice").
  * Used instead of titleScore for concept search.
  * 
  * @param terms - Original query terms
@@ -167,25 +177,27 @@ export function calculateTitleScore(terms: string[], source: string): number {
 export function calculateNameScore(terms: string[], name: string): number {
   if (!name || terms.length === 0) return 0;
   
-  const nameLower = name.toLowerCase();
+  const nameStems = analyze(name);
+  if (nameStems.length === 0) return 0;
   
   let matches = 0;
   let exactMatch = false;
   
   for (const term of terms) {
-    const termLower = term.toLowerCase();
+    const termStems = analyze(term);
+    if (termStems.length === 0) continue;
     
     // Check for exact match (concept name equals query term)
-    if (nameLower === termLower) {
+    if (termStems.length === nameStems.length && containsStemSequence(nameStems, termStems)) {
       exactMatch = true;
       matches += 3;  // Triple weight for exact match
     }
-    // Check for substring match
-    else if (nameLower.includes(termLower)) {
-      matches += 2;  // Double weight for substring
+    // Check for the name containing the term
+    else if (containsStemSequence(nameStems, termStems)) {
+      matches += 2;  // Double weight for partial name match
     }
     // Check for term containing concept name (e.g., "dependency injection patterns" contains "dependency injection")
-    else if (termLower.includes(nameLower)) {
+    else if (containsStemSequence(termStems, nameStems)) {
       matches += 1.5;
     }
   }
@@ -203,7 +215,8 @@ export function calculateNameScore(terms: string[], name: string): number {
  * Calculate concept matching score.
  * 
  * Scores documents based on concept alignment between query and document.
- * Uses fuzzy matching to handle variations.
+ * A query term matches a document concept when either contains the other
+ * (compared as stems).
  * 
  * @param expanded - Expanded query with terms and weights
  * @param result - Search result with concepts metadata
@@ -217,11 +230,8 @@ export function calculateConceptScore(
     const metadata = result.concepts;
     if (!metadata) return 0;
     
-    // Get all document concepts
-    const allConcepts = (metadata.primary_concepts || [])
-      .map((c: string) => c.toLowerCase());
-    
-    if (allConcepts.length === 0) return 0;
+    const primaryConcepts: string[] = metadata.primary_concepts || [];
+    if (primaryConcepts.length === 0) return 0;
     
     // Only use original terms + concept terms for concept scoring
     // (not corpus/wordnet terms which may be unrelated)
@@ -232,15 +242,18 @@ export function calculateConceptScore(
     
     if (relevantTerms.length === 0) return 0;
     
+    // Get all document concepts
+    const allConcepts = primaryConcepts.map(c => analyze(c));
+    
     let weightedScore = 0;
     
     // Match query terms against document concepts
     for (const queryConcept of relevantTerms) {
       const queryWeight = expanded.weights.get(queryConcept) || 0.5;
+      const queryStems = analyze(queryConcept);
       
-      // Fuzzy matching
       for (const docConcept of allConcepts) {
-        if (docConcept.includes(queryConcept) || queryConcept.includes(docConcept)) {
+        if (stemsOverlap(docConcept, queryStems)) {
           weightedScore += queryWeight;
           break;  // Count each query term once
         }
@@ -270,11 +283,11 @@ export function calculateWordNetBonus(
 ): number {
   if (wordnetTerms.length === 0) return 0;
   
-  const docLower = docText.toLowerCase();
+  const docStems = analyze(docText);
   let matches = 0;
   
   for (const term of wordnetTerms) {
-    if (docLower.includes(term.toLowerCase())) {
+    if (containsStemSequence(docStems, analyze(term))) {
       matches++;
     }
   }
@@ -282,6 +295,66 @@ export function calculateWordNetBonus(
   return matches / Math.max(wordnetTerms.length, 1);
 }
 
+/** Kinds of query terms, in precedence order for terms of several kinds */
+const MATCH_TERM_KINDS: readonly MatchTermKind[] = ['original', 'concept', 'corpus', 'wordnet'];
+
+/**
+ * Find where the expanded query terms match a document's text, for
+ * highlighting.
+ * 
+ * Uses the same matching as the scores: a term matches where its stems
+ * occur as a run of the document's stems (see analyzer), and the span
+ * covers the matched document words as written. A term of several kinds is reported as the first of original, concept,
+ * corpus and WordNet. Overlapping matches keep the earliest, longest one.
+ * 
+ * @param expanded - Expanded query
+ * @param docText - Document text
+ * @returns Non-overlapping spans ordered by position
+ */
+export function findMatchSpans(expanded: ExpandedQuery, docText: string): MatchSpan[] {
+  const tokens = analyzeTokens(docText);
+  const docStems = tokens.map(token => token.term);
+  const termsByKind: Record<MatchTermKind, string[]> = {
+    original: expanded.original_terms,
+    concept: expanded.concept_terms,
+    corpus: expanded.corpus_terms,
+    wordnet: expanded.wordnet_terms
+  };
+  
+  const candidates: MatchSpan[] = [];
+  const seen = new Set<string>();
+  for (const kind of MATCH_TERM_KINDS) {
+    for (const rawTerm of termsByKind[kind]) {
+      const term = rawTerm.toLowerCase().trim();
+      if (term.length === 0 || seen.has(term)) continue;
+      seen.add(term);
+      
+      const termStems = analyze(term);
+      for (const position of findStemSequence(docStems, termStems)) {
+        candidates.push({
+          start: tokens[position].start,
+          end: tokens[position + termStems.length - 1].end,
+          term,
+          kind
+        });
+      }
+    }
+  }
+  
+  candidates.sort((a, b) =>
+    a.start - b.start ||
+    (b.end - b.start) - (a.end - a.start) ||
+    MATCH_TERM_KINDS.indexOf(a.kind) - MATCH_TERM_KINDS.indexOf(b.kind)
+  );
+  const spans: MatchSpan[] = [];
+  for (const span of candidates) {
+    if (spans.length === 0 || span.start >= spans[spans.length - 1].end) {
+      spans.push(span);
+    }
+  }
+  return spans;
+}
+
 /**
  * Calculate hybrid score for catalog/document search.
  * 
@@ -357,7 +430,7 @@ export function calculateConceptHybridScore(components: ScoreComponents): number
  * Calculate concept match score from expanded concept terms.
  * 
  * Scores documents based on how many of the query's expanded concept terms
- * match the document's concept names.
+ * match the document's concept names (compared as stems).
  * 
  * @param conceptTerms - Expanded concept terms from QueryExpander
  * @param docConceptNames - Document's concept names (concept_names field)
@@ -369,24 +442,26 @@ export function calculateConceptMatchScore(
 ): number {
   if (conceptTerms.length === 0 || docConceptNames.length === 0) return 0;
   
-  const docConceptsLower = docConceptNames
+  const docConceptStems = docConceptNames
     .filter(c => c && c.length > 0)
-    .map(c => c.toLowerCase());
+    .map(c => analyze(c))
+    .filter(stems => stems.length > 0);
   
-  if (docConceptsLower.length === 0) return 0;
+  if (docConceptStems.length === 0) return 0;
   
   let matches = 0;
   
   for (const term of conceptTerms) {
-    const termLower = term.toLowerCase();
+    const termStems = analyze(term);
+    if (termStems.length === 0) continue;
     
     // Check for any matching concepts
-    for (const docConcept of docConceptsLower) {
+    for (const docConcept of docConceptStems) {
       // Exact match or partial match (term is part of concept or vice versa)
-      if (docConcept === termLower) {
+      if (docConcept.length === termStems.length && containsStemSequence(docConcept, termStems)) {
         matches += 1.5;  // Exact match gets bonus
         break;
-      } else if (docConcept.includes(termLower) || termLower.includes(docConcept)) {
+      } else if (containsStemSequence(docConcept, termStems) || containsStemSequence(termStems, docConcept)) {
         matches += 1;
         break;  // Count each term once
       }
@@ -416,19 +491,14 @@ export function calculateSynonymMatchScore(
 ): number {
   if (queryTerms.length === 0) return 0;
   
-  const allRelated = [
-    ...synonyms.map(s => s.toLowerCase()),
-    ...broaderTerms.map(s => s.toLowerCase()),
-    ...narrowerTerms.map(s => s.toLowerCase())
-  ];
+  const allRelated = [...synonyms, ...broaderTerms, ...narrowerTerms];
   
   if (allRelated.length === 0) return 0;
   
   let matches = 0;
   for (const term of queryTerms) {
-    const termLower = term.toLowerCase();
     for (const related of allRelated) {
-      if (related.includes(termLower) || termLower.includes(related)) {
+      if (termsOverlap(related, term)) {
         matches++;
         break;
       }
@@ -482,11 +552,9 @@ export function getMatchedConcepts(
     const matched: string[] = [];
     
     for (const queryConcept of expanded.all_terms) {
-      const queryLower = queryConcept.toLowerCase();
       for (const docConcept of allConcepts) {
         if (!docConcept || docConcept === '') continue;
-        const docLower = docConcept.toLowerCase();
-        if (docLower.includes(queryLower) || queryLower.includes(docLower)) {
+        if (termsOverlap(docConcept, queryConcept)) {
           matched.push(docConcept);
         }
       }
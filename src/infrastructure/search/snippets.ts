@@ -0,0 +1,144 @@
+/**
+ * Query-focused snippets for search results.
+ *
+ * A snippet is the window of a result's text that covers the most, and
+ * most relevant, query term matches (see {@link findMatchSpans}). Showing
+ * it instead of the whole chunk or summary cuts the tokens an agent has to
+ * read while keeping the evidence for the match.
+ */
+
+import type { MatchSpan, MatchTermKind } from '../../domain/models/search-result.js';
+
+/** Default maximum snippet length in characters */
+export const DEFAULT_SNIPPET_LENGTH = 200;
+
+/** Characters of text kept before the first match of a window */
+const LEAD_IN = 30;
+
+/** Relevance of a matched term by kind */
+const KIND_WEIGHTS: Record<MatchTermKind, number> = {
+  original: 1.0,
+  concept: 0.8,
+  corpus: 0.6,
+  wordnet: 0.4
+};
+
+/**
+ * A window of a result's text.
+ */
+export interface Snippet {
+  /** Text of the window */
+  text: string;
+
+  /** Offset of the window in the full text */
+  start: number;
+
+  /** Offset after the window in the full text */
+  end: number;
+
+  /** Matches inside the window, with offsets relative to `text` */
+  spans: MatchSpan[];
+}
+
+/**
+ * Select the best-matching window of a text.
+ *
+ * Each window starting shortly before a match is scored by the distinct
+ * terms it contains (weighted by kind, original query terms highest) plus
+ * a small bonus per match; the best window is trimmed to word boundaries.
+ * Without matches the snippet is the start of the text.
+ *
+ * @param text - Full text
+ * @param spans - Matches in the text, ordered by position
+ * @param maxLength - Maximum snippet length in characters
+ *
+ * @example
+ * ```typescript
+ * const snippet = extractSnippet(result.text, result.matchSpans ?? []);
+ * console.log(highlightSnippet(snippet, result.text.length));
+ * ```
+ */
+export function extractSnippet(text: string, spans: MatchSpan[], maxLength: number = DEFAULT_SNIPPET_LENGTH): Snippet {
+  if (text.length <= maxLength) {
+    return { text, start: 0, end: text.length, spans };
+  }
+
+  let bestStart = 0;
+  let bestScore = 0;
+  for (const anchor of spans) {
+    const start = Math.max(0, Math.min(anchor.start - LEAD_IN, text.length - maxLength));
+    const score = windowScore(spans, start, start + maxLength);
+    if (score > bestScore) {
+      bestStart = start;
+      bestScore = score;
+    }
+  }
+
+  const inside = spans.filter(span => span.start >= bestStart && span.end <= bestStart + maxLength);
+  const { start, end } = trimToWords(text, bestStart, bestStart + maxLength, inside);
+  return {
+    text: text.slice(start, end),
+    start,
+    end,
+    spans: inside.map(span => ({ ...span, start: span.start - start, end: span.end - start }))
+  };
+}
+
+/**
+ * Render a snippet as plain text with matches in `**bold**`, whitespace
+ * collapsed, and `…` where the full text continues.
+ *
+ * @param snippet - Snippet to render
+ * @param textLength - Length of the full text
+ */
+export function highlightSnippet(snippet: Snippet, textLength: number): string {
+  let rendered = '';
+  let position = 0;
+  for (const span of snippet.spans) {
+    rendered += snippet.text.slice(position, span.start) + '**' + snippet.text.slice(span.start, span.end) + '**';
+    position = span.end;
+  }
+  rendered += snippet.text.slice(position);
+
+  rendered = rendered.replace(/\s+/g, ' ').trim();
+  return (snippet.start > 0 ? '…' : '') + rendered + (snippet.end < textLength ? '…' : '');
+}
+
+function windowScore(spans: MatchSpan[], start: number, end: number): number {
+  const termWeights = new Map<string, number>();
+  let matches = 0;
+  for (const span of spans) {
+    if (span.start >= start && span.end <= end) {
+      termWeights.set(span.term, KIND_WEIGHTS[span.kind]);
+      matches++;
+    }
+  }
+  let score = matches * 0.1;
+  for (const weight of termWeights.values()) {
+    score += weight;
+  }
+  return score;
+}
+
+/**
+ * Shrink a window so it neither starts nor ends inside a word, without
+ * cutting off any of its matches.
+ */
+function trimToWords(text: string, start: number, end: number, spans: MatchSpan[]): { start: number; end: number } {
+  const firstMatch = spans.length > 0 ? spans[0].start : end;
+  const lastMatch = spans.length > 0 ? spans[spans.length - 1].end : start;
+
+  if (start > 0 && /\S/.test(text[start - 1])) {
+    const boundary = text.slice(start, firstMatch).search(/\s/);
+    if (boundary !== -1) {
+      start += boundary + 1;
+    }
+  }
+  if (end < text.length && /\S/.test(text[end])) {
+    const boundary = text.slice(lastMatch, end).search(/\s\S*$/);
+    if (boundary !== -1) {
+      end = lastMatch + boundary;
+    }
+  }
+  return { start, end };
+}
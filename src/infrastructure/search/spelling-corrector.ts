@@ -0,0 +1,294 @@
+/**
+ * Corpus-Aware Spelling Correction
+ *
+ * Corrects misspelled query terms ("microservise", "idempotancy") to the
+ * closest term of the corpus vocabulary, so query expansion and keyword
+ * scoring work with words that actually occur in the documents.
+ *
+ * Uses the Symmetric Delete algorithm (SymSpell): every vocabulary term is
+ * indexed under the strings obtained by deleting up to `maxEditDistance`
+ * characters from its prefix. A query term looks up its own deletes, and the
+ * candidates found are verified with the optimal string alignment distance
+ * (Damerau-Levenshtein with adjacent transpositions). Among the closest
+ * candidates the most frequent one wins.
+ */
+
+import type { ParsedQuery } from '../../domain/models/parsed-query.js';
+import type { SpellingCorrection } from '../../domain/models/search-result.js';
+import { clauseOperands, queryWords, rewriteLooseTerms } from '../../domain/services/query-parser.js';
+
+/**
+ * Options for {@link SpellingCorrector}.
+ */
+export interface SpellingCorrectorOptions {
+  /** Maximum edit distance of a correction (default: 2) */
+  maxEditDistance?: number;
+
+  /** Characters of each term the delete index covers (default: 7) */
+  prefixLength?: number;
+
+  /** Terms shorter than this are never corrected (default: 4) */
+  minTermLength?: number;
+
+  /**
+   * Vocabulary terms occurring fewer times are known (never corrected)
+   * but never suggested as a correction (default: 1)
+   */
+  minFrequency?: number;
+}
+
+/**
+ * Closest vocabulary term to a word.
+ */
+export interface SpellingSuggestion {
+  /** Vocabulary term */
+  term: string;
+
+  /** Edit distance from the word */
+  distance: number;
+
+  /** Occurrences of the term in the corpus */
+  frequency: number;
+}
+
+/** Terms of at most this length are corrected by one edit only */
+const SHORT_TERM_LENGTH = 5;
+
+/**
+ * Spelling corrector over a corpus vocabulary.
+ *
+ * The delete index is built on the first lookup, so constructing a
+ * corrector for a large vocabulary does not slow down startup.
+ */
+export class SpellingCorrector {
+  private readonly maxEditDistance: number;
+  private readonly prefixLength: number;
+  private readonly minTermLength: number;
+  private readonly minFrequency: number;
+  private deletes?: Map<string, string[]>;
+
+  /**
+   * @param vocabulary - Corpus terms (lowercase) with their frequencies
+   * @param options - Edit distance, index prefix, minimum term length and suggestion frequency
+   */
+  constructor(
+    private readonly vocabulary: ReadonlyMap<string, number>,
+    options: SpellingCorrectorOptions = {}
+  ) {
+    this.maxEditDistance = options.maxEditDistance ?? 2;
+    this.prefixLength = Math.max(options.prefixLength ?? 7, this.maxEditDistance + 1);
+    this.minTermLength = options.minTermLength ?? 4;
+    this.minFrequency = options.minFrequency ?? 1;
+  }
+
+  /** Number of vocabulary terms */
+  get size(): number {
+    return this.vocabulary.size;
+  }
+
+  /**
+   * Whether a term occurs in the vocabulary.
+   */
+  has(term: string): boolean {
+    return this.vocabulary.has(term);
+  }
+
+  /**
+   * Find the closest vocabulary term to a word.
+   *
+   * @param word - Lowercase word
+   * @param maxDistance - Maximum edit distance (default: the configured maximum)
+   * @returns The closest term (most frequent on ties), or undefined if none is within reach.
+   *   Terms occurring less than `minFrequency` times are only found by an exact match.
+   */
+  lookup(word: string, maxDistance: number = this.maxEditDistance): SpellingSuggestion | undefined {
+    const frequency = this.vocabulary.get(word);
+    if (frequency !== undefined) {
+      return { term: word, distance: 0, frequency };
+    }
+
+    const limit = Math.min(maxDistance, this.maxEditDistance);
+    const deletes = this.getDeletes();
+    let best: SpellingSuggestion | undefined;
+    const checked = new Set<string>();
+
+    for (const variant of prefixDeletes(word, limit, this.prefixLength)) {
+      for (const term of deletes.get(variant) ?? []) {
+        if (checked.has(term)) continue;
+        checked.add(term);
+        if (Math.abs(term.length - word.length) > limit) continue;
+
+        const distance = editDistance(word, term, limit);
+        if (distance > limit) continue;
+
+        const termFrequency = this.vocabulary.get(term) ?? 0;
+        if (!best || distance < best.distance || (distance === best.distance && termFrequency > best.frequency)) {
+          best = { term, distance, frequency: termFrequency };
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Correct a query term that does not occur in the vocabulary.
+   *
+   * Short terms, terms with digits and known terms are left alone; terms of
+   * up to five characters are corrected by a single edit only.
+   *
+   * @param term - Normalized (lowercase) query term
+   * @returns The correction, or undefined if the term is kept as written
+   */
+  correct(term: string): SpellingCorrection | undefined {
+    if (term.length < this.minTermLength || /\d/.test(term) || this.vocabulary.has(term)) {
+      return undefined;
+    }
+
+    const suggestion = this.lookup(term, term.length <= SHORT_TERM_LENGTH ? 1 : this.maxEditDistance);
+    if (!suggestion || suggestion.distance === 0) {
+      return undefined;
+    }
+    return { term, correction: suggestion.term, distance: suggestion.distance };
+  }
+
+  private getDeletes(): Map<string, string[]> {
+    if (!this.deletes) {
+      this.deletes = new Map();
+      for (const [term, frequency] of this.vocabulary) {
+        if (frequency < this.minFrequency) continue;
+        for (const variant of prefixDeletes(term, this.maxEditDistance, this.prefixLength)) {
+          const terms = this.deletes.get(variant);
+          if (terms) {
+            terms.push(term);
+          } else {
+            this.deletes.set(variant, [term]);
+          }
+        }
+      }
+    }
+    return this.deletes;
+  }
+}
+
+/**
+ * Rewrite query text with spelling corrections applied to whole words of
+ * its loose terms; phrases, excluded terms and field values keep the text
+ * as typed.
+ *
+ * @param text - Query text as given
+ * @param corrections - Corrections of its terms
+ * @returns Corrected text (unchanged without corrections)
+ */
+export function applySpellingCorrections(text: string, corrections: readonly SpellingCorrection[] = []): string {
+  return corrections.length > 0
+    ? rewriteLooseTerms(text, term => correctWords(term, corrections))
+    : text;
+}
+
+/**
+ * Add the corrected spelling of each corrected loose term as an alternative
+ * to the term as typed, so results matching either are found. Phrases,
+ * excluded terms and field values are left alone.
+ *
+ * @param query - Query parsed from the text as typed
+ * @param corrections - Corrections of its terms
+ * @returns Query with the alternatives (the same query without corrections)
+ */
+export function addSpellingAlternatives(
+  query: ParsedQuery,
+  corrections: readonly SpellingCorrection[] = []
+): ParsedQuery {
+  if (corrections.length === 0) {
+    return query;
+  }
+  return {
+    clauses: query.clauses.map(clause => {
+      if (clause.occur === 'must_not') {
+        return clause;
+      }
+      const operands = clauseOperands(clause);
+      const alternatives = operands.flatMap(operand => {
+        if (operand.type !== 'term' || operand.field) {
+          return [operand];
+        }
+        const text = correctWords(operand.text, corrections);
+        return text === operand.text ? [operand] : [operand, { type: 'term' as const, text, words: queryWords(text) }];
+      });
+      return alternatives.length === operands.length
+        ? clause
+        : { occur: clause.occur, node: { type: 'or' as const, operands: alternatives } };
+    })
+  };
+}
+
+/**
+ * Replace the corrected words of a text, whole words and case-insensitively.
+ */
+function correctWords(text: string, corrections: readonly SpellingCorrection[]): string {
+  return corrections.reduce(
+    (corrected, { term, correction }) => corrected.replace(
+      new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(term)}(?![\\p{L}\\p{N}_])`, 'giu'),
+      correction
+    ),
+    text
+  );
+}
+
+/**
+ * The word's prefix and every string obtained by deleting up to
+ * `maxDistance` characters from it.
+ */
+function prefixDeletes(word: string, maxDistance: number, prefixLength: number): Set<string> {
+  const prefix = word.slice(0, prefixLength);
+  const variants = new Set<string>([prefix]);
+  let frontier = [prefix];
+  for (let distance = 1; distance <= maxDistance; distance++) {
+    const next: string[] = [];
+    for (const variant of frontier) {
+      for (let i = 0; i < variant.length; i++) {
+        const deleted = variant.slice(0, i) + variant.slice(i + 1);
+        if (!variants.has(deleted)) {
+          variants.add(deleted);
+          next.push(deleted);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return variants;
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and adjacent transpositions each cost one edit.
+ *
+ * @returns The distance, or `limit + 1` once it exceeds `limit`
+ */
+export function editDistance(a: string, b: string, limit: number = Infinity): number {
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousPrevious[j - 2] + 1);
+      }
+      current.push(distance);
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+    if (rowMinimum > limit) {
+      return limit + 1;
+    }
+    previousPrevious = previous;
+    previous = current;
+  }
+  return Math.min(previous[b.length], limit + 1);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for Tool Response Pagination
+ *
+ * Follows Four-Phase Test pattern: Setup, Exercise, Verify, Teardown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  decodeCursor,
+  decodeCursorPosition,
+  encodeCursor,
+  paginate,
+  requestFingerprint,
+  searchDepth,
+  GAP_DETECTION_DEPTH,
+  MAX_SEARCH_DEPTH,
+  SEARCH_DEPTH
+} from '../pagination.js';
+import { InvalidFormatError } from '../../../domain/exceptions/index.js';
+
+describe('pagination', () => {
+  const fingerprint = requestFingerprint('test_tool', { text: 'query' });
+
+  describe('requestFingerprint', () => {
+    it('should ignore key order and undefined values', () => {
+      expect(requestFingerprint('t', { a: 1, b: { c: 2, d: 3 }, e: undefined }))
+        .toBe(requestFingerprint('t', { b: { d: 3, c: 2 }, a: 1 }));
+    });
+
+    it('should differ between tools and parameters', () => {
+      expect(requestFingerprint('t', { a: 1 })).not.toBe(requestFingerprint('u', { a: 1 }));
+      expect(requestFingerprint('t', { a: 1 })).not.toBe(requestFingerprint('t', { a: 2 }));
+    });
+  });
+
+  describe('cursors', () => {
+    it('should round-trip the offset', () => {
+      expect(decodeCursor(encodeCursor(40, fingerprint), fingerprint)).toBe(40);
+    });
+
+    it('should start at offset 0 without a cursor', () => {
+      expect(decodeCursor(undefined, fingerprint)).toBe(0);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => decodeCursor('not a cursor', fingerprint)).toThrow(InvalidFormatError);
+      expect(() => decodeCursor('', fingerprint)).toThrow(InvalidFormatError);
+      expect(() => decodeCursor(42, fingerprint)).toThrow(InvalidFormatError);
+      expect(() => decodeCursor(encodeCursor(-1, fingerprint), fingerprint)).toThrow(InvalidFormatError);
+    });
+
+    it('should round-trip the search depth', () => {
+      expect(decodeCursorPosition(encodeCursor(40, fingerprint, 60), fingerprint)).toEqual({ offset: 40, depth: 60 });
+      expect(decodeCursorPosition(encodeCursor(40, fingerprint), fingerprint)).toEqual({ offset: 40 });
+    });
+
+    it('should reject search depths beyond the maximum', () => {
+      expect(() => decodeCursor(encodeCursor(10, fingerprint, 0), fingerprint)).toThrow(InvalidFormatError);
+      expect(() => decodeCursor(encodeCursor(10, fingerprint, MAX_SEARCH_DEPTH + 1), fingerprint)).toThrow(InvalidFormatError);
+    });
+
+    it('should reject cursors issued for other parameters', () => {
+      const other = requestFingerprint('test_tool', { text: 'other' });
+      expect(() => decodeCursor(encodeCursor(10, other), fingerprint)).toThrow(InvalidFormatError);
+    });
+  });
+
+  describe('paginate', () => {
+    it('should slice pages until the list is exhausted', () => {
+      // SETUP
+      const items = [1, 2, 3, 4, 5];
+
+      // EXERCISE
+      const first = paginate(items, 0, 2, fingerprint);
+      const last = paginate(items, decodeCursor(first.nextCursor!, fingerprint) + 2, 2, fingerprint);
+
+      // VERIFY
+      expect(first.items).toEqual([1, 2]);
+      expect(decodeCursor(first.nextCursor!, fingerprint)).toBe(2);
+      expect(last.items).toEqual([5]);
+      expect(last.nextCursor).toBeNull();
+    });
+
+    it('should carry the search depth into the next cursor', () => {
+      const page = paginate([1, 2, 3], 0, 1, fingerprint, 51);
+
+      expect(decodeCursorPosition(page.nextCursor!, fingerprint)).toEqual({ offset: 1, depth: 51 });
+    });
+  });
+
+  describe('searchDepth', () => {
+    it('should rank the first page and SEARCH_DEPTH more results', () => {
+      expect(searchDepth()).toBe(SEARCH_DEPTH);
+      expect(searchDepth(10)).toBe(10 + SEARCH_DEPTH);
+      expect(searchDepth(1000)).toBe(MAX_SEARCH_DEPTH);
+    });
+
+    it('should rank deeper than gap detection looks', () => {
+      expect(searchDepth()).toBeGreaterThan(GAP_DETECTION_DEPTH);
+    });
+  });
+});
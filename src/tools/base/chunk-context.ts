@@ -0,0 +1,82 @@
+/**
+ * Chunk context expansion for tool responses.
+ *
+ * Chunks are short splitter pieces, so search tools can attach the
+ * neighbouring chunks of each result in the document's reading order
+ * ("small-to-big" retrieval) with the `expand_context` parameter.
+ */
+
+import type { ChunkSearchService } from "../../domain/services/index.js";
+import type { Chunk } from "../../domain/models/index.js";
+import { isOk } from "../../domain/functional/index.js";
+
+/** Largest `expand_context` value accepted by search tools */
+export const MAX_EXPAND_CONTEXT = 5;
+
+/**
+ * JSON schema of the `expand_context` tool parameter.
+ */
+export const expandContextSchema = {
+  type: "integer",
+  minimum: 0,
+  maximum: MAX_EXPAND_CONTEXT,
+  description: `Attach this many preceding and following chunks of the same document to each result, in reading order (default: 0, max: ${MAX_EXPAND_CONTEXT})`
+};
+
+/**
+ * A chunk as shown in tool responses.
+ */
+export interface FormattedContextChunk {
+  chunk_id: number;
+  chunk_index?: number;
+  page_number?: number;
+  text: string;
+}
+
+/**
+ * Neighbouring chunks of a result.
+ */
+export interface FormattedChunkContext {
+  before: FormattedContextChunk[];
+  after: FormattedContextChunk[];
+}
+
+/**
+ * Format a chunk for a tool response.
+ */
+export function formatContextChunk(chunk: Chunk): FormattedContextChunk {
+  return {
+    chunk_id: chunk.id,
+    ...(chunk.chunkIndex !== undefined && { chunk_index: chunk.chunkIndex }),
+    ...(chunk.pageNumber !== undefined && { page_number: chunk.pageNumber }),
+    text: chunk.text
+  };
+}
+
+/**
+ * Read the neighbouring chunks of each chunk.
+ *
+ * @param service - Chunk search service
+ * @param chunks - Chunks to expand, e.g. the results of one page
+ * @param count - Neighbours on each side (0 or undefined: no expansion)
+ * @returns Context per chunk, in input order; undefined for chunks whose
+ *          context could not be read and when no expansion was requested
+ */
+export async function expandChunkContexts(
+  service: ChunkSearchService,
+  chunks: Chunk[],
+  count: number | undefined
+): Promise<(FormattedChunkContext | undefined)[]> {
+  if (!count) {
+    return chunks.map(() => undefined);
+  }
+
+  const contexts: (FormattedChunkContext | undefined)[] = [];
+  for (const chunk of chunks) {
+    const result = await service.getChunkContext({ chunkId: chunk.id, before: count, after: count });
+    contexts.push(isOk(result)
+      ? { before: result.value.before.map(formatContextChunk), after: result.value.after.map(formatContextChunk) }
+      : undefined);
+  }
+  return contexts;
+}
@@ -0,0 +1,203 @@
+/**
+ * Cursor-based pagination for tool responses.
+ *
+ * A cursor is an opaque token holding the offset of the next page and a
+ * fingerprint of the request it was issued for, so a cursor cannot be
+ * replayed against a different query. Tools rank their full result list
+ * in a stable order and slice pages from it; search tools also carry the
+ * depth the first page was ranked to, so all pages are slices of one ranking.
+ */
+
+import { createHash } from "crypto";
+import { InvalidFormatError } from "../../domain/exceptions/index.js";
+import type { SearchResult } from "../../domain/models/index.js";
+import { filterByScoreGap } from "../../infrastructure/search/scoring-strategies.js";
+
+/** Page size for follow-up pages when no `limit` is given */
+export const DEFAULT_PAGE_SIZE = 10;
+
+/** Ranked candidates considered by gap detection on the first search page */
+export const GAP_DETECTION_DEPTH = 30;
+
+/** Ranked search results available for paging beyond the first page */
+export const SEARCH_DEPTH = 50;
+
+/** Deepest ranked search result reachable by paging */
+export const MAX_SEARCH_DEPTH = 200;
+
+/**
+ * JSON schema of the `cursor` tool parameter.
+ */
+export const cursorSchema = {
+  type: "string",
+  description: "Opaque cursor from the next_cursor field of a previous response, to fetch the next page. Repeat the other parameters unchanged."
+};
+
+/**
+ * A page of items and the cursor of the following page.
+ */
+export interface Page<T> {
+  items: T[];
+
+  /** Cursor of the next page, or null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Position of a page, decoded from its cursor.
+ */
+export interface CursorPosition {
+  offset: number;
+
+  /** Depth the search was ranked to, for search result cursors */
+  depth?: number;
+}
+
+interface CursorPayload {
+  o: number;
+  f: string;
+  d?: number;
+}
+
+/**
+ * Fingerprint of the request parameters that determine the result order.
+ * Leave out `limit` and `cursor`: the page size may change between pages.
+ *
+ * @param tool - Tool name
+ * @param params - Ordering-relevant parameters (key order is irrelevant)
+ */
+export function requestFingerprint(tool: string, params: Record<string, unknown>): string {
+  return createHash("sha256")
+    .update(tool)
+    .update(stableStringify(params))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Encode the cursor of the page starting at `offset`.
+ *
+ * @param depth - Depth the search was ranked to (search results only)
+ */
+export function encodeCursor(offset: number, fingerprint: string, depth?: number): string {
+  const payload: CursorPayload = { o: offset, f: fingerprint, ...(depth !== undefined && { d: depth }) };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * Decode a cursor into the offset of the page it points to.
+ *
+ * @param cursor - Cursor from a previous response (undefined for the first page)
+ * @param fingerprint - Fingerprint of the current request
+ * @returns Offset of the page (0 without a cursor)
+ * @throws {InvalidFormatError} If the cursor is malformed or was issued for other parameters
+ */
+export function decodeCursor(cursor: unknown, fingerprint: string): number {
+  return decodeCursorPosition(cursor, fingerprint).offset;
+}
+
+/**
+ * Decode a cursor into the offset of the page it points to and the depth
+ * its search was ranked to.
+ *
+ * @param cursor - Cursor from a previous response (undefined for the first page)
+ * @param fingerprint - Fingerprint of the current request
+ * @returns Position of the page (offset 0 and no depth without a cursor)
+ * @throws {InvalidFormatError} If the cursor is malformed or was issued for other parameters
+ */
+export function decodeCursorPosition(cursor: unknown, fingerprint: string): CursorPosition {
+  if (cursor === undefined) {
+    return { offset: 0 };
+  }
+
+  let payload: Partial<CursorPayload> | undefined;
+  if (typeof cursor === "string" && cursor.length > 0 && cursor.length <= 200) {
+    try {
+      payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+      payload = undefined;
+    }
+  }
+
+  if (!payload || !Number.isSafeInteger(payload.o) || payload.o! < 0 ||
+      (payload.d !== undefined && !(Number.isSafeInteger(payload.d) && payload.d > 0 && payload.d <= MAX_SEARCH_DEPTH))) {
+    throw new InvalidFormatError("cursor", cursor, "next_cursor value from a previous response");
+  }
+  if (payload.f !== fingerprint) {
+    throw new InvalidFormatError("cursor", cursor, "cursor issued for the same query parameters");
+  }
+  return { offset: payload.o!, ...(payload.d !== undefined && { depth: payload.d }) };
+}
+
+/**
+ * Slice the page at `offset` from a fully ranked list.
+ *
+ * @param items - All items in their stable order
+ * @param offset - Offset of the page
+ * @param limit - Page size
+ * @param fingerprint - Fingerprint of the request, carried into the next cursor
+ * @param depth - Depth the search was ranked to, carried into the next cursor
+ */
+export function paginate<T>(items: T[], offset: number, limit: number, fingerprint: string, depth?: number): Page<T> {
+  const end = offset + limit;
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor(end, fingerprint, depth) : null
+  };
+}
+
+/**
+ * Depth to rank a search to, chosen on its first page and kept for the
+ * following pages through their cursors.
+ *
+ * The candidate pool and the fused scores depend on how many results are
+ * ranked, so pages ranked to different depths would be slices of different
+ * rankings and could repeat or skip results. The first page ranks its own
+ * results and `SEARCH_DEPTH` more to page through, up to `MAX_SEARCH_DEPTH`;
+ * later pages are served from the search result cache.
+ *
+ * @param limit - Page size of the first page (optional)
+ */
+export function searchDepth(limit?: number): number {
+  return Math.min((limit ?? 0) + SEARCH_DEPTH, MAX_SEARCH_DEPTH);
+}
+
+/**
+ * Page of ranked search results with a positive score.
+ *
+ * Without a limit the first page is the high-scoring cluster found by gap
+ * detection; every other page is a fixed-size slice of the same ranking.
+ *
+ * @param results - Results in ranked order, retrieved to `depth`
+ * @param offset - Offset of the page
+ * @param limit - Page size (optional)
+ * @param fingerprint - Fingerprint of the request
+ * @param depth - Depth the results were ranked to (see `searchDepth`)
+ */
+export function pageSearchResults(
+  results: SearchResult[],
+  offset: number,
+  limit: number | undefined,
+  fingerprint: string,
+  depth: number
+): Page<SearchResult> {
+  const positiveResults = results.filter(r => r.hybridScore > 0);
+  if (limit === undefined && offset === 0) {
+    const cluster = filterByScoreGap(positiveResults.slice(0, GAP_DETECTION_DEPTH));
+    return paginate(positiveResults, 0, cluster.length, fingerprint, depth);
+  }
+  return paginate(positiveResults, offset, limit ?? DEFAULT_PAGE_SIZE, fingerprint, depth);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
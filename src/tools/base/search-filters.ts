@@ -0,0 +1,83 @@
+import { DOCUMENT_TYPES, FACET_FIELDS, SearchFilters } from "../../domain/models/index.js";
+
+/**
+ * Structured metadata filters as accepted by the search tools.
+ */
+export interface SearchFilterParams {
+  year_from?: number;
+  year_to?: number;
+  document_type?: string;
+  author?: string;
+  category?: string;
+  venue?: string;
+  catalog_ids?: number[];
+}
+
+/**
+ * JSON schema of the `filters` tool parameter.
+ */
+export const searchFiltersSchema = {
+  type: "object",
+  description: "Optional metadata filters, combined with AND",
+  properties: {
+    year_from: {
+      type: "integer",
+      description: "Earliest publication year (inclusive)"
+    },
+    year_to: {
+      type: "integer",
+      description: "Latest publication year (inclusive)"
+    },
+    document_type: {
+      type: "string",
+      enum: [...DOCUMENT_TYPES],
+      description: "Document type"
+    },
+    author: {
+      type: "string",
+      description: "Author name or part of it (case-insensitive)"
+    },
+    category: {
+      type: "string",
+      description: "Category name, as listed by list_categories"
+    },
+    venue: {
+      type: "string",
+      description: "Publication venue (journal/conference) or part of it (case-insensitive)"
+    },
+    catalog_ids: {
+      type: "array",
+      items: { type: "integer" },
+      description: "Restrict to these document (catalog) IDs"
+    }
+  },
+  additionalProperties: false
+};
+
+/**
+ * JSON schema of the `facets` tool parameter.
+ */
+export const facetsSchema = {
+  type: "array",
+  items: { type: "string", enum: [...FACET_FIELDS] },
+  description: "Count matches per value of these metadata fields over all matching results, not only this page (e.g. [\"category\", \"year\"]). Narrow the search by passing a value back in filters (year as year_from/year_to)"
+};
+
+/**
+ * Map tool filter parameters to domain search filters.
+ * Non-object values are passed through for the validator to reject.
+ */
+export function toSearchFilters(params?: SearchFilterParams): SearchFilters | undefined {
+  if (typeof params !== "object" || params === null || Array.isArray(params)) {
+    return params as SearchFilters | undefined;
+  }
+  return {
+    yearFrom: params.year_from,
+    yearTo: params.year_to,
+    documentType: params.document_type as SearchFilters["documentType"],
+    author: params.author,
+    category: params.category,
+    venue: params.venue,
+    catalogIds: params.catalog_ids
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Match highlighting for search tool responses.
+ *
+ * Results carry the spans where query terms matched. By default tools
+ * return the full text with these spans; with `snippet` they return only
+ * the best-matching window with the matches in bold, which is much shorter.
+ */
+
+import type { MatchSpan, SearchResult } from "../../domain/models/index.js";
+import { extractSnippet, highlightSnippet } from "../../infrastructure/search/snippets.js";
+
+/**
+ * JSON schema of the `snippet` tool parameter.
+ */
+export const snippetSchema = {
+  type: "boolean",
+  description: "Return a short excerpt around the best matches, with matched terms in **bold**, instead of the full text (default: false)"
+};
+
+/**
+ * Render the best-matching excerpt of a result's text with highlights.
+ */
+export function formatSnippet(result: SearchResult): string {
+  return highlightSnippet(extractSnippet(result.text, result.matchSpans ?? []), result.text.length);
+}
+
+/**
+ * Format match spans for a tool response.
+ */
+export function formatMatches(spans: MatchSpan[] | undefined): { start: number; end: number; term: string; kind: string }[] {
+  return (spans ?? []).map(({ start, end, term, kind }) => ({ start, end, term, kind }));
+}
@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for ConceptPathTool
+ *
+ * Tests the MCP tool contract using test doubles (fakes/mocks).
+ * Follows Four-Phase Test pattern from TDD for Embedded C (Grenning).
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConceptPathTool } from '../concept_path.js';
+import { ConceptPathService } from '../../../domain/services/index.js';
+import {
+  FakeCatalogRepository,
+  FakeConceptRepository,
+  createTestConcept,
+  createTestSearchResult
+} from '../../../__tests__/test-helpers/index.js';
+import { hashToId } from '../../../infrastructure/utils/hash.js';
+
+function createConcept(name: string, catalogIds: number[], adjacent: string[] = []) {
+  return {
+    ...createTestConcept({ name, catalogIds, adjacentIds: adjacent.map(hashToId), relatedIds: [] }),
+    id: hashToId(name)
+  };
+}
+
+describe('ConceptPathTool', () => {
+  let conceptRepo: FakeConceptRepository;
+  let tool: ConceptPathTool;
+
+  beforeEach(() => {
+    // SETUP
+    conceptRepo = new FakeConceptRepository([
+      createConcept('event sourcing', [1, 2], ['domain events']),
+      createConcept('domain events', [1, 2, 3], ['cqrs']),
+      createConcept('cqrs', [3])
+    ]);
+    const catalogRepo = new FakeCatalogRepository([
+      createTestSearchResult({ id: 1, catalogId: 1, source: '/docs/event-store.pdf' }),
+      createTestSearchResult({ id: 2, catalogId: 2, source: '/docs/ddd.pdf' }),
+      createTestSearchResult({ id: 3, catalogId: 3, source: '/docs/cqrs-journey.pdf' })
+    ]);
+    tool = new ConceptPathTool(new ConceptPathService(conceptRepo, catalogRepo));
+  });
+
+  describe('execute', () => {
+    it('should return paths with each hop and its documents', async () => {
+      // EXERCISE
+      const result = await tool.execute({ from: 'Event Sourcing', to: 'cqrs' });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        from: 'event sourcing',
+        to: 'cqrs',
+        mode: 'shortest',
+        paths: [{
+          concepts: ['event sourcing', 'domain events', 'cqrs'],
+          hop_count: 2,
+          strength: 0.2222,
+          hops: [
+            {
+              from: 'event sourcing',
+              to: 'domain events',
+              relations: ['co-occurrence'],
+              strength: 0.6667,
+              document_count: 2,
+              documents: [
+                { catalog_id: 1, source: '/docs/event-store.pdf' },
+                { catalog_id: 2, source: '/docs/ddd.pdf' }
+              ]
+            },
+            {
+              from: 'domain events',
+              to: 'cqrs',
+              relations: ['co-occurrence'],
+              strength: 0.3333,
+              document_count: 1,
+              documents: [{ catalog_id: 3, source: '/docs/cqrs-journey.pdf' }]
+            }
+          ]
+        }],
+        explored_concepts: 3
+      });
+    });
+
+    it('should return an empty list when the concepts are too far apart', async () => {
+      // EXERCISE
+      const result = await tool.execute({ from: 'event sourcing', to: 'cqrs', max_hops: 1 });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      expect(JSON.parse(result.content[0].text).paths).toEqual([]);
+    });
+
+    it('should reject an unknown mode', async () => {
+      // EXERCISE
+      const result = await tool.execute({ from: 'event sourcing', to: 'cqrs', mode: 'longest' as any });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_MODE_INVALID');
+    });
+
+    it('should report an unknown concept', async () => {
+      // EXERCISE
+      const result = await tool.execute({ from: 'event sourcing', to: 'saga pattern' });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      const { error } = JSON.parse(result.content[0].text);
+      expect(error.type).toBe('concept_not_found');
+      expect(error.message).toContain('"saga pattern"');
+    });
+  });
+});
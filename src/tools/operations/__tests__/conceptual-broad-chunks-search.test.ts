@@ -8,8 +8,11 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ConceptualBroadChunksSearchTool } from '../conceptual_broad_chunks_search.js';
 import { ChunkSearchService } from '../../../domain/services/index.js';
+import { searchDepth } from '../../base/pagination.js';
 import {
+  FakeCatalogRepository,
   FakeChunkRepository,
+  createTestChunk,
   createTestSearchResult
 } from '../../../__tests__/test-helpers/index.js';
 
@@ -51,7 +54,7 @@ describe('ConceptualBroadChunksSearchTool', () => {
       expect(result.content[0].type).toBe('text');
       expect(result.isError).toBe(false);
       
-      const parsedContent = JSON.parse(result.content[0].text);
+      const parsedContent = JSON.parse(result.content[0].text).results;
       expect(Array.isArray(parsedContent)).toBe(true);
       expect(parsedContent).toHaveLength(2);  // Both in same cluster
       expect(parsedContent[0].source).toBe('/test/doc1.pdf');
@@ -78,7 +81,7 @@ describe('ConceptualBroadChunksSearchTool', () => {
       const result = await tool.execute({ text: 'test' });
       
       // VERIFY - gap detection should return only high cluster (4 results)
-      const parsedContent = JSON.parse(result.content[0].text);
+      const parsedContent = JSON.parse(result.content[0].text).results;
       expect(parsedContent.length).toBe(4);
       expect(parsedContent[0].score).toBe('0.900');
       expect(parsedContent[3].score).toBe('0.820');
@@ -101,7 +104,7 @@ describe('ConceptualBroadChunksSearchTool', () => {
       const result = await tool.execute({ text: 'test' });
       
       // VERIFY - hybrid score always shown as 'score', components only in debug
-      const parsedContent = JSON.parse(result.content[0].text);
+      const parsedContent = JSON.parse(result.content[0].text).results;
       expect(parsedContent.length).toBe(1);
       expect(parsedContent[0].score).toBe('0.950');
       expect(parsedContent[0].score_components).toBeUndefined();  // Not in debug mode
@@ -123,7 +126,7 @@ describe('ConceptualBroadChunksSearchTool', () => {
       const result = await tool.execute({ text: 'test', debug: true });
       
       // VERIFY
-      const parsedContent = JSON.parse(result.content[0].text);
+      const parsedContent = JSON.parse(result.content[0].text).results;
       expect(parsedContent.length).toBe(1);
       expect(parsedContent[0].expanded_terms).toBeDefined();
     });
@@ -136,7 +139,7 @@ describe('ConceptualBroadChunksSearchTool', () => {
       const result = await tool.execute({ text: 'nonexistent' });
       
       // VERIFY
-      const parsedContent = JSON.parse(result.content[0].text);
+      const parsedContent = JSON.parse(result.content[0].text).results;
       expect(parsedContent).toEqual([]);
     });
     
@@ -155,6 +158,222 @@ describe('ConceptualBroadChunksSearchTool', () => {
     });
   });
   
+  describe('pagination', () => {
+    const rankedResults = () => [0.90, 0.88, 0.85, 0.82, 0.40, 0.38, 0.35].map((score, i) =>
+      createTestSearchResult({ id: 6000 + i, source: `/test/doc${i}.pdf`, text: `Test ${i}`, hybridScore: score })
+    );
+    
+    it('should continue after the gap-detected first page', async () => {
+      // SETUP
+      chunkRepo.search = async () => rankedResults();
+      
+      // EXERCISE
+      const first = JSON.parse((await tool.execute({ text: 'test' })).content[0].text);
+      const second = JSON.parse((await tool.execute({ text: 'test', cursor: first.next_cursor })).content[0].text);
+      
+      // VERIFY
+      expect(first.results.map((r: any) => r.score)).toEqual(['0.900', '0.880', '0.850', '0.820']);
+      expect(first.next_cursor).toEqual(expect.any(String));
+      expect(second.results.map((r: any) => r.score)).toEqual(['0.400', '0.380', '0.350']);
+      expect(second.next_cursor).toBeNull();
+    });
+    
+    it('should page with a fixed limit and rank every page to the depth of the first', async () => {
+      // SETUP
+      const requestedLimits: number[] = [];
+      chunkRepo.search = async (query) => {
+        requestedLimits.push(query.limit!);
+        return rankedResults();
+      };
+      
+      // EXERCISE
+      const pages = [];
+      let cursor: string | undefined;
+      do {
+        const page = JSON.parse((await tool.execute({ text: 'test', limit: cursor ? 2 : 3, cursor })).content[0].text);
+        pages.push(page.results.map((r: any) => r.text));
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+      
+      // VERIFY
+      expect(pages).toEqual([['Test 0', 'Test 1', 'Test 2'], ['Test 3', 'Test 4'], ['Test 5', 'Test 6']]);
+      expect(requestedLimits).toEqual([searchDepth(3), searchDepth(3), searchDepth(3)]);
+    });
+    
+    it('should reject a cursor issued for another query', async () => {
+      // SETUP
+      chunkRepo.search = async () => rankedResults();
+      const first = JSON.parse((await tool.execute({ text: 'test', limit: 2 })).content[0].text);
+      
+      // EXERCISE
+      const result = await tool.execute({ text: 'other', limit: 2, cursor: first.next_cursor });
+      
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_CURSOR_INVALID');
+    });
+  });
+  
+  describe('diversification', () => {
+    it('should pass diversification options to the search', async () => {
+      // SETUP
+      const queries: any[] = [];
+      chunkRepo.search = async (query) => {
+        queries.push(query);
+        return [];
+      };
+      
+      // EXERCISE
+      await tool.execute({ text: 'test', diversify: true, mmr_lambda: 0.5, max_per_document: 2 });
+      
+      // VERIFY
+      expect(queries[0]).toMatchObject({ mmrLambda: 0.5, maxPerDocument: 2 });
+    });
+    
+    it('should reject an invalid per-document cap', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'test', max_per_document: 0 });
+      
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_MAX_PER_DOCUMENT_INVALID');
+    });
+  });
+  
+  describe('context expansion', () => {
+    it('should attach neighbouring chunks with expand_context', async () => {
+      // SETUP
+      [0, 1, 2, 3].forEach(index => chunkRepo.addChunk(
+        createTestChunk({ id: 100 + index, text: `Passage ${index}`, chunkIndex: index, pageNumber: 7 })
+      ));
+      chunkRepo.search = async () => [createTestSearchResult({ id: 101, text: 'Passage 1', chunkIndex: 1, pageNumber: 7 })];
+      
+      // EXERCISE
+      const result = await tool.execute({ text: 'passage', expand_context: 1 });
+      
+      // VERIFY
+      const [first] = JSON.parse(result.content[0].text).results;
+      expect(first.chunk_id).toBe(101);
+      expect(first.page_number).toBe(7);
+      expect(first.context.before).toEqual([{ chunk_id: 100, chunk_index: 0, page_number: 7, text: 'Passage 0' }]);
+      expect(first.context.after.map((c: any) => c.chunk_id)).toEqual([102]);
+    });
+    
+    it('should not attach context by default', async () => {
+      // SETUP
+      chunkRepo.search = async () => [createTestSearchResult({ id: 101 })];
+      
+      // EXERCISE
+      const result = await tool.execute({ text: 'passage' });
+      
+      // VERIFY
+      expect(JSON.parse(result.content[0].text).results[0].context).toBeUndefined();
+    });
+    
+    it('should reject too much context', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'test', expand_context: 6 });
+      
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_EXPAND_CONTEXT_INVALID');
+    });
+  });
+  
+  describe('match highlighting', () => {
+    const text = `${'Unrelated opening words. '.repeat(12)}Leader election keeps the cluster available. ${'Closing words. '.repeat(10)}`;
+    const matchSpans = [{ start: 300, end: 306, term: 'leader', kind: 'original' as const }];
+    
+    it('should return the full text with match positions by default', async () => {
+      // SETUP
+      chunkRepo.search = async () => [createTestSearchResult({ text, matchSpans })];
+      
+      // EXERCISE
+      const result = await tool.execute({ text: 'leader' });
+      
+      // VERIFY
+      const [first] = JSON.parse(result.content[0].text).results;
+      expect(first.text).toBe(text);
+      expect(first.matches).toEqual(matchSpans);
+      expect(first.snippet).toBeUndefined();
+    });
+    
+    it('should return a highlighted excerpt in snippet mode', async () => {
+      // SETUP
+      chunkRepo.search = async () => [createTestSearchResult({ text, matchSpans })];
+      
+      // EXERCISE
+      const result = await tool.execute({ text: 'leader', snippet: true });
+      
+      // VERIFY
+      const [first] = JSON.parse(result.content[0].text).results;
+      expect(first.text).toBeUndefined();
+      expect(first.snippet).toContain('**Leader** election keeps the cluster available.');
+      expect(first.snippet.length).toBeLessThan(text.length / 2);
+    });
+  });
+  
+  describe('spelling correction', () => {
+    it('should report the corrected query as did_you_mean', async () => {
+      // SETUP
+      chunkRepo.search = async () => [createTestSearchResult({ didYouMean: 'idempotency keys' })];
+      
+      // EXERCISE
+      const content = JSON.parse((await tool.execute({ text: 'idempotancy keys' })).content[0].text);
+      
+      // VERIFY
+      expect(content.did_you_mean).toBe('idempotency keys');
+      expect(content.results).toHaveLength(1);
+    });
+    
+    it('should omit did_you_mean when nothing was corrected', async () => {
+      // SETUP
+      chunkRepo.search = async () => [createTestSearchResult()];
+      
+      // EXERCISE
+      const content = JSON.parse((await tool.execute({ text: 'idempotency keys' })).content[0].text);
+      
+      // VERIFY
+      expect(content).not.toHaveProperty('did_you_mean');
+    });
+  });
+  
+  describe('facets', () => {
+    it('should count the documents of all matching chunks', async () => {
+      // SETUP
+      const catalogRepo = new FakeCatalogRepository([
+        createTestSearchResult({ id: 1, catalogId: 1, documentType: 'paper', venue: 'PODC' }),
+        createTestSearchResult({ id: 2, catalogId: 2, documentType: 'book' })
+      ]);
+      [1, 1, 2].forEach((catalogId, i) =>
+        chunkRepo.addChunk(createTestChunk({ id: 10 + i, catalogId, text: `consensus chunk ${i}` })));
+      tool = new ConceptualBroadChunksSearchTool(new ChunkSearchService(chunkRepo, catalogRepo));
+      
+      // EXERCISE
+      const content = JSON.parse((await tool.execute({
+        text: 'consensus',
+        limit: 1,
+        facets: ['document_type', 'venue']
+      })).content[0].text);
+      
+      // VERIFY
+      expect(content.results).toHaveLength(1);
+      expect(content.facets).toEqual({
+        document_type: [{ value: 'paper', count: 2 }, { value: 'book', count: 1 }],
+        venue: [{ value: 'PODC', count: 2 }]
+      });
+    });
+    
+    it('should report that facets need the catalog', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'consensus', facets: ['year'] });
+      
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.type).toBe('validation');
+    });
+  });
+  
   describe('validation', () => {
     it('should require text parameter', async () => {
       // EXERCISE & VERIFY
@@ -53,7 +53,7 @@ describe('ConceptualCatalogSearchTool', () => {
       expect(result.content[0].type).toBe('text');
       expect(result.isError).toBe(false);
       
-      const parsedContent = JSON.parse(result.content[0].text);
+      const parsedContent = JSON.parse(result.content[0].text).results;
       expect(Array.isArray(parsedContent)).toBe(true);
       expect(parsedContent.length).toBeGreaterThan(0);
       expect(parsedContent[0].source).toBeDefined();
@@ -79,7 +79,7 @@ describe('ConceptualCatalogSearchTool', () => {
       const result = await tool.execute({ text: 'test' });
       
       // VERIFY - gap detection should return high cluster (3 results)
-      const parsedContent = JSON.parse(result.content[0].text);
+      const parsedContent = JSON.parse(result.content[0].text).results;
       expect(parsedContent.length).toBe(3);
       expect(parsedContent[0].score).toBe('0.900');
       expect(parsedContent[2].score).toBe('0.840');
@@ -100,7 +100,7 @@ describe('ConceptualCatalogSearchTool', () => {
       const result = await tool.execute({ text: 'test', debug: true });
       
       // VERIFY
-      const parsedContent = JSON.parse(result.content[0].text);
+      const parsedContent = JSON.parse(result.content[0].text).results;
       expect(parsedContent[0].expanded_terms).toBeDefined();
     });
     
@@ -112,7 +112,7 @@ describe('ConceptualCatalogSearchTool', () => {
       const result = await tool.execute({ text: 'nonexistent' });
       
       // VERIFY
-      const parsedContent = JSON.parse(result.content[0].text);
+      const parsedContent = JSON.parse(result.content[0].text).results;
       expect(parsedContent).toEqual([]);
     });
     
@@ -133,7 +133,7 @@ describe('ConceptualCatalogSearchTool', () => {
       const result = await tool.execute({ text: 'test' });
       
       // VERIFY - hybrid score always shown as 'score', components only in debug
-      const parsedContent = JSON.parse(result.content[0].text);
+      const parsedContent = JSON.parse(result.content[0].text).results;
       expect(parsedContent[0].score).toBe('0.123');
       expect(parsedContent[0].score_components).toBeUndefined();  // Not in debug mode
     });
@@ -153,6 +153,95 @@ describe('ConceptualCatalogSearchTool', () => {
     });
   });
   
+  describe('match highlighting', () => {
+    it('should return a highlighted excerpt of the summary in snippet mode', async () => {
+      // SETUP
+      const text = 'Clean Architecture explains how to keep business rules independent of frameworks.';
+      catalogRepo.search = async () => [createTestSearchResult({
+        source: '/test/clean.pdf',
+        text,
+        matchSpans: [{ start: 6, end: 18, term: 'architecture', kind: 'original' }]
+      })];
+      
+      // EXERCISE
+      const full = JSON.parse((await tool.execute({ text: 'architecture' })).content[0].text).results[0];
+      const brief = JSON.parse((await tool.execute({ text: 'architecture', snippet: true })).content[0].text).results[0];
+      
+      // VERIFY
+      expect(full.summary).toBe(text);
+      expect(full.matches).toEqual([{ start: 6, end: 18, term: 'architecture', kind: 'original' }]);
+      expect(brief.summary).toBeUndefined();
+      expect(brief.snippet).toBe('Clean **Architecture** explains how to keep business rules independent of frameworks.');
+    });
+  });
+  
+  describe('spelling correction', () => {
+    it('should report the corrected query as did_you_mean', async () => {
+      // SETUP
+      catalogRepo.search = async () => [createTestSearchResult({ didYouMean: 'idempotency keys' })];
+      
+      // EXERCISE
+      const content = JSON.parse((await tool.execute({ text: 'idempotancy keys' })).content[0].text);
+      
+      // VERIFY
+      expect(content.did_you_mean).toBe('idempotency keys');
+      expect(content.results).toHaveLength(1);
+    });
+    
+    it('should omit did_you_mean when nothing was corrected', async () => {
+      // SETUP
+      catalogRepo.search = async () => [createTestSearchResult()];
+      
+      // EXERCISE
+      const content = JSON.parse((await tool.execute({ text: 'idempotency keys' })).content[0].text);
+      
+      // VERIFY
+      expect(content).not.toHaveProperty('did_you_mean');
+    });
+  });
+  
+  describe('facets', () => {
+    beforeEach(() => {
+      // SETUP
+      catalogRepo.addDocument(createTestSearchResult({
+        id: 1, catalogId: 1, text: 'raft consensus', categoryNames: ['distributed systems'], year: 2014
+      }));
+      catalogRepo.addDocument(createTestSearchResult({
+        id: 2, catalogId: 2, text: 'paxos consensus', categoryNames: ['distributed systems', 'databases'], year: 1998
+      }));
+    });
+    
+    it('should count the requested facets over all matching documents', async () => {
+      // EXERCISE
+      const content = JSON.parse((await tool.execute({ text: 'consensus', limit: 1, facets: ['category', 'year'] })).content[0].text);
+      
+      // VERIFY
+      expect(content.results).toHaveLength(1);
+      expect(content.facets).toEqual({
+        category: [{ value: 'distributed systems', count: 2 }, { value: 'databases', count: 1 }],
+        year: [{ value: 1998, count: 1 }, { value: 2014, count: 1 }]
+      });
+    });
+    
+    it('should omit facets unless requested', async () => {
+      // EXERCISE
+      const content = JSON.parse((await tool.execute({ text: 'consensus' })).content[0].text);
+      
+      // VERIFY
+      expect(content).not.toHaveProperty('facets');
+    });
+    
+    it('should reject an unknown facet field', async () => {
+      // EXERCISE
+      // @ts-expect-error - Invalid facet field on purpose
+      const result = await tool.execute({ text: 'consensus', facets: ['publisher'] });
+      
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_FACETS_INVALID');
+    });
+  });
+  
   describe('validation', () => {
     it('should require text parameter', async () => {
       // EXERCISE & VERIFY - TypeScript will catch this, but test runtime behavior
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for ExplainSearchTool
+ *
+ * Tests the MCP tool contract using test doubles (fakes/mocks).
+ * Follows Four-Phase Test pattern from TDD for Embedded C (Grenning).
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExplainSearchTool } from '../explain_search.js';
+import { CatalogSearchService, ChunkSearchService } from '../../../domain/services/index.js';
+import {
+  FakeCatalogRepository,
+  FakeChunkRepository,
+  createTestChunk,
+  createTestSearchResult
+} from '../../../__tests__/test-helpers/index.js';
+
+describe('ExplainSearchTool', () => {
+  let tool: ExplainSearchTool;
+
+  beforeEach(() => {
+    // SETUP
+    const chunkRepo = new FakeChunkRepository([
+      createTestChunk({ id: 1, text: 'Raft is a consensus algorithm', catalogId: 10 })
+    ]);
+    const catalogRepo = new FakeCatalogRepository([
+      createTestSearchResult({ id: 10, text: 'Consensus in distributed systems', source: '/docs/consensus.pdf' })
+    ]);
+    tool = new ExplainSearchTool(new CatalogSearchService(catalogRepo), new ChunkSearchService(chunkRepo, catalogRepo));
+  });
+
+  describe('execute', () => {
+    it('should explain a chunk search by default', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'consensus' });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      const content = JSON.parse(result.content[0].text);
+      expect(content.query).toBe('consensus');
+      expect(content.collection).toBe('chunks');
+      expect(content.did_you_mean).toBeNull();
+      expect(content.corrections).toEqual([]);
+      expect(content.expanded_terms).toEqual([{ term: 'test', origin: 'original', weight: 1 }]);
+      expect(content.query_analysis.term_count).toBe(1);
+      expect(content.weights.profile).toBe('default');
+      expect(content.weights.adjusted).toEqual({ vector: 0.35, bm25: 0.3, title: 0, concept: 0.2, wordnet: 0.15 });
+      expect(content.filter).toBeNull();
+      expect(content.candidates).toEqual({ vector: 1, full_text: null, merged: 1, matching: 1 });
+      expect(content.reranker).toBeNull();
+      expect(content.after_rerank).toBeNull();
+      expect(content.results).toEqual([{
+        rank: 1,
+        id: 1,
+        catalog_id: 10,
+        source: '',
+        scores: { vector: 0.8, bm25: 0.7, title: 0.5, concept: 0.6, wordnet: 0.4 },
+        signal_ranks: {},
+        hybrid_score: 0.67
+      }]);
+    });
+
+    it('should explain a catalog search', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'consensus', collection: 'catalog' });
+
+      // VERIFY
+      const content = JSON.parse(result.content[0].text);
+      expect(content.collection).toBe('catalog');
+      expect(content.results.map((r: any) => r.source)).toEqual(['/docs/consensus.pdf']);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject an unknown collection', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'consensus', collection: 'concepts' as any });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_COLLECTION_INVALID');
+    });
+
+    it('should reject limits above 50', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'consensus', limit: 51 });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_LIMIT_INVALID');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for FindPassageTool
+ *
+ * Tests the MCP tool contract using test doubles (fakes/mocks).
+ * Follows Four-Phase Test pattern from TDD for Embedded C (Grenning).
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FindPassageTool } from '../find_passage.js';
+import { PassageSearchService } from '../../../domain/services/index.js';
+import {
+  FakeChunkRepository,
+  createTestChunk
+} from '../../../__tests__/test-helpers/index.js';
+
+const text = 'The single responsibility principle states that a module should have one, and only one, reason to change.';
+
+describe('FindPassageTool', () => {
+  let chunkRepo: FakeChunkRepository;
+  let tool: FindPassageTool;
+
+  beforeEach(() => {
+    // SETUP
+    chunkRepo = new FakeChunkRepository([
+      createTestChunk({ id: 1, catalogId: 10, catalogTitle: 'Clean Architecture', text, pageNumber: 62 }),
+      createTestChunk({ id: 2, catalogId: 20, catalogTitle: 'Agile Software Development', text: 'Each module should have one reason to change.', pageNumber: 95 })
+    ]);
+    tool = new FindPassageTool(new PassageSearchService(chunkRepo));
+  });
+
+  describe('execute', () => {
+    it('should return the matching span with offsets, page number and scores', async () => {
+      // SETUP
+      const passage = 'a module should have one, and only one, reason to change';
+
+      // EXERCISE
+      const result = await tool.execute({ passage });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      const content = JSON.parse(result.content[0].text);
+      expect(content.matches.map((m: any) => m.chunk_id)).toEqual([1, 2]);
+      expect(content.matches[0]).toEqual({
+        chunk_id: 1,
+        catalog_id: 10,
+        title: 'Clean Architecture',
+        page_number: 62,
+        match: { start: 48, end: 104, text: passage },
+        passage_start: 0,
+        passage_end: passage.length,
+        exact: true,
+        score: 0.75,
+        scores: { shingle: 1, alignment: 1, vector: 0 },
+        text
+      });
+      expect(content.matches[1].exact).toBe(false);
+    });
+
+    it('should respect the limit', async () => {
+      // EXERCISE
+      const result = await tool.execute({ passage: 'one reason to change', limit: 1 });
+
+      // VERIFY
+      expect(JSON.parse(result.content[0].text).matches).toHaveLength(1);
+    });
+
+    it('should return an empty list when nothing matches', async () => {
+      // EXERCISE
+      const result = await tool.execute({ passage: 'event sourcing aggregates' });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      expect(JSON.parse(result.content[0].text).matches).toEqual([]);
+    });
+
+    it('should reject a missing passage', async () => {
+      // EXERCISE
+      const result = await tool.execute({ passage: '' });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_PASSAGE_INVALID');
+    });
+
+    it('should report repository failures', async () => {
+      // SETUP
+      chunkRepo.findByPassage = async () => {
+        throw new Error('table unavailable');
+      };
+
+      // EXERCISE
+      const result = await tool.execute({ passage: 'one reason to change' });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toEqual({ type: 'unknown', message: 'table unavailable' });
+    });
+  });
+});
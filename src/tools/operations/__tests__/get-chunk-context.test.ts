@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for GetChunkContextTool
+ *
+ * Tests the MCP tool contract using test doubles (fakes/mocks).
+ * Follows Four-Phase Test pattern from TDD for Embedded C (Grenning).
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GetChunkContextTool } from '../get_chunk_context.js';
+import { ChunkSearchService } from '../../../domain/services/index.js';
+import {
+  FakeChunkRepository,
+  createTestChunk
+} from '../../../__tests__/test-helpers/index.js';
+
+describe('GetChunkContextTool', () => {
+  let chunkRepo: FakeChunkRepository;
+  let tool: GetChunkContextTool;
+
+  beforeEach(() => {
+    // SETUP - One document of five chunks over three pages, and another document
+    chunkRepo = new FakeChunkRepository([
+      ...[0, 1, 2, 3, 4].map(index => createTestChunk({
+        id: 10 + index,
+        text: `Passage ${index}`,
+        catalogId: 1,
+        catalogTitle: 'Clean Architecture',
+        pageNumber: Math.floor(index / 2) + 1,
+        chunkIndex: index
+      })),
+      createTestChunk({ id: 99, catalogId: 2, chunkIndex: 0 })
+    ]);
+    tool = new GetChunkContextTool(new ChunkSearchService(chunkRepo));
+  });
+
+  describe('execute', () => {
+    it('should return the chunk and its neighbours in reading order', async () => {
+      // EXERCISE
+      const result = await tool.execute({ chunk_id: 12, before: 1, after: 1 });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      const content = JSON.parse(result.content[0].text);
+      expect(content.catalog_id).toBe(1);
+      expect(content.title).toBe('Clean Architecture');
+      expect(content.chunks).toEqual([
+        { chunk_id: 11, chunk_index: 1, page_number: 1, text: 'Passage 1', offset: -1 },
+        { chunk_id: 12, chunk_index: 2, page_number: 2, text: 'Passage 2', offset: 0 },
+        { chunk_id: 13, chunk_index: 3, page_number: 2, text: 'Passage 3', offset: 1 }
+      ]);
+    });
+
+    it('should default to two neighbours on each side', async () => {
+      // EXERCISE
+      const result = await tool.execute({ chunk_id: 10 });
+
+      // VERIFY
+      const offsets = JSON.parse(result.content[0].text).chunks.map((c: any) => c.offset);
+      expect(offsets).toEqual([0, 1, 2]);
+    });
+
+    it('should return a not_found error for an unknown chunk', async () => {
+      // EXERCISE
+      const result = await tool.execute({ chunk_id: 12345 });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.type).toBe('not_found');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject a missing chunk ID', async () => {
+      // EXERCISE
+      const result = await tool.execute({} as any);
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_CHUNK_ID_INVALID');
+    });
+
+    it('should reject neighbour counts above 20', async () => {
+      // EXERCISE
+      const result = await tool.execute({ chunk_id: 10, after: 21 });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_AFTER_INVALID');
+    });
+  });
+});
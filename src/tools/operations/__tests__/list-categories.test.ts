@@ -10,6 +10,7 @@ import { ListCategoriesTool } from '../list-categories-tool.js';
 import type { CategoryRepository } from '../../../domain/interfaces/category-repository.js';
 import type { CatalogRepository } from '../../../domain/interfaces/repositories/catalog-repository.js';
 import { Some, None } from '../../../domain/functional/option.js';
+import { encodeCursor } from '../../base/pagination.js';
 
 describe('ListCategoriesTool', () => {
   let mockCategoryRepo: CategoryRepository;
@@ -89,5 +90,41 @@ describe('ListCategoriesTool', () => {
       // Without catalogRepo, falls back to max documentCount
       expect(parsed.summary.totalDocuments).toBe(10);
     });
+    
+    it('should page categories with a stable order', async () => {
+      // SETUP - equal document counts, so order falls back to ID
+      mockCategoryRepo.findAll = vi.fn().mockResolvedValue([3, 1, 2].map(id => ({
+        id,
+        category: `category ${id}`,
+        description: '',
+        aliases: [],
+        parentCategoryId: null,
+        relatedCategories: [],
+        documentCount: 5,
+        chunkCount: 0,
+        conceptCount: 0
+      })));
+      
+      // EXERCISE
+      const first = JSON.parse((await tool.execute({ limit: 2 })).content[0].text);
+      const second = JSON.parse((await tool.execute({ limit: 2, cursor: first.next_cursor })).content[0].text);
+      
+      // VERIFY
+      expect(first.categories.map((c: any) => c.id)).toEqual([1, 2]);
+      expect(second.categories.map((c: any) => c.id)).toEqual([3]);
+      expect(second.next_cursor).toBeNull();
+    });
+    
+    it('should reject a cursor issued for another sort order', async () => {
+      // SETUP
+      const first = JSON.parse((await tool.execute({ limit: 1, sortBy: 'name' })).content[0].text);
+      
+      // EXERCISE
+      const result = await tool.execute({ limit: 1, cursor: encodeCursor(1, 'other') });
+      
+      // VERIFY
+      expect(first.next_cursor).toBeNull();
+      expect(result.isError).toBe(true);
+    });
   });
 });
@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for SearchConceptsTool
+ *
+ * Tests the MCP tool contract using test doubles (fakes/mocks).
+ * Follows Four-Phase Test pattern from TDD for Embedded C (Grenning).
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SearchConceptsTool } from '../search_concepts.js';
+import { FuzzyConceptSearchService } from '../../../domain/services/index.js';
+import {
+  FakeConceptRepository,
+  FakeEmbeddingService,
+  createTestConcept
+} from '../../../__tests__/test-helpers/index.js';
+
+describe('SearchConceptsTool', () => {
+  let conceptRepo: FakeConceptRepository;
+  let tool: SearchConceptsTool;
+
+  beforeEach(() => {
+    // SETUP
+    conceptRepo = new FakeConceptRepository([
+      createTestConcept({
+        name: 'dependency injection',
+        summary: 'Supplying an object with the objects it depends on',
+        catalogIds: [10, 20],
+        chunkIds: [1, 2, 3],
+        synonyms: ['inversion of control']
+      }),
+      createTestConcept({
+        name: 'inversion principle',
+        summary: 'Depending on abstractions',
+        catalogIds: [30],
+        chunkIds: [4],
+        synonyms: ['dependency inversion']
+      }),
+      createTestConcept({ name: 'event sourcing' })
+    ]);
+    tool = new SearchConceptsTool(new FuzzyConceptSearchService(conceptRepo, new FakeEmbeddingService()));
+  });
+
+  describe('execute', () => {
+    it('should return ranked concepts with summaries, document counts and scores', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'dependency' });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      const content = JSON.parse(result.content[0].text);
+      expect(content.query).toBe('dependency');
+      expect(content.concepts.map((c: any) => c.concept)).toEqual(['dependency injection', 'inversion principle']);
+      expect(content.concepts[0]).toEqual({
+        concept: 'dependency injection',
+        summary: 'Supplying an object with the objects it depends on',
+        synonyms: ['inversion of control'],
+        document_count: 2,
+        chunk_count: 3,
+        score: 0.4,
+        scores: { name: 1, vector: 0, bm25: 0, synonym: 0 }
+      });
+      expect(content.concepts[1].document_count).toBe(1);
+    });
+
+    it('should respect the limit', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'dependency', limit: 1 });
+
+      // VERIFY
+      const content = JSON.parse(result.content[0].text);
+      expect(content.concepts).toHaveLength(1);
+    });
+
+    it('should return an empty list when nothing matches', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'blockchain' });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      expect(JSON.parse(result.content[0].text).concepts).toEqual([]);
+    });
+
+    it('should reject a missing query', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: '' });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_TEXT_INVALID');
+    });
+
+    it('should reject a limit above 100', async () => {
+      // EXERCISE
+      const result = await tool.execute({ text: 'dependency', limit: 101 });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_LIMIT_INVALID');
+    });
+
+    it('should report repository failures', async () => {
+      // SETUP
+      conceptRepo.searchConcepts = async () => {
+        throw new Error('table unavailable');
+      };
+
+      // EXERCISE
+      const result = await tool.execute({ text: 'dependency' });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toEqual({ type: 'unknown', message: 'table unavailable' });
+    });
+  });
+});
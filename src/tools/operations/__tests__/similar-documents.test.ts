@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for SimilarDocumentsTool
+ *
+ * Tests the MCP tool contract using test doubles (fakes/mocks).
+ * Follows Four-Phase Test pattern from TDD for Embedded C (Grenning).
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimilarDocumentsTool } from '../similar_documents.js';
+import { SimilarDocumentsService } from '../../../domain/services/index.js';
+import {
+  FakeCatalogRepository,
+  createTestSearchResult
+} from '../../../__tests__/test-helpers/index.js';
+
+describe('SimilarDocumentsTool', () => {
+  let catalogRepo: FakeCatalogRepository;
+  let tool: SimilarDocumentsTool;
+
+  beforeEach(() => {
+    // SETUP
+    catalogRepo = new FakeCatalogRepository([
+      createTestSearchResult({
+        id: 1,
+        catalogId: 1,
+        source: '/docs/clean-architecture.pdf',
+        embeddings: [1, 0],
+        documentConceptIds: [10, 11],
+        conceptNames: ['dependency injection', 'layered architecture'],
+        categoryIds: [100],
+        categoryNames: ['software architecture']
+      }),
+      createTestSearchResult({
+        id: 2,
+        catalogId: 2,
+        source: '/docs/ddd.pdf',
+        embeddings: [1, 0],
+        documentConceptIds: [11, 12],
+        conceptNames: ['layered architecture', 'bounded context'],
+        categoryIds: [100],
+        categoryNames: ['software architecture']
+      }),
+      createTestSearchResult({
+        id: 3,
+        catalogId: 3,
+        source: '/docs/cooking.pdf',
+        embeddings: [0, 1],
+        documentConceptIds: [20],
+        conceptNames: ['sourdough'],
+        categoryIds: [200],
+        categoryNames: ['cooking']
+      })
+    ]);
+    tool = new SimilarDocumentsTool(new SimilarDocumentsService(catalogRepo));
+  });
+
+  describe('execute', () => {
+    it('should return similar documents with scores and shared concepts', async () => {
+      // EXERCISE
+      const result = await tool.execute({ source: '/docs/clean-architecture.pdf' });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      const content = JSON.parse(result.content[0].text);
+      expect(content.document).toEqual({ catalog_id: 1, source: '/docs/clean-architecture.pdf' });
+      expect(content.similar).toEqual([{
+        catalog_id: 2,
+        source: '/docs/ddd.pdf',
+        score: 0.7667,
+        scores: { vector: 1, concepts: 0.3333, categories: 1 },
+        shared_concepts: ['layered architecture'],
+        shared_concept_count: 1,
+        shared_categories: ['software architecture']
+      }]);
+    });
+
+    it('should accept a catalog ID', async () => {
+      // EXERCISE
+      const result = await tool.execute({ catalog_id: 2, limit: 1 });
+
+      // VERIFY
+      expect(result.isError).toBe(false);
+      const content = JSON.parse(result.content[0].text);
+      expect(content.similar.map((s: any) => s.catalog_id)).toEqual([1]);
+    });
+
+    it('should reject a request without a document', async () => {
+      // EXERCISE
+      const result = await tool.execute({});
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_CATALOG_ID_INVALID');
+    });
+
+    it('should reject a limit above 50', async () => {
+      // EXERCISE
+      const result = await tool.execute({ catalog_id: 1, limit: 51 });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error.code).toBe('VALIDATION_LIMIT_INVALID');
+    });
+
+    it('should report an unknown document', async () => {
+      // EXERCISE
+      const result = await tool.execute({ catalog_id: 99 });
+
+      // VERIFY
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toEqual({
+        type: 'not_found',
+        message: 'Document not found: document 99'
+      });
+    });
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { BaseTool, ToolParams } from '../base/tool.js';
+import { cursorSchema, decodeCursor, paginate, requestFingerprint } from '../base/pagination.js';
 import type { CategoryRepository } from '../../domain/interfaces/category-repository.js';
 import { CatalogRepository } from '../../domain/interfaces/repositories/catalog-repository.js';
 import { InputValidator } from '../../domain/services/validation/index.js';
@@ -12,6 +13,8 @@ import { isSome } from '../../domain/functional/index.js';
 export interface CategorySearchToolParams extends ToolParams {
   category: string;
   includeChildren?: boolean;
+  limit?: number;
+  cursor?: string;
 }
 
 export class CategorySearchTool extends BaseTool<CategorySearchToolParams> {
@@ -40,7 +43,7 @@ DO NOT USE for:
 - Discovering what categories exist (use list_categories first)
 - Finding where a concept is discussed (use concept_search or source_concepts)
 
-RETURNS: Category metadata (name, description, hierarchy, aliases, related categories), statistics (document count, chunk count, concept count), and all documents in the category with titles, previews, and primary concepts.
+RETURNS: Category metadata (name, description, hierarchy, aliases, related categories), statistics (document count, chunk count, concept count), and the documents in the category (sorted by title) with titles, previews, and primary concepts. With a limit, documents are paged; pass next_cursor back as cursor for the next page (null on the last page).
 
 COMMON WORKFLOW: First use list_categories to discover available categories, then use this tool with a specific category name to get all documents in that domain.`;
   
@@ -54,7 +57,12 @@ COMMON WORKFLOW: First use list_categories to discover available categories, the
       includeChildren: {
         type: "boolean",
         description: "Include child categories in hierarchy (default: false)"
-      }
+      },
+      limit: {
+        type: "integer",
+        description: "Maximum documents per page (default: all documents)"
+      },
+      cursor: cursorSchema
     },
     required: ["category"]
   };
@@ -63,6 +71,11 @@ COMMON WORKFLOW: First use list_categories to discover available categories, the
     try {
       // Validate input
       this.validator.validateCategorySearch(params);
+      const fingerprint = requestFingerprint(this.name, {
+        category: params.category,
+        includeChildren: params.includeChildren ?? false
+      });
+      const offset = decodeCursor(params.cursor, fingerprint);
       
       // Resolve category
       const category = await this.categoryRepo.resolveCategory(params.category);
@@ -92,13 +105,17 @@ COMMON WORKFLOW: First use list_categories to discover available categories, the
         }
       }
       
-      const documents = Array.from(uniqueDocs.values());
+      // Order by title (ties by ID) so pages are stable
+      const documents = Array.from(uniqueDocs.values()).sort((a, b) =>
+        ((a as any).title || '').localeCompare((b as any).title || '') || a.id - b.id
+      );
+      const page = paginate(documents, offset, params.limit ?? documents.length, fingerprint);
       
       // Get unique concepts in this category
       const uniqueConceptIds = await this.catalogRepo.getConceptsInCategory(category.id);
       
-      // Format documents for output - use title from catalog (no limit - return all)
-      const formattedDocs = documents.map(doc => ({
+      // Format documents for output - use title from catalog (all documents unless limited)
+      const formattedDocs = page.items.map(doc => ({
         title: (doc as any).title || '',
         preview: doc.text.substring(0, 200) + '...',
         primaryConcepts: doc.concepts?.primary_concepts?.slice(0, 5) || []
@@ -137,9 +154,10 @@ COMMON WORKFLOW: First use list_categories to discover available categories, the
           totalDocuments: category.documentCount || documents.length,
           totalChunks: category.chunkCount || 0,
           totalConcepts: uniqueConceptIds.length,
-          documentsReturned: documents.length
+          documentsReturned: formattedDocs.length
         },
         documents: formattedDocs,
+        next_cursor: page.nextCursor,
         includeChildren: params.includeChildren || false,
         categoriesSearched: searchedCategoryNames
       }, null, 2);
@@ -0,0 +1,186 @@
+import { BaseTool, ToolParams } from "../base/tool.js";
+import { ConceptPathService, ConceptPathResult } from "../../domain/services/concept-path-service.js";
+import { ConceptPath, ConceptPathHop, ConceptPathMode } from "../../domain/models/index.js";
+import { InputValidator } from "../../domain/services/validation/index.js";
+import { isErr } from "../../domain/functional/index.js";
+
+export interface ConceptPathToolParams extends ToolParams {
+  from: string;
+  to: string;
+  mode?: ConceptPathMode;
+  max_hops?: number;
+  limit?: number;
+}
+
+/**
+ * MCP tool for finding how two concepts relate over the concept graph.
+ * Thin adapter that delegates to ConceptPathService.
+ */
+export class ConceptPathTool extends BaseTool<ConceptPathToolParams> {
+  private validator = new InputValidator();
+
+  constructor(
+    private conceptPathService: ConceptPathService
+  ) {
+    super();
+  }
+
+  name = "concept_path";
+  description = `Find how two concepts relate in the library: the shortest or strongest paths between them over the concept graph, with the documents that justify each link.
+
+Concepts are linked when they appear together in documents (co-occurrence) or share significant words (lexical). A link's strength is the overlap of the two concepts' documents; a path's strength is the product of its links' strengths.
+
+USE THIS TOOL WHEN:
+- Asking how two concepts relate ("how does event sourcing relate to CQRS?")
+- Looking for the ideas and documents that bridge two topics
+
+DO NOT USE for:
+- Exploring a single concept (use concept_search for its chunks, source_concepts for its documents)
+- Discovering concept names (use search_concepts)
+
+Concept names must match exactly (case-insensitive); use search_concepts to find the exact names.
+
+RETURNS: { from, to, mode, paths, explored_concepts }, best first. Each path has:
+- concepts: the concept names from start to end
+- hop_count and strength (0-1)
+- hops: from, to, relations (co-occurrence, lexical), strength, document_count and the first documents containing both concepts (catalog_id, source)
+
+An empty paths list means the concepts are not connected within max_hops.`;
+  inputSchema = {
+    type: "object" as const,
+    properties: {
+      from: {
+        type: "string",
+        description: "Concept the paths start at",
+      },
+      to: {
+        type: "string",
+        description: "Concept the paths end at",
+      },
+      mode: {
+        type: "string",
+        enum: ["shortest", "strongest"],
+        description: "Rank paths by fewest hops (then strength) or by strength alone (default: shortest)"
+      },
+      max_hops: {
+        type: "integer",
+        minimum: 1,
+        maximum: 6,
+        description: "Maximum hops per path (default: 4)"
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        maximum: 10,
+        description: "Maximum paths to return (default: 3)"
+      }
+    },
+    required: ["from", "to"],
+  };
+
+  async execute(params: ConceptPathToolParams) {
+    const request = {
+      from: params.from,
+      to: params.to,
+      mode: params.mode,
+      maxHops: params.max_hops,
+      limit: params.limit
+    };
+
+    // Validate input
+    try {
+      this.validator.validateConceptPath(request);
+    } catch (error: any) {
+      console.error(`❌ Validation failed: ${error.message}`);
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              code: error.code || 'VALIDATION_ERROR',
+              message: error.message,
+              field: error.field,
+              context: error.context
+            },
+            timestamp: new Date().toISOString()
+          })
+        }]
+      };
+    }
+
+    const result = await this.conceptPathService.findPaths(request);
+
+    // Handle Result type
+    if (isErr(result)) {
+      const error = result.error;
+      const errorMessage =
+        error.type === 'validation' ? error.message :
+        error.type === 'concept_not_found' ? `Concept not found: "${error.concept}". Use search_concepts to find the exact name.` :
+        error.type === 'database' ? error.message :
+        error.type === 'unknown' ? error.message :
+        'An unknown error occurred';
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              type: error.type,
+              message: errorMessage
+            },
+            timestamp: new Date().toISOString()
+          })
+        }],
+        isError: true,
+      };
+    }
+
+    // @ts-expect-error - Type narrowing limitation
+    const { from, to, mode, paths, exploredConcepts }: ConceptPathResult = result.value;
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            from,
+            to,
+            mode,
+            paths: paths.map(formatPath),
+            explored_concepts: exploredConcepts
+          }, null, 2)
+        },
+      ],
+      isError: false,
+    };
+  }
+}
+
+/** Round a score for display */
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function formatPath(path: ConceptPath) {
+  return {
+    concepts: path.concepts,
+    hop_count: path.hops.length,
+    strength: round(path.strength),
+    hops: path.hops.map(formatHop)
+  };
+}
+
+function formatHop(hop: ConceptPathHop) {
+  return {
+    from: hop.from,
+    to: hop.to,
+    relations: hop.relations,
+    strength: round(hop.strength),
+    document_count: hop.documentCount,
+    documents: hop.documents.map(document => ({
+      catalog_id: document.catalogId,
+      source: document.source
+    }))
+  };
+}
@@ -1,5 +1,7 @@
 import { BaseTool, ToolParams } from "../base/tool.js";
+import { cursorSchema, decodeCursor, paginate, requestFingerprint } from "../base/pagination.js";
 import { ConceptSearchService, ConceptSearchResult, EnrichedChunk, SourceWithPages } from "../../domain/services/concept-search-service.js";
+import { InputValidator } from "../../domain/services/validation/index.js";
 import { Configuration } from "../../application/config/index.js";
 
 export interface ConceptSearchParams extends ToolParams {
@@ -8,6 +10,12 @@ export interface ConceptSearchParams extends ToolParams {
   
   /** Optional source path filter */
   source_filter?: string;
+  
+  /** Maximum chunks per page (default: all) */
+  limit?: number;
+  
+  /** Cursor of the page to fetch, from a previous response */
+  cursor?: string;
 }
 
 /**
@@ -22,6 +30,8 @@ export interface ConceptSearchParams extends ToolParams {
  * - Enriched chunks sorted by concept density
  */
 export class ConceptSearchTool extends BaseTool<ConceptSearchParams> {
+  private validator = new InputValidator();
+  
   constructor(
     private conceptSearchService: ConceptSearchService
   ) {
@@ -43,11 +53,13 @@ DO NOT USE for:
 - Keyword searches or exact phrase matching (use broad_chunks_search instead)
 - Finding documents by title (use catalog_search instead)
 - Searching within a known document (use chunks_search instead)
+- Discovering concept names (use search_concepts first, then pass a name found there)
 
 RETURNS: All matching content organized as Concept → Sources → Chunks:
 - Concept metadata: summary, synonyms, broader/narrower terms
 - All source documents with match_type: 'primary' (direct) or 'related' (via linked concept)
 - All chunks: text with page numbers and concept density ranking
+- next_cursor: with a limit, chunks are paged; pass next_cursor back as cursor for the next page (null on the last page)
 
 Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
 
@@ -61,7 +73,12 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
       source_filter: {
         type: "string",
         description: "Optional: Filter results to documents containing this text in their source path"
-      }
+      },
+      limit: {
+        type: "integer",
+        description: "Optional: Maximum chunks per page (default: all chunks)"
+      },
+      cursor: cursorSchema
     },
     required: ["concept"],
   };
@@ -85,6 +102,32 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
       };
     }
     
+    const fingerprint = requestFingerprint(this.name, {
+      concept: params.concept,
+      source_filter: params.source_filter
+    });
+    let offset: number;
+    try {
+      this.validator.validateConceptSearch(params);
+      offset = decodeCursor(params.cursor, fingerprint);
+    } catch (error: any) {
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              code: error.code || 'VALIDATION_ERROR',
+              message: error.message,
+              field: error.field,
+              context: error.context
+            },
+            timestamp: new Date().toISOString()
+          })
+        }]
+      };
+    }
+    
     console.error(`🔍 Hierarchical concept search: "${params.concept}"`);
     
     try {
@@ -97,9 +140,13 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
         sourceFilter: params.source_filter
       });
       
-      // Format for MCP response
+      // Page the ranked chunks, then format for MCP response
+      const page = paginate(result.chunks, offset, params.limit ?? result.chunks.length, fingerprint);
       const debugSearch = Configuration.getInstance().logging.debugSearch;
-      const formatted = this.formatResult(result, debugSearch);
+      const formatted = {
+        ...this.formatResult({ ...result, chunks: page.items }, debugSearch),
+        next_cursor: page.nextCursor
+      };
       
       console.error(`✅ Found: ${result.totalDocuments} documents, ${result.chunks.length} chunks across ${result.sources.length} sources`);
       
@@ -1,14 +1,29 @@
 import { BaseTool, ToolParams } from "../base/tool.js";
+import { SearchFilterParams, facetsSchema, searchFiltersSchema, toSearchFilters } from "../base/search-filters.js";
+import { expandChunkContexts, expandContextSchema } from "../base/chunk-context.js";
+import { formatMatches, formatSnippet, snippetSchema } from "../base/snippet.js";
+import { cursorSchema, decodeCursorPosition, pageSearchResults, requestFingerprint, searchDepth, type CursorPosition } from "../base/pagination.js";
+import type { WeightProfileName } from "../../domain/interfaces/services/index.js";
 import { ChunkSearchService } from "../../domain/services/index.js";
+import type { SearchError } from "../../domain/services/chunk-search-service.js";
 import { InputValidator } from "../../domain/services/validation/index.js";
 import { isErr } from "../../domain/functional/index.js";
-import { SearchResult } from "../../domain/models/index.js";
+import type { Result } from "../../domain/functional/result.js";
+import { FacetField, FacetedSearchResults, SearchResult } from "../../domain/models/index.js";
 import { Configuration } from "../../application/config/index.js";
-import { filterByScoreGap } from "../../infrastructure/search/scoring-strategies.js";
 
 export interface ConceptualBroadChunksSearchParams extends ToolParams {
   text: string;
   limit?: number;
+  cursor?: string;
+  weight_profile?: WeightProfileName;
+  filters?: SearchFilterParams;
+  facets?: FacetField[];
+  diversify?: boolean;
+  mmr_lambda?: number;
+  max_per_document?: number;
+  expand_context?: number;
+  snippet?: boolean;
 }
 
 /**
@@ -33,13 +48,19 @@ USE THIS TOOL WHEN:
 - Looking for textual content that may or may not be tagged as a concept
 - Query contains multiple terms or is phrased as a natural language question
 - Want to find content regardless of whether it was identified as a formal concept
+- Restricting the search to documents by year range, document type, author, category or venue (use filters)
+- Narrowing a broad query: facets counts all matching chunks per category, author, year, document type or venue of their documents, to pick a filter
+- Need more results than the first page (pass next_cursor back as cursor)
+- Results are dominated by near-identical chunks of one document (use diversify and/or max_per_document)
+- Chunks are too short to quote on their own (use expand_context, or get_chunk_context with a result's chunk_id)
+- Scanning many results cheaply (use snippet for short highlighted excerpts)
 
 DO NOT USE for:
 - Finding documents by title or getting document overviews (use catalog_search instead)
 - Searching within a single known document (use chunks_search instead)
 - Finding semantically-tagged concept discussions (use concept_search)
 
-RETURNS: Chunks in the high-scoring cluster (adaptive count based on score gaps), ranked by hybrid scoring (35% vector, 35% BM25, 15% concept, 15% WordNet). May include false positives based on keyword matches.
+RETURNS: { did_you_mean, results, facets, next_cursor }. Without a limit, the first page holds the chunks in the high-scoring cluster (adaptive count based on score gaps); with a limit, pages hold up to that many chunks. Ranked by hybrid scoring (35% vector, 35% BM25, 15% concept, 15% WordNet). Each result lists where query terms matched in its text (or is a highlighted excerpt with snippet). May include false positives based on keyword matches. next_cursor is null on the last page. did_you_mean is present only when misspelled query terms were corrected to terms of the corpus; the search matches each correction as well as the term as typed. facets is present only when requested: for each field, up to 20 values with the number of matching chunks, most frequent first.
 
 Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
   inputSchema = {
@@ -47,16 +68,63 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
     properties: {
       text: {
         type: "string",
-        description: "Search query - natural language questions, phrases, keywords, or technical terms. Can be multi-word queries.",
-      }
+        description: "Search query - natural language questions, phrases, keywords, or technical terms. Can be multi-word queries. Supports \"exact phrases\", +required and -excluded terms, OR, and field prefixes title:, author:, year: (e.g. 2010..2015), category:, concept:.",
+      },
+      limit: {
+        type: "integer",
+        description: "Maximum chunks per page (default: adaptive cluster size on the first page, 10 on later pages)"
+      },
+      cursor: cursorSchema,
+      weight_profile: {
+        type: "string",
+        enum: ["default", "precise", "exploratory"],
+        description: "Ranking weight profile: 'precise' favours exact keyword and title matches, 'exploratory' favours semantic, concept and synonym matches (default: 'default', the configured weights)"
+      },
+      filters: searchFiltersSchema,
+      facets: facetsSchema,
+      diversify: {
+        type: "boolean",
+        description: "Re-order results by Maximal Marginal Relevance so near-duplicate chunks give way to different content (default: false)"
+      },
+      mmr_lambda: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "Relevance/diversity trade-off when diversify is true: 1 ranks by relevance only, lower values favour diversity (default: 0.7)"
+      },
+      max_per_document: {
+        type: "integer",
+        minimum: 1,
+        maximum: 100,
+        description: "Maximum chunks per document (default: no limit)"
+      },
+      expand_context: expandContextSchema,
+      snippet: snippetSchema
     },
     required: ["text"],
   };
 
   async execute(params: ConceptualBroadChunksSearchParams) {
+    const filters = toSearchFilters(params.filters);
+    const fingerprint = requestFingerprint(this.name, {
+      text: params.text,
+      weight_profile: params.weight_profile,
+      filters: params.filters,
+      diversify: params.diversify,
+      mmr_lambda: params.mmr_lambda,
+      max_per_document: params.max_per_document
+    });
+    let position: CursorPosition;
+    
     // Validate input
     try {
       this.validator.validateSearchQuery(params);
+      this.validator.validateWeightProfile(params.weight_profile);
+      this.validator.validateSearchFilters(filters);
+      this.validator.validateFacets(params.facets);
+      this.validator.validateDiversification({ mmrLambda: params.mmr_lambda, maxPerDocument: params.max_per_document });
+      this.validator.validateExpandContext(params.expand_context);
+      position = decodeCursorPosition(params.cursor, fingerprint);
     } catch (error: any) {
       console.error(`❌ Validation failed: ${error.message}`);
       return {
@@ -76,13 +144,23 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
       };
     }
     
-    // Delegate to service with sufficient limit for gap detection
+    // Delegate to service, ranking every page to the depth of the first so pages are slices of one ranking
+    const depth = position.depth ?? searchDepth(params.limit);
     const debugSearch = Configuration.getInstance().logging.debugSearch;
-    const result = await this.chunkSearchService.searchBroad({
+    const searchParams = {
       text: params.text,
-      limit: 30,  // Sufficient for gap detection while keeping performance
-      debug: debugSearch
-    });
+      limit: depth,
+      debug: debugSearch,
+      weightProfile: params.weight_profile,
+      filters,
+      diversify: params.diversify,
+      mmrLambda: params.mmr_lambda,
+      maxPerDocument: params.max_per_document
+    };
+    // Facets are counted over every match of the query; results are cached as without facets
+    const result: Result<SearchResult[] | FacetedSearchResults, SearchError> = params.facets === undefined
+      ? await this.chunkSearchService.searchBroad(searchParams)
+      : await this.chunkSearchService.searchBroadWithFacets({ ...searchParams, facets: params.facets });
     
     // Handle Result type
     if (isErr(result)) {
@@ -109,16 +187,23 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
       };
     }
     
-    // Filter by score > 0, then apply gap detection to find natural cluster
+    // Page results with score > 0 (gap detection finds the natural cluster on the first page)
     // Note: Chunks use concept-aware scoring (35% vector, 35% BM25, 15% concept, 15% WordNet)
     // @ts-expect-error - Type narrowing limitation
-    const positiveResults: SearchResult[] = result.value.filter((r: SearchResult) => r.hybridScore > 0);
-    const clusteredResults = filterByScoreGap(positiveResults) as SearchResult[];
+    const value: SearchResult[] | FacetedSearchResults = result.value;
+    const results = Array.isArray(value) ? value : value.results;
+    const facets = Array.isArray(value) ? undefined : value.facets;
+    const page = pageSearchResults(results, position.offset, params.limit, fingerprint, depth);
     
-    // Format results for MCP response
-    const formattedResults = clusteredResults.map((r) => ({
-        text: r.text,
+    // Format results for MCP response, with neighbouring chunks when requested
+    const contexts = await expandChunkContexts(this.chunkSearchService, page.items, params.expand_context);
+    const formattedResults = page.items.map((r, i) => ({
+        chunk_id: r.id,
+        ...(params.snippet
+          ? { snippet: formatSnippet(r) }
+          : { text: r.text, matches: formatMatches(r.matchSpans) }),
         source: r.source,
+        page_number: r.pageNumber,
         score: r.hybridScore.toFixed(3),  // Hybrid score always shown
         ...(debugSearch && {
           score_components: {  // Component breakdown only in debug mode
@@ -128,12 +213,24 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
             wordnet: r.wordnetScore.toFixed(3)
           }
         }),
-        expanded_terms: r.expandedTerms
+        expanded_terms: r.expandedTerms,
+        ...(contexts[i] && { context: contexts[i] })
       }));
     
+    // Query with its corrections applied, when query terms were misspelled
+    const didYouMean = page.items[0]?.didYouMean;
+    
     return {
       content: [
-        { type: "text" as const, text: JSON.stringify(formattedResults, null, 2) },
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            ...(didYouMean && { did_you_mean: didYouMean }),
+            results: formattedResults,
+            ...(facets && { facets }),
+            next_cursor: page.nextCursor
+          }, null, 2)
+        },
       ],
       isError: false,
     };
@@ -1,13 +1,24 @@
 import { BaseTool, ToolParams } from "../base/tool.js";
+import { SearchFilterParams, facetsSchema, searchFiltersSchema, toSearchFilters } from "../base/search-filters.js";
+import { formatMatches, formatSnippet, snippetSchema } from "../base/snippet.js";
+import { cursorSchema, decodeCursorPosition, pageSearchResults, requestFingerprint, searchDepth, type CursorPosition } from "../base/pagination.js";
+import type { WeightProfileName } from "../../domain/interfaces/services/index.js";
 import { CatalogSearchService } from "../../domain/services/index.js";
+import type { SearchError } from "../../domain/services/catalog-search-service.js";
 import { InputValidator } from "../../domain/services/validation/index.js";
 import { isErr } from "../../domain/functional/index.js";
-import { SearchResult } from "../../domain/models/index.js";
+import type { Result } from "../../domain/functional/result.js";
+import { FacetField, FacetedSearchResults, SearchResult } from "../../domain/models/index.js";
 import { Configuration } from "../../application/config/index.js";
-import { filterByScoreGap } from "../../infrastructure/search/scoring-strategies.js";
 
 export interface ConceptualCatalogSearchParams extends ToolParams {
   text: string;
+  limit?: number;
+  cursor?: string;
+  weight_profile?: WeightProfileName;
+  filters?: SearchFilterParams;
+  facets?: FacetField[];
+  snippet?: boolean;
 }
 
 /**
@@ -31,13 +42,17 @@ USE THIS TOOL WHEN:
 - Looking for documents by title, author, or keywords
 - Need document-level results rather than specific chunks
 - Starting exploratory research to identify relevant sources
+- Restricting documents by year range, document type, author, category or venue (use filters)
+- Narrowing a broad query: facets counts all matching documents per category, author, year, document type or venue, to pick a filter
+- Need more documents than the first page (pass next_cursor back as cursor)
+- Scanning many documents cheaply (use snippet for short highlighted excerpts of the summaries)
 
 DO NOT USE for:
 - Listing all documents (use list_categories then category_search instead)
 - Finding specific information within documents (use broad_chunks_search or chunks_search)
 - Tracking specific concept usage across chunks (use concept_chunks)
 
-RETURNS: Documents in the high-scoring cluster (adaptive count based on score gaps), with text previews, hybrid scores, matched concepts, and query expansion details.
+RETURNS: { did_you_mean, results, facets, next_cursor }. Without a limit, the first page holds the documents in the high-scoring cluster (adaptive count based on score gaps); with a limit, pages hold up to that many documents. Each has the summary with the positions of matched query terms (or a highlighted excerpt with snippet), hybrid score and query expansion details. next_cursor is null on the last page. did_you_mean is present only when misspelled query terms were corrected to terms of the corpus; the search matches each correction as well as the term as typed. facets is present only when requested: for each field, up to 20 values with the number of matching documents, most frequent first.
 
 Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
   inputSchema = {
@@ -45,16 +60,41 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
     properties: {
       text: {
         type: "string",
-        description: "Search query - document titles, author names, subject areas, or general topics. Title matches receive significant ranking boost.",
-      }
+        description: "Search query - document titles, author names, subject areas, or general topics. Title matches receive significant ranking boost. Supports \"exact phrases\", +required and -excluded terms, OR, and field prefixes title:, author:, year: (e.g. 2010..2015), category:, concept:.",
+      },
+      limit: {
+        type: "integer",
+        description: "Maximum documents per page (default: adaptive cluster size on the first page, 10 on later pages)"
+      },
+      cursor: cursorSchema,
+      weight_profile: {
+        type: "string",
+        enum: ["default", "precise", "exploratory"],
+        description: "Ranking weight profile: 'precise' favours exact keyword and title matches, 'exploratory' favours semantic, concept and synonym matches (default: 'default', the configured weights)"
+      },
+      filters: searchFiltersSchema,
+      facets: facetsSchema,
+      snippet: snippetSchema
     },
     required: ["text"],
   };
 
   async execute(params: ConceptualCatalogSearchParams) {
+    const filters = toSearchFilters(params.filters);
+    const fingerprint = requestFingerprint(this.name, {
+      text: params.text,
+      weight_profile: params.weight_profile,
+      filters: params.filters
+    });
+    let position: CursorPosition;
+    
     // Validate input
     try {
       this.validator.validateCatalogSearch(params);
+      this.validator.validateWeightProfile(params.weight_profile);
+      this.validator.validateSearchFilters(filters);
+      this.validator.validateFacets(params.facets);
+      position = decodeCursorPosition(params.cursor, fingerprint);
     } catch (error: any) {
       console.error(`❌ Validation failed: ${error.message}`);
       return {
@@ -74,13 +114,20 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
       };
     }
     
-    // Delegate to service with sufficient limit for gap detection
+    // Delegate to service, ranking every page to the depth of the first so pages are slices of one ranking
+    const depth = position.depth ?? searchDepth(params.limit);
     const debugSearch = Configuration.getInstance().logging.debugSearch;
-    const result = await this.catalogSearchService.searchCatalog({
+    const searchParams = {
       text: params.text,
-      limit: 30,  // Sufficient for gap detection while keeping performance
-      debug: debugSearch
-    });
+      limit: depth,
+      debug: debugSearch,
+      weightProfile: params.weight_profile,
+      filters
+    };
+    // Facets are counted over every match of the query; results are cached as without facets
+    const result: Result<SearchResult[] | FacetedSearchResults, SearchError> = params.facets === undefined
+      ? await this.catalogSearchService.searchCatalog(searchParams)
+      : await this.catalogSearchService.searchCatalogWithFacets({ ...searchParams, facets: params.facets });
     
     // Handle Result type
     if (isErr(result)) {
@@ -107,15 +154,19 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
       };
     }
     
-    // Filter by score > 0, then apply gap detection to find natural cluster
+    // Page results with score > 0 (gap detection finds the natural cluster on the first page)
     // @ts-expect-error - Type narrowing limitation
-    const positiveResults: SearchResult[] = result.value.filter((r: SearchResult) => r.hybridScore > 0);
-    const clusteredResults = filterByScoreGap(positiveResults) as SearchResult[];
+    const value: SearchResult[] | FacetedSearchResults = result.value;
+    const results = Array.isArray(value) ? value : value.results;
+    const facets = Array.isArray(value) ? undefined : value.facets;
+    const page = pageSearchResults(results, position.offset, params.limit, fingerprint, depth);
     
     // Format results for MCP response
-    const formattedResults = clusteredResults.map((r) => ({
+    const formattedResults = page.items.map((r) => ({
         source: r.source,
-        summary: r.text,  // Full summary (not truncated)
+        ...(params.snippet
+          ? { snippet: formatSnippet(r) }  // Best-matching excerpt of the summary
+          : { summary: r.text, matches: formatMatches(r.matchSpans) }),  // Full summary (not truncated)
         score: r.hybridScore.toFixed(3),  // Hybrid score always shown
         ...(debugSearch && {
           score_components: {  // Component breakdown only in debug mode
@@ -129,9 +180,20 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
         expanded_terms: r.expandedTerms
       }));
     
+    // Query with its corrections applied, when query terms were misspelled
+    const didYouMean = page.items[0]?.didYouMean;
+    
     return {
       content: [
-        { type: "text" as const, text: JSON.stringify(formattedResults, null, 2) },
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            ...(didYouMean && { did_you_mean: didYouMean }),
+            results: formattedResults,
+            ...(facets && { facets }),
+            next_cursor: page.nextCursor
+          }, null, 2)
+        },
       ],
       isError: false,
     };
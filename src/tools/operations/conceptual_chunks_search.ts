@@ -1,4 +1,5 @@
 import { BaseTool, ToolParams } from "../base/tool.js";
+import { expandChunkContexts, expandContextSchema } from "../base/chunk-context.js";
 import { ChunkSearchService } from "../../domain/services/index.js";
 import { CatalogRepository } from "../../domain/interfaces/repositories/catalog-repository.js";
 import { InputValidator } from "../../domain/services/validation/index.js";
@@ -9,6 +10,7 @@ import { Configuration } from "../../application/config/index.js";
 export interface ConceptualChunksSearchParams extends ToolParams {
   text: string;
   source: string;
+  expand_context?: number;
 }
 
 /**
@@ -33,6 +35,7 @@ USE THIS TOOL WHEN:
 - Searching within a specific source identified from catalog_search results
 - Focused analysis of one document's content
 - Need to find specific passages or sections within a known document
+- Need the passage around each match (use expand_context)
 
 DO NOT USE for:
 - Finding which documents to search (use catalog_search first)
@@ -55,7 +58,8 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
       source: {
         type: "string",
         description: "REQUIRED: Full file path of the source document (e.g., '/home/user/Documents/ebooks/Philosophy/Book Title.pdf'). Use catalog_search first to find the exact path.",
-      }
+      },
+      expand_context: expandContextSchema
     },
     required: ["text", "source"],
   };
@@ -64,6 +68,7 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
     // Validate input
     try {
       this.validator.validateChunksSearch(params);
+      this.validator.validateExpandContext(params.expand_context);
     } catch (error: any) {
       console.error(`❌ Validation failed: ${error.message}`);
       return {
@@ -139,18 +144,23 @@ Debug output can be enabled via DEBUG_SEARCH=true environment variable.`;
     const catalogSource = catalogOpt.value.source || '';
     
     // @ts-expect-error - Type narrowing limitation
-    const formattedResults = result.value.map((r: Chunk) => {
+    const chunks: Chunk[] = result.value;
+    const contexts = await expandChunkContexts(this.chunkSearchService, chunks, params.expand_context);
+    const formattedResults = chunks.map((r, i) => {
       // Use derived concept_names field directly
       const conceptNames = (r.conceptNames && r.conceptNames.length > 0 && r.conceptNames[0] !== '')
         ? r.conceptNames
         : [];
       
       return {
+        chunk_id: r.id,
         text: r.text,
         source: catalogSource,  // From catalog lookup
         title: r.catalogTitle || '',
+        page_number: r.pageNumber,
         concepts: conceptNames,
         concept_ids: r.conceptIds || [],
+        ...(contexts[i] && { context: contexts[i] })
       };
     });
     
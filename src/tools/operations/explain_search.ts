@@ -0,0 +1,234 @@
+import { BaseTool, ToolParams } from "../base/tool.js";
+import { SearchFilterParams, searchFiltersSchema, toSearchFilters } from "../base/search-filters.js";
+import type { WeightProfileName } from "../../domain/interfaces/services/index.js";
+import { CatalogSearchService, ChunkSearchService } from "../../domain/services/index.js";
+import { InputValidator } from "../../domain/services/validation/index.js";
+import { isErr } from "../../domain/functional/index.js";
+import type { Result } from "../../domain/functional/result.js";
+import type { SearchError as CatalogSearchError } from "../../domain/services/catalog-search-service.js";
+import type { SearchError as ChunkSearchError } from "../../domain/services/chunk-search-service.js";
+import {
+  ExplainedCandidate,
+  SearchCollectionName,
+  SearchExplanation,
+  SignalWeightBreakdown
+} from "../../domain/models/index.js";
+
+export interface ExplainSearchParams extends ToolParams {
+  text: string;
+  collection?: SearchCollectionName;
+  limit?: number;
+  weight_profile?: WeightProfileName;
+  filters?: SearchFilterParams;
+}
+
+/** Default number of results explained */
+const DEFAULT_EXPLAIN_LIMIT = 10;
+
+/**
+ * MCP tool explaining how a search ranks its results.
+ * Thin adapter that delegates to CatalogSearchService and ChunkSearchService.
+ */
+export class ExplainSearchTool extends BaseTool<ExplainSearchParams> {
+  private validator = new InputValidator();
+
+  constructor(
+    private catalogSearchService: CatalogSearchService,
+    private chunkSearchService: ChunkSearchService
+  ) {
+    super();
+  }
+
+  name = "explain_search";
+  description = `Explain how catalog_search or broad_chunks_search ranks the results of a query: every stage of the hybrid ranking pipeline as structured JSON.
+
+USE THIS TOOL WHEN:
+- A result ranks unexpectedly high or low and you need to know why
+- Checking which synonyms and related terms a query was expanded with
+- Comparing how weight profiles or filters change the ranking
+- Tuning queries or search configuration
+
+DO NOT USE for:
+- Finding content (use broad_chunks_search or catalog_search; this tool returns scores, not text)
+
+RETURNS: { query, collection, did_you_mean, corrections, parsed_query, expanded_terms, query_analysis, weights, filter, candidates, before_rerank, reranker, after_rerank, results }.
+- did_you_mean / corrections: the query with its corrections applied and each misspelled term with the corpus term searched alongside it (null / empty when the query was spelled correctly)
+- expanded_terms: each term with its keyword weight and origin (original, corpus, concept or wordnet)
+- query_analysis and weights: the query characteristics and how they adjusted the base signal weights of the profile
+- filter: the predicate applied to retrieval (null when unfiltered)
+- candidates: counts from vector search, full-text search (null without an index), after merging, and after required/excluded terms
+- before_rerank / after_rerank: every candidate in fused and reranked order with its score per signal, rank per signal, hybrid score and rerank score (after_rerank is null when no reranker ran)
+- results: the returned results after diversification and the limit`;
+  inputSchema = {
+    type: "object" as const,
+    properties: {
+      text: {
+        type: "string",
+        description: "Search query, as passed to catalog_search or broad_chunks_search",
+      },
+      collection: {
+        type: "string",
+        enum: ["chunks", "catalog"],
+        description: "Collection to search: 'chunks' as broad_chunks_search, 'catalog' as catalog_search (default: 'chunks')"
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        maximum: 50,
+        description: "Number of results (default: 10); three times as many candidates are explained"
+      },
+      weight_profile: {
+        type: "string",
+        enum: ["default", "precise", "exploratory"],
+        description: "Ranking weight profile: 'precise' favours exact keyword and title matches, 'exploratory' favours semantic, concept and synonym matches (default: 'default', the configured weights)"
+      },
+      filters: searchFiltersSchema
+    },
+    required: ["text"],
+  };
+
+  async execute(params: ExplainSearchParams) {
+    const filters = toSearchFilters(params.filters);
+
+    // Validate input
+    try {
+      this.validator.validateExplainSearch(params);
+      this.validator.validateWeightProfile(params.weight_profile);
+      this.validator.validateSearchFilters(filters);
+    } catch (error: any) {
+      console.error(`❌ Validation failed: ${error.message}`);
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              code: error.code || 'VALIDATION_ERROR',
+              message: error.message,
+              field: error.field,
+              context: error.context
+            },
+            timestamp: new Date().toISOString()
+          })
+        }]
+      };
+    }
+
+    // Delegate to the service of the collection, with the parameters of its search tool
+    const searchParams = {
+      text: params.text,
+      limit: params.limit ?? DEFAULT_EXPLAIN_LIMIT,
+      weightProfile: params.weight_profile,
+      filters
+    };
+    const result: Result<SearchExplanation, CatalogSearchError | ChunkSearchError> = params.collection === 'catalog'
+      ? await this.catalogSearchService.explainCatalog(searchParams)
+      : await this.chunkSearchService.explainBroad(searchParams);
+
+    // Handle Result type
+    if (isErr(result)) {
+      const error = result.error;
+      const errorMessage =
+        error.type === 'validation' ? error.message :
+        error.type === 'database' ? error.message :
+        error.type === 'not_found' ? `Resource not found: ${error.resource}` :
+        error.type === 'unknown' ? error.message :
+        'An unknown error occurred';
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              type: error.type,
+              message: errorMessage
+            },
+            timestamp: new Date().toISOString()
+          })
+        }],
+        isError: true,
+      };
+    }
+
+    // @ts-expect-error - Type narrowing limitation
+    const explanation: SearchExplanation = result.value;
+    const { analysis } = explanation;
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            query: explanation.query,
+            collection: explanation.collection,
+            did_you_mean: explanation.didYouMean ?? null,
+            corrections: explanation.corrections,
+            parsed_query: explanation.parsedQuery,
+            expanded_terms: explanation.expandedTerms.map(({ term, origin, weight }) => ({
+              term,
+              origin,
+              weight: round(weight)
+            })),
+            query_analysis: {
+              term_count: analysis.termCount,
+              is_single_term: analysis.isSingleTerm,
+              wordnet_term_count: analysis.wordnetTermCount,
+              concept_term_count: analysis.conceptTermCount,
+              wordnet_expansion_ratio: round(analysis.wordnetExpansionRatio),
+              has_strong_concept_signal: analysis.hasStrongConceptSignal,
+              wordnet_boost_factor: round(analysis.wordnetBoostFactor),
+              boost_reason: analysis.boostReason
+            },
+            weights: {
+              profile: explanation.weightProfile,
+              fusion: explanation.fusion,
+              base: roundSignals(explanation.baseWeights),
+              adjusted: roundSignals(explanation.weights)
+            },
+            filter: explanation.filter ?? null,
+            candidates: {
+              vector: explanation.candidates.vector,
+              full_text: explanation.candidates.fullText,
+              merged: explanation.candidates.merged,
+              matching: explanation.candidates.matching
+            },
+            before_rerank: explanation.beforeRerank.map(formatCandidate),
+            reranker: explanation.reranker ?? null,
+            after_rerank: explanation.afterRerank?.map(formatCandidate) ?? null,
+            results: explanation.results.map(formatCandidate)
+          }, null, 2)
+        },
+      ],
+      isError: false,
+    };
+  }
+}
+
+/** Round a score or weight for display */
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+/** Round per-signal weights or scores for display */
+function roundSignals(values: SignalWeightBreakdown): SignalWeightBreakdown {
+  return {
+    vector: round(values.vector),
+    bm25: round(values.bm25),
+    title: round(values.title),
+    concept: round(values.concept),
+    wordnet: round(values.wordnet)
+  };
+}
+
+function formatCandidate(candidate: ExplainedCandidate) {
+  return {
+    rank: candidate.rank,
+    id: candidate.id,
+    catalog_id: candidate.catalogId,
+    source: candidate.source,
+    scores: roundSignals(candidate.scores),
+    signal_ranks: candidate.signalRanks,
+    hybrid_score: round(candidate.hybridScore),
+    ...(candidate.rerankScore !== undefined && { rerank_score: round(candidate.rerankScore) })
+  };
+}
@@ -0,0 +1,162 @@
+import { BaseTool, ToolParams } from "../base/tool.js";
+import { PassageSearchService } from "../../domain/services/passage-search-service.js";
+import { PassageMatch } from "../../domain/models/index.js";
+import { InputValidator } from "../../domain/services/validation/index.js";
+import { isErr } from "../../domain/functional/index.js";
+
+export interface FindPassageParams extends ToolParams {
+  passage: string;
+  limit?: number;
+}
+
+/** Default number of matches returned */
+const DEFAULT_FIND_PASSAGE_LIMIT = 5;
+
+/**
+ * MCP tool for finding the source and exact wording of a passage.
+ * Thin adapter that delegates to PassageSearchService.
+ */
+export class FindPassageTool extends BaseTool<FindPassageParams> {
+  private validator = new InputValidator();
+
+  constructor(
+    private passageSearchService: PassageSearchService
+  ) {
+    super();
+  }
+
+  name = "find_passage";
+  description = `Find the chunks a passage comes from, with the exact wording, its position in the chunk and the page number - to verify and cite a quote.
+
+Accepts a quote, a paraphrase or a pasted paragraph. Matches combine shared word shingles (runs of three words, found through an index built at seed time), word-by-word alignment and semantic similarity, so exact quotes rank first and paraphrases are still found.
+
+USE THIS TOOL WHEN:
+- Verifying a quote before citing it
+- Finding the source of a half-remembered or paraphrased passage
+- Recovering the exact wording of something you summarized
+
+DO NOT USE for:
+- Topic or keyword searches (use broad_chunks_search)
+- Finding documents (use catalog_search)
+
+RETURNS: { matches }, best first, each with:
+- chunk_id, catalog_id, title, page_number, text (the chunk)
+- match: the best matching span of the chunk - start/end character offsets in text and its exact wording (null if no word matches)
+- passage_start / passage_end: the part of the passage the span matches
+- exact: whether the chunk contains the passage word for word (ignoring case and punctuation)
+- score and scores: the combined score and its shingle, alignment (share of the passage's words matched) and vector signals (0-1)
+
+Pass chunk_id to get_chunk_context to read around a match.`;
+  inputSchema = {
+    type: "object" as const,
+    properties: {
+      passage: {
+        type: "string",
+        description: "Quote, paraphrase or paragraph to find (up to 5000 characters)",
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        maximum: 20,
+        description: "Maximum matches to return (default: 5)"
+      }
+    },
+    required: ["passage"],
+  };
+
+  async execute(params: FindPassageParams) {
+    // Validate input
+    try {
+      this.validator.validateFindPassage(params);
+    } catch (error: any) {
+      console.error(`❌ Validation failed: ${error.message}`);
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              code: error.code || 'VALIDATION_ERROR',
+              message: error.message,
+              field: error.field,
+              context: error.context
+            },
+            timestamp: new Date().toISOString()
+          })
+        }]
+      };
+    }
+
+    const result = await this.passageSearchService.findPassage({
+      passage: params.passage,
+      limit: params.limit ?? DEFAULT_FIND_PASSAGE_LIMIT
+    });
+
+    // Handle Result type
+    if (isErr(result)) {
+      const error = result.error;
+      const errorMessage =
+        error.type === 'validation' ? error.message :
+        error.type === 'database' ? error.message :
+        error.type === 'unknown' ? error.message :
+        'An unknown error occurred';
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              type: error.type,
+              message: errorMessage
+            },
+            timestamp: new Date().toISOString()
+          })
+        }],
+        isError: true,
+      };
+    }
+
+    // @ts-expect-error - Type narrowing limitation
+    const matches: PassageMatch[] = result.value;
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            matches: matches.map(formatMatch)
+          }, null, 2)
+        },
+      ],
+      isError: false,
+    };
+  }
+}
+
+/** Round a score for display */
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function formatMatch(match: PassageMatch) {
+  const { chunk, alignment } = match;
+  return {
+    chunk_id: chunk.id,
+    catalog_id: chunk.catalogId,
+    title: chunk.catalogTitle ?? '',
+    page_number: chunk.pageNumber,
+    match: alignment
+      ? { start: alignment.start, end: alignment.end, text: chunk.text.slice(alignment.start, alignment.end) }
+      : null,
+    passage_start: alignment?.passageStart,
+    passage_end: alignment?.passageEnd,
+    exact: alignment?.exact ?? false,
+    score: round(match.score),
+    scores: {
+      shingle: round(match.shingleScore),
+      alignment: round(alignment?.coverage ?? 0),
+      vector: round(match.vectorScore)
+    },
+    text: chunk.text
+  };
+}
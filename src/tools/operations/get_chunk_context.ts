@@ -0,0 +1,141 @@
+import { BaseTool, ToolParams } from "../base/tool.js";
+import { formatContextChunk } from "../base/chunk-context.js";
+import { ChunkSearchService } from "../../domain/services/index.js";
+import { InputValidator } from "../../domain/services/validation/index.js";
+import { isErr } from "../../domain/functional/index.js";
+import { ChunkContext } from "../../domain/models/index.js";
+
+export interface GetChunkContextParams extends ToolParams {
+  chunk_id: number;
+  before?: number;
+  after?: number;
+}
+
+/**
+ * MCP tool for reading the neighbouring chunks of a chunk.
+ * Thin adapter that delegates to ChunkSearchService.
+ */
+export class GetChunkContextTool extends BaseTool<GetChunkContextParams> {
+  private validator = new InputValidator();
+
+  constructor(
+    private chunkSearchService: ChunkSearchService
+  ) {
+    super();
+  }
+
+  name = "get_chunk_context";
+  description = `Read a chunk together with the chunks before and after it in the same document, in reading order.
+
+USE THIS TOOL WHEN:
+- A search result is too short to quote or understand on its own
+- Need the surrounding passage of a chunk returned by broad_chunks_search or chunks_search
+- Reading a document section by section, starting from a known chunk
+
+DO NOT USE for:
+- Finding relevant chunks (use broad_chunks_search or chunks_search first)
+- Getting a document overview (use catalog_search)
+
+RETURNS: { catalog_id, title, chunks }. chunks holds the preceding chunks, the requested chunk (offset 0) and the following chunks in reading order, each with chunk_id, page_number and offset. Fewer neighbours are returned at the start or end of a document.`;
+  inputSchema = {
+    type: "object" as const,
+    properties: {
+      chunk_id: {
+        type: "integer",
+        description: "ID of the chunk, from the chunk_id field of a search result",
+      },
+      before: {
+        type: "integer",
+        minimum: 0,
+        maximum: 20,
+        description: "Number of preceding chunks (default: 2)"
+      },
+      after: {
+        type: "integer",
+        minimum: 0,
+        maximum: 20,
+        description: "Number of following chunks (default: 2)"
+      }
+    },
+    required: ["chunk_id"],
+  };
+
+  async execute(params: GetChunkContextParams) {
+    // Validate input
+    try {
+      this.validator.validateChunkContext({ chunkId: params.chunk_id, before: params.before, after: params.after });
+    } catch (error: any) {
+      console.error(`❌ Validation failed: ${error.message}`);
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              code: error.code || 'VALIDATION_ERROR',
+              message: error.message,
+              field: error.field,
+              context: error.context
+            },
+            timestamp: new Date().toISOString()
+          })
+        }]
+      };
+    }
+
+    // Delegate to service
+    const result = await this.chunkSearchService.getChunkContext({
+      chunkId: params.chunk_id,
+      before: params.before,
+      after: params.after
+    });
+
+    // Handle Result type
+    if (isErr(result)) {
+      const error = result.error;
+      const errorMessage =
+        error.type === 'validation' ? error.message :
+        error.type === 'database' ? error.message :
+        error.type === 'not_found' ? `Resource not found: ${error.resource}` :
+        error.type === 'unknown' ? error.message :
+        'An unknown error occurred';
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              type: error.type,
+              message: errorMessage
+            },
+            timestamp: new Date().toISOString()
+          })
+        }],
+        isError: true,
+      };
+    }
+
+    // Format chunks in reading order with their offset from the requested chunk
+    // @ts-expect-error - Type narrowing limitation
+    const context: ChunkContext = result.value;
+    const chunks = [
+      ...context.before.map((chunk, i) => ({ ...formatContextChunk(chunk), offset: i - context.before.length })),
+      { ...formatContextChunk(context.chunk), offset: 0 },
+      ...context.after.map((chunk, i) => ({ ...formatContextChunk(chunk), offset: i + 1 }))
+    ];
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            catalog_id: context.chunk.catalogId,
+            title: context.chunk.catalogTitle || '',
+            chunks
+          }, null, 2)
+        },
+      ],
+      isError: false,
+    };
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import { BaseTool, ToolParams } from '../base/tool.js';
+import { cursorSchema, decodeCursor, paginate, requestFingerprint } from '../base/pagination.js';
 import type { CategoryRepository } from '../../domain/interfaces/category-repository.js';
 import type { CatalogRepository } from '../../domain/interfaces/repositories/catalog-repository.js';
 import { InputValidator } from '../../domain/services/validation/index.js';
@@ -11,6 +12,7 @@ import { isSome } from '../../domain/functional/index.js';
 export interface ListCategoriesToolParams extends ToolParams {
   sortBy?: 'name' | 'popularity' | 'documentCount';
   limit?: number;
+  cursor?: string;
   search?: string;
 }
 
@@ -40,7 +42,7 @@ DO NOT USE for:
 - Finding where a concept appears (use concept_search or source_concepts)
 - Getting documents in a known category (use category_search with the category name)
 
-RETURNS: Array of categories with names, descriptions, aliases, hierarchy paths, parent/child relationships, and statistics (document count, chunk count, concept count). Includes summary with total categories and root category count.
+RETURNS: Array of categories with names, descriptions, aliases, hierarchy paths, parent/child relationships, and statistics (document count, chunk count, concept count). Includes summary with total categories and root category count, and next_cursor to pass back as cursor for the next page (null on the last page).
 
 COMMON WORKFLOW: Use list_categories first to discover available categories, then use category_search with a specific category name to get documents in that category.`;
   
@@ -54,8 +56,9 @@ COMMON WORKFLOW: Use list_categories first to discover available categories, the
       },
       limit: {
         type: "number",
-        description: "Maximum number of categories to return (default: 50)"
+        description: "Maximum number of categories per page (default: 50)"
       },
+      cursor: cursorSchema,
       search: {
         type: "string",
         description: "Optional filter by category name or description"
@@ -68,6 +71,9 @@ COMMON WORKFLOW: Use list_categories first to discover available categories, the
     try {
       // Validate input
       this.validator.validateListCategories(params);
+      const sortBy = params.sortBy || 'popularity';
+      const fingerprint = requestFingerprint(this.name, { sortBy, search: params.search });
+      const offset = decodeCursor(params.cursor, fingerprint);
       
       // Get all categories
       let categories = await this.categoryRepo.findAll();
@@ -82,18 +88,18 @@ COMMON WORKFLOW: Use list_categories first to discover available categories, the
         );
       }
       
-      // Sort categories
-      const sortBy = params.sortBy || 'popularity';
+      // Sort categories (ties by ID for a stable page order)
       if (sortBy === 'name') {
-        categories.sort((a, b) => a.category.localeCompare(b.category));
+        categories.sort((a, b) => a.category.localeCompare(b.category) || a.id - b.id);
       } else {
         // Sort by document count (popularity)
-        categories.sort((a, b) => b.documentCount - a.documentCount);
+        categories.sort((a, b) => b.documentCount - a.documentCount || a.id - b.id);
       }
       
-      // Limit results
+      // Page results
       const limit = params.limit || 50;
-      const limitedCategories = categories.slice(0, limit);
+      const page = paginate(categories, offset, limit, fingerprint);
+      const limitedCategories = page.items;
       
       // Format output (fetch additional data for each category)
       const formattedCategories = await Promise.all(limitedCategories.map(async cat => {
@@ -148,7 +154,8 @@ COMMON WORKFLOW: Use list_categories first to discover available categories, the
           sortedBy: sortBy,
           searchQuery: params.search || null
         },
-        categories: formattedCategories
+        categories: formattedCategories,
+        next_cursor: page.nextCursor
       }, null, 2);
       
       return {
@@ -3,6 +3,7 @@
  */
 
 import { BaseTool, ToolParams } from '../base/tool.js';
+import { cursorSchema, decodeCursor, paginate, requestFingerprint } from '../base/pagination.js';
 import type { CategoryRepository } from '../../domain/interfaces/category-repository.js';
 import { CatalogRepository } from '../../domain/interfaces/repositories/catalog-repository.js';
 import { ConceptRepository } from '../../domain/interfaces/repositories/concept-repository.js';
@@ -12,8 +13,12 @@ export interface ListConceptsInCategoryToolParams extends ToolParams {
   category: string;
   sortBy?: 'name' | 'documentCount';
   limit?: number;
+  cursor?: string;
 }
 
+/** Concepts looked up concurrently while loading a category's concepts */
+const CONCEPT_FETCH_BATCH_SIZE = 50;
+
 export class ListConceptsInCategoryTool extends BaseTool<ListConceptsInCategoryToolParams> {
   constructor(
     private categoryRepo: CategoryRepository,
@@ -39,7 +44,7 @@ DO NOT USE for:
 - Searching for content about a concept (use broad_chunks_search)
 - Discovering categories (use list_categories first)
 
-RETURNS: Category metadata, statistics (total documents, chunks, unique concepts), and list of concepts sorted by document count (how many documents mention each concept) or alphabetically. Includes concept weight/importance scores.
+RETURNS: Category metadata, statistics (total documents, chunks, unique concepts), and list of concepts sorted by document count (how many documents mention each concept) or alphabetically. Includes concept weight/importance scores, and next_cursor to pass back as cursor for the next page (null on the last page).
 
 COMMON WORKFLOW: Use list_categories to discover domains, then use this tool to understand what concepts are covered in that domain. For deeper exploration, use concept_search with specific concepts found.`;
   
@@ -57,14 +62,19 @@ COMMON WORKFLOW: Use list_categories to discover domains, then use this tool to
       },
       limit: {
         type: "number",
-        description: "Maximum number of concepts to return (default: 50)"
-      }
+        description: "Maximum number of concepts per page (default: 50)"
+      },
+      cursor: cursorSchema
     },
     required: ["category"]
   };
   
   async execute(params: ListConceptsInCategoryToolParams) {
     try {
+      const sortBy = params.sortBy || 'documentCount';
+      const fingerprint = requestFingerprint(this.name, { category: params.category, sortBy });
+      const offset = decodeCursor(params.cursor, fingerprint);
+      
       // Resolve category
       const category = await this.categoryRepo.resolveCategory(params.category);
       
@@ -84,39 +94,42 @@ COMMON WORKFLOW: Use list_categories to discover domains, then use this tool to
       // Get unique concepts in this category (query-time computation)
       const conceptIds = await this.catalogRepo.getConceptsInCategory(category.id);
       
-      // Fetch concept details
-      const limit = params.limit || 50;
-      const conceptsToFetch = conceptIds.slice(0, Math.min(conceptIds.length, 200)); // Fetch up to 200 for sorting
-      
-      // Fetch concepts by ID
+      // Fetch details of all concepts (every page is sliced from the full sorted list)
       const concepts = [];
-      for (const conceptId of conceptsToFetch) {
-        try {
-          const conceptOption = await this.conceptRepo.findById(conceptId);
-          if (isSome(conceptOption)) {
-            const concept = conceptOption.value;
-            concepts.push({
-              id: conceptId,
-              name: concept.name,
-              documentCount: concept.catalogIds?.length || 0,
-              weight: concept.weight || 0
-            });
+      for (let i = 0; i < conceptIds.length; i += CONCEPT_FETCH_BATCH_SIZE) {
+        const batch = await Promise.all(conceptIds.slice(i, i + CONCEPT_FETCH_BATCH_SIZE).map(async conceptId => {
+          try {
+            const conceptOption = await this.conceptRepo.findById(conceptId);
+            if (isSome(conceptOption)) {
+              const concept = conceptOption.value;
+              return {
+                id: conceptId,
+                name: concept.name,
+                documentCount: concept.catalogIds?.length || 0,
+                weight: concept.weight || 0
+              };
+            }
+          } catch {
+            // Skip concepts that can't be found
           }
-        } catch {
-          // Skip concepts that can't be found
+          return null;
+        }));
+        for (const concept of batch) {
+          if (concept) concepts.push(concept);
         }
       }
       
-      // Sort concepts
-      const sortBy = params.sortBy || 'documentCount';
+      // Sort concepts (ties by ID for a stable page order)
       if (sortBy === 'documentCount') {
-        concepts.sort((a, b) => b.documentCount - a.documentCount);
+        concepts.sort((a, b) => b.documentCount - a.documentCount || a.id - b.id);
       } else {
-        concepts.sort((a, b) => a.name.localeCompare(b.name));
+        concepts.sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
       }
       
-      // Limit results
-      const limitedConcepts = concepts.slice(0, limit);
+      // Page results
+      const limit = params.limit || 50;
+      const page = paginate(concepts, offset, limit, fingerprint);
+      const limitedConcepts = page.items;
       
       // Get hierarchy path
       const hierarchyPath = await this.categoryRepo.getHierarchyPath(category.id);
@@ -136,6 +149,7 @@ COMMON WORKFLOW: Use list_categories to discover domains, then use this tool to
           conceptsReturned: limitedConcepts.length
         },
         concepts: limitedConcepts,
+        next_cursor: page.nextCursor,
         sortedBy: sortBy,
         note: 'Concepts are category-agnostic and appear across multiple categories'
       }, null, 2);
@@ -0,0 +1,156 @@
+import { BaseTool, ToolParams } from "../base/tool.js";
+import { FuzzyConceptSearchService, FuzzyConceptSearchResult } from "../../domain/services/fuzzy-concept-search-service.js";
+import { InputValidator } from "../../domain/services/validation/index.js";
+import { isErr } from "../../domain/functional/index.js";
+
+export interface SearchConceptsParams extends ToolParams {
+  text: string;
+  limit?: number;
+}
+
+/** Default number of concepts returned */
+const DEFAULT_SEARCH_CONCEPTS_LIMIT = 10;
+
+/**
+ * MCP tool for concept discovery.
+ * Thin adapter that delegates to FuzzyConceptSearchService.
+ */
+export class SearchConceptsTool extends BaseTool<SearchConceptsParams> {
+  private validator = new InputValidator();
+
+  constructor(
+    private fuzzyConceptSearchService: FuzzyConceptSearchService
+  ) {
+    super();
+  }
+
+  name = "search_concepts";
+  description = `Discover concept names: a ranked list of the concepts matching a query, with summaries and document counts.
+
+Matches concept names by prefix ("dependency inj"), by their words even when misspelled ("dependancy injection"), synonyms, and summaries by meaning.
+
+USE THIS TOOL WHEN:
+- You don't know the exact name of a concept before calling concept_search
+- Exploring which concepts the library has on a topic
+- Checking whether a concept exists and how widely it is covered
+
+DO NOT USE for:
+- Finding content about a concept (pass a concept name found here to concept_search)
+- Keyword or phrase searches in documents (use broad_chunks_search)
+- Finding documents (use catalog_search)
+
+RETURNS: { query, concepts }, concepts ranked by score, each with:
+- concept: the name to pass to concept_search
+- summary, synonyms
+- document_count / chunk_count: how many documents and chunks mention it
+- score and scores: the hybrid score and its name, vector, keyword (bm25) and synonym signals`;
+  inputSchema = {
+    type: "object" as const,
+    properties: {
+      text: {
+        type: "string",
+        description: "Concept name, name prefix or topic to search for",
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        maximum: 100,
+        description: "Maximum concepts to return (default: 10)"
+      }
+    },
+    required: ["text"],
+  };
+
+  async execute(params: SearchConceptsParams) {
+    // Validate input
+    try {
+      this.validator.validateSearchConcepts(params);
+    } catch (error: any) {
+      console.error(`❌ Validation failed: ${error.message}`);
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              code: error.code || 'VALIDATION_ERROR',
+              message: error.message,
+              field: error.field,
+              context: error.context
+            },
+            timestamp: new Date().toISOString()
+          })
+        }]
+      };
+    }
+
+    const result = await this.fuzzyConceptSearchService.searchConcepts({
+      text: params.text,
+      limit: params.limit ?? DEFAULT_SEARCH_CONCEPTS_LIMIT,
+      debug: process.env.DEBUG_SEARCH === 'true'
+    });
+
+    // Handle Result type
+    if (isErr(result)) {
+      const error = result.error;
+      const errorMessage =
+        error.type === 'validation' ? error.message :
+        error.type === 'database' ? error.message :
+        error.type === 'empty_results' ? `No concepts found for: ${error.query}` :
+        error.type === 'unknown' ? error.message :
+        'An unknown error occurred';
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              type: error.type,
+              message: errorMessage
+            },
+            timestamp: new Date().toISOString()
+          })
+        }],
+        isError: true,
+      };
+    }
+
+    // @ts-expect-error - Type narrowing limitation
+    const concepts: FuzzyConceptSearchResult[] = result.value;
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            query: params.text,
+            concepts: concepts.map(formatConcept)
+          }, null, 2)
+        },
+      ],
+      isError: false,
+    };
+  }
+}
+
+/** Round a score for display */
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function formatConcept(concept: FuzzyConceptSearchResult) {
+  return {
+    concept: concept.concept,
+    summary: concept.summary,
+    synonyms: concept.synonyms,
+    document_count: concept.documentCount,
+    chunk_count: concept.chunkCount,
+    score: round(concept.hybridScore),
+    scores: {
+      name: round(concept.nameScore),
+      vector: round(concept.vectorScore),
+      bm25: round(concept.bm25Score),
+      synonym: round(concept.wordnetScore)
+    }
+  };
+}
@@ -0,0 +1,170 @@
+import { BaseTool, ToolParams } from "../base/tool.js";
+import { SimilarDocumentsService, SimilarDocumentsResult, SimilarDocument } from "../../domain/services/similar-documents-service.js";
+import { InputValidator } from "../../domain/services/validation/index.js";
+import { isErr } from "../../domain/functional/index.js";
+
+export interface SimilarDocumentsParams extends ToolParams {
+  catalog_id?: number;
+  source?: string;
+  limit?: number;
+}
+
+/** Default number of similar documents returned */
+const DEFAULT_SIMILAR_DOCUMENTS_LIMIT = 10;
+
+/** Maximum shared concept names listed per result */
+const MAX_SHARED_CONCEPTS = 10;
+
+/**
+ * MCP tool for finding documents similar to a document.
+ * Thin adapter that delegates to SimilarDocumentsService.
+ */
+export class SimilarDocumentsTool extends BaseTool<SimilarDocumentsParams> {
+  private validator = new InputValidator();
+
+  constructor(
+    private similarDocumentsService: SimilarDocumentsService
+  ) {
+    super();
+  }
+
+  name = "similar_documents";
+  description = `Find the documents in the library most similar to a given document ("more like this").
+
+Similarity combines the documents' summary embeddings (50%), the overlap of their concepts (35%) and of their categories (15%). Each result lists the concepts and categories it shares with the document.
+
+USE THIS TOOL WHEN:
+- "What else in my library is like this book?"
+- Expanding a reading list from a known document
+- Finding related sources after catalog_search found a good one
+
+DO NOT USE for:
+- Finding documents about a topic (use catalog_search)
+- Finding documents discussing a concept (use source_concepts)
+
+Identify the document by catalog_id or by source path (as returned by catalog_search), not both.
+
+RETURNS: { document, similar }, similar documents most similar first, each with:
+- catalog_id, source
+- score and scores: the combined similarity and its vector, concepts and categories signals (0-1)
+- shared_concepts (first ${MAX_SHARED_CONCEPTS}) and shared_concept_count, shared_categories`;
+  inputSchema = {
+    type: "object" as const,
+    properties: {
+      catalog_id: {
+        type: "integer",
+        description: "Catalog ID of the document"
+      },
+      source: {
+        type: "string",
+        description: "Source path of the document"
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        maximum: 50,
+        description: "Maximum similar documents to return (default: 10)"
+      }
+    },
+    required: [],
+  };
+
+  async execute(params: SimilarDocumentsParams) {
+    // Validate input
+    try {
+      this.validator.validateSimilarDocuments({
+        catalogId: params.catalog_id,
+        source: params.source,
+        limit: params.limit
+      });
+    } catch (error: any) {
+      console.error(`❌ Validation failed: ${error.message}`);
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              code: error.code || 'VALIDATION_ERROR',
+              message: error.message,
+              field: error.field,
+              context: error.context
+            },
+            timestamp: new Date().toISOString()
+          })
+        }]
+      };
+    }
+
+    const result = await this.similarDocumentsService.findSimilarDocuments({
+      catalogId: params.catalog_id,
+      source: params.source,
+      limit: params.limit ?? DEFAULT_SIMILAR_DOCUMENTS_LIMIT
+    });
+
+    // Handle Result type
+    if (isErr(result)) {
+      const error = result.error;
+      const errorMessage =
+        error.type === 'validation' ? error.message :
+        error.type === 'not_found' ? `Document not found: ${error.resource}` :
+        error.type === 'database' ? error.message :
+        error.type === 'unknown' ? error.message :
+        'An unknown error occurred';
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: {
+              type: error.type,
+              message: errorMessage
+            },
+            timestamp: new Date().toISOString()
+          })
+        }],
+        isError: true,
+      };
+    }
+
+    // @ts-expect-error - Type narrowing limitation
+    const { document, similar }: SimilarDocumentsResult = result.value;
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            document: {
+              catalog_id: document.catalogId,
+              source: document.source
+            },
+            similar: similar.map(formatSimilarDocument)
+          }, null, 2)
+        },
+      ],
+      isError: false,
+    };
+  }
+}
+
+/** Round a score for display */
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function formatSimilarDocument(similar: SimilarDocument) {
+  return {
+    catalog_id: similar.document.catalogId,
+    source: similar.document.source,
+    score: round(similar.score),
+    scores: {
+      vector: round(similar.vectorScore),
+      concepts: round(similar.conceptScore),
+      categories: round(similar.categoryScore)
+    },
+    shared_concepts: similar.sharedConcepts.slice(0, MAX_SHARED_CONCEPTS),
+    shared_concept_count: similar.sharedConcepts.length,
+    shared_categories: similar.sharedCategories
+  };
+}